@@ -7,6 +7,8 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import RadarAdventure from "./pages/RadarAdventure";
+import Trophies from "./pages/Trophies";
+import AchievementToaster from "./components/AchievementToaster";
 
 const queryClient = new QueryClient();
 
@@ -15,10 +17,12 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <AchievementToaster />
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/radar-adventure" element={<RadarAdventure />} />
+          <Route path="/trophies" element={<Trophies />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
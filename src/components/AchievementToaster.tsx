@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { subscribeToAchievements } from '@/lib/achievements';
+
+// Announces every newly unlocked achievement, whichever lab reported it
+export const AchievementToaster = () => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => subscribeToAchievements((_, newlyUnlocked) => {
+    newlyUnlocked.forEach(achievement => {
+      toast({
+        title: t('achievements.unlocked'),
+        description: `${t(achievement.name)} – ${t(achievement.description)}`,
+      });
+    });
+  }), [toast, t]);
+
+  return null;
+};
+
+export default AchievementToaster;
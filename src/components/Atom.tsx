@@ -1,75 +1,17 @@
 
 import React, { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { getNuclideName, nuclides, NuclideId } from '@/lib/nuclides';
 
 export interface AtomProps {
-  element: 'uranium235' | 'uranium238' | 'plutonium239' | 'thorium232' | 'uranium239' | 'neptunium239';
+  element: NuclideId;
   size?: 'sm' | 'md' | 'lg';
   onClick?: () => void;
   isActive?: boolean;
   className?: string;
 }
 
-interface ElementProperties {
-  name: string;
-  symbol: string;
-  color: string;
-  protons: number;
-  neutrons: number;
-  canFission: boolean;
-}
-
-const elementData: Record<AtomProps['element'], ElementProperties> = {
-  uranium235: {
-    name: 'Uran-235',
-    symbol: 'U-235',
-    color: 'bg-atom-uranium235',
-    protons: 92,
-    neutrons: 143,
-    canFission: true,
-  },
-  uranium238: {
-    name: 'Uran-238',
-    symbol: 'U-238',
-    color: 'bg-atom-uranium238',
-    protons: 92,
-    neutrons: 146,
-    canFission: false,
-  },
-  uranium239: {
-    name: 'Uran-239',
-    symbol: 'U-239',
-    color: 'bg-atom-uranium239',
-    protons: 92,
-    neutrons: 147,
-    canFission: false,
-  },
-  neptunium239: {
-    name: 'Neptunium-239',
-    symbol: 'Np-239',
-    color: 'bg-atom-neptunium239',
-    protons: 93,
-    neutrons: 146,
-    canFission: false,
-  },
-  plutonium239: {
-    name: 'Plutonium-239',
-    symbol: 'Pu-239',
-    color: 'bg-atom-plutonium239',
-    protons: 94,
-    neutrons: 145,
-    canFission: true,
-  },
-  thorium232: {
-    name: 'Thorium-232',
-    symbol: 'Th-232',
-    color: 'bg-atom-thorium232',
-    protons: 90,
-    neutrons: 142,
-    canFission: false,
-  },
-};
-
 const sizeClasses = {
   sm: {
     atom: 'w-24 h-24',
@@ -95,7 +37,8 @@ export const Atom = ({
   isActive = false,
   className,
 }: AtomProps) => {
-  const elementInfo = elementData[element];
+  const { t } = useI18n();
+  const elementInfo = nuclides[element];
   const { atom: atomSize, nucleus: nucleusSize, shell: shellSize } = sizeClasses[size];
   
   return (
@@ -122,7 +65,7 @@ export const Atom = ({
       </div>
       
       <div className="absolute -bottom-8 text-center w-full text-sm font-medium">
-        {elementInfo.name}
+        {getNuclideName(elementInfo, t)}
       </div>
     </div>
   );
@@ -8,13 +8,24 @@ import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
 import { Bomb, AlertTriangle, Radiation, Zap } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey, MessageParams } from '@/lib/i18n';
+
+export type BombMaterial = 'uranium' | 'plutonium';
+export type BombDesign = 'gun' | 'implosion';
+
+interface Buildability {
+  canBuild: boolean;
+  reason?: MessageKey;
+  params?: MessageParams;
+}
 
 interface BombLabProps {
   availableUranium235: number;
   uranium235Enrichment: number;
   availablePlutonium239: number;
   totalEnergy: number;
-  onDetonation: (yieldValue: number, type: string) => void;
+  onDetonation: (yieldValue: number, material: BombMaterial, design: BombDesign) => void;
   className?: string;
 }
 
@@ -26,14 +37,15 @@ export const BombLab = ({
   onDetonation,
   className 
 }: BombLabProps) => {
-  const [bombType, setBombType] = useState<'uranium' | 'plutonium'>('uranium');
-  const [designType, setDesignType] = useState<'gun' | 'implosion'>('gun');
+  const [bombType, setBombType] = useState<BombMaterial>('uranium');
+  const [designType, setDesignType] = useState<BombDesign>('gun');
   const [isArmed, setIsArmed] = useState(false);
   const [countdown, setCountdown] = useState(0);
   const [isDetonating, setIsDetonating] = useState(false);
   const [detonationProgress, setDetonationProgress] = useState(0);
   const [yieldEstimate, setYieldEstimate] = useState(0);
   const { toast } = useToast();
+  const { t, formatNumber } = useI18n();
 
   const criticalMasses = {
     uranium: {
@@ -51,12 +63,13 @@ export const BombLab = ({
     }
   }, [bombType]);
 
-  const calculateBuildability = () => {
+  const calculateBuildability = (): Buildability => {
     if (bombType === 'uranium') {
       if (uranium235Enrichment < 90) {
         return {
           canBuild: false,
-          reason: `Uran-Anreicherung zu niedrig (${uranium235Enrichment.toFixed(1)}%). Mindestens 90% benötigt.`
+          reason: 'bombLab.reasons.enrichment',
+          params: { enrichment: formatNumber(uranium235Enrichment, 1) }
         };
       }
       
@@ -64,14 +77,16 @@ export const BombLab = ({
       if (availableUranium235 < requiredMass) {
         return {
           canBuild: false, 
-          reason: `Nicht genug U-235 (${availableUranium235.toFixed(1)}kg). ${requiredMass}kg benötigt.`
+          reason: 'bombLab.reasons.uranium',
+          params: { amount: formatNumber(availableUranium235, 1), required: requiredMass }
         };
       }
     } else {
       if (availablePlutonium239 < criticalMasses.plutonium.implosion) {
         return {
           canBuild: false,
-          reason: `Nicht genug Pu-239 (${availablePlutonium239.toFixed(1)}kg). ${criticalMasses.plutonium.implosion}kg benötigt.`
+          reason: 'bombLab.reasons.plutonium',
+          params: { amount: formatNumber(availablePlutonium239, 1), required: criticalMasses.plutonium.implosion }
         };
       }
     }
@@ -79,11 +94,11 @@ export const BombLab = ({
     if (totalEnergy < 500) {
       return {
         canBuild: false,
-        reason: "Nicht genug Energie produziert. Mindestens 500 MeV benötigt."
+        reason: 'bombLab.reasons.energy'
       };
     }
     
-    return { canBuild: true, reason: "" };
+    return { canBuild: true };
   };
 
   const buildability = calculateBuildability();
@@ -116,8 +131,11 @@ export const BombLab = ({
     setIsArmed(!isArmed);
     if (!isArmed) {
       toast({
-        title: "Atomwaffe scharf geschaltet",
-        description: `${bombType === 'uranium' ? 'Uran' : 'Plutonium'}-Bombe mit ${designType === 'gun' ? 'Kanonen' : 'Implosions'}-Design.`,
+        title: t('bombLab.armed.title'),
+        description: t('bombLab.armed.description', {
+          material: t(`game.detonation.materials.${bombType}`),
+          design: t(`game.detonation.designs.${designType}`),
+        }),
         variant: "destructive"
       });
     }
@@ -156,10 +174,7 @@ export const BombLab = ({
   };
 
   const completeDetonation = () => {
-    onDetonation(
-      yieldEstimate, 
-      `${bombType === 'uranium' ? 'Uran' : 'Plutonium'}-${designType === 'gun' ? 'Kanonen' : 'Implosions'}`
-    );
+    onDetonation(yieldEstimate, bombType, designType);
     
     setTimeout(() => {
       setIsDetonating(false);
@@ -184,7 +199,7 @@ export const BombLab = ({
               <div className="absolute top-2 right-2 w-4 h-4 bg-red-500 rounded-full animate-pulse"></div>
             )}
           </div>
-          <div className="text-xs mt-1 text-center">Kanonen-Design (Little Boy)</div>
+          <div className="text-xs mt-1 text-center">{t('bombLab.visuals.gun')}</div>
         </div>
       );
     } else if (bombType === 'uranium' && designType === 'implosion') {
@@ -202,7 +217,7 @@ export const BombLab = ({
               <div className="absolute top-2 right-2 w-4 h-4 bg-red-500 rounded-full animate-pulse"></div>
             )}
           </div>
-          <div className="text-xs mt-1 text-center">Implosions-Design (Fat Man)</div>
+          <div className="text-xs mt-1 text-center">{t('bombLab.visuals.implosion')}</div>
         </div>
       );
     } else if (bombType === 'plutonium') {
@@ -220,7 +235,7 @@ export const BombLab = ({
               <div className="absolute top-2 right-2 w-4 h-4 bg-red-500 rounded-full animate-pulse"></div>
             )}
           </div>
-          <div className="text-xs mt-1 text-center">Plutonium-Implosions-Design</div>
+          <div className="text-xs mt-1 text-center">{t('bombLab.visuals.plutonium')}</div>
         </div>
       );
     }
@@ -236,12 +251,12 @@ export const BombLab = ({
         <div className="flex justify-between items-center">
           <h3 className="text-xl font-bold flex items-center">
             <Bomb className="mr-2 h-5 w-5" />
-            Atomwaffen-Labor
+            {t('bombLab.title')}
           </h3>
           {isArmed && (
             <div className="flex items-center text-red-500">
               <AlertTriangle className="mr-1 h-4 w-4" />
-              <span className="text-sm font-bold">SCHARF</span>
+              <span className="text-sm font-bold">{t('bombLab.armedBadge')}</span>
             </div>
           )}
         </div>
@@ -249,7 +264,7 @@ export const BombLab = ({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-4">
             <div>
-              <h4 className="text-sm font-medium mb-2">Materialauswahl:</h4>
+              <h4 className="text-sm font-medium mb-2">{t('bombLab.material')}</h4>
               <RadioGroup 
                 value={bombType} 
                 onValueChange={(value) => setBombType(value as 'uranium' | 'plutonium')}
@@ -259,9 +274,9 @@ export const BombLab = ({
                   <RadioGroupItem value="uranium" id="uranium" />
                   <Label htmlFor="uranium" className="flex items-center">
                     <div className="w-4 h-4 bg-yellow-500 rounded-full mr-2"></div>
-                    <span className="mr-2">Uran-235</span>
+                    <span className="mr-2">{t('bombLab.uranium')}</span>
                     <span className="text-xs text-gray-500">
-                      ({availableUranium235.toFixed(1)} kg, {uranium235Enrichment.toFixed(1)}% angereichert)
+                      {t('bombLab.uraniumStock', { amount: formatNumber(availableUranium235, 1), enrichment: formatNumber(uranium235Enrichment, 1) })}
                     </span>
                   </Label>
                 </div>
@@ -269,9 +284,9 @@ export const BombLab = ({
                   <RadioGroupItem value="plutonium" id="plutonium" />
                   <Label htmlFor="plutonium" className="flex items-center">
                     <div className="w-4 h-4 bg-purple-500 rounded-full mr-2"></div>
-                    <span className="mr-2">Plutonium-239</span>
+                    <span className="mr-2">{t('bombLab.plutonium')}</span>
                     <span className="text-xs text-gray-500">
-                      ({availablePlutonium239.toFixed(1)} kg)
+                      {t('bombLab.plutoniumStock', { amount: formatNumber(availablePlutonium239, 1) })}
                     </span>
                   </Label>
                 </div>
@@ -279,7 +294,7 @@ export const BombLab = ({
             </div>
             
             <div>
-              <h4 className="text-sm font-medium mb-2">Bombendesign:</h4>
+              <h4 className="text-sm font-medium mb-2">{t('bombLab.design')}</h4>
               <RadioGroup 
                 value={designType} 
                 onValueChange={(value) => setDesignType(value as 'gun' | 'implosion')}
@@ -293,8 +308,8 @@ export const BombLab = ({
                         <div className="w-1 h-2 bg-yellow-500"></div>
                         <div className="w-1 h-2 bg-yellow-500"></div>
                       </div>
-                      <span className="mr-2">Kanonendesign</span>
-                      <span className="text-xs text-gray-500">(nur für Uran-235)</span>
+                      <span className="mr-2">{t('bombLab.gun')}</span>
+                      <span className="text-xs text-gray-500">{t('bombLab.gunHint')}</span>
                     </div>
                   </Label>
                 </div>
@@ -305,8 +320,8 @@ export const BombLab = ({
                       <div className="w-5 h-5 bg-gray-700 rounded-full mr-2 flex items-center justify-center">
                         <div className="w-2 h-2 bg-red-500 rounded-full"></div>
                       </div>
-                      <span className="mr-2">Implosionsdesign</span>
-                      <span className="text-xs text-gray-500">(effizienter)</span>
+                      <span className="mr-2">{t('bombLab.implosion')}</span>
+                      <span className="text-xs text-gray-500">{t('bombLab.implosionHint')}</span>
                     </div>
                   </Label>
                 </div>
@@ -314,7 +329,7 @@ export const BombLab = ({
             </div>
             
             <div>
-              <h4 className="text-sm font-medium">Kritische Masse benötigt:</h4>
+              <h4 className="text-sm font-medium">{t('bombLab.criticalMass')}</h4>
               <div className="text-sm flex items-center">
                 <div className={cn(
                   "w-4 h-4 rounded-full mr-2",
@@ -328,7 +343,7 @@ export const BombLab = ({
             </div>
             
             <div className="mt-4">
-              <h4 className="text-sm font-medium">Verfügbare Energie:</h4>
+              <h4 className="text-sm font-medium">{t('bombLab.availableEnergy')}</h4>
               <Progress 
                 value={(totalEnergy / 1000) * 100} 
                 className="h-2 mt-1" 
@@ -342,10 +357,10 @@ export const BombLab = ({
           
           <div className="space-y-4">
             <div>
-              <h4 className="text-sm font-medium">Geschätzte Sprengkraft:</h4>
+              <h4 className="text-sm font-medium">{t('bombLab.estimatedYield')}</h4>
               <div className="flex items-center">
-                <span className="text-2xl font-bold">{yieldEstimate.toFixed(1)}</span>
-                <span className="ml-2">Kilotonnen TNT-Äquivalent</span>
+                <span className="text-2xl font-bold">{formatNumber(yieldEstimate, 1)}</span>
+                <span className="ml-2">{t('bombLab.kilotons')}</span>
               </div>
               
               <Progress 
@@ -357,9 +372,9 @@ export const BombLab = ({
               />
               
               <div className="text-xs text-gray-500 mt-1">
-                {yieldEstimate < 20 && "Geringe Sprengkraft"}
-                {yieldEstimate >= 20 && yieldEstimate < 50 && "Mittlere Sprengkraft"}
-                {yieldEstimate >= 50 && "Hohe Sprengkraft"}
+                {yieldEstimate < 20 && t('bombLab.yieldLow')}
+                {yieldEstimate >= 20 && yieldEstimate < 50 && t('bombLab.yieldMedium')}
+                {yieldEstimate >= 50 && t('bombLab.yieldHigh')}
               </div>
             </div>
             
@@ -367,9 +382,9 @@ export const BombLab = ({
               <div className="bg-amber-50 p-3 rounded border border-amber-200 text-amber-800 text-sm">
                 <div className="font-bold flex items-center">
                   <AlertTriangle className="h-4 w-4 mr-1" />
-                  Konstruktion nicht möglich:
+                  {t('bombLab.cannotBuild')}
                 </div>
-                <div className="mt-1">{buildability.reason}</div>
+                <div className="mt-1">{t(buildability.reason, buildability.params)}</div>
               </div>
             )}
             
@@ -381,12 +396,12 @@ export const BombLab = ({
             
             {isDetonating && (
               <div className="space-y-2">
-                <h4 className="text-sm font-medium">Kernspaltung läuft:</h4>
+                <h4 className="text-sm font-medium">{t('bombLab.fissionRunning')}</h4>
                 <Progress value={detonationProgress} className="h-2" />
                 <div className="flex justify-between text-xs">
-                  <span>Initiale Spaltung</span>
-                  <span>Kritikalität</span>
-                  <span>Explosion</span>
+                  <span>{t('bombLab.phases.initial')}</span>
+                  <span>{t('bombLab.phases.criticality')}</span>
+                  <span>{t('bombLab.phases.explosion')}</span>
                 </div>
                 
                 <div className="w-full h-40 relative bg-black rounded mt-4 overflow-hidden">
@@ -416,7 +431,7 @@ export const BombLab = ({
               isArmed ? "bg-amber-500 hover:bg-amber-600" : "bg-blue-500 hover:bg-blue-600"
             )}
           >
-            {isArmed ? "Entschärfen" : "Scharf schalten"}
+            {isArmed ? t('bombLab.disarm') : t('bombLab.arm')}
           </Button>
           
           <Button 
@@ -424,7 +439,7 @@ export const BombLab = ({
             disabled={!isArmed || isDetonating || countdown > 0}
             className="w-32 h-12 text-lg font-bold rounded-full bg-red-600 hover:bg-red-700 relative overflow-hidden"
           >
-            <span className="relative z-10">Detonieren</span>
+            <span className="relative z-10">{t('bombLab.detonate')}</span>
             {isArmed && (
               <span className="absolute inset-0 bg-red-400 animate-pulse"></span>
             )}
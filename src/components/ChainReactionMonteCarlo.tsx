@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Dices } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSimulationWorker } from '@/hooks/use-simulation-worker';
+import { useToast } from '@/hooks/use-toast';
+import { recordExperiment } from '@/lib/knowledge';
+import { randomSeed } from '@/lib/rng';
+import {
+  BranchingRequest,
+  BranchingResult,
+  getOffspringDistribution,
+  runBranchingTrials,
+} from '@/lib/branching';
+
+interface ChainReactionMonteCarloProps {
+  initialNeutrons: number;
+  kFactor: number;
+  className?: string;
+}
+
+interface BranchingRun {
+  request: BranchingRequest;
+  result: BranchingResult;
+}
+
+const PATH_COLOR = '#3b82f6';
+const MEAN_COLOR = '#1e3a8a';
+const EXPECTED_COLOR = '#ef4444';
+// Lowest neutron count on the fan chart, so a mean below one neutron stays visible
+const MIN_NEUTRONS = 0.1;
+
+// Runs many chain reactions in which every neutron draws its successors at
+// random, and shows how far they spread and how many die out
+export const ChainReactionMonteCarlo = ({ initialNeutrons, kFactor, className }: ChainReactionMonteCarloProps) => {
+  const { t, formatNumber, formatScientific } = useI18n();
+  const { toast } = useToast();
+  const [trials, setTrials] = useState(500);
+  const [generations, setGenerations] = useState(30);
+  const [run, setRun] = useState<BranchingRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const startTrials = useSimulationWorker(
+    () => new Worker(new URL('../lib/branching.worker.ts', import.meta.url), { type: 'module' }),
+    runBranchingTrials
+  );
+
+  const offspring = getOffspringDistribution(kFactor);
+
+  const finishRun = (request: BranchingRequest, result: BranchingResult) => {
+    setRun({ request, result });
+    setIsRunning(false);
+    if (request.k > 1 && result.extinction[result.extinction.length - 1] > 0) {
+      recordExperiment('criticality:random-extinction');
+    }
+  };
+
+  const runTrials = () => {
+    const request: BranchingRequest = { initialNeutrons, k: kFactor, generations, trials, seed: randomSeed() };
+    setIsRunning(true);
+    startTrials(request, result => finishRun(request, result), () => {
+      setIsRunning(false);
+      toast({
+        title: t('chainReaction.monteCarlo.failed'),
+        description: t('chainReaction.monteCarlo.failedDescription'),
+        variant: "destructive",
+      });
+    });
+  };
+
+  // Extinct trials end where they reach zero, which the log scale cannot show
+  const fanData = useMemo(() => {
+    if (!run) return [];
+    const { request, result } = run;
+    return result.mean.map((mean, generation) => {
+      const point: Record<string, number | null> = {
+        generation,
+        mean: mean >= MIN_NEUTRONS ? mean : null,
+        expected: request.initialNeutrons * request.k ** generation,
+      };
+      result.paths.forEach((path, i) => {
+        point[`path${i}`] = path[generation] > 0 ? path[generation] : null;
+      });
+      return point;
+    });
+  }, [run]);
+
+  const fanTicks = useMemo(() => {
+    if (!run) return [];
+    const { request, result } = run;
+    const largest = Math.max(
+      ...result.paths.flat(),
+      ...result.mean,
+      request.initialNeutrons * request.k ** request.generations
+    );
+    const decades = Math.max(1, Math.ceil(Math.log10(largest)));
+    return Array.from({ length: decades + 2 }, (_, i) => 10 ** (i - 1));
+  }, [run]);
+
+  const extinctionData = useMemo(() => run?.result.extinction.map((share, generation) => ({
+    generation,
+    simulated: share * 100,
+    theory: run.result.expectedExtinction[generation] * 100,
+  })) ?? [], [run]);
+
+  const formatCount = (value: number) => (value >= 1e5 ? formatScientific(value, 0) : formatNumber(value, 1));
+  const formatPercent = (value: number) => `${formatNumber(value, 1)} %`;
+
+  return (
+    <div className={cn('bg-gray-50 rounded-lg p-4 space-y-4', className)}>
+      <div>
+        <h3 className="font-medium flex items-center mb-1">
+          <Dices className="h-4 w-4 mr-2 text-blue-500" />
+          {t('chainReaction.monteCarlo.title')}
+        </h3>
+        <p className="text-sm text-gray-600">{t('chainReaction.monteCarlo.description')}</p>
+      </div>
+
+      <div className="text-sm">
+        <span className="text-gray-600 mr-2">{t('chainReaction.monteCarlo.offspring')}</span>
+        {offspring.map((chance, count) => (
+          <span key={count} className="inline-block mr-1 mb-1 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-700">
+            {count}: {formatPercent(chance * 100)}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <div className="flex justify-between mb-2">
+            <span>{t('chainReaction.monteCarlo.trials')}</span>
+            <span>{formatNumber(trials)}</span>
+          </div>
+          <Slider value={[trials]} onValueChange={values => setTrials(values[0])} min={100} max={2000} step={100} disabled={isRunning} />
+        </div>
+        <div>
+          <div className="flex justify-between mb-2">
+            <span>{t('chainReaction.monteCarlo.generations')}</span>
+            <span>{generations}</span>
+          </div>
+          <Slider value={[generations]} onValueChange={values => setGenerations(values[0])} min={10} max={60} step={5} disabled={isRunning} />
+        </div>
+      </div>
+
+      <Button className="w-full" onClick={runTrials} disabled={isRunning}>
+        <Dices className="h-4 w-4 mr-2" />
+        {isRunning ? t('chainReaction.monteCarlo.running') : t('chainReaction.monteCarlo.run')}
+      </Button>
+
+      {!run ? (
+        <p className="text-sm text-gray-500 text-center py-6">{t('chainReaction.monteCarlo.empty')}</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 text-center">
+            {t('chainReaction.monteCarlo.resultFor', {
+              trials: formatNumber(run.request.trials),
+              neutrons: run.request.initialNeutrons,
+              k: formatNumber(run.request.k, 2),
+            })}
+          </p>
+
+          <div>
+            <h4 className="font-medium text-sm mb-1">{t('chainReaction.monteCarlo.fanTitle')}</h4>
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={fanData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="generation" tick={{ fontSize: 11 }} />
+                  <YAxis
+                    scale="log"
+                    domain={[MIN_NEUTRONS, fanTicks[fanTicks.length - 1]]}
+                    ticks={fanTicks}
+                    tickFormatter={formatCount}
+                    allowDataOverflow
+                    tick={{ fontSize: 11 }}
+                    width={55}
+                  />
+                  {run.result.paths.map((_, i) => (
+                    <Line
+                      key={i}
+                      dataKey={`path${i}`}
+                      stroke={PATH_COLOR}
+                      strokeOpacity={0.3}
+                      strokeWidth={1}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  <Line dataKey="expected" stroke={EXPECTED_COLOR} strokeDasharray="5 5" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line dataKey="mean" stroke={MEAN_COLOR} strokeWidth={2.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex flex-wrap justify-center gap-x-4 text-xs">
+              <span style={{ color: PATH_COLOR }}>— {t('chainReaction.monteCarlo.singleTrials')}</span>
+              <span style={{ color: MEAN_COLOR }}>— {t('chainReaction.monteCarlo.mean')}</span>
+              <span style={{ color: EXPECTED_COLOR }}>- - {t('chainReaction.monteCarlo.expected')}</span>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-sm mb-1">{t('chainReaction.monteCarlo.extinctionTitle')}</h4>
+            <div className="h-[180px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={extinctionData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="generation" tick={{ fontSize: 11 }} />
+                  <YAxis domain={[0, 100]} unit=" %" tick={{ fontSize: 11 }} width={55} />
+                  <Tooltip
+                    formatter={(value: number) => formatPercent(value)}
+                    labelFormatter={(generation: number) => t('chainReaction.monteCarlo.generation', { generation })}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Line
+                    dataKey="simulated"
+                    name={t('chainReaction.monteCarlo.simulated')}
+                    stroke={PATH_COLOR}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    dataKey="theory"
+                    name={t('chainReaction.monteCarlo.theory')}
+                    stroke={EXPECTED_COLOR}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span className="text-gray-600">
+              {t('chainReaction.monteCarlo.extinctByEnd', { generations: run.request.generations })}
+            </span>
+            <span className="text-right">
+              <span className="font-bold">{formatPercent(run.result.extinction[run.request.generations] * 100)}</span>
+              <span className="text-gray-500 ml-1">
+                ({t('chainReaction.monteCarlo.theory')}: {formatPercent(run.result.expectedExtinction[run.request.generations] * 100)})
+              </span>
+            </span>
+            <span className="text-gray-600">{t('chainReaction.monteCarlo.ultimate')}</span>
+            <span className="text-right font-bold">{formatPercent(run.result.ultimateExtinction * 100)}</span>
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-gray-500">{t('chainReaction.monteCarlo.explanation')}</p>
+    </div>
+  );
+};
+
+export default ChainReactionMonteCarlo;
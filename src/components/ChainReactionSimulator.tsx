@@ -13,15 +13,48 @@ import {
   Legend, 
   ResponsiveContainer 
 } from 'recharts';
-import { Atom, Calculator, Play, Square, RotateCcw, RefreshCw } from 'lucide-react';
+import { Atom, Calculator, Dices, Link2, Play, Square, RotateCcw, RefreshCw, Timer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { recordExperiment } from '@/lib/knowledge';
+import { useI18n } from '@/hooks/use-i18n';
+import ChainReactionMonteCarlo from '@/components/ChainReactionMonteCarlo';
+import DelayedNeutronComparison from '@/components/DelayedNeutronComparison';
+import DecayChainExplorer from '@/components/DecayChainExplorer';
+import { DecayChainPresetId, decayChainPresets } from '@/lib/decay-chains';
+import { MAX_BRANCHING_K } from '@/lib/branching';
+import {
+  advancePointKinetics,
+  createCriticalKinetics,
+  FissionReactorType,
+  getReactivityFromK,
+  getTotalBeta,
+  PointKineticsState,
+  reactorKineticsParameters,
+} from '@/lib/reactor-kinetics';
 
 interface ChainReactionSimulatorProps {
   className?: string;
 }
 
-type ReactorState = 'subcritical' | 'critical' | 'supercritical' | 'idle';
+type ReactorState = 'subcritical' | 'critical' | 'supercritical' | 'prompt-critical' | 'idle';
+
+// With delayed neutrons the simulator runs the point kinetics of a uranium
+// core, one second of reactor time per step; without them every step is one
+// prompt neutron generation
+const KINETICS_REACTOR: FissionReactorType = 'pressurized-water';
+const KINETICS_STEP = 1; // s
+const PROMPT_CRITICAL_REACTIVITY = getTotalBeta(KINETICS_REACTOR) * 1e5; // pcm
+const GENERATION_TIME = reactorKineticsParameters[KINETICS_REACTOR].generationTime;
+// The fine k range around critical in which delayed neutrons matter
+const MIN_DELAYED_K = 0.99;
+const MAX_DELAYED_K = 1.01;
+// The run stops once this many neutrons are in flight
+const MAX_NEUTRONS = 1000000;
+// Steps kept for the visualisation and the chart
+const MAX_HISTORY = 50;
+const MAX_CHART_POINTS = 100;
 
 const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ className }) => {
   const [initialNeutrons, setInitialNeutrons] = useState<number>(1);
@@ -34,10 +67,26 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
   const [halfLife, setHalfLife] = useState<number>(5); // in time steps
   const [isDecayMode, setIsDecayMode] = useState<boolean>(false);
   const [decayDuration, setDecayDuration] = useState<number>(100); // total duration to simulate
+  // Every neutron draws its successors at random, over many trials at once
+  const [isStochastic, setIsStochastic] = useState<boolean>(false);
+  const isMonteCarlo = isStochastic && !isDecayMode;
+  const [delayedNeutrons, setDelayedNeutrons] = useState<boolean>(false);
+  const isDelayedMode = delayedNeutrons && !isStochastic && !isDecayMode;
+  // Whole decay chains from the nuclide registry instead of one made-up nuclide
+  const [isDecayChain, setIsDecayChain] = useState<boolean>(false);
+  const [decayChainPreset, setDecayChainPreset] = useState<DecayChainPresetId>('uranium-series');
+  const isDecayChainMode = isDecayChain && isDecayMode;
+  const isStepSimulation = !isMonteCarlo && !isDecayChainMode;
+  // e-folding time of the last step in seconds, negative while falling
+  const [reactorPeriod, setReactorPeriod] = useState<number | null>(null);
+  const kineticsRef = useRef<PointKineticsState | null>(null);
+  // Neutrons after the last step, read by the interval outside the state updaters
+  const lastNeutronsRef = useRef(0);
   const simulationRef = useRef<NodeJS.Timeout | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const neutronElementsRef = useRef<HTMLDivElement[]>([]);
   const { toast } = useToast();
+  const { t, formatDuration } = useI18n();
 
   const [chartData, setChartData] = useState<Array<{ step: number; neutrons: number }>>([
     { step: 0, neutrons: 0 }
@@ -59,8 +108,8 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
           setIsSimulating(false);
           
           toast({
-            title: "Zerfallsprozess abgeschlossen",
-            description: `Simulation über ${decayDuration} Jahre abgeschlossen.`,
+            title: t('chainReaction.toasts.decayDone'),
+            description: t('chainReaction.toasts.decayDoneDuration', { count: decayDuration }),
           });
           
           return nextStep;
@@ -81,7 +130,7 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
         clearInterval(simulationRef.current);
       }
     };
-  }, [isSimulating, simulationSpeed, kFactor, isDecayMode, halfLife, decayDuration]);
+  }, [isSimulating, simulationSpeed, kFactor, isDecayMode, halfLife, decayDuration, isDelayedMode]);
 
   useEffect(() => {
     if (canvasRef.current) {
@@ -90,6 +139,18 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
   }, [neutronCount, currentStep]);
 
   useEffect(() => {
+    if (isDelayedMode) {
+      const reactivity = getReactivityFromK(kFactor);
+      if (Math.abs(reactivity) < 1) {
+        setReactorState('critical');
+      } else if (reactivity < 0) {
+        setReactorState('subcritical');
+      } else {
+        setReactorState(reactivity >= PROMPT_CRITICAL_REACTIVITY ? 'prompt-critical' : 'supercritical');
+      }
+      return;
+    }
+
     if (kFactor < 0.99) {
       setReactorState('subcritical');
     } else if (kFactor > 1.01) {
@@ -97,7 +158,7 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
     } else {
       setReactorState('critical');
     }
-  }, [kFactor]);
+  }, [kFactor, isDelayedMode]);
 
   const handleStartSimulation = () => {
     if (isSimulating) return;
@@ -108,13 +169,27 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
     
     setNeutronCount([initialNeutrons]);
     setChartData([{ step: 0, neutrons: initialNeutrons }]);
+    lastNeutronsRef.current = initialNeutrons;
+    // The core was critical until the step to kFactor
+    kineticsRef.current = createCriticalKinetics(KINETICS_REACTOR, initialNeutrons);
     setIsSimulating(true);
+    if (isDecayMode) {
+      recordExperiment('isotopes:half-life');
+    } else {
+      reportAchievementEvent('chain-reaction-triggered');
+      if (reactorState === 'critical') {
+        recordExperiment('criticality:critical');
+      }
+      if (isDelayedMode && reactorState === 'supercritical') {
+        recordExperiment('criticality:delayed-neutrons');
+      }
+    }
     
     toast({
-      title: isDecayMode ? "Zerfallssimulation gestartet" : "Kettenreaktionssimulation gestartet",
+      title: isDecayMode ? t('chainReaction.toasts.decayStarted') : t('chainReaction.toasts.chainStarted'),
       description: isDecayMode 
-        ? `Halbwertszeit: ${halfLife} Jahre` 
-        : `Multiplikationsfaktor: ${kFactor.toFixed(2)}`,
+        ? t('chainReaction.toasts.startedHalfLife', { count: halfLife })
+        : t('chainReaction.toasts.startedK', { k: kFactor.toFixed(2) }),
     });
   };
 
@@ -127,8 +202,8 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
     }
     
     toast({
-      title: "Simulation angehalten",
-      description: `Simulation nach ${currentStep} Schritten gestoppt.`,
+      title: t('chainReaction.toasts.stopped'),
+      description: t('chainReaction.toasts.stoppedDescription', { steps: currentStep }),
     });
   };
 
@@ -137,102 +212,85 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
     setCurrentStep(0);
     setNeutronCount([0]);
     setChartData([{ step: 0, neutrons: 0 }]);
+    lastNeutronsRef.current = 0;
+    setReactorPeriod(null);
     
     if (simulationRef.current) {
       clearInterval(simulationRef.current);
     }
   };
 
+  // Appends one step to the neutron history and the chart
+  const recordStep = (newNeutrons: number) => {
+    lastNeutronsRef.current = newNeutrons;
+    setNeutronCount(prevNeutronCount => [...prevNeutronCount, newNeutrons].slice(-MAX_HISTORY));
+    setChartData(prevChartData => [...prevChartData, {
+      step: prevChartData.length,
+      neutrons: newNeutrons
+    }].slice(-MAX_CHART_POINTS));
+  };
+
   const simulateChainReaction = () => {
-    setNeutronCount(prevNeutronCount => {
-      const prevNeutrons = prevNeutronCount[prevNeutronCount.length - 1];
-      
+    const prevNeutrons = lastNeutronsRef.current;
+    
+    let newNeutrons: number;
+    if (isDelayedMode && kineticsRef.current) {
+      const previous = kineticsRef.current;
+      const next = advancePointKinetics(
+        KINETICS_REACTOR, previous, getReactivityFromK(kFactor), KINETICS_STEP, true, MAX_NEUTRONS
+      );
+      kineticsRef.current = next;
+      newNeutrons = Math.round(next.power);
+      setReactorPeriod(KINETICS_STEP / Math.log(next.power / previous.power));
+    } else {
       const randomFactor = 0.9 + Math.random() * 0.2;
       const effectiveK = kFactor * randomFactor;
       
-      let newNeutrons = Math.round(prevNeutrons * effectiveK);
-      
-      newNeutrons = Math.max(0, newNeutrons);
-      
-      const updatedNeutronCount = [...prevNeutronCount, newNeutrons];
-      
-      setChartData(prevChartData => {
-        const updatedChartData = [...prevChartData, { 
-          step: prevChartData.length, 
-          neutrons: newNeutrons 
-        }];
-        
-        if (updatedChartData.length > 100) {
-          return updatedChartData.slice(updatedChartData.length - 100);
-        }
-        
-        return updatedChartData;
+      newNeutrons = Math.max(0, Math.round(prevNeutrons * effectiveK));
+      setReactorPeriod(prevNeutrons > 0 && newNeutrons > 0 ? GENERATION_TIME / Math.log(newNeutrons / prevNeutrons) : null);
+    }
+    
+    recordStep(newNeutrons);
+    
+    if (newNeutrons >= MAX_NEUTRONS) {
+      handleStopSimulation();
+      reportAchievementEvent('chain-reaction-overloaded');
+      recordExperiment('criticality:supercritical');
+      toast({
+        title: t('chainReaction.toasts.overloaded'),
+        description: t('chainReaction.toasts.overloadedDescription'),
+        variant: "destructive",
       });
-      
-      if (updatedNeutronCount.length > 50) {
-        return updatedNeutronCount.slice(updatedNeutronCount.length - 50);
-      }
-      
-      if (newNeutrons > 1000000) {
-        handleStopSimulation();
-        toast({
-          title: "Simulation überlastet",
-          description: "Die Neutronenzahl ist explodiert! Simulation gestoppt.",
-          variant: "destructive",
-        });
-      } else if (newNeutrons === 0 && prevNeutrons > 0) {
-        handleStopSimulation();
-        toast({
-          title: "Reaktion erloschen",
-          description: "Alle Neutronen wurden absorbiert oder entkamen. Reaktion erloschen.",
-        });
-      }
-      
-      return updatedNeutronCount;
-    });
+    } else if (newNeutrons === 0 && prevNeutrons > 0) {
+      handleStopSimulation();
+      recordExperiment('criticality:subcritical');
+      toast({
+        title: t('chainReaction.toasts.extinguished'),
+        description: t('chainReaction.toasts.extinguishedDescription'),
+      });
+    }
   };
 
   const simulateDecay = () => {
-    setNeutronCount(prevNeutronCount => {
-      const prevNeutrons = prevNeutronCount[prevNeutronCount.length - 1];
-      
-      const decayFactor = Math.pow(0.5, 1 / halfLife);
-      let newNeutrons = Math.round(prevNeutrons * decayFactor);
-      
-      const randomFactor = 0.95 + Math.random() * 0.1;
-      newNeutrons = Math.round(newNeutrons * randomFactor);
-      
-      newNeutrons = Math.max(0, newNeutrons);
-      
-      const updatedNeutronCount = [...prevNeutronCount, newNeutrons];
-      
-      setChartData(prevChartData => {
-        const updatedChartData = [...prevChartData, { 
-          step: prevChartData.length, 
-          neutrons: newNeutrons 
-        }];
-        
-        if (updatedChartData.length > 100) {
-          return updatedChartData.slice(updatedChartData.length - 100);
-        }
-        
-        return updatedChartData;
+    const prevNeutrons = lastNeutronsRef.current;
+    
+    const decayFactor = Math.pow(0.5, 1 / halfLife);
+    let newNeutrons = Math.round(prevNeutrons * decayFactor);
+    
+    const randomFactor = 0.95 + Math.random() * 0.1;
+    newNeutrons = Math.round(newNeutrons * randomFactor);
+    
+    newNeutrons = Math.max(0, newNeutrons);
+    
+    recordStep(newNeutrons);
+    
+    if (newNeutrons < 1 && prevNeutrons > 0) {
+      handleStopSimulation();
+      toast({
+        title: t('chainReaction.toasts.decayDone'),
+        description: t('chainReaction.toasts.decayDoneDepleted'),
       });
-      
-      if (updatedNeutronCount.length > 50) {
-        return updatedNeutronCount.slice(updatedNeutronCount.length - 50);
-      }
-      
-      if (newNeutrons < 1 && prevNeutrons > 0) {
-        handleStopSimulation();
-        toast({
-          title: "Zerfallsprozess abgeschlossen",
-          description: "Das Material ist vollständig zerfallen.",
-        });
-      }
-      
-      return updatedNeutronCount;
-    });
+    }
   };
 
   const drawNeutronVisualization = () => {
@@ -268,7 +326,7 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
       ctx.fillRect(10, 10, 180, 30);
       ctx.fillStyle = '#ffffff';
       ctx.font = '12px Arial';
-      ctx.fillText(`Nur ${maxVisualNeutrons} von ${currentNeutrons} dargestellt`, 15, 30);
+      ctx.fillText(t('chainReaction.visualizationLimit', { shown: maxVisualNeutrons, total: currentNeutrons }), 15, 30);
     }
   };
 
@@ -277,6 +335,7 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
       case 'subcritical': return 'text-blue-500';
       case 'critical': return 'text-green-500';
       case 'supercritical': return 'text-red-500';
+      case 'prompt-critical': return 'text-red-700';
       default: return 'text-gray-500';
     }
   };
@@ -295,7 +354,7 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h2 className="text-2xl font-bold">
-            {isDecayMode ? "Radioaktiver Zerfall" : "Kettenreaktion"}
+            {isDecayMode ? t('chainReaction.decayTitle') : t('chainReaction.title')}
           </h2>
           <div className="flex space-x-2">
             <Button 
@@ -310,7 +369,7 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
               }}
             >
               <Atom className="h-4 w-4 mr-1" />
-              Kettenreaktion
+              {t('chainReaction.chainMode')}
             </Button>
             <Button 
               variant="outline" 
@@ -324,7 +383,7 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
               }}
             >
               <Calculator className="h-4 w-4 mr-1" />
-              Halbwertszeit
+              {t('chainReaction.halfLifeMode')}
             </Button>
           </div>
         </div>
@@ -332,60 +391,159 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-4">
             <div className="bg-gray-50 rounded-lg p-4">
-              <h3 className="font-medium mb-3">Simulationsparameter</h3>
+              <h3 className="font-medium mb-3">{t('chainReaction.parameters')}</h3>
               
               {isDecayMode ? (
                 <div className="space-y-4">
-                  <div>
-                    <div className="flex justify-between mb-2">
-                      <span>Anfangsmenge</span>
-                      <span>{initialNeutrons} Atome</span>
-                    </div>
-                    <Slider
-                      value={[initialNeutrons]}
-                      onValueChange={values => setInitialNeutrons(values[0])}
-                      min={1}
-                      max={1000}
-                      step={1}
-                      disabled={isSimulating}
-                    />
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className={cn("flex-1", !isDecayChain && "bg-red-50 border-red-200")}
+                      onClick={() => setIsDecayChain(false)}
+                    >
+                      {t('chainReaction.decayChains.modes.single')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className={cn("flex-1", isDecayChain && "bg-red-50 border-red-200")}
+                      onClick={() => {
+                        resetSimulation();
+                        setIsDecayChain(true);
+                      }}
+                    >
+                      <Link2 className="h-4 w-4 mr-1" />
+                      {t('chainReaction.decayChains.modes.chain')}
+                    </Button>
                   </div>
-                  
-                  <div>
-                    <div className="flex justify-between mb-2">
-                      <span>Halbwertszeit</span>
-                      <span>{halfLife} Jahre</span>
+
+                  {isDecayChain ? (
+                    <div>
+                      <div className="mb-2">{t('chainReaction.decayChains.choose')}</div>
+                      <div className="grid grid-cols-2 gap-2">
+                        {decayChainPresets.map(preset => (
+                          <Button
+                            key={preset.id}
+                            variant="outline"
+                            size="sm"
+                            className={cn(
+                              "h-auto py-2 whitespace-normal text-left justify-start",
+                              decayChainPreset === preset.id && "bg-red-50 border-red-200"
+                            )}
+                            onClick={() => setDecayChainPreset(preset.id)}
+                          >
+                            {t(preset.name)}
+                          </Button>
+                        ))}
+                      </div>
                     </div>
-                    <Slider
-                      value={[halfLife]}
-                      onValueChange={values => setHalfLife(values[0])}
-                      min={1}
-                      max={20}
-                      step={1}
-                      disabled={isSimulating}
-                    />
-                  </div>
+                  ) : (
+                    <>
+                      <div>
+                        <div className="flex justify-between mb-2">
+                          <span>{t('chainReaction.initialAmount')}</span>
+                          <span>{t('chainReaction.atomCount', { count: initialNeutrons })}</span>
+                        </div>
+                        <Slider
+                          value={[initialNeutrons]}
+                          onValueChange={values => setInitialNeutrons(values[0])}
+                          min={1}
+                          max={1000}
+                          step={1}
+                          disabled={isSimulating}
+                        />
+                      </div>
                   
-                  <div>
-                    <div className="flex justify-between mb-2">
-                      <span>Simulationsdauer</span>
-                      <span>{decayDuration} Jahre</span>
-                    </div>
-                    <Slider
-                      value={[decayDuration]}
-                      onValueChange={values => setDecayDuration(values[0])}
-                      min={20}
-                      max={200}
-                      step={10}
-                      disabled={isSimulating}
-                    />
-                  </div>
+                      <div>
+                        <div className="flex justify-between mb-2">
+                          <span>{t('chainReaction.halfLife')}</span>
+                          <span>{t('chainReaction.yearCount', { count: halfLife })}</span>
+                        </div>
+                        <Slider
+                          value={[halfLife]}
+                          onValueChange={values => setHalfLife(values[0])}
+                          min={1}
+                          max={20}
+                          step={1}
+                          disabled={isSimulating}
+                        />
+                      </div>
+                  
+                      <div>
+                        <div className="flex justify-between mb-2">
+                          <span>{t('chainReaction.duration')}</span>
+                          <span>{t('chainReaction.yearCount', { count: decayDuration })}</span>
+                        </div>
+                        <Slider
+                          value={[decayDuration]}
+                          onValueChange={values => setDecayDuration(values[0])}
+                          min={20}
+                          max={200}
+                          step={10}
+                          disabled={isSimulating}
+                        />
+                      </div>
+                    </>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-4">
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className={cn("flex-1", !isStochastic && "bg-blue-50 border-blue-200")}
+                      onClick={() => setIsStochastic(false)}
+                    >
+                      {t('chainReaction.modes.deterministic')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className={cn("flex-1", isStochastic && "bg-blue-50 border-blue-200")}
+                      onClick={() => {
+                        resetSimulation();
+                        setIsStochastic(true);
+                      }}
+                    >
+                      <Dices className="h-4 w-4 mr-1" />
+                      {t('chainReaction.modes.stochastic')}
+                    </Button>
+                  </div>
+
+                  {!isStochastic && (
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={cn("flex-1", !delayedNeutrons && "bg-blue-50 border-blue-200")}
+                        onClick={() => {
+                          resetSimulation();
+                          setDelayedNeutrons(false);
+                        }}
+                      >
+                        {t('chainReaction.kinetics.promptOnly')}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={cn("flex-1", delayedNeutrons && "bg-green-50 border-green-200")}
+                        onClick={() => {
+                          resetSimulation();
+                          setDelayedNeutrons(true);
+                          setKFactor(k => Math.min(MAX_DELAYED_K, Math.max(MIN_DELAYED_K, k)));
+                        }}
+                      >
+                        <Timer className="h-4 w-4 mr-1" />
+                        {t('chainReaction.kinetics.withDelayed')}
+                      </Button>
+                    </div>
+                  )}
+
                   <div>
                     <div className="flex justify-between mb-2">
-                      <span>Anfängliche Neutronen</span>
+                      <span>{t('chainReaction.initialNeutrons')}</span>
                       <span>{initialNeutrons}</span>
                     </div>
                     <Slider
@@ -400,22 +558,42 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
                   
                   <div>
                     <div className="flex justify-between mb-2">
-                      <span>Multiplikationsfaktor (k)</span>
-                      <span className={getStateColor()}>{kFactor.toFixed(2)}</span>
-                    </div>
-                    <Slider
-                      value={[kFactor * 100]}
-                      onValueChange={values => setKFactor(values[0] / 100)}
-                      min={80}
-                      max={200}
-                      step={1}
-                      disabled={isSimulating}
-                    />
-                    <div className="flex justify-between mt-1 text-xs text-gray-500">
-                      <span>0.8</span>
-                      <span>1.0</span>
-                      <span>2.0</span>
+                      <span>{t('chainReaction.kFactor')}</span>
+                      <span className={getStateColor()}>{kFactor.toFixed(isDelayedMode ? 4 : 2)}</span>
                     </div>
+                    {isDelayedMode ? (
+                      <>
+                        <Slider
+                          value={[kFactor * 10000]}
+                          onValueChange={values => setKFactor(values[0] / 10000)}
+                          min={MIN_DELAYED_K * 10000}
+                          max={MAX_DELAYED_K * 10000}
+                          step={5}
+                          disabled={isSimulating}
+                        />
+                        <div className="flex justify-between mt-1 text-xs text-gray-500">
+                          <span>{MIN_DELAYED_K.toFixed(3)}</span>
+                          <span>1.000</span>
+                          <span>{MAX_DELAYED_K.toFixed(3)}</span>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <Slider
+                          value={[kFactor * 100]}
+                          onValueChange={values => setKFactor(values[0] / 100)}
+                          min={80}
+                          max={Math.floor(MAX_BRANCHING_K * 100)}
+                          step={1}
+                          disabled={isSimulating}
+                        />
+                        <div className="flex justify-between mt-1 text-xs text-gray-500">
+                          <span>0.8</span>
+                          <span>1.0</span>
+                          <span>{MAX_BRANCHING_K.toFixed(2)}</span>
+                        </div>
+                      </>
+                    )}
                     
                     <div className="mt-2 flex items-center">
                       <Badge 
@@ -423,164 +601,191 @@ const ChainReactionSimulator: React.FC<ChainReactionSimulatorProps> = ({ classNa
                           "mr-2",
                           reactorState === 'subcritical' ? "bg-blue-500" :
                           reactorState === 'critical' ? "bg-green-500" :
-                          reactorState === 'supercritical' ? "bg-red-500" : ""
+                          reactorState === 'supercritical' ? "bg-red-500" :
+                          reactorState === 'prompt-critical' ? "bg-red-700" : ""
                         )}
                       >
-                        {reactorState === 'subcritical' ? "Unterkritisch" :
-                         reactorState === 'critical' ? "Kritisch" :
-                         reactorState === 'supercritical' ? "Überkritisch" : ""}
+                        {reactorState === 'subcritical' ? t('chainReaction.states.subcritical') :
+                         reactorState === 'critical' ? t('chainReaction.states.critical') :
+                         reactorState === 'supercritical' ? t('chainReaction.states.supercritical') :
+                         reactorState === 'prompt-critical' ? t('chainReaction.kinetics.states.promptCritical') : ""}
                       </Badge>
                       <span className="text-xs text-gray-500">
-                        {reactorState === 'subcritical' ? "Reaktion stirbt ab" :
-                         reactorState === 'critical' ? "Stabil" :
-                         reactorState === 'supercritical' ? "Unkontrollierte Kettenreaktion" : ""}
+                        {reactorState === 'subcritical' ? t('chainReaction.stateHints.subcritical') :
+                         reactorState === 'critical' ? t('chainReaction.stateHints.critical') :
+                         reactorState === 'supercritical' && isDelayedMode ? t('chainReaction.kinetics.states.delayedSupercritical') :
+                         reactorState === 'supercritical' ? t('chainReaction.stateHints.supercritical') :
+                         reactorState === 'prompt-critical' ? t('chainReaction.kinetics.states.promptCriticalHint') : ""}
                       </span>
                     </div>
                   </div>
                 </div>
               )}
               
-              <div className="mt-4">
-                <div className="flex justify-between mb-2">
-                  <span>Simulationsgeschwindigkeit</span>
-                  <span>x{simulationSpeed}</span>
-                </div>
-                <Slider
-                  value={[simulationSpeed]}
-                  onValueChange={values => setSimulationSpeed(values[0])}
-                  min={1}
-                  max={10}
-                  step={1}
-                />
-              </div>
-            </div>
-            
-            <div className="bg-gray-50 rounded-lg p-4 h-[180px] relative">
-              <h3 className="font-medium mb-2">Visualisierung</h3>
-              <canvas 
-                ref={canvasRef} 
-                className="absolute inset-0 w-full h-full" 
-                style={{ top: '30px' }}
-              />
-              {neutronCount[neutronCount.length - 1] === 0 && currentStep === 0 && (
-                <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-sm" style={{ top: '30px' }}>
-                  Starte die Simulation, um Teilchen zu sehen
+              {isStepSimulation && (
+                <div className="mt-4">
+                  <div className="flex justify-between mb-2">
+                    <span>{t('chainReaction.speed')}</span>
+                    <span>x{simulationSpeed}</span>
+                  </div>
+                  <Slider
+                    value={[simulationSpeed]}
+                    onValueChange={values => setSimulationSpeed(values[0])}
+                    min={1}
+                    max={10}
+                    step={1}
+                  />
                 </div>
               )}
             </div>
             
-            <div className="flex space-x-2">
-              <Button 
-                className={cn(
-                  "flex-1",
-                  isDecayMode ? "bg-red-500 hover:bg-red-600" : ""
-                )}
-                onClick={handleStartSimulation}
-                disabled={isSimulating}
-              >
-                <Play className="h-4 w-4 mr-2" />
-                {currentStep === 0 ? "Simulation starten" : "Fortsetzen"}
-              </Button>
-              
-              <Button 
-                className="flex-1"
-                variant="outline"
-                onClick={handleStopSimulation}
-                disabled={!isSimulating}
-              >
-                <Square className="h-4 w-4 mr-2" />
-                Anhalten
-              </Button>
-              
-              <Button 
-                className="aspect-square p-2"
-                variant="outline"
-                onClick={resetSimulation}
-                disabled={isSimulating && currentStep === 0}
-              >
-                <RotateCcw className="h-4 w-4" />
-              </Button>
-            </div>
+            {isStepSimulation && (
+              <>
+                <div className="bg-gray-50 rounded-lg p-4 h-[180px] relative">
+                  <h3 className="font-medium mb-2">{t('chainReaction.visualization')}</h3>
+                  <canvas 
+                    ref={canvasRef} 
+                    className="absolute inset-0 w-full h-full" 
+                    style={{ top: '30px' }}
+                  />
+                  {neutronCount[neutronCount.length - 1] === 0 && currentStep === 0 && (
+                    <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-sm" style={{ top: '30px' }}>
+                      {t('chainReaction.visualizationHint')}
+                    </div>
+                  )}
+                </div>
+                
+                <div className="flex space-x-2">
+                  <Button 
+                    className={cn(
+                      "flex-1",
+                      isDecayMode ? "bg-red-500 hover:bg-red-600" : ""
+                    )}
+                    onClick={handleStartSimulation}
+                    disabled={isSimulating}
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    {currentStep === 0 ? t('chainReaction.start') : t('chainReaction.resume')}
+                  </Button>
+                  
+                  <Button 
+                    className="flex-1"
+                    variant="outline"
+                    onClick={handleStopSimulation}
+                    disabled={!isSimulating}
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    {t('chainReaction.stop')}
+                  </Button>
+                  
+                  <Button 
+                    className="aspect-square p-2"
+                    variant="outline"
+                    onClick={resetSimulation}
+                    disabled={isSimulating && currentStep === 0}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                </div>
+              </>
+            )}
           </div>
           
           <div className="space-y-4">
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="flex justify-between items-center mb-4">
-                <h3 className="font-medium">Zeitlicher Verlauf</h3>
-                <div className="flex items-center">
-                  <span className="text-sm mr-2">Schritt:</span>
-                  <Badge variant="outline">{currentStep}</Badge>
+            {isMonteCarlo ? (
+              <ChainReactionMonteCarlo initialNeutrons={initialNeutrons} kFactor={kFactor} />
+            ) : isDecayChainMode ? (
+              <DecayChainExplorer presetId={decayChainPreset} />
+            ) : (
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="font-medium">{t('chainReaction.history')}</h3>
+                  <div className="flex items-center">
+                    <span className="text-sm mr-2">{t('chainReaction.step')}</span>
+                    <Badge variant="outline">{currentStep}</Badge>
+                  </div>
                 </div>
-              </div>
-              
-              <div className="h-[270px]">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart
-                    data={chartData}
-                    margin={{ top: 5, right: 20, left: 10, bottom: 5 }}
-                  >
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis 
-                      dataKey="step"
-                      label={{ value: isDecayMode ? 'Jahre' : 'Zeit', position: 'insideBottomRight', offset: -5 }}
-                    />
-                    <YAxis 
-                      label={{ 
-                        value: isDecayMode ? 'Atomanzahl' : 'Neutronen', 
-                        angle: -90, 
-                        position: 'insideLeft',
-                        style: { textAnchor: 'middle' }
-                      }}
-                      tickFormatter={formatNumber}
-                      domain={['auto', 'auto']}
-                      allowDataOverflow={true}
-                    />
-                    <Tooltip 
-                      formatter={(value: number) => [formatNumber(value), isDecayMode ? 'Atome' : 'Neutronen']}
-                      labelFormatter={(label) => isDecayMode ? `Jahr ${label}` : `Schritt ${label}`}
-                    />
-                    <Line 
-                      type="monotone" 
-                      dataKey="neutrons" 
-                      name={isDecayMode ? "Atomanzahl" : "Neutronen"}
-                      stroke={isDecayMode ? "#e11d48" : "#3b82f6"} 
-                      dot={false}
-                      activeDot={{ r: 4 }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
-              
-              <div className="mt-4 text-center text-sm">
-                <div className="font-medium">
-                  {isDecayMode ? "Atome verbleibend" : "Aktuelle Neutronen"}:
-                  <span className="ml-2 text-lg font-bold">
-                    {formatNumber(neutronCount[neutronCount.length - 1] || 0)}
-                  </span>
+                
+                <div className="h-[270px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart
+                      data={chartData}
+                      margin={{ top: 5, right: 20, left: 10, bottom: 5 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis 
+                        dataKey="step"
+                        label={{ value: isDecayMode
+                            ? t('chainReaction.axis.years')
+                            : isDelayedMode ? t('chainReaction.kinetics.seconds') : t('chainReaction.axis.time'), position: 'insideBottomRight', offset: -5 }}
+                      />
+                      <YAxis 
+                        label={{ 
+                          value: isDecayMode ? t('chainReaction.axis.atoms') : t('chainReaction.axis.neutrons'),
+                          angle: -90, 
+                          position: 'insideLeft',
+                          style: { textAnchor: 'middle' }
+                        }}
+                        tickFormatter={formatNumber}
+                        domain={['auto', 'auto']}
+                        allowDataOverflow={true}
+                      />
+                      <Tooltip 
+                        formatter={(value: number) => [
+                          formatNumber(value),
+                          isDecayMode ? t('chainReaction.tooltip.atoms') : t('chainReaction.tooltip.neutrons'),
+                        ]}
+                        labelFormatter={(label) => t(isDecayMode ? 'chainReaction.tooltip.year' : 'chainReaction.tooltip.step', { step: label })}
+                      />
+                      <Line 
+                        type="monotone" 
+                        dataKey="neutrons" 
+                        name={isDecayMode ? t('chainReaction.axis.atoms') : t('chainReaction.axis.neutrons')}
+                        stroke={isDecayMode ? "#e11d48" : "#3b82f6"} 
+                        dot={false}
+                        activeDot={{ r: 4 }}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                
+                <div className="mt-4 text-center text-sm">
+                  <div className="font-medium">
+                    {isDecayMode ? t('chainReaction.atomsLeft') : t('chainReaction.currentNeutrons')}:
+                    <span className="ml-2 text-lg font-bold">
+                      {formatNumber(neutronCount[neutronCount.length - 1] || 0)}
+                    </span>
+                  </div>
+                  {!isDecayMode && reactorPeriod !== null && (
+                    <div className="text-gray-600">
+                      {t('chainReaction.kinetics.livePeriod')}:
+                      <span className="ml-2 font-mono font-bold">{formatDuration(reactorPeriod)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
+            )}
             
             <div className="bg-blue-50 rounded-lg p-4 text-sm">
-              <h3 className="font-medium mb-2">Wusstest du?</h3>
-              {isDecayMode ? (
-                <p>
-                  Die Halbwertszeit ist die Zeit, nach der die Hälfte aller radioaktiven Atome zerfallen ist. 
-                  Dies folgt einer exponentiellen Funktion: Nach 2 Halbwertszeiten ist nur noch 1/4, nach 3 Halbwertszeiten nur noch 1/8 der ursprünglichen Menge übrig.
-                  In dieser Simulation kannst du diesen exponentiellen Abfall deutlich beobachten.
-                </p>
+              <h3 className="font-medium mb-2">{t('chainReaction.didYouKnow')}</h3>
+              {isDecayChainMode ? (
+                <p>{t('chainReaction.decayChains.didYouKnow')}</p>
+              ) : isDecayMode ? (
+                <p>{t('chainReaction.halfLifeFact')}</p>
               ) : (
                 <p>
-                  Der Multiplikationsfaktor k bestimmt das Reaktorverhalten:<br />
-                  • k &lt; 1: Reaktion stirbt exponentiell ab (unterkritisch)<br />
-                  • k = 1: Stabile Reaktion (kritisch)<br />
-                  • k &gt; 1: Exponentielles Wachstum (überkritisch)<br />
-                  • Bei k = 2: Die Neutronenzahl verdoppelt sich bei jedem Schritt, was zu einer exponentiellen Zunahme führt!
+                  {t('chainReaction.kFact.intro')}<br />
+                  {t('chainReaction.kFact.subcritical')}<br />
+                  {t('chainReaction.kFact.critical')}<br />
+                  {t('chainReaction.kFact.supercritical')}<br />
+                  {t('chainReaction.kFact.doubling')}
                 </p>
               )}
             </div>
           </div>
         </div>
+
+        {!isDecayMode && !isStochastic && <DelayedNeutronComparison kFactor={kFactor} reactorType={KINETICS_REACTOR} />}
       </div>
     </Card>
   );
@@ -0,0 +1,441 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Shapes } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSimulationWorker } from '@/hooks/use-simulation-worker';
+import { useToast } from '@/hooks/use-toast';
+import type { MessageKey } from '@/lib/i18n';
+import { recordExperiment } from '@/lib/knowledge';
+import { randomSeed } from '@/lib/rng';
+import {
+  bareCriticalMasses,
+  CriticalityRequest,
+  CriticalityResult,
+  CriticalitySetup,
+  FissileMaterial,
+  FuelGeometry,
+  FuelShape,
+  getFuelGeometry,
+  NeutronFate,
+  ReflectorMaterial,
+  runCriticality,
+} from '@/lib/criticality';
+
+interface CriticalityExplorerProps {
+  className?: string;
+}
+
+interface CriticalityRun {
+  setup: CriticalitySetup;
+  result: CriticalityResult;
+}
+
+const fuelLabels: Record<FissileMaterial, string> = {
+  'uranium235': 'U-235',
+  'plutonium239': 'Pu-239',
+};
+
+const fuelColors: Record<FissileMaterial, string> = {
+  'uranium235': '#84cc16',
+  'plutonium239': '#f59e0b',
+};
+
+const shapeLabels: Record<FuelShape, MessageKey> = {
+  'sphere': 'criticality.shapes.sphere',
+  'cylinder': 'criticality.shapes.cylinder',
+  'slab': 'criticality.shapes.slab',
+};
+
+const reflectorLabels: Record<ReflectorMaterial, MessageKey> = {
+  'none': 'criticality.reflectors.none',
+  'water': 'criticality.reflectors.water',
+  'graphite': 'criticality.reflectors.graphite',
+  'beryllium': 'criticality.reflectors.beryllium',
+  'tungsten-carbide': 'criticality.reflectors.tungstenCarbide',
+};
+
+const reflectorColors: Record<ReflectorMaterial, string> = {
+  'none': 'transparent',
+  'water': '#bfdbfe',
+  'graphite': '#6b7280',
+  'beryllium': '#d1d5db',
+  'tungsten-carbide': '#475569',
+};
+
+const fateLabels: Record<NeutronFate, MessageKey> = {
+  'fission': 'criticality.fates.fission',
+  'capture': 'criticality.fates.capture',
+  'reflector': 'criticality.fates.reflector',
+  'leakage': 'criticality.fates.leakage',
+};
+
+const fateColors: Record<NeutronFate, string> = {
+  'fission': '#eab308',
+  'capture': '#dc2626',
+  'reflector': '#8b5cf6',
+  'leakage': '#0ea5e9',
+};
+
+const FAST_COLOR = '#f97316';
+const THERMAL_COLOR = '#3b82f6';
+const CANVAS_HEIGHT = 280;
+
+const fuels = Object.keys(fuelLabels) as FissileMaterial[];
+const shapes = Object.keys(shapeLabels) as FuelShape[];
+const reflectors = Object.keys(reflectorLabels) as ReflectorMaterial[];
+const fates = Object.keys(fateLabels) as NeutronFate[];
+
+// The side view of a sphere is a circle; cylinder, slab and their reflector
+// shells are rectangles, rounded by the shell thickness
+const traceOutline = (ctx: CanvasRenderingContext2D, geometry: FuelGeometry, offset: number, scale: number) => {
+  ctx.beginPath();
+  if (geometry.shape === 'sphere') {
+    ctx.arc(0, 0, (geometry.halfWidth + offset) * scale, 0, Math.PI * 2);
+    return;
+  }
+  const width = geometry.halfWidth * scale;
+  const height = geometry.halfHeight * scale;
+  const radius = offset * scale;
+  ctx.moveTo(-width, -height - radius);
+  ctx.lineTo(width, -height - radius);
+  ctx.arc(width, -height, radius, -Math.PI / 2, 0);
+  ctx.lineTo(width + radius, height);
+  ctx.arc(width, height, radius, 0, Math.PI / 2);
+  ctx.lineTo(-width, height + radius);
+  ctx.arc(-width, height, radius, Math.PI / 2, Math.PI);
+  ctx.lineTo(-width - radius, -height);
+  ctx.arc(-width, -height, radius, Math.PI, Math.PI * 1.5);
+  ctx.closePath();
+};
+
+// Draw a lump of fissile metal, give it a shape and a reflector, and let
+// neutrons random-walk through it to find out whether it is critical
+export const CriticalityExplorer = ({ className }: CriticalityExplorerProps) => {
+  const { t, formatNumber } = useI18n();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<CriticalitySetup>({
+    fuel: 'uranium235',
+    shape: 'sphere',
+    mass: 30,
+    elongation: 2,
+    density: 1,
+    reflector: 'none',
+    reflectorThickness: 10,
+  });
+  const [run, setRun] = useState<CriticalityRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const startTransport = useSimulationWorker(
+    () => new Worker(new URL('../lib/criticality.worker.ts', import.meta.url), { type: 'module' }),
+    runCriticality
+  );
+
+  const geometry = useMemo(() => getFuelGeometry(setup), [setup]);
+  const hasReflector = setup.reflector !== 'none';
+  const reflectorThickness = hasReflector ? setup.reflectorThickness : 0;
+  const isStale = run !== null && JSON.stringify(run.setup) !== JSON.stringify(setup);
+  const result = run?.result;
+
+  const updateSetup = (changes: Partial<CriticalitySetup>) => setSetup(previous => ({ ...previous, ...changes }));
+
+  const finishRun = (request: CriticalityRequest, nextResult: CriticalityResult) => {
+    setRun({ setup: request.setup, result: nextResult });
+    setIsRunning(false);
+    if (nextResult.kEffective >= 1 && request.setup.reflector !== 'none' && request.setup.mass < bareCriticalMasses[request.setup.fuel]) {
+      recordExperiment('criticality:reflector');
+    }
+  };
+
+  const runTransport = () => {
+    const request: CriticalityRequest = { setup, neutronsPerCycle: 1000, inactiveCycles: 5, activeCycles: 15, seed: randomSeed() };
+    setIsRunning(true);
+    startTransport(request, nextResult => finishRun(request, nextResult), () => {
+      setIsRunning(false);
+      toast({
+        title: t('criticality.failed'),
+        description: t('criticality.failedDescription'),
+        variant: "destructive",
+      });
+    });
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = canvas.clientWidth;
+    canvas.height = CANVAS_HEIGHT;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Leave room around the outer surface for the escaping neutrons
+    const extentX = geometry.halfWidth + reflectorThickness;
+    const extentY = geometry.halfHeight + reflectorThickness;
+    const scale = Math.min(canvas.width / (2.6 * extentX), canvas.height / (2.6 * extentY));
+
+    ctx.save();
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+
+    if (hasReflector) {
+      traceOutline(ctx, geometry, reflectorThickness, scale);
+      ctx.fillStyle = reflectorColors[setup.reflector];
+      ctx.globalAlpha = 0.6;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+    traceOutline(ctx, geometry, 0, scale);
+    ctx.fillStyle = fuelColors[setup.fuel];
+    ctx.fill();
+
+    if (run && !isStale) {
+      run.result.tracks.forEach(track => {
+        ctx.lineWidth = 1;
+        for (let i = 1; i < track.points.length; i++) {
+          const from = track.points[i - 1];
+          const to = track.points[i];
+          ctx.beginPath();
+          ctx.moveTo(from.x * scale, -from.y * scale);
+          ctx.lineTo(to.x * scale, -to.y * scale);
+          ctx.strokeStyle = to.thermal ? THERMAL_COLOR : FAST_COLOR;
+          ctx.globalAlpha = 0.7;
+          ctx.stroke();
+        }
+        ctx.globalAlpha = 1;
+        const end = track.points[track.points.length - 1];
+        ctx.beginPath();
+        ctx.arc(end.x * scale, -end.y * scale, 3, 0, Math.PI * 2);
+        ctx.fillStyle = fateColors[track.fate];
+        ctx.fill();
+      });
+    }
+    ctx.restore();
+  }, [geometry, reflectorThickness, hasReflector, setup.reflector, setup.fuel, run, isStale]);
+
+  const getState = () => {
+    if (!result) return null;
+    const margin = Math.max(0.01, 2 * result.uncertainty);
+    if (result.kEffective < 1 - margin) return { label: t('criticality.states.subcritical'), color: 'bg-blue-500' };
+    if (result.kEffective > 1 + margin) return { label: t('criticality.states.supercritical'), color: 'bg-red-500' };
+    return { label: t('criticality.states.critical'), color: 'bg-green-500' };
+  };
+  const state = getState();
+
+  const getDimensions = () => {
+    if (geometry.shape === 'sphere') {
+      return t('criticality.dimensions.sphere', { radius: formatNumber(geometry.halfWidth, 1) });
+    }
+    if (geometry.shape === 'cylinder') {
+      return t('criticality.dimensions.cylinder', {
+        diameter: formatNumber(geometry.halfWidth * 2, 1),
+        height: formatNumber(geometry.halfHeight * 2, 1),
+      });
+    }
+    return t('criticality.dimensions.slab', {
+      thickness: formatNumber(geometry.halfWidth * 2, 1),
+      edge: formatNumber(geometry.halfHeight * 2, 1),
+    });
+  };
+
+  return (
+    <Card className={cn('p-6 bg-white', className)}>
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center">
+            <Shapes className="h-6 w-6 mr-2 text-purple-500" />
+            {t('criticality.title')}
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">{t('criticality.description')}</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-gray-50 rounded-lg p-4 space-y-4 text-sm">
+            <div>
+              <div className="mb-2">{t('criticality.fuel')}</div>
+              <div className="flex space-x-2">
+                {fuels.map(fuel => (
+                  <Button
+                    key={fuel}
+                    variant="outline"
+                    size="sm"
+                    className={cn('flex-1', setup.fuel === fuel && 'bg-blue-50 border-blue-200')}
+                    onClick={() => updateSetup({ fuel })}
+                  >
+                    {fuelLabels[fuel]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="mb-2">{t('criticality.shape')}</div>
+              <div className="flex space-x-2">
+                {shapes.map(shape => (
+                  <Button
+                    key={shape}
+                    variant="outline"
+                    size="sm"
+                    className={cn('flex-1', setup.shape === shape && 'bg-blue-50 border-blue-200')}
+                    onClick={() => updateSetup({ shape })}
+                  >
+                    {t(shapeLabels[shape])}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between mb-2">
+                <span>{t('criticality.mass')}</span>
+                <span>{formatNumber(setup.mass, 1)} kg</span>
+              </div>
+              <Slider value={[setup.mass]} onValueChange={values => updateSetup({ mass: values[0] })} min={1} max={80} step={0.5} />
+            </div>
+
+            <div>
+              <div className="flex justify-between mb-2">
+                <span>{setup.shape === 'slab' ? t('criticality.slabElongation') : t('criticality.cylinderElongation')}</span>
+                <span>{formatNumber(setup.elongation, 1)}</span>
+              </div>
+              <Slider
+                value={[setup.elongation]}
+                onValueChange={values => updateSetup({ elongation: values[0] })}
+                min={1}
+                max={8}
+                step={0.5}
+                disabled={setup.shape === 'sphere'}
+              />
+            </div>
+
+            <div>
+              <div className="flex justify-between mb-2">
+                <span>{t('criticality.density')}</span>
+                <span>{formatNumber(setup.density * 100)} %</span>
+              </div>
+              <Slider
+                value={[setup.density * 100]}
+                onValueChange={values => updateSetup({ density: values[0] / 100 })}
+                min={50}
+                max={250}
+                step={5}
+              />
+            </div>
+
+            <div>
+              <div className="mb-2">{t('criticality.reflector')}</div>
+              <div className="flex flex-wrap gap-2">
+                {reflectors.map(reflector => (
+                  <Button
+                    key={reflector}
+                    variant="outline"
+                    size="sm"
+                    className={cn(setup.reflector === reflector && 'bg-blue-50 border-blue-200')}
+                    onClick={() => updateSetup({ reflector })}
+                  >
+                    {t(reflectorLabels[reflector])}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between mb-2">
+                <span>{t('criticality.reflectorThickness')}</span>
+                <span>{setup.reflectorThickness} cm</span>
+              </div>
+              <Slider
+                value={[setup.reflectorThickness]}
+                onValueChange={values => updateSetup({ reflectorThickness: values[0] })}
+                min={1}
+                max={30}
+                step={1}
+                disabled={!hasReflector}
+              />
+            </div>
+
+            <Button className="w-full" onClick={runTransport} disabled={isRunning}>
+              <Play className="h-4 w-4 mr-2" />
+              {isRunning ? t('criticality.running') : t('criticality.run')}
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            <div className="bg-gray-50 rounded-lg p-4 text-sm">
+              <div className="flex justify-between mb-2">
+                <h3 className="font-medium">{t('criticality.sideView')}</h3>
+                <span className="text-gray-600">{getDimensions()}</span>
+              </div>
+              <div className="relative">
+                <canvas ref={canvasRef} className="w-full" style={{ height: CANVAS_HEIGHT }} />
+                {(!run || isStale) && (
+                  <div className="absolute inset-x-0 bottom-2 text-center text-gray-500 text-xs">
+                    {isStale ? t('criticality.stale') : t('criticality.empty')}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-wrap justify-center gap-x-3 text-xs mt-1">
+                <span style={{ color: FAST_COLOR }}>— {t('criticality.fast')}</span>
+                <span style={{ color: THERMAL_COLOR }}>— {t('criticality.thermal')}</span>
+                {fates.map(fate => (
+                  <span key={fate} style={{ color: fateColors[fate] }}>● {t(fateLabels[fate])}</span>
+                ))}
+              </div>
+            </div>
+
+            {result && (
+              <div className={cn('bg-gray-50 rounded-lg p-4 text-sm space-y-3', isStale && 'opacity-50')}>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">k<sub>eff</sub></span>
+                  <span>
+                    <span className="text-2xl font-bold font-mono">{formatNumber(result.kEffective, 3)}</span>
+                    <span className="text-gray-500 ml-1">± {formatNumber(result.uncertainty, 3)}</span>
+                    {state && <Badge className={cn('ml-2', state.color)}>{state.label}</Badge>}
+                  </span>
+                </div>
+
+                <div className="space-y-1">
+                  <div className="font-medium">{t('criticality.fatesTitle')}</div>
+                  <div className="flex h-4 rounded-full overflow-hidden bg-gray-100">
+                    {fates.map(fate => (
+                      <div key={fate} style={{ width: `${result.fates[fate] * 100}%`, backgroundColor: fateColors[fate] }} />
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 text-xs">
+                    {fates.map(fate => (
+                      <div key={fate} className="flex justify-between">
+                        <span style={{ color: fateColors[fate] }}>{t(fateLabels[fate])}</span>
+                        <span className="font-mono">{formatNumber(result.fates[fate] * 100, 1)} %</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <span className="text-gray-600">{t('criticality.reflectedFissions')}</span>
+                  <span className="text-right font-mono">{formatNumber(result.reflectedFissions * 100, 1)} %</span>
+                  <span className="text-gray-600">{t('criticality.thermalFissions')}</span>
+                  <span className="text-right font-mono">{formatNumber(result.thermalFissions * 100, 1)} %</span>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-blue-50 rounded-lg p-4 text-sm">
+          <h3 className="font-medium mb-2">{t('criticality.explanationTitle')}</h3>
+          <p>
+            {t('criticality.explanation', {
+              uranium: bareCriticalMasses.uranium235,
+              plutonium: bareCriticalMasses.plutonium239,
+            })}
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default CriticalityExplorer;
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo } from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Link2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import { recordExperiment } from '@/lib/knowledge';
+import {
+  DecayChainPresetId,
+  EquilibriumKind,
+  getDecayChain,
+  getDecayChainCurves,
+  getDecayChainPreset,
+  getEquilibrium,
+  getEquilibriumActivityRatio,
+  getPresetTimes,
+} from '@/lib/decay-chains';
+
+interface DecayChainExplorerProps {
+  presetId: DecayChainPresetId;
+  className?: string;
+}
+
+const MEMBER_COLORS = [
+  '#e11d48',
+  '#f97316',
+  '#eab308',
+  '#84cc16',
+  '#22c55e',
+  '#14b8a6',
+  '#06b6d4',
+  '#3b82f6',
+  '#6366f1',
+  '#8b5cf6',
+  '#d946ef',
+  '#ec4899',
+  '#a16207',
+  '#0f766e',
+];
+const STABLE_COLOR = '#94a3b8';
+const CHART_POINTS = 120;
+// Lowest activity on the log scale; members that have barely formed stay off the chart
+const MIN_ACTIVITY = 1e-4;
+const MAX_ACTIVITY = 2;
+
+const equilibriumLabels: Record<EquilibriumKind, MessageKey> = {
+  'secular': 'chainReaction.decayChains.equilibrium.secular',
+  'transient': 'chainReaction.decayChains.equilibrium.transient',
+  'none': 'chainReaction.decayChains.equilibrium.none',
+};
+
+const equilibriumTexts: Record<EquilibriumKind, MessageKey> = {
+  'secular': 'chainReaction.decayChains.equilibriumText.secular',
+  'transient': 'chainReaction.decayChains.equilibriumText.transient',
+  'none': 'chainReaction.decayChains.equilibriumText.none',
+};
+
+const equilibriumStyles: Record<EquilibriumKind, string> = {
+  'secular': 'bg-green-100 text-green-800',
+  'transient': 'bg-amber-100 text-amber-800',
+  'none': 'bg-gray-100 text-gray-700',
+};
+
+// A whole decay chain from the nuclide registry: how the atoms move down the
+// chain, and how the daughters' activities catch up with the parent's
+export const DecayChainExplorer = ({ presetId, className }: DecayChainExplorerProps) => {
+  const { t, formatNumber, formatTimeSpan } = useI18n();
+  const preset = getDecayChainPreset(presetId);
+  const chain = useMemo(() => getDecayChain(preset.parent), [preset]);
+  const equilibrium = getEquilibrium(chain);
+  const expectedRatio = getEquilibriumActivityRatio(chain);
+
+  useEffect(() => {
+    if (equilibrium !== 'none') recordExperiment('isotopes:decay-chain');
+  }, [equilibrium]);
+
+  const curves = useMemo(() => getDecayChainCurves(chain, getPresetTimes(preset, CHART_POINTS)), [chain, preset]);
+
+  const chartData = useMemo(() => curves.map(point => {
+    const entry: Record<string, number | null> = { time: point.time };
+    chain.forEach((_, n) => {
+      entry[`amount${n}`] = point.amounts[n] * 100;
+      entry[`activity${n}`] = point.activities[n] >= MIN_ACTIVITY ? point.activities[n] : null;
+    });
+    return entry;
+  }), [chain, curves]);
+
+  const colorOf = (n: number) => (chain[n].lambda === 0 ? STABLE_COLOR : MEMBER_COLORS[n % MEMBER_COLORS.length]);
+  const radioactive = chain.map((member, n) => ({ member, n })).filter(({ member }) => member.lambda > 0);
+  const finalActivities = curves[curves.length - 1].activities;
+
+  const xAxis = (
+    <XAxis
+      dataKey="time"
+      type="number"
+      scale={preset.logarithmic ? 'log' : 'linear'}
+      domain={[preset.start, preset.end]}
+      ticks={preset.ticks}
+      tickFormatter={(value: number) => formatTimeSpan(value)}
+      tick={{ fontSize: 11 }}
+    />
+  );
+  const labelFormatter = (value: number) => formatTimeSpan(value);
+
+  return (
+    <div className={cn('bg-gray-50 rounded-lg p-4 space-y-4', className)}>
+      <div>
+        <h3 className="font-medium flex items-center mb-1">
+          <Link2 className="h-4 w-4 mr-2 text-red-500" />
+          {t(preset.name)}
+        </h3>
+        <p className="text-sm text-gray-600">{t(preset.description)}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-1 text-xs">
+        {chain.map((member, n) => (
+          <span key={member.id} className="inline-flex items-center px-2 py-0.5 rounded-full bg-white border border-gray-200">
+            <span className="h-2 w-2 rounded-full mr-1" style={{ backgroundColor: colorOf(n) }} />
+            <span className="font-medium mr-1">{member.nuclide.symbol}</span>
+            <span className="text-gray-500">
+              {member.nuclide.halfLife === null
+                ? t('chainReaction.decayChains.stable')
+                : formatTimeSpan(member.nuclide.halfLife)}
+            </span>
+          </span>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="font-medium text-sm mb-1">{t('chainReaction.decayChains.amountsTitle')}</h4>
+        <div className="h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              {xAxis}
+              <YAxis domain={[0, 100]} unit=" %" tick={{ fontSize: 11 }} width={55} />
+              <Tooltip
+                formatter={(value: number) => `${formatNumber(value, 2)} %`}
+                labelFormatter={labelFormatter}
+              />
+              {chain.map((member, n) => (
+                <Area
+                  key={member.id}
+                  dataKey={`amount${n}`}
+                  name={member.nuclide.symbol}
+                  stackId="chain"
+                  type="monotone"
+                  stroke={colorOf(n)}
+                  fill={colorOf(n)}
+                  fillOpacity={0.7}
+                  isAnimationActive={false}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-sm mb-1">{t('chainReaction.decayChains.activityTitle')}</h4>
+        <div className="h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              {xAxis}
+              <YAxis
+                scale="log"
+                domain={[MIN_ACTIVITY, MAX_ACTIVITY]}
+                ticks={[1e-4, 1e-3, 1e-2, 0.1, 1]}
+                tickFormatter={(value: number) => formatNumber(value, Math.max(0, -Math.floor(Math.log10(value))))}
+                allowDataOverflow
+                tick={{ fontSize: 11 }}
+                width={55}
+              />
+              <Tooltip
+                formatter={(value: number) => formatNumber(value, 3)}
+                labelFormatter={labelFormatter}
+              />
+              {radioactive.map(({ member, n }) => (
+                <Line
+                  key={member.id}
+                  dataKey={`activity${n}`}
+                  name={member.nuclide.symbol}
+                  stroke={colorOf(n)}
+                  strokeWidth={n === 0 ? 2.5 : 1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        {preset.logarithmic && (
+          <p className="text-xs text-gray-500">{t('chainReaction.decayChains.logarithmicNote')}</p>
+        )}
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <Badge className={cn('border-transparent', equilibriumStyles[equilibrium])}>
+          {t(equilibriumLabels[equilibrium])}
+        </Badge>
+        <p className="text-gray-600">{t(equilibriumTexts[equilibrium])}</p>
+        {expectedRatio !== null && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">
+              {t('chainReaction.decayChains.activityRatio', {
+                daughter: chain[1].nuclide.symbol,
+                parent: chain[0].nuclide.symbol,
+              })}
+            </span>
+            <span>
+              <span className="font-bold">{formatNumber(finalActivities[1] / finalActivities[0], 3)}</span>
+              <span className="text-gray-500 ml-1">
+                ({t('chainReaction.decayChains.expected', { ratio: formatNumber(expectedRatio, 3) })})
+              </span>
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DecayChainExplorer;
@@ -0,0 +1,178 @@
+import React, { useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertTriangle, Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  advancePointKinetics,
+  createCriticalKinetics,
+  FissionReactorType,
+  getReactivityFromK,
+  getStablePeriod,
+  getTotalBeta,
+  PointKineticsState,
+} from '@/lib/reactor-kinetics';
+
+interface DelayedNeutronComparisonProps {
+  kFactor: number;
+  // Core whose delayed-neutron data and generation time are used
+  reactorType?: FissionReactorType;
+  className?: string;
+}
+
+const DELAYED_COLOR = '#22c55e';
+const PROMPT_COLOR = '#ef4444';
+// Chart range: time in seconds and power relative to the start
+const MIN_TIME = 1e-3;
+const MAX_TIME = 100;
+const MIN_POWER = 1e-3;
+const MAX_POWER = 1e6;
+const CHART_POINTS = 100;
+
+// Power after a step from critical to k, on a logarithmic time axis that
+// covers both the prompt neutrons' milliseconds and the precursors' minutes
+const getResponse = (reactorType: FissionReactorType, reactivity: number, delayed: boolean) => {
+  let state: PointKineticsState = createCriticalKinetics(reactorType, 1, delayed);
+  let time = 0;
+  let inRange = true;
+  return Array.from({ length: CHART_POINTS + 1 }, (_, i) => {
+    const nextTime = MIN_TIME * (MAX_TIME / MIN_TIME) ** (i / CHART_POINTS);
+    if (inRange) {
+      state = advancePointKinetics(reactorType, state, reactivity, nextTime - time, delayed);
+      inRange = state.power >= MIN_POWER && state.power <= MAX_POWER;
+    }
+    time = nextTime;
+    return inRange ? state.power : null;
+  });
+};
+
+// The same step in k with and without the few neutrons that fission products
+// emit seconds later, which is what makes a reactor controllable at all
+export const DelayedNeutronComparison = ({ kFactor, reactorType = 'pressurized-water', className }: DelayedNeutronComparisonProps) => {
+  const { t, formatNumber, formatDuration, formatScientific } = useI18n();
+  const reactivity = getReactivityFromK(kFactor);
+  const beta = getTotalBeta(reactorType) * 1e5; // pcm
+  const dollars = reactivity / beta;
+  const isPromptCritical = dollars >= 1;
+
+  const chartData = useMemo(() => {
+    const delayed = getResponse(reactorType, reactivity, true);
+    const prompt = getResponse(reactorType, reactivity, false);
+    return delayed.map((power, i) => ({
+      time: MIN_TIME * (MAX_TIME / MIN_TIME) ** (i / CHART_POINTS),
+      delayed: power,
+      prompt: prompt[i],
+    }));
+  }, [reactorType, reactivity]);
+
+  const columns = [
+    { key: 'delayed', label: t('chainReaction.kinetics.withDelayed'), color: DELAYED_COLOR, period: getStablePeriod(reactorType, reactivity) },
+    { key: 'prompt', label: t('chainReaction.kinetics.promptOnly'), color: PROMPT_COLOR, period: getStablePeriod(reactorType, reactivity, false) },
+  ];
+
+  return (
+    <div className={cn('bg-gray-50 rounded-lg p-4 space-y-4 text-sm', className)}>
+      <div>
+        <h3 className="font-medium flex items-center mb-1">
+          <Timer className="h-4 w-4 mr-2 text-green-600" />
+          {t('chainReaction.kinetics.title')}
+        </h3>
+        <p className="text-gray-600">{t('chainReaction.kinetics.description', { percent: formatNumber(beta / 1000, 2) })}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <span className="text-gray-600">{t('chainReaction.kinetics.reactivity')}</span>
+        <span className="text-right font-bold">
+          {formatNumber(reactivity)} pcm
+          <span className={cn('ml-2', isPromptCritical ? 'text-red-600' : 'text-gray-500')}>
+            ({formatNumber(dollars, 2)} $)
+          </span>
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {columns.map(column => (
+          <div key={column.key} className="bg-white rounded-lg p-3 border border-gray-200">
+            <div className="font-medium mb-2" style={{ color: column.color }}>{column.label}</div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">{t('chainReaction.kinetics.period')}</span>
+              <span className="font-mono font-bold">{formatDuration(column.period)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">
+                {column.period < 0 ? t('chainReaction.kinetics.halving') : t('chainReaction.kinetics.doubling')}
+              </span>
+              <span className="font-mono">{formatDuration(Math.abs(column.period) * Math.LN2)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isPromptCritical && (
+        <div className="flex items-start text-red-600 bg-red-50 rounded-lg p-2">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+          <span>{t('chainReaction.kinetics.promptCriticalWarning')}</span>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium mb-1">{t('chainReaction.kinetics.chartTitle')}</h4>
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="log"
+                domain={[MIN_TIME, MAX_TIME]}
+                ticks={[1e-3, 1e-2, 1e-1, 1, 10, 100]}
+                tickFormatter={(value: number) => formatDuration(value)}
+                tick={{ fontSize: 11 }}
+              />
+              <YAxis
+                scale="log"
+                domain={[MIN_POWER, MAX_POWER]}
+                ticks={[1e-3, 1, 1e3, 1e6]}
+                tickFormatter={(value: number) => (value >= 1e3 ? formatScientific(value, 0) : formatNumber(value, value < 1 ? 3 : 0))}
+                allowDataOverflow
+                tick={{ fontSize: 11 }}
+                width={55}
+              />
+              <Tooltip
+                formatter={(value: number) => `× ${value >= 1e3 ? formatScientific(value) : formatNumber(value, 2)}`}
+                labelFormatter={(value: number) => formatDuration(value)}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <ReferenceLine y={1} stroke="#9ca3af" />
+              {columns.map(column => (
+                <Line
+                  key={column.key}
+                  dataKey={column.key}
+                  name={column.label}
+                  stroke={column.color}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-xs text-gray-500">{t('chainReaction.kinetics.chartNote')}</p>
+      </div>
+    </div>
+  );
+};
+
+export default DelayedNeutronComparison;
@@ -2,6 +2,7 @@
 import React, { useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Zap } from 'lucide-react';
+import { getNuclide } from '@/lib/nuclides';
 
 interface EffectProps {
   type: 'explosion' | 'neutron-release' | 'energy-release' | 'split-product' | 'beta-decay' | 'neutron-absorption' | 'dna-damage';
@@ -35,35 +36,11 @@ export const Effect = ({ type, x, y, onComplete, className, productType, targetP
   if (!isVisible) return null;
 
   const getProductColor = (productType?: string) => {
-    if (!productType) return 'bg-gray-500';
-    switch(productType) {
-      case 'barium': return 'bg-green-500';
-      case 'krypton': return 'bg-blue-500';
-      case 'xenon': return 'bg-purple-500';
-      case 'zirconium': return 'bg-yellow-500';
-      case 'strontium': return 'bg-red-500';
-      case 'selenium': return 'bg-orange-500';
-      case 'germanium': return 'bg-pink-500';
-      case 'tellurium': return 'bg-cyan-500';
-      case 'yttrium': return 'bg-indigo-500';
-      default: return 'bg-gray-500';
-    }
+    return (productType && getNuclide(productType)?.color) || 'bg-gray-500';
   };
 
   const getProductLabel = (productType?: string) => {
-    if (!productType) return '?';
-    switch(productType) {
-      case 'barium': return 'Ba';
-      case 'krypton': return 'Kr';
-      case 'xenon': return 'Xe';
-      case 'zirconium': return 'Zr';
-      case 'strontium': return 'Sr';
-      case 'selenium': return 'Se';
-      case 'germanium': return 'Ge';
-      case 'tellurium': return 'Te';
-      case 'yttrium': return 'Y';
-      default: return '?';
-    }
+    return (productType && getNuclide(productType)?.elementSymbol) || '?';
   };
 
   const renderEffect = () => {
@@ -2,6 +2,7 @@
 import React from 'react';
 import { Progress } from "@/components/ui/progress";
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 import { Flame } from 'lucide-react';
 
 interface EnergyBarProps {
@@ -12,6 +13,7 @@ interface EnergyBarProps {
 }
 
 export const EnergyBar = ({ value, maxValue, className, showMaxValue = true }: EnergyBarProps) => {
+  const { t, formatNumber } = useI18n();
   const percentage = Math.min(100, (value / maxValue) * 100);
   
   // Calculate color based on percentage
@@ -29,7 +31,7 @@ export const EnergyBar = ({ value, maxValue, className, showMaxValue = true }: E
           percentage < 30 ? "text-blue-500" : 
           percentage < 70 ? "text-yellow-500" : "text-orange-500"
         )} />
-        <span className="font-bold text-lg">Energie: {value.toFixed(0)} MeV</span>
+        <span className="font-bold text-lg">{t('game.energyBar', { value: formatNumber(value) })}</span>
       </div>
       <Progress 
         value={percentage} 
@@ -7,6 +7,9 @@ import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { RefreshCw, AlertCircle, Zap } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { recordExperiment } from '@/lib/knowledge';
 
 interface EnrichmentLabProps {
   onEnrichedUraniumCreated: (amount: number, enrichmentLevel: number) => void;
@@ -24,6 +27,7 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
   const [enrichedOutput, setEnrichedOutput] = useState(0);
   const [depletedOutput, setDepletedOutput] = useState(0);
   const { toast } = useToast();
+  const { t, formatNumber } = useI18n();
 
   // Reset the simulation
   const handleReset = () => {
@@ -42,8 +46,8 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
     if (!processRunning) {
       // When starting, show a toast message
       toast({
-        title: "Anreicherungsprozess gestartet",
-        description: `${centrifugeCount} Zentrifugen mit ${centrifugeSpeed}% Geschwindigkeit.`,
+        title: t('enrichmentLab.started.title'),
+        description: t('enrichmentLab.started.description', { count: centrifugeCount, speed: centrifugeSpeed }),
       });
     }
   };
@@ -71,11 +75,19 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
           
           // Notify parent component about the enriched uranium
           onEnrichedUraniumCreated(enrichedAmount, finalEnrichment);
+          reportAchievementEvent('uranium-enriched');
+          recordExperiment('isotopes:enrichment');
+          if (finalEnrichment > 90) {
+            reportAchievementEvent('weapons-grade-enriched');
+          }
           
           // Show completion toast
           toast({
-            title: "Anreicherungsprozess abgeschlossen",
-            description: `${enrichedAmount.toFixed(2)}kg Uran mit ${finalEnrichment.toFixed(1)}% U-235 Anreicherung erzeugt.`,
+            title: t('enrichmentLab.finished.title'),
+            description: t('enrichmentLab.finished.description', {
+              amount: formatNumber(enrichedAmount, 2),
+              enrichment: formatNumber(finalEnrichment, 1),
+            }),
           });
           
           return 100;
@@ -98,8 +110,8 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
           if (newInstability > 80) {
             setProcessRunning(false);
             toast({
-              title: "Zentrifugen-Fehler!",
-              description: "Die hohe Geschwindigkeit hat zu einer Instabilität geführt. Material ging verloren.",
+              title: t('enrichmentLab.failure.title'),
+              description: t('enrichmentLab.failure.description'),
               variant: "destructive",
             });
             return 0;
@@ -207,20 +219,20 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
     <Card className={cn('p-4 relative overflow-hidden', className)}>
       <div className="space-y-6">
         <div className="flex justify-between items-center">
-          <h3 className="text-xl font-bold">Uran-235 Anreicherung</h3>
+          <h3 className="text-xl font-bold">{t('enrichmentLab.title')}</h3>
           <Button variant="outline" size="sm" onClick={handleReset}>
             <RefreshCw className="mr-2 h-4 w-4" />
-            Zurücksetzen
+            {t('common.reset')}
           </Button>
         </div>
         
         {/* Visual representation of centrifuges */}
         <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 mb-4">
-          <div className="text-center mb-2 font-bold">Zentrifugen-Kaskade</div>
+          <div className="text-center mb-2 font-bold">{t('enrichmentLab.cascade')}</div>
           <div className="flex flex-col items-center">
             {/* Input material indicator - properly centered */}
             <div className="w-24 h-12 bg-yellow-800 rounded-lg mb-4 flex items-center justify-center text-white font-bold shadow-md">
-              <span className="text-center">Natururan</span>
+              <span className="text-center">{t('enrichmentLab.naturalUranium')}</span>
             </div>
             
             {/* Centrifuge animation - now supports up to 10 */}
@@ -229,7 +241,7 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
             </div>
             {centrifugeCount > 10 && (
               <div className="text-xs text-gray-500 mb-2">
-                +{centrifugeCount - 10} weitere Zentrifugen
+                {t('enrichmentLab.moreCentrifuges', { count: centrifugeCount - 10 })}
               </div>
             )}
             
@@ -241,26 +253,26 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
                   getEnrichmentColor(enrichmentLevel),
                   enrichmentLevel >= 90 ? "animate-pulse-grow" : ""
                 )}>
-                  <div className="text-xl">{enrichmentLevel.toFixed(1)}%</div>
+                  <div className="text-xl">{formatNumber(enrichmentLevel, 1)}%</div>
                   <div className="text-xs mt-1">U-235</div>
                   <div className="mt-2">
-                    <span className="text-xs">⭐ Wertvoll ⭐</span>
+                    <span className="text-xs">{t('enrichmentLab.valuable')}</span>
                   </div>
                 </div>
-                <div className="text-xs mt-2 font-bold">Angereichertes Uran</div>
-                <div className="text-xs">{enrichedOutput.toFixed(1)} kg</div>
+                <div className="text-xs mt-2 font-bold">{t('enrichmentLab.enrichedUranium')}</div>
+                <div className="text-xs">{formatNumber(enrichedOutput, 1)} kg</div>
               </div>
               
               <div className="flex flex-col items-center">
                 <div className="w-24 h-24 bg-gray-500 rounded-lg flex flex-col items-center justify-center text-white shadow-md">
-                  <div className="text-xl">{(100 - enrichmentLevel).toFixed(1)}%</div>
+                  <div className="text-xl">{formatNumber(100 - enrichmentLevel, 1)}%</div>
                   <div className="text-xs mt-1">U-238</div>
                   <div className="mt-2">
-                    <span className="text-xs">Abfall</span>
+                    <span className="text-xs">{t('enrichmentLab.waste')}</span>
                   </div>
                 </div>
-                <div className="text-xs mt-2 font-bold">Abgereichertes Uran</div>
-                <div className="text-xs">{depletedOutput.toFixed(1)} kg</div>
+                <div className="text-xs mt-2 font-bold">{t('enrichmentLab.depletedUranium')}</div>
+                <div className="text-xs">{formatNumber(depletedOutput, 1)} kg</div>
               </div>
             </div>
           </div>
@@ -270,7 +282,7 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-4">
             <div>
-              <label className="text-sm font-medium">Anzahl der Zentrifugen: {centrifugeCount}</label>
+              <label className="text-sm font-medium">{t('enrichmentLab.centrifugeCount', { count: centrifugeCount })}</label>
               <Slider 
                 disabled={processRunning}
                 value={[centrifugeCount]} 
@@ -283,7 +295,7 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
             </div>
             
             <div>
-              <label className="text-sm font-medium">Zentrifugengeschwindigkeit: {centrifugeSpeed}%</label>
+              <label className="text-sm font-medium">{t('enrichmentLab.centrifugeSpeed', { speed: centrifugeSpeed })}</label>
               <Slider 
                 disabled={processRunning}
                 value={[centrifugeSpeed]} 
@@ -296,13 +308,13 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
               {centrifugeSpeed > 75 && (
                 <div className="flex items-center mt-1 text-amber-500 text-xs">
                   <AlertCircle className="h-3 w-3 mr-1" />
-                  Hohe Geschwindigkeit kann zu Instabilität führen
+                  {t('enrichmentLab.speedWarning')}
                 </div>
               )}
             </div>
             
             <div>
-              <label className="text-sm font-medium">Ausgangsmaterial: {feedAmount} kg</label>
+              <label className="text-sm font-medium">{t('enrichmentLab.feedAmount', { amount: feedAmount })}</label>
               <Slider 
                 disabled={processRunning}
                 value={[feedAmount]} 
@@ -319,16 +331,16 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
             {/* Enrichment Progress and Results */}
             <div>
               <div className="flex justify-between">
-                <span className="text-sm font-medium">Fortschritt:</span>
-                <span className="text-sm">{progress.toFixed(1)}%</span>
+                <span className="text-sm font-medium">{t('enrichmentLab.progress')}</span>
+                <span className="text-sm">{formatNumber(progress, 1)}%</span>
               </div>
               <Progress value={progress} className="h-2 mt-1" />
             </div>
             
             <div>
               <div className="flex justify-between">
-                <span className="text-sm font-medium">Anreicherungsgrad:</span>
-                <span className="text-sm font-bold">{enrichmentLevel.toFixed(1)}% U-235</span>
+                <span className="text-sm font-medium">{t('enrichmentLab.enrichmentLevel')}</span>
+                <span className="text-sm font-bold">{formatNumber(enrichmentLevel, 1)}% U-235</span>
               </div>
               <Progress 
                 value={(enrichmentLevel / 98) * 100} 
@@ -340,20 +352,20 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
               {enrichmentLevel >= 90 && (
                 <div className="text-xs text-red-500 mt-1 flex items-center">
                   <Zap className="h-3 w-3 mr-1" />
-                  Waffenfähiges Material (≥90%)
+                  {t('enrichmentLab.weaponsGrade')}
                 </div>
               )}
               {enrichmentLevel >= 3 && enrichmentLevel < 20 && (
                 <div className="text-xs text-blue-500 mt-1">
-                  Geeignet für Kernreaktoren (3-20%)
+                  {t('enrichmentLab.reactorGrade')}
                 </div>
               )}
             </div>
             
             <div>
               <div className="flex justify-between">
-                <span className="text-sm font-medium">Instabilität:</span>
-                <span className="text-sm">{instability.toFixed(1)}%</span>
+                <span className="text-sm font-medium">{t('enrichmentLab.instability')}</span>
+                <span className="text-sm">{formatNumber(instability, 1)}%</span>
               </div>
               <Progress 
                 value={instability} 
@@ -369,7 +381,7 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
                     "animate-pulse px-2 py-1 rounded text-xs font-bold",
                     instability > 75 ? "bg-red-100 text-red-600" : "bg-amber-100 text-amber-600"
                   )}>
-                    Achtung: Instabilität {instability > 75 ? "sehr hoch!" : "erhöht!"}
+                    {instability > 75 ? t('enrichmentLab.instabilityVeryHigh') : t('enrichmentLab.instabilityHigh')}
                   </div>
                 </div>
               )}
@@ -386,7 +398,7 @@ export const EnrichmentLab = ({ onEnrichedUraniumCreated, className }: Enrichmen
               processRunning ? "bg-red-500 hover:bg-red-600" : "bg-green-500 hover:bg-green-600"
             )}
           >
-            {processRunning ? "Stoppen" : "Starten"}
+            {processRunning ? t('enrichmentLab.stop') : t('enrichmentLab.start')}
           </Button>
         </div>
       </div>
@@ -0,0 +1,211 @@
+import React from 'react';
+import {
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Atom } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import {
+  FusionFuel,
+  FusionProduct,
+  fuelCycles,
+  getFusionReactivity,
+  getIgnitionWindow,
+} from '@/lib/fusion-plasma';
+
+interface FusionFuelComparisonProps {
+  fuel: FusionFuel;
+  // Plasma temperature in keV, marked on the chart while the reactor runs
+  temperature?: number;
+  className?: string;
+}
+
+const fuelLabels: Record<FusionFuel, string> = {
+  'd-t': 'D-T',
+  'd-d': 'D-D',
+  'p-b11': 'p-B11',
+};
+
+const fuelColors: Record<FusionFuel, string> = {
+  'd-t': '#f97316',
+  'd-d': '#3b82f6',
+  'p-b11': '#22c55e',
+};
+
+const fuelDescriptions: Record<FusionFuel, MessageKey> = {
+  'd-t': 'fusionFuels.descriptions.dt',
+  'd-d': 'fusionFuels.descriptions.dd',
+  'p-b11': 'fusionFuels.descriptions.pb11',
+};
+
+const productLabels: Record<FusionProduct, MessageKey> = {
+  'helium4': 'fusionFuels.productNames.helium4',
+  'helium3': 'fusionFuels.productNames.helium3',
+  'tritium': 'fusionFuels.productNames.tritium',
+  'proton': 'fusionFuels.productNames.proton',
+  'neutron': 'fusionFuels.productNames.neutron',
+};
+
+const fuels = Object.keys(fuelCycles) as FusionFuel[];
+
+// Chart range in keV and the reactivities it shows in m³/s
+const CHART_MIN_TEMPERATURE = 1;
+const CHART_MAX_TEMPERATURE = 500;
+const MIN_REACTIVITY = 1e-28;
+const MAX_REACTIVITY = 1e-21;
+const CHART_POINTS = 60;
+
+// ⟨σv⟩ of every fuel on a logarithmic temperature grid, left out where the
+// fit does not hold or the reactivity is too small to draw
+const reactivityCurves = Array.from({ length: CHART_POINTS + 1 }, (_, i) => {
+  const temperature = CHART_MIN_TEMPERATURE * (CHART_MAX_TEMPERATURE / CHART_MIN_TEMPERATURE) ** (i / CHART_POINTS);
+  const point: Record<string, number | null> = { temperature };
+  fuels.forEach(fuel => {
+    const { minTemperature, maxTemperature } = fuelCycles[fuel];
+    const reactivity = getFusionReactivity(temperature, fuel);
+    point[fuel] = temperature >= minTemperature && temperature <= maxTemperature && reactivity >= MIN_REACTIVITY
+      ? reactivity
+      : null;
+  });
+  return point;
+});
+
+// What each fuel cycle burns into, and why the fuels without neutrons are so
+// much harder to ignite
+export const FusionFuelComparison = ({ fuel, temperature, className }: FusionFuelComparisonProps) => {
+  const { t, formatNumber, formatScientific } = useI18n();
+  const cycle = fuelCycles[fuel];
+  const neutronShare = ((cycle.energy - cycle.chargedEnergy) / cycle.energy) * 100;
+  const baseline = getIgnitionWindow('d-t').minimumTripleProduct;
+
+  return (
+    <div className={cn('bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-3', className)}>
+      <div className="flex items-center">
+        <Atom className="h-5 w-5 mr-2 text-purple-500" />
+        <h3 className="font-medium">{t('fusionFuels.title')}</h3>
+      </div>
+      <p className="text-gray-600">{t(fuelDescriptions[fuel])}</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <span className="text-gray-600">{t('fusionFuels.energy')}</span>
+        <span className="font-bold text-right">{formatNumber(cycle.energy, 2)} MeV</span>
+        <span className="text-gray-600">{t('fusionFuels.products')}</span>
+        <span className="text-right">
+          {(Object.entries(cycle.products) as [FusionProduct, number][]).map(([product, count]) => (
+            <span
+              key={product}
+              className={cn(
+                'inline-block ml-1 mb-1 px-2 py-0.5 rounded-full text-xs',
+                product === 'neutron' ? 'bg-red-100 text-red-700' : 'bg-purple-100 text-purple-700'
+              )}
+            >
+              {formatNumber(count, 1)} × {t(productLabels[product])}
+            </span>
+          ))}
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+          <div className="bg-purple-500" style={{ width: `${100 - neutronShare}%` }} />
+          <div className="bg-red-500" style={{ width: `${neutronShare}%` }} />
+        </div>
+        <div className="flex justify-between text-xs">
+          <span className="text-purple-700">{t('fusionFuels.charged', { percent: formatNumber(100 - neutronShare) })}</span>
+          <span className="text-red-700">{t('fusionFuels.neutrons', { percent: formatNumber(neutronShare) })}</span>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-2">
+        <h4 className="font-medium mb-1">{t('fusionFuels.chartTitle')}</h4>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={reactivityCurves} margin={{ top: 15, right: 10, left: 0, bottom: 5 }}>
+              <XAxis
+                dataKey="temperature"
+                type="number"
+                scale="log"
+                domain={[CHART_MIN_TEMPERATURE, CHART_MAX_TEMPERATURE]}
+                ticks={[1, 10, 100, 500]}
+                unit=" keV"
+                tick={{ fontSize: 11 }}
+              />
+              <YAxis
+                scale="log"
+                domain={[MIN_REACTIVITY, MAX_REACTIVITY]}
+                ticks={[1e-28, 1e-26, 1e-24, 1e-22]}
+                tickFormatter={(value: number) => formatScientific(value, 0)}
+                allowDataOverflow
+                tick={{ fontSize: 11 }}
+                width={60}
+              />
+              <Tooltip
+                formatter={(value: number) => `${formatScientific(value)} m³/s`}
+                labelFormatter={(value: number) => `${formatNumber(value, 1)} keV`}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {fuels.map(curve => (
+                <Line
+                  key={curve}
+                  dataKey={curve}
+                  name={fuelLabels[curve]}
+                  stroke={fuelColors[curve]}
+                  strokeWidth={curve === fuel ? 3 : 1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+              {temperature !== undefined && temperature >= CHART_MIN_TEMPERATURE && (
+                <ReferenceLine
+                  x={Math.min(temperature, CHART_MAX_TEMPERATURE)}
+                  stroke="#ef4444"
+                  label={{ value: t('fusionFuels.now'), fontSize: 11, position: 'top' }}
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-600">
+            <th className="text-left font-medium pb-1">{t('fusionFuels.fuel')}</th>
+            <th className="text-right font-medium pb-1">{t('fusionFuels.optimalTemperature')}</th>
+            <th className="text-right font-medium pb-1">{t('fusionFuels.tripleProduct')}</th>
+            <th className="text-right font-medium pb-1">{t('fusionFuels.relative')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fuels.map(row => {
+            const ignitionWindow = getIgnitionWindow(row);
+            const ignites = Number.isFinite(ignitionWindow.minimumTripleProduct);
+            return (
+              <tr key={row} className={cn(row === fuel && 'font-bold')}>
+                <td className="py-0.5" style={{ color: fuelColors[row] }}>{fuelLabels[row]}</td>
+                <td className="text-right">{ignites ? `${formatNumber(ignitionWindow.optimalTemperature)} keV` : '–'}</td>
+                <td className="text-right font-mono">
+                  {ignites ? formatScientific(ignitionWindow.minimumTripleProduct) : t('fusionFuels.never')}
+                </td>
+                <td className="text-right">
+                  {ignites ? `× ${formatNumber(ignitionWindow.minimumTripleProduct / baseline)}` : '–'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500">{t('fusionFuels.tableNote')}</p>
+    </div>
+  );
+};
+
+export default FusionFuelComparison;
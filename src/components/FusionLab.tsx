@@ -23,6 +23,30 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { recordExperiment } from '@/lib/knowledge';
+import {
+  BETA_LIMIT,
+  createPlasma,
+  disruptPlasma,
+  FusionFuel,
+  getBeta,
+  getDisruptionRisk,
+  getPlasmaPressure,
+  getPlasmaStability,
+  getPowerBalance,
+  getReactionRate,
+  getRequiredField,
+  isIgnited,
+  keVToKelvin,
+  Plasma,
+  stepPlasma,
+} from '@/lib/fusion-plasma';
+import FusionPlasmaPanel from './FusionPlasmaPanel';
+import FusionFuelComparison from './FusionFuelComparison';
+import InertialFusionLab from './InertialFusionLab';
 
 interface FusionLabProps {
   energy: number;
@@ -30,207 +54,156 @@ interface FusionLabProps {
   className?: string;
 }
 
+type Confinement = 'magnetic' | 'inertial';
+
+const confinementLabels: Record<Confinement, MessageKey> = {
+  'magnetic': 'fusionLab.modes.magnetic',
+  'inertial': 'fusionLab.modes.inertial',
+};
+
+// Seconds of plasma time per simulation tick
+const TICK = 0.1;
+// Game energy per megajoule of fusion energy
+const ENERGY_PER_MEGAJOULE = 1 / 1000;
+
 const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
   // Parameters for fusion
-  const [temperature, setTemperature] = useState(10); // in Million K
+  const [heatingPower, setHeatingPower] = useState(30); // in MW
   const [magneticField, setMagneticField] = useState(5); // in Tesla
-  const [plasmaDensity, setPlasmaDensity] = useState(30); // in %
+  const [plasmaDensity, setPlasmaDensity] = useState(1); // in 10^20 per m³
   
   // Operating parameters
   const [isRunning, setIsRunning] = useState(false);
-  const [plasmaPressure, setPlasmaPressure] = useState(0);
-  const [plasmaStability, setPlasmaStability] = useState(100); // % - starts stable
+  const [plasma, setPlasma] = useState<Plasma>(() => createPlasma({ heatingPower: 30, magneticField: 5, density: 1, fuel: 'd-t' }));
   const [energyOutput, setEnergyOutput] = useState(0);
   const [totalEnergyProduced, setTotalEnergyProduced] = useState(0);
-  const [fusionReactionRate, setFusionReactionRate] = useState(0);
   const [fusionAchieved, setFusionAchieved] = useState(false);
   const [fusionSustained, setFusionSustained] = useState(false);
-  const [successMessage, setSuccessMessage] = useState("");
-  const [activeTab, setActiveTab] = useState("d-t");
+  const [successMessage, setSuccessMessage] = useState<MessageKey | null>(null);
+  const [activeTab, setActiveTab] = useState<FusionFuel>("d-t");
+  // A tokamak holds the plasma with magnetic fields, a laser squeezes a fuel capsule
+  const [confinement, setConfinement] = useState<Confinement>("magnetic");
   
   // Guidance system
   const [showGuidance, setShowGuidance] = useState(true);
   const [guidanceStep, setGuidanceStep] = useState(1);
   const [guidanceCompleted, setGuidanceCompleted] = useState(false);
   
-  // Animation frame reference
-  const animationRef = useRef<number | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The simulation loop reads the guidance and the callback through refs, so
+  // it does not restart whenever they change
+  const guidanceRef = useRef({ step: guidanceStep, show: showGuidance });
+  guidanceRef.current = { step: guidanceStep, show: showGuidance };
+  const onEnergyProducedRef = useRef(onEnergyProduced);
+  onEnergyProducedRef.current = onEnergyProduced;
   
   const { toast } = useToast();
+  const { t, formatNumber } = useI18n();
+
+  const plasmaStability = getPlasmaStability(plasma);
+  // Plasma pressure in bar
+  const plasmaPressure = getPlasmaPressure(plasma) / 100000;
   
   // Set initial parameters based on fusion type
   useEffect(() => {
     if (activeTab === "d-t") {
       // Deuterium-Tritium fusion - easier
-      setTemperature(10);
+      setHeatingPower(30);
       setMagneticField(5);
-      setPlasmaDensity(30);
+      setPlasmaDensity(1);
     } else if (activeTab === "d-d") {
       // Deuterium-Deuterium fusion - harder
-      setTemperature(12);
+      setHeatingPower(40);
       setMagneticField(6);
-      setPlasmaDensity(40);
+      setPlasmaDensity(1.2);
     } else {
       // p-B11 fusion - hardest
-      setTemperature(15);
+      setHeatingPower(50);
       setMagneticField(8);
-      setPlasmaDensity(50);
+      setPlasmaDensity(1.5);
     }
     
     setFusionAchieved(false);
     setFusionSustained(false);
-    setSuccessMessage("");
+    setSuccessMessage(null);
     setTotalEnergyProduced(0);
-    setPlasmaStability(100);
-    stopReactor();
+    setIsRunning(false);
+    setEnergyOutput(0);
+    // Every fuel burns by its own reactivity curve
+    setPlasma(prev => createPlasma({ ...prev, fuel: activeTab }));
   }, [activeTab]);
 
-  // Main simulation loop
+  // Main simulation loop: the plasma heats up or cools down by its power balance
   useEffect(() => {
     if (!isRunning) return;
-    
-    // Calculate pressure from temperature and density
-    const pressure = (temperature * plasmaDensity) / 100;
-    setPlasmaPressure(pressure);
-    
-    // Calculate stability
-    const idealMagneticField = Math.sqrt(pressure) * 2.5;
-    const fieldDifference = Math.abs(magneticField - idealMagneticField);
-    const stabilityFactor = 1 - (fieldDifference / idealMagneticField) * 0.8;
-    const newStability = Math.max(0, Math.min(100, stabilityFactor * 100));
-    setPlasmaStability(newStability);
-    
-    // Calculate fusion reaction rate
-    let reactionRate = 0;
-    
-    if (activeTab === "d-t") {
-      // D-T fusion conditions: T > 10M K, reasonable stability
-      if (temperature >= 10 && newStability > 60) {
-        reactionRate = (temperature - 9) * (plasmaDensity / 100) * (newStability / 100);
-      }
-    } else if (activeTab === "d-d") {
-      // D-D fusion conditions: T > 12M K, higher stability
-      if (temperature >= 12 && newStability > 70) {
-        reactionRate = (temperature - 11) * (plasmaDensity / 100) * (newStability / 100) * 0.7;
-      }
-    } else {
-      // p-B11 fusion conditions: T > 15M K, very high stability
-      if (temperature >= 15 && newStability > 80) {
-        reactionRate = (temperature - 14) * (plasmaDensity / 100) * (newStability / 100) * 0.5;
-      }
-    }
-    
-    // Make kid-friendly by being more forgiving with parameters
-    reactionRate = Math.max(0, reactionRate * 1.5); // Boost reaction rate by 50%
-    setFusionReactionRate(reactionRate);
-    
-    // Energy output based on reaction rate
-    let energyOut = 0;
-    if (reactionRate > 0) {
-      // Energy calculation based on fusion type
-      if (activeTab === "d-t") {
-        energyOut = reactionRate * 3; // D-T produces most energy
-      } else if (activeTab === "d-d") {
-        energyOut = reactionRate * 2; // D-D produces medium energy
-      } else {
-        energyOut = reactionRate * 2.5; // p-B11 produces less but cleaner energy
+
+    const interval = setInterval(() => {
+      let nextPlasma = stepPlasma({ ...plasma, heatingPower, magneticField, density: plasmaDensity }, TICK);
+
+      // A plasma pushing against the beta limit can tear its magnetic cage apart
+      if (Math.random() < getDisruptionRisk(nextPlasma) * TICK) {
+        nextPlasma = disruptPlasma(nextPlasma);
+        toast({
+          title: t('fusionPlasma.disruption.title'),
+          description: t('fusionPlasma.disruption.description'),
+          variant: "destructive"
+        });
       }
-      
-      // Make it easier to generate energy for kids
-      energyOut = Math.max(0, energyOut * 1.5);
-      
-      // Update total energy
-      const newTotalEnergy = totalEnergyProduced + energyOut;
-      setTotalEnergyProduced(newTotalEnergy);
-      
-      // Call the parent component's handler to update global energy
-      onEnergyProduced(energyOut / 10);
-    }
-    setEnergyOutput(energyOut);
-    
-    // Check for fusion achievement
-    if (reactionRate > 1 && !fusionAchieved) {
-      setFusionAchieved(true);
-      toast({
-        title: "Fusion erreicht!",
-        description: "Die Kernfusion hat begonnen! Halte die Plasmastabilität aufrecht.",
-      });
-      setSuccessMessage("Fusion erreicht! 🌟");
-      
-      // Complete guidance step 3 if active
-      if (guidanceStep === 3 && showGuidance) {
-        setGuidanceStep(4);
+      setPlasma(nextPlasma);
+
+      const { fusion, q } = getPowerBalance(nextPlasma);
+      setEnergyOutput(fusion);
+      setTotalEnergyProduced(prev => prev + fusion * TICK);
+      onEnergyProducedRef.current(fusion * TICK * ENERGY_PER_MEGAJOULE);
+
+      // Breakeven: the plasma makes more fusion power than it takes to heat it
+      if (q >= 1 && !fusionAchieved) {
+        setFusionAchieved(true);
+        reportAchievementEvent('fusion-achieved');
+        recordExperiment('fusion-conditions:ignition');
+        toast({
+          title: t('fusionLab.fusionAchieved.title'),
+          description: t('fusionLab.fusionAchieved.description'),
+        });
+        setSuccessMessage('fusionLab.fusionAchieved.banner');
+        
+        // Complete guidance step 3 if active
+        if (guidanceRef.current.step === 3 && guidanceRef.current.show) {
+          setGuidanceStep(4);
+        }
       }
-    }
-    
-    // Check for sustained fusion
-    if (reactionRate > 1 && isRunning && plasmaStability > 70 && !fusionSustained && totalEnergyProduced > 50) {
-      setFusionSustained(true);
-      toast({
-        title: "Stabile Fusion!",
-        description: "Du hast eine stabile Fusionsreaktion erzeugt - wie in einem Stern!",
-        variant: "default"
-      });
-      setSuccessMessage("Stabile Fusion wie in einem Stern! 🌞");
       
-      // Complete guidance if active
-      if (showGuidance) {
-        setGuidanceStep(5);
-        setTimeout(() => {
-          setGuidanceCompleted(true);
-          setShowGuidance(false);
-        }, 3000);
-      }
-    }
-    
-    // Update plasma visualization
-    updatePlasmaVisualization();
-    
-    // Instabilities and challenges - but make them more forgiving for kids
-    if (newStability < 30 && Math.random() < 0.05) {
-      // 5% chance of plasma disruption at low stability
-      plasmaDisruption();
-    }
-    
-    // Continue animation loop
-    animationRef.current = requestAnimationFrame(updateSimulation);
-  }, [isRunning, temperature, magneticField, plasmaDensity, activeTab]);
-  
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
+      // Ignition: the helium nuclei keep the stable plasma hot by themselves
+      if (isIgnited(nextPlasma) && getPlasmaStability(nextPlasma) > 70 && !fusionSustained) {
+        setFusionSustained(true);
+        reportAchievementEvent('fusion-sustained');
+        recordExperiment('fusion-conditions:sustained');
+        toast({
+          title: t('fusionLab.fusionSustained.title'),
+          description: t('fusionLab.fusionSustained.description'),
+          variant: "default"
+        });
+        setSuccessMessage('fusionLab.fusionSustained.banner');
+        
+        // Complete guidance if active
+        if (guidanceRef.current.show) {
+          setGuidanceStep(5);
+          setTimeout(() => {
+            setGuidanceCompleted(true);
+            setShowGuidance(false);
+          }, 3000);
+        }
       }
-    };
-  }, []);
-  
-  // Simulation update function
-  const updateSimulation = () => {
-    // This just triggers the useEffect above to run again
-    setIsRunning(prevState => prevState);
-  };
-  
-  // Handle plasma disruption event
-  const plasmaDisruption = () => {
-    if (Math.random() < 0.7) { // Make disruptions less likely
-      return; // 70% chance to ignore disruption for kid-friendliness
-    }
-    
-    toast({
-      title: "Plasma-Instabilität",
-      description: "Das Plasma ist instabil geworden. Passe das Magnetfeld an!",
-      variant: "destructive"
-    });
-    setPlasmaStability(Math.max(30, plasmaStability - 20));
-  };
-  
+    }, TICK * 1000);
+
+    return () => clearInterval(interval);
+  }, [isRunning, plasma, heatingPower, magneticField, plasmaDensity, fusionAchieved, fusionSustained, t, toast]);
+
   // Start fusion reactor
   const startReactor = () => {
     if (!isRunning) {
+      setPlasma(createPlasma({ heatingPower, magneticField, density: plasmaDensity, fuel: activeTab }));
       setIsRunning(true);
-      animationRef.current = requestAnimationFrame(updateSimulation);
       
       // Progress guidance if active
       if (guidanceStep === 2 && showGuidance) {
@@ -243,10 +216,7 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
   const stopReactor = () => {
     if (isRunning) {
       setIsRunning(false);
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-        animationRef.current = null;
-      }
+      setPlasma(prev => createPlasma(prev));
       setEnergyOutput(0);
     }
   };
@@ -255,10 +225,9 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
   const resetReactor = () => {
     stopReactor();
     setTotalEnergyProduced(0);
-    setPlasmaStability(100);
     setFusionAchieved(false);
     setFusionSustained(false);
-    setSuccessMessage("");
+    setSuccessMessage(null);
     
     // Reset guidance to step 1 if not completed
     if (showGuidance && !guidanceCompleted) {
@@ -266,8 +235,14 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
     }
   };
   
-  // Update plasma visualization
-  const updatePlasmaVisualization = () => {
+  // Switch between the tokamak and the laser; the tokamak stops while the laser fires
+  const changeConfinement = (mode: Confinement) => {
+    stopReactor();
+    setConfinement(mode);
+  };
+  
+  // Redraw the tokamak whenever the plasma changes
+  useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     
@@ -301,16 +276,16 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
     
     if (isRunning) {
       // Draw plasma
-      const plasmaRadius = innerRadius * (0.5 + (plasmaDensity / 200));
+      const plasmaRadius = innerRadius * (0.5 + (plasma.density / 7));
       
-      // Plasma color based on temperature
+      // Plasma color based on temperature in keV
       let plasmaColor = '#f97316'; // Default orange
       
-      if (temperature < 8) {
+      if (plasma.temperature < 5) {
         plasmaColor = '#f59e0b'; // Amber
-      } else if (temperature < 12) {
+      } else if (plasma.temperature < 10) {
         plasmaColor = '#f97316'; // Orange
-      } else if (temperature < 15) {
+      } else if (plasma.temperature < 20) {
         plasmaColor = '#ef4444'; // Red
       } else {
         plasmaColor = '#ec4899'; // Pink (very hot)
@@ -331,8 +306,8 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
       ctx.fill();
       
       // Draw fusion reactions (small bright spots) if fusion is happening
-      if (fusionReactionRate > 0) {
-        const numReactions = Math.floor(fusionReactionRate * 5) + 1;
+      if (energyOutput >= 1) {
+        const numReactions = Math.min(40, Math.floor(energyOutput / 50) + 1);
         for (let i = 0; i < numReactions; i++) {
           const angle = Math.random() * Math.PI * 2;
           const distance = Math.random() * plasmaRadius * 0.8;
@@ -383,7 +358,7 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
       for (let i = 0; i < waveCount; i++) {
         const startAngle = Math.random() * Math.PI * 2;
         const arcLength = (Math.random() * 0.5 + 0.2) * Math.PI;
-        const waveRadius = innerRadius * 0.8 * (0.5 + (plasmaDensity / 200));
+        const waveRadius = innerRadius * 0.8 * (0.5 + (plasma.density / 7));
         
         ctx.beginPath();
         ctx.arc(
@@ -395,24 +370,11 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
         ctx.stroke();
       }
     }
-  };
+  }, [isRunning, plasma, plasmaStability, energyOutput, magneticField]);
   
-  // Get optimal parameter hints for guidance
-  const getOptimalTemperature = () => {
-    switch (activeTab) {
-      case "d-t": return "10-15";
-      case "d-d": return "12-18";
-      case "p-b11": return "15-20";
-      default: return "10-15";
-    }
-  };
-  
-  const getOptimalMagneticField = () => {
-    // Simplified for kids: ~sqrt(pressure) * 2.5
-    const pressure = (temperature * plasmaDensity) / 100;
-    const optimal = Math.sqrt(pressure) * 2.5;
-    return `${Math.floor(optimal - 0.5)}-${Math.ceil(optimal + 0.5)}`;
-  };
+  // Field that holds the plasma at the chosen density once it burns at about 15 keV
+  const getOptimalMagneticField = () =>
+    formatNumber(getRequiredField({ ...plasma, density: plasmaDensity, temperature: 15 }), 1);
   
   // Guidance system components
   const renderGuidance = () => {
@@ -420,24 +382,24 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
     
     const steps = [
       {
-        title: "Starte hier!",
-        content: "Willkommen im Fusionslabor! Wir werden wie ein Stern Wasserstoffatome verschmelzen."
+        title: t('fusionLab.guidance.start.title'),
+        content: t('fusionLab.guidance.start.content')
       },
       {
-        title: "Stelle die Parameter ein",
-        content: `Erhöhe die Temperatur auf ${getOptimalTemperature()} Millionen Grad und passe das Magnetfeld auf ${getOptimalMagneticField()} Tesla an.`
+        title: t('fusionLab.guidance.settings.title'),
+        content: t('fusionLab.guidanceSettings', { field: getOptimalMagneticField() })
       },
       {
-        title: "Starte den Reaktor",
-        content: "Drücke den 'Reaktor starten' Knopf um die Fusion zu beginnen!"
+        title: t('fusionLab.guidance.run.title'),
+        content: t('fusionLab.guidance.run.content')
       },
       {
-        title: "Halte das Plasma stabil",
-        content: "Super! Halte das Magnetfeld angepasst, damit das Plasma stabil bleibt. Die Stabilität sollte über 70% bleiben."
+        title: t('fusionLab.guidance.stabilize.title'),
+        content: t('fusionLab.guidance.stabilize.content')
       },
       {
-        title: "Fusion erreicht!",
-        content: "Herzlichen Glückwunsch! Du hast erfolgreich eine Fusionsreaktion wie in einem Stern erzeugt!"
+        title: t('fusionLab.guidance.done.title'),
+        content: t('fusionLab.guidance.done.content')
       }
     ];
     
@@ -458,7 +420,7 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
             onClick={() => setShowGuidance(false)}
             className="text-xs h-6"
           >
-            Schließen
+            {t('fusionLab.guidance.close')}
           </Button>
         </div>
         <p className="mt-1 text-blue-800">{currentStep.content}</p>
@@ -466,7 +428,7 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
         {guidanceStep === 5 && (
           <div className="mt-2 flex justify-center">
             <ThumbsUp className="text-blue-500 w-6 h-6 mr-2" />
-            <span className="font-bold text-blue-700">Gut gemacht!</span>
+            <span className="font-bold text-blue-700">{t('fusionLab.guidance.wellDone')}</span>
           </div>
         )}
       </div>
@@ -475,279 +437,302 @@ const FusionLab = ({ energy, onEnergyProduced, className }: FusionLabProps) => {
 
   return (
     <Card className={cn("p-6", className)}>
-      <div className="flex justify-between items-center mb-4">
-        <h2 className="text-2xl font-bold">Fusionslabor</h2>
+      <Tabs value={activeTab} onValueChange={value => setActiveTab(value as FusionFuel)}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">{t('fusionLab.title')}</h2>
         
-        <div className="flex items-center">
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  className="w-8 h-8 p-0"
-                  onClick={() => setShowGuidance(!showGuidance)}
+          <div className="flex items-center">
+            <div className="flex rounded-md border border-gray-200 p-0.5 mr-2">
+              {(["magnetic", "inertial"] as const).map(mode => (
+                <Button
+                  key={mode}
+                  variant={confinement === mode ? "default" : "ghost"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => changeConfinement(mode)}
                 >
-                  <HelpCircle size={16} />
+                  {t(confinementLabels[mode])}
                 </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Anleitung {showGuidance ? "ausblenden" : "anzeigen"}</p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+              ))}
+            </div>
+
+            {confinement === "magnetic" && (
+              <>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="ghost" 
+                        size="sm" 
+                        className="w-8 h-8 p-0"
+                        onClick={() => setShowGuidance(!showGuidance)}
+                      >
+                        <HelpCircle size={16} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{showGuidance ? t('fusionLab.guidance.hide') : t('fusionLab.guidance.show')}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
           
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="ml-2">
-            <TabsList>
-              <TabsTrigger value="d-t" className="text-xs px-2 py-1">D-T Fusion</TabsTrigger>
-              <TabsTrigger value="d-d" className="text-xs px-2 py-1">D-D Fusion</TabsTrigger>
-              <TabsTrigger value="p-b11" className="text-xs px-2 py-1">p-B11 Fusion</TabsTrigger>
-            </TabsList>
-          </Tabs>
+                <TabsList className="ml-2">
+                  <TabsTrigger value="d-t" className="text-xs px-2 py-1">{t('fusionLab.fuels.dT.tab')}</TabsTrigger>
+                  <TabsTrigger value="d-d" className="text-xs px-2 py-1">{t('fusionLab.fuels.dD.tab')}</TabsTrigger>
+                  <TabsTrigger value="p-b11" className="text-xs px-2 py-1">{t('fusionLab.fuels.pB11.tab')}</TabsTrigger>
+                </TabsList>
+              </>
+            )}
+          </div>
         </div>
-      </div>
       
-      {renderGuidance()}
+        {confinement === "inertial" ? (
+          <InertialFusionLab onEnergyProduced={onEnergyProduced} className="mt-4" />
+        ) : (
+          <>
+            {renderGuidance()}
       
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
-        <div className="md:col-span-2">
-          <div className="aspect-square relative bg-gray-900 rounded-lg overflow-hidden">
-            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
+              <div className="md:col-span-2">
+                <div className="aspect-square relative bg-gray-900 rounded-lg overflow-hidden">
+                  <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
             
-            {!isRunning && !fusionAchieved && (
-              <div className="absolute inset-0 flex items-center justify-center">
-                <Button 
-                  size="lg" 
-                  onClick={startReactor}
-                  className="bg-blue-600 hover:bg-blue-700"
-                >
-                  <PlayCircle className="mr-2 h-5 w-5" />
-                  Reaktor starten
-                </Button>
-              </div>
-            )}
+                  {!isRunning && !fusionAchieved && (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <Button 
+                        size="lg" 
+                        onClick={startReactor}
+                        className="bg-blue-600 hover:bg-blue-700"
+                      >
+                        <PlayCircle className="mr-2 h-5 w-5" />
+                        {t('fusionLab.start')}
+                      </Button>
+                    </div>
+                  )}
             
-            {fusionAchieved && (
-              <div className="absolute top-4 left-0 right-0 flex justify-center">
-                <div className="bg-black bg-opacity-70 text-white px-4 py-2 rounded-full text-sm font-medium">
-                  {successMessage}
-                </div>
-              </div>
-            )}
+                  {fusionAchieved && (
+                    <div className="absolute top-4 left-0 right-0 flex justify-center">
+                      <div className="bg-black bg-opacity-70 text-white px-4 py-2 rounded-full text-sm font-medium">
+                        {successMessage && t(successMessage)}
+                      </div>
+                    </div>
+                  )}
             
-            <div className="absolute bottom-4 left-4 right-4 bg-black bg-opacity-50 p-2 rounded text-white text-xs">
-              <div className="flex justify-between">
-                <div>
-                  <Gauge className="inline-block mr-1 h-3 w-3" /> 
-                  Temperatur: {temperature.toFixed(1)} Mio. K
-                </div>
-                <div>
-                  <Magnet className="inline-block mr-1 h-3 w-3" /> 
-                  Magnetfeld: {magneticField.toFixed(1)} T
-                </div>
-                <div>
-                  <Zap className="inline-block mr-1 h-3 w-3" /> 
-                  Energie: {energyOutput.toFixed(1)} MW
+                  <div className="absolute bottom-4 left-4 right-4 bg-black bg-opacity-50 p-2 rounded text-white text-xs">
+                    <div className="flex justify-between">
+                      <div>
+                        <Gauge className="inline-block mr-1 h-3 w-3" /> 
+                        {t('fusionLab.temperature', { value: formatNumber(keVToKelvin(plasma.temperature) / 1e6) })}
+                      </div>
+                      <div>
+                        <Magnet className="inline-block mr-1 h-3 w-3" /> 
+                        {t('fusionLab.fieldReadout', { value: magneticField.toFixed(1) })}
+                      </div>
+                      <div>
+                        <Zap className="inline-block mr-1 h-3 w-3" /> 
+                        {t('fusionLab.energyReadout', { value: energyOutput.toFixed(1) })}
+                      </div>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          </div>
           
-          <div className="flex space-x-2 mt-4">
-            <Button 
-              className={cn("flex-1", isRunning ? "bg-red-500 hover:bg-red-600" : "bg-blue-500 hover:bg-blue-600")}
-              onClick={isRunning ? stopReactor : startReactor}
-            >
-              {isRunning ? (
-                <>
-                  <PauseCircle className="mr-2 h-4 w-4" />
-                  Reaktor anhalten
-                </>
-              ) : (
-                <>
-                  <PlayCircle className="mr-2 h-4 w-4" />
-                  Reaktor starten
-                </>
-              )}
-            </Button>
+                <div className="flex space-x-2 mt-4">
+                  <Button 
+                    className={cn("flex-1", isRunning ? "bg-red-500 hover:bg-red-600" : "bg-blue-500 hover:bg-blue-600")}
+                    onClick={isRunning ? stopReactor : startReactor}
+                  >
+                    {isRunning ? (
+                      <>
+                        <PauseCircle className="mr-2 h-4 w-4" />
+                        {t('fusionLab.stop')}
+                      </>
+                    ) : (
+                      <>
+                        <PlayCircle className="mr-2 h-4 w-4" />
+                        {t('fusionLab.start')}
+                      </>
+                    )}
+                  </Button>
             
-            <Button variant="outline" onClick={resetReactor} disabled={isRunning && fusionReactionRate > 0}>
-              <RotateCcw className="mr-2 h-4 w-4" />
-              Zurücksetzen
-            </Button>
-          </div>
-        </div>
-        
-        <div className="space-y-6">
-          <div className="bg-gray-50 rounded-lg p-4">
-            <h3 className="text-lg font-medium mb-4">Reaktorsteuerung</h3>
-            
-            <div className="space-y-6">
-              <div>
-                <div className="flex justify-between mb-1 text-sm">
-                  <span>Temperatur</span>
-                  <div className="flex items-center">
-                    <Gauge className="w-4 h-4 mr-1 text-orange-500" />
-                    <span>{temperature.toFixed(1)} Mio. K</span>
-                  </div>
-                </div>
-                <Slider
-                  value={[temperature]}
-                  min={5}
-                  max={20}
-                  step={0.1}
-                  onValueChange={(values) => setTemperature(values[0])}
-                  disabled={!isRunning}
-                />
-                <div className="mt-1 text-xs text-gray-500 flex justify-between">
-                  <span>Kühl</span>
-                  <span>Mittel</span>
-                  <span>Sehr heiß</span>
+                  <Button variant="outline" onClick={resetReactor} disabled={isRunning && energyOutput > 0}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    {t('fusionLab.reset')}
+                  </Button>
                 </div>
               </div>
+        
+              <div className="space-y-6">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h3 className="text-lg font-medium mb-4">{t('fusionLab.controls')}</h3>
+            
+                  <div className="space-y-6">
+                    <div>
+                      <div className="flex justify-between mb-1 text-sm">
+                        <span>{t('fusionLab.heating')}</span>
+                        <div className="flex items-center">
+                          <Gauge className="w-4 h-4 mr-1 text-orange-500" />
+                          <span>{formatNumber(heatingPower)} MW</span>
+                        </div>
+                      </div>
+                      <Slider
+                        value={[heatingPower]}
+                        min={0}
+                        max={100}
+                        step={1}
+                        onValueChange={(values) => setHeatingPower(values[0])}
+                        disabled={!isRunning}
+                      />
+                      <div className="mt-1 text-xs text-gray-500 flex justify-between">
+                        <span>{t('fusionLab.heatingOff')}</span>
+                        <span>{t('fusionLab.heatingFull')}</span>
+                      </div>
+                    </div>
               
-              <div>
-                <div className="flex justify-between mb-1 text-sm">
-                  <span>Magnetfeld</span>
-                  <div className="flex items-center">
-                    <Magnet className="w-4 h-4 mr-1 text-blue-500" />
-                    <span>{magneticField.toFixed(1)} Tesla</span>
-                  </div>
-                </div>
-                <Slider 
-                  value={[magneticField]}
-                  min={1}
-                  max={10}
-                  step={0.1}
-                  onValueChange={(values) => setMagneticField(values[0])}
-                  disabled={!isRunning}
-                />
-                <div className="mt-1 text-xs text-gray-500 flex justify-between">
-                  <span>Schwach</span>
-                  <span>Optimal: {getOptimalMagneticField()}</span>
-                  <span>Stark</span>
-                </div>
-              </div>
+                    <div>
+                      <div className="flex justify-between mb-1 text-sm">
+                        <span>{t('fusionLab.magneticField')}</span>
+                        <div className="flex items-center">
+                          <Magnet className="w-4 h-4 mr-1 text-blue-500" />
+                          <span>{t('fusionLab.tesla', { value: magneticField.toFixed(1) })}</span>
+                        </div>
+                      </div>
+                      <Slider 
+                        value={[magneticField]}
+                        min={1}
+                        max={10}
+                        step={0.1}
+                        onValueChange={(values) => setMagneticField(values[0])}
+                        disabled={!isRunning}
+                      />
+                      <div className="mt-1 text-xs text-gray-500 flex justify-between">
+                        <span>{t('fusionLab.weak')}</span>
+                        <span>{t('fusionLab.optimal', { value: getOptimalMagneticField() })}</span>
+                        <span>{t('fusionLab.strong')}</span>
+                      </div>
+                    </div>
               
-              <div>
-                <div className="flex justify-between mb-1 text-sm">
-                  <span>Plasmadichte</span>
-                  <div className="flex items-center">
-                    <span>{plasmaDensity}%</span>
+                    <div>
+                      <div className="flex justify-between mb-1 text-sm">
+                        <span>{t('fusionLab.density')}</span>
+                        <div className="flex items-center">
+                          <span>{formatNumber(plasmaDensity, 1)} × 10²⁰ /m³</span>
+                        </div>
+                      </div>
+                      <Slider 
+                        value={[plasmaDensity]}
+                        min={0.2}
+                        max={2}
+                        step={0.1}
+                        onValueChange={(values) => setPlasmaDensity(values[0])}
+                        disabled={!isRunning}
+                      />
+                    </div>
                   </div>
                 </div>
-                <Slider 
-                  value={[plasmaDensity]}
-                  min={10}
-                  max={70}
-                  step={1}
-                  onValueChange={(values) => setPlasmaDensity(values[0])}
-                  disabled={!isRunning}
-                />
-              </div>
-            </div>
-          </div>
           
-          <div className="bg-gray-50 rounded-lg p-4">
-            <h3 className="text-lg font-medium mb-4">Reaktorstatus</h3>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h3 className="text-lg font-medium mb-4">{t('fusionLab.status')}</h3>
             
-            <div className="space-y-4">
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Plasmadruck</span>
-                  <span>{plasmaPressure.toFixed(1)} bar</span>
-                </div>
-                <Progress value={plasmaPressure * 5} className="h-2" />
-              </div>
+                  <div className="space-y-4">
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>{t('fusionLab.pressure')}</span>
+                        <span>{plasmaPressure.toFixed(1)} bar</span>
+                      </div>
+                      <Progress value={(getBeta(plasma) / BETA_LIMIT) * 100} className="h-2" />
+                    </div>
               
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Plasmastabilität</span>
-                  <span className={cn(
-                    plasmaStability < 40 ? "text-red-500" : 
-                    plasmaStability < 70 ? "text-orange-500" : 
-                    "text-green-500"
-                  )}>
-                    {plasmaStability.toFixed(0)}%
-                  </span>
-                </div>
-                <Progress 
-                  value={plasmaStability} 
-                  className={cn(
-                    "h-2",
-                    plasmaStability < 40 ? "bg-red-200" : 
-                    plasmaStability < 70 ? "bg-orange-200" : 
-                    "bg-green-200"
-                  )}
-                  indicatorClassName={cn(
-                    plasmaStability < 40 ? "bg-red-500" : 
-                    plasmaStability < 70 ? "bg-orange-500" : 
-                    "bg-green-500"
-                  )}
-                />
-              </div>
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>{t('fusionLab.stability')}</span>
+                        <span className={cn(
+                          plasmaStability < 40 ? "text-red-500" : 
+                          plasmaStability < 70 ? "text-orange-500" : 
+                          "text-green-500"
+                        )}>
+                          {plasmaStability.toFixed(0)}%
+                        </span>
+                      </div>
+                      <Progress 
+                        value={plasmaStability} 
+                        className={cn(
+                          "h-2",
+                          plasmaStability < 40 ? "bg-red-200" : 
+                          plasmaStability < 70 ? "bg-orange-200" : 
+                          "bg-green-200"
+                        )}
+                        indicatorClassName={cn(
+                          plasmaStability < 40 ? "bg-red-500" : 
+                          plasmaStability < 70 ? "bg-orange-500" : 
+                          "bg-green-500"
+                        )}
+                      />
+                    </div>
               
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Fusionsrate</span>
-                  <span>{fusionReactionRate.toFixed(2)} fus/s</span>
-                </div>
-                <Progress value={fusionReactionRate * 10} className="h-2" />
-              </div>
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>{t('fusionLab.reactionRate')}</span>
+                        <span>{formatNumber(getReactionRate(plasma) / 1e18)} × 10¹⁸ /s</span>
+                      </div>
+                      <Progress value={energyOutput / 20} className="h-2" />
+                    </div>
               
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Energieausbeute</span>
-                  <span>{energyOutput.toFixed(1)} MW</span>
-                </div>
-                <Progress value={energyOutput * 2} className="h-2" />
-              </div>
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>{t('fusionLab.energyOutput')}</span>
+                        <span>{energyOutput.toFixed(1)} MW</span>
+                      </div>
+                      <Progress value={energyOutput / 20} className="h-2" />
+                    </div>
               
-              <div className="pt-2 text-center">
-                <div className="text-sm font-medium">Gesamtenergie erzeugt</div>
-                <div className="text-2xl font-bold mt-1 text-blue-600">
-                  {totalEnergyProduced.toFixed(0)} MJ
+                    <div className="pt-2 text-center">
+                      <div className="text-sm font-medium">{t('fusionLab.totalEnergy')}</div>
+                      <div className="text-2xl font-bold mt-1 text-blue-600">
+                        {totalEnergyProduced.toFixed(0)} MJ
+                      </div>
+                    </div>
+                  </div>
                 </div>
+
+                <FusionPlasmaPanel plasma={plasma} isRunning={isRunning} />
               </div>
             </div>
-          </div>
-        </div>
-      </div>
       
-      <TabsContent value="d-t" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-        <h3 className="font-medium mb-2">Deuterium-Tritium Fusion</h3>
-        <p className="text-sm">
-          Die D-T Fusion ist die einfachste Fusionsreaktion und benötigt die niedrigsten Temperaturen 
-          (ca. 10-15 Millionen Grad). Sie setzt viel Energie frei, aber erzeugt auch Neutronen, die das Reaktormaterial
-          radioaktiv machen können.
-        </p>
-        <div className="mt-2 text-center text-sm">
-          <span className="font-mono">²H + ³H <ArrowRight className="inline-block mx-1 h-3 w-3" /> ⁴He + n + 17,6 MeV</span>
-        </div>
-      </TabsContent>
+            <TabsContent value="d-t" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
+              <h3 className="font-medium mb-2">{t('fusionLab.fuels.dT.title')}</h3>
+              <p className="text-sm">{t('fusionLab.fuels.dT.text')}</p>
+              <div className="mt-2 text-center text-sm">
+                <span className="font-mono">²H + ³H <ArrowRight className="inline-block mx-1 h-3 w-3" /> ⁴He + n + {formatNumber(17.6, 1)} MeV</span>
+              </div>
+            </TabsContent>
       
-      <TabsContent value="d-d" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-        <h3 className="font-medium mb-2">Deuterium-Deuterium Fusion</h3>
-        <p className="text-sm">
-          Die D-D Fusion verwendet nur Deuterium, das aus Meerwasser gewonnen werden kann. Sie benötigt 
-          höhere Temperaturen (ca. 12-18 Millionen Grad) als D-T Fusion und setzt weniger Energie frei.
-        </p>
-        <div className="mt-2 text-center text-sm">
-          <span className="font-mono">²H + ²H <ArrowRight className="inline-block mx-1 h-3 w-3" /> ³He + n + 3,27 MeV</span>
-        </div>
-      </TabsContent>
+            <TabsContent value="d-d" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
+              <h3 className="font-medium mb-2">{t('fusionLab.fuels.dD.title')}</h3>
+              <p className="text-sm">{t('fusionLab.fuels.dD.text')}</p>
+              <div className="mt-2 text-center text-sm">
+                <span className="font-mono">²H + ²H <ArrowRight className="inline-block mx-1 h-3 w-3" /> ³He + n + {formatNumber(3.27, 2)} MeV</span>
+              </div>
+              <div className="mt-1 text-center text-sm">
+                <span className="font-mono">²H + ²H <ArrowRight className="inline-block mx-1 h-3 w-3" /> ³H + p + {formatNumber(4.03, 2)} MeV</span>
+              </div>
+            </TabsContent>
       
-      <TabsContent value="p-b11" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-        <h3 className="font-medium mb-2">Proton-Bor Fusion</h3>
-        <p className="text-sm">
-          Die p-B11 Fusion verwendet Wasserstoff und Bor und benötigt extrem hohe Temperaturen 
-          (ca. 15-20 Millionen Grad). Sie erzeugt keine Neutronen und daher keine Radioaktivität, 
-          was sie sehr umweltfreundlich macht.
-        </p>
-        <div className="mt-2 text-center text-sm">
-          <span className="font-mono">¹H + ¹¹B <ArrowRight className="inline-block mx-1 h-3 w-3" /> 3 ⁴He + 8,7 MeV</span>
-        </div>
-      </TabsContent>
+            <TabsContent value="p-b11" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
+              <h3 className="font-medium mb-2">{t('fusionLab.fuels.pB11.title')}</h3>
+              <p className="text-sm">{t('fusionLab.fuels.pB11.text')}</p>
+              <div className="mt-2 text-center text-sm">
+                <span className="font-mono">¹H + ¹¹B <ArrowRight className="inline-block mx-1 h-3 w-3" /> 3 ⁴He + {formatNumber(8.7, 1)} MeV</span>
+              </div>
+            </TabsContent>
+
+            <FusionFuelComparison
+              fuel={activeTab}
+              temperature={isRunning ? plasma.temperature : undefined}
+              className="mt-4"
+            />
+          </>
+        )}
+      </Tabs>
     </Card>
   );
 };
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Flame } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  getBeta,
+  getIgnitionProgress,
+  getIgnitionTripleProduct,
+  getIgnitionWindow,
+  getPlasmaConfinementTime,
+  getPlasmaStability,
+  getPowerBalance,
+  getTripleProduct,
+  keVToKelvin,
+  Plasma,
+} from '@/lib/fusion-plasma';
+
+interface FusionPlasmaPanelProps {
+  plasma: Plasma;
+  isRunning: boolean;
+  className?: string;
+}
+
+// Readout of the plasma model: how far the plasma is from burning by itself
+// and where its heat comes from and goes to
+export const FusionPlasmaPanel = ({ plasma, isRunning, className }: FusionPlasmaPanelProps) => {
+  const { t, formatNumber, formatScientific } = useI18n();
+  const balance = getPowerBalance(plasma);
+  const stability = getPlasmaStability(plasma);
+  const progress = isRunning ? getIgnitionProgress(plasma) : 0;
+  const required = getIgnitionTripleProduct(plasma.temperature, plasma.fuel);
+  const ignitionWindow = getIgnitionWindow(plasma.fuel);
+
+  const getStatus = () => {
+    if (!isRunning) return { text: t('fusionPlasma.off'), className: 'text-gray-500' };
+    if (progress >= 1) return { text: t('fusionPlasma.ignited'), className: 'text-green-600' };
+    if (balance.q >= 1) return { text: t('fusionPlasma.breakeven'), className: 'text-yellow-600' };
+    return { text: t('fusionPlasma.heating'), className: 'text-orange-500' };
+  };
+  const status = getStatus();
+
+  const powers = [
+    { label: t('fusionPlasma.powers.heating'), value: balance.heating, gain: true },
+    { label: t('fusionPlasma.powers.alpha'), value: balance.alpha, gain: true },
+    { label: t('fusionPlasma.powers.bremsstrahlung'), value: balance.bremsstrahlung, gain: false },
+    { label: t('fusionPlasma.powers.transport'), value: balance.transport, gain: false },
+  ];
+  const largestPower = Math.max(1, ...powers.map(power => power.value));
+
+  return (
+    <div className={cn('bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Flame className="h-5 w-5 mr-2 text-orange-500" />
+          <h3 className="font-medium">{t('fusionPlasma.title')}</h3>
+        </div>
+        <span className={cn('font-medium', status.className)}>{status.text}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <span className="text-gray-600">{t('fusionPlasma.temperature')}</span>
+        <span className="font-bold text-right">
+          {formatNumber(plasma.temperature, 1)} keV ({t('fusionPlasma.millionKelvin', { value: formatNumber(keVToKelvin(plasma.temperature) / 1e6) })})
+        </span>
+        <span className="text-gray-600">{t('fusionPlasma.density')}</span>
+        <span className="font-bold text-right">{formatNumber(plasma.density, 1)} × 10²⁰ /m³</span>
+        <span className="text-gray-600">{t('fusionPlasma.confinementTime')}</span>
+        <span className="font-bold text-right">{formatNumber(getPlasmaConfinementTime(plasma), 1)} s</span>
+        <span className="text-gray-600">{t('fusionPlasma.fusionPower')}</span>
+        <span className="font-bold text-right">{formatNumber(balance.fusion)} MW</span>
+        <span className="text-gray-600">{t('fusionPlasma.q')}</span>
+        <span className={cn('font-bold text-right', balance.q >= 1 ? 'text-green-600' : 'text-gray-700')}>
+          {Number.isFinite(balance.q) ? formatNumber(balance.q, 1) : '∞'}
+        </span>
+        <span className="text-gray-600">{t('fusionPlasma.stability')}</span>
+        <span
+          className={cn(
+            'font-bold text-right',
+            stability < 30 ? 'text-red-600' : stability < 70 ? 'text-orange-500' : 'text-green-600'
+          )}
+        >
+          {formatNumber(stability)} % (β {formatNumber(getBeta(plasma) * 100, 1)} %)
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-600">{t('fusionPlasma.tripleProduct')}</span>
+          <span className="font-mono text-xs">
+            {formatScientific(getTripleProduct(plasma))} / {Number.isFinite(required) ? formatScientific(required) : '∞'}
+          </span>
+        </div>
+        <Progress value={Math.min(100, progress * 100)} className="h-2" />
+        <p className="text-xs text-gray-500">
+          {Number.isFinite(required)
+            ? t('fusionPlasma.lawson', {
+                value: formatScientific(ignitionWindow.minimumTripleProduct),
+                temperature: formatNumber(ignitionWindow.optimalTemperature),
+              })
+            : t('fusionPlasma.tooCold', { temperature: formatNumber(ignitionWindow.minimumTemperature) })}
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        {powers.map(({ label, value, gain }) => (
+          <div key={label} className="flex items-center gap-2">
+            <span className="w-28 text-xs text-gray-600">{label}</span>
+            <Progress value={(value / largestPower) * 100} className="h-2 flex-1" />
+            <span className={cn('w-20 text-right text-xs', gain ? 'text-orange-600' : 'text-blue-600')}>
+              {gain ? '+' : '−'}{formatNumber(value)} MW
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {isRunning && stability < 30 && (
+        <div className="flex items-center text-red-600">
+          <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+          <span>{t('fusionPlasma.betaLimit')}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FusionPlasmaPanel;
@@ -5,12 +5,14 @@ import GameArea from './GameArea';
 import GameControls from './GameControls';
 import EnergyBar from './EnergyBar';
 import EnrichmentLab from './EnrichmentLab';
-import BombLab from './BombLab';
+import BombLab, { BombDesign, BombMaterial } from './BombLab';
 import NuclearExplosion from './NuclearExplosion';
 import Explanation from './Explanation';
 import ReactorLab from './ReactorLab';
 import FusionLab from './FusionLab';
 import ChainReactionSimulator from './ChainReactionSimulator';
+import CriticalityExplorer from './CriticalityExplorer';
+import RadioactiveDatingGame from './RadioactiveDatingGame';
 import RadiationEffectsLab from './RadiationEffectsLab';
 import MiniSunGame from './MiniSunGame';
 import { AtomProps } from './Atom';
@@ -27,49 +29,88 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { useToast } from '@/hooks/use-toast';
-import { Progress } from '@/components/ui/progress';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import SaveGameDialog from './SaveGameDialog';
+import SaveTransferDialog from './SaveTransferDialog';
+import KnowledgeDialog from './KnowledgeDialog';
+import QuizDialog from './Quiz/QuizDialog';
+import { useAutosave } from '@/hooks/use-autosave';
+import { mergeAchievementState } from '@/lib/achievements';
+import { mergeKnowledgeState, recordExperiment } from '@/lib/knowledge';
+import { SaveFileContents } from '@/lib/save-file';
+import { BredFuel } from '@/lib/reactor-kinetics';
+import {
+  createSave,
+  DEFAULT_SLOT,
+  defaultProgress,
+  formatSaveDate,
+  GameProgress,
+  loadRadarHighScores,
+  SaveGame,
+  writeRadarHighScores,
+  writeSave
+} from '@/lib/save-game';
 
 interface GameProps {
   className?: string;
+  saveSlot?: string;
+  initialSave?: SaveGame | null;
+  onLoadSlot?: (slot: string) => void;
+  onNewGame?: () => void;
 }
 
 const MAX_ENERGY = 1000;
 
-const getExplanationForElement = (element: AtomProps['element'] | null, neutronSpeed: 'slow' | 'fast'): string => {
+const getExplanationForElement = (element: AtomProps['element'] | null, neutronSpeed: 'slow' | 'fast'): MessageKey => {
   switch (element) {
     case 'uranium235':
-      return "Uran-235 ist ein Isotop, das gut für Kernspaltung geeignet ist. Es reagiert auf schnelle und langsame Neutronen, wobei langsame etwas effektiver sind.";
+      return 'game.elementExplanations.uranium235';
     case 'uranium238':
-      return neutronSpeed === 'slow' 
-        ? "Uran-238 absorbiert langsame Neutronen und wandelt sich in Uran-239 um, das über Neptunium-239 zu Plutonium-239 zerfällt." 
-        : "Uran-238 reagiert kaum auf schnelle Neutronen. Versuche es mit langsamen Neutronen!";
+      return neutronSpeed === 'slow'
+        ? 'game.elementExplanations.uranium238Slow'
+        : 'game.elementExplanations.uranium238Fast';
     case 'plutonium239':
-      return "Plutonium-239 ist ein künstliches Element, das sehr gut spaltbar ist. Es reagiert gut auf schnelle und langsame Neutronen und setzt beim Spalten viel Energie frei.";
+      return 'game.elementExplanations.plutonium239';
     case 'thorium232':
       return neutronSpeed === 'slow'
-        ? "Thorium-232 kann mit langsamen Neutronen Thorium-233 bilden, das über Protactinium-233 zu Uran-233 zerfällt."
-        : "Thorium-232 reagiert kaum auf schnelle Neutronen. Verwende langsame Neutronen für bessere Ergebnisse.";
+        ? 'game.elementExplanations.thorium232Slow'
+        : 'game.elementExplanations.thorium232Fast';
     default:
-      return "Wähle ein Element aus, dann erkläre ich dir mehr darüber!";
+      return 'game.elementExplanations.none';
   }
 };
 
-export const Game = ({ className }: GameProps) => {
+export const Game = ({ className, saveSlot = DEFAULT_SLOT, initialSave, onLoadSlot, onNewGame }: GameProps) => {
+  const initialProgress = initialSave?.progress ?? defaultProgress;
+  const [activeSlot, setActiveSlot] = useState(saveSlot);
   const [selectedElement, setSelectedElement] = useState<AtomProps['element'] | null>(null);
-  const [totalEnergy, setTotalEnergy] = useState(0);
-  const [neutronCount, setNeutronCount] = useState(0);
+  const [totalEnergy, setTotalEnergy] = useState(initialProgress.totalEnergy);
+  const [neutronCount, setNeutronCount] = useState(initialProgress.neutronCount);
   const [canFireNeutron, setCanFireNeutron] = useState(false);
   const [neutronSpeed, setNeutronSpeed] = useState<'slow' | 'fast'>('fast');
-  const [currentTab, setCurrentTab] = useState("fission");
-  const [enrichedUranium, setEnrichedUranium] = useState(0);
-  const [uraniumEnrichment, setUraniumEnrichment] = useState(0);
-  const [plutoniumAmount, setPlutoniumAmount] = useState(0);
+  const [currentTab, setCurrentTab] = useState(initialProgress.currentTab);
+  const [enrichedUranium, setEnrichedUranium] = useState(initialProgress.enrichedUranium);
+  const [uraniumEnrichment, setUraniumEnrichment] = useState(initialProgress.uraniumEnrichment);
+  const [plutoniumAmount, setPlutoniumAmount] = useState(initialProgress.plutoniumAmount);
+  const [uranium233Amount, setUranium233Amount] = useState(initialProgress.uranium233Amount);
   const [showExplosion, setShowExplosion] = useState(false);
   const [explosionYield, setExplosionYield] = useState(0);
-  const [bombType, setBombType] = useState("");
+  const [bomb, setBomb] = useState<{ material: BombMaterial; design: BombDesign } | null>(null);
   const [isAdvancedLabsOpen, setIsAdvancedLabsOpen] = useState(false);
-  const [totalKnowledge, setTotalKnowledge] = useState(0);
   const { toast } = useToast();
+  const { t, formatNumber } = useI18n();
+
+  const progress: GameProgress = {
+    totalEnergy,
+    neutronCount,
+    enrichedUranium,
+    uraniumEnrichment,
+    plutoniumAmount,
+    uranium233Amount,
+    currentTab,
+  };
+  useAutosave(activeSlot, progress);
 
   useEffect(() => {
     setCanFireNeutron(!!selectedElement && neutronCount > 0);
@@ -97,13 +138,10 @@ export const Game = ({ className }: GameProps) => {
       const newPlutonium = 0.01; // Small amount
       setPlutoniumAmount(prev => prev + newPlutonium);
       toast({
-        title: "Plutonium erzeugt!",
-        description: `${newPlutonium.toFixed(2)}kg Plutonium-239 durch Neutroneneinfang und Zerfall.`,
+        title: t('game.plutoniumCreated.title'),
+        description: t('game.plutoniumCreated.description', { amount: formatNumber(newPlutonium, 2) }),
       });
     }
-    
-    // Increment knowledge
-    setTotalKnowledge(prev => Math.min(100, prev + energy / 100));
   };
 
   const handleFireNeutron = () => {
@@ -129,17 +167,30 @@ export const Game = ({ className }: GameProps) => {
     setUraniumEnrichment(enrichmentLevel);
     
     toast({
-      title: "Angereichertes Uran erhalten",
-      description: `${amount.toFixed(2)}kg Uran mit ${enrichmentLevel.toFixed(1)}% U-235 wurde hinzugefügt.`,
+      title: t('game.enrichedUranium.title'),
+      description: t('game.enrichedUranium.description', {
+        amount: formatNumber(amount, 2),
+        enrichment: formatNumber(enrichmentLevel, 1),
+      }),
     });
   };
   
-  const handleDetonation = (yieldValue: number, type: string) => {
+  // Bred fuel from the fast breeder and the thorium reactor goes into the inventory
+  const handleFuelBred = (fuel: BredFuel, amount: number) => {
+    if (fuel === 'plutonium239') {
+      setPlutoniumAmount(prev => prev + amount);
+    } else {
+      setUranium233Amount(prev => prev + amount);
+    }
+  };
+  
+  const handleDetonation = (yieldValue: number, material: BombMaterial, design: BombDesign) => {
     setShowExplosion(true);
     setExplosionYield(yieldValue);
-    setBombType(type);
+    setBomb({ material, design });
+    recordExperiment('criticality:critical-mass');
     
-    if (type.includes('Uran')) {
+    if (material === 'uranium') {
       setEnrichedUranium(0);
     } else {
       setPlutoniumAmount(0);
@@ -149,52 +200,112 @@ export const Game = ({ className }: GameProps) => {
   const handleExplosionComplete = () => {
     setShowExplosion(false);
     toast({
-      title: "Detonation abgeschlossen",
-      description: `${bombType}-Bombe mit ${explosionYield.toFixed(1)} Kilotonnen Sprengkraft.`,
+      title: t('game.detonation.title'),
+      description: t('game.detonation.description', {
+        material: t(`game.detonation.materials.${bomb.material}`),
+        design: t(`game.detonation.designs.${bomb.design}`),
+        yield: formatNumber(explosionYield, 1),
+      }),
     });
   };
   
+  const handleSaveAs = (slot: string) => {
+    if (writeSave(slot, createSave(progress))) {
+      setActiveSlot(slot);
+      toast({
+        title: t('saves.saved'),
+        description: t('saves.savedDescription', { slot }),
+      });
+    } else {
+      toast({
+        title: t('saves.saveFailed'),
+        description: t('saves.saveFailedDescription'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = ({ save, radarHighScores, achievements, knowledge }: SaveFileContents) => {
+    // The shared progress is only merged once the slot is safely written
+    const slot = t('saves.importSlot', { date: formatSaveDate(new Date().toISOString()) });
+    if (!writeSave(slot, { ...save, savedAt: new Date().toISOString() })) {
+      toast({
+        title: t('saves.saveFailed'),
+        description: t('saves.saveFailedDescription'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const mergedHighScores = { ...loadRadarHighScores() };
+    Object.entries(radarHighScores).forEach(([jetType, score]) => {
+      mergedHighScores[jetType] = Math.max(mergedHighScores[jetType] ?? 0, score);
+    });
+    writeRadarHighScores(mergedHighScores);
+    mergeAchievementState(achievements);
+    mergeKnowledgeState(knowledge);
+
+    toast({
+      title: t('saves.imported'),
+      description: t('saves.importedDescription', { slot }),
+    });
+    onLoadSlot?.(slot);
+  };
+
   const handleEnergyProduced = (amount: number) => {
     setTotalEnergy(prev => Math.min(MAX_ENERGY, prev + amount));
-    // Also increment knowledge for energy production
-    setTotalKnowledge(prev => Math.min(100, prev + amount / 20));
   };
 
   return (
     <div className={cn('space-y-6', className)}>
       <div className="flex justify-between items-center">
-        <h2 className="text-3xl font-bold text-primary">Atom-Abenteuer</h2>
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button variant="outline" size="icon">
-              <HelpCircle className="h-5 w-5" />
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle className="text-2xl">Wie man spielt</DialogTitle>
-              <DialogDescription className="text-lg pt-4 space-y-2">
-                <p>1. Wähle ein Element aus den Knöpfen unten.</p>
-                <p>2. Wähle zwischen schnellen und langsamen Neutronen.</p>
-                <p>3. Klicke irgendwo im Spielfeld, um ein Neutron zu platzieren.</p>
-                <p>4. Ziehe das Neutron auf den Atomkern, um eine Reaktion auszulösen.</p>
-                <p>5. Sieh zu, was passiert! Verschiedene Elemente reagieren unterschiedlich auf schnelle und langsame Neutronen.</p>
-                <p>6. Uran-238 absorbiert langsame Neutronen und startet eine Umwandlungskette zu Plutonium.</p>
-                <p>7. Nutze das Anreicherungslabor, um Uran-235 anzureichern.</p>
-                <p>8. Mit ausreichend Material kannst du eine Atombombe bauen.</p>
-                <p>9. Im Reaktorlabor kannst du einen Kernreaktor bauen und betreiben.</p>
-                <p>10. Experimentiere mit Fusion, um zu verstehen, wie Sterne funktionieren.</p>
-                <p>11. Baue deine eigene Mini-Sonne und beobachte, wie Kernfusion in Sternen stattfindet.</p>
-                <p>12. Versuche, die Energieanzeige zu füllen!</p>
-              </DialogDescription>
-            </DialogHeader>
-          </DialogContent>
-        </Dialog>
+        <h2 className="text-3xl font-bold text-primary">{t('game.title')}</h2>
+        <div className="flex gap-2">
+          <SaveGameDialog
+            currentSlot={activeSlot}
+            onSaveAs={handleSaveAs}
+            onLoad={slot => onLoadSlot?.(slot)}
+            onNewGame={() => onNewGame?.()}
+          />
+          <SaveTransferDialog
+            currentSlot={activeSlot}
+            getSave={() => createSave(progress)}
+            onImport={handleImport}
+          />
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="icon">
+                <HelpCircle className="h-5 w-5" />
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle className="text-2xl">{t('game.help.title')}</DialogTitle>
+                <DialogDescription className="text-lg pt-4 space-y-2">
+                  <p>{t('game.help.steps.selectElement')}</p>
+                  <p>{t('game.help.steps.chooseSpeed')}</p>
+                  <p>{t('game.help.steps.placeNeutron')}</p>
+                  <p>{t('game.help.steps.dragNeutron')}</p>
+                  <p>{t('game.help.steps.watch')}</p>
+                  <p>{t('game.help.steps.breeding')}</p>
+                  <p>{t('game.help.steps.enrichment')}</p>
+                  <p>{t('game.help.steps.bomb')}</p>
+                  <p>{t('game.help.steps.reactor')}</p>
+                  <p>{t('game.help.steps.fusion')}</p>
+                  <p>{t('game.help.steps.miniSun')}</p>
+                  <p>{t('game.help.steps.energy')}</p>
+                </DialogDescription>
+              </DialogHeader>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
       
       <div className="flex justify-between items-center bg-blue-50 rounded-lg p-3 border border-blue-100">
         <div className="flex space-x-4 items-center">
-          <div className="text-lg font-medium">Energie: {totalEnergy.toFixed(0)}/{MAX_ENERGY}</div>
+          <div className="text-lg font-medium">
+            {t('game.energy', { energy: totalEnergy.toFixed(0), max: MAX_ENERGY })}
+          </div>
           <EnergyBar 
             value={totalEnergy} 
             maxValue={MAX_ENERGY}
@@ -203,22 +314,17 @@ export const Game = ({ className }: GameProps) => {
           />
         </div>
         
-        <div className="flex space-x-4 items-center">
-          <div className="text-lg font-medium">Wissen</div>
-          <div className="w-40 flex items-center">
-            <Progress value={totalKnowledge} className="h-4" />
-            <span className="ml-2">{totalKnowledge.toFixed(0)}%</span>
-          </div>
-        </div>
+        <KnowledgeDialog onOpenLab={setCurrentTab} />
         
         <div className="flex space-x-4 items-center">
           <div>
-            <span className="font-medium">Neutronen:</span> {neutronCount}
+            <span className="font-medium">{t('game.neutrons')}</span> {neutronCount}
           </div>
           <div>
-            <span className="font-medium">Material:</span> 
+            <span className="font-medium">{t('game.material')}</span> 
             <span className="ml-2">{enrichedUranium.toFixed(1)} kg U</span>
             <span className="ml-2">{plutoniumAmount.toFixed(1)} kg Pu</span>
+            <span className="ml-2">{uranium233Amount.toFixed(1)} kg U-233</span>
           </div>
         </div>
       </div>
@@ -227,35 +333,35 @@ export const Game = ({ className }: GameProps) => {
         <TabsList className="w-full grid grid-cols-8 mb-4">
           <TabsTrigger value="fission" className="flex items-center space-x-1">
             <Atom className="h-4 w-4" />
-            <span>Kernspaltung</span>
+            <span>{t('game.tabs.fission')}</span>
           </TabsTrigger>
           <TabsTrigger value="enrichment" className="flex items-center space-x-1">
             <Radiation className="h-4 w-4" />
-            <span>Anreicherung</span>
+            <span>{t('game.tabs.enrichment')}</span>
           </TabsTrigger>
           <TabsTrigger value="bomb" className="flex items-center space-x-1">
             <Flame className="h-4 w-4" />
-            <span>Atombombe</span>
+            <span>{t('game.tabs.bomb')}</span>
           </TabsTrigger>
           <TabsTrigger value="reactor" className="flex items-center space-x-1">
             <Zap className="h-4 w-4" />
-            <span>Reaktor</span>
+            <span>{t('game.tabs.reactor')}</span>
           </TabsTrigger>
           <TabsTrigger value="fusion" className="flex items-center space-x-1">
             <Flame className="h-4 w-4" />
-            <span>Fusion</span>
+            <span>{t('game.tabs.fusion')}</span>
           </TabsTrigger>
           <TabsTrigger value="mini-sun" className="flex items-center space-x-1">
             <Sun className="h-4 w-4" />
-            <span>Mini-Sonne</span>
+            <span>{t('game.tabs.miniSun')}</span>
           </TabsTrigger>
           <TabsTrigger value="chain-reaction" className="flex items-center space-x-1">
             <BarChart3 className="h-4 w-4" />
-            <span>Kettenreaktion</span>
+            <span>{t('game.tabs.chainReaction')}</span>
           </TabsTrigger>
           <TabsTrigger value="radiation" className="flex items-center space-x-1">
             <FlaskConical className="h-4 w-4" />
-            <span>Strahlung</span>
+            <span>{t('game.tabs.radiation')}</span>
           </TabsTrigger>
         </TabsList>
         
@@ -270,20 +376,24 @@ export const Game = ({ className }: GameProps) => {
             </div>
             <div className="flex flex-col space-y-6">
               <Explanation 
-                text={getExplanationForElement(selectedElement, neutronSpeed)} 
+                text={t(getExplanationForElement(selectedElement, neutronSpeed))} 
               />
               
               <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
-                <h3 className="font-medium mb-2">Materialübersicht:</h3>
+                <h3 className="font-medium mb-2">{t('game.materials.title')}</h3>
                 <div className="space-y-1 text-sm">
                   <div className="flex justify-between">
-                    <span>Angereichertes Uran:</span>
+                    <span>{t('game.materials.enrichedUranium')}</span>
                     <span>{enrichedUranium.toFixed(2)} kg ({uraniumEnrichment.toFixed(1)}%)</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Plutonium-239:</span>
+                    <span>{t('game.materials.plutonium239')}</span>
                     <span>{plutoniumAmount.toFixed(2)} kg</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span>{t('game.materials.uranium233')}</span>
+                    <span>{uranium233Amount.toFixed(2)} kg</span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -298,6 +408,10 @@ export const Game = ({ className }: GameProps) => {
             neutronSpeed={neutronSpeed}
             canFireNeutron={canFireNeutron}
           />
+          
+          <div className="flex justify-end">
+            <QuizDialog tab="fission" />
+          </div>
         </TabsContent>
         
         <TabsContent value="enrichment">
@@ -306,14 +420,9 @@ export const Game = ({ className }: GameProps) => {
           />
           
           <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-            <h3 className="font-medium mb-2">Anreicherung erklärt:</h3>
-            <p className="text-sm">
-              Uran kommt in der Natur hauptsächlich als U-238 (99,3%) vor, 
-              mit nur 0,7% des spaltbaren U-235. Für Kernwaffen wird 
-              hochangereichertes Uran mit über 90% U-235 benötigt. 
-              Zentrifugen trennen die leicht unterschiedlich schweren 
-              Isotope, indem sie bei extrem hohen Geschwindigkeiten rotieren.
-            </p>
+            <h3 className="font-medium mb-2">{t('game.explained.enrichment.title')}</h3>
+            <p className="text-sm">{t('game.explained.enrichment.text')}</p>
+            <QuizDialog tab="enrichment" className="mt-3" />
           </div>
         </TabsContent>
         
@@ -327,15 +436,8 @@ export const Game = ({ className }: GameProps) => {
           />
           
           <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-            <h3 className="font-medium mb-2">Atombomben erklärt:</h3>
-            <p className="text-sm">
-              Atombomben setzen enorme Energiemengen durch eine sich selbst 
-              erhaltende Kettenreaktion frei. Sie benötigen eine kritische Masse 
-              an spaltbarem Material wie Uran-235 oder Plutonium-239. Bei 
-              einer Uran-Bombe werden zwei unterkritische Massen zusammengeschossen 
-              (Kanonendesign), während Plutoniumbomben eine präzise Implosionswelle 
-              verwenden, um das Material zu komprimieren und die Kettenreaktion auszulösen.
-            </p>
+            <h3 className="font-medium mb-2">{t('game.explained.bomb.title')}</h3>
+            <p className="text-sm">{t('game.explained.bomb.text')}</p>
           </div>
         </TabsContent>
         
@@ -343,17 +445,13 @@ export const Game = ({ className }: GameProps) => {
           <ReactorLab 
             energy={totalEnergy}
             onEnergyProduced={handleEnergyProduced}
+            onFuelBred={handleFuelBred}
           />
           
           <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-            <h3 className="font-medium mb-2">Kernreaktoren erklärt:</h3>
-            <p className="text-sm">
-              Kernreaktoren nutzen kontrollierte Kernspaltung, um Wärme zu erzeugen und 
-              Wasser zu erhitzen, das Turbinen antreibt und Elektrizität erzeugt. 
-              Die Reaktion wird durch Steuerstäbe reguliert, die Neutronen absorbieren. 
-              Verschiedene Reaktortypen nutzen unterschiedliche Brennstoffe und Kühlmittel, 
-              haben aber alle das Ziel, eine stabile, kontrollierte Kettenreaktion aufrechtzuerhalten.
-            </p>
+            <h3 className="font-medium mb-2">{t('game.explained.reactor.title')}</h3>
+            <p className="text-sm">{t('game.explained.reactor.text')}</p>
+            <QuizDialog tab="reactor" className="mt-3" />
           </div>
         </TabsContent>
         
@@ -364,14 +462,9 @@ export const Game = ({ className }: GameProps) => {
           />
           
           <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-            <h3 className="font-medium mb-2">Kernfusion erklärt:</h3>
-            <p className="text-sm">
-              Bei der Kernfusion verschmelzen leichte Atomkerne wie Wasserstoff zu schwereren Kernen 
-              wie Helium und setzen dabei enorme Energiemengen frei. Dieser Prozess treibt Sterne an 
-              und könnte eine nahezu unerschöpfliche, saubere Energiequelle darstellen. 
-              Auf der Erde sind extrem hohe Temperaturen (Millionen Grad) und starke Magnetfelder 
-              nötig, um die elektrostatische Abstoßung zwischen den Kernen zu überwinden.
-            </p>
+            <h3 className="font-medium mb-2">{t('game.explained.fusion.title')}</h3>
+            <p className="text-sm">{t('game.explained.fusion.text')}</p>
+            <QuizDialog tab="fusion" className="mt-3" />
           </div>
         </TabsContent>
         
@@ -379,20 +472,21 @@ export const Game = ({ className }: GameProps) => {
           <MiniSunGame 
             onEnergyProduced={handleEnergyProduced}
           />
+          
+          <div className="mt-4 flex justify-end">
+            <QuizDialog tab="mini-sun" />
+          </div>
         </TabsContent>
         
         <TabsContent value="chain-reaction">
           <ChainReactionSimulator />
+          <RadioactiveDatingGame className="mt-4" />
+          <CriticalityExplorer className="mt-4" />
           
           <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-            <h3 className="font-medium mb-2">Kettenreaktionen und exponentielle Prozesse erklärt:</h3>
-            <p className="text-sm">
-              Eine Kettenreaktion entsteht, wenn jede Kernspaltung durchschnittlich mehr als ein 
-              Neutron erzeugt, das weitere Spaltungen auslöst. Der Multiplikationsfaktor k 
-              beschreibt dieses Verhältnis: Bei k &lt; 1 stirbt die Reaktion ab, bei k = 1 bleibt 
-              sie stabil und bei k &gt; 1 wächst sie exponentiell an. Ähnliche exponentielle Muster 
-              finden wir in vielen Bereichen, von der Bevölkerungsentwicklung bis zum Zinseszins.
-            </p>
+            <h3 className="font-medium mb-2">{t('game.explained.chainReaction.title')}</h3>
+            <p className="text-sm">{t('game.explained.chainReaction.text')}</p>
+            <QuizDialog tab="chain-reaction" className="mt-3" />
           </div>
         </TabsContent>
         
@@ -400,14 +494,9 @@ export const Game = ({ className }: GameProps) => {
           <RadiationEffectsLab />
           
           <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-            <h3 className="font-medium mb-2">Strahlung und Materie erklärt:</h3>
-            <p className="text-sm">
-              Ionisierende Strahlung (Alpha, Beta, Gamma und Neutronen) kann Atome ionisieren, 
-              chemische Bindungen aufbrechen und biologisches Gewebe schädigen. In der Medizin 
-              wird sie zur Krebsbehandlung eingesetzt, in der Industrie zur Materialprüfung. 
-              Die Halbwertszeit beschreibt, wie lange radioaktive Stoffe aktiv bleiben, und reicht 
-              von Sekundenbruchteilen bei kurzlebigen Isotopen bis zu Milliarden von Jahren.
-            </p>
+            <h3 className="font-medium mb-2">{t('game.explained.radiation.title')}</h3>
+            <p className="text-sm">{t('game.explained.radiation.text')}</p>
+            <QuizDialog tab="radiation" className="mt-3" />
           </div>
         </TabsContent>
       </Tabs>
@@ -423,28 +512,26 @@ export const Game = ({ className }: GameProps) => {
               {isAdvancedLabsOpen ? (
                 <>
                   <ChevronUp className="w-4 h-4 mr-1" />
-                  Erweiterte Labore ausblenden
+                  {t('game.advancedLabs.hide')}
                 </>
               ) : (
                 <>
                   <ChevronDown className="w-4 h-4 mr-1" />
-                  Erweiterte Labore anzeigen
+                  {t('game.advancedLabs.show')}
                 </>
               )}
             </Button>
           </CollapsibleTrigger>
           <CollapsibleContent className="mt-4 space-y-4">
             <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
-              <h3 className="font-medium mb-2">Fortgeschrittene Kernphysik:</h3>
-              <p className="text-sm">
-                Wähle auf den Tabs oben zwischen verschiedenen Laboren, um tiefer in die Kernphysik einzutauchen:
-              </p>
+              <h3 className="font-medium mb-2">{t('game.advancedLabs.title')}</h3>
+              <p className="text-sm">{t('game.advancedLabs.intro')}</p>
               <ul className="list-disc list-inside mt-2 text-sm space-y-1">
-                <li>Baue und steuere verschiedene Reaktortypen im Reaktor-Labor</li>
-                <li>Entdecke Kernfusion und wie Sterne funktionieren im Fusions-Labor</li>
-                <li>Erschaffe deine eigene Mini-Sonne im Mini-Sonnen-Labor</li>
-                <li>Verstehe die Mathematik hinter Kettenreaktionen im Simulator</li>
-                <li>Erforsche die Auswirkungen von Strahlung auf verschiedene Materialien</li>
+                <li>{t('game.advancedLabs.reactor')}</li>
+                <li>{t('game.advancedLabs.fusion')}</li>
+                <li>{t('game.advancedLabs.miniSun')}</li>
+                <li>{t('game.advancedLabs.chainReaction')}</li>
+                <li>{t('game.advancedLabs.radiation')}</li>
               </ul>
             </div>
           </CollapsibleContent>
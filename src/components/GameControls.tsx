@@ -2,7 +2,9 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 import { AtomProps } from './Atom';
+import { getNuclideName, nuclides, selectableNuclides } from '@/lib/nuclides';
 import { Atom, Zap, Play, RefreshCw, Waves, Flame } from 'lucide-react';
 
 interface GameControlsProps {
@@ -26,12 +28,12 @@ export const GameControls = ({
   canFireNeutron,
   className,
 }: GameControlsProps) => {
-  const elements: { value: AtomProps['element']; label: string; description: string }[] = [
-    { value: 'uranium235', label: 'Uran-235', description: 'Gut spaltbar' },
-    { value: 'uranium238', label: 'Uran-238', description: 'Absorbiert langsame Neutronen' },
-    { value: 'plutonium239', label: 'Plutonium-239', description: 'Sehr gut spaltbar' },
-    { value: 'thorium232', label: 'Thorium-232', description: 'Brutelement' },
-  ];
+  const { t } = useI18n();
+  const elements = selectableNuclides.map(id => ({
+    value: id,
+    label: getNuclideName(nuclides[id], t),
+    description: t(nuclides[id].description),
+  }));
 
   return (
     <div className={cn('flex flex-col space-y-4', className)}>
@@ -64,7 +66,7 @@ export const GameControls = ({
           className="bg-orange-500 hover:bg-orange-600 animate-pulse"
         >
           <Zap className="mr-2 h-5 w-5" />
-          Neutron abschießen
+          {t('gameControls.fireNeutron')}
         </Button>
         
         <Button 
@@ -72,7 +74,7 @@ export const GameControls = ({
           variant="outline"
         >
           <RefreshCw className="mr-2 h-4 w-4" />
-          Zurücksetzen
+          {t('common.reset')}
         </Button>
       </div>
       
@@ -87,8 +89,8 @@ export const GameControls = ({
         >
           <Waves className="mr-2 h-4 w-4" />
           <div className="flex flex-col items-start">
-            <span>Langsame Neutronen</span>
-            <span className="text-xs opacity-80">Für U-238 Absorption</span>
+            <span>{t('gameControls.slowNeutrons')}</span>
+            <span className="text-xs opacity-80">{t('gameControls.slowNeutronsHint')}</span>
           </div>
         </Button>
         
@@ -102,15 +104,15 @@ export const GameControls = ({
         >
           <Flame className="mr-2 h-4 w-4" />
           <div className="flex flex-col items-start">
-            <span>Schnelle Neutronen</span>
-            <span className="text-xs opacity-80">Besser für Spaltung</span>
+            <span>{t('gameControls.fastNeutrons')}</span>
+            <span className="text-xs opacity-80">{t('gameControls.fastNeutronsHint')}</span>
           </div>
         </Button>
       </div>
       
       <div className="text-center">
         <p className="text-sm text-gray-500">
-          Tipp: Uran-238 absorbiert nur langsame Neutronen, während Plutonium-239 auf beide Arten reagiert.
+          {t('gameControls.tip')}
         </p>
       </div>
     </div>
@@ -0,0 +1,426 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Area, AreaChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { AlertTriangle, Crosshair, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { recordExperiment } from '@/lib/knowledge';
+import { getIgnitionWindow } from '@/lib/fusion-plasma';
+import {
+  getImplosion,
+  getPulseShape,
+  IGNITION_AREAL_DENSITY,
+  IGNITION_TEMPERATURE,
+  ImplosionResult,
+  LASER_EFFICIENCY,
+  LaserPulse,
+  MAX_LASER_ENERGY,
+  MAX_TIMING,
+  MIN_LASER_ENERGY,
+  MIN_SYMMETRY,
+  OPTIMAL_TIMING,
+} from '@/lib/inertial-fusion';
+
+interface InertialFusionLabProps {
+  onEnergyProduced: (amount: number) => void;
+  className?: string;
+}
+
+// Game energy per megajoule of fusion energy, as in the tokamak
+const ENERGY_PER_MEGAJOULE = 1 / 1000;
+// Real time the implosion animation takes, ms
+const SHOT_DURATION = 3000;
+const BEAM_COUNT = 12;
+// Ions per m³ of a tokamak plasma, for the comparison
+const TOKAMAK_DENSITY = 1e20;
+
+const limitLabels: Record<NonNullable<ImplosionResult['limitedBy']>, MessageKey> = {
+  'energy': 'inertialFusion.limits.energy',
+  'timing': 'inertialFusion.limits.timing',
+  'symmetry': 'inertialFusion.limits.symmetry',
+};
+
+// Hot spot colour by temperature in keV, like the tokamak plasma
+const getHotSpotColor = (temperature: number) => {
+  if (temperature < 3) return '#f59e0b';
+  if (temperature < 5) return '#f97316';
+  if (temperature < 10) return '#ef4444';
+  return '#ec4899';
+};
+
+// A laser pulse compresses a D-T capsule; the hot spot in its centre ignites
+// if the pulse is strong, well timed and even enough
+export const InertialFusionLab = ({ onEnergyProduced, className }: InertialFusionLabProps) => {
+  const [pulse, setPulse] = useState<LaserPulse>({ energy: 1.5, timing: 8, symmetry: 95 });
+  const [shot, setShot] = useState<ImplosionResult | null>(null);
+  const [isFiring, setIsFiring] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read at the end of the shot, so a new callback does not restart the animation
+  const onEnergyProducedRef = useRef(onEnergyProduced);
+  onEnergyProducedRef.current = onEnergyProduced;
+  const { toast } = useToast();
+  const { t, formatNumber, formatScientific } = useI18n();
+
+  const tokamak = getIgnitionWindow('d-t');
+
+  // Draws the capsule at a point of the shot: beams, implosion, then burn or fizzle
+  const drawCapsule = (progress: number, result: ImplosionResult | null, symmetry: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+    const size = Math.min(canvas.width, canvas.height);
+    const capsuleRadius = size * 0.3;
+    const asymmetry = 1 - symmetry / 100;
+
+    // Capsule outline with the lopsided shape an uneven drive grows into
+    const traceShell = (radius: number, distortion: number) => {
+      ctx.beginPath();
+      for (let i = 0; i <= 72; i++) {
+        const angle = (i / 72) * Math.PI * 2;
+        const r = radius * (1 + distortion * Math.cos(2 * angle) + distortion * 0.3 * Math.sin(8 * angle));
+        const x = centerX + Math.cos(angle) * r;
+        const y = centerY + Math.sin(angle) * r;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.closePath();
+    };
+
+    if (!result || progress <= 0) {
+      // Plastic ablator, frozen D-T layer and the D-T gas inside
+      [
+        { radius: capsuleRadius, color: '#9ca3af' },
+        { radius: capsuleRadius * 0.9, color: '#93c5fd' },
+        { radius: capsuleRadius * 0.8, color: '#1e3a8a' },
+      ].forEach(({ radius, color }) => {
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fillStyle = color;
+        ctx.fill();
+      });
+      return;
+    }
+
+    const finalRadius = Math.max(2, capsuleRadius / result.convergence);
+    const implosion = Math.min(1, Math.max(0, (progress - 0.25) / 0.5));
+    // The shell keeps accelerating until it stagnates
+    const radius = capsuleRadius - (capsuleRadius - finalRadius) * implosion ** 2;
+    const distortion = Math.min(0.6, asymmetry * 3 * implosion ** 2 * (result.convergence / 10));
+
+    // Laser beams while the pulse is on, unevenly bright when the drive is uneven
+    if (progress < 0.5) {
+      for (let i = 0; i < BEAM_COUNT; i++) {
+        const angle = (i / BEAM_COUNT) * Math.PI * 2;
+        const strength = 1 + asymmetry * 4 * Math.cos(2 * angle);
+        ctx.beginPath();
+        ctx.moveTo(centerX + Math.cos(angle) * size * 0.5, centerY + Math.sin(angle) * size * 0.5);
+        ctx.lineTo(centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius);
+        ctx.strokeStyle = `rgba(168, 85, 247, ${Math.min(1, progress * 4) * 0.8})`;
+        ctx.lineWidth = 3 * Math.max(0.2, strength);
+        ctx.stroke();
+      }
+
+      // Plasma blown off the ablator
+      const corona = ctx.createRadialGradient(centerX, centerY, radius, centerX, centerY, radius * 1.4);
+      corona.addColorStop(0, 'rgba(249, 115, 22, 0.6)');
+      corona.addColorStop(1, 'rgba(249, 115, 22, 0)');
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, radius * 1.4, 0, Math.PI * 2);
+      ctx.fillStyle = corona;
+      ctx.fill();
+    }
+
+    traceShell(radius, distortion);
+    ctx.fillStyle = '#93c5fd';
+    ctx.fill();
+    traceShell(radius * 0.7, distortion * 1.5);
+    ctx.fillStyle = '#1e3a8a';
+    ctx.fill();
+
+    if (progress < 0.75) return;
+    const burn = (progress - 0.75) / 0.25;
+    const hotSpotColor = getHotSpotColor(result.hotSpotTemperature);
+
+    if (result.ignited) {
+      // The burn wave runs out through the dense fuel and blows the pellet apart
+      const burnRadius = finalRadius + burn * capsuleRadius * 1.5;
+      const glow = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, burnRadius);
+      glow.addColorStop(0, 'rgba(255, 255, 255, 1)');
+      glow.addColorStop(0.4, 'rgba(253, 224, 71, 0.9)');
+      glow.addColorStop(1, 'rgba(239, 68, 68, 0)');
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, burnRadius, 0, Math.PI * 2);
+      ctx.fillStyle = glow;
+      ctx.fill();
+
+      // Neutrons fly out of the burning fuel
+      for (let i = 0; i < 24; i++) {
+        const angle = Math.random() * Math.PI * 2;
+        const inner = burnRadius * Math.random();
+        const outer = inner + size * 0.1;
+        ctx.beginPath();
+        ctx.moveTo(centerX + Math.cos(angle) * inner, centerY + Math.sin(angle) * inner);
+        ctx.lineTo(centerX + Math.cos(angle) * outer, centerY + Math.sin(angle) * outer);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      }
+    } else {
+      // The hot spot flickers and cools down without taking the fuel along
+      const glow = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, finalRadius * 3);
+      glow.addColorStop(0, hotSpotColor);
+      glow.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.globalAlpha = 1 - burn * 0.7;
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, finalRadius * 3, 0, Math.PI * 2);
+      ctx.fillStyle = glow;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+  };
+
+  // Plays the shot, then credits the energy and reports an ignition
+  useEffect(() => {
+    if (!isFiring || !shot) return;
+
+    const start = performance.now();
+    let frame = 0;
+    const animate = (now: number) => {
+      const progress = Math.min(1, (now - start) / SHOT_DURATION);
+      drawCapsule(progress, shot, pulse.symmetry);
+      if (progress < 1) {
+        frame = requestAnimationFrame(animate);
+        return;
+      }
+
+      setIsFiring(false);
+      onEnergyProducedRef.current(shot.yield * ENERGY_PER_MEGAJOULE);
+      if (shot.ignited) {
+        reportAchievementEvent('fusion-achieved');
+        recordExperiment('fusion-conditions:laser-ignition');
+        toast({
+          title: t('inertialFusion.toast.title'),
+          description: t('inertialFusion.toast.description', {
+            yield: formatNumber(shot.yield, 1),
+            gain: formatNumber(shot.gain, 1),
+          }),
+        });
+      }
+    };
+    frame = requestAnimationFrame(animate);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isFiring, shot, pulse.symmetry, t, toast, formatNumber]);
+
+  // Shows the fresh capsule, or the end of the last shot
+  useEffect(() => {
+    if (!isFiring) drawCapsule(shot ? 1 : 0, shot, pulse.symmetry);
+  }, [isFiring, shot, pulse.symmetry]);
+
+  const fire = () => {
+    setShot(getImplosion(pulse));
+    setIsFiring(true);
+  };
+
+  const updatePulse = (changes: Partial<LaserPulse>) => {
+    setPulse(prev => ({ ...prev, ...changes }));
+    // A new pulse needs a new capsule
+    setShot(null);
+  };
+
+  const sliders: {
+    key: keyof LaserPulse;
+    label: MessageKey;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+    digits: number;
+  }[] = [
+    { key: 'energy', label: 'inertialFusion.energy', min: MIN_LASER_ENERGY, max: MAX_LASER_ENERGY, step: 0.1, unit: 'MJ', digits: 1 },
+    { key: 'timing', label: 'inertialFusion.timing', min: 0, max: MAX_TIMING, step: 0.5, unit: 'ns', digits: 1 },
+    { key: 'symmetry', label: 'inertialFusion.symmetry', min: MIN_SYMMETRY, max: 100, step: 0.5, unit: '%', digits: 1 },
+  ];
+
+  const comparison = [
+    {
+      label: t('inertialFusion.compare.density'),
+      magnetic: `${formatScientific(TOKAMAK_DENSITY)} /m³`,
+      inertial: shot ? `${formatScientific(shot.hotSpotDensity)} /m³` : '–',
+    },
+    {
+      label: t('inertialFusion.compare.temperature'),
+      magnetic: `${formatNumber(tokamak.optimalTemperature)} keV`,
+      inertial: shot ? `${formatNumber(shot.hotSpotTemperature, 1)} keV` : '–',
+    },
+    {
+      label: t('inertialFusion.compare.confinementTime'),
+      magnetic: `${formatNumber(tokamak.minimumTripleProduct / (TOKAMAK_DENSITY * tokamak.optimalTemperature), 1)} s`,
+      inertial: shot ? `${formatScientific(shot.confinementTime)} s` : '–',
+    },
+    {
+      label: t('inertialFusion.compare.tripleProduct'),
+      magnetic: formatScientific(tokamak.minimumTripleProduct),
+      inertial: shot ? formatScientific(shot.tripleProduct) : '–',
+    },
+  ];
+
+  return (
+    <div className={cn('grid grid-cols-1 md:grid-cols-3 gap-6', className)}>
+      <div className="md:col-span-2 space-y-4">
+        <p className="text-sm text-gray-600">{t('inertialFusion.description')}</p>
+        <div className="aspect-square relative bg-gray-900 rounded-lg overflow-hidden">
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+          {shot && !isFiring && (
+            <div className="absolute top-4 left-0 right-0 flex justify-center">
+              <div className="bg-black bg-opacity-70 text-white px-4 py-2 rounded-full text-sm font-medium">
+                {shot.ignited ? t('inertialFusion.ignited') : t('inertialFusion.fizzled')}
+              </div>
+            </div>
+          )}
+        </div>
+        <Button className="w-full bg-purple-600 hover:bg-purple-700" onClick={fire} disabled={isFiring}>
+          <Crosshair className="mr-2 h-4 w-4" />
+          {isFiring ? t('inertialFusion.firing') : t('inertialFusion.fire')}
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        <div className="bg-gray-50 rounded-lg p-4 space-y-5">
+          <h3 className="text-lg font-medium">{t('inertialFusion.pulseTitle')}</h3>
+          {sliders.map(({ key, label, min, max, step, unit, digits }) => (
+            <div key={key}>
+              <div className="flex justify-between mb-1 text-sm">
+                <span>{t(label)}</span>
+                <span>{formatNumber(pulse[key], digits)} {unit}</span>
+              </div>
+              <Slider
+                value={[pulse[key]]}
+                min={min}
+                max={max}
+                step={step}
+                onValueChange={values => updatePulse({ [key]: values[0] })}
+                disabled={isFiring}
+              />
+            </div>
+          ))}
+          <div className="h-28">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={getPulseShape(pulse)} margin={{ top: 15, right: 10, left: 0, bottom: 5 }}>
+                <XAxis dataKey="time" type="number" domain={[0, MAX_TIMING + 8]} unit=" ns" tick={{ fontSize: 11 }} />
+                <YAxis hide domain={[0, 'auto']} />
+                <Area type="linear" dataKey="power" stroke="#a855f7" fill="#e9d5ff" isAnimationActive={false} />
+                <ReferenceLine
+                  x={OPTIMAL_TIMING}
+                  stroke="#0ea5e9"
+                  strokeDasharray="4 3"
+                  label={{ value: t('inertialFusion.shocksArrive'), fontSize: 11, position: 'top' }}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-3">
+          <div className="flex items-center">
+            <Sparkles className="h-5 w-5 mr-2 text-purple-500" />
+            <h3 className="font-medium">{t('inertialFusion.resultTitle')}</h3>
+          </div>
+          {!shot || isFiring ? (
+            <p className="text-gray-500">{isFiring ? t('inertialFusion.firing') : t('inertialFusion.noShot')}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <span className="text-gray-600">{t('inertialFusion.velocity')}</span>
+                <span className="font-bold text-right">{formatNumber(shot.velocity)} km/s</span>
+                <span className="text-gray-600">{t('inertialFusion.convergence')}</span>
+                <span className="font-bold text-right">{formatNumber(shot.convergence, 1)}</span>
+                <span className="text-gray-600">{t('inertialFusion.adiabat')}</span>
+                <span className={cn('font-bold text-right', shot.adiabat > 1.5 ? 'text-orange-500' : 'text-gray-700')}>
+                  × {formatNumber(shot.adiabat, 2)}
+                </span>
+                <span className="text-gray-600">{t('inertialFusion.hotSpotTemperature')}</span>
+                <span className="font-bold text-right">{formatNumber(shot.hotSpotTemperature, 1)} keV</span>
+                <span className="text-gray-600">{t('inertialFusion.hotSpotArealDensity')}</span>
+                <span className="font-bold text-right">{formatNumber(shot.hotSpotArealDensity, 2)} g/cm²</span>
+                <span className="text-gray-600">{t('inertialFusion.fuelArealDensity')}</span>
+                <span className="font-bold text-right">{formatNumber(shot.fuelArealDensity, 2)} g/cm²</span>
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-gray-600">
+                    {t('inertialFusion.criterion', {
+                      arealDensity: formatNumber(IGNITION_AREAL_DENSITY, 1),
+                      temperature: formatNumber(IGNITION_TEMPERATURE),
+                    })}
+                  </span>
+                  <span>{formatNumber(Math.min(100, shot.ignitionProgress * 100))} %</span>
+                </div>
+                <Progress value={Math.min(100, shot.ignitionProgress * 100)} className="h-2" />
+              </div>
+
+              {shot.limitedBy && (
+                <div className="flex items-start text-orange-600">
+                  <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+                  <span>{t(limitLabels[shot.limitedBy])}</span>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <span className="text-gray-600">{t('inertialFusion.yield')}</span>
+                <span className="font-bold text-right">{formatNumber(shot.yield, 2)} MJ</span>
+                <span className="text-gray-600">{t('inertialFusion.gain')}</span>
+                <span className={cn('font-bold text-right', shot.gain >= 1 ? 'text-green-600' : 'text-gray-700')}>
+                  {formatNumber(shot.gain, 2)}
+                </span>
+                <span className="text-gray-600">{t('inertialFusion.wallPlug')}</span>
+                <span className="font-bold text-right">{formatNumber(shot.gain * LASER_EFFICIENCY, 3)}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {t('inertialFusion.wallPlugNote', { percent: formatNumber(LASER_EFFICIENCY * 100) })}
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-2">
+          <h3 className="font-medium">{t('inertialFusion.compare.title')}</h3>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-600">
+                <th />
+                <th className="text-right font-medium pb-1">{t('inertialFusion.compare.magnetic')}</th>
+                <th className="text-right font-medium pb-1">{t('inertialFusion.compare.inertial')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map(row => (
+                <tr key={row.label}>
+                  <td className="text-gray-600 py-0.5">{row.label}</td>
+                  <td className="text-right font-mono">{row.magnetic}</td>
+                  <td className="text-right font-mono">{row.inertial}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500">{t('inertialFusion.compare.note')}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InertialFusionLab;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { ArrowRight, Lightbulb } from 'lucide-react';
+import { useKnowledge } from '@/hooks/use-knowledge';
+import { useI18n } from '@/hooks/use-i18n';
+import { getLabSuggestions, getTotalKnowledge, RADAR_ROUTE } from '@/lib/knowledge';
+
+interface KnowledgeDialogProps {
+  onOpenLab: (tab: string) => void;
+}
+
+export const KnowledgeDialog = ({ onOpenLab }: KnowledgeDialogProps) => {
+  const { t, formatNumber } = useI18n();
+  const conceptProgress = useKnowledge();
+  const totalKnowledge = getTotalKnowledge(conceptProgress);
+  const suggestions = getLabSuggestions(conceptProgress);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button className="flex space-x-4 items-center" title={t('knowledge.showDetails')}>
+          <div className="text-lg font-medium">{t('knowledge.title')}</div>
+          <div className="w-40 flex items-center">
+            <Progress value={totalKnowledge} className="h-4" />
+            <span className="ml-2">{formatNumber(totalKnowledge)}%</span>
+          </div>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{t('knowledge.dialogTitle')}</DialogTitle>
+          <DialogDescription>{t('knowledge.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {conceptProgress.map(({ concept, score }) => (
+            <div key={concept.id}>
+              <div className="flex justify-between text-sm">
+                <span className="font-medium" title={t(concept.description)}>{t(concept.name)}</span>
+                <span>{formatNumber(score)}%</span>
+              </div>
+              <Progress value={score} className="h-2 mt-1" />
+            </div>
+          ))}
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="p-4 bg-amber-50 rounded-lg border border-amber-200">
+            <h3 className="font-medium mb-2 flex items-center gap-2">
+              <Lightbulb className="h-4 w-4 text-amber-500" />
+              {t('knowledge.suggestions')}
+            </h3>
+            <div className="space-y-2">
+              {suggestions.map(({ concept, nextExperiment }) => (
+                <div key={concept.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    <span className="font-medium">{t(concept.name)}:</span>{' '}
+                    {t(nextExperiment?.hint ?? 'knowledge.answerQuiz')}
+                  </span>
+                  {concept.lab === RADAR_ROUTE ? (
+                    <Link to={RADAR_ROUTE}>
+                      <Button size="sm" variant="outline" className="shrink-0">
+                        {t(concept.labName)}
+                        <ArrowRight className="ml-1 h-4 w-4" />
+                      </Button>
+                    </Link>
+                  ) : (
+                    <DialogClose asChild>
+                      <Button size="sm" variant="outline" className="shrink-0" onClick={() => onOpenLab(concept.lab)}>
+                        {t(concept.labName)}
+                        <ArrowRight className="ml-1 h-4 w-4" />
+                      </Button>
+                    </DialogClose>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KnowledgeDialog;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { Locale, locales } from '@/lib/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export const LanguageSwitcher = ({ className }: LanguageSwitcherProps) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select value={locale} onValueChange={value => setLocale(value as Locale)}>
+      <SelectTrigger className={cn('w-[150px] bg-white', className)} aria-label={t('common.language')}>
+        <Languages className="h-4 w-4 mr-2 text-gray-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {locales.map(option => (
+          <SelectItem key={option.id} value={option.id}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
@@ -9,6 +9,17 @@ import { Slider } from '@/components/ui/slider';
 import { Circle, Zap, Sun, Flame, Star, ArrowUp, ArrowDown, CirclePlus, CircleMinus } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { reportAchievementEvent, type AchievementEvent } from '@/lib/achievements';
+import { useAchievements } from '@/hooks/use-achievements';
+import { recordExperiment } from '@/lib/knowledge';
+import {
+  getConfinementTime,
+  getIgnitionProgress,
+  IDEAL_IGNITION_TEMPERATURE,
+  kelvinToKeV,
+  keVToKelvin,
+} from '@/lib/fusion-plasma';
 import PlasmaPhase from './MiniSunGame/PlasmaPhase';
 import StabilizationPhase from './MiniSunGame/StabilizationPhase';
 import FusionPhase from './MiniSunGame/FusionPhase';
@@ -23,14 +34,38 @@ interface MiniSunGameProps {
 
 type GamePhase = 'plasma' | 'stabilize' | 'fusion' | 'maintain' | 'black-hole';
 type StarType = 'none' | 'red-dwarf' | 'main-sequence' | 'blue-giant' | 'neutron' | 'black-hole';
+type MiniSunAchievementId =
+  | 'first-fusion'
+  | 'main-sequence'
+  | 'blue-giant'
+  | 'perfect-stability'
+  | 'long-life'
+  | 'supernova'
+  | 'black-hole-created';
+
+// The mini sun's achievements live in the central store like all others
+const miniSunAchievementEvents: Record<MiniSunAchievementId, AchievementEvent> = {
+  'first-fusion': 'mini-sun:first-fusion',
+  'main-sequence': 'mini-sun:main-sequence',
+  'blue-giant': 'mini-sun:blue-giant',
+  'perfect-stability': 'mini-sun:perfect-stability',
+  'long-life': 'mini-sun:long-life',
+  'supernova': 'mini-sun:supernova',
+  'black-hole-created': 'mini-sun:black-hole-created',
+};
 
 // Constants for game physics - SIGNIFICANTLY reduced thresholds
 const MIN_TEMPERATURE = 20; // Room temperature in C
 const PLASMA_THRESHOLD = 2000000; // Lowered for easier gameplay
-const FUSION_THRESHOLD = 30000000; // Lowered further for easier gameplay
+// Below this no confinement is good enough: the bremsstrahlung outruns the fusion heating
+const FUSION_THRESHOLD = keVToKelvin(IDEAL_IGNITION_TEMPERATURE) - 273;
 const MAX_TEMPERATURE = 500000000; // 500 million C
 
 // Constants for game physics - SIGNIFICANTLY reduced thresholds
+// The mini sun is a small, strongly magnetized tokamak: field in T, density at full pressure in 10^20/m³
+const MINI_SUN_FIELD = 6;
+const MINI_SUN_DENSITY = 2;
+
 const MIN_STABILITY = 0;
 const MAX_STABILITY = 100;
 
@@ -51,7 +86,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
   const [pressure, setPressure] = useState<number>(0);
   const [fuel, setFuel] = useState<number>(100);
   const [energy, setEnergy] = useState<number>(0);
-  const [achievements, setAchievements] = useState<string[]>([]);
+  const { unlocked } = useAchievements();
   const [starType, setStarType] = useState<StarType>('none');
   const [starSize, setStarSize] = useState<number>(0);
   const [starAge, setStarAge] = useState<number>(0);
@@ -66,73 +101,69 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
   const gameLoopRef = useRef<number | null>(null);
   const lastTickRef = useRef<number>(Date.now());
   const { toast } = useToast();
+  const { t, formatNumber, formatTemperature } = useI18n();
 
-  // Tutorial steps - updated to match new thresholds
-  const tutorialSteps = [
-    {
-      title: "Schritt 1: Plasma erzeugen",
-      description: "Um eine Sonne zu erschaffen, musst du zuerst ein super heißes Plasma machen! Klicke und halte gedrückt, um das Gas zu erhitzen. Du brauchst mindestens 2 Millionen Grad!"
-    },
+  // How close the plasma is to the Lawson criterion: the pressure sets the
+  // density, the stability how long the field holds the heat
+  const ignitionProgress = getIgnitionProgress(
     {
-      title: "Schritt 2: Plasma stabilisieren",
-      description: "Super! Jetzt musst du das heiße Plasma zusammenhalten. Verwende Magnetfelder, damit es nicht entweicht. Stabilität über 80% erreichen!"
+      temperature: kelvinToKeV(temperature + 273.15),
+      density: (pressure / MAX_PRESSURE) * MINI_SUN_DENSITY,
+      magneticField: MINI_SUN_FIELD,
+      heatingPower: 0,
     },
-    {
-      title: "Schritt 3: Fusion starten",
-      description: "Fast geschafft! Jetzt erhöhe den Druck auf die Wasserstoffatome, damit sie zusammenstoßen und verschmelzen. Druck auf 90% erhöhen!"
-    },
-    {
-      title: "Schritt 4: Deine Mini-Sonne pflegen",
-      description: "Toll gemacht! Deine Sonne brennt jetzt. Halte sie am Leben, indem du Brennstoff hinzufügst, wenn er niedrig wird."
-    },
-    {
-      title: "Schwarzes Loch!",
-      description: "Deine Sonne ist so massereich geworden, dass sie unter ihrer eigenen Schwerkraft kollabiert ist und ein Schwarzes Loch entstanden ist! Beobachte, wie es Materie verschlingt und Energie in Form von Hawking-Strahlung aussendet."
-    }
-  ];
+    getConfinementTime(MINI_SUN_FIELD, stability)
+  );
+
+  // Tutorial steps - updated to match new thresholds
+  const tutorialSteps = (['plasma', 'stabilize', 'fusion', 'maintain', 'blackHole'] as const).map(step => ({
+    title: t(`miniSun.tutorial.${step}.title`),
+    description: t(`miniSun.tutorial.${step}.description`)
+  }));
 
   // Handle phase transitions - updated to match new thresholds
   useEffect(() => {
     if (phase === 'plasma' && temperature >= PLASMA_THRESHOLD) {
       toast({
-        title: "Plasma erzeugt!",
-        description: "Das Gas ist jetzt ionisiert und ein Plasma. Stabilisiere es mit Magnetfeldern!",
+        title: t('miniSun.toasts.plasma.title'),
+        description: t('miniSun.toasts.plasma.description'),
         variant: "default",
       });
       setPhase('stabilize');
       setTutorialStep(1);
     } else if (phase === 'stabilize' && stability >= 80 && temperature >= PLASMA_THRESHOLD) { // Lower temperature requirement
       toast({
-        title: "Plasma ist stabil!",
-        description: "Jetzt kannst du den Druck erhöhen, um die Fusion zu starten!",
+        title: t('miniSun.toasts.stable.title'),
+        description: t('miniSun.toasts.stable.description'),
         variant: "default",
       });
       setPhase('fusion');
       setTutorialStep(2);
-    } else if (phase === 'fusion' && pressure >= 90 && temperature >= FUSION_THRESHOLD) {
+    } else if (phase === 'fusion' && ignitionProgress >= 1) {
       // First fusion achieved
       if (starType === 'none') {
         toast({
-          title: "Fusion gestartet!",
-          description: "Deine Mini-Sonne beginnt zu leuchten! Halte sie am Leben.",
+          title: t('miniSun.toasts.fusion.title'),
+          description: t('miniSun.toasts.fusion.description'),
           variant: "default",
         });
         setStarType('red-dwarf');
         setStarMass(10); // Initial star mass
         unlockAchievement('first-fusion');
+        recordExperiment('fusion-conditions:mini-sun');
         setPhase('maintain');
         setTutorialStep(3);
       }
     }
-  }, [temperature, stability, pressure, phase, starType, toast]);
+  }, [temperature, stability, pressure, ignitionProgress, phase, starType, toast]);
 
   // Check for black hole formation
   useEffect(() => {
     if (phase === 'maintain' && starMass >= BLACK_HOLE_MASS_THRESHOLD && starType !== 'black-hole') {
       // Transition to black hole
       toast({
-        title: "Schwarzes Loch entstanden!",
-        description: "Deine Sonne ist unter ihrer eigenen Schwerkraft kollabiert und ein Schwarzes Loch ist entstanden!",
+        title: t('miniSun.toasts.blackHole.title'),
+        description: t('miniSun.toasts.blackHole.description'),
         variant: "default",
       });
       setStarType('black-hole');
@@ -141,6 +172,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
       setBlackHoleSize(starSize / 4); // Black hole is much smaller than the star
       setBlackHoleGravity(100); // Maximum gravity
       unlockAchievement('black-hole-created');
+      recordExperiment('fusion-conditions:star-death');
     }
   }, [starMass, phase, starType, starSize, toast]);
 
@@ -167,8 +199,8 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
           setPhase('plasma');
           setTutorialStep(0);
           toast({
-            title: "Plasma verloren!",
-            description: "Die Temperatur ist zu niedrig. Erhitze das Gas wieder!",
+            title: t('miniSun.toasts.plasmaLost.title'),
+            description: t('miniSun.toasts.plasmaLost.description'),
             variant: "default",
           });
         }
@@ -183,16 +215,16 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
           setPhase('stabilize');
           setTutorialStep(1);
           toast({
-            title: "Instabil!",
-            description: "Das Plasma wird instabil. Stabilisiere es wieder!",
+            title: t('miniSun.toasts.unstable.title'),
+            description: t('miniSun.toasts.unstable.description'),
             variant: "default",
           });
         } else if (temperature < PLASMA_THRESHOLD) {
           setPhase('plasma');
           setTutorialStep(0);
           toast({
-            title: "Plasma verloren!",
-            description: "Die Temperatur ist zu niedrig. Erhitze das Gas wieder!",
+            title: t('miniSun.toasts.plasmaLost.title'),
+            description: t('miniSun.toasts.plasmaLost.description'),
             variant: "default",
           });
         }
@@ -286,12 +318,12 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
 
   const getStarName = (type: StarType): string => {
     switch (type) {
-      case 'red-dwarf': return 'Roter Zwerg';
-      case 'main-sequence': return 'Hauptreihenstern';
-      case 'blue-giant': return 'Blauer Riese';
-      case 'neutron': return 'Neutronenstern';
-      case 'black-hole': return 'Schwarzes Loch';
-      default: return 'Keine Sonne';
+      case 'red-dwarf': return t('miniSun.stars.redDwarf');
+      case 'main-sequence': return t('miniSun.stars.mainSequence');
+      case 'blue-giant': return t('miniSun.stars.blueGiant');
+      case 'neutron': return t('miniSun.stars.neutron');
+      case 'black-hole': return t('miniSun.stars.blackHole');
+      default: return t('miniSun.stars.none');
     }
   };
 
@@ -302,8 +334,8 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
       setStarMass(prev => prev + 20); // Mass increases with evolution
       unlockAchievement('main-sequence');
       toast({
-        title: "Sternevolution!",
-        description: "Dein Roter Zwerg hat sich zu einem Hauptreihenstern entwickelt!",
+        title: t('miniSun.toasts.mainSequence.title'),
+        description: t('miniSun.toasts.mainSequence.description'),
         variant: "default",
       });
     } else if (starType === 'main-sequence' && starAge > 60 && fuel > 70) {
@@ -312,8 +344,8 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
       setStarMass(prev => prev + 40); // Significant mass increase
       unlockAchievement('blue-giant');
       toast({
-        title: "Sternevolution!",
-        description: "Dein Stern ist jetzt ein massiver Blauer Riese!",
+        title: t('miniSun.toasts.blueGiant.title'),
+        description: t('miniSun.toasts.blueGiant.description'),
         variant: "default",
       });
     }
@@ -325,11 +357,12 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
       if (starMass >= BLACK_HOLE_MASS_THRESHOLD * 0.8) {
         // Collapse into black hole
         toast({
-          title: "Gravitationskollaps!",
-          description: "Dein Blauer Riese ist kollabiert und ein Schwarzes Loch ist entstanden!",
+          title: t('miniSun.toasts.collapse.title'),
+          description: t('miniSun.toasts.collapse.description'),
           variant: "default",
         });
         unlockAchievement('black-hole-created');
+        recordExperiment('fusion-conditions:star-death');
         setStarType('black-hole');
         setPhase('black-hole');
         setTutorialStep(4);
@@ -338,11 +371,12 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
       } else {
         // Supernova explosion
         toast({
-          title: "Supernova!",
-          description: "Dein Blauer Riese ist in einer spektakulären Supernova explodiert!",
+          title: t('miniSun.toasts.supernova.title'),
+          description: t('miniSun.toasts.supernova.description'),
           variant: "default",
         });
         unlockAchievement('supernova');
+        recordExperiment('fusion-conditions:star-death');
         setStarType('neutron');
         setStarMass(Math.max(5, starMass / 10)); // Most mass is ejected
         setStarSize(1);
@@ -353,33 +387,17 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
     } else {
       // Normal star death
       toast({
-        title: "Stern erloschen",
-        description: "Deine Sonne hat keinen Brennstoff mehr und ist erloschen.",
+        title: t('miniSun.toasts.starDied.title'),
+        description: t('miniSun.toasts.starDied.description'),
         variant: "default",
       });
       resetGame();
     }
   };
 
-  const unlockAchievement = (id: string) => {
-    if (!achievements.includes(id)) {
-      setAchievements(prev => [...prev, id]);
-      
-      const achievementNames: Record<string, string> = {
-        'first-fusion': 'Erster Lichtblick',
-        'main-sequence': 'Sonnengleich',
-        'blue-giant': 'Gigantische Leistung',
-        'perfect-stability': 'Plasma-Meister',
-        'long-life': 'Mini-Sternenforscher',
-        'supernova': 'Supernova-Entdecker',
-        'black-hole-created': 'Schwarzes Loch Entdecker'
-      };
-      
-      toast({
-        title: "Erfolg freigeschaltet!",
-        description: achievementNames[id] || id,
-        variant: "default",
-      });
+  const unlockAchievement = (id: MiniSunAchievementId) => {
+    if (!unlocked[id]) {
+      reportAchievementEvent(miniSunAchievementEvents[id]);
     }
   };
 
@@ -408,8 +426,8 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
     if (phase === 'maintain') {
       setFuel(prev => Math.min(MAX_FUEL, prev + 20));
       toast({
-        title: "Brennstoff hinzugefügt",
-        description: "Deine Sonne hat neuen Wasserstoff bekommen.",
+        title: t('miniSun.toasts.fuelAdded.title'),
+        description: t('miniSun.toasts.fuelAdded.description'),
         variant: "default",
       });
     }
@@ -423,23 +441,13 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
     return "text-red-500";
   };
   
-  // Format temperature for display
-  const formatTemperature = () => {
-    if (temperature < 1000) {
-      return `${temperature.toFixed(0)} °C`;
-    } else if (temperature < 1000000) {
-      return `${(temperature / 1000).toFixed(1)} Tausend °C`;
-    } else {
-      return `${(temperature / 1000000).toFixed(1)} Mio. °C`;
-    }
-  };
 
   return (
     <Card className={cn("p-6 bg-gradient-to-b from-blue-50 to-indigo-50 overflow-hidden shadow-lg", className)}>
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h2 className="text-2xl font-bold bg-gradient-to-r from-yellow-400 to-orange-500 bg-clip-text text-transparent">
-            Bau deine eigene Mini-Sonne!
+            {t('miniSun.title')}
           </h2>
           
           {starType !== 'none' ? (
@@ -456,7 +464,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
             </Badge>
           ) : (
             <Badge variant="outline" className="px-3 py-1">
-              Keine Sonne
+              {t('miniSun.stars.none')}
             </Badge>
           )}
         </div>
@@ -464,32 +472,31 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
         {showTutorial ? (
           <div className="space-y-4 text-center py-8 animate-fade-in">
             <Sun className="w-16 h-16 mx-auto text-yellow-500 animate-pulse" />
-            <h3 className="text-xl font-bold">Willkommen zum Mini-Sonnen-Baukasten!</h3>
+            <h3 className="text-xl font-bold">{t('miniSun.welcome')}</h3>
             <p className="text-gray-600 max-w-md mx-auto">
-              Erschaffe deine eigene funktionierende Mini-Sonne! Du wirst durch alle Schritte geführt, 
-              um eine echte Kernfusion zu erzeugen - genau wie unsere Sonne.
+              {t('miniSun.intro')}
             </p>
             
             <div className="grid grid-cols-2 gap-4 max-w-md mx-auto mt-4">
               <div className="p-3 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors shadow">
                 <Circle className="w-6 h-6 mx-auto text-blue-500 mb-2" />
-                <h4 className="font-medium">Plasma erzeugen</h4>
-                <p className="text-xs text-gray-500">Erhitze Wasserstoff auf Millionen Grad</p>
+                <h4 className="font-medium">{t('miniSun.overview.plasma.title')}</h4>
+                <p className="text-xs text-gray-500">{t('miniSun.overview.plasma.text')}</p>
               </div>
               <div className="p-3 bg-purple-50 rounded-lg hover:bg-purple-100 transition-colors shadow">
                 <Zap className="w-6 h-6 mx-auto text-purple-500 mb-2" />
-                <h4 className="font-medium">Plasma stabilisieren</h4>
-                <p className="text-xs text-gray-500">Halte das Plasma mit Magnetfeldern zusammen</p>
+                <h4 className="font-medium">{t('miniSun.overview.stabilize.title')}</h4>
+                <p className="text-xs text-gray-500">{t('miniSun.overview.stabilize.text')}</p>
               </div>
               <div className="p-3 bg-orange-50 rounded-lg hover:bg-orange-100 transition-colors shadow">
                 <Flame className="w-6 h-6 mx-auto text-orange-500 mb-2" />
-                <h4 className="font-medium">Fusion starten</h4>
-                <p className="text-xs text-gray-500">Presse die Atomkerne zusammen</p>
+                <h4 className="font-medium">{t('miniSun.overview.fusion.title')}</h4>
+                <p className="text-xs text-gray-500">{t('miniSun.overview.fusion.text')}</p>
               </div>
               <div className="p-3 bg-yellow-50 rounded-lg hover:bg-yellow-100 transition-colors shadow">
                 <Sun className="w-6 h-6 mx-auto text-yellow-500 mb-2" />
-                <h4 className="font-medium">Sonne pflegen</h4>
-                <p className="text-xs text-gray-500">Halte deine Mini-Sonne am Leuchten</p>
+                <h4 className="font-medium">{t('miniSun.overview.maintain.title')}</h4>
+                <p className="text-xs text-gray-500">{t('miniSun.overview.maintain.text')}</p>
               </div>
             </div>
             
@@ -498,7 +505,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
               size="lg"
               onClick={startGame}
             >
-              Los geht's!
+              {t('common.letsGo')}
             </Button>
           </div>
         ) : (
@@ -561,10 +568,10 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                     <div className="flex justify-between mb-1">
                       <span className="text-sm font-medium flex items-center">
                         <Flame className="w-4 h-4 mr-1 text-red-500" />
-                        Temperatur
+                        {t('miniSun.temperature')}
                       </span>
                       <span className={`text-sm font-bold ${getTemperatureColor()}`}>
-                        {formatTemperature()}
+                        {formatTemperature(temperature)}
                       </span>
                     </div>
                     <Progress 
@@ -576,11 +583,11 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                       }}
                     />
                     {temperature >= FUSION_THRESHOLD ? (
-                      <span className="text-xs text-green-500 font-semibold">Fusionstemperatur erreicht! ✓</span>
+                      <span className="text-xs text-green-500 font-semibold">{t('miniSun.fusionTemperature')}</span>
                     ) : temperature >= PLASMA_THRESHOLD ? (
-                      <span className="text-xs text-blue-500">Plasma erzeugt</span>
+                      <span className="text-xs text-blue-500">{t('miniSun.plasmaCreated')}</span>
                     ) : (
-                      <span className="text-xs text-gray-500">Zu kalt für Plasma</span>
+                      <span className="text-xs text-gray-500">{t('miniSun.tooCold')}</span>
                     )}
                   </div>
                   
@@ -588,7 +595,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                     <div className="flex justify-between mb-1">
                       <span className="text-sm font-medium flex items-center">
                         <Zap className="w-4 h-4 mr-1 text-purple-500" />
-                        Stabilität
+                        {t('miniSun.stability')}
                       </span>
                       <span className="text-sm font-bold">{stability.toFixed(0)}%</span>
                     </div>
@@ -601,11 +608,11 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                       }}
                     />
                     {stability >= 80 ? (
-                      <span className="text-xs text-green-500 font-semibold">Perfekt stabil ✓</span>
+                      <span className="text-xs text-green-500 font-semibold">{t('miniSun.perfectlyStable')}</span>
                     ) : stability >= 50 ? (
-                      <span className="text-xs text-yellow-500">Relativ stabil</span>
+                      <span className="text-xs text-yellow-500">{t('miniSun.fairlyStable')}</span>
                     ) : (
-                      <span className="text-xs text-red-500">Instabil</span>
+                      <span className="text-xs text-red-500">{t('miniSun.unstable')}</span>
                     )}
                   </div>
                   
@@ -613,7 +620,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                     <div className="flex justify-between mb-1">
                       <span className="text-sm font-medium flex items-center">
                         <ArrowDown className="w-4 h-4 mr-1 text-blue-500" />
-                        Druck
+                        {t('miniSun.pressure')}
                       </span>
                       <span className="text-sm font-bold">{pressure.toFixed(0)}%</span>
                     </div>
@@ -626,11 +633,11 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                       }}
                     />
                     {pressure >= 90 ? (
-                      <span className="text-xs text-green-500 font-semibold">Fusionsdruck erreicht! ✓</span>
+                      <span className="text-xs text-green-500 font-semibold">{t('miniSun.fusionPressure')}</span>
                     ) : pressure >= 50 ? (
-                      <span className="text-xs text-yellow-500">Mittlerer Druck</span>
+                      <span className="text-xs text-yellow-500">{t('miniSun.mediumPressure')}</span>
                     ) : (
-                      <span className="text-xs text-gray-500">Niedriger Druck</span>
+                      <span className="text-xs text-gray-500">{t('miniSun.lowPressure')}</span>
                     )}
                   </div>
                   
@@ -638,7 +645,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                     <div className="flex justify-between mb-1">
                       <span className="text-sm font-medium flex items-center">
                         <CirclePlus className="w-4 h-4 mr-1 text-green-500" />
-                        Brennstoff
+                        {t('miniSun.fuel')}
                       </span>
                       <span className="text-sm font-bold">{fuel.toFixed(0)}%</span>
                     </div>
@@ -651,11 +658,11 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                       }}
                     />
                     {fuel <= 10 ? (
-                      <span className="text-xs text-red-500 font-semibold animate-pulse">Kritisch niedrig!</span>
+                      <span className="text-xs text-red-500 font-semibold animate-pulse">{t('miniSun.fuelCritical')}</span>
                     ) : fuel <= 30 ? (
-                      <span className="text-xs text-orange-500">Brennstoff niedrig</span>
+                      <span className="text-xs text-orange-500">{t('miniSun.fuelLow')}</span>
                     ) : (
-                      <span className="text-xs text-green-500">Ausreichend Brennstoff</span>
+                      <span className="text-xs text-green-500">{t('miniSun.fuelOk')}</span>
                     )}
                   </div>
                 </div>
@@ -664,9 +671,9 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                   <div className="flex justify-between mb-1">
                     <span className="text-sm font-medium flex items-center">
                       <Star className="w-4 h-4 mr-1 text-purple-500" />
-                      Sternmasse
+                      {t('miniSun.starMass')}
                     </span>
-                    <span className="text-sm font-bold">{starMass.toFixed(1)} M☉</span>
+                    <span className="text-sm font-bold">{formatNumber(starMass, 1)} M☉</span>
                   </div>
                   <Progress 
                     value={(starMass / BLACK_HOLE_MASS_THRESHOLD) * 100} 
@@ -676,13 +683,13 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                     }}
                   />
                   {starMass >= BLACK_HOLE_MASS_THRESHOLD * 0.9 ? (
-                    <span className="text-xs text-purple-500 font-semibold animate-pulse">Gravitationskollaps droht!</span>
+                    <span className="text-xs text-purple-500 font-semibold animate-pulse">{t('miniSun.collapseImminent')}</span>
                   ) : starMass >= BLACK_HOLE_MASS_THRESHOLD * 0.7 ? (
-                    <span className="text-xs text-purple-500">Extrem schwerer Stern</span>
+                    <span className="text-xs text-purple-500">{t('miniSun.extremelyHeavy')}</span>
                   ) : starMass >= 50 ? (
-                    <span className="text-xs text-blue-500">Massereicher Stern</span>
+                    <span className="text-xs text-blue-500">{t('miniSun.massive')}</span>
                   ) : (
-                    <span className="text-xs text-gray-500">Normale Sternmasse</span>
+                    <span className="text-xs text-gray-500">{t('miniSun.normalMass')}</span>
                   )}
                 </div>
                 
@@ -690,9 +697,9 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                   <div className="flex justify-between mb-1">
                     <span className="font-medium flex items-center">
                       <Sun className="w-4 h-4 mr-1 text-yellow-500" />
-                      Energieproduktion
+                      {t('miniSun.energy')}
                     </span>
-                    <span>{energy.toFixed(0)} MJ</span>
+                    <span>{formatNumber(energy)} MJ</span>
                   </div>
                   <Progress 
                     value={Math.min(100, energy / 100)} 
@@ -711,7 +718,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                       disabled={fuel >= MAX_FUEL}
                     >
                       <CirclePlus className="w-4 h-4 mr-2" />
-                      Brennstoff hinzufügen
+                      {t('miniSun.addFuel')}
                     </Button>
                   )}
                   
@@ -720,11 +727,11 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                     variant="outline" 
                     className="flex-1 hover:bg-gray-100"
                   >
-                    Neustart
+                    {t('miniSun.restart')}
                   </Button>
                 </div>
                 
-                <AchievementsPanel achievements={achievements} />
+                <AchievementsPanel />
               </div>
             </div>
             
@@ -746,7 +753,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                 {phase === 'plasma' && (
                   <div className="space-y-1">
                     <div className="flex justify-between text-xs">
-                      <span>Ziel: {(PLASMA_THRESHOLD / 1000000).toFixed(1)} Mio. °C</span>
+                      <span>{t('miniSun.goal', { value: formatTemperature(PLASMA_THRESHOLD) })}</span>
                       <span>{Math.min(100, (temperature / PLASMA_THRESHOLD) * 100).toFixed(0)}%</span>
                     </div>
                     <Progress 
@@ -759,7 +766,7 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                 {phase === 'stabilize' && (
                   <div className="space-y-1">
                     <div className="flex justify-between text-xs">
-                      <span>Ziel: 80% Stabilität</span>
+                      <span>{t('miniSun.goalStability')}</span>
                       <span>{Math.min(100, (stability / 80) * 100).toFixed(0)}%</span>
                     </div>
                     <Progress 
@@ -772,11 +779,11 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                 {phase === 'fusion' && (
                   <div className="space-y-1">
                     <div className="flex justify-between text-xs">
-                      <span>Ziel: 90% Druck</span>
-                      <span>{Math.min(100, (pressure / 90) * 100).toFixed(0)}%</span>
+                      <span>{t('miniSun.goalIgnition')}</span>
+                      <span>{Math.min(100, ignitionProgress * 100).toFixed(0)}%</span>
                     </div>
                     <Progress 
-                      value={Math.min(100, (pressure / 90) * 100)} 
+                      value={Math.min(100, ignitionProgress * 100)} 
                       className="h-1.5"
                     />
                   </div>
@@ -785,8 +792,8 @@ const MiniSunGame: React.FC<MiniSunGameProps> = ({ className, onEnergyProduced }
                 {phase === 'maintain' && (
                   <div className="space-y-1">
                     <div className="flex justify-between text-xs">
-                      <span>Sternmasse: {starMass.toFixed(1)} M☉</span>
-                      <span>{Math.min(100, (starMass / BLACK_HOLE_MASS_THRESHOLD) * 100).toFixed(0)}% zum Schwarzen Loch</span>
+                      <span>{t('miniSun.massGoal', { mass: formatNumber(starMass, 1) })}</span>
+                      <span>{t('miniSun.blackHoleProgress', { percent: formatNumber(Math.min(100, (starMass / BLACK_HOLE_MASS_THRESHOLD) * 100)) })}</span>
                     </div>
                     <Progress 
                       value={Math.min(100, (starMass / BLACK_HOLE_MASS_THRESHOLD) * 100)} 
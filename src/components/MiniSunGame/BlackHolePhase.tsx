@@ -3,6 +3,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 import Effect from '../Effect';
 
 interface BlackHolePhaseProps {
@@ -33,6 +34,7 @@ const BlackHolePhase: React.FC<BlackHolePhaseProps> = ({
   setBlackHoleGravity,
   className
 }) => {
+  const { t, formatNumber } = useI18n();
   const containerRef = useRef<HTMLDivElement>(null);
   const [particles, setParticles] = useState<Particle[]>([]);
   const [accretionDiskRotation, setAccretionDiskRotation] = useState(0);
@@ -352,18 +354,18 @@ const BlackHolePhase: React.FC<BlackHolePhaseProps> = ({
         <div 
           className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 p-4 bg-black bg-opacity-80 rounded-lg text-white max-w-xs z-50 text-sm border border-purple-700"
         >
-          <h4 className="text-center font-bold mb-2 text-purple-400">Schwarzes Loch!</h4>
+          <h4 className="text-center font-bold mb-2 text-purple-400">{t('miniSun.tutorial.blackHole.title')}</h4>
           <p className="mb-2">
-            Dein Stern ist so schwer geworden, dass er unter seiner eigenen Schwerkraft kollabiert ist.
+            {t('miniSun.phases.collapsed')}
           </p>
           <p className="mb-2">
-            Jetzt ist die Schwerkraft so stark, dass nicht einmal Licht entkommen kann!
+            {t('miniSun.phases.noEscape')}
           </p>
           <button 
             className="w-full mt-2 px-2 py-1 bg-purple-900 hover:bg-purple-800 rounded text-xs"
             onClick={() => setShowExplanation(false)}
           >
-            Verstanden
+            {t('miniSun.phases.understood')}
           </button>
         </div>
       )}
@@ -374,15 +376,15 @@ const BlackHolePhase: React.FC<BlackHolePhaseProps> = ({
           onClick={handleAddMatter}
           className="w-full bg-gradient-to-r from-purple-700 to-blue-700 hover:from-purple-800 hover:to-blue-800 text-white flex items-center justify-center"
         >
-          Materie hinzufügen
+          {t('miniSun.phases.addMatter')}
         </Button>
         
         <div className="p-2 bg-black bg-opacity-50 rounded text-white text-xs">
           <div className="flex justify-between mb-1">
-            <span>Schwarzes Loch Masse: {(addedMass + blackHoleSize * 10).toFixed(1)} M☉</span>
+            <span>{t('miniSun.phases.blackHoleMass', { mass: formatNumber(addedMass + blackHoleSize * 10, 1) })}</span>
           </div>
           <div className="flex justify-between mb-1">
-            <span>Hawking-Strahlung aktiv</span>
+            <span>{t('miniSun.phases.hawking')}</span>
           </div>
         </div>
       </div>
@@ -3,8 +3,13 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { getFusionReactivity, kelvinToKeV } from '@/lib/fusion-plasma';
 import Effect from '../Effect';
 
+// Reactivity near 15 keV, where fusing is easiest for a tokamak
+const PEAK_REACTIVITY = getFusionReactivity(15);
+
 interface FusionPhaseProps {
   temperature: number;
   stability: number;
@@ -24,6 +29,7 @@ const FusionPhase: React.FC<FusionPhaseProps> = ({
   onPressureChange,
   className
 }) => {
+  const { t } = useI18n();
   const containerRef = useRef<HTMLDivElement>(null);
   const [particles, setParticles] = useState<Array<{
     id: number;
@@ -117,11 +123,12 @@ const FusionPhase: React.FC<FusionPhaseProps> = ({
             const dy = p1.y - p2.y;
             const distSq = dx*dx + dy*dy;
             
-            // Fusion probability increases with pressure and temperature
-            const fusionThreshold = 100 - (temperature / 10000000) - pressure;
+            // Fusion probability follows the D-T reactivity, which peaks far above
+            // the temperature the nuclei need to get close at all, and the pressure
+            const fusionChance = Math.min(1, getFusionReactivity(kelvinToKeV(temperature)) / PEAK_REACTIVITY) * (pressure / 100) * 0.1;
             const minDist = 10 - (pressure / 20); // Higher pressure = particles need to be closer
             
-            if (distSq < minDist*minDist && Math.random() * 100 < fusionThreshold * 0.1) {
+            if (distSq < minDist*minDist && Math.random() < fusionChance) {
               fusionCandidates.push([p1.id, p2.id]);
             }
           }
@@ -316,8 +323,9 @@ const FusionPhase: React.FC<FusionPhaseProps> = ({
       }]);
     }
     
-    // Increase pressure
+    // Compressing the plasma heats it as well
     onPressureChange(Math.min(100, pressure + 5));
+    onTemperatureChange(temperature + 10000000);
   };
   
   // Handle magnet strength change
@@ -431,7 +439,7 @@ const FusionPhase: React.FC<FusionPhaseProps> = ({
       {/* Controls */}
       <div className="absolute bottom-4 left-4 right-4 space-y-3 z-30">
         <div className="flex justify-between text-xs text-white">
-          <span>Magnetfeld</span>
+          <span>{t('miniSun.phases.magneticField')}</span>
           <span>{magnetStrength}%</span>
         </div>
         <Slider
@@ -443,7 +451,7 @@ const FusionPhase: React.FC<FusionPhaseProps> = ({
         />
         
         <div className="flex justify-between text-xs text-white">
-          <span>Gravitation</span>
+          <span>{t('miniSun.phases.gravity')}</span>
           <span>{gravityStrength}%</span>
         </div>
         <Slider
@@ -459,7 +467,7 @@ const FusionPhase: React.FC<FusionPhaseProps> = ({
           disabled={Date.now() - lastLaserPulse < 1000}
           className="w-full bg-red-500 hover:bg-red-600"
         >
-          Laser-Kompression
+          {t('miniSun.phases.laser')}
           {Date.now() - lastLaserPulse < 1000 && (
             <span className="ml-2">{(1 - (Date.now() - lastLaserPulse) / 1000).toFixed(1)}s</span>
           )}
@@ -468,7 +476,7 @@ const FusionPhase: React.FC<FusionPhaseProps> = ({
       
       {/* Fusion counter */}
       <div className="absolute top-4 right-4 bg-black bg-opacity-50 px-3 py-1 rounded-full text-white text-sm z-30">
-        Fusionen: {fusionEvents}
+        {t('miniSun.phases.fusions', { count: fusionEvents })}
       </div>
     </div>
   );
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 import Effect from '../Effect';
 import { Flame, Zap, ArrowUp } from 'lucide-react';
 
@@ -17,6 +18,7 @@ const PlasmaPhase: React.FC<PlasmaPhaseProps> = ({
   className
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const { t, formatTemperature } = useI18n();
   const [particles, setParticles] = useState<Array<{
     id: number;
     x: number;
@@ -322,7 +324,7 @@ const PlasmaPhase: React.FC<PlasmaPhaseProps> = ({
       
       <div className="absolute top-4 left-0 right-0 text-center bg-black bg-opacity-70 text-white py-2 px-4 mx-auto w-max rounded-full text-sm z-30 shadow-lg flex items-center">
         <Flame className="w-4 h-4 mr-2 text-orange-400" />
-        <span className="font-medium">Tipp:</span> Halte gedrückt zum Erhitzen! Je länger gedrückt, desto mehr Hitze.
+        <span className="font-medium">{t('miniSun.phases.tip')}</span> {t('miniSun.phases.holdToHeat')}
       </div>
       
       {isMouseDown && heatingIntensity > 0 && (
@@ -361,7 +363,7 @@ const PlasmaPhase: React.FC<PlasmaPhaseProps> = ({
         <div 
           className="absolute top-16 right-4 bg-black bg-opacity-70 text-white px-3 py-1 rounded-full text-sm z-30 shadow-lg"
         >
-          {(temperature / 1000000).toFixed(1)} Mio. °C
+          {formatTemperature(temperature)}
         </div>
       )}
       
@@ -426,7 +428,7 @@ const PlasmaPhase: React.FC<PlasmaPhaseProps> = ({
             magnetActive ? "bg-orange-500 hover:bg-orange-600" : ""
           )}
         >
-          Magnetfeld {magnetActive ? 'An' : 'Aus'}
+          {magnetActive ? t('miniSun.phases.magnetOn') : t('miniSun.phases.magnetOff')}
         </Button>
         
         <Button 
@@ -439,14 +441,14 @@ const PlasmaPhase: React.FC<PlasmaPhaseProps> = ({
           )}
         >
           <Flame className={cn("w-4 h-4 mr-1", autoHeaterActive && "animate-pulse")} />
-          Auto-Heizer
+          {t('miniSun.phases.autoHeater')}
         </Button>
       </div>
       
       {/* Visual indicator for when to move to next phase */}
       {temperature > 1000000 && temperature < 3000000 && (
         <div className="absolute top-16 left-0 right-0 mx-auto w-max bg-yellow-500 text-black px-3 py-1 rounded-full text-sm animate-bounce z-30 shadow-lg">
-          Weiter erhitzen! Fast am Ziel!
+          {t('miniSun.phases.almostThere')}
         </div>
       )}
     </div>
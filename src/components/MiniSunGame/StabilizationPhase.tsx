@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 import Effect from '../Effect';
 
 interface StabilizationPhaseProps {
@@ -20,6 +21,7 @@ const StabilizationPhase: React.FC<StabilizationPhaseProps> = ({
   onStabilityChange,
   className
 }) => {
+  const { t } = useI18n();
   const containerRef = useRef<HTMLDivElement>(null);
   const [particles, setParticles] = useState<Array<{
     id: number;
@@ -431,7 +433,7 @@ const StabilizationPhase: React.FC<StabilizationPhaseProps> = ({
           disabled={magnetType === 'none'}
           className="bg-green-500 hover:bg-green-600"
         >
-          Stärken +
+          {t('miniSun.phases.strengthen')}
         </Button>
       </div>
     </div>
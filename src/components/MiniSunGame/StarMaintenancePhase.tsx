@@ -3,6 +3,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 import Effect from '../Effect';
 import { CirclePlus, Star, StarHalf, Sun } from 'lucide-react';
 
@@ -30,6 +31,7 @@ const StarMaintenancePhase: React.FC<StarMaintenancePhaseProps> = ({
   className
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const { t, formatTemperature } = useI18n();
   const [particles, setParticles] = useState<Array<{
     id: number;
     x: number;
@@ -472,7 +474,7 @@ const StarMaintenancePhase: React.FC<StarMaintenancePhaseProps> = ({
       {/* Controls */}
       <div className="absolute bottom-4 left-4 right-4 space-y-3 z-40">
         <div className="flex justify-between text-xs text-white">
-          <span>Magnetfeld-Stärke</span>
+          <span>{t('miniSun.phases.fieldStrength')}</span>
           <span>{magnetStrength}%</span>
         </div>
         <Slider
@@ -489,7 +491,7 @@ const StarMaintenancePhase: React.FC<StarMaintenancePhaseProps> = ({
           className="w-full bg-blue-500 hover:bg-blue-600 flex items-center justify-center"
         >
           <CirclePlus className="w-4 h-4 mr-2" />
-          Wasserstoff hinzufügen
+          {t('miniSun.phases.addHydrogen')}
         </Button>
       </div>
       
@@ -503,17 +505,17 @@ const StarMaintenancePhase: React.FC<StarMaintenancePhaseProps> = ({
           <span className="font-medium">
             {(() => {
               switch(starType) {
-                case 'red-dwarf': return 'Roter Zwerg';
-                case 'main-sequence': return 'Hauptreihenstern';
-                case 'blue-giant': return 'Blauer Riese';
-                case 'neutron': return 'Neutronenstern';
-                default: return 'Stern';
+                case 'red-dwarf': return t('miniSun.stars.redDwarf');
+                case 'main-sequence': return t('miniSun.stars.mainSequence');
+                case 'blue-giant': return t('miniSun.stars.blueGiant');
+                case 'neutron': return t('miniSun.stars.neutron');
+                default: return t('miniSun.stars.star');
               }
             })()}
           </span>
         </div>
         <div className="mt-1 text-xs">
-          Kerntemperatur: {(starTemperature / 1000000).toFixed(0)} Mio °C
+          {t('miniSun.coreTemperature', { value: formatTemperature(starTemperature) })}
         </div>
       </div>
     </div>
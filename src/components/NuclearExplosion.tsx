@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface NuclearExplosionProps {
   isActive: boolean;
@@ -12,6 +13,7 @@ interface NuclearExplosionProps {
 export const NuclearExplosion = ({ isActive, yield: explosionYield, onComplete, className }: NuclearExplosionProps) => {
   const [phase, setPhase] = useState<'inactive' | 'flash' | 'fireball' | 'mushroom' | 'shockwave' | 'aftermath'>('inactive');
   const [animationProgress, setAnimationProgress] = useState(0);
+  const { t, formatNumber } = useI18n();
   
   // Effect to handle explosion animation phases
   useEffect(() => {
@@ -211,8 +213,8 @@ export const NuclearExplosion = ({ isActive, yield: explosionYield, onComplete,
       
       {/* Explosion data */}
       <div className="absolute bottom-4 right-4 bg-black bg-opacity-70 text-white p-2 rounded">
-        <div className="text-sm font-bold">Nukleare Detonation</div>
-        <div className="text-xs">Sprengkraft: {explosionYield.toFixed(1)} Kilotonnen</div>
+        <div className="text-sm font-bold">{t('game.explosion.title')}</div>
+        <div className="text-xs">{t('game.explosion.yield', { value: formatNumber(explosionYield, 1) })}</div>
       </div>
     </div>
   );
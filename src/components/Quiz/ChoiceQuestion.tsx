@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { createRng, randomSeed } from '@/lib/rng';
+import { MultipleChoiceQuestion, PictureChoiceQuestion, shuffle } from '@/lib/quiz';
+import ReadAloudButton from './ReadAloudButton';
+
+interface ChoiceQuestionProps {
+  question: MultipleChoiceQuestion | PictureChoiceQuestion;
+  // Index of the chosen option once answered
+  answer: number | null;
+  onAnswer: (answer: number) => void;
+}
+
+const ChoiceQuestion = ({ question, answer, onAnswer }: ChoiceQuestionProps) => {
+  const { t } = useI18n();
+  const [order] = useState(() => shuffle(question.options.map((_, index) => index), createRng(randomSeed())));
+  const isAnswered = answer !== null;
+
+  const getOptionClass = (index: number) => {
+    if (!isAnswered) return 'border-blue-200 bg-white hover:bg-blue-50';
+    if (index === question.answer) return 'border-green-500 bg-green-50';
+    if (index === answer) return 'border-red-500 bg-red-50';
+    return 'border-gray-200 bg-white opacity-60';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <h3 className="text-xl font-medium">{t(question.prompt)}</h3>
+        <ReadAloudButton text={t(question.prompt)} />
+      </div>
+
+      <div className={cn('grid gap-3', question.type === 'picture-choice' ? 'grid-cols-2 sm:grid-cols-3' : 'grid-cols-1')}>
+        {order.map(index => {
+          const option = question.options[index];
+          return (
+            <button
+              key={index}
+              disabled={isAnswered}
+              onClick={() => onAnswer(index)}
+              className={cn('rounded-lg border-2 p-3 text-left transition-colors', getOptionClass(index))}
+            >
+              {typeof option === 'string' ? (
+                t(option)
+              ) : (
+                <div className="flex flex-col items-center gap-2 text-center">
+                  <span className="text-5xl" aria-hidden>{option.picture}</span>
+                  <span className="font-medium">{t(option.label)}</span>
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChoiceQuestion;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { createRng, randomSeed } from '@/lib/rng';
+import { MatchQuestion as MatchQuestionData, shuffle } from '@/lib/quiz';
+import ReadAloudButton from './ReadAloudButton';
+
+interface MatchQuestionProps {
+  question: MatchQuestionData;
+  // Chosen match index per item once answered
+  answer: number[] | null;
+  onAnswer: (answer: number[]) => void;
+}
+
+// Matches are dragged onto the items. On touch screens, where native drag and
+// drop is not available, a match can be tapped and then its item.
+const MatchQuestion = ({ question, answer, onAnswer }: MatchQuestionProps) => {
+  const { t } = useI18n();
+  const [order] = useState(() => shuffle(question.pairs.map((_, index) => index), createRng(randomSeed())));
+  const [placed, setPlaced] = useState<(number | null)[]>(() => question.pairs.map(() => null));
+  const [selectedMatch, setSelectedMatch] = useState<number | null>(null);
+  const isAnswered = answer !== null;
+  const assignments = answer ?? placed;
+
+  const placeMatch = (itemIndex: number, matchIndex: number) => {
+    if (isAnswered) return;
+    setPlaced(prev => prev.map((current, index) => {
+      if (index === itemIndex) return matchIndex;
+      return current === matchIndex ? null : current;
+    }));
+    setSelectedMatch(null);
+  };
+
+  const handleItemClick = (itemIndex: number) => {
+    if (selectedMatch !== null) {
+      placeMatch(itemIndex, selectedMatch);
+    } else if (!isAnswered) {
+      setPlaced(prev => prev.map((current, index) => (index === itemIndex ? null : current)));
+    }
+  };
+
+  const unplacedMatches = order.filter(matchIndex => !assignments.includes(matchIndex));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <h3 className="text-xl font-medium">{t(question.prompt)}</h3>
+        <ReadAloudButton text={t(question.prompt)} />
+      </div>
+
+      <div className="flex flex-wrap gap-2 min-h-[44px]">
+        {unplacedMatches.map(matchIndex => (
+          <button
+            key={matchIndex}
+            draggable={!isAnswered}
+            onDragStart={e => e.dataTransfer.setData('text/plain', String(matchIndex))}
+            onClick={() => setSelectedMatch(selectedMatch === matchIndex ? null : matchIndex)}
+            className={cn(
+              'rounded-full border-2 px-3 py-2 bg-white cursor-grab',
+              selectedMatch === matchIndex ? 'border-blue-500 bg-blue-50' : 'border-blue-200'
+            )}
+          >
+            {t(question.pairs[matchIndex].match)}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {question.pairs.map((pair, itemIndex) => {
+          const matchIndex = assignments[itemIndex];
+          return (
+            <div key={pair.item} className="flex items-center gap-3">
+              <div className="w-1/3 font-medium">{t(pair.item)}</div>
+              <div
+                onDragOver={e => e.preventDefault()}
+                onDrop={e => {
+                  e.preventDefault();
+                  placeMatch(itemIndex, Number(e.dataTransfer.getData('text/plain')));
+                }}
+                onClick={() => handleItemClick(itemIndex)}
+                className={cn(
+                  'flex-1 rounded-lg border-2 border-dashed p-2 min-h-[44px] cursor-pointer',
+                  !isAnswered && 'border-gray-300 bg-gray-50',
+                  isAnswered && matchIndex === itemIndex && 'border-solid border-green-500 bg-green-50',
+                  isAnswered && matchIndex !== itemIndex && 'border-solid border-red-500 bg-red-50'
+                )}
+              >
+                {matchIndex !== null && matchIndex !== undefined
+                  ? t(question.pairs[matchIndex].match)
+                  : <span className="text-gray-400">{t('quiz.dropHere')}</span>}
+                {isAnswered && matchIndex !== itemIndex && (
+                  <span className="ml-2 text-sm text-green-700">→ {t(pair.match)}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!isAnswered && (
+        <Button onClick={() => onAnswer(placed)} disabled={placed.some(matchIndex => matchIndex === null)}>
+          {t('quiz.check')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default MatchQuestion;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { CheckCircle2, GraduationCap, RotateCcw, Star, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { createRng, randomSeed } from '@/lib/rng';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { getKnowledgeState, recordQuizAnswer } from '@/lib/knowledge';
+import {
+  isAnswerCorrect,
+  isQuizBankMastered,
+  QuizAnswer,
+  quizBanks,
+  QuizQuestion,
+  QuizTab,
+  quizTabNames,
+  shuffle,
+} from '@/lib/quiz';
+import ChoiceQuestion from './ChoiceQuestion';
+import MatchQuestion from './MatchQuestion';
+import ReadAloudButton from './ReadAloudButton';
+
+interface QuizDialogProps {
+  tab: QuizTab;
+  className?: string;
+}
+
+export const QuizDialog = ({ tab, className }: QuizDialogProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [answer, setAnswer] = useState<QuizAnswer | null>(null);
+  const [results, setResults] = useState<boolean[]>([]);
+  const [wasMastered, setWasMastered] = useState(false);
+
+  const startQuiz = () => {
+    setQuestions(shuffle(quizBanks[tab], createRng(randomSeed())));
+    setQuestionIndex(0);
+    setAnswer(null);
+    setResults([]);
+    setWasMastered(isQuizBankMastered(tab, getKnowledgeState()));
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) startQuiz();
+  };
+
+  const question = questions[questionIndex];
+  const isFinished = questions.length > 0 && questionIndex === questions.length;
+  const correctCount = results.filter(Boolean).length;
+
+  const handleAnswer = (value: QuizAnswer) => {
+    const correct = isAnswerCorrect(question, value);
+    setAnswer(value);
+    setResults(prev => [...prev, correct]);
+    recordQuizAnswer(question.id, question.concept, correct);
+  };
+
+  const handleNext = () => {
+    setAnswer(null);
+    setQuestionIndex(prev => prev + 1);
+
+    if (questionIndex + 1 === questions.length) {
+      reportAchievementEvent('quiz-completed');
+      if (!wasMastered && isQuizBankMastered(tab, getKnowledgeState())) {
+        reportAchievementEvent('quiz-bank-mastered');
+      }
+    }
+  };
+
+  const getStars = () => {
+    const ratio = correctCount / questions.length;
+    if (ratio === 1) return 3;
+    if (ratio >= 0.6) return 2;
+    return 1;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={cn('text-violet-700 border-violet-300 hover:bg-violet-50', className)}>
+          <GraduationCap className="mr-2 h-4 w-4" />
+          {t('quiz.open')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{t('quiz.title', { tab: t(quizTabNames[tab]) })}</DialogTitle>
+          <DialogDescription>
+            {isFinished
+              ? t('quiz.finished')
+              : t('quiz.progress', { current: Math.min(questionIndex + 1, questions.length), total: questions.length })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isFinished && question && (
+          <div className="space-y-4">
+            <Progress value={(questionIndex / questions.length) * 100} className="h-2" />
+
+            {question.type === 'match' ? (
+              <MatchQuestion
+                key={question.id}
+                question={question}
+                answer={answer as number[] | null}
+                onAnswer={handleAnswer}
+              />
+            ) : (
+              <ChoiceQuestion
+                key={question.id}
+                question={question}
+                answer={answer as number | null}
+                onAnswer={handleAnswer}
+              />
+            )}
+
+            {answer !== null && (
+              <div
+                className={cn(
+                  'rounded-lg border p-3 flex gap-2',
+                  results[results.length - 1] ? 'bg-green-50 border-green-200' : 'bg-orange-50 border-orange-200'
+                )}
+              >
+                {results[results.length - 1]
+                  ? <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0" />
+                  : <XCircle className="h-5 w-5 text-orange-600 shrink-0" />}
+                <div className="flex-1">
+                  <div className="font-medium">
+                    {results[results.length - 1] ? t('quiz.correct') : t('quiz.incorrect')}
+                  </div>
+                  <p className="text-sm">{t(question.explanation)}</p>
+                </div>
+                <ReadAloudButton text={t(question.explanation)} />
+              </div>
+            )}
+
+            {answer !== null && (
+              <div className="flex justify-end">
+                <Button onClick={handleNext}>
+                  {questionIndex + 1 === questions.length ? t('quiz.showResult') : t('quiz.next')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {isFinished && (
+          <div className="space-y-4 text-center">
+            <div className="flex justify-center gap-2">
+              {[1, 2, 3].map(star => (
+                <Star
+                  key={star}
+                  className={cn('h-10 w-10', star <= getStars() ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300')}
+                />
+              ))}
+            </div>
+            <div className="text-2xl font-bold">
+              {t('quiz.score', { correct: correctCount, total: questions.length })}
+            </div>
+            <p className="text-gray-600">
+              {correctCount === questions.length
+                ? t('quiz.perfect')
+                : t('quiz.tryAgain')}
+            </p>
+            <Button variant="outline" onClick={startQuiz}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              {t('quiz.playAgain')}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuizDialog;
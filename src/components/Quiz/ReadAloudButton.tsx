@@ -0,0 +1,34 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Volume2 } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { getIntlLocale } from '@/lib/i18n';
+
+interface ReadAloudButtonProps {
+  text: string;
+}
+
+// Reads the text with the browser's speech synthesis, for children who cannot read yet
+const ReadAloudButton = ({ text }: ReadAloudButtonProps) => {
+  const { t } = useI18n();
+
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+    return null;
+  }
+
+  const readAloud = () => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = getIntlLocale();
+    utterance.rate = 0.9;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  };
+
+  return (
+    <Button variant="ghost" size="icon" onClick={readAloud} title={t('quiz.readAloud')}>
+      <Volume2 className="h-5 w-5" />
+    </Button>
+  );
+};
+
+export default ReadAloudButton;
@@ -6,29 +6,31 @@ import { Badge } from '@/components/ui/badge';
 import { Circle } from 'lucide-react';
 import { JetType } from './RadarGame';
 import RadarRobot from './RadarRobot';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface JetSelectionProps {
   onSelect: (jetType: JetType) => void;
 }
 
 const JetSelection = ({ onSelect }: JetSelectionProps) => {
+  const { t } = useI18n();
   const jets = [
     {
       type: 'metal' as JetType,
-      name: 'Metall-Jet',
-      description: 'Reflektiert Radar sehr stark. Wie ein fliegender Spiegel!',
-      strength: 'Sehr schnell und wendig',
-      weakness: 'Leicht vom Radar zu entdecken',
+      name: t('jets.metal.name'),
+      description: t('jets.metal.description'),
+      strength: t('jets.metal.strength'),
+      weakness: t('jets.metal.weakness'),
       radarVisibility: 5, // 5/5 - sehr sichtbar
       color: 'from-gray-200 to-gray-400',
       jetColor: 'bg-gray-600'
     },
     {
       type: 'carbon' as JetType,
-      name: 'Kohlenstoff-Jet',
-      description: 'Absorbiert etwas Radar. Wird manchmal vom Radar gesehen.',
-      strength: 'Ausgewogen in Geschwindigkeit und Stealth',
-      weakness: 'Kann immer noch vom Radar entdeckt werden',
+      name: t('jets.carbon.name'),
+      description: t('jets.carbon.description'),
+      strength: t('jets.carbon.strength'),
+      weakness: t('jets.carbon.weakness'),
       radarVisibility: 3, // 3/5 - mittel sichtbar
       color: 'from-gray-700 to-gray-900',
       jetColor: 'bg-gray-800',
@@ -36,10 +38,10 @@ const JetSelection = ({ onSelect }: JetSelectionProps) => {
     },
     {
       type: 'stealth' as JetType,
-      name: 'Stealth-Jet',
-      description: 'Neueste Technologie! Absorbiert fast alle Radarstrahlen.',
-      strength: 'Fast unsichtbar für Radar',
-      weakness: 'Etwas langsamer als andere Jets',
+      name: t('jets.stealth.name'),
+      description: t('jets.stealth.description'),
+      strength: t('jets.stealth.strength'),
+      weakness: t('jets.stealth.weakness'),
       radarVisibility: 1, // 1/5 - kaum sichtbar
       color: 'from-blue-900 to-purple-900',
       jetColor: 'bg-blue-950',
@@ -51,11 +53,9 @@ const JetSelection = ({ onSelect }: JetSelectionProps) => {
     <div className="space-y-6">
       <div className="flex justify-between items-start">
         <div className="max-w-md">
-          <h2 className="text-2xl font-bold mb-2">Wähle deinen Jet!</h2>
+          <h2 className="text-2xl font-bold mb-2">{t('jets.heading')}</h2>
           <p className="text-gray-600">
-            Jeder Jet hat unterschiedliche Eigenschaften. Einige sind schneller, 
-            während andere besser darin sind, sich vor dem Radar zu verstecken.
-            Wähle weise!
+            {t('jets.intro')}
           </p>
         </div>
         <RadarRobot />
@@ -86,7 +86,7 @@ const JetSelection = ({ onSelect }: JetSelectionProps) => {
               
               <div className={`mt-auto ${jet.textColor ? 'text-gray-300' : 'text-gray-700'}`}>
                 <div className="flex justify-between mb-2">
-                  <span className="text-xs">Radar-Sichtbarkeit:</span>
+                  <span className="text-xs">{t('jets.visibility')}</span>
                   <div className="flex">
                     {[...Array(5)].map((_, i) => (
                       <Circle 
@@ -99,11 +99,11 @@ const JetSelection = ({ onSelect }: JetSelectionProps) => {
                 
                 <div className="space-y-2 text-xs">
                   <div className="flex">
-                    <span className="font-semibold mr-2">Stärke:</span>
+                    <span className="font-semibold mr-2">{t('jets.strength')}</span>
                     <span>{jet.strength}</span>
                   </div>
                   <div className="flex">
-                    <span className="font-semibold mr-2">Schwäche:</span>
+                    <span className="font-semibold mr-2">{t('jets.weakness')}</span>
                     <span>{jet.weakness}</span>
                   </div>
                 </div>
@@ -113,7 +113,7 @@ const JetSelection = ({ onSelect }: JetSelectionProps) => {
                 className="mt-4 w-full bg-blue-600 hover:bg-blue-700"
                 onClick={() => onSelect(jet.type)}
               >
-                Diesen Jet wählen
+                {t('jets.choose')}
               </Button>
             </CardContent>
           </Card>
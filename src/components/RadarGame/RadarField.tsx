@@ -5,6 +5,7 @@ import RadarRobot from './RadarRobot';
 import { Circle, Shield, Plane, Radar } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface RadarFieldProps {
   jetType: JetType;
@@ -41,6 +42,7 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
   const [jetDetectionLevel, setJetDetectionLevel] = useState(0);
   const [targetPosition, setTargetPosition] = useState<Position | null>(null);
   const { toast } = useToast();
+  const { t } = useI18n();
   const [waveRadius, setWaveRadius] = useState(30);
   const [showStartScreen, setShowStartScreen] = useState(true);
   const [detectionCounter, setDetectionCounter] = useState(0);
@@ -151,8 +153,8 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
     startGameLoop();
     
     toast({
-      title: "Los geht's!",
-      description: "Steuere deinen Jet mit den Pfeiltasten oder durch Klicken/Tippen.",
+      title: t('radarGame.field.toasts.start.title'),
+      description: t('radarGame.field.toasts.start.description'),
     });
   };
   
@@ -203,8 +205,8 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
       } else if (timeLeft < 10 && gameSpeed < 2) {
         setGameSpeed(2);
         toast({
-          title: "Schneller!",
-          description: "Die Radargeschwindigkeit erhöht sich!",
+          title: t('radarGame.field.toasts.faster.title'),
+          description: t('radarGame.field.toasts.faster.description'),
         });
       }
       
@@ -465,8 +467,8 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
     const finalScore = Math.floor(score) + timeBonus;
     
     toast({
-      title: "Ziel erreicht!",
-      description: `Du hast das Rennen gewonnen! Zeitbonus: +${timeBonus} Punkte`,
+      title: t('radarGame.field.toasts.won.title'),
+      description: t('radarGame.field.toasts.won.description', { bonus: timeBonus }),
     });
     
     onGameOver(finalScore);
@@ -483,8 +485,8 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
     }
     
     toast({
-      title: "Vom Radar entdeckt!",
-      description: "Dein Jet wurde vom Radar erfasst!",
+      title: t('radarGame.field.toasts.lost.title'),
+      description: t('radarGame.field.toasts.lost.description'),
       variant: "destructive",
     });
     
@@ -580,34 +582,17 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
           <RadarRobot speaking={true} className="mx-auto" />
           
           <div className="bg-blue-50 p-6 rounded-lg max-w-xl mx-auto">
-            <h3 className="text-2xl font-bold mb-3">Bereit für das Radar-Rennen?</h3>
+            <h3 className="text-2xl font-bold mb-3">{t('radarGame.field.ready')}</h3>
             <p className="mb-4">
-              Steuere deinen Jet durch das Radar-Feld und versuche, unentdeckt zum Ziel zu gelangen!
-              Benutze die Pfeiltasten oder klicke/tippe auf dem Spielfeld, wohin dein Jet fliegen soll.
+              {t('radarGame.field.intro')}
             </p>
             <p className="font-medium">
-              Tipps für deinen {jetType === 'metal' ? 'Metall-Jet' : jetType === 'carbon' ? 'Kohlenstoff-Jet' : 'Stealth-Jet'}:
+              {t('radarGame.field.tipsFor', { jet: t(`jets.${jetType}.name`) })}
             </p>
             <ul className="list-disc list-inside mt-2 space-y-1 text-sm">
-              {jetType === 'metal' ? (
-                <>
-                  <li>Dein Jet ist sehr schnell, aber leicht zu erkennen</li>
-                  <li>Versuche, dich in Stealth-Gebieten (dunkelblau) zu verstecken</li>
-                  <li>Meide Metall-Objekte, sie machen dich noch sichtbarer!</li>
-                </>
-              ) : jetType === 'carbon' ? (
-                <>
-                  <li>Dein Jet ist ausgewogen in Geschwindigkeit und Stealth</li>
-                  <li>Kohlenstoff-Gebiete (grau) verbessern deine Tarnung</li>
-                  <li>Nutze Stealth-Gebiete für maximale Tarnung</li>
-                </>
-              ) : (
-                <>
-                  <li>Dein Jet ist langsamer, aber deutlich schwerer zu erkennen</li>
-                  <li>In Stealth-Gebieten bist du fast unsichtbar</li>
-                  <li>Selbst in normalen Gebieten bist du schwer zu entdecken</li>
-                </>
-              )}
+              {(['first', 'second', 'third'] as const).map(tip => (
+                <li key={tip}>{t(`radarGame.field.tips.${jetType}.${tip}`)}</li>
+              ))}
             </ul>
           </div>
           
@@ -616,7 +601,7 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
             size="lg"
             className="bg-blue-600 hover:bg-blue-700 animate-pulse"
           >
-            Starte das Rennen!
+            {t('radarGame.field.start')}
           </Button>
         </div>
       ) : (
@@ -624,7 +609,7 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
           <div className="flex justify-between items-center bg-blue-50 p-2 rounded-md">
             <div className="flex items-center">
               <div className="mr-4">
-                <span className="block text-xs">Radar-Sichtbarkeit:</span>
+                <span className="block text-xs">{t('radarGame.field.visibility')}</span>
                 <div className="flex">
                   {[...Array(5)].map((_, i) => (
                     <Circle 
@@ -638,7 +623,7 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
               <div className="flex items-center space-x-2">
                 <Shield className={cn("w-5 h-5", radarDetection ? "text-red-500 fill-red-500" : "text-green-500")} />
                 <span className={radarDetection ? "text-red-500" : "text-green-500"}>
-                  {radarDetection ? "Erfasst!" : "Versteckt"}
+                  {radarDetection ? t('radarGame.field.detected') : t('radarGame.field.hidden')}
                 </span>
               </div>
             </div>
@@ -648,7 +633,7 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
                 <Circle 
                   className={`w-4 h-4 ${isMoving ? 'fill-blue-500 text-blue-500' : 'text-gray-300'}`} 
                 />
-                <span className="ml-1 text-sm">Geschwindigkeit</span>
+                <span className="ml-1 text-sm">{t('radarGame.field.speed')}</span>
                 <div className="ml-1 w-16 h-2 bg-gray-200 rounded-full">
                   <div 
                     className="h-2 bg-blue-500 rounded-full" 
@@ -657,11 +642,11 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
                 </div>
               </div>
               <div>
-                <span className="text-sm font-medium">Zeit:</span>
+                <span className="text-sm font-medium">{t('radarGame.field.time')}</span>
                 <span className="ml-2 font-bold">{Math.ceil(timeLeft)}s</span>
               </div>
               <div>
-                <span className="text-sm font-medium">Punkte:</span>
+                <span className="text-sm font-medium">{t('radarGame.field.points')}</span>
                 <span className="ml-2 font-bold">{Math.floor(score)}</span>
               </div>
             </div>
@@ -738,7 +723,7 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
               >
                 {obj.type === 'target' && (
                   <div className="flex items-center justify-center h-full text-yellow-800 font-bold">
-                    ZIEL
+                    {t('radarGame.field.target')}
                   </div>
                 )}
               </div>
@@ -796,15 +781,14 @@ const RadarField = ({ jetType, onGameOver }: RadarFieldProps) => {
             
             {/* Movement hint */}
             <div className="absolute bottom-2 right-2 text-sm bg-white bg-opacity-80 p-2 rounded font-medium">
-              Klicke auf dem Spielfeld, wohin dein Jet fliegen soll! <br />
-              Oder drücke die Pfeiltasten ↑ → ↓ ← für Richtung und Leertaste für Extra-Schub.
+              {t('radarGame.field.clickHint')} <br />
+              {t('radarGame.field.keysHint')}
             </div>
           </div>
           
           {/* Control hints */}
           <div className="text-sm text-center text-gray-600 bg-blue-50 p-2 rounded-md">
-            <strong>STEUERUNG:</strong> Pfeiltasten für Richtung, 
-            Leertaste für Extra-Schub, oder einfach klicken/tippen!
+            <strong>{t('radarGame.field.controls')}</strong> {t('radarGame.field.controlsHint')}
           </div>
         </div>
       )}
@@ -7,6 +7,10 @@ import JetSelection from './JetSelection';
 import RadarField from './RadarField';
 import ResultScreen from './ResultScreen';
 import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { recordRadarScore } from '@/lib/save-game';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { recordExperiment } from '@/lib/knowledge';
 
 export type JetType = 'metal' | 'carbon' | 'stealth';
 export type GameStage = 'intro' | 'selection' | 'field' | 'result';
@@ -15,14 +19,16 @@ const RadarGame = () => {
   const [currentStage, setCurrentStage] = useState<GameStage>('intro');
   const [selectedJet, setSelectedJet] = useState<JetType | null>(null);
   const [score, setScore] = useState(0);
+  const [previousBest, setPreviousBest] = useState(0);
   const [currentTab, setCurrentTab] = useState<GameStage>('intro');
   const { toast } = useToast();
+  const { t } = useI18n();
   
   const handleJetSelect = (jetType: JetType) => {
     setSelectedJet(jetType);
     toast({
-      title: "Jet ausgewählt!",
-      description: `Du hast einen ${getJetName(jetType)} ausgewählt.`,
+      title: t('radarGame.jetSelected.title'),
+      description: t('radarGame.jetSelected.description', { jet: t(`jets.${jetType}.name`) }),
     });
     
     // Automatisch zum nächsten Schritt
@@ -32,6 +38,13 @@ const RadarGame = () => {
   
   const handleGameOver = (finalScore: number) => {
     setScore(finalScore);
+    setPreviousBest(recordRadarScore(selectedJet || 'metal', finalScore));
+    reportAchievementEvent('radar-game-finished');
+    recordExperiment(`radar-reflection:${selectedJet || 'metal'}`);
+    if (finalScore >= 800) {
+      reportAchievementEvent('radar-high-score');
+      recordExperiment('radar-reflection:unseen');
+    }
     setCurrentStage('result');
     setCurrentTab('result');
   };
@@ -43,14 +56,6 @@ const RadarGame = () => {
     setCurrentTab('intro');
   };
   
-  const getJetName = (type: JetType): string => {
-    switch (type) {
-      case 'metal': return 'Metall-Jet';
-      case 'carbon': return 'Kohlenstoff-Jet';
-      case 'stealth': return 'Stealth-Jet';
-    }
-  };
-  
   const handleChangeTab = (tab: string) => {
     const newTab = tab as GameStage;
     setCurrentTab(newTab);
@@ -68,16 +73,16 @@ const RadarGame = () => {
       <Tabs value={currentTab} onValueChange={handleChangeTab} className="w-full">
         <TabsList className="w-full grid grid-cols-4 mb-6">
           <TabsTrigger value="intro" disabled={currentStage === 'result'}>
-            1. Einführung
+            {t('radarGame.tabs.intro')}
           </TabsTrigger>
           <TabsTrigger value="selection" disabled={currentStage === 'intro' || currentStage === 'result'}>
-            2. Jet wählen
+            {t('radarGame.tabs.selection')}
           </TabsTrigger>
           <TabsTrigger value="field" disabled={!selectedJet || currentStage === 'result'}>
-            3. Radar-Rennen
+            {t('radarGame.tabs.field')}
           </TabsTrigger>
           <TabsTrigger value="result" disabled={currentStage !== 'result'}>
-            4. Ergebnis
+            {t('radarGame.tabs.result')}
           </TabsTrigger>
         </TabsList>
         
@@ -109,6 +114,7 @@ const RadarGame = () => {
           <ResultScreen 
             jetType={selectedJet || 'metal'} 
             score={score}
+            previousBest={previousBest}
             onRestart={restartGame}
           />
         </TabsContent>
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Circle } from 'lucide-react';
 import RadarRobot from './RadarRobot';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface RadarIntroductionProps {
   onComplete: () => void;
@@ -11,25 +12,12 @@ interface RadarIntroductionProps {
 
 const RadarIntroduction = ({ onComplete }: RadarIntroductionProps) => {
   const [step, setStep] = useState(0);
+  const { t } = useI18n();
   
-  const steps = [
-    {
-      title: "Hallo! Ich bin Rada, der Radar-Roboter!",
-      content: "Ich erkläre dir heute, wie Radar funktioniert. Das ist super spannend!"
-    },
-    {
-      title: "Was ist eigentlich Radar?",
-      content: "Radar ist wie unsichtbares Licht, das von einer Radar-Station ausgesendet wird und auf Objekte trifft. Wenn das Radar-Licht auf etwas trifft, kommt ein Teil zurück zur Station - und so wissen wir, dass dort etwas ist!"
-    },
-    {
-      title: "Materialien und Radar",
-      content: "Verschiedene Materialien verhalten sich unterschiedlich, wenn Radar auf sie trifft. Metall reflektiert Radar sehr stark - wie ein Spiegel! Kohlenstoff und spezielle Stealth-Materialien können Radar absorbieren und machen ein Flugzeug für Radar fast unsichtbar."
-    },
-    {
-      title: "Unser Abenteuer",
-      content: "Im Radar-Abenteuer kannst du verschiedene Jets auswählen und durch ein Radarfeld steuern. Dein Ziel ist es, unsichtbar für das feindliche Radar zu bleiben! Bist du bereit für das Abenteuer?"
-    }
-  ];
+  const steps = (['hello', 'whatIsRadar', 'materials', 'adventure'] as const).map(id => ({
+    title: t(`radarIntro.${id}.title`),
+    content: t(`radarIntro.${id}.content`)
+  }));
   
   const handleNext = () => {
     if (step < steps.length - 1) {
@@ -82,8 +70,8 @@ const RadarIntroduction = ({ onComplete }: RadarIntroductionProps) => {
           <Card className="w-1/3 bg-gradient-to-b from-gray-200 to-gray-400">
             <CardContent className="flex flex-col items-center p-4">
               <div className="w-16 h-10 bg-gray-600 rounded-md mb-2"></div>
-              <p className="text-center text-sm">Metall-Jet</p>
-              <p className="text-center text-xs mt-2">Reflektiert Radar stark</p>
+              <p className="text-center text-sm">{t('jets.metal.name')}</p>
+              <p className="text-center text-xs mt-2">{t('radarIntro.reflectsStrongly')}</p>
               <div className="mt-4 flex">
                 {[...Array(5)].map((_, i) => (
                   <Circle key={i} className="w-3 h-3 fill-red-500 text-red-500" />
@@ -95,8 +83,8 @@ const RadarIntroduction = ({ onComplete }: RadarIntroductionProps) => {
           <Card className="w-1/3 bg-gradient-to-b from-gray-700 to-gray-900">
             <CardContent className="flex flex-col items-center p-4">
               <div className="w-16 h-10 bg-gray-800 rounded-md mb-2"></div>
-              <p className="text-center text-sm text-white">Kohlenstoff-Jet</p>
-              <p className="text-center text-xs mt-2 text-gray-300">Absorbiert etwas Radar</p>
+              <p className="text-center text-sm text-white">{t('jets.carbon.name')}</p>
+              <p className="text-center text-xs mt-2 text-gray-300">{t('radarIntro.absorbsSome')}</p>
               <div className="mt-4 flex">
                 {[...Array(5)].map((_, i) => (
                   <Circle key={i} className={`w-3 h-3 ${i < 3 ? 'fill-red-500 text-red-500' : 'text-gray-500'}`} />
@@ -108,8 +96,8 @@ const RadarIntroduction = ({ onComplete }: RadarIntroductionProps) => {
           <Card className="w-1/3 bg-gradient-to-b from-blue-900 to-purple-900">
             <CardContent className="flex flex-col items-center p-4">
               <div className="w-16 h-10 bg-blue-950 rounded-md mb-2"></div>
-              <p className="text-center text-sm text-white">Stealth-Jet</p>
-              <p className="text-center text-xs mt-2 text-blue-300">Absorbiert fast alles Radar</p>
+              <p className="text-center text-sm text-white">{t('jets.stealth.name')}</p>
+              <p className="text-center text-xs mt-2 text-blue-300">{t('radarIntro.absorbsAlmostAll')}</p>
               <div className="mt-4 flex">
                 {[...Array(5)].map((_, i) => (
                   <Circle key={i} className={`w-3 h-3 ${i < 1 ? 'fill-red-500 text-red-500' : 'text-gray-500'}`} />
@@ -143,7 +131,7 @@ const RadarIntroduction = ({ onComplete }: RadarIntroductionProps) => {
           size="lg"
           className="bg-blue-600 hover:bg-blue-700"
         >
-          {step < steps.length - 1 ? 'Weiter' : 'Los gehts!'}
+          {step < steps.length - 1 ? t('common.next') : t('common.letsGo')}
         </Button>
       </div>
     </div>
@@ -6,90 +6,65 @@ import { Badge } from '@/components/ui/badge';
 import { JetType } from './RadarGame';
 import RadarRobot from './RadarRobot';
 import { Circle } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
 
 interface ResultScreenProps {
   jetType: JetType;
   score: number;
+  previousBest?: number;
   onRestart: () => void;
 }
 
-const ResultScreen = ({ jetType, score, onRestart }: ResultScreenProps) => {
-  const getRank = (): { title: string; description: string; color: string } => {
-    if (score >= 800) {
-      return { 
-        title: "Stealth-Meister", 
-        description: "Du bist ein Experte in Radar-Technologie! Du weißt genau, wie man sich vor Radar versteckt.",
-        color: "bg-purple-600"
-      };
-    } else if (score >= 500) {
-      return { 
-        title: "Radar-Profi", 
-        description: "Du verstehst sehr gut, wie Radar funktioniert und wie man sich tarnt!",
-        color: "bg-blue-600"
-      };
-    } else if (score >= 300) {
-      return { 
-        title: "Fortgeschrittener Pilot", 
-        description: "Du hast viel über Radar und Materialien gelernt!",
-        color: "bg-green-600"
-      };
-    } else {
-      return { 
-        title: "Radar-Entdecker", 
-        description: "Du hast die Grundlagen von Radar-Technologie kennengelernt!",
-        color: "bg-yellow-600"
-      };
-    }
+type RankName = 'master' | 'pro' | 'advanced' | 'explorer';
+
+const learningPoints: MessageKey[] = [
+  'radarGame.result.lessons.waves',
+  'radarGame.result.lessons.metal',
+  'radarGame.result.lessons.carbon',
+  'radarGame.result.lessons.stealth',
+  'radarGame.result.lessons.hiding',
+];
+
+const ResultScreen = ({ jetType, score, previousBest = 0, onRestart }: ResultScreenProps) => {
+  const { t } = useI18n();
+
+  const getRank = (): { name: RankName; color: string } => {
+    if (score >= 800) return { name: 'master', color: 'bg-purple-600' };
+    if (score >= 500) return { name: 'pro', color: 'bg-blue-600' };
+    if (score >= 300) return { name: 'advanced', color: 'bg-green-600' };
+    return { name: 'explorer', color: 'bg-yellow-600' };
   };
   
   const rank = getRank();
   
-  const getJetTip = (): string => {
-    switch (jetType) {
-      case 'metal':
-        return "Metallflugzeuge sind sehr schnell, aber reflektieren Radar stark. Stealth-Materialien könnten dir beim nächsten Mal helfen, unsichtbarer zu sein!";
-      case 'carbon':
-        return "Kohlenstoff-Jets bieten eine gute Balance zwischen Geschwindigkeit und Radar-Absorption. Mit etwas Übung wirst du noch besser werden!";
-      case 'stealth':
-        return "Stealth-Jets sind hervorragend darin, Radar zu absorbieren. Du hast eine gute Wahl getroffen!";
-    }
-  };
-  
-  const getLearningPoints = (): string[] => {
-    return [
-      "Radar sendet unsichtbare Wellen aus, die von Objekten zurückgeworfen werden",
-      "Metall reflektiert Radar sehr stark - wie ein Spiegel für Radar-Wellen",
-      "Kohlenstoff-Materialien absorbieren etwas Radar und machen Objekte schwerer zu erkennen",
-      "Spezielle Stealth-Materialien absorbieren fast alle Radar-Wellen",
-      "Flugzeuge nutzen verschiedene Materialien, um sich vor Radar zu verstecken"
-    ];
-  };
-  
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-start">
         <div className="max-w-md">
-          <h2 className="text-3xl font-bold mb-2">Radar-Abenteuer abgeschlossen!</h2>
-          <p className="text-gray-600">
-            Toll gemacht! Du hast gelernt, wie Radar funktioniert und wie verschiedene 
-            Materialien Radar-Wellen reflektieren oder absorbieren.
-          </p>
+          <h2 className="text-3xl font-bold mb-2">{t('radarGame.result.title')}</h2>
+          <p className="text-gray-600">{t('radarGame.result.intro')}</p>
         </div>
         <RadarRobot speaking={true} />
       </div>
       
       <div className="w-full max-w-2xl mx-auto bg-blue-50 rounded-lg p-6 text-center">
-        <h3 className="text-2xl font-bold mb-1">Dein Ergebnis</h3>
-        <div className="text-4xl font-bold mb-4">{score} Punkte</div>
+        <h3 className="text-2xl font-bold mb-1">{t('radarGame.result.heading')}</h3>
+        <div className="text-4xl font-bold mb-1">{t('radarGame.result.points', { points: score })}</div>
+        <div className="text-sm text-gray-600 mb-4">
+          {score > previousBest
+            ? t('radarGame.result.newRecord')
+            : t('radarGame.result.record', { points: previousBest })}
+        </div>
         
         <Badge className={`${rank.color} text-white text-lg py-1 px-4 mb-2`}>
-          {rank.title}
+          {t(`radarGame.result.ranks.${rank.name}.title`)}
         </Badge>
         
-        <p className="mb-6">{rank.description}</p>
+        <p className="mb-6">{t(`radarGame.result.ranks.${rank.name}.description`)}</p>
         
         <div className="bg-white rounded-lg p-4 mb-6">
-          <h4 className="font-semibold mb-2">Dein Flugzeug:</h4>
+          <h4 className="font-semibold mb-2">{t('radarGame.result.yourJet')}</h4>
           <div className="flex justify-center items-center space-x-3">
             <div 
               className={`w-16 h-10 
@@ -102,8 +77,7 @@ const ResultScreen = ({ jetType, score, onRestart }: ResultScreenProps) => {
             ></div>
             <div>
               <span className="block font-medium">
-                {jetType === 'metal' ? 'Metall-Jet' : 
-                 jetType === 'carbon' ? 'Kohlenstoff-Jet' : 'Stealth-Jet'}
+                {t(`jets.${jetType}.name`)}
               </span>
               <div className="flex mt-1">
                 {[...Array(5)].map((_, i) => (
@@ -119,17 +93,17 @@ const ResultScreen = ({ jetType, score, onRestart }: ResultScreenProps) => {
               </div>
             </div>
           </div>
-          <p className="text-sm mt-3">{getJetTip()}</p>
+          <p className="text-sm mt-3">{t(`radarGame.result.tips.${jetType}`)}</p>
         </div>
         
         <Card className="mb-6">
           <CardContent className="p-4">
-            <h4 className="font-bold text-lg mb-3">Das hast du gelernt:</h4>
+            <h4 className="font-bold text-lg mb-3">{t('radarGame.result.learned')}</h4>
             <ul className="text-left space-y-2 text-sm">
-              {getLearningPoints().map((point, index) => (
+              {learningPoints.map((point, index) => (
                 <li key={index} className="flex items-start">
                   <div className="mr-2 mt-1 text-green-500">✓</div>
-                  <div>{point}</div>
+                  <div>{t(point)}</div>
                 </li>
               ))}
             </ul>
@@ -142,7 +116,7 @@ const ResultScreen = ({ jetType, score, onRestart }: ResultScreenProps) => {
             size="lg"
             className="bg-blue-600 hover:bg-blue-700"
           >
-            Nochmal spielen
+            {t('radarGame.result.playAgain')}
           </Button>
         </div>
       </div>
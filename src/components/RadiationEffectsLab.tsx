@@ -28,6 +28,10 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { recordExperiment } from '@/lib/knowledge';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
 
 interface RadiationEffectsLabProps {
   className?: string;
@@ -41,7 +45,7 @@ interface RadiationProperties {
   penetration: number;
   ionization: number;
   color: string;
-  description: string;
+  description: MessageKey;
 }
 
 const radiationProperties: Record<RadiationType, RadiationProperties> = {
@@ -50,61 +54,62 @@ const radiationProperties: Record<RadiationType, RadiationProperties> = {
     penetration: 10,
     ionization: 90,
     color: '#f87171',
-    description: 'Heliumkerne (α) - Geringe Reichweite, hohe Ionisationskraft'
+    description: 'radiationLab.radiation.alpha.description'
   },
   beta: {
     symbol: 'β',
     penetration: 40,
     ionization: 50,
     color: '#60a5fa',
-    description: 'Elektronen (β) - Mittlere Reichweite, mittlere Ionisationskraft'
+    description: 'radiationLab.radiation.beta.description'
   },
   gamma: {
     symbol: 'γ',
     penetration: 95,
     ionization: 20,
     color: '#34d399',
-    description: 'Energiereiche Photonen (γ) - Hohe Reichweite, geringe Ionisationskraft'
+    description: 'radiationLab.radiation.gamma.description'
   },
   neutron: {
     symbol: 'n',
     penetration: 80,
     ionization: 30,
     color: '#f59e0b',
-    description: 'Neutronen (n) - Hohe Reichweite, können Kerne umwandeln'
+    description: 'radiationLab.radiation.neutron.description'
   }
 };
 
 interface MaterialProperties {
   resistance: number;
-  effect: string;
-  description: string;
+  effect: MessageKey;
+  description: MessageKey;
 }
 
 const materialProperties: Record<MaterialType, MaterialProperties> = {
   dna: {
     resistance: 15,
-    effect: 'Strangbruch',
-    description: 'DNA ist sehr empfindlich gegenüber Strahlung, die Mutation und Schäden verursachen kann.'
+    effect: 'radiationLab.materials.dna.effect',
+    description: 'radiationLab.materials.dna.description'
   },
   metal: {
     resistance: 70,
-    effect: 'Materialermüdung',
-    description: 'Metalle widerstehen Strahlung gut, können aber bei hoher Dosis spröde werden.'
+    effect: 'radiationLab.materials.metal.effect',
+    description: 'radiationLab.materials.metal.description'
   },
   plastic: {
     resistance: 30,
-    effect: 'Versprödung',
-    description: 'Kunststoffe können durch Strahlung brüchig werden und ihre Struktur verlieren.'
+    effect: 'radiationLab.materials.plastic.effect',
+    description: 'radiationLab.materials.plastic.description'
   },
   crystal: {
     resistance: 50,
-    effect: 'Farbzentren',
-    description: 'Kristalle können Farbzentren bilden und durch Strahlung zum Leuchten gebracht werden.'
+    effect: 'radiationLab.materials.crystal.effect',
+    description: 'radiationLab.materials.crystal.description'
   }
 };
 
 const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className }) => {
+  const { t, formatNumber } = useI18n();
   const [activeTab, setActiveTab] = useState('dna');
   const [selectedRadiation, setSelectedRadiation] = useState<RadiationType>('alpha');
   const [radiationDose, setRadiationDose] = useState(15); // Reduced from 20 to 15 for slower radiation
@@ -119,6 +124,9 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
   
   const startRadiation = () => {
     setIsRadiating(true);
+    reportAchievementEvent('radiation-experiment');
+    recordExperiment(`radiation-types:${selectedRadiation}`);
+    recordExperiment(`radiation-types:${activeTab}`);
   };
   
   const stopRadiation = () => {
@@ -651,14 +659,14 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
   return (
     <Card className={cn("p-6", className)}>
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold">Strahlungslabor</h2>
+        <h2 className="text-2xl font-bold">{t('radiationLab.title')}</h2>
         
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList>
-            <TabsTrigger value="dna">DNA</TabsTrigger>
-            <TabsTrigger value="metal">Metall</TabsTrigger>
-            <TabsTrigger value="plastic">Kunststoff</TabsTrigger>
-            <TabsTrigger value="crystal">Kristall</TabsTrigger>
+            <TabsTrigger value="dna">{t('radiationLab.materials.dna.tab')}</TabsTrigger>
+            <TabsTrigger value="metal">{t('radiationLab.materials.metal.tab')}</TabsTrigger>
+            <TabsTrigger value="plastic">{t('radiationLab.materials.plastic.tab')}</TabsTrigger>
+            <TabsTrigger value="crystal">{t('radiationLab.materials.crystal.tab')}</TabsTrigger>
           </TabsList>
         </Tabs>
       </div>
@@ -671,21 +679,19 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
             {isRadiating && (
               <div className="absolute top-4 left-4 bg-red-100 border border-red-300 text-red-800 px-3 py-1 rounded-full text-sm animate-pulse">
                 <Activity className="inline-block mr-1 h-4 w-4" />
-                Strahlung aktiv
+                {t('radiationLab.active')}
               </div>
             )}
             
             {showEffects && (
               <div className="absolute bottom-4 right-4 bg-blue-100 border border-blue-300 text-blue-800 px-3 py-1 rounded-full text-sm">
                 <Sparkles className="inline-block mr-1 h-4 w-4" />
-                Effekte sichtbar
+                {t('radiationLab.effectsVisible')}
               </div>
             )}
             
             <div className="absolute bottom-4 left-4 bg-black bg-opacity-50 text-white px-3 py-1 rounded text-sm">
-              {activeTab === 'dna' ? 'DNA-Strang' : 
-               activeTab === 'metal' ? 'Metallgitter' : 
-               activeTab === 'plastic' ? 'Polymer-Ketten' : 'Kristallstruktur'}
+              {t(`radiationLab.materials.${activeTab as MaterialType}.structure`)}
             </div>
           </div>
           
@@ -697,29 +703,29 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
               {isRadiating ? (
                 <>
                   <CircleOff className="mr-2 h-4 w-4" />
-                  Bestrahlung stoppen
+                  {t('radiationLab.stop')}
                 </>
               ) : (
                 <>
                   <Radiation className="mr-2 h-4 w-4" />
-                  Mit {radiationProperties[selectedRadiation].symbol} bestrahlen
+                  {t('radiationLab.irradiate', { symbol: radiationProperties[selectedRadiation].symbol })}
                 </>
               )}
             </Button>
             
             <Button variant="outline" onClick={resetExperiment} disabled={isRadiating}>
-              Zurücksetzen
+              {t('common.reset')}
             </Button>
           </div>
         </div>
         
         <div className="space-y-6">
           <div className="bg-gray-50 rounded-lg p-4">
-            <h3 className="text-lg font-medium mb-4">Strahlungsparameter</h3>
+            <h3 className="text-lg font-medium mb-4">{t('radiationLab.parameters')}</h3>
             
             <div className="space-y-6">
               <div>
-                <label className="block text-sm font-medium mb-2">Strahlungsart</label>
+                <label className="block text-sm font-medium mb-2">{t('radiationLab.type')}</label>
                 <Select 
                   value={selectedRadiation}
                   onValueChange={(value) => setSelectedRadiation(value as RadiationType)}
@@ -732,38 +738,38 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
                     <SelectItem value="alpha">
                       <div className="flex items-center space-x-2">
                         <Badge className="bg-red-500">{radiationProperties.alpha.symbol}</Badge>
-                        <span>Alpha-Strahlung</span>
+                        <span>{t('radiationLab.radiation.alpha.name')}</span>
                       </div>
                     </SelectItem>
                     <SelectItem value="beta">
                       <div className="flex items-center space-x-2">
                         <Badge className="bg-blue-500">{radiationProperties.beta.symbol}</Badge>
-                        <span>Beta-Strahlung</span>
+                        <span>{t('radiationLab.radiation.beta.name')}</span>
                       </div>
                     </SelectItem>
                     <SelectItem value="gamma">
                       <div className="flex items-center space-x-2">
                         <Badge className="bg-green-500">{radiationProperties.gamma.symbol}</Badge>
-                        <span>Gamma-Strahlung</span>
+                        <span>{t('radiationLab.radiation.gamma.name')}</span>
                       </div>
                     </SelectItem>
                     <SelectItem value="neutron">
                       <div className="flex items-center space-x-2">
                         <Badge className="bg-amber-500">{radiationProperties.neutron.symbol}</Badge>
-                        <span>Neutronen</span>
+                        <span>{t('radiationLab.radiation.neutron.name')}</span>
                       </div>
                     </SelectItem>
                   </SelectContent>
                 </Select>
                 
                 <div className="mt-2 text-xs bg-blue-50 p-2 rounded">
-                  {radiationProperties[selectedRadiation].description}
+                  {t(radiationProperties[selectedRadiation].description)}
                 </div>
               </div>
               
               <div>
                 <div className="flex justify-between mb-1 items-center">
-                  <span className="text-sm font-medium">Strahlungsdosis</span>
+                  <span className="text-sm font-medium">{t('radiationLab.dose')}</span>
                   <span className="text-sm">{radiationDose} mSv/h</span>
                 </div>
                 <Slider 
@@ -775,21 +781,21 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
                   disabled={isRadiating}
                 />
                 <div className="mt-1 text-xs text-gray-500 flex justify-between">
-                  <span>Gering</span>
-                  <span>Mittel</span>
-                  <span>Hoch</span>
+                  <span>{t('radiationLab.low')}</span>
+                  <span>{t('radiationLab.medium')}</span>
+                  <span>{t('radiationLab.high')}</span>
                 </div>
               </div>
             </div>
           </div>
           
           <div className="bg-gray-50 rounded-lg p-4">
-            <h3 className="text-lg font-medium mb-4">Materialeigenschaften</h3>
+            <h3 className="text-lg font-medium mb-4">{t('radiationLab.materialProperties')}</h3>
             
             <div className="space-y-4">
               <div>
                 <div className="flex justify-between mb-1 text-sm">
-                  <span>Strahlungsresistenz</span>
+                  <span>{t('radiationLab.resistance')}</span>
                   <span>{materialProperties[activeTab as MaterialType].resistance}%</span>
                 </div>
                 <Progress value={materialProperties[activeTab as MaterialType].resistance} className="h-2" />
@@ -797,21 +803,21 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
               
               <div>
                 <div className="flex justify-between mb-1 text-sm">
-                  <span>Kumulative Dosis</span>
-                  <span>{cumDose.toFixed(1)} mSv</span>
+                  <span>{t('radiationLab.cumulativeDose')}</span>
+                  <span>{formatNumber(cumDose, 1)} mSv</span>
                 </div>
                 <Progress value={Math.min(100, cumDose)} className="h-2" />
               </div>
               
               <div>
                 <div className="flex justify-between mb-1 text-sm">
-                  <span>Schadensgrad</span>
+                  <span>{t('radiationLab.damage')}</span>
                   <span className={cn(
                     damageLevel < 30 ? "text-green-500" :
                     damageLevel < 70 ? "text-amber-500" :
                     "text-red-500"
                   )}>
-                    {damageLevel.toFixed(1)}%
+                    {formatNumber(damageLevel, 1)}%
                   </span>
                 </div>
                 <Progress 
@@ -832,8 +838,8 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
               
               <div>
                 <div className="flex justify-between mb-1 text-sm">
-                  <span>Sichtbare Auswirkung</span>
-                  <span>{showEffects ? materialProperties[activeTab as MaterialType].effect : "Keine"}</span>
+                  <span>{t('radiationLab.visibleEffect')}</span>
+                  <span>{showEffects ? t(materialProperties[activeTab as MaterialType].effect) : t('radiationLab.none')}</span>
                 </div>
               </div>
             </div>
@@ -842,40 +848,30 @@ const RadiationEffectsLab: React.FC<RadiationEffectsLabProps> = ({ className })
       </div>
       
       <TabsContent value="dna" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-        <h3 className="font-medium mb-2">DNA und Strahlung</h3>
+        <h3 className="font-medium mb-2">{t('radiationLab.materials.dna.explanationTitle')}</h3>
         <p className="text-sm">
-          DNA ist besonders empfindlich gegenüber ionisierender Strahlung. Alpha-Strahlung (α) kann bei direktem Kontakt 
-          schwere Schäden verursachen, während Gamma-Strahlung (γ) tiefer eindringt. Strahlenschäden an der DNA 
-          können zu Einzel- und Doppelstrangbrüchen führen, die wiederum zu Mutationen oder Zelltod führen können.
+          {t('radiationLab.materials.dna.explanation')}
         </p>
       </TabsContent>
       
       <TabsContent value="metal" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-        <h3 className="font-medium mb-2">Metalle und Strahlung</h3>
+        <h3 className="font-medium mb-2">{t('radiationLab.materials.metal.explanationTitle')}</h3>
         <p className="text-sm">
-          Metalle sind relativ strahlungsresistent, besonders gegenüber Alpha- (α) und Beta-Strahlung (β). 
-          Bei hohen Dosen können jedoch Elektronen aus der Metallgitterstruktur freigesetzt werden, was die 
-          mechanischen Eigenschaften des Metalls verändern kann. Langfristige Bestrahlung führt zu Versprödung 
-          und Materialermüdung.
+          {t('radiationLab.materials.metal.explanation')}
         </p>
       </TabsContent>
       
       <TabsContent value="plastic" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-        <h3 className="font-medium mb-2">Kunststoffe und Strahlung</h3>
+        <h3 className="font-medium mb-2">{t('radiationLab.materials.plastic.explanationTitle')}</h3>
         <p className="text-sm">
-          Kunststoffe sind anfällig für Strahlungsschäden, da energiereiche Strahlung Polymerketten brechen kann. 
-          Dies führt zu Versprödung, Verfärbung und Strukturverlust. Gamma-Strahlung (γ) wird oft gezielt eingesetzt, 
-          um Kunststoffe zu sterilisieren oder ihre Eigenschaften zu modifizieren.
+          {t('radiationLab.materials.plastic.explanation')}
         </p>
       </TabsContent>
       
       <TabsContent value="crystal" className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-        <h3 className="font-medium mb-2">Kristalle und Strahlung</h3>
+        <h3 className="font-medium mb-2">{t('radiationLab.materials.crystal.explanationTitle')}</h3>
         <p className="text-sm">
-          In Kristallen kann Strahlung Farbzentren erzeugen, indem Elektronen in Gitterfehlstellen eingefangen werden. 
-          Diese Zentren absorbieren Licht und können zum Leuchten angeregt werden. Dieses Phänomen wird in der 
-          Dosimetrie genutzt, um Strahlungsdosen zu messen. Es erklärt auch, warum manche Edelsteine ihre Farbe durch 
-          natürliche Bestrahlung über Millionen von Jahren erhalten haben.
+          {t('radiationLab.materials.crystal.explanation')}
         </p>
       </TabsContent>
     </Card>
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, Hourglass, Microscope, RefreshCw } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import { recordExperiment } from '@/lib/knowledge';
+import { getNuclide, nuclides } from '@/lib/nuclides';
+import { randomSeed } from '@/lib/rng';
+import {
+  ArtefactId,
+  artefacts,
+  createDatingSample,
+  DatingSample,
+  EstimateRating,
+  getArtefact,
+  getDaughterModes,
+  getEstimateRating,
+  getHalfLifeInYears,
+  getHalfLivesFromSample,
+  SAMPLE_ATOMS,
+  scoreEstimate,
+} from '@/lib/radiometric-dating';
+
+interface RadioactiveDatingGameProps {
+  className?: string;
+}
+
+interface DatingGuess {
+  estimate: number;
+  points: number;
+  rating: EstimateRating;
+}
+
+const YEAR = 365.25 * 24 * 3600;
+const PARENT_COLOR = 'bg-green-500';
+const DAUGHTER_COLORS = ['bg-blue-500', 'bg-amber-500'];
+// Rows of the half-life ruler
+const RULER_HALF_LIVES = [1, 2, 3, 4, 5, 6];
+
+const ratingLabels: Record<EstimateRating, MessageKey> = {
+  'bullseye': 'dating.ratings.bullseye',
+  'good': 'dating.ratings.good',
+  'close': 'dating.ratings.close',
+  'off': 'dating.ratings.off',
+};
+
+const ratingStyles: Record<EstimateRating, string> = {
+  'bullseye': 'bg-green-100 text-green-800',
+  'good': 'bg-blue-100 text-blue-800',
+  'close': 'bg-amber-100 text-amber-800',
+  'off': 'bg-red-100 text-red-800',
+};
+
+// Guess the age of a find from the atoms of its radioactive clock that are
+// still left, then see how the laboratory works it out
+export const RadioactiveDatingGame = ({ className }: RadioactiveDatingGameProps) => {
+  const { t, formatNumber, formatTimeSpan } = useI18n();
+  const [artefactId, setArtefactId] = useState<ArtefactId>('spear');
+  const [sample, setSample] = useState<DatingSample>(() => createDatingSample('spear', randomSeed()));
+  const [estimate, setEstimate] = useState(getArtefact('spear').maxEstimate / 2);
+  const [guess, setGuess] = useState<DatingGuess | null>(null);
+  const [showCounts, setShowCounts] = useState(false);
+  const [totalPoints, setTotalPoints] = useState(0);
+  const [rounds, setRounds] = useState(0);
+
+  const artefact = getArtefact(artefactId);
+  const parent = nuclides[artefact.parent];
+  const halfLife = getHalfLifeInYears(artefact);
+  const daughterModes = getDaughterModes(artefact);
+  const parentCount = sample.atoms.filter(atom => atom === artefact.parent).length;
+
+  const atomColors: Record<string, string> = { [artefact.parent]: PARENT_COLOR };
+  daughterModes.forEach((mode, i) => {
+    atomColors[mode.daughter] = DAUGHTER_COLORS[i % DAUGHTER_COLORS.length];
+  });
+
+  const formatYears = (years: number) => formatTimeSpan(years * YEAR);
+
+  const startRound = (id: ArtefactId) => {
+    setArtefactId(id);
+    setSample(createDatingSample(id, randomSeed()));
+    setEstimate(getArtefact(id).maxEstimate / 2);
+    setGuess(null);
+    setShowCounts(false);
+  };
+
+  const submitEstimate = () => {
+    const points = scoreEstimate(sample.age, estimate);
+    const rating = getEstimateRating(points);
+    setGuess({ estimate, points, rating });
+    setTotalPoints(total => total + points);
+    setRounds(count => count + 1);
+    if (rating === 'bullseye' || rating === 'good') {
+      recordExperiment('isotopes:dating');
+    }
+  };
+
+  const halfLives = getHalfLivesFromSample(sample);
+
+  return (
+    <Card className={cn('p-6 bg-white', className)}>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center">
+              <Hourglass className="h-6 w-6 mr-2 text-amber-600" />
+              {t('dating.title')}
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">{t('dating.description')}</p>
+          </div>
+          <Badge variant="outline" className="shrink-0">
+            {t('dating.score', { points: formatNumber(totalPoints), rounds })}
+          </Badge>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {artefacts.map(option => (
+            <Button
+              key={option.id}
+              variant="outline"
+              size="sm"
+              className={cn(artefactId === option.id && 'bg-amber-50 border-amber-200')}
+              onClick={() => startRound(option.id)}
+            >
+              {t(option.name)}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm mb-3">{t(artefact.story)}</p>
+              <h3 className="font-medium flex items-center mb-1">
+                <Microscope className="h-4 w-4 mr-2 text-gray-600" />
+                {t('dating.sampleTitle')}
+              </h3>
+              <p className="text-xs text-gray-500 mb-3">{t('dating.sampleHint', { parent: parent.symbol })}</p>
+
+              <div className="grid grid-cols-8 gap-1.5 w-fit mx-auto">
+                {sample.atoms.map((atom, i) => (
+                  <div
+                    key={i}
+                    className={cn(
+                      'h-7 w-7 rounded-full flex items-center justify-center text-[10px] font-bold text-white',
+                      atomColors[atom]
+                    )}
+                  >
+                    {getNuclide(atom)?.elementSymbol}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 justify-center text-xs mt-3">
+                <span className="flex items-center">
+                  <span className={cn('h-3 w-3 rounded-full mr-1', PARENT_COLOR)} />
+                  {parent.symbol}: {t('dating.notDecayed')}
+                </span>
+                {daughterModes.map(mode => (
+                  <span key={mode.daughter} className="flex items-center">
+                    <span className={cn('h-3 w-3 rounded-full mr-1', atomColors[mode.daughter])} />
+                    {getNuclide(mode.daughter)?.symbol}: {t('dating.decayed')}
+                  </span>
+                ))}
+              </div>
+
+              <div className="mt-3 text-center">
+                <Button variant="ghost" size="sm" onClick={() => setShowCounts(shown => !shown)}>
+                  {showCounts ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+                  {showCounts ? t('dating.hideCounts') : t('dating.showCounts')}
+                </Button>
+                {showCounts && (
+                  <p className="text-sm font-medium">
+                    {t('dating.counts', { parents: parentCount, total: SAMPLE_ATOMS, parent: parent.symbol })}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="bg-gray-50 rounded-lg p-4 text-sm">
+              <h3 className="font-medium mb-1">{t('dating.rulerTitle')}</h3>
+              <p className="text-gray-600 mb-2">
+                {t('dating.halfLife', { parent: parent.symbol, halfLife: formatYears(halfLife) })}
+              </p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {RULER_HALF_LIVES.map(count => (
+                  <React.Fragment key={count}>
+                    <span className="text-gray-600">
+                      {t('dating.rulerRow', { halfLives: count, age: formatYears(count * halfLife) })}
+                    </span>
+                    <span className="text-right">
+                      {t('dating.rulerLeft', { left: SAMPLE_ATOMS / 2 ** count, total: SAMPLE_ATOMS })}
+                    </span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="flex justify-between mb-2">
+                <span>{t('dating.estimate')}</span>
+                <span className="font-bold">{formatYears(estimate)}</span>
+              </div>
+              <Slider
+                value={[estimate]}
+                onValueChange={values => setEstimate(values[0])}
+                min={artefact.estimateStep}
+                max={artefact.maxEstimate}
+                step={artefact.estimateStep}
+                disabled={guess !== null}
+              />
+              {guess === null ? (
+                <Button className="w-full mt-4" onClick={submitEstimate}>
+                  <Hourglass className="h-4 w-4 mr-2" />
+                  {t('dating.submit')}
+                </Button>
+              ) : (
+                <Button className="w-full mt-4" variant="outline" onClick={() => startRound(artefactId)}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  {t('dating.next')}
+                </Button>
+              )}
+            </div>
+
+            {guess !== null && (
+              <div className="bg-blue-50 rounded-lg p-4 text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <Badge className={cn('border-transparent', ratingStyles[guess.rating])}>
+                    {t(ratingLabels[guess.rating])}
+                  </Badge>
+                  <span className="font-bold">{t('dating.points', { points: guess.points })}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-1">
+                  <span className="text-gray-600">{t('dating.trueAge')}</span>
+                  <span className="text-right font-bold">{formatYears(sample.age)}</span>
+                  <span className="text-gray-600">{t('dating.estimate')}</span>
+                  <span className="text-right">{formatYears(guess.estimate)}</span>
+                </div>
+                <p>
+                  {t('dating.calculation', {
+                    left: parentCount,
+                    total: SAMPLE_ATOMS,
+                    halfLives: formatNumber(halfLives, 2),
+                    age: formatYears(halfLives * halfLife),
+                  })}
+                </p>
+                <p className="text-gray-700">{t(artefact.method)}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default RadioactiveDatingGame;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { BellOff, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  AlarmId,
+  alarmIds,
+  alarmLabels,
+  AlarmState,
+  AlarmStates,
+  ProtectionEvent,
+} from '@/lib/reactor-protection';
+
+interface ReactorAnnunciatorProps {
+  alarms: AlarmStates;
+  events: ProtectionEvent[];
+  isScrammed: boolean;
+  // The trip can only be reset once every rod is back in the core
+  canResetTrip: boolean;
+  onAcknowledge: (id: AlarmId) => void;
+  onAcknowledgeAll: () => void;
+  onResetTrip: () => void;
+  className?: string;
+}
+
+const alarmStyles: Record<AlarmState, string> = {
+  'normal': 'bg-gray-100 text-gray-400 border-gray-200',
+  'alerting': 'bg-red-500 text-white border-red-600 animate-pulse',
+  'acknowledged': 'bg-red-500 text-white border-red-600',
+  'cleared': 'bg-amber-100 text-amber-700 border-amber-300 animate-pulse',
+};
+
+// Alarm tiles as on a control room panel, with the log of every trip below
+export const ReactorAnnunciator = ({
+  alarms,
+  events,
+  isScrammed,
+  canResetTrip,
+  onAcknowledge,
+  onAcknowledgeAll,
+  onResetTrip,
+  className,
+}: ReactorAnnunciatorProps) => {
+  const { t, formatNumber, formatTemperature, formatTime } = useI18n();
+  const hasUnacknowledged = alarmIds.some(id => alarms[id] === 'alerting' || alarms[id] === 'cleared');
+
+  const getEventLabel = (event: ProtectionEvent) => {
+    switch (event.type) {
+      case 'trip': {
+        const value = event.parameter === 'temperature'
+          ? formatTemperature(event.value)
+          : event.parameter === 'power-rate'
+            ? t('reactor.protection.perSecond', { value: formatNumber(event.value) })
+            : t('reactor.protection.percent', { value: formatNumber(event.value) });
+        return t('reactor.protection.log.trip', { alarm: t(alarmLabels[event.parameter]), value });
+      }
+      case 'manual-scram': return t('reactor.protection.log.manualScram');
+      case 'emergency-drain': return t('reactor.protection.log.emergencyDrain');
+      case 'reset': return t('reactor.protection.log.reset');
+      default: return '';
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-2 text-xs', className)}>
+      <div className="grid grid-cols-2 gap-1">
+        {alarmIds.map(id => (
+          <button
+            key={id}
+            type="button"
+            className={cn('rounded border px-1 py-2 font-bold uppercase leading-tight', alarmStyles[alarms[id]])}
+            onClick={() => onAcknowledge(id)}
+          >
+            {t(alarmLabels[id])}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" className="flex-1 h-7 px-1 text-xs" onClick={onAcknowledgeAll} disabled={!hasUnacknowledged}>
+          <BellOff className="h-3 w-3 mr-1" />
+          {t('reactor.protection.acknowledge')}
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1 h-7 px-1 text-xs" onClick={onResetTrip} disabled={!isScrammed || !canResetTrip}>
+          <RotateCcw className="h-3 w-3 mr-1" />
+          {t('reactor.protection.resetTrip')}
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0 rounded border border-gray-200 bg-gray-50 p-2">
+        <div className="font-medium text-gray-600 mb-1">{t('reactor.protection.log.title')}</div>
+        {events.length === 0 ? (
+          <p className="text-gray-400">{t('reactor.protection.log.empty')}</p>
+        ) : (
+          <ul className="max-h-28 overflow-y-auto space-y-1">
+            {events.map(event => (
+              <li key={event.id} className={cn(event.type === 'reset' ? 'text-gray-500' : 'text-red-700')}>
+                <span className="font-mono mr-1">{formatTime(event.time)}</span>
+                {getEventLabel(event)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReactorAnnunciator;
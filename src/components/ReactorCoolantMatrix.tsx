@@ -0,0 +1,125 @@
+import React from 'react';
+import { Check, CircleSlash, Info, TriangleAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import type { CoolantType } from '@/lib/reactor-kinetics';
+import {
+  compatibilityLabels,
+  coolantCompatibility,
+  CoolantCompatibility,
+  getCoolantPairing,
+  ReactorType,
+} from '@/lib/coolant-compatibility';
+
+interface ReactorCoolantMatrixProps {
+  reactorType: ReactorType;
+  coolantType: CoolantType;
+  className?: string;
+}
+
+const reactorLabels: Record<ReactorType, MessageKey> = {
+  'pressurized-water': 'reactor.types.pressurizedWater',
+  'fast-breeder': 'reactor.types.fastBreeder',
+  'thorium-msr': 'reactor.types.thoriumMsr',
+  'fusion': 'reactor.types.fusion',
+};
+
+const coolantLabels: Record<CoolantType, MessageKey> = {
+  'water': 'reactor.coolants.water',
+  'sodium': 'reactor.coolants.sodium',
+  'helium': 'reactor.coolants.helium',
+  'molten-salt': 'reactor.coolants.moltenSalt',
+};
+
+const compatibilityStyles: Record<CoolantCompatibility, string> = {
+  'ideal': 'bg-green-100 text-green-700 border-green-200',
+  'possible': 'bg-blue-50 text-blue-700 border-blue-200',
+  'risky': 'bg-orange-100 text-orange-700 border-orange-200',
+  'impossible': 'bg-gray-100 text-gray-400 border-gray-200',
+};
+
+const compatibilityIcons: Record<CoolantCompatibility, React.ElementType> = {
+  'ideal': Check,
+  'possible': Info,
+  'risky': TriangleAlert,
+  'impossible': CircleSlash,
+};
+
+// Which coolant goes with which reactor, with the reason for the chosen pairing
+export const ReactorCoolantMatrix = ({ reactorType, coolantType, className }: ReactorCoolantMatrixProps) => {
+  const { t, formatTemperature } = useI18n();
+  const current = getCoolantPairing(reactorType, coolantType);
+  const CurrentIcon = compatibilityIcons[current.compatibility];
+  const coolants = Object.keys(coolantLabels) as CoolantType[];
+
+  return (
+    <div className={cn('space-y-3 text-sm', className)}>
+      <div className={cn('rounded-lg border p-3', compatibilityStyles[current.compatibility])}>
+        <div className="flex items-center font-medium mb-1">
+          <CurrentIcon className="h-4 w-4 mr-2 shrink-0" />
+          {t(compatibilityLabels[current.compatibility])}
+        </div>
+        <p>{t(current.explanation)}</p>
+        {current.freezingPoint !== undefined && (
+          <p className="mt-1 text-xs">
+            {t('reactor.compatibility.freezes', { temperature: formatTemperature(current.freezingPoint) })}
+          </p>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-gray-200 p-3">
+        <h3 className="font-medium mb-2">{t('reactor.compatibility.title')}</h3>
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              <th />
+              {coolants.map(coolant => (
+                <th key={coolant} className="font-medium text-gray-600 px-1 pb-1">{t(coolantLabels[coolant])}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(coolantCompatibility) as ReactorType[]).map(reactor => (
+              <tr key={reactor}>
+                <th className="text-left font-medium text-gray-600 pr-2 py-1">{t(reactorLabels[reactor])}</th>
+                {coolants.map(coolant => {
+                  const { compatibility } = coolantCompatibility[reactor][coolant];
+                  const Icon = compatibilityIcons[compatibility];
+                  const isCurrent = reactor === reactorType && coolant === coolantType;
+                  return (
+                    <td key={coolant} className="px-1 py-1">
+                      <div
+                        className={cn(
+                          'flex justify-center rounded border py-1',
+                          compatibilityStyles[compatibility],
+                          isCurrent && 'ring-2 ring-primary'
+                        )}
+                        title={t(compatibilityLabels[compatibility])}
+                      >
+                        <Icon className="h-3 w-3" />
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+          {(Object.keys(compatibilityLabels) as CoolantCompatibility[]).map(level => {
+            const Icon = compatibilityIcons[level];
+            return (
+              <span key={level} className="flex items-center">
+                <Icon className="h-3 w-3 mr-1" />
+                {t(compatibilityLabels[level])}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReactorCoolantMatrix;
@@ -0,0 +1,164 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Activity, AlertTriangle, Fuel } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  CoolantType,
+  FissionReactorType,
+  getStartupBlocker,
+  getStartupReactivity,
+  getThermalPower,
+  getTotalBeta,
+  ReactorCoreState,
+  reactorKineticsParameters,
+} from '@/lib/reactor-kinetics';
+
+interface ReactorKineticsPanelProps {
+  reactorType: FissionReactorType;
+  coolantType: CoolantType;
+  core: ReactorCoreState | null;
+  // e-folding time of the power in seconds, Infinity when it is not growing
+  reactorPeriod: number;
+  controlRodLevel: number;
+  // Fresh fuel can only be loaded while the reactor is shut down
+  canRefuel: boolean;
+  onRefuel: () => void;
+  className?: string;
+}
+
+// Readout of the point-kinetics model: where the reactivity comes from and
+// how fast the power changes
+export const ReactorKineticsPanel = ({ reactorType, coolantType, core, reactorPeriod, controlRodLevel, canRefuel, onRefuel, className }: ReactorKineticsPanelProps) => {
+  const { t, formatNumber } = useI18n();
+  const params = reactorKineticsParameters[reactorType];
+  const beta = getTotalBeta(reactorType) * 100000; // pcm
+  const reactivity = core?.reactivity;
+  const dollars = reactivity ? reactivity.total / beta : 0;
+  const isPromptCritical = dollars >= 1;
+  const startup = core ? getStartupReactivity(reactorType, core, coolantType) : null;
+  const cannotStart = startup ? startup.total < 0 : false;
+
+  const contributions = reactivity
+    ? [
+        { label: t('reactor.kinetics.fromRods'), value: reactivity.rods },
+        { label: t('reactor.kinetics.fromTemperature'), value: reactivity.temperature },
+        { label: t('reactor.kinetics.fromVoid'), value: reactivity.void },
+        { label: t('reactor.kinetics.fromXenon'), value: reactivity.xenon },
+        { label: t('reactor.kinetics.fromBurnup'), value: reactivity.burnup },
+        ...(reactivity.coolant !== 0 ? [{ label: t('reactor.kinetics.fromCoolant'), value: reactivity.coolant }] : []),
+      ]
+    : [];
+  const startupBlocker = startup && getStartupBlocker(startup);
+
+  const getTrend = () => {
+    if (!core) return t('reactor.kinetics.trendIdle');
+    if (Number.isFinite(reactorPeriod)) {
+      return t('reactor.kinetics.trendRising', { seconds: formatNumber(reactorPeriod * Math.LN2, 1) });
+    }
+    return dollars < -0.05 ? t('reactor.kinetics.trendFalling') : t('reactor.kinetics.trendSteady');
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-3', className)}>
+      <div className="flex items-center">
+        <Activity className="h-5 w-5 mr-2 text-blue-500" />
+        <h3 className="font-medium">{t('reactor.kinetics.title')}</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <span className="text-gray-600">{t('reactor.kinetics.thermalPower')}</span>
+        <span className="font-bold text-right">{formatNumber(core ? getThermalPower(core) : 0)} MW</span>
+        <span className="text-gray-600">{t('reactor.kinetics.rods')}</span>
+        <span className="font-bold text-right">
+          {formatNumber(core ? core.rodPosition : 100)}% → {controlRodLevel}%
+        </span>
+        <span className="text-gray-600">{t('reactor.kinetics.reactivity')}</span>
+        <span
+          className={cn(
+            'font-bold text-right',
+            isPromptCritical ? 'text-red-600' : dollars > 0.05 ? 'text-orange-500' : dollars < -0.05 ? 'text-blue-600' : 'text-green-600'
+          )}
+        >
+          {formatNumber(dollars, 2)} $
+        </span>
+      </div>
+
+      <p className="text-gray-600">{getTrend()}</p>
+
+      {contributions.length > 0 && (
+        <div className="space-y-1">
+          {contributions.map(({ label, value }) => (
+            <div key={label} className="flex items-center gap-2">
+              <span className="w-28 text-xs text-gray-600">{label}</span>
+              <Progress value={Math.min(100, (Math.abs(value) / params.rodWorth) * 100)} className="h-2 flex-1" />
+              <span className={cn('w-20 text-right text-xs', value > 0 ? 'text-orange-600' : 'text-blue-600')}>
+                {value > 0 ? '+' : ''}{formatNumber(value)} pcm
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isPromptCritical && (
+        <div className="flex items-center text-red-600">
+          <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+          <span>{t('reactor.kinetics.promptCritical')}</span>
+        </div>
+      )}
+
+      {cannotStart && (
+        <div className="flex items-center text-orange-600">
+          <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+          <span>
+            {startupBlocker === 'coolant'
+              ? t('reactor.kinetics.noModeration')
+              : startupBlocker === 'xenon'
+                ? t('reactor.kinetics.xenonPit')
+                : t('reactor.kinetics.fuelSpent')}
+          </span>
+        </div>
+      )}
+
+      <div className="border-t border-gray-100 pt-3 space-y-2">
+        <div className="flex items-center">
+          <Fuel className="h-4 w-4 mr-2 text-amber-600" />
+          <h4 className="font-medium">{t('reactor.kinetics.fuelTitle')}</h4>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <span className="text-gray-600">{t('reactor.kinetics.fissileLeft', { fuel: params.fuel })}</span>
+          <span className="font-bold text-right">
+            {formatNumber(core ? (core.fuel.fissile / params.fissileLoad) * 100 : 100, 1)} %
+          </span>
+          <span className="text-gray-600">{t('reactor.kinetics.burnup')}</span>
+          <span className="font-bold text-right">{formatNumber(core ? core.fuel.burnup : 0, 2)} MWd/kg</span>
+          {params.bredFuel && (
+            <>
+              <span className="text-gray-600">
+                {params.bredFuel === 'plutonium239'
+                  ? t('reactor.kinetics.bredPlutonium')
+                  : t('reactor.kinetics.bredUranium')}
+              </span>
+              <span className="font-bold text-right">{formatNumber(core ? core.fuel.bred : 0, 2)} kg</span>
+            </>
+          )}
+        </div>
+        <Button variant="outline" size="sm" className="w-full" onClick={onRefuel} disabled={!canRefuel || !core}>
+          {t('reactor.kinetics.refuel')}
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {t('reactor.kinetics.delayedNeutrons', { fuel: params.fuel, percent: formatNumber(beta / 1000, 2) })}
+      </p>
+      <p className="text-xs text-gray-500">
+        {params.voidCoefficient > 0
+          ? t('reactor.kinetics.positiveVoid')
+          : t('reactor.kinetics.negativeFeedback')}
+      </p>
+    </div>
+  );
+};
+
+export default ReactorKineticsPanel;
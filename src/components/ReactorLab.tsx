@@ -1,34 +1,125 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Thermometer, Droplets, Zap, Fan, Atom, AlertTriangle, Beaker } from 'lucide-react';
+import { Thermometer, Droplets, Zap, Fan, Atom, AlertTriangle, Beaker, OctagonX } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { reportAchievementEvent } from '@/lib/achievements';
+import { recordExperiment } from '@/lib/knowledge';
+import {
+  AMBIENT_TEMPERATURE,
+  BredFuel,
+  CoolantType,
+  createFreshFuel,
+  createReactorCore,
+  createSteadyCore,
+  FissionReactorType,
+  getReactorPeriod,
+  getStartupBlocker,
+  getStartupReactivity,
+  getThermalPower,
+  getTotalBeta,
+  ReactorCoreState,
+  reactorKineticsParameters,
+  stepReactorCore,
+} from '@/lib/reactor-kinetics';
+import {
+  getEventsAt,
+  getScenario,
+  getScenarioConditions,
+  gradeScenario,
+  OperatorActionType,
+  recordOperatorAction,
+  ScenarioDebrief,
+  ScenarioEvent,
+  ScenarioId,
+  ScenarioRun,
+  ScenarioSnapshot,
+} from '@/lib/reactor-scenarios';
+import {
+  acknowledgeAlarm,
+  acknowledgeAlarms,
+  AlarmId,
+  alarmLabels,
+  appendProtectionEvent,
+  defaultTripSetpoints,
+  getTrippedParameters,
+  getTripValue,
+  normalAlarms,
+  ProtectionEvent,
+  TripParameter,
+  TripSetpoints,
+  updateAlarms,
+} from '@/lib/reactor-protection';
+import { createTrendBuffer, getTrendSamples, pushTrendSample, TrendSample } from '@/lib/reactor-trends';
+import {
+  createSteamCycle,
+  getPlantEfficiency,
+  getTurbineEfficiency,
+  SteamCycleState,
+  stepSteamCycle,
+} from '@/lib/steam-cycle';
+import { canCombine, compatibilityLabels, getCoolantPairing, ReactorType } from '@/lib/coolant-compatibility';
+import {
+  createPlasma,
+  disruptPlasma,
+  getDisruptionRisk,
+  getPowerBalance,
+  keVToKelvin,
+  Plasma,
+  stepPlasma,
+} from '@/lib/fusion-plasma';
 import ReactorVisualizer from './ReactorVisualizer';
+import ReactorAnnunciator from './ReactorAnnunciator';
+import ReactorTripSettings from './ReactorTripSettings';
+import ReactorTrendCharts from './ReactorTrendCharts';
+import ReactorSteamCycle from './ReactorSteamCycle';
+import ReactorCoolantMatrix from './ReactorCoolantMatrix';
+import ReactorKineticsPanel from './ReactorKineticsPanel';
+import FusionPlasmaPanel from './FusionPlasmaPanel';
+import ReactorScenarioPanel from './ReactorScenarioPanel';
 
 interface ReactorLabProps {
   energy: number;
   onEnergyProduced: (amount: number) => void;
+  // Kilograms of fuel bred in the reactor, handed over to the material inventory
+  onFuelBred?: (fuel: BredFuel, amount: number) => void;
   className?: string;
 }
 
-type ReactorType = 'pressurized-water' | 'fast-breeder' | 'fusion' | 'thorium-msr';
-type CoolantType = 'water' | 'sodium' | 'helium' | 'molten-salt';
-
 const MAX_TEMPERATURE = 2000; // degrees C
 const MELTDOWN_TEMPERATURE = 1800; // degrees C
+// Heat the blanket coolant carries away per percent of flow and degree above
+// the inlet, MW/°C
+const FUSION_COOLING: Record<CoolantType, number> = {
+  'water': 0.08,
+  'sodium': 0.12,
+  'helium': 0.05,
+  'molten-salt': 0.1,
+};
+// The plant's tokamak: its field and fuel density are fixed, the rod slider sets the heating
+const FUSION_MAGNETIC_FIELD = 5.3; // T
+const FUSION_DENSITY = 1; // 10^20 per m³
+const FUSION_MAX_HEATING = 60; // MW
+// Heat the blanket around the plasma takes to warm by one degree, MJ/°C
+const BLANKET_HEAT_CAPACITY = 50;
+// The molten salt cannot melt down, but the pipes give up a little later
+const getMeltdownTemperature = (type: ReactorType) =>
+  type === 'thorium-msr' ? MELTDOWN_TEMPERATURE * 1.1 : MELTDOWN_TEMPERATURE;
+const ENERGY_PER_MEGAWATT = 1 / 800; // Scale down for game balance
 const OPTIMAL_TEMPERATURE = {
   'pressurized-water': 330, // degrees C
   'fast-breeder': 550, // degrees C
-  'fusion': 150000000, // degrees C (fusion plasma)
+  'fusion': 600, // degrees C (blanket around the plasma)
   'thorium-msr': 700, // degrees C (molten salt)
 };
 
-const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, className }) => {
+const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, onFuelBred, className }) => {
   const [reactorType, setReactorType] = useState<ReactorType>('pressurized-water');
   const [coolantType, setCoolantType] = useState<CoolantType>('water');
   const [controlRodLevel, setControlRodLevel] = useState<number>(50);
@@ -41,39 +132,115 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
   const [warningLevel, setWarningLevel] = useState<'none' | 'low' | 'medium' | 'high'>('none');
   const [showSafetyFeature, setShowSafetyFeature] = useState<boolean>(false);
   const [emergencyDrainActive, setEmergencyDrainActive] = useState<boolean>(false);
+  const [core, setCore] = useState<ReactorCoreState | null>(null);
+  const [reactorPeriod, setReactorPeriod] = useState<number>(Infinity);
+  const [scenarioRun, setScenarioRun] = useState<ScenarioRun | null>(null);
+  const [scenarioDebrief, setScenarioDebrief] = useState<ScenarioDebrief | null>(null);
+  const [isScrammed, setIsScrammed] = useState<boolean>(false);
+  const [tripSetpoints, setTripSetpoints] = useState<TripSetpoints>(defaultTripSetpoints['pressurized-water']);
+  const [alarms, setAlarms] = useState(normalAlarms);
+  const [protectionLog, setProtectionLog] = useState<ProtectionEvent[]>([]);
+  const trendBuffer = useRef(createTrendBuffer());
+  const [trendSamples, setTrendSamples] = useState<TrendSample[]>([]);
+  const [steamCycle, setSteamCycle] = useState<SteamCycleState>(() => createSteamCycle('pressurized-water'));
+  const [fusionPlasma, setFusionPlasma] = useState<Plasma>(() =>
+    createPlasma({ density: FUSION_DENSITY, magneticField: FUSION_MAGNETIC_FIELD, heatingPower: 0 })
+  );
   const { toast } = useToast();
+  const { t, formatNumber, formatTemperature } = useI18n();
 
   // Effects for reactor simulation
   useEffect(() => {
-    if (!isRunning) return;
+    // A shut-down core keeps ticking so the xenon can build up and decay again
+    if (!isRunning && (reactorType === 'fusion' || !core || !isStable)) return;
 
     const interval = setInterval(() => {
-      // Calculate heat generation based on reactor type and control rod level
-      let heatGeneration = 0;
-      
-      if (reactorType === 'pressurized-water') {
-        heatGeneration = (100 - controlRodLevel) * 10; // Max 1000 heat units
-      } else if (reactorType === 'fast-breeder') {
-        heatGeneration = (100 - controlRodLevel) * 15; // Max 1500 heat units
-      } else if (reactorType === 'fusion') {
-        // Fusion is harder to start but produces more energy
-        if (temperature < 100000000) {
-          heatGeneration = (100 - controlRodLevel) * 100000; // Initial plasma heating
-        } else {
-          heatGeneration = (100 - controlRodLevel) * 30; // Max 3000 heat units when plasma is hot
-        }
-      } else if (reactorType === 'thorium-msr') {
-        // Thorium MSR heat generation - increases with temperature up to a point, then decreases (passive safety)
-        const normalizedTemp = Math.min(1, temperature / 900); // Peak efficiency around 900°C
-        const safetyFactor = temperature > 900 ? Math.max(0.1, 1 - (temperature - 900) / 500) : 1;
-        heatGeneration = (100 - controlRodLevel) * 12 * normalizedTemp * safetyFactor;
-        
-        // Safety feature for thorium MSR - as temperature rises beyond optimal, reaction slows down
-        if (temperature > 900 && !showSafetyFeature && Math.random() > 0.8) {
+      if (reactorType === 'fusion') {
+        stepFusionReactor();
+        return;
+      }
+      if (!core) return;
+
+      const rods = isRunning ? controlRodLevel : 100;
+      // A failed pump in a scenario caps the flow whatever the slider says
+      const flow = scenarioRun
+        ? Math.min(coolantFlow, getScenarioConditions(scenarioRun.scenario, scenarioRun.time).maxFlow)
+        : coolantFlow;
+      const nextCore = stepReactorCore(reactorType, core, { controlRodLevel: rods, coolantFlow: flow, coolantType, scram: isScrammed }, 1);
+      setCore(nextCore);
+      setReactorPeriod(getReactorPeriod(core, nextCore, 1));
+      setTemperature(nextCore.temperature);
+
+      // The generator is only connected while the reactor runs; the turbine
+      // spins down once the steam stops
+      const nextSteamCycle = stepSteamCycle(
+        reactorType,
+        steamCycle,
+        isRunning ? getSteamGeneratorHeat(nextCore) : 0,
+        nextCore.temperature,
+        1
+      );
+      setSteamCycle(nextSteamCycle);
+      recordTrendSample({
+        temperature: nextCore.temperature,
+        thermalPower: getThermalPower(nextCore),
+        electricPower: nextSteamCycle.flows.electric,
+        demand: nextSteamCycle.flows.demand,
+        efficiency: getPlantEfficiency(nextSteamCycle.flows) * 100,
+        rodPosition: nextCore.rodPosition,
+        coolantFlow: flow,
+        reactivity: nextCore.reactivity.total / (getTotalBeta(reactorType) * 100000),
+      });
+
+      if (scenarioRun) {
+        const time = scenarioRun.time + 1;
+        const snapshot: ScenarioSnapshot = {
+          time,
+          temperature: nextCore.temperature,
+          power: getThermalPower(nextCore),
+          rodLevel: rods,
+          coolantFlow: flow,
+          reactivity: nextCore.reactivity.total / (getTotalBeta(reactorType) * 100000),
+          isRunning,
+          isMelted: nextCore.temperature >= getMeltdownTemperature(reactorType),
+        };
+        setScenarioRun(prev => prev && { ...prev, time, snapshots: [...prev.snapshots, snapshot] });
+        getEventsAt(scenarioRun.scenario, time).forEach(announceScenarioEvent);
+      }
+
+      const { bredFuel } = reactorKineticsParameters[reactorType];
+      const bred = nextCore.fuel.bred - core.fuel.bred;
+      if (bredFuel && bred > 0) {
+        onFuelBred?.(bredFuel, bred);
+      }
+
+      // Reactor protection: every exceeded setpoint raises its alarm, and while
+      // the reactor runs the first one trips it
+      const reading = {
+        temperature: nextCore.temperature,
+        powerRate: (nextCore.power - core.power) * 100,
+        coolantFlow: flow,
+        isRunning,
+      };
+      const tripped = getTrippedParameters(tripSetpoints, reading);
+      const willTrip = isRunning && tripped.length > 0 && scenarioRun?.scenario.setup.automaticTrips !== false;
+      const activeAlarms: AlarmId[] = isScrammed || willTrip ? [...tripped, 'reactor-trip'] : tripped;
+      setAlarms(prev => updateAlarms(prev, activeAlarms));
+      if (willTrip) {
+        tripReactor(tripped[0], getTripValue(tripped[0], reading));
+        return;
+      }
+
+      if (!isRunning || checkSodiumWaterLeak()) return;
+
+      if (reactorType === 'thorium-msr') {
+        // The salt expands as it heats up and pushes fuel out of the core, so the
+        // chain reaction slows down by itself
+        if (nextCore.temperature > 900 && !showSafetyFeature && Math.random() > 0.8) {
           setShowSafetyFeature(true);
           toast({
-            title: "Tolle Sicherheit!",
-            description: "Der Thoriumreaktor verlangsamt die Reaktion automatisch, wenn er zu heiß wird!",
+            title: t('reactor.passiveSafety.title'),
+            description: t('reactor.passiveSafety.description'),
           });
           
           // Hide safety message after a while
@@ -83,11 +250,12 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
         }
         
         // Emergency drain for MSR - if temperature gets dangerously high
-        if (temperature > 1400 && !emergencyDrainActive) {
+        if (nextCore.temperature > 1400 && !emergencyDrainActive) {
           setEmergencyDrainActive(true);
+          setProtectionLog(prev => appendProtectionEvent(prev, { type: 'emergency-drain' }));
           toast({
-            title: "Notablauf aktiviert!",
-            description: "Das heiße Salz fließt in den Sicherheitsbehälter und stoppt die Reaktion!",
+            title: t('reactor.emergencyDrain.title'),
+            description: t('reactor.emergencyDrain.description'),
             variant: "default",
           });
           
@@ -95,59 +263,115 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
           setTimeout(() => {
             setIsRunning(false);
             setEmergencyDrainActive(false);
-            setTemperature(prev => Math.max(400, prev - 400)); // Cool down but still hot
+            setCore(prev => prev && { ...prev, temperature: Math.max(400, prev.temperature - 400) }); // Cool down but still hot
           }, 2000);
         }
       }
 
-      // Calculate cooling effect based on coolant type and flow
-      let coolingEffect = 0;
-      
-      if (coolantType === 'water') {
-        coolingEffect = coolantFlow * 8; // Max 800 cooling units
-      } else if (coolantType === 'sodium') {
-        coolingEffect = coolantFlow * 12; // Max 1200 cooling units
-      } else if (coolantType === 'helium') {
-        coolingEffect = coolantFlow * 5; // Max 500 cooling units
-      } else if (coolantType === 'molten-salt') {
-        coolingEffect = coolantFlow * 10; // Max 1000 cooling units
-      }
-
-      // Calculate new temperature
-      const temperatureChange = heatGeneration - coolingEffect;
-      const newTemperature = Math.max(25, Math.min(MAX_TEMPERATURE, temperature + temperatureChange / 10));
-      setTemperature(newTemperature);
-
       // Check for stability and meltdown
-      checkReactorStability(newTemperature);
+      checkReactorStability(nextCore.temperature);
 
-      // Calculate energy output based on temperature and reactor type
-      calculateEnergyOutput(newTemperature);
+      // Electricity from the fission heat, paid for as far as the city takes it
+      calculateEnergyOutput(nextSteamCycle);
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isRunning, reactorType, coolantType, controlRodLevel, coolantFlow, temperature, showSafetyFeature, emergencyDrainActive]);
+  }, [isRunning, isStable, reactorType, coolantType, controlRodLevel, coolantFlow, temperature, core, showSafetyFeature, emergencyDrainActive, scenarioRun, isScrammed, tripSetpoints, steamCycle, fusionPlasma]);
+
+  // Without the reactor running the plasma is gone; the next start begins with a cold one
+  useEffect(() => {
+    if (!isRunning) setFusionPlasma(prev => createPlasma(prev));
+  }, [isRunning]);
+
+  // The debrief comes when the time is up or the core has melted
+  useEffect(() => {
+    if (!scenarioRun) return;
+    const lastSnapshot = scenarioRun.snapshots[scenarioRun.snapshots.length - 1];
+    if (scenarioRun.time >= scenarioRun.scenario.duration || lastSnapshot?.isMelted) {
+      setScenarioDebrief(gradeScenario(scenarioRun));
+      setScenarioRun(null);
+    }
+  }, [scenarioRun]);
+
+  // The fusion reactor has no chain reaction: the heating, set with the rod
+  // slider, brings the plasma to burn (see fusion-plasma), and the fusion
+  // neutrons heat the blanket whose coolant drives the turbine
+  const stepFusionReactor = () => {
+    if (checkSodiumWaterLeak()) return;
+    const heatingPower = ((100 - controlRodLevel) / 100) * FUSION_MAX_HEATING;
+    let nextPlasma = stepPlasma({ ...fusionPlasma, heatingPower }, 1);
+    if (Math.random() < getDisruptionRisk(nextPlasma)) {
+      nextPlasma = disruptPlasma(nextPlasma);
+      toast({
+        title: t('fusionPlasma.disruption.title'),
+        description: t('fusionPlasma.disruption.description'),
+        variant: "destructive",
+      });
+    }
+    setFusionPlasma(nextPlasma);
+
+    // Whatever the plasma gives off ends up in the blanket, the heating included
+    const thermalPower = getPowerBalance(nextPlasma).fusion + heatingPower;
+    const heatRemoved = coolantFlow * FUSION_COOLING[coolantType] * getCoolantPairing('fusion', coolantType).heatTransfer
+      * Math.max(0, temperature - AMBIENT_TEMPERATURE);
+    const newTemperature = Math.max(AMBIENT_TEMPERATURE, temperature + (thermalPower - heatRemoved) / BLANKET_HEAT_CAPACITY);
+    setTemperature(newTemperature);
+    checkReactorStability(newTemperature);
+
+    // The heating is paid for from the plant's own output, so only a plasma
+    // with a good Q delivers electricity
+    const output = Math.max(0, heatRemoved * getTurbineEfficiency(newTemperature) - heatingPower);
+    const eff = thermalPower > 0 ? output / thermalPower : 0;
+    setEfficiency(eff * 100);
+    setEnergyOutput(output);
+    onEnergyProduced(output * ENERGY_PER_MEGAWATT);
+    recordTrendSample({
+      temperature: newTemperature,
+      thermalPower,
+      electricPower: output,
+      demand: null,
+      efficiency: eff * 100,
+      rodPosition: null,
+      coolantFlow,
+      reactivity: null,
+    });
+  };
+
+  // Sodium burns on contact with water: a leak in the steam generator ends the run
+  const checkSodiumWaterLeak = () => {
+    const risk = getCoolantPairing(reactorType, coolantType).sodiumWaterRisk ?? 0;
+    if (Math.random() >= risk) return false;
+    setIsRunning(false);
+    setEnergyOutput(0);
+    setEfficiency(0);
+    toast({
+      title: t('reactor.compatibility.sodiumFire.title'),
+      description: t('reactor.compatibility.sodiumFire.description'),
+      variant: "destructive",
+    });
+    return true;
+  };
 
   // Check reactor stability based on temperature
   const checkReactorStability = (temp: number) => {
     // Thorium MSR can't have a traditional meltdown, but can still overheat
-    const meltdownThreshold = reactorType === 'thorium-msr' ? MELTDOWN_TEMPERATURE * 1.1 : MELTDOWN_TEMPERATURE;
-    
-    if (temp >= meltdownThreshold) {
+    if (temp >= getMeltdownTemperature(reactorType)) {
       setIsStable(false);
       setIsRunning(false);
+      reportAchievementEvent('reactor-meltdown');
+      recordExperiment('cooling:meltdown');
       
       // Different messages for different reactor types
       if (reactorType === 'thorium-msr') {
         toast({
-          title: "Reaktor überhitzt!",
-          description: "Das Flüssigsalz ist zu heiß geworden und hat die Rohre beschädigt. Der Reaktor wurde gestoppt.",
+          title: t('reactor.overheated.title'),
+          description: t('reactor.overheated.description'),
           variant: "destructive",
         });
       } else {
         toast({
-          title: "Reaktor Kernschmelze!",
-          description: "Die Temperatur ist zu hoch gestiegen. Der Reaktor ist geschmolzen!",
+          title: t('reactor.meltdown.title'),
+          description: t('reactor.meltdown.description'),
           variant: "destructive",
         });
       }
@@ -172,121 +396,283 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
     setIsStable(true);
   };
 
-  // Calculate energy output based on temperature and reactor type
-  const calculateEnergyOutput = (temp: number) => {
-    let output = 0;
-    let eff = 0;
-    const optimalTemp = OPTIMAL_TEMPERATURE[reactorType];
+  // Heat of the chain reaction that reaches the steam generator
+  const getSteamGeneratorHeat = (nextCore: ReactorCoreState) => {
+    const heat = getThermalPower(nextCore);
+    // Emergency drain causes output to drop
+    return emergencyDrainActive ? heat * 0.3 : heat;
+  };
 
-    if (reactorType === 'pressurized-water') {
-      // PWR efficiency peaks around optimal temperature
-      const tempRatio = Math.min(1, temp / optimalTemp);
-      eff = tempRatio * (1 - Math.abs(temp - optimalTemp) / optimalTemp) * 0.35; // Max 35% efficiency
-      output = eff * temp * 0.5;
-    } else if (reactorType === 'fast-breeder') {
-      // Fast breeder has higher efficiency but needs higher temperature
-      const tempRatio = Math.min(1, temp / optimalTemp);
-      eff = tempRatio * (1 - Math.abs(temp - optimalTemp) / optimalTemp) * 0.4; // Max 40% efficiency
-      output = eff * temp * 0.7;
-    } else if (reactorType === 'fusion') {
-      // Fusion needs very high temperature to start, but then has great efficiency
-      if (temp > 100000000) {
-        const tempRatio = Math.min(1, temp / optimalTemp);
-        eff = tempRatio * 0.5; // Max 50% efficiency
-        output = eff * temp * 0.001; // Scale down the enormous numbers
-      } else {
-        eff = 0;
-        output = 0;
-      }
-    } else if (reactorType === 'thorium-msr') {
-      // Thorium MSR operates at high temperature with good efficiency
-      const tempRatio = Math.min(1, temp / optimalTemp);
-      
-      // Efficiency curve - peaks at optimal then falls off if too hot
-      if (temp < optimalTemp) {
-        eff = tempRatio * 0.45; // Ramp up to 45% max efficiency
-      } else {
-        // Gradually decrease efficiency if too hot, but still decent
-        eff = Math.max(0.1, 0.45 * (1 - (temp - optimalTemp) / 800));
-      }
-      
-      output = eff * temp * 0.6;
-      
-      // Emergency drain causes output to drop
-      if (emergencyDrainActive) {
-        output *= 0.3; // Rapidly decreasing output
-      }
-    }
+  const calculateEnergyOutput = (nextSteamCycle: SteamCycleState) => {
+    const { flows } = nextSteamCycle;
 
-    setEfficiency(eff * 100); // Convert to percentage
-    setEnergyOutput(output);
-    onEnergyProduced(output / 100); // Scale down for game balance
+    setEfficiency(getPlantEfficiency(flows) * 100); // Convert to percentage
+    setEnergyOutput(flows.electric);
+    // Power the city does not need is not paid for
+    onEnergyProduced(flows.delivered * ENERGY_PER_MEGAWATT);
   };
 
   // Start the reactor
   const handleStartReactor = () => {
     if (isRunning) return;
+    if (isScrammed) {
+      toast({
+        title: t('reactor.protection.resetFirst.title'),
+        description: t('reactor.protection.resetFirst.description'),
+        variant: "destructive",
+      });
+      return;
+    }
+    recordScenarioAction('start');
+    if (reactorType !== 'fusion') {
+      // The rods start fully inserted and move to the chosen depth at their drive speed.
+      // A core that was shut down keeps its fuel and its xenon.
+      const startCore = core ?? createReactorCore(reactorType, temperature);
+      // Even with all rods out, the xenon, the spent fuel or the wrong coolant
+      // would swallow too many neutrons
+      const startup = getStartupReactivity(reactorType, startCore, coolantType);
+      if (startup.total < 0) {
+        const blocker = getStartupBlocker(startup);
+        toast({
+          title: t('reactor.noRestart.title'),
+          description: blocker === 'coolant'
+            ? t('reactor.noRestart.coolant')
+            : blocker === 'xenon'
+              ? t('reactor.noRestart.xenon')
+              : t('reactor.noRestart.fuel'),
+          variant: "destructive",
+        });
+        return;
+      }
+      setCore(startCore);
+      setTemperature(startCore.temperature);
+      setReactorPeriod(Infinity);
+    }
     setIsRunning(true);
+    reportAchievementEvent('reactor-started');
+    recordExperiment(`cooling:${coolantType}`);
+    if (reactorType === 'fast-breeder') {
+      recordExperiment('breeding:fast-breeder');
+    }
     toast({
-      title: "Reaktor gestartet",
-      description: `${getReactorName(reactorType)} läuft jetzt.`,
+      title: t('reactor.started.title'),
+      description: t('reactor.started.description', { name: getReactorName(reactorType) }),
     });
   };
 
   // Stop the reactor
   const handleStopReactor = () => {
     if (!isRunning) return;
+    recordScenarioAction('stop');
     setIsRunning(false);
+    setEnergyOutput(0);
+    setEfficiency(0);
     toast({
-      title: "Reaktor angehalten",
-      description: "Der Reaktor wurde sicher heruntergefahren.",
+      title: t('reactor.stopped.title'),
+      description: t('reactor.stopped.description'),
     });
   };
 
+  // Release the rods so they fall into the core, much faster than the drives move them
+  const scramReactor = () => {
+    setIsScrammed(true);
+    setIsRunning(false);
+    setControlRodLevel(100);
+    setEnergyOutput(0);
+    setEfficiency(0);
+  };
+
+  const tripReactor = (parameter: TripParameter, value: number) => {
+    scramReactor();
+    setProtectionLog(prev => appendProtectionEvent(prev, { type: 'trip', parameter, value }));
+    toast({
+      title: t('reactor.protection.tripped.title'),
+      description: t('reactor.protection.tripped.description', { alarm: t(alarmLabels[parameter]) }),
+      variant: "destructive",
+    });
+  };
+
+  const handleScram = () => {
+    if (!isRunning) return;
+    recordScenarioAction('scram');
+    scramReactor();
+    setProtectionLog(prev => appendProtectionEvent(prev, { type: 'manual-scram' }));
+    toast({
+      title: t('reactor.protection.scrammed.title'),
+      description: t('reactor.protection.scrammed.description'),
+      variant: "destructive",
+    });
+  };
+
+  const handleResetTrip = () => {
+    if (!isScrammed || (core && core.rodPosition < 100)) return;
+    setIsScrammed(false);
+    setProtectionLog(prev => appendProtectionEvent(prev, { type: 'reset' }));
+  };
+
+  // A new core or a rebuilt reactor starts with a quiet annunciator
+  const clearProtection = () => {
+    setIsScrammed(false);
+    setAlarms(normalAlarms);
+  };
+
   // Reset the reactor after meltdown
   const handleResetReactor = () => {
     setTemperature(25);
+    setCore(null);
+    clearProtection();
     setIsStable(true);
     setWarningLevel('none');
     setEnergyOutput(0);
     setEfficiency(0);
     setEmergencyDrainActive(false);
     toast({
-      title: "Reaktor zurückgesetzt",
-      description: "Der Reaktor wurde neu aufgebaut und ist bereit für den Start.",
+      title: t('reactor.reset.title'),
+      description: t('reactor.reset.description'),
     });
   };
 
-  // Get reactor name in German
+  // Swap the spent fuel for a fresh load; only possible while the reactor is shut down
+  const handleRefuel = () => {
+    if (isRunning || reactorType === 'fusion') return;
+    const freshCore = createReactorCore(reactorType, temperature, createFreshFuel(reactorType));
+    setCore(freshCore);
+    setTemperature(freshCore.temperature);
+    setReactorPeriod(Infinity);
+    toast({
+      title: t('reactor.refueled.title'),
+      description: t('reactor.refueled.description'),
+    });
+  };
+
+  // Scenarios put the plant into their starting state: running steadily or cold and shut down
+  const handleStartScenario = (id: ScenarioId) => {
+    const scenario = getScenario(id);
+    const { setup } = scenario;
+    const startCore = setup.temperature !== undefined
+      ? createSteadyCore(setup.reactorType, setup.temperature, { coolantFlow: setup.coolantFlow, coolantType: setup.coolantType })
+      : createReactorCore(setup.reactorType);
+
+    setReactorType(setup.reactorType);
+    setCoolantType(setup.coolantType);
+    setCoolantFlow(setup.coolantFlow);
+    setControlRodLevel(Math.round(startCore.rodPosition));
+    setCore(startCore);
+    setTemperature(startCore.temperature);
+    setReactorPeriod(Infinity);
+    setIsRunning(setup.temperature !== undefined);
+    setIsStable(true);
+    setWarningLevel('none');
+    setEnergyOutput(0);
+    setEfficiency(0);
+    setEmergencyDrainActive(false);
+    setTripSetpoints(defaultTripSetpoints[setup.reactorType]);
+    clearProtection();
+    clearTrends();
+    setSteamCycle(prev => createSteamCycle(setup.reactorType, prev.hour));
+    setScenarioDebrief(null);
+    setScenarioRun({ scenario, time: 0, snapshots: [], actions: [] });
+  };
+
+  const recordScenarioAction = (type: OperatorActionType, value?: number) => {
+    setScenarioRun(prev => prev && { ...prev, actions: recordOperatorAction(prev.actions, { time: prev.time, type, value }) });
+  };
+
+  const announceScenarioEvent = (event: ScenarioEvent) => {
+    switch (event.type) {
+      case 'pump-failure':
+        toast({
+          title: t('reactor.scenarios.events.pumpFailureTitle'),
+          description: t('reactor.scenarios.events.pumpFailure', { flow: event.maxFlow }),
+          variant: "destructive",
+        });
+        break;
+      case 'power-demand':
+        toast({
+          title: t('reactor.scenarios.events.powerDemandTitle'),
+          description: t('reactor.scenarios.events.powerDemand', { power: formatNumber(event.power) }),
+        });
+        break;
+      case 'scram-order':
+        toast({
+          title: t('reactor.scenarios.events.scramOrderTitle'),
+          description: t('reactor.scenarios.events.scramOrder'),
+          variant: "destructive",
+        });
+        break;
+    }
+  };
+
+  const handleControlRodChange = (value: number) => {
+    setControlRodLevel(value);
+    recordScenarioAction('rods', value);
+  };
+
+  const handleCoolantFlowChange = (value: number) => {
+    setCoolantFlow(value);
+    recordScenarioAction('flow', value);
+  };
+
+  const recordTrendSample = (sample: Omit<TrendSample, 'time'>) => {
+    pushTrendSample(trendBuffer.current, sample);
+    setTrendSamples(getTrendSamples(trendBuffer.current));
+  };
+
+  const clearTrends = () => {
+    trendBuffer.current = createTrendBuffer();
+    setTrendSamples([]);
+  };
+
+  // Each reactor type comes with its usual coolant; a new type also means a fresh core
+  const selectReactorType = (type: ReactorType, coolant: CoolantType) => {
+    setReactorType(type);
+    setCoolantType(coolant);
+    setCore(null);
+    setReactorPeriod(Infinity);
+    if (type !== 'fusion') {
+      setTripSetpoints(defaultTripSetpoints[type]);
+      setSteamCycle(prev => createSteamCycle(type, prev.hour));
+    }
+    clearProtection();
+    clearTrends();
+  };
+
+  // Odd pairings are allowed where the physics allows them, with a word on what changes
+  const selectCoolant = (coolant: CoolantType) => {
+    if (!canCombine(reactorType, coolant)) return;
+    setCoolantType(coolant);
+    const { compatibility, explanation } = getCoolantPairing(reactorType, coolant);
+    if (compatibility !== 'ideal') {
+      toast({
+        title: t(compatibilityLabels[compatibility]),
+        description: t(explanation),
+        variant: compatibility === 'risky' ? "destructive" : "default",
+      });
+    }
+  };
+
+  // Get reactor name in the current language
   const getReactorName = (type: ReactorType): string => {
     switch(type) {
-      case 'pressurized-water': return 'Druckwasserreaktor';
-      case 'fast-breeder': return 'Schneller Brüter';
-      case 'fusion': return 'Fusionsreaktor';
-      case 'thorium-msr': return 'Thorium-Flüssigsalzreaktor';
+      case 'pressurized-water': return t('reactor.types.pressurizedWater');
+      case 'fast-breeder': return t('reactor.types.fastBreeder');
+      case 'fusion': return t('reactor.types.fusion');
+      case 'thorium-msr': return t('reactor.types.thoriumMsr');
       default: return '';
     }
   };
 
-  // Get coolant name in German
+  // Get coolant name in the current language
   const getCoolantName = (type: CoolantType): string => {
     switch(type) {
-      case 'water': return 'Wasser';
-      case 'sodium': return 'Flüssiges Natrium';
-      case 'helium': return 'Helium-Gas';
-      case 'molten-salt': return 'Flüssigsalz';
+      case 'water': return t('reactor.coolants.water');
+      case 'sodium': return t('reactor.coolants.sodium');
+      case 'helium': return t('reactor.coolants.helium');
+      case 'molten-salt': return t('reactor.coolants.moltenSalt');
       default: return '';
     }
   };
 
-  // Get temperature display based on reactor type
-  const getTemperatureDisplay = (): string => {
-    if (reactorType === 'fusion' && temperature > 1000000) {
-      return `${(temperature / 1000000).toFixed(1)} Mio °C`;
-    }
-    return `${temperature.toFixed(0)} °C`;
-  };
-
   // Get warning color based on warning level
   const getWarningColor = (): string => {
     switch(warningLevel) {
@@ -302,7 +688,7 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
     <Card className={cn("p-6 bg-white", className)}>
       <div className="space-y-6">
         <div className="flex items-center justify-between">
-          <h2 className="text-2xl font-bold">Reaktor-Konstruktion</h2>
+          <h2 className="text-2xl font-bold">{t('reactor.title')}</h2>
           <Badge 
             variant={isRunning ? "default" : "outline"}
             className={cn(
@@ -310,53 +696,68 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
               isRunning ? "bg-green-500 hover:bg-green-600" : "text-gray-500"
             )}
           >
-            {isRunning ? "Aktiv" : "Inaktiv"}
+            {isRunning ? t('reactor.active') : t('reactor.inactive')}
           </Badge>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
-            {/* Reactor visualizer */}
-            <ReactorVisualizer 
-              temperature={temperature}
-              coolantFlow={coolantFlow}
-              controlRodLevel={controlRodLevel}
-              isRunning={isRunning}
-              coolantType={coolantType}
-              efficiency={efficiency}
-              reactorType={reactorType}
-              isStable={isStable}
-              warningLevel={warningLevel}
-              className="h-64 mb-4"
-              emergencyDrainActive={emergencyDrainActive}
-            />
+            <div className="flex gap-3 mb-4">
+              {/* Reactor visualizer */}
+              <ReactorVisualizer 
+                temperature={temperature}
+                coolantFlow={coolantFlow}
+                controlRodLevel={core && reactorType !== 'fusion' ? core.rodPosition : controlRodLevel}
+                isRunning={isRunning}
+                coolantType={coolantType}
+                efficiency={efficiency}
+                reactorType={reactorType}
+                plasmaTemperature={reactorType === 'fusion' ? keVToKelvin(fusionPlasma.temperature) : undefined}
+                isStable={isStable}
+                warningLevel={warningLevel}
+                className="h-64 flex-1 min-w-0"
+                emergencyDrainActive={emergencyDrainActive}
+              />
+              {reactorType !== 'fusion' && (
+                <ReactorAnnunciator
+                  className="w-44 shrink-0 h-64"
+                  alarms={alarms}
+                  events={protectionLog}
+                  isScrammed={isScrammed}
+                  canResetTrip={!core || core.rodPosition >= 100}
+                  onAcknowledge={id => setAlarms(prev => ({ ...prev, [id]: acknowledgeAlarm(prev[id]) }))}
+                  onAcknowledgeAll={() => setAlarms(acknowledgeAlarms)}
+                  onResetTrip={handleResetTrip}
+                />
+              )}
+            </div>
             
             <div className="grid grid-cols-2 gap-4">
               <div className="p-4 bg-gray-50 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center">
                     <Thermometer className="h-5 w-5 mr-2 text-red-500" />
-                    <span className="font-medium">Temperatur</span>
+                    <span className="font-medium">{t('reactor.temperature')}</span>
                   </div>
                   <span className={cn(
                     "font-bold",
                     temperature > MELTDOWN_TEMPERATURE * 0.9 ? "text-red-500" : 
                     temperature > MELTDOWN_TEMPERATURE * 0.7 ? "text-orange-500" : "text-gray-700"
                   )}>
-                    {getTemperatureDisplay()}
+                    {formatTemperature(temperature)}
                   </span>
                 </div>
                 <Progress value={(temperature / MAX_TEMPERATURE) * 100} className={getWarningColor()} />
                 {warningLevel === 'high' && (
                   <div className="flex items-center mt-2 text-red-500 text-sm">
                     <AlertTriangle className="h-4 w-4 mr-1" />
-                    <span>Kritisch! Kühlung erhöhen!</span>
+                    <span>{t('reactor.critical')}</span>
                   </div>
                 )}
                 {reactorType === 'thorium-msr' && showSafetyFeature && (
                   <div className="flex items-center mt-2 text-green-500 text-sm animate-pulse">
                     <div className="h-2 w-2 rounded-full bg-green-500 mr-2"></div>
-                    <span>Sicherheitssystem aktiv!</span>
+                    <span>{t('reactor.safetyActive')}</span>
                   </div>
                 )}
               </div>
@@ -365,13 +766,16 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center">
                     <Zap className="h-5 w-5 mr-2 text-yellow-500" />
-                    <span className="font-medium">Energieausbeute</span>
+                    <span className="font-medium">{t('reactor.energyOutput')}</span>
                   </div>
-                  <span className="font-bold text-gray-700">{energyOutput.toFixed(1)} MW</span>
+                  <span className="font-bold text-gray-700">{formatNumber(energyOutput, 1)} MW</span>
                 </div>
                 <Progress value={efficiency} className="bg-gray-200" />
                 <div className="flex justify-between mt-2 text-sm text-gray-500">
-                  <span>Wirkungsgrad: {efficiency.toFixed(1)}%</span>
+                  <span>{t('reactor.efficiency', { value: formatNumber(efficiency, 1) })}</span>
+                  {reactorType !== 'fusion' && (
+                    <span>{t('reactor.steamCycle.demandShort', { power: formatNumber(steamCycle.flows.demand) })}</span>
+                  )}
                 </div>
               </div>
             </div>
@@ -384,7 +788,7 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                     onClick={handleStartReactor}
                     disabled={isRunning}
                   >
-                    Reaktor starten
+                    {t('reactor.start')}
                   </Button>
                   <Button 
                     className="flex-1" 
@@ -392,7 +796,16 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                     onClick={handleStopReactor}
                     disabled={!isRunning}
                   >
-                    Reaktor stoppen
+                    {t('reactor.stop')}
+                  </Button>
+                  <Button
+                    className="bg-red-600 hover:bg-red-700 font-bold"
+                    onClick={handleScram}
+                    disabled={!isRunning}
+                    title={t('reactor.protection.scramHint')}
+                  >
+                    <OctagonX className="h-4 w-4 mr-1" />
+                    {t('reactor.protection.scram')}
                   </Button>
                 </>
               ) : (
@@ -400,18 +813,28 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                   className="flex-1 bg-red-500 hover:bg-red-600" 
                   onClick={handleResetReactor}
                 >
-                  Reaktor wieder aufbauen
+                  {t('reactor.rebuild')}
                 </Button>
               )}
             </div>
           </div>
           
-          <div>
+          <div className="space-y-4">
+            <ReactorScenarioPanel
+              run={scenarioRun}
+              debrief={scenarioDebrief}
+              onStart={handleStartScenario}
+              onAbort={() => setScenarioRun(null)}
+              onCloseDebrief={() => setScenarioDebrief(null)}
+            />
+
             <Tabs defaultValue="reactor-type" className="w-full">
-              <TabsList className="grid grid-cols-3 mb-4">
-                <TabsTrigger value="reactor-type">Reaktortyp</TabsTrigger>
-                <TabsTrigger value="cooling">Kühlsystem</TabsTrigger>
-                <TabsTrigger value="control">Steuerung</TabsTrigger>
+              <TabsList className="grid grid-cols-5 mb-4">
+                <TabsTrigger value="reactor-type">{t('reactor.tabs.type')}</TabsTrigger>
+                <TabsTrigger value="cooling">{t('reactor.tabs.cooling')}</TabsTrigger>
+                <TabsTrigger value="control">{t('reactor.tabs.control')}</TabsTrigger>
+                <TabsTrigger value="grid">{t('reactor.steamCycle.tab')}</TabsTrigger>
+                <TabsTrigger value="trends">{t('reactor.trends.tab')}</TabsTrigger>
               </TabsList>
               
               <TabsContent value="reactor-type" className="space-y-4">
@@ -422,17 +845,14 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                       reactorType === 'pressurized-water' ? "border-4 border-primary" : "border"
                     )}
                     variant="outline"
-                    onClick={() => {
-                      setReactorType('pressurized-water');
-                      setCoolantType('water');
-                    }}
-                    disabled={isRunning}
+                    onClick={() => selectReactorType('pressurized-water', 'water')}
+                    disabled={isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Droplets className="h-5 w-5 mr-2 text-blue-500" />
-                      <span className="font-bold">Druckwasserreaktor</span>
+                      <span className="font-bold">{t('reactor.types.pressurizedWater')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Sicher & zuverlässig, niedrige Effizienz</p>
+                    <p className="text-xs text-gray-500">{t('reactor.typeHints.pressurizedWater')}</p>
                   </Button>
                   
                   <Button 
@@ -441,17 +861,14 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                       reactorType === 'fast-breeder' ? "border-4 border-primary" : "border"
                     )}
                     variant="outline"
-                    onClick={() => {
-                      setReactorType('fast-breeder');
-                      setCoolantType('sodium');
-                    }}
-                    disabled={isRunning}
+                    onClick={() => selectReactorType('fast-breeder', 'sodium')}
+                    disabled={isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Atom className="h-5 w-5 mr-2 text-purple-500" />
-                      <span className="font-bold">Schneller Brüter</span>
+                      <span className="font-bold">{t('reactor.types.fastBreeder')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Erzeugt Plutonium, höhere Effizienz</p>
+                    <p className="text-xs text-gray-500">{t('reactor.typeHints.fastBreeder')}</p>
                   </Button>
                   
                   <Button 
@@ -460,17 +877,14 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                       reactorType === 'fusion' ? "border-4 border-primary" : "border"
                     )}
                     variant="outline"
-                    onClick={() => {
-                      setReactorType('fusion');
-                      setCoolantType('helium');
-                    }}
-                    disabled={isRunning}
+                    onClick={() => selectReactorType('fusion', 'helium')}
+                    disabled={isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Zap className="h-5 w-5 mr-2 text-yellow-500" />
-                      <span className="font-bold">Fusionsreaktor</span>
+                      <span className="font-bold">{t('reactor.types.fusion')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Sehr hohe Effizienz, schwer zu starten</p>
+                    <p className="text-xs text-gray-500">{t('reactor.typeHints.fusion')}</p>
                   </Button>
 
                   <Button 
@@ -479,38 +893,30 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                       reactorType === 'thorium-msr' ? "border-4 border-primary" : "border"
                     )}
                     variant="outline"
-                    onClick={() => {
-                      setReactorType('thorium-msr');
-                      setCoolantType('molten-salt');
-                    }}
-                    disabled={isRunning}
+                    onClick={() => selectReactorType('thorium-msr', 'molten-salt')}
+                    disabled={isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Beaker className="h-5 w-5 mr-2 text-orange-400" />
-                      <span className="font-bold">Thoriumreaktor</span>
+                      <span className="font-bold">{t('reactor.thoriumShort')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Flüssigsalz, sicherer, weniger Müll</p>
+                    <p className="text-xs text-gray-500">{t('reactor.typeHints.thoriumMsr')}</p>
                   </Button>
                 </div>
                 
                 <div className="bg-blue-50 rounded-lg p-4 text-sm">
-                  <h3 className="font-medium mb-2">Info: {getReactorName(reactorType)}</h3>
+                  <h3 className="font-medium mb-2">{t('reactor.info', { name: getReactorName(reactorType) })}</h3>
                   {reactorType === 'pressurized-water' && (
-                    <p>Verwendet Wasser unter hohem Druck als Kühlmittel und Moderator. 
-                      Ein sicherer Reaktortyp, der in den meisten Kernkraftwerken verwendet wird.</p>
+                    <p>{t('reactor.typeInfo.pressurizedWater')}</p>
                   )}
                   {reactorType === 'fast-breeder' && (
-                    <p>Nutzt schnelle Neutronen und flüssiges Natrium als Kühlmittel. Kann neuen Brennstoff (Plutonium) 
-                      erzeugen, während er Energie produziert.</p>
+                    <p>{t('reactor.typeInfo.fastBreeder')}</p>
                   )}
                   {reactorType === 'fusion' && (
-                    <p>Verschmilzt Wasserstoffisotope zu Helium, ähnlich wie in der Sonne. 
-                      Benötigt extrem hohe Temperaturen und starke Magnetfelder, produziert aber viel Energie.</p>
+                    <p>{t('reactor.typeInfo.fusion')}</p>
                   )}
                   {reactorType === 'thorium-msr' && (
-                    <p>Thorium ist ein besonderes Metall aus dem Boden. Es macht Energie, aber ganz anders als Uran! 
-                      Der Reaktor verwendet Flüssigsalz statt Wasser und wird bei niedrigerem Druck betrieben. 
-                      Er stoppt automatisch, wenn er zu heiß wird!</p>
+                    <p>{t('reactor.typeInfo.thoriumMsr')}</p>
                   )}
                 </div>
 
@@ -518,19 +924,19 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                   <div className="bg-orange-50 border border-orange-100 rounded-lg p-4 text-sm relative overflow-hidden">
                     <div className="flex space-x-2 items-center mb-3">
                       <div className="w-4 h-4 rounded-full bg-orange-300 animate-pulse"></div>
-                      <h3 className="font-medium text-orange-700">Der Thorium-Flüssigsalzreaktor</h3>
+                      <h3 className="font-medium text-orange-700">{t('reactor.thorium.title')}</h3>
                     </div>
                     
                     <ul className="list-disc list-inside space-y-2 text-sm">
-                      <li><span className="font-medium">Sicherer:</span> Wenn's zu heiß wird, stoppt der Reaktor von selbst!</li>
-                      <li><span className="font-medium">Kein Hochdruck:</span> Weil wir Salz statt Wasser benutzen, kann es nicht explodieren!</li>
-                      <li><span className="font-medium">Weniger Müll:</span> Macht viel weniger radioaktiven Abfall als normale Reaktoren.</li>
-                      <li><span className="font-medium">Notablauf:</span> Bei Problemen fließt das Salz in einen sicheren Behälter.</li>
+                      <li><span className="font-medium">{t('reactor.thorium.safer')}</span> {t('reactor.thorium.saferText')}</li>
+                      <li><span className="font-medium">{t('reactor.thorium.noPressure')}</span> {t('reactor.thorium.noPressureText')}</li>
+                      <li><span className="font-medium">{t('reactor.thorium.lessWaste')}</span> {t('reactor.thorium.lessWasteText')}</li>
+                      <li><span className="font-medium">{t('reactor.thorium.drain')}</span> {t('reactor.thorium.drainText')}</li>
                     </ul>
                     
                     <div className="mt-3 flex items-center">
                       <div className="w-2 h-2 rounded-full bg-green-500 mr-2"></div>
-                      <span className="text-xs text-green-700">Wissenschaftler sagen: Vielleicht der Reaktor der Zukunft!</span>
+                      <span className="text-xs text-green-700">{t('reactor.thorium.future')}</span>
                     </div>
                   </div>
                 )}
@@ -542,80 +948,82 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                     className={cn(
                       "h-24 flex-col items-center justify-center space-y-2 text-left",
                       coolantType === 'water' ? "border-4 border-primary" : "border",
-                      (reactorType === 'fusion' || reactorType === 'thorium-msr') ? "opacity-50" : ""
+                      !canCombine(reactorType, 'water') ? "opacity-50" : ""
                     )}
                     variant="outline"
-                    onClick={() => (reactorType !== 'fusion' && reactorType !== 'thorium-msr') && setCoolantType('water')}
-                    disabled={reactorType === 'fusion' || reactorType === 'thorium-msr' || isRunning}
+                    onClick={() => selectCoolant('water')}
+                    disabled={!canCombine(reactorType, 'water') || isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Droplets className="h-5 w-5 mr-2 text-blue-500" />
-                      <span className="font-bold">Wasser</span>
+                      <span className="font-bold">{t('reactor.coolants.water')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Gute Kühlung, sicher</p>
+                    <p className="text-xs text-gray-500">{t('reactor.coolantHints.water')}</p>
                   </Button>
                   
                   <Button 
                     className={cn(
                       "h-24 flex-col items-center justify-center space-y-2 text-left",
                       coolantType === 'sodium' ? "border-4 border-primary" : "border",
-                      (reactorType === 'fusion' || reactorType === 'thorium-msr') ? "opacity-50" : ""
+                      !canCombine(reactorType, 'sodium') ? "opacity-50" : ""
                     )}
                     variant="outline"
-                    onClick={() => (reactorType !== 'fusion' && reactorType !== 'thorium-msr') && setCoolantType('sodium')}
-                    disabled={reactorType === 'fusion' || reactorType === 'thorium-msr' || isRunning}
+                    onClick={() => selectCoolant('sodium')}
+                    disabled={!canCombine(reactorType, 'sodium') || isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Thermometer className="h-5 w-5 mr-2 text-orange-500" />
-                      <span className="font-bold">Flüssiges Natrium</span>
+                      <span className="font-bold">{t('reactor.coolants.sodium')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Sehr effiziente Kühlung, reagiert mit Wasser</p>
+                    <p className="text-xs text-gray-500">{t('reactor.coolantHints.sodium')}</p>
                   </Button>
                   
                   <Button 
                     className={cn(
                       "h-24 flex-col items-center justify-center space-y-2 text-left",
                       coolantType === 'helium' ? "border-4 border-primary" : "border",
-                      reactorType === 'thorium-msr' ? "opacity-50" : ""
+                      !canCombine(reactorType, 'helium') ? "opacity-50" : ""
                     )}
                     variant="outline"
-                    onClick={() => reactorType !== 'thorium-msr' && setCoolantType('helium')}
-                    disabled={reactorType === 'thorium-msr' || isRunning}
+                    onClick={() => selectCoolant('helium')}
+                    disabled={!canCombine(reactorType, 'helium') || isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Fan className="h-5 w-5 mr-2 text-purple-500" />
-                      <span className="font-bold">Helium-Gas</span>
+                      <span className="font-bold">{t('reactor.coolants.helium')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Für Hochtemperatur-Reaktoren, weniger effizient</p>
+                    <p className="text-xs text-gray-500">{t('reactor.coolantHints.helium')}</p>
                   </Button>
 
                   <Button 
                     className={cn(
                       "h-24 flex-col items-center justify-center space-y-2 text-left",
                       coolantType === 'molten-salt' ? "border-4 border-primary" : "border",
-                      reactorType !== 'thorium-msr' ? "opacity-50" : ""
+                      !canCombine(reactorType, 'molten-salt') ? "opacity-50" : ""
                     )}
                     variant="outline"
-                    onClick={() => reactorType === 'thorium-msr' && setCoolantType('molten-salt')}
-                    disabled={reactorType !== 'thorium-msr' || isRunning}
+                    onClick={() => selectCoolant('molten-salt')}
+                    disabled={!canCombine(reactorType, 'molten-salt') || isRunning || !!scenarioRun}
                   >
                     <div className="flex items-center">
                       <Beaker className="h-5 w-5 mr-2 text-orange-400" />
-                      <span className="font-bold">Flüssigsalz</span>
+                      <span className="font-bold">{t('reactor.coolants.moltenSalt')}</span>
                     </div>
-                    <p className="text-xs text-gray-500">Für Thoriumreaktor, wird sehr heiß, verdampft nicht</p>
+                    <p className="text-xs text-gray-500">{t('reactor.coolantHints.moltenSalt')}</p>
                   </Button>
                 </div>
+
+                <ReactorCoolantMatrix reactorType={reactorType} coolantType={coolantType} />
                 
                 <div className="space-y-4">
                   <div>
                     <div className="flex justify-between mb-2">
-                      <span>Kühlmittelfluss</span>
+                      <span>{t('reactor.coolantFlow')}</span>
                       <span>{coolantFlow}%</span>
                     </div>
                     <Slider
                       value={[coolantFlow]}
-                      onValueChange={values => setCoolantFlow(values[0])}
+                      onValueChange={values => handleCoolantFlowChange(values[0])}
                       max={100}
                       step={1}
                       disabled={!isStable || !isRunning}
@@ -623,22 +1031,18 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                   </div>
                   
                   <div className="bg-blue-50 rounded-lg p-4 text-sm">
-                    <h3 className="font-medium mb-2">Info: {getCoolantName(coolantType)}</h3>
+                    <h3 className="font-medium mb-2">{t('reactor.info', { name: getCoolantName(coolantType) })}</h3>
                     {coolantType === 'water' && (
-                      <p>Wasser hat eine hohe Wärmekapazität und ist ein guter Moderator für thermische Reaktoren. 
-                        Es kann jedoch bei zu hoher Temperatur verdampfen.</p>
+                      <p>{t('reactor.coolantInfo.water')}</p>
                     )}
                     {coolantType === 'sodium' && (
-                      <p>Flüssiges Natrium überträgt Wärme sehr effizient und siedet erst bei 883°C. 
-                        Es reagiert jedoch heftig mit Wasser und Luft.</p>
+                      <p>{t('reactor.coolantInfo.sodium', { boiling: formatTemperature(883) })}</p>
                     )}
                     {coolantType === 'helium' && (
-                      <p>Helium ist chemisch inert und eignet sich für Hochtemperaturreaktoren. 
-                        Es hat jedoch eine geringere Wärmekapazität als Flüssigkeiten.</p>
+                      <p>{t('reactor.coolantInfo.helium')}</p>
                     )}
                     {coolantType === 'molten-salt' && (
-                      <p>Flüssigsalz wird sehr heiß (700-800°C), ohne zu verdampfen. Es kann den Brennstoff direkt aufnehmen 
-                      und leitet Wärme sehr gut. Bei Problemen kann das Salz einfach in einen sicheren Behälter abgelassen werden.</p>
+                      <p>{t('reactor.coolantInfo.moltenSalt', { low: formatTemperature(700), high: formatTemperature(800) })}</p>
                     )}
                   </div>
 
@@ -646,15 +1050,15 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                     <div className="relative p-4 rounded-lg bg-orange-50 border border-orange-200">
                       <div className="flex items-center mb-2">
                         <Beaker className="h-5 w-5 mr-2 text-orange-500" />
-                        <span className="font-medium">Wie funktioniert ein Flüssigsalzreaktor?</span>
+                        <span className="font-medium">{t('reactor.msrSteps.title')}</span>
                       </div>
 
                       <div className="space-y-2 text-sm">
-                        <p>1. Thorium wird im heißen Flüssigsalz gelöst (statt feste Brennstäbe)</p>
-                        <p>2. Neutronen treffen auf Thorium-232 und es wird zu Uran-233</p>
-                        <p>3. Uran-233 spaltet sich und macht Energie, das Salz wird heiß</p>
-                        <p>4. Das heiße Salz fließt durch Rohre zum Wärmetauscher</p>
-                        <p>5. Bei Problemen: Salz fließt in Sicherheitsbehälter - Stopp!</p>
+                        <p>{t('reactor.msrSteps.dissolve')}</p>
+                        <p>{t('reactor.msrSteps.breed')}</p>
+                        <p>{t('reactor.msrSteps.fission')}</p>
+                        <p>{t('reactor.msrSteps.flow')}</p>
+                        <p>{t('reactor.msrSteps.drain')}</p>
                       </div>
 
                       <div className="absolute -right-2 -bottom-2 opacity-20">
@@ -669,61 +1073,108 @@ const ReactorLab: React.FC<ReactorLabProps> = ({ energy, onEnergyProduced, class
                 <div className="space-y-4">
                   <div>
                     <div className="flex justify-between mb-2">
-                      <span>Steuerstäbe (Eintauchtiefe)</span>
+                      <span>{t('reactor.controlRods')}</span>
                       <span>{controlRodLevel}%</span>
                     </div>
                     <Slider
                       value={[controlRodLevel]}
-                      onValueChange={values => setControlRodLevel(values[0])}
+                      onValueChange={values => handleControlRodChange(values[0])}
                       max={100}
                       step={1}
                       disabled={!isStable || !isRunning}
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      Höherer Wert = mehr Kontrolle, weniger Reaktionen
+                      {t('reactor.controlRodsHint')}
                     </p>
                   </div>
                   
                   <div className="bg-blue-50 rounded-lg p-4 text-sm">
-                    <h3 className="font-medium mb-2">Kontrollinformationen</h3>
-                    <p>Steuerstäbe absorbieren Neutronen und verlangsamen so die Kettenreaktion. 
-                      Tiefer eingetauchte Stäbe (höherer Wert) reduzieren die Reaktionsrate und Wärmeerzeugung.</p>
+                    <h3 className="font-medium mb-2">{t('reactor.controlInfo.title')}</h3>
+                    <p>{t('reactor.controlInfo.text')}</p>
                   </div>
 
+                  {reactorType === 'fusion' && (
+                    <>
+                      <p className="text-xs text-gray-500">
+                        {t('reactor.fusionHeating', { power: formatNumber(((100 - controlRodLevel) / 100) * FUSION_MAX_HEATING) })}
+                      </p>
+                      <FusionPlasmaPanel plasma={fusionPlasma} isRunning={isRunning} />
+                    </>
+                  )}
+
+                  {reactorType !== 'fusion' && (
+                    <ReactorKineticsPanel
+                      reactorType={reactorType}
+                      coolantType={coolantType}
+                      core={core}
+                      reactorPeriod={reactorPeriod}
+                      controlRodLevel={controlRodLevel}
+                      canRefuel={!isRunning && isStable}
+                      onRefuel={handleRefuel}
+                    />
+                  )}
+
+                  {reactorType !== 'fusion' && (
+                    <ReactorTripSettings
+                      setpoints={tripSetpoints}
+                      onChange={setTripSetpoints}
+                      onResetDefaults={() => setTripSetpoints(defaultTripSetpoints[reactorType])}
+                    />
+                  )}
+
                   {reactorType === 'thorium-msr' && (
                     <div className="bg-green-50 rounded-lg p-4 text-sm border border-green-100">
-                      <h3 className="font-medium mb-2 text-green-700">Vergleich: Uran vs. Thorium</h3>
+                      <h3 className="font-medium mb-2 text-green-700">{t('reactor.comparison.title')}</h3>
                       
                       <div className="grid grid-cols-2 gap-4">
                         <div className="p-3 bg-white rounded border border-red-100">
-                          <div className="font-medium text-red-700 mb-1">Uranreaktor:</div>
+                          <div className="font-medium text-red-700 mb-1">{t('reactor.comparison.uranium')}</div>
                           <ul className="list-disc list-inside text-xs space-y-1">
-                            <li>Viel radioaktiver Müll</li>
-                            <li>Kann überhitzen und schmelzen</li>
-                            <li>Benötigt hohen Druck</li>
-                            <li>Braucht viel Notfallschutz</li>
+                            <li>{t('reactor.comparison.uraniumPoints.waste')}</li>
+                            <li>{t('reactor.comparison.uraniumPoints.meltdown')}</li>
+                            <li>{t('reactor.comparison.uraniumPoints.pressure')}</li>
+                            <li>{t('reactor.comparison.uraniumPoints.safety')}</li>
                           </ul>
                         </div>
                         
                         <div className="p-3 bg-white rounded border border-green-100">
-                          <div className="font-medium text-green-700 mb-1">Thoriumreaktor:</div>
+                          <div className="font-medium text-green-700 mb-1">{t('reactor.comparison.thorium')}</div>
                           <ul className="list-disc list-inside text-xs space-y-1">
-                            <li>Weniger radioaktiver Müll</li>
-                            <li>Stoppt automatisch bei Überhitzung</li>
-                            <li>Niedriger Druck, keine Explosion</li>
-                            <li>Hat eingebaute Sicherheitsfeatures</li>
+                            <li>{t('reactor.comparison.thoriumPoints.waste')}</li>
+                            <li>{t('reactor.comparison.thoriumPoints.meltdown')}</li>
+                            <li>{t('reactor.comparison.thoriumPoints.pressure')}</li>
+                            <li>{t('reactor.comparison.thoriumPoints.safety')}</li>
                           </ul>
                         </div>
                       </div>
                       
                       <div className="mt-3 text-xs text-center text-green-700 font-medium">
-                        Thoriumreaktoren machen viel Energie und fast keinen Müll. Die Wissenschaftler denken: 
-                        Vielleicht ist das der Reaktor der Zukunft!
+                        {t('reactor.comparison.summary')}
                       </div>
                     </div>
                   )}
                 </div>
               </TabsContent>
+
+              <TabsContent value="grid">
+                {reactorType !== 'fusion' ? (
+                  <ReactorSteamCycle
+                    reactorType={reactorType}
+                    steamCycle={steamCycle}
+                    reactorTemperature={temperature}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">{t('reactor.steamCycle.fusion')}</p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="trends">
+                <ReactorTrendCharts
+                  samples={trendSamples}
+                  exportInfo={{ reactorType, coolantType }}
+                  onClear={clearTrends}
+                />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle2, ClipboardList, Play, RotateCcw, Square, Star, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  getScenario,
+  getScenarioConditions,
+  OperatorAction,
+  reactorScenarios,
+  ScenarioCriterion,
+  ScenarioDebrief,
+  ScenarioId,
+  ScenarioRun,
+} from '@/lib/reactor-scenarios';
+
+interface ReactorScenarioPanelProps {
+  run: ScenarioRun | null;
+  debrief: ScenarioDebrief | null;
+  onStart: (id: ScenarioId) => void;
+  onAbort: () => void;
+  onCloseDebrief: () => void;
+  className?: string;
+}
+
+export const ReactorScenarioPanel = ({ run, debrief, onStart, onAbort, onCloseDebrief, className }: ReactorScenarioPanelProps) => {
+  const { t, formatNumber, formatTemperature } = useI18n();
+  const [selectedId, setSelectedId] = useState<ScenarioId>(reactorScenarios[0].id);
+
+  const getCriterionLabel = (criterion: ScenarioCriterion) => {
+    switch (criterion.type) {
+      case 'no-meltdown': return t('reactor.scenarios.criteria.noMeltdown');
+      case 'max-temperature': return t('reactor.scenarios.criteria.maxTemperature', { limit: formatTemperature(criterion.limit) });
+      case 'no-prompt-critical': return t('reactor.scenarios.criteria.noPromptCritical');
+      case 'rods-inserted': return t('reactor.scenarios.criteria.rodsInserted', { level: criterion.level, seconds: criterion.within });
+      case 'power-in-band': return t('reactor.scenarios.criteria.powerInBand', { share: criterion.share, tolerance: criterion.tolerance });
+      case 'reach-power': return t('reactor.scenarios.criteria.reachPower', { power: formatNumber(criterion.power), seconds: criterion.hold });
+      case 'shutdown': return t('reactor.scenarios.criteria.shutdown', { seconds: criterion.within });
+      case 'power-below': return t('reactor.scenarios.criteria.powerBelow', { power: formatNumber(criterion.power), seconds: criterion.by });
+      default: return '';
+    }
+  };
+
+  const getActionLabel = (action: OperatorAction) => {
+    switch (action.type) {
+      case 'rods': return t('reactor.scenarios.actions.rods', { value: action.value });
+      case 'flow': return t('reactor.scenarios.actions.flow', { value: action.value });
+      case 'start': return t('reactor.scenarios.actions.start');
+      case 'stop': return t('reactor.scenarios.actions.stop');
+      case 'scram': return t('reactor.scenarios.actions.scram');
+      default: return '';
+    }
+  };
+
+  const renderActiveRun = (active: ScenarioRun) => {
+    const conditions = getScenarioConditions(active.scenario, active.time);
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium">{t(active.scenario.title)}</h3>
+          <span className="text-gray-500">
+            {t('reactor.scenarios.timeLeft', { seconds: Math.max(0, active.scenario.duration - active.time) })}
+          </span>
+        </div>
+        <Progress value={(active.time / active.scenario.duration) * 100} className="h-2" />
+        <p className="text-gray-600">{t(active.scenario.briefing)}</p>
+
+        {conditions.maxFlow < 100 && (
+          <div className="flex items-center text-orange-600">
+            <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+            <span>{t('reactor.scenarios.events.pumpFailure', { flow: conditions.maxFlow })}</span>
+          </div>
+        )}
+        {conditions.powerDemand !== null && (
+          <div className="flex items-center text-blue-600">
+            <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+            <span>{t('reactor.scenarios.events.powerDemand', { power: formatNumber(conditions.powerDemand) })}</span>
+          </div>
+        )}
+        {conditions.scramOrdered && (
+          <div className="flex items-center font-bold text-red-600 animate-pulse">
+            <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+            <span>{t('reactor.scenarios.events.scramOrder')}</span>
+          </div>
+        )}
+
+        <ul className="space-y-1 text-xs text-gray-600">
+          {active.scenario.criteria.map((criterion, index) => (
+            <li key={index} className="flex items-center">
+              <ClipboardList className="h-3 w-3 mr-1 shrink-0" />
+              {getCriterionLabel(criterion)}
+            </li>
+          ))}
+        </ul>
+
+        <Button variant="outline" size="sm" className="w-full" onClick={onAbort}>
+          <Square className="h-4 w-4 mr-1" />
+          {t('reactor.scenarios.abort')}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-3', className)}>
+      {run ? renderActiveRun(run) : (
+        <>
+          <div className="flex items-center">
+            <ClipboardList className="h-5 w-5 mr-2 text-blue-500" />
+            <h3 className="font-medium">{t('reactor.scenarios.title')}</h3>
+          </div>
+          <p className="text-gray-600">{t('reactor.scenarios.intro')}</p>
+          <div className="flex gap-2">
+            <Select value={selectedId} onValueChange={value => setSelectedId(value as ScenarioId)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reactorScenarios.map(scenario => (
+                  <SelectItem key={scenario.id} value={scenario.id}>
+                    {t(scenario.title)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => onStart(selectedId)}>
+              <Play className="h-4 w-4 mr-1" />
+              {t('reactor.scenarios.start')}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">{t(getScenario(selectedId).briefing)}</p>
+        </>
+      )}
+
+      <Dialog open={!!debrief} onOpenChange={isOpen => !isOpen && onCloseDebrief()}>
+        {debrief && (
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{t('reactor.scenarios.debrief.title', { title: t(debrief.scenario.title) })}</DialogTitle>
+              <DialogDescription>
+                {debrief.stars === 3
+                  ? t('reactor.scenarios.debrief.perfect')
+                  : debrief.stars > 0
+                    ? t('reactor.scenarios.debrief.partial')
+                    : t('reactor.scenarios.debrief.failed')}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex justify-center gap-1">
+              {[1, 2, 3].map(star => (
+                <Star
+                  key={star}
+                  className={cn('h-8 w-8', star <= debrief.stars ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300')}
+                />
+              ))}
+            </div>
+
+            <ul className="space-y-2 text-sm">
+              {debrief.results.map(({ criterion, passed }, index) => (
+                <li key={index} className="flex items-center">
+                  {passed
+                    ? <CheckCircle2 className="h-4 w-4 mr-2 shrink-0 text-green-600" />
+                    : <XCircle className="h-4 w-4 mr-2 shrink-0 text-red-600" />}
+                  {getCriterionLabel(criterion)}
+                </li>
+              ))}
+            </ul>
+
+            <div className="text-sm text-gray-600">
+              {t('reactor.scenarios.debrief.maxTemperature', { value: formatTemperature(debrief.maxTemperature) })}
+            </div>
+
+            <div className="text-sm">
+              <div className="font-medium mb-1">{t('reactor.scenarios.debrief.timeline')}</div>
+              {debrief.actions.length === 0 ? (
+                <p className="text-gray-500">{t('reactor.scenarios.debrief.noActions')}</p>
+              ) : (
+                <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-gray-600">
+                  {debrief.actions.map((action, index) => (
+                    <li key={index}>
+                      <span className="inline-block w-12 font-mono">{action.time} s</span>
+                      {getActionLabel(action)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={onCloseDebrief}>
+                {t('reactor.scenarios.debrief.close')}
+              </Button>
+              <Button className="flex-1" onClick={() => onStart(debrief.scenario.id)}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                {t('reactor.scenarios.debrief.retry')}
+              </Button>
+            </div>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReactorScenarioPanel;
@@ -0,0 +1,247 @@
+import React from 'react';
+import {
+  Area,
+  AreaChart,
+  Layer,
+  Rectangle,
+  ReferenceLine,
+  ResponsiveContainer,
+  Sankey,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Factory, Moon, Sun } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/lib/i18n';
+import type { FissionReactorType } from '@/lib/reactor-kinetics';
+import {
+  EnergyFlows,
+  getDemandCurve,
+  getLoadMatchScore,
+  getPlantEfficiency,
+  getSteamTemperature,
+  LOAD_TOLERANCE,
+  NOMINAL_FREQUENCY,
+  SteamCycleState,
+} from '@/lib/steam-cycle';
+
+interface ReactorSteamCycleProps {
+  reactorType: FissionReactorType;
+  steamCycle: SteamCycleState;
+  reactorTemperature: number;
+  className?: string;
+}
+
+type FlowNode = 'reactor' | 'steamGenerator' | 'turbine' | 'generator' | 'city' | 'condenser' | 'losses' | 'surplus';
+
+const nodeColors: Record<FlowNode, string> = {
+  'reactor': '#f97316',
+  'steamGenerator': '#0ea5e9',
+  'turbine': '#6366f1',
+  'generator': '#eab308',
+  'city': '#22c55e',
+  'condenser': '#94a3b8',
+  'losses': '#ef4444',
+  'surplus': '#a855f7',
+};
+
+const nodeLabels: Record<FlowNode, MessageKey> = {
+  'reactor': 'reactor.steamCycle.nodes.reactor',
+  'steamGenerator': 'reactor.steamCycle.nodes.steamGenerator',
+  'turbine': 'reactor.steamCycle.nodes.turbine',
+  'generator': 'reactor.steamCycle.nodes.generator',
+  'city': 'reactor.steamCycle.nodes.city',
+  'condenser': 'reactor.steamCycle.nodes.condenser',
+  'losses': 'reactor.steamCycle.nodes.losses',
+  'surplus': 'reactor.steamCycle.nodes.surplus',
+};
+
+// Flows below this are too thin to draw, MW
+const MIN_FLOW = 1;
+
+interface FlowNodeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: { id: FlowNode; name: string; value: number; targetNodes: number[] };
+}
+
+interface FlowLinkProps {
+  sourceX: number;
+  sourceY: number;
+  sourceControlX: number;
+  targetX: number;
+  targetY: number;
+  targetControlX: number;
+  linkWidth: number;
+  payload: { color: string };
+}
+
+const renderFlowLink = ({ sourceX, sourceY, sourceControlX, targetX, targetY, targetControlX, linkWidth, payload }: FlowLinkProps) => (
+  <path
+    d={`M${sourceX},${sourceY} C${sourceControlX},${sourceY} ${targetControlX},${targetY} ${targetX},${targetY}`}
+    fill="none"
+    stroke={payload.color}
+    strokeOpacity={0.4}
+    strokeWidth={Math.max(1, linkWidth)}
+  />
+);
+
+const formatClock = (hour: number) => {
+  const minutes = Math.floor(hour * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Where the reactor heat ends up, from the steam generator to the city, and
+// how well the plant follows the city's demand over the day
+export const ReactorSteamCycle = ({ reactorType, steamCycle, reactorTemperature, className }: ReactorSteamCycleProps) => {
+  const { t, formatNumber, formatTemperature } = useI18n();
+  const { flows, hour, frequency } = steamCycle;
+  const isOnline = flows.electric > 0;
+  const mismatch = flows.electric - flows.demand;
+  const isMatched = Math.abs(mismatch) <= (flows.demand * LOAD_TOLERANCE) / 100;
+  const frequencyDeviation = Math.abs(frequency - NOMINAL_FREQUENCY);
+  const isDaytime = hour >= 6 && hour < 20;
+
+  // The Sankey graph leaves out empty flows, and with them the nodes only they touch
+  const getFlowGraph = (energyFlows: EnergyFlows) => {
+    const links = ([
+      { source: 'reactor', target: 'steamGenerator', value: energyFlows.steam },
+      { source: 'reactor', target: 'losses', value: energyFlows.steamGeneratorLoss },
+      { source: 'steamGenerator', target: 'turbine', value: energyFlows.steam },
+      { source: 'turbine', target: 'generator', value: energyFlows.turbine },
+      { source: 'turbine', target: 'condenser', value: energyFlows.condenser },
+      { source: 'generator', target: 'city', value: energyFlows.delivered },
+      { source: 'generator', target: 'surplus', value: energyFlows.surplus },
+      { source: 'generator', target: 'losses', value: energyFlows.generatorLoss },
+    ] as { source: FlowNode; target: FlowNode; value: number }[]).filter(link => link.value >= MIN_FLOW);
+    const nodes = Array.from(new Set(links.flatMap(link => [link.source, link.target])));
+    return {
+      nodes: nodes.map(id => ({ id, name: t(nodeLabels[id]) })),
+      links: links.map(link => ({
+        source: nodes.indexOf(link.source),
+        target: nodes.indexOf(link.target),
+        value: link.value,
+        color: nodeColors[link.target],
+      })),
+    };
+  };
+
+  const renderFlowNode = ({ x, y, width, height, payload }: FlowNodeProps) => {
+    // Labels of the end points sit to the left of their bar, all others to the right
+    const isEnd = payload.targetNodes.length === 0;
+    return (
+      <Layer>
+        <Rectangle x={x} y={y} width={width} height={height} fill={nodeColors[payload.id]} />
+        <text
+          x={isEnd ? x - 4 : x + width + 4}
+          y={y + height / 2}
+          textAnchor={isEnd ? 'end' : 'start'}
+          dominantBaseline="middle"
+          fontSize={11}
+          fill="#374151"
+          stroke="#ffffff"
+          strokeWidth={3}
+          paintOrder="stroke"
+        >
+          {payload.name} {formatNumber(payload.value)} MW
+        </text>
+      </Layer>
+    );
+  };
+
+  const getLoadStatus = () => {
+    if (!isOnline) return { text: t('reactor.steamCycle.offline'), className: 'text-gray-500' };
+    if (isMatched) return { text: t('reactor.steamCycle.matched'), className: 'text-green-600' };
+    return mismatch < 0
+      ? { text: t('reactor.steamCycle.tooLittle'), className: 'text-orange-500' }
+      : { text: t('reactor.steamCycle.tooMuch'), className: 'text-purple-600' };
+  };
+  const loadStatus = getLoadStatus();
+
+  return (
+    <div className={cn('bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Factory className="h-5 w-5 mr-2 text-gray-600" />
+          <h3 className="font-medium">{t('reactor.steamCycle.title')}</h3>
+        </div>
+        <div className="flex items-center font-mono">
+          {isDaytime ? <Sun className="h-4 w-4 mr-1 text-yellow-500" /> : <Moon className="h-4 w-4 mr-1 text-indigo-500" />}
+          {t('reactor.steamCycle.clock', { time: formatClock(hour) })}
+        </div>
+      </div>
+      <p className="text-gray-600">{t('reactor.steamCycle.description')}</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <span className="text-gray-600">{t('reactor.steamCycle.demand')}</span>
+        <span className="font-bold text-right">{formatNumber(flows.demand)} MW</span>
+        <span className="text-gray-600">{t('reactor.steamCycle.generation')}</span>
+        <span className="font-bold text-right">{formatNumber(flows.electric)} MW</span>
+        <span className="text-gray-600">{t('reactor.steamCycle.frequency')}</span>
+        <span
+          className={cn(
+            'font-bold text-right',
+            frequencyDeviation > 0.5 ? 'text-red-600' : frequencyDeviation > 0.2 ? 'text-orange-500' : 'text-green-600'
+          )}
+        >
+          {formatNumber(frequency, 2)} Hz
+        </span>
+        <span className="text-gray-600">{t('reactor.steamCycle.steamTemperature')}</span>
+        <span className="font-bold text-right">
+          {formatTemperature(Math.max(0, getSteamTemperature(reactorType, reactorTemperature)))}
+        </span>
+        <span className="text-gray-600">{t('reactor.steamCycle.efficiency')}</span>
+        <span className="font-bold text-right">{formatNumber(getPlantEfficiency(flows) * 100, 1)} %</span>
+      </div>
+      <div className="flex justify-between">
+        <span className={cn('font-medium', loadStatus.className)}>{loadStatus.text}</span>
+        <span className="text-gray-500">
+          {t('reactor.steamCycle.score', { percent: formatNumber(getLoadMatchScore(steamCycle)) })}
+        </span>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-2">
+        <h4 className="font-medium mb-1">{t('reactor.steamCycle.flowTitle')}</h4>
+        {flows.thermal < MIN_FLOW ? (
+          <p className="text-gray-500">{t('reactor.steamCycle.flowEmpty')}</p>
+        ) : (
+          <div className="h-52">
+            <ResponsiveContainer width="100%" height="100%">
+              <Sankey
+                data={getFlowGraph(flows)}
+                node={renderFlowNode}
+                link={renderFlowLink}
+                nodePadding={14}
+                nodeWidth={8}
+                margin={{ top: 5, right: 5, bottom: 5, left: 5 }}
+              >
+                <Tooltip formatter={(value: number) => `${formatNumber(value)} MW`} />
+              </Sankey>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-2">
+        <h4 className="font-medium mb-1">{t('reactor.steamCycle.curveTitle')}</h4>
+        <div className="h-28">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={getDemandCurve(reactorType)} margin={{ top: 15, right: 10, left: 0, bottom: 5 }}>
+              <XAxis dataKey="hour" type="number" domain={[0, 24]} ticks={[0, 6, 12, 18, 24]} unit=" h" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} width={45} />
+              <Area type="monotone" dataKey="demand" stroke="#22c55e" fill="#bbf7d0" isAnimationActive={false} />
+              {isOnline && <ReferenceLine y={flows.electric} stroke="#eab308" strokeDasharray="5 3" />}
+              <ReferenceLine x={hour} stroke="#ef4444" label={{ value: t('reactor.steamCycle.now'), fontSize: 11, position: 'top' }} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReactorSteamCycle;
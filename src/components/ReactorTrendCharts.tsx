@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Brush,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Download, Pause, Play, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  getTrendFileName,
+  TrendExportInfo,
+  TrendSample,
+  trendsToCsv,
+  trendsToJson,
+} from '@/lib/reactor-trends';
+
+interface ReactorTrendChartsProps {
+  samples: TrendSample[];
+  exportInfo: TrendExportInfo;
+  onClear: () => void;
+  className?: string;
+}
+
+// Seconds of history on screen; 0 shows everything in the buffer
+const TIME_WINDOWS = [60, 300, 900, 0];
+
+interface TrendLine {
+  key: keyof TrendSample;
+  name: string;
+  color: string;
+  dashed?: boolean;
+}
+
+export const ReactorTrendCharts = ({ samples, exportInfo, onClear, className }: ReactorTrendChartsProps) => {
+  const { t, formatNumber } = useI18n();
+  const [timeWindow, setTimeWindow] = useState(300);
+  // While paused the charts keep showing the samples from the moment of the pause
+  const [pausedSamples, setPausedSamples] = useState<TrendSample[] | null>(null);
+
+  const shown = pausedSamples ?? samples;
+  const latestTime = shown.length > 0 ? shown[shown.length - 1].time : 0;
+  const data = timeWindow > 0 ? shown.filter(sample => sample.time > latestTime - timeWindow) : shown;
+
+  const handleExport = (extension: 'csv' | 'json') => {
+    const content = extension === 'csv' ? trendsToCsv(samples) : trendsToJson(samples, exportInfo);
+    const blob = new Blob([content], { type: extension === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getTrendFileName(exportInfo.reactorType, extension);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const charts: { title: string; unit: string; digits: number; lines: TrendLine[]; domain?: [number, number] }[] = [
+    {
+      title: t('reactor.trends.temperature'),
+      unit: '°C',
+      digits: 1,
+      lines: [{ key: 'temperature', name: t('reactor.trends.temperature'), color: '#ef4444' }],
+    },
+    {
+      title: t('reactor.trends.power'),
+      unit: 'MW',
+      digits: 1,
+      lines: [
+        { key: 'thermalPower', name: t('reactor.trends.thermalPower'), color: '#f97316' },
+        { key: 'electricPower', name: t('reactor.trends.electricPower'), color: '#eab308' },
+        { key: 'demand', name: t('reactor.trends.demand'), color: '#22c55e', dashed: true },
+      ],
+    },
+    {
+      title: t('reactor.trends.reactivity'),
+      unit: '$',
+      digits: 3,
+      lines: [{ key: 'reactivity', name: t('reactor.trends.reactivity'), color: '#a855f7' }],
+    },
+    {
+      title: t('reactor.trends.settings'),
+      unit: '%',
+      digits: 1,
+      domain: [0, 100],
+      lines: [
+        { key: 'efficiency', name: t('reactor.trends.efficiency'), color: '#22c55e' },
+        { key: 'rodPosition', name: t('reactor.trends.rods'), color: '#6366f1' },
+        { key: 'coolantFlow', name: t('reactor.trends.coolantFlow'), color: '#0ea5e9' },
+      ],
+    },
+  ];
+
+  return (
+    <div className={cn('space-y-3 text-sm', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        {TIME_WINDOWS.map(seconds => (
+          <Button
+            key={seconds}
+            size="sm"
+            variant={timeWindow === seconds ? 'default' : 'outline'}
+            onClick={() => setTimeWindow(seconds)}
+          >
+            {seconds > 0 ? t('reactor.trends.minutes', { minutes: seconds / 60 }) : t('reactor.trends.all')}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          className="ml-auto"
+          onClick={() => setPausedSamples(pausedSamples ? null : samples)}
+        >
+          {pausedSamples ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+          {pausedSamples ? t('reactor.trends.resume') : t('reactor.trends.pause')}
+        </Button>
+      </div>
+
+      {samples.length === 0 ? (
+        <p className="text-gray-500">{t('reactor.trends.empty')}</p>
+      ) : (
+        charts.map(({ title, unit, digits, lines, domain }, index) => (
+          <div key={title} className="bg-gray-50 rounded-lg p-2">
+            <h4 className="font-medium mb-1">{title}</h4>
+            <div className={index === charts.length - 1 && pausedSamples ? 'h-48' : 'h-36'}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} syncId="reactor-trends" margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} unit=" s" tick={{ fontSize: 11 }} />
+                  <YAxis domain={domain ?? ['auto', 'auto']} unit={unit === '%' ? unit : undefined} tick={{ fontSize: 11 }} width={55} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [`${formatNumber(value, digits)} ${unit}`, name]}
+                    labelFormatter={label => t('reactor.trends.atSecond', { seconds: label })}
+                  />
+                  {lines.length > 1 && <Legend wrapperStyle={{ fontSize: 11 }} />}
+                  {lines.map(line => (
+                    <Line
+                      key={line.key}
+                      type="monotone"
+                      dataKey={line.key}
+                      name={line.name}
+                      stroke={line.color}
+                      strokeDasharray={line.dashed ? '5 3' : undefined}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {/* Zooming into a frozen history; the other charts follow through the shared syncId */}
+                  {index === charts.length - 1 && pausedSamples && (
+                    <Brush dataKey="time" height={20} stroke="#6366f1" />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={() => handleExport('csv')} disabled={samples.length === 0}>
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => handleExport('json')} disabled={samples.length === 0}>
+          <Download className="h-4 w-4 mr-1" />
+          JSON
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="ml-auto"
+          onClick={() => {
+            setPausedSamples(null);
+            onClear();
+          }}
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          {t('reactor.trends.clear')}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {t('reactor.trends.hint', { count: formatNumber(samples.length) })}
+      </p>
+    </div>
+  );
+};
+
+export default ReactorTrendCharts;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { setpointRanges, TripSetpoints } from '@/lib/reactor-protection';
+
+interface ReactorTripSettingsProps {
+  setpoints: TripSetpoints;
+  onChange: (setpoints: TripSetpoints) => void;
+  onResetDefaults: () => void;
+  className?: string;
+}
+
+// Trip setpoints of the reactor protection system
+export const ReactorTripSettings = ({ setpoints, onChange, onResetDefaults, className }: ReactorTripSettingsProps) => {
+  const { t, formatNumber, formatTemperature } = useI18n();
+
+  const rows: { key: keyof TripSetpoints; label: string; value: string }[] = [
+    {
+      key: 'temperature',
+      label: t('reactor.protection.setpoints.temperature'),
+      value: formatTemperature(setpoints.temperature),
+    },
+    {
+      key: 'powerRate',
+      label: t('reactor.protection.setpoints.powerRate'),
+      value: t('reactor.protection.perSecond', { value: formatNumber(setpoints.powerRate) }),
+    },
+    {
+      key: 'coolantFlow',
+      label: t('reactor.protection.setpoints.coolantFlow'),
+      value: setpoints.coolantFlow > 0
+        ? t('reactor.protection.percent', { value: formatNumber(setpoints.coolantFlow) })
+        : t('reactor.protection.setpoints.off'),
+    },
+  ];
+
+  return (
+    <div className={cn('bg-white rounded-lg p-4 text-sm border border-gray-200 space-y-3', className)}>
+      <div className="flex items-center">
+        <ShieldAlert className="h-5 w-5 mr-2 text-red-500" />
+        <h3 className="font-medium">{t('reactor.protection.setpoints.title')}</h3>
+      </div>
+      <p className="text-gray-600">{t('reactor.protection.setpoints.description')}</p>
+
+      {rows.map(({ key, label, value }) => (
+        <div key={key}>
+          <div className="flex justify-between mb-2">
+            <span>{label}</span>
+            <span className="font-bold">{value}</span>
+          </div>
+          <Slider
+            value={[setpoints[key]]}
+            onValueChange={values => onChange({ ...setpoints, [key]: values[0] })}
+            min={setpointRanges[key].min}
+            max={setpointRanges[key].max}
+            step={setpointRanges[key].step}
+          />
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" className="w-full" onClick={onResetDefaults}>
+        {t('reactor.protection.setpoints.defaults')}
+      </Button>
+    </div>
+  );
+};
+
+export default ReactorTripSettings;
@@ -1,6 +1,7 @@
 
 import React, { useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface ReactorVisualizerProps {
   className?: string;
@@ -14,6 +15,8 @@ interface ReactorVisualizerProps {
   isStable: boolean;
   warningLevel: 'none' | 'low' | 'medium' | 'high';
   emergencyDrainActive?: boolean;
+  // Plasma temperature of the fusion reactor in K; temperature is then the blanket's
+  plasmaTemperature?: number;
 }
 
 const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
@@ -27,9 +30,11 @@ const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
   reactorType,
   isStable,
   warningLevel,
-  emergencyDrainActive = false
+  emergencyDrainActive = false,
+  plasmaTemperature
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { t } = useI18n();
   
   // Draw reactor animation
   useEffect(() => {
@@ -62,7 +67,7 @@ const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
     };
     
     animate();
-  }, [temperature, coolantFlow, controlRodLevel, isRunning, coolantType, reactorType, isStable, warningLevel, emergencyDrainActive]);
+  }, [temperature, coolantFlow, controlRodLevel, isRunning, coolantType, reactorType, isStable, warningLevel, emergencyDrainActive, plasmaTemperature, t]);
   
   const drawReactor = (
     ctx: CanvasRenderingContext2D, 
@@ -315,6 +320,7 @@ const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
     if (reactorType === 'fusion' && isRunning) {
       // Draw plasma particles and fusion reactions
       const plasmaRadius = Math.min(coreWidth, coreHeight) * 0.4;
+      const plasmaHeat = plasmaTemperature ?? temperature;
       
       // Draw plasma containment field (magnetic field lines)
       for (let i = 0; i < 8; i++) {
@@ -331,7 +337,7 @@ const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
       }
       
       // Draw nucleus particles (deuterium and tritium or other fusion fuels)
-      const particleCount = Math.floor(20 + temperature / 1000000);
+      const particleCount = Math.floor(20 + plasmaHeat / 1000000);
       for (let i = 0; i < particleCount; i++) {
         const angle = Math.random() * Math.PI * 2;
         const distance = Math.random() * plasmaRadius;
@@ -376,7 +382,7 @@ const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
       }
       
       // Draw fusion reactions with glowing effects
-      if (temperature > 100000000 && efficiency > 5) {
+      if (plasmaHeat > 100000000 && efficiency > 5) {
         const reactionCount = Math.floor(efficiency / 10) + 1;
         for (let i = 0; i < reactionCount; i++) {
           if (Math.random() > 0.7) {
@@ -536,7 +542,7 @@ const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
         ctx.fillStyle = 'rgba(40, 180, 60, 0.8)';
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
-        ctx.fillText('Selbstregulierung aktiv', centerX, reactorVesselY + reactorVesselHeight + 30);
+        ctx.fillText(t('reactor.visualizer.selfRegulation'), centerX, reactorVesselY + reactorVesselHeight + 30);
       }
     }
     
@@ -546,18 +552,18 @@ const ReactorVisualizer: React.FC<ReactorVisualizerProps> = ({
     ctx.textAlign = 'center';
     ctx.textBaseline = 'top';
     
-    const reactorLabel = reactorType === 'pressurized-water' ? 'Druckwasserreaktor' :
-                        reactorType === 'fast-breeder' ? 'Schneller Brüter' : 
-                        reactorType === 'fusion' ? 'Fusionsreaktor' :
-                        'Thorium-Flüssigsalzreaktor';
+    const reactorLabel = reactorType === 'pressurized-water' ? t('reactor.types.pressurizedWater') :
+                        reactorType === 'fast-breeder' ? t('reactor.types.fastBreeder') : 
+                        reactorType === 'fusion' ? t('reactor.types.fusion') :
+                        t('reactor.types.thoriumMsr');
     
     ctx.fillText(reactorLabel, centerX, reactorVesselY + reactorVesselHeight + 10);
     
     // Status indicator
-    const statusText = !isRunning ? 'Inaktiv' : 
-                      !isStable ? 'KRITISCH!' : 
-                      emergencyDrainActive ? 'Notablauf!' :
-                      efficiency > 30 ? 'Optimale Leistung' : 'Stabil';
+    const statusText = !isRunning ? t('reactor.inactive') : 
+                      !isStable ? t('reactor.visualizer.critical') : 
+                      emergencyDrainActive ? t('reactor.visualizer.emergencyDrain') :
+                      efficiency > 30 ? t('reactor.visualizer.optimal') : t('reactor.visualizer.stable');
     
     const statusColor = !isRunning ? '#aaa' : 
                        !isStable ? '#ff0000' : 
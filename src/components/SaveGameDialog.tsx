@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Save, FolderOpen, Trash2, FilePlus } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { deleteSave, formatSaveDate, listSaveSlots, SaveSlotInfo } from '@/lib/save-game';
+
+interface SaveGameDialogProps {
+  currentSlot: string;
+  onSaveAs: (slot: string) => void;
+  onLoad: (slot: string) => void;
+  onNewGame: () => void;
+}
+
+export const SaveGameDialog = ({ currentSlot, onSaveAs, onLoad, onNewGame }: SaveGameDialogProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [slots, setSlots] = useState<SaveSlotInfo[]>([]);
+  const [newSlotName, setNewSlotName] = useState('');
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setSlots(listSaveSlots());
+      setNewSlotName('');
+    }
+  };
+
+  const handleSaveAs = () => {
+    const name = newSlotName.trim();
+    if (!name) return;
+    onSaveAs(name);
+    setOpen(false);
+  };
+
+  const handleLoad = (slot: string) => {
+    onLoad(slot);
+    setOpen(false);
+  };
+
+  const handleDelete = (slot: string) => {
+    deleteSave(slot);
+    setSlots(listSaveSlots());
+  };
+
+  const handleNewGame = () => {
+    onNewGame();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title={t('saves.title')}>
+          <Save className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{t('saves.title')}</DialogTitle>
+          <DialogDescription>{t('saves.autosaveHint', { slot: currentSlot })}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {slots.length === 0 && (
+            <p className="text-sm text-gray-500">{t('saves.noSlots')}</p>
+          )}
+          {slots.map(slot => (
+            <div
+              key={slot.name}
+              className="flex items-center justify-between p-2 rounded-lg border border-blue-100 bg-blue-50"
+            >
+              <div>
+                <div className="font-medium">
+                  {slot.name}
+                  {slot.name === currentSlot && <span className="ml-2 text-xs text-blue-600">{t('saves.active')}</span>}
+                </div>
+                <div className="text-xs text-gray-500">{formatSaveDate(slot.savedAt)}</div>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleLoad(slot.name)}
+                  disabled={slot.name === currentSlot}
+                >
+                  <FolderOpen className="mr-1 h-4 w-4" />
+                  {t('saves.load')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDelete(slot.name)}
+                  disabled={slot.name === currentSlot}
+                  title={t('saves.delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newSlotName}
+            onChange={e => setNewSlotName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSaveAs()}
+            placeholder={t('saves.newSlotPlaceholder')}
+            maxLength={40}
+          />
+          <Button onClick={handleSaveAs} disabled={!newSlotName.trim()}>
+            <Save className="mr-1 h-4 w-4" />
+            {t('saves.save')}
+          </Button>
+        </div>
+
+        <Button variant="outline" onClick={handleNewGame}>
+          <FilePlus className="mr-1 h-4 w-4" />
+          {t('saves.newGame')}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveGameDialog;
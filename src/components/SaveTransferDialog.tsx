@@ -0,0 +1,123 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { AlertCircle, Download, Upload, ArrowLeftRight } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey, MessageParams } from '@/lib/i18n';
+import { createSaveFile, getSaveFileName, parseSaveFile, SaveFileContents, SaveFileParseResult } from '@/lib/save-file';
+import { loadRadarHighScores, SaveGame } from '@/lib/save-game';
+import { getAchievementState } from '@/lib/achievements';
+import { getKnowledgeState } from '@/lib/knowledge';
+
+interface SaveTransferDialogProps {
+  currentSlot: string;
+  getSave: () => SaveGame;
+  onImport: (contents: SaveFileContents) => void;
+}
+
+interface ImportError {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const SaveTransferDialog = ({ currentSlot, getSave, onImport }: SaveTransferDialogProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [importError, setImportError] = useState<ImportError | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    setImportError(null);
+  };
+
+  const handleExport = () => {
+    const file = createSaveFile({
+      save: getSave(),
+      radarHighScores: loadRadarHighScores(),
+      achievements: getAchievementState(),
+      knowledge: getKnowledgeState(),
+    });
+    const blob = new Blob([file], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getSaveFileName(currentSlot);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let result: SaveFileParseResult;
+    try {
+      result = parseSaveFile(await file.text());
+    } catch {
+      // The file could not be read, or its contents tripped up the parser
+      setImportError({ key: 'saves.errors.unreadableFile' });
+      return;
+    }
+    if (result.success === false) {
+      setImportError({ key: result.error, params: result.params });
+      return;
+    }
+
+    onImport(result);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title={t('saves.transfer.title')}>
+          <ArrowLeftRight className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{t('saves.transfer.title')}</DialogTitle>
+          <DialogDescription>{t('saves.transfer.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3">
+          <Button onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            {t('saves.transfer.export', { slot: currentSlot })}
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            {t('saves.transfer.import')}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+
+        {importError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{t('saves.transfer.importFailed')}</AlertTitle>
+            <AlertDescription>{t(importError.key, importError.params)}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveTransferDialog;
@@ -0,0 +1,6 @@
+import * as React from "react"
+import { getAchievementState, subscribeToAchievements } from "@/lib/achievements"
+
+export function useAchievements() {
+  return React.useSyncExternalStore(subscribeToAchievements, getAchievementState)
+}
@@ -0,0 +1,27 @@
+import * as React from "react"
+import { createSave, writeSave, type GameProgress } from "@/lib/save-game"
+
+const AUTOSAVE_DELAY = 1000
+
+// Writes the progress to the given slot shortly after it stops changing,
+// and immediately when the page is closed.
+export function useAutosave(slot: string, progress: GameProgress) {
+  const serialized = JSON.stringify(progress)
+  const latestRef = React.useRef(serialized)
+  latestRef.current = serialized
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      writeSave(slot, createSave(JSON.parse(serialized)))
+    }, AUTOSAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [slot, serialized])
+
+  React.useEffect(() => {
+    const flush = () => {
+      writeSave(slot, createSave(JSON.parse(latestRef.current)))
+    }
+    window.addEventListener("pagehide", flush)
+    return () => window.removeEventListener("pagehide", flush)
+  }, [slot])
+}
@@ -0,0 +1,36 @@
+import * as React from "react"
+import {
+  formatDuration,
+  formatNumber,
+  formatScientific,
+  formatTemperature,
+  formatTime,
+  formatTimeSpan,
+  getLocale,
+  MessageKey,
+  MessageParams,
+  setLocale,
+  subscribeToLocale,
+  translate,
+} from "@/lib/i18n"
+
+export function useI18n() {
+  const locale = React.useSyncExternalStore(subscribeToLocale, getLocale)
+
+  // The formatters read the current locale themselves; depending on it here
+  // re-renders consumers whenever the language changes.
+  return React.useMemo(
+    () => ({
+      locale,
+      setLocale,
+      t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+      formatDuration,
+      formatNumber,
+      formatScientific,
+      formatTemperature,
+      formatTime,
+      formatTimeSpan,
+    }),
+    [locale]
+  )
+}
@@ -0,0 +1,7 @@
+import * as React from "react"
+import { getConceptProgress, getKnowledgeState, subscribeToKnowledge } from "@/lib/knowledge"
+
+export function useKnowledge() {
+  const state = React.useSyncExternalStore(subscribeToKnowledge, getKnowledgeState)
+  return React.useMemo(() => getConceptProgress(state), [state])
+}
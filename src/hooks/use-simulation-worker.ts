@@ -0,0 +1,37 @@
+import * as React from "react"
+
+// Runs a simulation in a Web Worker, or on the main thread where workers are
+// unavailable. Starting a new run or unmounting ends the previous worker.
+export function useSimulationWorker<Request, Result>(
+  createWorker: () => Worker,
+  simulate: (request: Request) => Result
+) {
+  const workerRef = React.useRef<Worker | null>(null)
+
+  React.useEffect(() => () => workerRef.current?.terminate(), [])
+
+  return (request: Request, onResult: (result: Result) => void, onError: () => void) => {
+    workerRef.current?.terminate()
+
+    if (typeof Worker === "undefined") {
+      onResult(simulate(request))
+      return
+    }
+    const worker = createWorker()
+    workerRef.current = worker
+    const stop = () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+    worker.onmessage = (event: MessageEvent<Result>) => {
+      stop()
+      onResult(event.data)
+    }
+    // A worker that fails to load or to answer would otherwise never finish the run
+    worker.onerror = worker.onmessageerror = () => {
+      stop()
+      onError()
+    }
+    worker.postMessage(request)
+  }
+}
@@ -0,0 +1,471 @@
+import { z } from 'zod';
+import type { LucideIcon } from 'lucide-react';
+import {
+  Atom,
+  BatteryFull,
+  BookOpenCheck,
+  CircleDot,
+  Flame,
+  FlaskConical,
+  GraduationCap,
+  Gauge,
+  Microscope,
+  Plane,
+  Radar,
+  Radiation,
+  Repeat,
+  Sprout,
+  Star,
+  Sun,
+  Zap,
+} from 'lucide-react';
+import type { MessageKey } from './i18n';
+
+// Achievements of all labs in one registry. Labs report what happened with
+// reportAchievementEvent(); every achievement unlocks once its event counter
+// reaches the target, so one-off badges are simply badges with target 1.
+// The progress is shared by all save slots, like the radar high scores.
+
+export type AchievementLab =
+  | 'fission'
+  | 'enrichment'
+  | 'reactor'
+  | 'fusion'
+  | 'chain-reaction'
+  | 'radiation'
+  | 'radar'
+  | 'mini-sun'
+  | 'quiz';
+
+export type AchievementEvent =
+  | 'fission-triggered'
+  | 'chain-reaction-triggered'
+  | 'max-energy-reached'
+  | 'fuel-bred'
+  | 'uranium-enriched'
+  | 'weapons-grade-enriched'
+  | 'reactor-started'
+  | 'reactor-meltdown'
+  | 'fusion-achieved'
+  | 'fusion-sustained'
+  | 'chain-reaction-overloaded'
+  | 'radiation-experiment'
+  | 'radar-game-finished'
+  | 'radar-high-score'
+  | 'quiz-completed'
+  | 'quiz-bank-mastered'
+  | 'mini-sun:first-fusion'
+  | 'mini-sun:main-sequence'
+  | 'mini-sun:blue-giant'
+  | 'mini-sun:perfect-stability'
+  | 'mini-sun:long-life'
+  | 'mini-sun:supernova'
+  | 'mini-sun:black-hole-created';
+
+export interface Achievement {
+  id: string;
+  lab: AchievementLab;
+  name: MessageKey;
+  description: MessageKey;
+  icon: LucideIcon;
+  // Tailwind text color of the icon
+  color: string;
+  event: AchievementEvent;
+  target: number;
+}
+
+export const achievementLabNames: Record<AchievementLab, MessageKey> = {
+  'fission': 'achievements.labs.fission',
+  'enrichment': 'achievements.labs.enrichment',
+  'reactor': 'achievements.labs.reactor',
+  'fusion': 'achievements.labs.fusion',
+  'chain-reaction': 'achievements.labs.chainReaction',
+  'radiation': 'achievements.labs.radiation',
+  'radar': 'achievements.labs.radar',
+  'mini-sun': 'achievements.labs.miniSun',
+  'quiz': 'achievements.labs.quiz',
+};
+
+export const achievements: Achievement[] = [
+  {
+    id: 'first-fission',
+    lab: 'fission',
+    name: 'achievements.items.firstFission.name',
+    description: 'achievements.items.firstFission.description',
+    icon: Atom,
+    color: 'text-blue-500',
+    event: 'fission-triggered',
+    target: 1,
+  },
+  {
+    id: 'fission-expert',
+    lab: 'fission',
+    name: 'achievements.items.fissionExpert.name',
+    description: 'achievements.items.fissionExpert.description',
+    icon: Atom,
+    color: 'text-indigo-500',
+    event: 'fission-triggered',
+    target: 50,
+  },
+  {
+    id: 'max-energy',
+    lab: 'fission',
+    name: 'achievements.items.maxEnergy.name',
+    description: 'achievements.items.maxEnergy.description',
+    icon: BatteryFull,
+    color: 'text-green-500',
+    event: 'max-energy-reached',
+    target: 1,
+  },
+  {
+    id: 'breeder',
+    lab: 'fission',
+    name: 'achievements.items.breeder.name',
+    description: 'achievements.items.breeder.description',
+    icon: Sprout,
+    color: 'text-emerald-500',
+    event: 'fuel-bred',
+    target: 1,
+  },
+  {
+    id: 'first-enrichment',
+    lab: 'enrichment',
+    name: 'achievements.items.firstEnrichment.name',
+    description: 'achievements.items.firstEnrichment.description',
+    icon: FlaskConical,
+    color: 'text-lime-500',
+    event: 'uranium-enriched',
+    target: 1,
+  },
+  {
+    id: 'enrichment-routine',
+    lab: 'enrichment',
+    name: 'achievements.items.enrichmentRoutine.name',
+    description: 'achievements.items.enrichmentRoutine.description',
+    icon: FlaskConical,
+    color: 'text-green-600',
+    event: 'uranium-enriched',
+    target: 5,
+  },
+  {
+    id: 'weapons-grade',
+    lab: 'enrichment',
+    name: 'achievements.items.weaponsGrade.name',
+    description: 'achievements.items.weaponsGrade.description',
+    icon: Radiation,
+    color: 'text-red-500',
+    event: 'weapons-grade-enriched',
+    target: 1,
+  },
+  {
+    id: 'first-reactor',
+    lab: 'reactor',
+    name: 'achievements.items.firstReactor.name',
+    description: 'achievements.items.firstReactor.description',
+    icon: Gauge,
+    color: 'text-cyan-500',
+    event: 'reactor-started',
+    target: 1,
+  },
+  {
+    id: 'reactor-veteran',
+    lab: 'reactor',
+    name: 'achievements.items.reactorVeteran.name',
+    description: 'achievements.items.reactorVeteran.description',
+    icon: Gauge,
+    color: 'text-blue-600',
+    event: 'reactor-started',
+    target: 10,
+  },
+  {
+    id: 'meltdown',
+    lab: 'reactor',
+    name: 'achievements.items.meltdown.name',
+    description: 'achievements.items.meltdown.description',
+    icon: Flame,
+    color: 'text-red-600',
+    event: 'reactor-meltdown',
+    target: 1,
+  },
+  {
+    id: 'fusion-achieved',
+    lab: 'fusion',
+    name: 'achievements.items.fusionAchieved.name',
+    description: 'achievements.items.fusionAchieved.description',
+    icon: Sun,
+    color: 'text-yellow-500',
+    event: 'fusion-achieved',
+    target: 1,
+  },
+  {
+    id: 'fusion-sustained',
+    lab: 'fusion',
+    name: 'achievements.items.fusionSustained.name',
+    description: 'achievements.items.fusionSustained.description',
+    icon: Star,
+    color: 'text-orange-500',
+    event: 'fusion-sustained',
+    target: 1,
+  },
+  {
+    id: 'first-chain-reaction',
+    lab: 'chain-reaction',
+    name: 'achievements.items.firstChainReaction.name',
+    description: 'achievements.items.firstChainReaction.description',
+    icon: Repeat,
+    color: 'text-purple-500',
+    event: 'chain-reaction-triggered',
+    target: 1,
+  },
+  {
+    id: 'ten-chain-reactions',
+    lab: 'chain-reaction',
+    name: 'achievements.items.tenChainReactions.name',
+    description: 'achievements.items.tenChainReactions.description',
+    icon: Repeat,
+    color: 'text-fuchsia-500',
+    event: 'chain-reaction-triggered',
+    target: 10,
+  },
+  {
+    id: 'chain-overload',
+    lab: 'chain-reaction',
+    name: 'achievements.items.chainOverload.name',
+    description: 'achievements.items.chainOverload.description',
+    icon: Zap,
+    color: 'text-amber-500',
+    event: 'chain-reaction-overloaded',
+    target: 1,
+  },
+  {
+    id: 'first-radiation-experiment',
+    lab: 'radiation',
+    name: 'achievements.items.firstRadiationExperiment.name',
+    description: 'achievements.items.firstRadiationExperiment.description',
+    icon: Microscope,
+    color: 'text-teal-500',
+    event: 'radiation-experiment',
+    target: 1,
+  },
+  {
+    id: 'radiation-expert',
+    lab: 'radiation',
+    name: 'achievements.items.radiationExpert.name',
+    description: 'achievements.items.radiationExpert.description',
+    icon: Radiation,
+    color: 'text-yellow-600',
+    event: 'radiation-experiment',
+    target: 10,
+  },
+  {
+    id: 'first-radar-flight',
+    lab: 'radar',
+    name: 'achievements.items.firstRadarFlight.name',
+    description: 'achievements.items.firstRadarFlight.description',
+    icon: Plane,
+    color: 'text-sky-500',
+    event: 'radar-game-finished',
+    target: 1,
+  },
+  {
+    id: 'radar-ace',
+    lab: 'radar',
+    name: 'achievements.items.radarAce.name',
+    description: 'achievements.items.radarAce.description',
+    icon: Radar,
+    color: 'text-blue-500',
+    event: 'radar-high-score',
+    target: 1,
+  },
+  {
+    id: 'first-fusion',
+    lab: 'mini-sun',
+    name: 'achievements.items.firstFusion.name',
+    description: 'achievements.items.firstFusion.description',
+    icon: Flame,
+    color: 'text-orange-500',
+    event: 'mini-sun:first-fusion',
+    target: 1,
+  },
+  {
+    id: 'main-sequence',
+    lab: 'mini-sun',
+    name: 'achievements.items.mainSequence.name',
+    description: 'achievements.items.mainSequence.description',
+    icon: Sun,
+    color: 'text-yellow-500',
+    event: 'mini-sun:main-sequence',
+    target: 1,
+  },
+  {
+    id: 'blue-giant',
+    lab: 'mini-sun',
+    name: 'achievements.items.blueGiant.name',
+    description: 'achievements.items.blueGiant.description',
+    icon: Star,
+    color: 'text-blue-500',
+    event: 'mini-sun:blue-giant',
+    target: 1,
+  },
+  {
+    id: 'perfect-stability',
+    lab: 'mini-sun',
+    name: 'achievements.items.perfectStability.name',
+    description: 'achievements.items.perfectStability.description',
+    icon: CircleDot,
+    color: 'text-purple-500',
+    event: 'mini-sun:perfect-stability',
+    target: 1,
+  },
+  {
+    id: 'long-life',
+    lab: 'mini-sun',
+    name: 'achievements.items.longLife.name',
+    description: 'achievements.items.longLife.description',
+    icon: Zap,
+    color: 'text-green-500',
+    event: 'mini-sun:long-life',
+    target: 1,
+  },
+  {
+    id: 'supernova',
+    lab: 'mini-sun',
+    name: 'achievements.items.supernova.name',
+    description: 'achievements.items.supernova.description',
+    icon: Flame,
+    color: 'text-red-500',
+    event: 'mini-sun:supernova',
+    target: 1,
+  },
+  {
+    id: 'black-hole-created',
+    lab: 'mini-sun',
+    name: 'achievements.items.blackHoleCreated.name',
+    description: 'achievements.items.blackHoleCreated.description',
+    icon: CircleDot,
+    color: 'text-gray-900',
+    event: 'mini-sun:black-hole-created',
+    target: 1,
+  },
+  {
+    id: 'first-quiz',
+    lab: 'quiz',
+    name: 'achievements.items.firstQuiz.name',
+    description: 'achievements.items.firstQuiz.description',
+    icon: BookOpenCheck,
+    color: 'text-violet-500',
+    event: 'quiz-completed',
+    target: 1,
+  },
+  {
+    id: 'quiz-master',
+    lab: 'quiz',
+    name: 'achievements.items.quizMaster.name',
+    description: 'achievements.items.quizMaster.description',
+    icon: GraduationCap,
+    color: 'text-violet-700',
+    event: 'quiz-bank-mastered',
+    target: 8,
+  },
+];
+
+export const getAchievement = (id: string) => achievements.find(achievement => achievement.id === id);
+
+export const getLabAchievements = (lab: AchievementLab) =>
+  achievements.filter(achievement => achievement.lab === lab);
+
+export interface AchievementState {
+  // Achievement id -> ISO date of the unlock
+  unlocked: Record<string, string>;
+  // Event -> how often it was reported
+  counters: Record<string, number>;
+}
+
+export const achievementStateSchema: z.ZodType<AchievementState, z.ZodTypeDef, unknown> = z.object({
+  unlocked: z.record(z.string()).default({}),
+  counters: z.record(z.number().nonnegative()).default({}),
+}) as z.ZodType<AchievementState, z.ZodTypeDef, unknown>;
+
+const ACHIEVEMENTS_KEY = 'atom-abenteuer:achievements';
+
+const emptyState: AchievementState = { unlocked: {}, counters: {} };
+
+const readState = (): AchievementState => {
+  try {
+    const value = localStorage.getItem(ACHIEVEMENTS_KEY);
+    const result = achievementStateSchema.safeParse(value ? JSON.parse(value) : {});
+    return result.success ? result.data : emptyState;
+  } catch {
+    return emptyState;
+  }
+};
+
+let state: AchievementState | null = null;
+
+type AchievementListener = (state: AchievementState, newlyUnlocked: Achievement[]) => void;
+
+const listeners = new Set<AchievementListener>();
+
+export const getAchievementState = (): AchievementState => {
+  if (!state) {
+    state = readState();
+  }
+  return state;
+};
+
+const setState = (next: AchievementState, newlyUnlocked: Achievement[]) => {
+  state = next;
+  try {
+    localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(next));
+  } catch {
+    // Achievements still work for this visit without storage
+  }
+  listeners.forEach(listener => listener(next, newlyUnlocked));
+};
+
+// Calls the listener after every change, with the achievements unlocked by it
+export const subscribeToAchievements = (listener: AchievementListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const reportAchievementEvent = (event: AchievementEvent, amount = 1) => {
+  const current = getAchievementState();
+  const count = (current.counters[event] ?? 0) + amount;
+  const unlockedAt = new Date().toISOString();
+
+  const newlyUnlocked = achievements.filter(achievement =>
+    achievement.event === event && count >= achievement.target && !current.unlocked[achievement.id]
+  );
+
+  setState({
+    counters: { ...current.counters, [event]: count },
+    unlocked: {
+      ...current.unlocked,
+      ...Object.fromEntries(newlyUnlocked.map(achievement => [achievement.id, unlockedAt])),
+    },
+  }, newlyUnlocked);
+};
+
+export const getAchievementProgress = (achievement: Achievement, current = getAchievementState()) =>
+  Math.min(achievement.target, current.counters[achievement.event] ?? 0);
+
+// Keeps the higher counter and the earlier unlock of both states, e.g. when importing a save file
+export const mergeAchievementState = (imported: AchievementState) => {
+  const current = getAchievementState();
+  const counters = { ...current.counters };
+  Object.entries(imported.counters).forEach(([event, count]) => {
+    counters[event] = Math.max(counters[event] ?? 0, count);
+  });
+
+  const unlocked = { ...current.unlocked };
+  Object.entries(imported.unlocked).forEach(([id, unlockedAt]) => {
+    if (!unlocked[id] || unlockedAt < unlocked[id]) {
+      unlocked[id] = unlockedAt;
+    }
+  });
+
+  setState({ counters, unlocked }, []);
+};
@@ -0,0 +1,131 @@
+import { createRng, Rng } from './rng';
+
+// The chain reaction as a branching process: every neutron is either lost
+// (absorbed without fission or escaped) or splits a nucleus that sets free one
+// to three new neutrons. On average each neutron leaves k successors, so the
+// expected population grows like k^n, but each single chain is a gamble: a
+// few neutrons can all be lost by chance even when k is above 1. The Monte
+// Carlo trials show that spread next to the exact extinction probability of
+// the process. Seedable, so the worker's runs can be replayed.
+
+export interface BranchingRequest {
+  initialNeutrons: number;
+  k: number;
+  generations: number;
+  trials: number;
+  seed: number;
+}
+
+export interface BranchingResult {
+  // A sample of single trials, neutrons per generation
+  paths: number[][];
+  // Mean neutrons per generation over all trials
+  mean: number[];
+  // Share of trials extinct by each generation
+  extinction: number[];
+  // Exact probability to be extinct by each generation
+  expectedExtinction: number[];
+  // Exact probability that the chain dies out at all
+  ultimateExtinction: number;
+  trials: number;
+}
+
+// Chance that a fission sets free one, two or three neutrons
+export const FISSION_NEUTRONS = [0.15, 0.45, 0.4];
+const MEAN_FISSION_NEUTRONS = FISSION_NEUTRONS.reduce((sum, chance, i) => sum + chance * (i + 1), 0);
+// Largest k the distribution can reach: every neutron splits a nucleus
+export const MAX_BRANCHING_K = MEAN_FISSION_NEUTRONS;
+// Above this many neutrons their offspring is drawn as one normal sample
+const EXACT_LIMIT = 500;
+const SAMPLE_PATHS = 40;
+
+// Chances of 0, 1, 2 and 3 successors for a mean of k
+export const getOffspringDistribution = (k: number) => {
+  const fission = Math.min(1, Math.max(0, k / MEAN_FISSION_NEUTRONS));
+  return [1 - fission, ...FISSION_NEUTRONS.map(chance => fission * chance)];
+};
+
+// Generating function f(s) = Σ p_i s^i of the successors of one neutron
+const getGeneratingFunction = (k: number) => {
+  const distribution = getOffspringDistribution(k);
+  return (s: number) => distribution.reduce((sum, chance, i) => sum + chance * s ** i, 0);
+};
+
+// Chance that all chains of the initial neutrons are gone by each generation:
+// one chain dies by generation n + 1 if all successors' chains die by n
+export const getExtinctionCurve = (k: number, initialNeutrons: number, generations: number) => {
+  const f = getGeneratingFunction(k);
+  const curve = [0];
+  let single = 0;
+  for (let generation = 1; generation <= generations; generation++) {
+    single = f(single);
+    curve.push(single ** initialNeutrons);
+  }
+  return curve;
+};
+
+// The smallest solution of s = f(s); 1 for k ≤ 1
+export const getUltimateExtinction = (k: number, initialNeutrons: number) => {
+  const f = getGeneratingFunction(k);
+  let single = 0;
+  for (let i = 0; i < 10000; i++) {
+    const next = f(single);
+    if (Math.abs(next - single) < 1e-12) break;
+    single = next;
+  }
+  return single ** initialNeutrons;
+};
+
+const sampleNormal = (rng: Rng) => {
+  const u = Math.max(rng(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+const getNextGeneration = (rng: Rng, neutrons: number, distribution: number[], k: number) => {
+  if (neutrons > EXACT_LIMIT) {
+    const variance = distribution.reduce((sum, chance, i) => sum + chance * i ** 2, 0) - k ** 2;
+    return Math.max(0, Math.round(neutrons * k + Math.sqrt(neutrons * variance) * sampleNormal(rng)));
+  }
+  let successors = 0;
+  for (let i = 0; i < neutrons; i++) {
+    let roll = rng();
+    for (let count = 0; count < distribution.length; count++) {
+      roll -= distribution[count];
+      if (roll < 0) {
+        successors += count;
+        break;
+      }
+    }
+  }
+  return successors;
+};
+
+export const runBranchingTrials = ({ initialNeutrons, k, generations, trials, seed }: BranchingRequest): BranchingResult => {
+  const rng = createRng(seed);
+  const distribution = getOffspringDistribution(k);
+  const paths: number[][] = [];
+  const totals = new Array<number>(generations + 1).fill(0);
+  const extinct = new Array<number>(generations + 1).fill(0);
+
+  for (let trial = 0; trial < trials; trial++) {
+    const path = [initialNeutrons];
+    let neutrons = initialNeutrons;
+    totals[0] += neutrons;
+    for (let generation = 1; generation <= generations; generation++) {
+      neutrons = neutrons > 0 ? getNextGeneration(rng, neutrons, distribution, k) : 0;
+      path.push(neutrons);
+      totals[generation] += neutrons;
+      if (neutrons === 0) extinct[generation]++;
+    }
+    if (trial < SAMPLE_PATHS) paths.push(path);
+  }
+
+  return {
+    paths,
+    mean: totals.map(total => total / trials),
+    extinction: extinct.map(count => count / trials),
+    expectedExtinction: getExtinctionCurve(k, initialNeutrons, generations),
+    ultimateExtinction: getUltimateExtinction(k, initialNeutrons),
+    trials,
+  };
+};
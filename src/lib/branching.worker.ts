@@ -0,0 +1,10 @@
+import { BranchingRequest, MAX_BRANCHING_K, runBranchingTrials } from './branching';
+
+// Runs the Monte Carlo trials of the chain reaction off the main thread
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<BranchingRequest>) => {
+  // No neutron can have more successors than a fission sets free
+  const k = Math.min(MAX_BRANCHING_K, Math.max(0, event.data.k));
+  scope.postMessage(runBranchingTrials({ ...event.data, k }));
+};
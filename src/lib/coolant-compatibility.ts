@@ -0,0 +1,86 @@
+import type { MessageKey } from './i18n';
+import type { CoolantType, FissionReactorType } from './reactor-kinetics';
+
+// Which coolant suits which reactor, and what happens with the odd pairings.
+// A coolant is more than a heat carrier: water slows the neutrons down, salt
+// freezes in cold pipes, liquid metal is braked by magnetic fields and sodium
+// burns when it meets the water in a steam generator. The kinetics model and
+// the lab read these effects from here, the UI the explanations.
+
+export type ReactorType = FissionReactorType | 'fusion';
+export type CoolantCompatibility = 'ideal' | 'possible' | 'risky' | 'impossible';
+
+export interface CoolantPairing {
+  compatibility: CoolantCompatibility;
+  // Reactivity the coolant adds by slowing neutrons down, or takes away by not doing so, in pcm
+  moderation: number;
+  // Factor on the heat the coolant carries away
+  heatTransfer: number;
+  // Factor on the conversion ratio: slowed neutrons breed less
+  breeding: number;
+  // Below this temperature the coolant is solid and carries no heat, °C
+  freezingPoint?: number;
+  // Chance per second of running that a leak lets sodium meet the water of the steam generator
+  sodiumWaterRisk?: number;
+  explanation: MessageKey;
+}
+
+// Fluoride salts of lithium and beryllium melt at about 460 °C
+const SALT_FREEZING_POINT = 460;
+
+const pairing = (
+  compatibility: CoolantCompatibility,
+  explanation: MessageKey,
+  effects: Partial<Omit<CoolantPairing, 'compatibility' | 'explanation'>> = {}
+): CoolantPairing => ({ compatibility, moderation: 0, heatTransfer: 1, breeding: 1, explanation, ...effects });
+
+export const coolantCompatibility: Record<ReactorType, Record<CoolantType, CoolantPairing>> = {
+  'pressurized-water': {
+    'water': pairing('ideal', 'reactor.compatibility.pwrWater'),
+    // Without a moderator the neutrons stay fast, and the slightly enriched
+    // uranium cannot keep a chain reaction going
+    'sodium': pairing('risky', 'reactor.compatibility.pwrSodium', { moderation: -4000, sodiumWaterRisk: 0.01 }),
+    'helium': pairing('risky', 'reactor.compatibility.pwrHelium', { moderation: -4000 }),
+    'molten-salt': pairing('risky', 'reactor.compatibility.pwrSalt', { moderation: -1200, freezingPoint: SALT_FREEZING_POINT }),
+  },
+  'fast-breeder': {
+    // Slowed neutrons split plutonium more readily but hardly turn U-238 into new fuel
+    'water': pairing('risky', 'reactor.compatibility.breederWater', { moderation: 80, breeding: 0.3 }),
+    // The intermediate sodium loop keeps the core's sodium away from the water
+    'sodium': pairing('ideal', 'reactor.compatibility.breederSodium'),
+    'helium': pairing('possible', 'reactor.compatibility.breederHelium', { breeding: 1.1 }),
+    'molten-salt': pairing('possible', 'reactor.compatibility.breederSalt', { moderation: 40, breeding: 0.9, freezingPoint: SALT_FREEZING_POINT }),
+  },
+  'thorium-msr': {
+    'water': pairing('impossible', 'reactor.compatibility.msrWithoutSalt'),
+    'sodium': pairing('impossible', 'reactor.compatibility.msrWithoutSalt'),
+    'helium': pairing('impossible', 'reactor.compatibility.msrWithoutSalt'),
+    // The standby heaters keep the fuel salt above its freezing point
+    'molten-salt': pairing('ideal', 'reactor.compatibility.msrSalt', { freezingPoint: SALT_FREEZING_POINT }),
+  },
+  'fusion': {
+    'water': pairing('possible', 'reactor.compatibility.fusionWater'),
+    // Liquid metal flowing across the magnetic field is braked like a magnet in a copper pipe
+    'sodium': pairing('risky', 'reactor.compatibility.fusionSodium', { heatTransfer: 0.4, sodiumWaterRisk: 0.01 }),
+    'helium': pairing('ideal', 'reactor.compatibility.fusionHelium'),
+    'molten-salt': pairing('possible', 'reactor.compatibility.fusionSalt'),
+  },
+};
+
+export const compatibilityLabels: Record<CoolantCompatibility, MessageKey> = {
+  'ideal': 'reactor.compatibility.levels.ideal',
+  'possible': 'reactor.compatibility.levels.possible',
+  'risky': 'reactor.compatibility.levels.risky',
+  'impossible': 'reactor.compatibility.levels.impossible',
+};
+
+export const getCoolantPairing = (reactorType: ReactorType, coolantType: CoolantType) =>
+  coolantCompatibility[reactorType][coolantType];
+
+export const canCombine = (reactorType: ReactorType, coolantType: CoolantType) =>
+  getCoolantPairing(reactorType, coolantType).compatibility !== 'impossible';
+
+export const isFrozen = (reactorType: ReactorType, coolantType: CoolantType, temperature: number) => {
+  const { freezingPoint } = getCoolantPairing(reactorType, coolantType);
+  return freezingPoint !== undefined && temperature < freezingPoint;
+};
@@ -0,0 +1,313 @@
+import { createRng, Rng } from './rng';
+
+// Monte Carlo estimate of k-effective for a lump of fissile metal, optionally
+// wrapped in a reflector. Neutrons fly straight between collisions, scatter,
+// get captured, cause fissions or escape, exactly as in the big transport
+// codes, but with one fast and one thermal energy group and isotropic
+// scattering. Each cycle starts the neutrons at the previous cycle's fission
+// sites; k is the number of new fission neutrons per started neutron.
+// Flights are sampled by delta tracking (Woodcock): every material is padded
+// to the largest cross section with virtual collisions, so the geometry only
+// has to answer which material a point lies in. Lengths in cm.
+
+export type FissileMaterial = 'uranium235' | 'plutonium239';
+export type FuelShape = 'sphere' | 'cylinder' | 'slab';
+export type ReflectorMaterial = 'none' | 'water' | 'graphite' | 'beryllium' | 'tungsten-carbide';
+export type NeutronFate = 'fission' | 'capture' | 'reflector' | 'leakage';
+
+export interface CriticalitySetup {
+  fuel: FissileMaterial;
+  shape: FuelShape;
+  mass: number; // kg
+  // Height over diameter of the cylinder, edge over thickness of the slab
+  elongation: number;
+  // Density relative to the metal at rest; implosion bombs squeeze it above 1
+  density: number;
+  reflector: ReflectorMaterial;
+  reflectorThickness: number;
+}
+
+export interface CriticalityRequest {
+  setup: CriticalitySetup;
+  neutronsPerCycle: number;
+  // Cycles to let the fission sites settle before counting
+  inactiveCycles: number;
+  activeCycles: number;
+  seed: number;
+}
+
+export interface TrackPoint {
+  x: number;
+  y: number;
+  thermal: boolean;
+}
+
+export interface NeutronTrack {
+  points: TrackPoint[];
+  fate: NeutronFate;
+}
+
+export interface CriticalityResult {
+  kEffective: number;
+  // Standard error of k over the active cycles
+  uncertainty: number;
+  // Share of the neutrons that end in each way
+  fates: Record<NeutronFate, number>;
+  // Share of the fissions caused by neutrons that were in the reflector
+  reflectedFissions: number;
+  // Share of the fissions caused by slowed-down neutrons
+  thermalFissions: number;
+  // A few histories of the last cycle, seen from the side
+  tracks: NeutronTrack[];
+}
+
+export interface FuelGeometry {
+  shape: FuelShape;
+  // Half extents along x and y of the side view; the sphere's radius in both
+  halfWidth: number;
+  halfHeight: number;
+  // Half extent along z, out of the side view
+  halfDepth: number;
+}
+
+interface GroupCrossSections {
+  // Macroscopic cross sections in 1/cm
+  fission: number;
+  capture: number;
+  scatter: number;
+  // Chance that a scattered fast neutron ends up thermal
+  slowdown: number;
+}
+
+interface MaterialData {
+  density: number; // g/cm³
+  fast: GroupCrossSections;
+  thermal: GroupCrossSections;
+}
+
+interface FuelData extends MaterialData {
+  // Neutrons per fission
+  nu: { fast: number; thermal: number };
+}
+
+const noFission = { fission: 0 };
+
+// The metal itself barely slows neutrons down, but a thermal neutron that
+// reaches it is swallowed within a fraction of a millimetre
+export const fuelData: Record<FissileMaterial, FuelData> = {
+  'uranium235': {
+    density: 18.7,
+    fast: { fission: 0.0595, capture: 0.0045, scatter: 0.2, slowdown: 0 },
+    thermal: { fission: 28.1, capture: 4.75, scatter: 0.72, slowdown: 0 },
+    nu: { fast: 2.6, thermal: 2.43 },
+  },
+  'plutonium239': {
+    density: 19.8,
+    fast: { fission: 0.09, capture: 0.0025, scatter: 0.21, slowdown: 0 },
+    thermal: { fission: 37.3, capture: 13.5, scatter: 0.4, slowdown: 0 },
+    nu: { fast: 3.1, thermal: 2.87 },
+  },
+};
+
+// Light nuclei take much energy per collision and moderate; heavy tungsten
+// throws fast neutrons back nearly unchanged
+export const reflectorData: Record<Exclude<ReflectorMaterial, 'none'>, MaterialData> = {
+  'water': {
+    density: 1,
+    fast: { ...noFission, capture: 0.0005, scatter: 0.2, slowdown: 0.04 },
+    thermal: { ...noFission, capture: 0.022, scatter: 3.45, slowdown: 0 },
+  },
+  'graphite': {
+    density: 1.7,
+    fast: { ...noFission, capture: 0.0001, scatter: 0.22, slowdown: 0.009 },
+    thermal: { ...noFission, capture: 0.00028, scatter: 0.385, slowdown: 0 },
+  },
+  'beryllium': {
+    density: 1.85,
+    fast: { ...noFission, capture: 0.0005, scatter: 0.33, slowdown: 0.0115 },
+    thermal: { ...noFission, capture: 0.0011, scatter: 0.74, slowdown: 0 },
+  },
+  'tungsten-carbide': {
+    density: 15.6,
+    fast: { ...noFission, capture: 0.005, scatter: 0.39, slowdown: 0.003 },
+    thermal: { ...noFission, capture: 0.86, scatter: 0.3, slowdown: 0 },
+  },
+};
+
+// Bare spheres of the metal at normal density that are just critical, kg
+export const bareCriticalMasses: Record<FissileMaterial, number> = {
+  'uranium235': 52,
+  'plutonium239': 10,
+};
+
+const MAX_COLLISIONS = 20000;
+const TRACKED_NEUTRONS = 30;
+
+const getTotal = (xs: GroupCrossSections) => xs.fission + xs.capture + xs.scatter;
+
+const scaleCrossSections = (xs: GroupCrossSections, factor: number): GroupCrossSections => ({
+  ...xs,
+  fission: xs.fission * factor,
+  capture: xs.capture * factor,
+  scatter: xs.scatter * factor,
+});
+
+// Dimensions of a fuel lump of the given mass, density and shape. The
+// cylinder stands along y, the slab lies in the y–z plane.
+export const getFuelGeometry = (setup: CriticalitySetup): FuelGeometry => {
+  const volume = (setup.mass * 1000) / (fuelData[setup.fuel].density * setup.density);
+  if (setup.shape === 'sphere') {
+    const radius = Math.cbrt((3 * volume) / (4 * Math.PI));
+    return { shape: 'sphere', halfWidth: radius, halfHeight: radius, halfDepth: radius };
+  }
+  if (setup.shape === 'cylinder') {
+    // V = π r² · 2r · elongation
+    const radius = Math.cbrt(volume / (2 * Math.PI * setup.elongation));
+    return { shape: 'cylinder', halfWidth: radius, halfHeight: radius * setup.elongation, halfDepth: radius };
+  }
+  // V = t · (t · elongation)²
+  const thickness = Math.cbrt(volume / setup.elongation ** 2);
+  const edge = thickness * setup.elongation;
+  return { shape: 'slab', halfWidth: thickness / 2, halfHeight: edge / 2, halfDepth: edge / 2 };
+};
+
+// Distance from a point to the fuel surface, negative inside
+export const getFuelDistance = (geometry: FuelGeometry, x: number, y: number, z: number) => {
+  if (geometry.shape === 'sphere') {
+    return Math.sqrt(x * x + y * y + z * z) - geometry.halfWidth;
+  }
+  if (geometry.shape === 'cylinder') {
+    const radial = Math.sqrt(x * x + z * z) - geometry.halfWidth;
+    const axial = Math.abs(y) - geometry.halfHeight;
+    return Math.min(Math.max(radial, axial), 0) + Math.hypot(Math.max(radial, 0), Math.max(axial, 0));
+  }
+  const dx = Math.abs(x) - geometry.halfWidth;
+  const dy = Math.abs(y) - geometry.halfHeight;
+  const dz = Math.abs(z) - geometry.halfDepth;
+  return Math.min(Math.max(dx, dy, dz), 0) + Math.hypot(Math.max(dx, 0), Math.max(dy, 0), Math.max(dz, 0));
+};
+
+const sampleDirection = (rng: Rng) => {
+  const cosine = 2 * rng() - 1;
+  const sine = Math.sqrt(1 - cosine * cosine);
+  const angle = 2 * Math.PI * rng();
+  return { u: sine * Math.cos(angle), v: cosine, w: sine * Math.sin(angle) };
+};
+
+const sampleFuelPoint = (rng: Rng, geometry: FuelGeometry) => {
+  for (;;) {
+    const x = (2 * rng() - 1) * geometry.halfWidth;
+    const y = (2 * rng() - 1) * geometry.halfHeight;
+    const z = (2 * rng() - 1) * geometry.halfDepth;
+    if (getFuelDistance(geometry, x, y, z) <= 0) return { x, y, z };
+  }
+};
+
+export const runCriticality = ({ setup, neutronsPerCycle, inactiveCycles, activeCycles, seed }: CriticalityRequest): CriticalityResult => {
+  const rng = createRng(seed);
+  const geometry = getFuelGeometry(setup);
+  const fuel = fuelData[setup.fuel];
+  const reflector = setup.reflector !== 'none' && setup.reflectorThickness > 0 ? reflectorData[setup.reflector] : null;
+  const reflectorThickness = reflector ? setup.reflectorThickness : 0;
+
+  const groups = ['fast', 'thermal'] as const;
+  const fuelXs = groups.map(group => scaleCrossSections(fuel[group], setup.density));
+  const reflectorXs = reflector ? groups.map(group => reflector[group]) : null;
+  const majorants = groups.map((_, g) => Math.max(getTotal(fuelXs[g]), reflectorXs ? getTotal(reflectorXs[g]) : 0));
+  const nu = [fuel.nu.fast, fuel.nu.thermal];
+
+  const fates: Record<NeutronFate, number> = { fission: 0, capture: 0, reflector: 0, leakage: 0 };
+  let fissions = 0;
+  let reflectedFissions = 0;
+  let thermalFissions = 0;
+  const cycleK: number[] = [];
+  let tracks: NeutronTrack[] = [];
+
+  let sources = Array.from({ length: neutronsPerCycle }, () => sampleFuelPoint(rng, geometry));
+
+  for (let cycle = 0; cycle < inactiveCycles + activeCycles; cycle++) {
+    const active = cycle >= inactiveCycles;
+    const lastCycle = cycle === inactiveCycles + activeCycles - 1;
+    const bank: { x: number; y: number; z: number }[] = [];
+    const cycleTracks: NeutronTrack[] = [];
+
+    sources.forEach((source, index) => {
+      let { x, y, z } = source;
+      let { u, v, w } = sampleDirection(rng);
+      let group = 0;
+      let visitedReflector = false;
+      const points: TrackPoint[] | null = lastCycle && index < TRACKED_NEUTRONS ? [{ x, y, thermal: false }] : null;
+      let fate: NeutronFate = 'capture';
+
+      for (let collisions = 0; collisions < MAX_COLLISIONS; collisions++) {
+        const distance = -Math.log(1 - rng()) / majorants[group];
+        x += u * distance;
+        y += v * distance;
+        z += w * distance;
+
+        const fuelDistance = getFuelDistance(geometry, x, y, z);
+        const inFuel = fuelDistance <= 0;
+        if (!inFuel && fuelDistance > reflectorThickness) {
+          fate = 'leakage';
+          break;
+        }
+        const xs = inFuel ? fuelXs[group] : reflectorXs[group];
+        const total = getTotal(xs);
+        if (rng() * majorants[group] >= total) continue; // virtual collision
+        if (!inFuel) visitedReflector = true;
+        points?.push({ x, y, thermal: group === 1 });
+
+        const roll = rng() * total;
+        if (roll < xs.fission) {
+          fate = 'fission';
+          const born = Math.floor(nu[group]) + (rng() < nu[group] % 1 ? 1 : 0);
+          for (let i = 0; i < born; i++) bank.push({ x, y, z });
+          if (active) {
+            fissions++;
+            if (visitedReflector) reflectedFissions++;
+            if (group === 1) thermalFissions++;
+          }
+          break;
+        }
+        if (roll < xs.fission + xs.capture) {
+          fate = inFuel ? 'capture' : 'reflector';
+          break;
+        }
+        if (group === 0 && rng() < xs.slowdown) group = 1;
+        ({ u, v, w } = sampleDirection(rng));
+      }
+
+      if (points) {
+        if (fate === 'leakage') points.push({ x, y, thermal: group === 1 });
+        cycleTracks.push({ points, fate });
+      }
+      if (active) fates[fate]++;
+    });
+
+    if (active) cycleK.push(bank.length / sources.length);
+    if (lastCycle) tracks = cycleTracks;
+
+    // The fission sites of this cycle are the sources of the next
+    sources = bank.length > 0
+      ? Array.from({ length: neutronsPerCycle }, () => bank[Math.floor(rng() * bank.length)])
+      : Array.from({ length: neutronsPerCycle }, () => sampleFuelPoint(rng, geometry));
+  }
+
+  const kEffective = cycleK.reduce((sum, k) => sum + k, 0) / cycleK.length;
+  const variance = cycleK.reduce((sum, k) => sum + (k - kEffective) ** 2, 0) / Math.max(1, cycleK.length - 1);
+  const histories = neutronsPerCycle * activeCycles;
+
+  return {
+    kEffective,
+    uncertainty: Math.sqrt(variance / cycleK.length),
+    fates: {
+      fission: fates.fission / histories,
+      capture: fates.capture / histories,
+      reflector: fates.reflector / histories,
+      leakage: fates.leakage / histories,
+    },
+    reflectedFissions: fissions > 0 ? reflectedFissions / fissions : 0,
+    thermalFissions: fissions > 0 ? thermalFissions / fissions : 0,
+    tracks,
+  };
+};
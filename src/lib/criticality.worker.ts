@@ -0,0 +1,8 @@
+import { CriticalityRequest, runCriticality } from './criticality';
+
+// Runs the neutron transport of the criticality explorer off the main thread
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<CriticalityRequest>) => {
+  scope.postMessage(runCriticality(event.data));
+};
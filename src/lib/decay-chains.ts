@@ -0,0 +1,204 @@
+import type { MessageKey } from './i18n';
+import { getNuclide, Nuclide, NuclideId } from './nuclides';
+
+// Decay chains from the nuclide registry, solved exactly with the Bateman
+// equations. Every member decays with its own constant λ = ln 2 / T½ and feeds
+// its daughters, so each amount is a sum of exponentials, one per member:
+//   N_n(t) = Σ_i C[n][i] · e^(−λ_i t)
+// The coefficients follow member by member from the parents' coefficients,
+// which also covers branching decays such as Mo-99 → Tc-99m or Tc-99.
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const YEAR = 365.25 * DAY;
+
+export type DecayChainPresetId = 'uranium-series' | 'radium' | 'strontium' | 'molybdenum' | 'iodine' | 'breeding';
+export type EquilibriumKind = 'secular' | 'transient' | 'none';
+
+export interface DecayChainPreset {
+  id: DecayChainPresetId;
+  name: MessageKey;
+  description: MessageKey;
+  // First member; the rest of the chain follows the daughters in the registry
+  parent: NuclideId;
+  // Chart window in seconds; a logarithmic axis cannot start at zero
+  start: number;
+  end: number;
+  logarithmic: boolean;
+  ticks: number[];
+}
+
+export const decayChainPresets: DecayChainPreset[] = [
+  {
+    id: 'uranium-series',
+    name: 'chainReaction.decayChains.presets.uraniumSeries.name',
+    description: 'chainReaction.decayChains.presets.uraniumSeries.description',
+    parent: 'uranium238',
+    start: DAY,
+    end: 3e10 * YEAR,
+    logarithmic: true,
+    ticks: [DAY, YEAR, 1e3 * YEAR, 1e6 * YEAR, 1e9 * YEAR],
+  },
+  {
+    id: 'radium',
+    name: 'chainReaction.decayChains.presets.radium.name',
+    description: 'chainReaction.decayChains.presets.radium.description',
+    parent: 'radium226',
+    start: 0,
+    end: 40 * DAY,
+    logarithmic: false,
+    ticks: [0, 10, 20, 30, 40].map(days => days * DAY),
+  },
+  {
+    id: 'strontium',
+    name: 'chainReaction.decayChains.presets.strontium.name',
+    description: 'chainReaction.decayChains.presets.strontium.description',
+    parent: 'strontium90',
+    start: 0,
+    end: 20 * DAY,
+    logarithmic: false,
+    ticks: [0, 5, 10, 15, 20].map(days => days * DAY),
+  },
+  {
+    id: 'molybdenum',
+    name: 'chainReaction.decayChains.presets.molybdenum.name',
+    description: 'chainReaction.decayChains.presets.molybdenum.description',
+    parent: 'molybdenum99',
+    start: 0,
+    end: 8 * DAY,
+    logarithmic: false,
+    ticks: [0, 2, 4, 6, 8].map(days => days * DAY),
+  },
+  {
+    id: 'iodine',
+    name: 'chainReaction.decayChains.presets.iodine.name',
+    description: 'chainReaction.decayChains.presets.iodine.description',
+    parent: 'iodine131',
+    start: 0,
+    end: 64 * DAY,
+    logarithmic: false,
+    ticks: [0, 16, 32, 48, 64].map(days => days * DAY),
+  },
+  {
+    id: 'breeding',
+    name: 'chainReaction.decayChains.presets.breeding.name',
+    description: 'chainReaction.decayChains.presets.breeding.description',
+    parent: 'uranium239',
+    start: 0,
+    end: 12 * DAY,
+    logarithmic: false,
+    ticks: [0, 3, 6, 9, 12].map(days => days * DAY),
+  },
+];
+
+export interface DecayChainMember {
+  id: string;
+  nuclide: Nuclide;
+  // Decay constant in 1/s, zero for the stable end of the chain
+  lambda: number;
+}
+
+export interface DecayChainPoint {
+  time: number;
+  // Atoms of each member as a share of the parent atoms at the start
+  amounts: number[];
+  // Decays per second of each member relative to the parent's at the start
+  activities: number[];
+}
+
+// Longest chain followed, in case the registry ever links a nuclide back to itself
+const MAX_CHAIN_LENGTH = 20;
+// Parent half-life over daughter half-life above which the daughter settles at the parent's activity
+const SECULAR_RATIO = 100;
+
+export const getDecayConstant = (nuclide: Nuclide) => (nuclide.halfLife === null ? 0 : Math.LN2 / nuclide.halfLife);
+
+export const getDecayChainPreset = (id: DecayChainPresetId) =>
+  decayChainPresets.find(preset => preset.id === id) ?? decayChainPresets[0];
+
+// Follows the most likely decay of every member until a stable nuclide or one
+// whose daughter is not in the registry; side branches that rejoin the main
+// line further down still feed their member in the Bateman coefficients
+export const getDecayChain = (parent: string): DecayChainMember[] => {
+  const chain: DecayChainMember[] = [];
+  let id: string | undefined = parent;
+  while (id !== undefined && chain.length < MAX_CHAIN_LENGTH) {
+    const nuclide = getNuclide(id);
+    if (!nuclide) break;
+    chain.push({ id, nuclide, lambda: getDecayConstant(nuclide) });
+    const main = [...nuclide.decayModes].sort((a, b) => b.branchingRatio - a.branchingRatio)[0];
+    id = main?.daughter;
+  }
+  return chain;
+};
+
+// Bateman coefficients C[n][i] for a chain that starts with the given amounts
+const getBatemanCoefficients = (chain: DecayChainMember[], initial: number[]) => {
+  // Equal decay constants would divide by zero; nudging one apart changes nothing visible
+  const lambdas = chain.map(member => member.lambda);
+  lambdas.forEach((_, n) => {
+    while (lambdas.slice(0, n).includes(lambdas[n])) lambdas[n] = lambdas[n] * (1 + 1e-9) + 1e-30;
+  });
+
+  const coefficients: number[][] = [];
+  chain.forEach((member, n) => {
+    const row = new Array<number>(chain.length).fill(0);
+    chain.slice(0, n).forEach((parent, m) => {
+      const feed = parent.nuclide.decayModes
+        .filter(mode => mode.daughter === member.id)
+        .reduce((sum, mode) => sum + mode.branchingRatio, 0) * lambdas[m];
+      if (feed === 0) return;
+      for (let i = 0; i <= m; i++) {
+        row[i] += (feed * coefficients[m][i]) / (lambdas[n] - lambdas[i]);
+      }
+    });
+    row[n] = (initial[n] ?? 0) - row.reduce((sum, value) => sum + value, 0);
+    coefficients.push(row);
+  });
+  return { lambdas, coefficients };
+};
+
+// Amounts and activities of all members over the preset's window, starting from the pure parent
+export const getDecayChainCurves = (chain: DecayChainMember[], times: number[]): DecayChainPoint[] => {
+  const { lambdas, coefficients } = getBatemanCoefficients(chain, [1]);
+  const parentActivity = chain[0]?.lambda || 1;
+  return times.map(time => {
+    const decays = lambdas.map(lambda => Math.exp(-lambda * time));
+    // Rounding can leave tiny negative remainders where a member has not formed yet
+    const amounts = coefficients.map(row => Math.max(0, row.reduce((sum, c, i) => sum + c * decays[i], 0)));
+    return {
+      time,
+      amounts,
+      activities: amounts.map((amount, n) => (amount * chain[n].lambda) / parentActivity),
+    };
+  });
+};
+
+export const getPresetTimes = (preset: DecayChainPreset, points: number) =>
+  Array.from({ length: points + 1 }, (_, i) =>
+    preset.logarithmic
+      ? preset.start * (preset.end / preset.start) ** (i / points)
+      : preset.start + ((preset.end - preset.start) * i) / points
+  );
+
+// Whether the first daughter ends up decaying as often as the parent (secular),
+// at a fixed ratio above it (transient) or never catches up (none)
+export const getEquilibrium = (chain: DecayChainMember[]): EquilibriumKind => {
+  const [parent, daughter] = chain;
+  if (!parent || !daughter || parent.lambda === 0 || daughter.lambda === 0) return 'none';
+  const ratio = daughter.lambda / parent.lambda;
+  if (ratio >= SECULAR_RATIO) return 'secular';
+  return ratio > 1 ? 'transient' : 'none';
+};
+
+// Daughter activity over parent activity once equilibrium is reached:
+// b · λ_d / (λ_d − λ_p), which is practically b for secular equilibrium
+export const getEquilibriumActivityRatio = (chain: DecayChainMember[]) => {
+  const [parent, daughter] = chain;
+  if (getEquilibrium(chain) === 'none') return null;
+  const branching = parent.nuclide.decayModes
+    .filter(mode => mode.daughter === daughter.id)
+    .reduce((sum, mode) => sum + mode.branchingRatio, 0);
+  return (branching * daughter.lambda) / (daughter.lambda - parent.lambda);
+};
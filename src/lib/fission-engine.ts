@@ -0,0 +1,485 @@
+import { createRng, randomSeed, type Rng } from './rng';
+import { getNuclide, type NeutronSpeed } from './nuclides';
+import { sampleFission, type FissionOutcome } from './fission-yields';
+
+// Framework-free fission simulation used by the Kernspaltung tab.
+// All randomness goes through a seedable RNG and all timing through step(dt),
+// so a session is fully reproducible from its seed and the sequence of inputs.
+
+export type { NeutronSpeed };
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface FissionElement {
+  id: string;
+  position: Position;
+  type: string;
+  isProduct?: boolean;
+  // Milliseconds until the next radioactive decay, only set for decaying isotopes
+  decayRemaining?: number;
+}
+
+export interface FissionNeutron {
+  id: string;
+  position: Position;
+  isMoving: boolean;
+  speed: NeutronSpeed;
+  targetPosition?: Position;
+  targetElementId?: string;
+  flightRemaining?: number;
+  isAutomatic?: boolean;
+}
+
+export interface ElementFissionProperties {
+  canFission: boolean;
+  energyReleased: number;
+  averageNeutrons: number;
+  probability: number;
+  canAbsorb?: boolean;
+  transformTo?: string;
+  isDecaying?: boolean;
+  decayTo?: string;
+  decayTime?: number;
+  decayType?: string;
+  preferredNeutronSpeed?: 'slow' | 'fast' | 'both';
+}
+
+// Engine view of a nuclide, derived from the shared registry in nuclides.ts
+export const getFissionProperties = (type: string): ElementFissionProperties | undefined => {
+  const nuclide = getNuclide(type);
+  if (!nuclide) return undefined;
+
+  const { game } = nuclide;
+  const decay = nuclide.decayModes[0];
+  return {
+    canFission: game.canFission,
+    energyReleased: game.energyReleased,
+    averageNeutrons: game.averageNeutrons,
+    probability: game.probability,
+    canAbsorb: game.captureProduct !== undefined,
+    transformTo: game.captureProduct,
+    isDecaying: game.decayTime !== undefined && decay?.daughter !== undefined,
+    decayTo: decay?.daughter,
+    decayTime: game.decayTime,
+    decayType: decay?.type,
+    preferredNeutronSpeed: game.preferredNeutronSpeed,
+  };
+};
+
+const isCore = (type: string) => {
+  const role = getNuclide(type)?.role;
+  return role === 'fuel' || role === 'fertile';
+};
+
+export type NoFissionReason = 'not-fissile' | 'wrong-speed' | 'missed';
+
+export type FissionEvent =
+  | { type: 'too-fast'; elementType: string; isAutomatic: boolean }
+  | { type: 'absorption'; position: Position; from: string; to: string; isAutomatic: boolean }
+  | { type: 'split'; position: Position; elementType: string }
+  | { type: 'fission'; position: Position; elementType: string; energy: number; neutrons: number; products: FissionElement[]; isAutomatic: boolean }
+  | { type: 'no-fission'; elementType: string; reason: NoFissionReason; preferredNeutronSpeed?: 'slow' | 'fast' | 'both'; isAutomatic: boolean }
+  | { type: 'max-energy'; totalEnergy: number; isAutomatic: boolean }
+  | { type: 'decay'; position: Position; targetPosition: Position; from: string; to: string; decayType?: string };
+
+export interface FissionSnapshot {
+  elements: FissionElement[];
+  neutrons: FissionNeutron[];
+  totalEnergyReleased: number;
+  maxEnergy: number;
+  chainReactionActive: boolean;
+}
+
+export interface FissionEngineOptions {
+  seed?: number;
+  maxEnergy?: number;
+  maxCores?: number;
+  // Pause between two automatic neutron shots during a chain reaction
+  autoNeutronDelay?: number;
+  // Time a neutron needs to reach its target nucleus
+  flightTime?: number;
+  // Time between the nucleus splitting and the products appearing
+  productDelay?: number;
+}
+
+interface PendingSplit {
+  remaining: number;
+  element: FissionElement;
+  properties: ElementFissionProperties;
+  outcome: FissionOutcome;
+  isAutomatic: boolean;
+}
+
+const distance = (a: Position, b: Position) =>
+  Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+
+export const getSpeedProbabilityModifier = (
+  properties: ElementFissionProperties,
+  neutronSpeed: NeutronSpeed
+): number => {
+  if (properties.preferredNeutronSpeed === 'slow' && neutronSpeed === 'fast') return 0.2;
+  if (properties.preferredNeutronSpeed === 'fast' && neutronSpeed === 'slow') return 0.3;
+  return 1;
+};
+
+export class FissionEngine {
+  readonly seed: number;
+  readonly maxEnergy: number;
+  readonly maxCores: number;
+
+  private readonly rng: Rng;
+  private readonly autoNeutronDelay: number;
+  private readonly flightTime: number;
+  private readonly productDelay: number;
+
+  private idCounter = 0;
+  private elements: FissionElement[] = [];
+  private neutrons: FissionNeutron[] = [];
+  private pendingSplits: PendingSplit[] = [];
+  private totalEnergyReleased = 0;
+  private chainReactionActive = false;
+  private chainTimer = 0;
+  private events: FissionEvent[] = [];
+  private snapshot: FissionSnapshot | null = null;
+
+  constructor(options: FissionEngineOptions = {}) {
+    this.seed = options.seed ?? randomSeed();
+    this.rng = createRng(this.seed);
+    this.maxEnergy = options.maxEnergy ?? 1000;
+    this.maxCores = options.maxCores ?? 5;
+    this.autoNeutronDelay = options.autoNeutronDelay ?? 800;
+    this.flightTime = options.flightTime ?? 500;
+    this.productDelay = options.productDelay ?? 800;
+  }
+
+  getSnapshot(): FissionSnapshot {
+    if (!this.snapshot) {
+      this.snapshot = {
+        elements: this.elements.map(element => ({ ...element })),
+        neutrons: this.neutrons.map(neutron => ({ ...neutron })),
+        totalEnergyReleased: this.totalEnergyReleased,
+        maxEnergy: this.maxEnergy,
+        chainReactionActive: this.chainReactionActive,
+      };
+    }
+    return this.snapshot;
+  }
+
+  reset(elementType: string | null, center: Position) {
+    this.elements = elementType ? [this.createElement(elementType, center, false)] : [];
+    this.neutrons = [];
+    this.pendingSplits = [];
+    this.totalEnergyReleased = 0;
+    this.chainReactionActive = false;
+    this.chainTimer = 0;
+    this.events = [];
+    this.changed();
+  }
+
+  canAddCore(): boolean {
+    const coreCount = this.elements.filter(element => isCore(element.type)).length;
+    return coreCount < this.maxCores;
+  }
+
+  // Places another nucleus on a ring around the center, away from existing ones
+  addCore(elementType: string, center: Position, maxAttempts = 50): FissionElement | null {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const angle = this.rng() * Math.PI * 2;
+      const radius = 100 + this.rng() * 100;
+      const position = {
+        x: center.x + Math.cos(angle) * radius,
+        y: center.y + Math.sin(angle) * radius,
+      };
+
+      if (!this.elements.some(element => distance(position, element.position) < 80)) {
+        const element = this.createElement(elementType, position, false);
+        this.elements.push(element);
+        this.changed();
+        return element;
+      }
+    }
+    return null;
+  }
+
+  findElementAt(position: Position, radius = 40): FissionElement | undefined {
+    return this.elements.find(element => distance(position, element.position) < radius);
+  }
+
+  placeNeutron(position: Position, speed: NeutronSpeed): FissionNeutron {
+    const neutron: FissionNeutron = {
+      id: this.nextId('neutron'),
+      position,
+      isMoving: false,
+      speed,
+    };
+    this.neutrons.push(neutron);
+    this.changed();
+    return neutron;
+  }
+
+  moveNeutron(neutronId: string, position: Position) {
+    this.neutrons = this.neutrons.map(neutron =>
+      neutron.id === neutronId
+        ? { ...neutron, position, isMoving: false, targetPosition: undefined, targetElementId: undefined }
+        : neutron
+    );
+    this.changed();
+  }
+
+  shootNeutron(neutronId: string, elementId: string, speed?: NeutronSpeed, isAutomatic = false): boolean {
+    const target = this.elements.find(element => element.id === elementId);
+    const neutron = this.neutrons.find(n => n.id === neutronId);
+    if (!target || !neutron) return false;
+
+    this.neutrons = this.neutrons.map(n =>
+      n.id === neutronId
+        ? {
+            ...n,
+            speed: speed ?? n.speed,
+            isMoving: true,
+            targetPosition: target.position,
+            targetElementId: target.id,
+            flightRemaining: this.flightTime,
+            isAutomatic,
+          }
+        : n
+    );
+    this.changed();
+    return true;
+  }
+
+  // Fires the first idle neutron at the first nucleus, like the fire-neutron button in GameControls
+  fireNeutron(): boolean {
+    const neutron = this.neutrons.find(n => !n.isMoving);
+    const target = this.elements[0];
+    if (!neutron || !target) return false;
+    return this.shootNeutron(neutron.id, target.id);
+  }
+
+  // Advances the simulation by dt milliseconds and returns everything that happened
+  step(dt: number): FissionEvent[] {
+    this.advanceFlights(dt);
+    this.advanceSplits(dt);
+    this.advanceDecays(dt);
+    this.advanceChainReaction(dt);
+
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  private advanceFlights(dt: number) {
+    const arrived: FissionNeutron[] = [];
+    let moving = false;
+
+    this.neutrons = this.neutrons.map(neutron => {
+      if (!neutron.isMoving || neutron.flightRemaining === undefined) return neutron;
+      moving = true;
+      const flightRemaining = neutron.flightRemaining - dt;
+      const updated = { ...neutron, flightRemaining };
+      if (flightRemaining <= 0) arrived.push(updated);
+      return updated;
+    });
+
+    if (!moving) return;
+
+    arrived.forEach(neutron => {
+      const target = this.elements.find(element => element.id === neutron.targetElementId);
+      if (!target) {
+        // The nucleus was split by another neutron in the meantime
+        this.moveNeutron(neutron.id, neutron.targetPosition ?? neutron.position);
+        return;
+      }
+
+      this.processFission(target, neutron, !!neutron.isAutomatic);
+      if (!neutron.isAutomatic) {
+        this.chainReactionActive = true;
+        this.chainTimer = 0;
+      }
+    });
+  }
+
+  private processFission(element: FissionElement, neutron: FissionNeutron, isAutomatic: boolean) {
+    const properties = getFissionProperties(element.type);
+    this.neutrons = this.neutrons.filter(n => n.id !== neutron.id);
+    this.changed();
+    if (!properties) return;
+
+    const speedProbabilityModifier = getSpeedProbabilityModifier(properties, neutron.speed);
+    const willFission = this.rng() < properties.probability * speedProbabilityModifier;
+
+    if (properties.canAbsorb && properties.transformTo) {
+      if (properties.preferredNeutronSpeed === 'slow' && neutron.speed === 'fast') {
+        this.events.push({ type: 'too-fast', elementType: element.type, isAutomatic });
+        return;
+      }
+
+      const transformed = this.createElement(properties.transformTo, element.position, element.isProduct, element.id);
+      this.elements = this.elements.map(el => (el.id === element.id ? transformed : el));
+      this.events.push({
+        type: 'absorption',
+        position: element.position,
+        from: element.type,
+        to: properties.transformTo,
+        isAutomatic,
+      });
+      return;
+    }
+
+    if (willFission && properties.canFission) {
+      this.elements = this.elements.filter(el => el.id !== element.id);
+      this.totalEnergyReleased += properties.energyReleased;
+      this.events.push({ type: 'split', position: element.position, elementType: element.type });
+
+      if (this.totalEnergyReleased >= this.maxEnergy) {
+        this.chainReactionActive = false;
+        this.events.push({ type: 'max-energy', totalEnergy: this.totalEnergyReleased, isAutomatic });
+      }
+
+      const outcome = sampleFission(getNuclide(element.type)!, this.rng);
+      this.pendingSplits.push({ remaining: this.productDelay, element, properties, outcome, isAutomatic });
+      return;
+    }
+
+    let reason: NoFissionReason = 'missed';
+    if (!properties.canFission) {
+      reason = 'not-fissile';
+    } else if (speedProbabilityModifier < 1) {
+      reason = 'wrong-speed';
+    }
+    this.events.push({
+      type: 'no-fission',
+      elementType: element.type,
+      reason,
+      preferredNeutronSpeed: properties.preferredNeutronSpeed,
+      isAutomatic,
+    });
+  }
+
+  private advanceSplits(dt: number) {
+    if (this.pendingSplits.length === 0) return;
+
+    const due: PendingSplit[] = [];
+    this.pendingSplits = this.pendingSplits.filter(split => {
+      split.remaining -= dt;
+      if (split.remaining <= 0) {
+        due.push(split);
+        return false;
+      }
+      return true;
+    });
+
+    due.forEach(({ element, properties, outcome, isAutomatic }) => {
+      const products = outcome.fragments.map((fragment, i) => {
+        const angle = (Math.PI / outcome.fragments.length) * i;
+        return this.createElement(fragment.id, {
+          x: element.position.x + Math.cos(angle) * 60,
+          y: element.position.y + Math.sin(angle) * 60,
+        }, true);
+      });
+      this.elements.push(...products);
+
+      for (let i = 0; i < outcome.neutrons; i++) {
+        const angle = (Math.PI * 2 / outcome.neutrons) * i;
+        this.neutrons.push({
+          id: this.nextId('neutron'),
+          position: {
+            x: element.position.x + Math.cos(angle) * 80,
+            y: element.position.y + Math.sin(angle) * 80,
+          },
+          isMoving: false,
+          speed: 'fast',
+        });
+      }
+
+      this.events.push({
+        type: 'fission',
+        position: element.position,
+        elementType: element.type,
+        energy: properties.energyReleased,
+        neutrons: outcome.neutrons,
+        products,
+        isAutomatic,
+      });
+    });
+    this.changed();
+  }
+
+  private advanceDecays(dt: number) {
+    if (!this.elements.some(element => element.decayRemaining !== undefined)) return;
+
+    this.elements = this.elements.map(element => {
+      if (element.decayRemaining === undefined) return element;
+
+      const decayRemaining = element.decayRemaining - dt;
+      const properties = getFissionProperties(element.type);
+      if (decayRemaining > 0 || !properties?.decayTo) {
+        return { ...element, decayRemaining };
+      }
+
+      this.events.push({
+        type: 'decay',
+        position: element.position,
+        targetPosition: {
+          x: element.position.x + (this.rng() * 40 - 20),
+          y: element.position.y + (this.rng() * 40 - 20),
+        },
+        from: element.type,
+        to: properties.decayTo,
+        decayType: properties.decayType,
+      });
+      this.changed();
+      return this.createElement(properties.decayTo, element.position, element.isProduct, element.id);
+    });
+  }
+
+  private advanceChainReaction(dt: number) {
+    if (!this.chainReactionActive) return;
+
+    if (this.neutrons.length === 0 && this.pendingSplits.length === 0) {
+      this.chainReactionActive = false;
+      this.changed();
+      return;
+    }
+    if (this.neutrons.length === 0 || this.elements.length === 0) return;
+
+    this.chainTimer += dt;
+    if (this.chainTimer < this.autoNeutronDelay) return;
+    this.chainTimer = 0;
+
+    if (this.totalEnergyReleased >= this.maxEnergy) {
+      this.chainReactionActive = false;
+      this.changed();
+      return;
+    }
+
+    const neutron = this.neutrons.find(n => !n.isMoving);
+    if (!neutron) return;
+
+    const target = this.elements[Math.floor(this.rng() * this.elements.length)];
+    this.shootNeutron(neutron.id, target.id, undefined, true);
+  }
+
+  private createElement(type: string, position: Position, isProduct = false, id?: string): FissionElement {
+    const properties = getFissionProperties(type);
+    return {
+      id: id ?? this.nextId('element'),
+      position,
+      type,
+      isProduct,
+      decayRemaining: properties?.isDecaying ? properties.decayTime : undefined,
+    };
+  }
+
+  private nextId(prefix: string) {
+    this.idCounter += 1;
+    return `${prefix}-${this.seed}-${this.idCounter}`;
+  }
+
+  private changed() {
+    this.snapshot = null;
+  }
+}
@@ -0,0 +1,59 @@
+import type { Rng } from './rng';
+import { fragmentId, getMassNumber, type Nuclide } from './nuclides';
+
+// Fission fragment sampling. The heavy fragment is drawn from a Gaussian around
+// A ≈ 139 (stabilised by the closed shells near Sn-132), the light fragment
+// takes the remaining nucleons. Together this gives the familiar double-humped
+// mass-yield curve, with the light hump moving with the mass of the fissioning nucleus.
+
+const HEAVY_PEAK_MASS = 139;
+const PEAK_WIDTH = 5;
+const MIN_FRAGMENT_MASS = 70;
+
+export interface FissionFragment {
+  id: string;
+  protons: number;
+  massNumber: number;
+}
+
+export interface FissionOutcome {
+  fragments: [FissionFragment, FissionFragment];
+  neutrons: number;
+}
+
+// Standard normal sample (Box-Muller)
+const gaussian = (rng: Rng) => {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Splits the compound nucleus formed by a neutron hitting `target`.
+// Proton and nucleon numbers are conserved exactly: Z_light + Z_heavy = Z and
+// A_light + A_heavy + neutrons = A + 1.
+export const sampleFission = (target: Nuclide, rng: Rng): FissionOutcome => {
+  const compoundProtons = target.protons;
+  const compoundMass = getMassNumber(target) + 1;
+
+  const extraNeutronChance = Math.min(1, Math.max(0, target.game.averageNeutrons - 2));
+  const neutrons = rng() < extraNeutronChance ? 3 : 2;
+  const fragmentMass = compoundMass - neutrons;
+
+  const heavyMass = Math.min(
+    fragmentMass - MIN_FRAGMENT_MASS,
+    Math.max(Math.ceil(fragmentMass / 2), Math.round(HEAVY_PEAK_MASS + gaussian(rng) * PEAK_WIDTH))
+  );
+  const lightMass = fragmentMass - heavyMass;
+
+  // Unchanged charge density: both fragments keep the Z/A ratio of the compound nucleus
+  const lightProtons = Math.round(compoundProtons * lightMass / fragmentMass);
+  const heavyProtons = compoundProtons - lightProtons;
+
+  return {
+    fragments: [
+      { id: fragmentId(lightProtons, lightMass), protons: lightProtons, massNumber: lightMass },
+      { id: fragmentId(heavyProtons, heavyMass), protons: heavyProtons, massNumber: heavyMass },
+    ],
+    neutrons,
+  };
+};
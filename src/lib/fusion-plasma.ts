@@ -0,0 +1,318 @@
+// Power balance of a magnetically confined fusion plasma, shared by the fusion
+// lab, the fusion type of the reactor lab and the mini sun. The external
+// heating and the charged products of the fusion reactions heat the plasma;
+// bremsstrahlung and the heat leaking out through the magnetic cage (the
+// energy confinement time) cool it. Once the alphas alone make up for the
+// losses the plasma is ignited, which is what the Lawson triple product n·T·τ
+// measures. Pressure the field cannot hold makes the plasma unstable and
+// worsens the confinement, which keeps a burning plasma from running away.
+// Each fuel brings its own reactivity curve ⟨σv⟩(T) and products; D-T is by
+// far the easiest to ignite, p-B11 barely at all. Framework-free; the
+// components call stepPlasma once per tick.
+
+export type FusionFuel = 'd-t' | 'd-d' | 'p-b11';
+export type FusionProduct = 'helium4' | 'helium3' | 'tritium' | 'proton' | 'neutron';
+
+export interface FuelCycle {
+  // ⟨σv⟩ in m³/s at a temperature in keV
+  reactivity: (temperature: number) => number;
+  // Range of the reactivity fit in keV; above it the model holds the reactivity
+  minTemperature: number;
+  maxTemperature: number;
+  // Energy set free per reaction and the part of it the charged products carry, MeV
+  energy: number;
+  chargedEnergy: number;
+  // Products per reaction, averaged over the branches of the reaction
+  products: Partial<Record<FusionProduct, number>>;
+  // Reacting pairs per ion squared; identical nuclei count each pair once
+  reactantProduct: number;
+  electronsPerIon: number;
+  // Bremsstrahlung relative to a hydrogen plasma with the same ion density
+  bremsstrahlungFactor: number;
+}
+
+export interface IgnitionWindow {
+  // Lowest temperature at which the plasma can ignite at all, keV
+  minimumTemperature: number;
+  // Temperature with the smallest triple product to ignite, keV
+  optimalTemperature: number;
+  // Infinity for a fuel that never ignites
+  minimumTripleProduct: number;
+}
+
+export interface Plasma {
+  // Ion and electron temperature in keV
+  temperature: number;
+  // Ions per m³ in units of 10^20, mixed as the fuel cycle needs
+  density: number;
+  // Toroidal field in tesla
+  magneticField: number;
+  // External heating by neutral beams and microwaves in MW
+  heatingPower: number;
+  // D-T when left out
+  fuel?: FusionFuel;
+}
+
+// Every power in MW
+export interface PlasmaPowerBalance {
+  fusion: number;
+  // The part of the fusion power the charged products keep in the plasma, for
+  // D-T the fifth carried by the alpha particles
+  alpha: number;
+  // The rest leaves with the neutrons and heats the blanket
+  neutron: number;
+  heating: number;
+  bremsstrahlung: number;
+  // Heat leaking out through the magnetic cage
+  transport: number;
+  // Fusion power per heating power; Infinity for a plasma burning without heating
+  q: number;
+}
+
+const KEV = 1.602e-16; // J
+const KELVIN_PER_KEV = 1.1605e7;
+const MU0 = 4 * Math.PI * 1e-7;
+const DENSITY_UNIT = 1e20; // per m³
+// Plasma volume of a tokamak the size of ITER, m³
+export const PLASMA_VOLUME = 830;
+const MEV = 1.602e-13; // J
+const SPEED_OF_LIGHT = 2.998e8; // m/s
+const BARN = 1e-28; // m²
+// Bremsstrahlung power density per n² and √T for a pure hydrogen plasma, W·m³/keV^½
+const BREMSSTRAHLUNG_COEFFICIENT = 5.35e-37;
+// Energy confinement time per tesla of field for a well-behaved plasma, s
+const CONFINEMENT_PER_TESLA = 0.7;
+// Plasma pressure over magnetic pressure that the field can hold (Troyon limit)
+export const BETA_LIMIT = 0.05;
+// Below this the bremsstrahlung outruns the alpha heating of D-T however well
+// the plasma is confined, keV
+export const IDEAL_IGNITION_TEMPERATURE = 4.3;
+// Below this the gas is no longer a plasma, keV
+export const MIN_PLASMA_TEMPERATURE = 0.01;
+const SUBSTEP = 0.05; // s
+
+export const kelvinToKeV = (kelvin: number) => kelvin / KELVIN_PER_KEV;
+export const keVToKelvin = (keV: number) => keV * KELVIN_PER_KEV;
+
+// ⟨σv⟩ in m³/s from the fit of Bosch and Hale (Nuclear Fusion 32, 1992),
+// given the Gamow constant in keV^½, the reduced mass in keV and C1 to C7
+const boschHale = (gamow: number, reducedMass: number, [c1, c2, c3, c4, c5, c6, c7]: number[]) =>
+  (temperature: number) => {
+    const t = temperature;
+    const theta = t / (1 - (t * (c2 + t * (c4 + t * c6))) / (1 + t * (c3 + t * (c5 + t * c7))));
+    const xi = (gamow ** 2 / (4 * theta)) ** (1 / 3);
+    // The fit gives cm³/s
+    return c1 * theta * Math.sqrt(xi / (reducedMass * t ** 3)) * Math.exp(-3 * xi) * 1e-6;
+  };
+
+// D(d,n)He-3 and D(d,p)T happen about equally often
+const deuteriumNeutronBranch = boschHale(31.397, 937814, [5.4336e-12, 5.85778e-3, 7.68222e-3, 0, -2.964e-6, 0, 0]);
+const deuteriumProtonBranch = boschHale(31.397, 937814, [5.65718e-12, 3.41267e-3, 1.99167e-3, 0, 1.0506e-5, 0, 0]);
+
+const PB11_GAMOW_ENERGY = 22589; // keV
+const PB11_REDUCED_MASS = 859526; // keV
+// Width over which the cross-section falls off above 400 keV
+const PB11_FALLOFF = 300; // keV
+
+// S-factor of p-B11 in MeV·b from Nevins and Swain (Nuclear Fusion 40, 2000),
+// with the narrow resonance at 148 keV; their fit holds below 400 keV, above it
+// the cross-section is let fall off past its broad peak near 600 keV
+const getBoronSFactor = (energy: number) => {
+  const low = (e: number) => 197 + 0.24 * e + 2.31e-4 * e ** 2 + 1.82e4 / ((e - 148) ** 2 + 2.35 ** 2);
+  return energy <= 400
+    ? low(energy)
+    : (low(400) * PB11_FALLOFF ** 2) / ((energy - 400) ** 2 + PB11_FALLOFF ** 2);
+};
+
+// Cross-section in m² at a centre-of-mass energy in keV
+const getBoronCrossSection = (energy: number) =>
+  ((getBoronSFactor(energy) * 1000) / energy) * Math.exp(-Math.sqrt(PB11_GAMOW_ENERGY / energy)) * BARN;
+
+// No Bosch-Hale fit exists for p-B11, so the cross-section is averaged over the
+// Maxwell distribution directly
+const getBoronReactivity = (temperature: number) => {
+  const steps = 400;
+  const step = (20 * temperature) / steps;
+  let sum = 0;
+  for (let i = 0; i < steps; i++) {
+    const energy = (i + 0.5) * step;
+    sum += getBoronCrossSection(energy) * energy * Math.exp(-energy / temperature) * step;
+  }
+  const reducedMass = (PB11_REDUCED_MASS * KEV) / SPEED_OF_LIGHT ** 2;
+  return Math.sqrt(8 / (Math.PI * reducedMass)) * (temperature * KEV) ** -1.5 * sum * KEV ** 2;
+};
+
+export const fuelCycles: Record<FusionFuel, FuelCycle> = {
+  // ²H + ³H → ⁴He (3.5 MeV) + n (14.1 MeV), half deuterium and half tritium
+  'd-t': {
+    reactivity: boschHale(34.3827, 1124656, [1.17302e-9, 1.51361e-2, 7.51886e-2, 4.60643e-3, 1.35e-2, -1.0675e-4, 1.366e-5]),
+    minTemperature: 0.2,
+    maxTemperature: 100,
+    energy: 17.6,
+    chargedEnergy: 3.5,
+    products: { helium4: 1, neutron: 1 },
+    reactantProduct: 0.25,
+    electronsPerIon: 1,
+    bremsstrahlungFactor: 1,
+  },
+  // ²H + ²H → ³He (0.82 MeV) + n (2.45 MeV) or ³H (1.01 MeV) + p (3.02 MeV)
+  'd-d': {
+    reactivity: temperature => deuteriumNeutronBranch(temperature) + deuteriumProtonBranch(temperature),
+    minTemperature: 0.2,
+    maxTemperature: 100,
+    energy: 3.65,
+    chargedEnergy: 2.43,
+    products: { helium3: 0.5, neutron: 0.5, tritium: 0.5, proton: 0.5 },
+    reactantProduct: 0.5,
+    electronsPerIon: 1,
+    bremsstrahlungFactor: 1,
+  },
+  // ¹H + ¹¹B → 3 ⁴He (8.7 MeV), 85 protons to 15 boron nuclei; with five
+  // electrons per boron nucleus the plasma shines about seven times as brightly
+  'p-b11': {
+    reactivity: getBoronReactivity,
+    minTemperature: 20,
+    maxTemperature: 500,
+    energy: 8.7,
+    chargedEnergy: 8.7,
+    products: { helium4: 3 },
+    reactantProduct: 0.85 * 0.15,
+    electronsPerIon: 0.85 + 0.15 * 5,
+    bremsstrahlungFactor: (0.85 + 0.15 * 5) * (0.85 + 0.15 * 25),
+  },
+};
+
+export const getFuelCycle = (fuel: FusionFuel = 'd-t') => fuelCycles[fuel];
+
+export const getFusionReactivity = (temperature: number, fuel: FusionFuel = 'd-t') => {
+  if (temperature <= 0) return 0;
+  const { reactivity, maxTemperature } = getFuelCycle(fuel);
+  return reactivity(Math.min(temperature, maxTemperature));
+};
+
+// Thermal energy of the ions and their electrons per ion and keV
+const getEnergyPerIon = (fuel?: FusionFuel) => 1.5 * (1 + getFuelCycle(fuel).electronsPerIon);
+
+// Thermal pressure of ions and electrons in Pa
+export const getPlasmaPressure = ({ temperature, density, fuel }: Plasma) =>
+  (1 + getFuelCycle(fuel).electronsPerIon) * density * DENSITY_UNIT * temperature * KEV;
+
+export const getBeta = (plasma: Plasma) =>
+  plasma.magneticField > 0 ? getPlasmaPressure(plasma) / (plasma.magneticField ** 2 / (2 * MU0)) : Infinity;
+
+// 100 % while the pressure stays well below the beta limit, dropping to 0 a
+// little above it
+export const getPlasmaStability = (plasma: Plasma) => {
+  const load = getBeta(plasma) / BETA_LIMIT;
+  return Math.max(0, Math.min(100, ((1.3 - load) / 0.6) * 100));
+};
+
+// The field to keep the current plasma pressure at 70 % of the beta limit, T
+export const getRequiredField = (plasma: Plasma) =>
+  Math.sqrt((2 * MU0 * getPlasmaPressure(plasma)) / (0.7 * BETA_LIMIT));
+
+// A stronger field confines longer; an unstable plasma loses most of that
+export const getConfinementTime = (magneticField: number, stability: number) =>
+  CONFINEMENT_PER_TESLA * magneticField * (0.2 + (0.8 * stability) / 100);
+
+export const getPlasmaConfinementTime = (plasma: Plasma) =>
+  getConfinementTime(plasma.magneticField, getPlasmaStability(plasma));
+
+// n·T·τ in keV·s/m³; the mini sun brings its own confinement time
+export const getTripleProduct = (plasma: Plasma, confinementTime = getPlasmaConfinementTime(plasma)) =>
+  plasma.density * DENSITY_UNIT * plasma.temperature * confinementTime;
+
+// Triple product at which the charged products alone balance transport and
+// bremsstrahlung; Infinity where the bremsstrahlung outruns the fusion
+export const getIgnitionTripleProduct = (temperature: number, fuel: FusionFuel = 'd-t') => {
+  const { reactantProduct, chargedEnergy, bremsstrahlungFactor } = getFuelCycle(fuel);
+  const margin = reactantProduct * getFusionReactivity(temperature, fuel) * chargedEnergy * MEV
+    - BREMSSTRAHLUNG_COEFFICIENT * bremsstrahlungFactor * Math.sqrt(temperature);
+  return margin > 0 ? (getEnergyPerIon(fuel) * temperature ** 2 * KEV) / margin : Infinity;
+};
+
+const ignitionWindows: Partial<Record<FusionFuel, IgnitionWindow>> = {};
+
+// Scans the fit range of the fuel for the temperatures it can ignite at
+export const getIgnitionWindow = (fuel: FusionFuel = 'd-t'): IgnitionWindow => {
+  if (ignitionWindows[fuel]) return ignitionWindows[fuel];
+  const { minTemperature, maxTemperature } = getFuelCycle(fuel);
+  const window: IgnitionWindow = {
+    minimumTemperature: Infinity,
+    optimalTemperature: Infinity,
+    minimumTripleProduct: Infinity,
+  };
+  const steps = 300;
+  for (let i = 0; i <= steps; i++) {
+    const temperature = minTemperature * (maxTemperature / minTemperature) ** (i / steps);
+    const tripleProduct = getIgnitionTripleProduct(temperature, fuel);
+    if (!Number.isFinite(tripleProduct)) continue;
+    window.minimumTemperature = Math.min(window.minimumTemperature, temperature);
+    if (tripleProduct < window.minimumTripleProduct) {
+      window.minimumTripleProduct = tripleProduct;
+      window.optimalTemperature = temperature;
+    }
+  }
+  ignitionWindows[fuel] = window;
+  return window;
+};
+
+// Share of the way to ignition, 1 when the plasma burns by itself
+export const getIgnitionProgress = (plasma: Plasma, confinementTime = getPlasmaConfinementTime(plasma)) =>
+  getTripleProduct(plasma, confinementTime) / getIgnitionTripleProduct(plasma.temperature, plasma.fuel);
+
+export const isIgnited = (plasma: Plasma) => getIgnitionProgress(plasma) >= 1;
+
+// Chance per second that an unstable plasma tears its magnetic cage apart
+export const getDisruptionRisk = (plasma: Plasma) => {
+  const stability = getPlasmaStability(plasma);
+  return stability >= 30 ? 0 : 0.02 + ((30 - stability) / 30) * 0.18;
+};
+
+// A disruption dumps the whole plasma energy onto the wall within milliseconds
+export const disruptPlasma = (plasma: Plasma): Plasma => ({ ...plasma, temperature: MIN_PLASMA_TEMPERATURE });
+
+export const getPowerBalance = (plasma: Plasma): PlasmaPowerBalance => {
+  const { temperature, heatingPower, fuel } = plasma;
+  const { energy, chargedEnergy, bremsstrahlungFactor } = getFuelCycle(fuel);
+  const density = plasma.density * DENSITY_UNIT;
+  const toMegawatts = PLASMA_VOLUME / 1e6;
+  const fusion = (getReactionRate(plasma) * energy * MEV) / 1e6;
+  const alpha = (fusion * chargedEnergy) / energy;
+  return {
+    fusion,
+    alpha,
+    neutron: fusion - alpha,
+    heating: heatingPower,
+    bremsstrahlung: BREMSSTRAHLUNG_COEFFICIENT * bremsstrahlungFactor * density ** 2 * Math.sqrt(temperature) * toMegawatts,
+    transport: (getEnergyPerIon(fuel) * density * temperature * KEV * toMegawatts) / getPlasmaConfinementTime(plasma),
+    q: heatingPower > 0 ? fusion / heatingPower : isIgnited(plasma) ? Infinity : 0,
+  };
+};
+
+// Fusion reactions per second
+export const getReactionRate = (plasma: Plasma) =>
+  getFuelCycle(plasma.fuel).reactantProduct * (plasma.density * DENSITY_UNIT) ** 2
+    * getFusionReactivity(plasma.temperature, plasma.fuel) * PLASMA_VOLUME;
+
+export const createPlasma = (conditions: Omit<Plasma, 'temperature'>): Plasma => ({
+  ...conditions,
+  temperature: MIN_PLASMA_TEMPERATURE,
+});
+
+// Heats or cools the plasma by its power balance over dt seconds
+export const stepPlasma = (plasma: Plasma, dt: number): Plasma => {
+  if (plasma.density <= 0) return { ...plasma, temperature: MIN_PLASMA_TEMPERATURE };
+  // Energy the plasma stores per keV, 3/2·n·V for each ion and electron, MJ
+  const heatCapacity = (getEnergyPerIon(plasma.fuel) * plasma.density * DENSITY_UNIT * KEV * PLASMA_VOLUME) / 1e6;
+  let temperature = plasma.temperature;
+  for (let elapsed = 0; elapsed < dt - 1e-9; elapsed += SUBSTEP) {
+    const h = Math.min(SUBSTEP, dt - elapsed);
+    const { heating, alpha, bremsstrahlung, transport } = getPowerBalance({ ...plasma, temperature });
+    temperature = Math.max(
+      MIN_PLASMA_TEMPERATURE,
+      temperature + ((heating + alpha - bremsstrahlung - transport) * h) / heatCapacity
+    );
+  }
+  return { ...plasma, temperature };
+};
@@ -0,0 +1,171 @@
+import { de, type Messages } from '@/locales/de';
+import { en } from '@/locales/en';
+
+// Message catalogs and number formatting for the UI languages.
+// German is the source language and its catalog is always complete; other
+// catalogs may miss keys, which then fall back to German (and to the key
+// itself if even German lacks it), so a half-translated screen stays usable.
+
+export type Locale = 'de' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'de';
+
+export const locales: { id: Locale; name: string; intlLocale: string }[] = [
+  { id: 'de', name: 'Deutsch', intlLocale: 'de-DE' },
+  { id: 'en', name: 'English', intlLocale: 'en-GB' },
+];
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends string ? string : DeepPartial<T[K]> };
+
+export type MessageCatalog = DeepPartial<Messages>;
+
+// Dot-separated paths to the strings of the German catalog, e.g. 'common.next'
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, MessageCatalog> = { de, en };
+
+const LOCALE_KEY = 'atom-abenteuer:locale';
+
+const isLocale = (value: unknown): value is Locale => locales.some(locale => locale.id === value);
+
+const detectLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Fall through to the browser language
+  }
+  if (typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('en')) {
+    return 'en';
+  }
+  return DEFAULT_LOCALE;
+};
+
+let currentLocale: Locale | null = null;
+
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => {
+  if (!currentLocale) {
+    currentLocale = detectLocale();
+  }
+  return currentLocale;
+};
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // The choice then only lasts for this visit
+  }
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = locale;
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const lookup = (catalog: MessageCatalog, key: string): string | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    catalog
+  );
+  return typeof value === 'string' ? value : undefined;
+};
+
+const reportedMissingKeys = new Set<string>();
+
+const reportMissingKey = (locale: Locale, key: string) => {
+  if (!import.meta.env.DEV || reportedMissingKeys.has(`${locale}:${key}`)) return;
+  reportedMissingKeys.add(`${locale}:${key}`);
+  console.warn(`i18n: "${key}" is missing in the ${locale} catalog`);
+};
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  let message = lookup(catalogs[locale], key);
+  if (message === undefined) {
+    reportMissingKey(locale, key);
+    message = locale === DEFAULT_LOCALE ? undefined : lookup(catalogs[DEFAULT_LOCALE], key);
+  }
+  if (message === undefined) {
+    return key;
+  }
+  return params
+    ? message.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder))
+    : message;
+};
+
+export const t = (key: MessageKey, params?: MessageParams) => translate(getLocale(), key, params);
+
+export const getIntlLocale = () => locales.find(locale => locale.id === getLocale())?.intlLocale ?? 'de-DE';
+
+export const formatNumber = (value: number, maximumFractionDigits = 0) =>
+  new Intl.NumberFormat(getIntlLocale(), {
+    minimumFractionDigits: maximumFractionDigits,
+    maximumFractionDigits,
+  }).format(value);
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// Mantissa times a power of ten, for the huge and tiny numbers of plasma physics
+export const formatScientific = (value: number, maximumFractionDigits = 1) => {
+  if (value === 0) return '0';
+  const exponent = Math.floor(Math.log10(Math.abs(value)));
+  const superscript = String(exponent)
+    .split('')
+    .map(char => (char === '-' ? '⁻' : SUPERSCRIPT_DIGITS[Number(char)]))
+    .join('');
+  return `${formatNumber(value / 10 ** exponent, maximumFractionDigits)} × 10${superscript}`;
+};
+
+// Reactor periods run from minutes down to microseconds; ∞ when nothing changes
+export const formatDuration = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '∞';
+  const magnitude = Math.abs(seconds);
+  if (magnitude >= 1) return `${formatNumber(seconds, 1)} s`;
+  if (magnitude >= 1e-3) return `${formatNumber(seconds * 1e3, 1)} ms`;
+  return `${formatNumber(seconds * 1e6, 1)} µs`;
+};
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+const YEAR = 365.25 * DAY;
+
+// Half-lives run from microseconds to billions of years; one decimal below ten units
+export const formatTimeSpan = (seconds: number) => {
+  if (seconds === 0) return '0';
+  const format = (value: number) => formatNumber(value, value < 10 ? 1 : 0);
+  const years = seconds / YEAR;
+  if (years >= 1e9) return t('units.billionYears', { value: format(years / 1e9) });
+  if (years >= 1e6) return t('units.millionYears', { value: format(years / 1e6) });
+  if (years >= 1) return t('units.years', { value: format(years) });
+  if (seconds >= DAY) return t('units.days', { value: format(seconds / DAY) });
+  if (seconds >= HOUR) return t('units.hours', { value: format(seconds / HOUR) });
+  if (seconds >= 60) return t('units.minutes', { value: format(seconds / 60) });
+  return formatDuration(seconds);
+};
+
+// Plasma temperatures are shown in millions of degrees, everything else in plain degrees
+export const formatTemperature = (celsius: number) =>
+  Math.abs(celsius) >= 1000000
+    ? t('units.millionCelsius', { value: formatNumber(celsius / 1000000, 1) })
+    : t('units.celsius', { value: formatNumber(celsius) });
+
+export const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(getIntlLocale(), { dateStyle: 'medium', timeStyle: 'short' });
+
+export const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(getIntlLocale(), { timeStyle: 'medium' });
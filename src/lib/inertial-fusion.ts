@@ -0,0 +1,150 @@
+import { getFusionReactivity } from './fusion-plasma';
+
+// Laser-driven inertial confinement: the laser burns off the outside of a
+// millimetre-sized D-T capsule, and like a rocket the rest of the shell flies
+// inward and compresses the fuel. A weak foot pulse first launches shock
+// waves through the shell; the main pulse has to follow just when they reach
+// the fuel, or the fuel gets preheated and resists compression. Uneven
+// illumination lets the shell implode lopsidedly. At stagnation the central
+// hot spot ignites when it is both hot enough and dense enough to stop its own
+// alpha particles (ρR ≥ 0.3 g/cm² at ≥ 5 keV); the burn then runs out through
+// the cold, dense fuel around it until the pellet blows apart. The numbers are
+// scaled to the National Ignition Facility, which first ignited in 2022.
+
+export interface LaserPulse {
+  // Laser energy on target, MJ
+  energy: number;
+  // Start of the main pulse after the foot, ns
+  timing: number;
+  // Uniformity of the illumination, %
+  symmetry: number;
+}
+
+export interface ImplosionResult {
+  // Shell speed at the end of the acceleration, km/s
+  velocity: number;
+  // Entropy of the fuel relative to a perfectly timed pulse; 1 is best
+  adiabat: number;
+  // Initial over final capsule radius
+  convergence: number;
+  hotSpotTemperature: number; // keV
+  hotSpotArealDensity: number; // g/cm²
+  fuelArealDensity: number; // g/cm²
+  // Ions per m³ in the hot spot
+  hotSpotDensity: number;
+  // Time the hot spot holds together before it flies apart, s
+  confinementTime: number;
+  // n·T·τ of the hot spot, keV·s/m³
+  tripleProduct: number;
+  // Share of the way to the hot-spot criterion, 1 when it is met
+  ignitionProgress: number;
+  ignited: boolean;
+  // Share of the fuel that burns
+  burnFraction: number;
+  // Fusion energy, MJ
+  yield: number;
+  // Fusion energy per laser energy on target
+  gain: number;
+  // Which shortcoming kept the hot spot from igniting
+  limitedBy?: 'energy' | 'timing' | 'symmetry';
+}
+
+export const MIN_LASER_ENERGY = 0.5;
+export const MAX_LASER_ENERGY = 4;
+// The foot's shocks reach the inner surface of the fuel after this time, ns
+export const OPTIMAL_TIMING = 12;
+export const MAX_TIMING = 20;
+export const MIN_SYMMETRY = 80;
+// Hot-spot criterion for D-T
+export const IGNITION_AREAL_DENSITY = 0.3; // g/cm²
+export const IGNITION_TEMPERATURE = 5; // keV
+// Lasers turn about one percent of the electricity into light on target
+export const LASER_EFFICIENCY = 0.01;
+
+const CAPSULE_RADIUS = 1e-3; // m
+const FUEL_MASS = 0.2; // mg
+// Fusion energy in a milligram of D-T, MJ
+const FUSION_ENERGY_PER_MILLIGRAM = 339;
+// Share of the fuel that forms the hot spot
+const HOT_SPOT_MASS_FRACTION = 0.05;
+// Areal density at which half the fuel would burn before the pellet flies apart, g/cm²
+const BURN_AREAL_DENSITY = 7;
+// Convergence of a perfectly timed and symmetric implosion
+const MAX_CONVERGENCE = 35;
+// Shell speed and hot-spot temperature of a perfect 2 MJ shot
+const NOMINAL_ENERGY = 2; // MJ
+const NOMINAL_VELOCITY = 380; // km/s
+const NOMINAL_TEMPERATURE = 5.5; // keV
+const DT_ION_MASS = 2.5 * 1.6605e-27; // kg
+const KEV = 1.602e-16; // J
+
+const getBurnFraction = (arealDensity: number) => arealDensity / (arealDensity + BURN_AREAL_DENSITY);
+
+export const getImplosion = ({ energy, timing, symmetry }: LaserPulse): ImplosionResult => {
+  // The shell's kinetic energy grows with the laser energy
+  const velocity = NOMINAL_VELOCITY * Math.sqrt(energy / NOMINAL_ENERGY);
+  // Shocks that merge too early preheat the fuel, a late main pulse lets the
+  // shell decompress; either way the fuel gets harder to squeeze
+  const adiabat = 1 + ((timing - OPTIMAL_TIMING) / 4) ** 2;
+  const idealConvergence = MAX_CONVERGENCE / adiabat ** 0.6;
+  // Every percent of uneven drive grows while the shell converges
+  const asymmetry = 1 - symmetry / 100;
+  const convergence = idealConvergence / (1 + 0.3 * asymmetry * idealConvergence);
+
+  const hotSpotTemperature = NOMINAL_TEMPERATURE * (velocity / NOMINAL_VELOCITY) ** 1.25
+    * Math.sqrt(convergence / MAX_CONVERGENCE);
+  const hotSpotArealDensity = IGNITION_AREAL_DENSITY * (convergence / 30) ** 2 * Math.sqrt(velocity / NOMINAL_VELOCITY);
+  const fuelArealDensity = 1.2 * (convergence / 30) ** 2;
+
+  const hotSpotRadius = CAPSULE_RADIUS / convergence;
+  // ρR over R gives the mass density in g/cm³
+  const hotSpotDensity = (hotSpotArealDensity / (hotSpotRadius * 100)) * 1e-3 / DT_ION_MASS * 1e6;
+  const soundSpeed = Math.sqrt((2 * hotSpotTemperature * KEV) / DT_ION_MASS);
+  const confinementTime = hotSpotRadius / (3 * soundSpeed);
+
+  const ignitionProgress = Math.min(
+    hotSpotArealDensity / IGNITION_AREAL_DENSITY,
+    hotSpotTemperature / IGNITION_TEMPERATURE
+  );
+  const ignited = ignitionProgress >= 1;
+
+  // Without ignition only the hot spot burns, and only as fast as its temperature allows
+  const burnFraction = ignited
+    ? getBurnFraction(fuelArealDensity)
+    : HOT_SPOT_MASS_FRACTION * getBurnFraction(hotSpotArealDensity)
+      * Math.min(1, getFusionReactivity(hotSpotTemperature) / getFusionReactivity(IGNITION_TEMPERATURE));
+  const fusionYield = FUEL_MASS * FUSION_ENERGY_PER_MILLIGRAM * burnFraction;
+
+  const getLimit = () => {
+    if (ignited) return undefined;
+    if (hotSpotTemperature < IGNITION_TEMPERATURE && velocity < NOMINAL_VELOCITY) return 'energy';
+    return idealConvergence / convergence > MAX_CONVERGENCE / idealConvergence ? 'symmetry' : 'timing';
+  };
+
+  return {
+    velocity,
+    adiabat,
+    convergence,
+    hotSpotTemperature,
+    hotSpotArealDensity,
+    fuelArealDensity,
+    hotSpotDensity,
+    confinementTime,
+    tripleProduct: hotSpotDensity * hotSpotTemperature * confinementTime,
+    ignitionProgress,
+    ignited,
+    burnFraction,
+    yield: fusionYield,
+    gain: fusionYield / energy,
+    limitedBy: getLimit(),
+  };
+};
+
+// Laser power over the pulse in units of the foot power, for drawing the pulse shape
+export const getPulseShape = ({ energy, timing }: LaserPulse, steps = 60) =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const time = ((MAX_TIMING + 8) * i) / steps;
+    const rise = Math.min(1, Math.max(0, (time - timing) / 2));
+    const fall = Math.min(1, Math.max(0, (timing + 6 - time) / 2));
+    return { time, power: 1 + Math.min(rise, fall) * 20 * (energy / NOMINAL_ENERGY) };
+  });
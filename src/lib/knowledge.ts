@@ -0,0 +1,291 @@
+import { z } from 'zod';
+import type { MessageKey } from './i18n';
+
+// Learning progress per physics concept. A concept is learned by performing
+// the experiments listed for it (each one counts once, repeating it teaches
+// nothing new) and by answering quiz questions about it correctly.
+// Like the achievements, the progress belongs to the player, not to a save slot.
+
+const conceptIds = [
+  'fission',
+  'isotopes',
+  'breeding',
+  'criticality',
+  'cooling',
+  'fusion-conditions',
+  'radiation-types',
+  'radar-reflection',
+] as const;
+
+export type ConceptId = typeof conceptIds[number];
+
+export interface Concept {
+  id: ConceptId;
+  name: MessageKey;
+  description: MessageKey;
+  // Tab of the game where the concept is explored, or a route for separate pages
+  lab: string;
+  labName: MessageKey;
+}
+
+export interface KnowledgeExperiment {
+  id: string;
+  concept: ConceptId;
+  points: number;
+  // What the player should try, shown as a suggestion
+  hint: MessageKey;
+}
+
+export interface KnowledgeState {
+  // Experiment id -> ISO date when it was first performed
+  experiments: Record<string, string>;
+  // Quiz question id -> concept and whether the latest answer was correct
+  quizAnswers: Record<string, { concept: ConceptId; correct: boolean }>;
+}
+
+export interface ConceptProgress {
+  concept: Concept;
+  // 0..100
+  score: number;
+  nextExperiment: KnowledgeExperiment | null;
+}
+
+// Experiments can teach at most this much of a concept; the rest comes from quizzes
+export const MAX_EXPERIMENT_POINTS = 60;
+export const QUIZ_POINTS_PER_ANSWER = 10;
+export const MAX_QUIZ_POINTS = 100 - MAX_EXPERIMENT_POINTS;
+
+export const RADAR_ROUTE = '/radar-adventure';
+
+export const concepts: Concept[] = [
+  {
+    id: 'fission',
+    name: 'knowledge.concepts.fission.name',
+    description: 'knowledge.concepts.fission.description',
+    lab: 'fission',
+    labName: 'knowledge.labs.fission',
+  },
+  {
+    id: 'isotopes',
+    name: 'knowledge.concepts.isotopes.name',
+    description: 'knowledge.concepts.isotopes.description',
+    lab: 'enrichment',
+    labName: 'knowledge.labs.enrichment',
+  },
+  {
+    id: 'breeding',
+    name: 'knowledge.concepts.breeding.name',
+    description: 'knowledge.concepts.breeding.description',
+    lab: 'fission',
+    labName: 'knowledge.labs.fission',
+  },
+  {
+    id: 'criticality',
+    name: 'knowledge.concepts.criticality.name',
+    description: 'knowledge.concepts.criticality.description',
+    lab: 'chain-reaction',
+    labName: 'knowledge.labs.chainReaction',
+  },
+  {
+    id: 'cooling',
+    name: 'knowledge.concepts.cooling.name',
+    description: 'knowledge.concepts.cooling.description',
+    lab: 'reactor',
+    labName: 'knowledge.labs.reactor',
+  },
+  {
+    id: 'fusion-conditions',
+    name: 'knowledge.concepts.fusionConditions.name',
+    description: 'knowledge.concepts.fusionConditions.description',
+    lab: 'fusion',
+    labName: 'knowledge.labs.fusion',
+  },
+  {
+    id: 'radiation-types',
+    name: 'knowledge.concepts.radiationTypes.name',
+    description: 'knowledge.concepts.radiationTypes.description',
+    lab: 'radiation',
+    labName: 'knowledge.labs.radiation',
+  },
+  {
+    id: 'radar-reflection',
+    name: 'knowledge.concepts.radarReflection.name',
+    description: 'knowledge.concepts.radarReflection.description',
+    lab: RADAR_ROUTE,
+    labName: 'knowledge.labs.radar',
+  },
+];
+
+export const knowledgeExperiments: KnowledgeExperiment[] = [
+  { id: 'fission:uranium235', concept: 'fission', points: 20, hint: 'knowledge.hints.fission.uranium235' },
+  { id: 'fission:plutonium239', concept: 'fission', points: 15, hint: 'knowledge.hints.fission.plutonium239' },
+  { id: 'fission:uranium233', concept: 'fission', points: 10, hint: 'knowledge.hints.fission.uranium233' },
+  { id: 'fission:chain-reaction', concept: 'fission', points: 15, hint: 'knowledge.hints.fission.chainReaction' },
+
+  { id: 'isotopes:capture', concept: 'isotopes', points: 15, hint: 'knowledge.hints.isotopes.capture' },
+  { id: 'isotopes:wrong-speed', concept: 'isotopes', points: 10, hint: 'knowledge.hints.isotopes.wrongSpeed' },
+  { id: 'isotopes:fragments', concept: 'isotopes', points: 10, hint: 'knowledge.hints.isotopes.fragments' },
+  { id: 'isotopes:enrichment', concept: 'isotopes', points: 15, hint: 'knowledge.hints.isotopes.enrichment' },
+  { id: 'isotopes:half-life', concept: 'isotopes', points: 10, hint: 'knowledge.hints.isotopes.halfLife' },
+  { id: 'isotopes:decay-chain', concept: 'isotopes', points: 15, hint: 'knowledge.hints.isotopes.decayChain' },
+  { id: 'isotopes:dating', concept: 'isotopes', points: 15, hint: 'knowledge.hints.isotopes.dating' },
+
+  { id: 'breeding:plutonium239', concept: 'breeding', points: 25, hint: 'knowledge.hints.breeding.plutonium239' },
+  { id: 'breeding:uranium233', concept: 'breeding', points: 25, hint: 'knowledge.hints.breeding.uranium233' },
+  { id: 'breeding:fast-breeder', concept: 'breeding', points: 10, hint: 'knowledge.hints.breeding.fastBreeder' },
+
+  { id: 'criticality:subcritical', concept: 'criticality', points: 15, hint: 'knowledge.hints.criticality.subcritical' },
+  { id: 'criticality:critical', concept: 'criticality', points: 15, hint: 'knowledge.hints.criticality.critical' },
+  { id: 'criticality:supercritical', concept: 'criticality', points: 15, hint: 'knowledge.hints.criticality.supercritical' },
+  { id: 'criticality:random-extinction', concept: 'criticality', points: 15, hint: 'knowledge.hints.criticality.randomExtinction' },
+  { id: 'criticality:delayed-neutrons', concept: 'criticality', points: 15, hint: 'knowledge.hints.criticality.delayedNeutrons' },
+  { id: 'criticality:critical-mass', concept: 'criticality', points: 15, hint: 'knowledge.hints.criticality.criticalMass' },
+  { id: 'criticality:reflector', concept: 'criticality', points: 15, hint: 'knowledge.hints.criticality.reflector' },
+
+  { id: 'cooling:water', concept: 'cooling', points: 10, hint: 'knowledge.hints.cooling.water' },
+  { id: 'cooling:sodium', concept: 'cooling', points: 10, hint: 'knowledge.hints.cooling.sodium' },
+  { id: 'cooling:helium', concept: 'cooling', points: 10, hint: 'knowledge.hints.cooling.helium' },
+  { id: 'cooling:molten-salt', concept: 'cooling', points: 10, hint: 'knowledge.hints.cooling.moltenSalt' },
+  { id: 'cooling:meltdown', concept: 'cooling', points: 20, hint: 'knowledge.hints.cooling.meltdown' },
+
+  { id: 'fusion-conditions:ignition', concept: 'fusion-conditions', points: 20, hint: 'knowledge.hints.fusionConditions.ignition' },
+  { id: 'fusion-conditions:sustained', concept: 'fusion-conditions', points: 20, hint: 'knowledge.hints.fusionConditions.sustained' },
+  { id: 'fusion-conditions:laser-ignition', concept: 'fusion-conditions', points: 20, hint: 'knowledge.hints.fusionConditions.laserIgnition' },
+  { id: 'fusion-conditions:mini-sun', concept: 'fusion-conditions', points: 10, hint: 'knowledge.hints.fusionConditions.miniSun' },
+  { id: 'fusion-conditions:star-death', concept: 'fusion-conditions', points: 10, hint: 'knowledge.hints.fusionConditions.starDeath' },
+
+  { id: 'radiation-types:alpha', concept: 'radiation-types', points: 10, hint: 'knowledge.hints.radiationTypes.alpha' },
+  { id: 'radiation-types:beta', concept: 'radiation-types', points: 10, hint: 'knowledge.hints.radiationTypes.beta' },
+  { id: 'radiation-types:gamma', concept: 'radiation-types', points: 10, hint: 'knowledge.hints.radiationTypes.gamma' },
+  { id: 'radiation-types:neutron', concept: 'radiation-types', points: 10, hint: 'knowledge.hints.radiationTypes.neutron' },
+  { id: 'radiation-types:dna', concept: 'radiation-types', points: 5, hint: 'knowledge.hints.radiationTypes.dna' },
+  { id: 'radiation-types:metal', concept: 'radiation-types', points: 5, hint: 'knowledge.hints.radiationTypes.metal' },
+  { id: 'radiation-types:plastic', concept: 'radiation-types', points: 5, hint: 'knowledge.hints.radiationTypes.plastic' },
+  { id: 'radiation-types:crystal', concept: 'radiation-types', points: 5, hint: 'knowledge.hints.radiationTypes.crystal' },
+
+  { id: 'radar-reflection:metal', concept: 'radar-reflection', points: 15, hint: 'knowledge.hints.radarReflection.metal' },
+  { id: 'radar-reflection:carbon', concept: 'radar-reflection', points: 15, hint: 'knowledge.hints.radarReflection.carbon' },
+  { id: 'radar-reflection:stealth', concept: 'radar-reflection', points: 15, hint: 'knowledge.hints.radarReflection.stealth' },
+  { id: 'radar-reflection:unseen', concept: 'radar-reflection', points: 15, hint: 'knowledge.hints.radarReflection.unseen' },
+];
+
+export const knowledgeStateSchema: z.ZodType<KnowledgeState, z.ZodTypeDef, unknown> = z.object({
+  experiments: z.record(z.string()).default({}),
+  quizAnswers: z.record(z.object({
+    concept: z.enum(conceptIds),
+    correct: z.boolean(),
+  })).default({}),
+}) as z.ZodType<KnowledgeState, z.ZodTypeDef, unknown>;
+
+const KNOWLEDGE_KEY = 'atom-abenteuer:knowledge';
+
+const emptyState: KnowledgeState = { experiments: {}, quizAnswers: {} };
+
+const readState = (): KnowledgeState => {
+  try {
+    const value = localStorage.getItem(KNOWLEDGE_KEY);
+    const result = knowledgeStateSchema.safeParse(value ? JSON.parse(value) : {});
+    return result.success ? result.data : emptyState;
+  } catch {
+    return emptyState;
+  }
+};
+
+let state: KnowledgeState | null = null;
+
+type KnowledgeListener = (state: KnowledgeState) => void;
+
+const listeners = new Set<KnowledgeListener>();
+
+export const getKnowledgeState = (): KnowledgeState => {
+  if (!state) {
+    state = readState();
+  }
+  return state;
+};
+
+const setState = (next: KnowledgeState) => {
+  state = next;
+  try {
+    localStorage.setItem(KNOWLEDGE_KEY, JSON.stringify(next));
+  } catch {
+    // Knowledge still grows for this visit without storage
+  }
+  listeners.forEach(listener => listener(next));
+};
+
+export const subscribeToKnowledge = (listener: KnowledgeListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Unknown ids are ignored, so labs can report experiments without checking the list
+export const recordExperiment = (experimentId: string) => {
+  const current = getKnowledgeState();
+  if (current.experiments[experimentId] || !knowledgeExperiments.some(experiment => experiment.id === experimentId)) {
+    return;
+  }
+  setState({
+    ...current,
+    experiments: { ...current.experiments, [experimentId]: new Date().toISOString() },
+  });
+};
+
+export const recordQuizAnswer = (questionId: string, concept: ConceptId, correct: boolean) => {
+  const current = getKnowledgeState();
+  setState({
+    ...current,
+    quizAnswers: { ...current.quizAnswers, [questionId]: { concept, correct } },
+  });
+};
+
+export const getConceptProgress = (current = getKnowledgeState()): ConceptProgress[] =>
+  concepts.map(concept => {
+    const experiments = knowledgeExperiments.filter(experiment => experiment.concept === concept.id);
+    const experimentPoints = experiments
+      .filter(experiment => current.experiments[experiment.id])
+      .reduce((sum, experiment) => sum + experiment.points, 0);
+    const correctAnswers = Object.values(current.quizAnswers)
+      .filter(answer => answer.concept === concept.id && answer.correct)
+      .length;
+
+    return {
+      concept,
+      score: Math.min(MAX_EXPERIMENT_POINTS, experimentPoints)
+        + Math.min(MAX_QUIZ_POINTS, correctAnswers * QUIZ_POINTS_PER_ANSWER),
+      nextExperiment: experiments.find(experiment => !current.experiments[experiment.id]) ?? null,
+    };
+  });
+
+// Overall knowledge in percent, the average over all concepts
+export const getTotalKnowledge = (progress: ConceptProgress[]) =>
+  progress.reduce((sum, conceptProgress) => sum + conceptProgress.score, 0) / progress.length;
+
+// The least explored concepts first
+export const getLabSuggestions = (progress: ConceptProgress[], count = 3) =>
+  progress
+    .filter(conceptProgress => conceptProgress.score < 100)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, count);
+
+// Keeps everything learned in either state, e.g. when importing a save file
+export const mergeKnowledgeState = (imported: KnowledgeState) => {
+  const current = getKnowledgeState();
+  const experiments = { ...current.experiments };
+  Object.entries(imported.experiments).forEach(([id, performedAt]) => {
+    if (!experiments[id] || performedAt < experiments[id]) {
+      experiments[id] = performedAt;
+    }
+  });
+
+  const quizAnswers = { ...current.quizAnswers };
+  Object.entries(imported.quizAnswers).forEach(([id, answer]) => {
+    if (!quizAnswers[id]?.correct) {
+      quizAnswers[id] = answer;
+    }
+  });
+
+  setState({ experiments, quizAnswers });
+};
@@ -0,0 +1,620 @@
+// Central nuclide registry. Every isotope shown anywhere in the fission sandbox
+// (Atom, GameArea, Effect, GameControls, FissionEngine) is described here once.
+// Fission fragments are not listed individually; getNuclide() derives them
+// from their proton and mass number (see fragmentId).
+
+import type { MessageKey } from './i18n';
+
+export type NeutronSpeed = 'slow' | 'fast';
+
+export type DecayModeType =
+  | 'alpha'
+  | 'beta-minus'
+  | 'beta-plus'
+  | 'electron-capture'
+  | 'isomeric-transition'
+  | 'spontaneous-fission';
+
+export interface DecayMode {
+  type: DecayModeType;
+  branchingRatio: number;
+  // Registry id of the daughter, if the daughter is part of the registry
+  daughter?: string;
+}
+
+// Microscopic cross-sections in barn for thermal ("slow") and fission-spectrum ("fast") neutrons
+export interface CrossSections {
+  slow: number;
+  fast: number;
+}
+
+export type NuclideRole = 'fuel' | 'fertile' | 'intermediate' | 'fission-product' | 'decay-product';
+
+// Simplified numbers the game uses; they are tuned for playability, not taken from data tables
+export interface NuclideGameplay {
+  canFission: boolean;
+  probability: number;
+  energyReleased: number;
+  // Mean number of prompt neutrons per fission; each fission releases 2 or 3
+  averageNeutrons: number;
+  preferredNeutronSpeed?: 'slow' | 'fast' | 'both';
+  // Nucleus formed when a neutron is captured instead of splitting the nucleus
+  captureProduct?: string;
+  // Game time in ms until the first decay mode fires; unset for nuclei that never decay in the game
+  decayTime?: number;
+}
+
+export interface Nuclide {
+  symbol: string;
+  elementSymbol: string;
+  protons: number;
+  neutrons: number;
+  // Half-life in seconds, null for stable nuclei
+  halfLife: number | null;
+  decayModes: DecayMode[];
+  fissionCrossSection: CrossSections;
+  captureCrossSection: CrossSections;
+  // Tailwind background class
+  color: string;
+  role: NuclideRole;
+  // Shown on the element selection buttons; only set for nuclei the player can pick
+  description?: MessageKey;
+  game: NuclideGameplay;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const YEAR = 365.25 * DAY;
+
+type DecayChainMemberData = Pick<
+  Nuclide,
+  'symbol' | 'elementSymbol' | 'protons' | 'neutrons' | 'halfLife' | 'decayModes'
+> & { role?: NuclideRole };
+
+// Members of natural and fission-product decay chains and the clocks of
+// radioactive dating. They only appear in the decay modes of the chain reaction
+// simulator, never as atoms in the sandbox, so their cross-sections and game
+// values are left empty.
+const decayChainMember = ({ role = 'decay-product', ...data }: DecayChainMemberData): Nuclide => ({
+  ...data,
+  fissionCrossSection: { slow: 0, fast: 0 },
+  captureCrossSection: { slow: 0, fast: 0 },
+  color: 'bg-slate-400',
+  role,
+  game: {
+    canFission: false,
+    probability: 0,
+    energyReleased: 0,
+    averageNeutrons: 0,
+  },
+});
+
+const nuclideData = {
+  uranium235: {
+    symbol: 'U-235',
+    elementSymbol: 'U',
+    protons: 92,
+    neutrons: 143,
+    halfLife: 7.04e8 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1 }],
+    fissionCrossSection: { slow: 585, fast: 1.2 },
+    captureCrossSection: { slow: 99, fast: 0.09 },
+    color: 'bg-atom-uranium235',
+    role: 'fuel',
+    description: 'nuclides.uranium235.description',
+    game: {
+      canFission: true,
+      probability: 0.95,
+      energyReleased: 200,
+      averageNeutrons: 2.43,
+      preferredNeutronSpeed: 'both',
+    },
+  },
+  uranium238: {
+    symbol: 'U-238',
+    elementSymbol: 'U',
+    protons: 92,
+    neutrons: 146,
+    halfLife: 4.468e9 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'thorium234' }],
+    fissionCrossSection: { slow: 0.00002, fast: 0.3 },
+    captureCrossSection: { slow: 2.7, fast: 0.07 },
+    color: 'bg-atom-uranium238',
+    role: 'fertile',
+    description: 'nuclides.uranium238.description',
+    game: {
+      canFission: false,
+      probability: 0.7,
+      energyReleased: 0,
+      averageNeutrons: 0,
+      preferredNeutronSpeed: 'slow',
+      captureProduct: 'uranium239',
+    },
+  },
+  uranium239: {
+    symbol: 'U-239',
+    elementSymbol: 'U',
+    protons: 92,
+    neutrons: 147,
+    halfLife: 23.45 * MINUTE,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'neptunium239' }],
+    fissionCrossSection: { slow: 14, fast: 1.0 },
+    captureCrossSection: { slow: 22, fast: 0.1 },
+    color: 'bg-atom-uranium239',
+    role: 'intermediate',
+    game: {
+      canFission: false,
+      probability: 0,
+      energyReleased: 0,
+      averageNeutrons: 0,
+      decayTime: 5000,
+    },
+  },
+  neptunium239: {
+    symbol: 'Np-239',
+    elementSymbol: 'Np',
+    protons: 93,
+    neutrons: 146,
+    halfLife: 2.356 * DAY,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'plutonium239' }],
+    fissionCrossSection: { slow: 0, fast: 0.1 },
+    captureCrossSection: { slow: 32, fast: 0.2 },
+    color: 'bg-atom-neptunium239',
+    role: 'intermediate',
+    game: {
+      canFission: false,
+      probability: 0,
+      energyReleased: 0,
+      averageNeutrons: 0,
+      decayTime: 5000,
+    },
+  },
+  plutonium239: {
+    symbol: 'Pu-239',
+    elementSymbol: 'Pu',
+    protons: 94,
+    neutrons: 145,
+    halfLife: 24110 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'uranium235' }],
+    fissionCrossSection: { slow: 748, fast: 1.8 },
+    captureCrossSection: { slow: 271, fast: 0.05 },
+    color: 'bg-atom-plutonium239',
+    role: 'fuel',
+    description: 'nuclides.plutonium239.description',
+    game: {
+      canFission: true,
+      probability: 0.9,
+      energyReleased: 210,
+      averageNeutrons: 2.87,
+      preferredNeutronSpeed: 'both',
+    },
+  },
+  thorium232: {
+    symbol: 'Th-232',
+    elementSymbol: 'Th',
+    protons: 90,
+    neutrons: 142,
+    halfLife: 1.405e10 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1 }],
+    fissionCrossSection: { slow: 0, fast: 0.08 },
+    captureCrossSection: { slow: 7.4, fast: 0.09 },
+    color: 'bg-atom-thorium232',
+    role: 'fertile',
+    description: 'nuclides.thorium232.description',
+    game: {
+      canFission: false,
+      probability: 0.1,
+      energyReleased: 0,
+      averageNeutrons: 0,
+      preferredNeutronSpeed: 'slow',
+      captureProduct: 'thorium233',
+    },
+  },
+  thorium233: {
+    symbol: 'Th-233',
+    elementSymbol: 'Th',
+    protons: 90,
+    neutrons: 143,
+    halfLife: 21.83 * MINUTE,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'protactinium233' }],
+    fissionCrossSection: { slow: 15, fast: 0.5 },
+    captureCrossSection: { slow: 1500, fast: 0.1 },
+    color: 'bg-atom-thorium233',
+    role: 'intermediate',
+    game: {
+      canFission: false,
+      probability: 0,
+      energyReleased: 0,
+      averageNeutrons: 0,
+      decayTime: 5000,
+    },
+  },
+  protactinium233: {
+    symbol: 'Pa-233',
+    elementSymbol: 'Pa',
+    protons: 91,
+    neutrons: 142,
+    halfLife: 26.975 * DAY,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'uranium233' }],
+    fissionCrossSection: { slow: 0, fast: 0.1 },
+    captureCrossSection: { slow: 40, fast: 0.2 },
+    color: 'bg-atom-protactinium233',
+    role: 'intermediate',
+    game: {
+      canFission: false,
+      probability: 0,
+      energyReleased: 0,
+      averageNeutrons: 0,
+      decayTime: 5000,
+    },
+  },
+  uranium233: {
+    symbol: 'U-233',
+    elementSymbol: 'U',
+    protons: 92,
+    neutrons: 141,
+    halfLife: 1.592e5 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1 }],
+    fissionCrossSection: { slow: 531, fast: 1.9 },
+    captureCrossSection: { slow: 45, fast: 0.1 },
+    color: 'bg-atom-uranium233',
+    role: 'fuel',
+    game: {
+      canFission: true,
+      probability: 0.92,
+      energyReleased: 197,
+      averageNeutrons: 2.49,
+      preferredNeutronSpeed: 'both',
+    },
+  },
+  // Uranium-radium series from U-238 down to stable lead; the rare side branches are left out
+  thorium234: decayChainMember({
+    symbol: 'Th-234',
+    elementSymbol: 'Th',
+    protons: 90,
+    neutrons: 144,
+    halfLife: 24.1 * DAY,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'protactinium234m' }],
+  }),
+  protactinium234m: decayChainMember({
+    symbol: 'Pa-234m',
+    elementSymbol: 'Pa',
+    protons: 91,
+    neutrons: 143,
+    halfLife: 1.159 * MINUTE,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'uranium234' }],
+  }),
+  uranium234: decayChainMember({
+    symbol: 'U-234',
+    elementSymbol: 'U',
+    protons: 92,
+    neutrons: 142,
+    halfLife: 2.455e5 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'thorium230' }],
+  }),
+  thorium230: decayChainMember({
+    symbol: 'Th-230',
+    elementSymbol: 'Th',
+    protons: 90,
+    neutrons: 140,
+    halfLife: 7.54e4 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'radium226' }],
+  }),
+  radium226: decayChainMember({
+    symbol: 'Ra-226',
+    elementSymbol: 'Ra',
+    protons: 88,
+    neutrons: 138,
+    halfLife: 1600 * YEAR,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'radon222' }],
+  }),
+  radon222: decayChainMember({
+    symbol: 'Rn-222',
+    elementSymbol: 'Rn',
+    protons: 86,
+    neutrons: 136,
+    halfLife: 3.8235 * DAY,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'polonium218' }],
+  }),
+  polonium218: decayChainMember({
+    symbol: 'Po-218',
+    elementSymbol: 'Po',
+    protons: 84,
+    neutrons: 134,
+    halfLife: 3.098 * MINUTE,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'lead214' }],
+  }),
+  lead214: decayChainMember({
+    symbol: 'Pb-214',
+    elementSymbol: 'Pb',
+    protons: 82,
+    neutrons: 132,
+    halfLife: 26.8 * MINUTE,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'bismuth214' }],
+  }),
+  bismuth214: decayChainMember({
+    symbol: 'Bi-214',
+    elementSymbol: 'Bi',
+    protons: 83,
+    neutrons: 131,
+    halfLife: 19.9 * MINUTE,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'polonium214' }],
+  }),
+  polonium214: decayChainMember({
+    symbol: 'Po-214',
+    elementSymbol: 'Po',
+    protons: 84,
+    neutrons: 130,
+    halfLife: 164.3e-6,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'lead210' }],
+  }),
+  lead210: decayChainMember({
+    symbol: 'Pb-210',
+    elementSymbol: 'Pb',
+    protons: 82,
+    neutrons: 128,
+    halfLife: 22.2 * YEAR,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'bismuth210' }],
+  }),
+  bismuth210: decayChainMember({
+    symbol: 'Bi-210',
+    elementSymbol: 'Bi',
+    protons: 83,
+    neutrons: 127,
+    halfLife: 5.012 * DAY,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'polonium210' }],
+  }),
+  polonium210: decayChainMember({
+    symbol: 'Po-210',
+    elementSymbol: 'Po',
+    protons: 84,
+    neutrons: 126,
+    halfLife: 138.376 * DAY,
+    decayModes: [{ type: 'alpha', branchingRatio: 1, daughter: 'lead206' }],
+  }),
+  lead206: decayChainMember({
+    symbol: 'Pb-206',
+    elementSymbol: 'Pb',
+    protons: 82,
+    neutrons: 124,
+    halfLife: null,
+    decayModes: [],
+  }),
+  // Fission products with well-known daughters
+  strontium90: decayChainMember({
+    symbol: 'Sr-90',
+    elementSymbol: 'Sr',
+    protons: 38,
+    neutrons: 52,
+    halfLife: 28.79 * YEAR,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'yttrium90' }],
+    role: 'fission-product',
+  }),
+  yttrium90: decayChainMember({
+    symbol: 'Y-90',
+    elementSymbol: 'Y',
+    protons: 39,
+    neutrons: 51,
+    halfLife: 64.0 * HOUR,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'zirconium90' }],
+    role: 'fission-product',
+  }),
+  zirconium90: decayChainMember({
+    symbol: 'Zr-90',
+    elementSymbol: 'Zr',
+    protons: 40,
+    neutrons: 50,
+    halfLife: null,
+    decayModes: [],
+    role: 'fission-product',
+  }),
+  molybdenum99: decayChainMember({
+    symbol: 'Mo-99',
+    elementSymbol: 'Mo',
+    protons: 42,
+    neutrons: 57,
+    halfLife: 65.94 * HOUR,
+    decayModes: [
+      { type: 'beta-minus', branchingRatio: 0.876, daughter: 'technetium99m' },
+      { type: 'beta-minus', branchingRatio: 0.124, daughter: 'technetium99' },
+    ],
+    role: 'fission-product',
+  }),
+  technetium99m: decayChainMember({
+    symbol: 'Tc-99m',
+    elementSymbol: 'Tc',
+    protons: 43,
+    neutrons: 56,
+    halfLife: 6.007 * HOUR,
+    decayModes: [{ type: 'isomeric-transition', branchingRatio: 1, daughter: 'technetium99' }],
+    role: 'fission-product',
+  }),
+  technetium99: decayChainMember({
+    symbol: 'Tc-99',
+    elementSymbol: 'Tc',
+    protons: 43,
+    neutrons: 56,
+    halfLife: 2.111e5 * YEAR,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'ruthenium99' }],
+    role: 'fission-product',
+  }),
+  ruthenium99: decayChainMember({
+    symbol: 'Ru-99',
+    elementSymbol: 'Ru',
+    protons: 44,
+    neutrons: 55,
+    halfLife: null,
+    decayModes: [],
+    role: 'fission-product',
+  }),
+  iodine131: decayChainMember({
+    symbol: 'I-131',
+    elementSymbol: 'I',
+    protons: 53,
+    neutrons: 78,
+    halfLife: 8.0252 * DAY,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'xenon131' }],
+    role: 'fission-product',
+  }),
+  xenon131: decayChainMember({
+    symbol: 'Xe-131',
+    elementSymbol: 'Xe',
+    protons: 54,
+    neutrons: 77,
+    halfLife: null,
+    decayModes: [],
+    role: 'fission-product',
+  }),
+  // Clocks of radioactive dating
+  carbon14: decayChainMember({
+    symbol: 'C-14',
+    elementSymbol: 'C',
+    protons: 6,
+    neutrons: 8,
+    halfLife: 5730 * YEAR,
+    decayModes: [{ type: 'beta-minus', branchingRatio: 1, daughter: 'nitrogen14' }],
+  }),
+  nitrogen14: decayChainMember({
+    symbol: 'N-14',
+    elementSymbol: 'N',
+    protons: 7,
+    neutrons: 7,
+    halfLife: null,
+    decayModes: [],
+  }),
+  potassium40: decayChainMember({
+    symbol: 'K-40',
+    elementSymbol: 'K',
+    protons: 19,
+    neutrons: 21,
+    halfLife: 1.248e9 * YEAR,
+    decayModes: [
+      { type: 'beta-minus', branchingRatio: 0.8928, daughter: 'calcium40' },
+      { type: 'electron-capture', branchingRatio: 0.1072, daughter: 'argon40' },
+    ],
+  }),
+  calcium40: decayChainMember({
+    symbol: 'Ca-40',
+    elementSymbol: 'Ca',
+    protons: 20,
+    neutrons: 20,
+    halfLife: null,
+    decayModes: [],
+  }),
+  argon40: decayChainMember({
+    symbol: 'Ar-40',
+    elementSymbol: 'Ar',
+    protons: 18,
+    neutrons: 22,
+    halfLife: null,
+    decayModes: [],
+  }),
+} satisfies Record<string, Nuclide>;
+
+export type NuclideId = keyof typeof nuclideData;
+
+export const isNuclideId = (id: string): id is NuclideId =>
+  Object.prototype.hasOwnProperty.call(nuclideData, id);
+
+export const nuclides: Record<NuclideId, Nuclide> = nuclideData;
+
+// Element symbols by proton number (index 0 is the free neutron); the names live in the locale catalogs
+const chemicalElements = [
+  'n', 'H', 'He', 'Li', 'Be', 'B', 'C', 'N', 'O', 'F',
+  'Ne', 'Na', 'Mg', 'Al', 'Si', 'P', 'S', 'Cl', 'Ar', 'K',
+  'Ca', 'Sc', 'Ti', 'V', 'Cr', 'Mn', 'Fe', 'Co', 'Ni', 'Cu',
+  'Zn', 'Ga', 'Ge', 'As', 'Se', 'Br', 'Kr', 'Rb', 'Sr', 'Y',
+  'Zr', 'Nb', 'Mo', 'Tc', 'Ru', 'Rh', 'Pd', 'Ag', 'Cd', 'In',
+  'Sn', 'Sb', 'Te', 'I', 'Xe', 'Cs', 'Ba', 'La', 'Ce', 'Pr',
+  'Nd', 'Pm', 'Sm', 'Eu', 'Gd', 'Tb', 'Dy', 'Ho', 'Er', 'Tm',
+  'Yb', 'Lu', 'Hf', 'Ta', 'W', 'Re', 'Os', 'Ir', 'Pt', 'Au',
+  'Hg', 'Tl', 'Pb', 'Bi', 'Po', 'At', 'Rn', 'Fr', 'Ra', 'Ac',
+  'Th', 'Pa', 'U', 'Np', 'Pu',
+];
+
+export const getElementSymbol = (protons: number) => chemicalElements[protons] ?? '?';
+
+export const getElementNameKey = (elementSymbol: string) => `elements.${elementSymbol}` as MessageKey;
+
+// Display name such as "Uran-235": the translated element name followed by the mass number part of the symbol
+export const getNuclideName = (nuclide: Nuclide, t: (key: MessageKey) => string) =>
+  `${t(getElementNameKey(nuclide.elementSymbol))}${nuclide.symbol.slice(nuclide.elementSymbol.length)}`;
+
+const fragmentColors = [
+  'bg-green-500',
+  'bg-blue-500',
+  'bg-purple-500',
+  'bg-yellow-500',
+  'bg-red-500',
+  'bg-orange-500',
+  'bg-pink-500',
+  'bg-cyan-500',
+  'bg-indigo-500',
+  'bg-teal-500',
+];
+
+const FRAGMENT_PREFIX = 'fragment-';
+
+// Registry id of a fission fragment, e.g. fragmentId(56, 141) for Ba-141
+export const fragmentId = (protons: number, massNumber: number) =>
+  `${FRAGMENT_PREFIX}${protons}-${massNumber}`;
+
+// Proton number of the beta-stable isobar for a mass number (valley of stability)
+export const betaStableProtons = (massNumber: number) =>
+  Math.round(massNumber / (1.98 + 0.0155 * Math.pow(massNumber, 2 / 3)));
+
+const createFragmentNuclide = (protons: number, massNumber: number): Nuclide => {
+  const neutronExcess = betaStableProtons(massNumber) - protons;
+  const decays = neutronExcess > 0;
+  const symbol = getElementSymbol(protons);
+
+  return {
+    symbol: `${symbol}-${massNumber}`,
+    elementSymbol: symbol,
+    protons,
+    neutrons: massNumber - protons,
+    // Rough order of magnitude: the further from stability, the faster the decay
+    halfLife: decays ? Math.pow(10, 6 - 1.5 * neutronExcess) : null,
+    decayModes: decays
+      ? [{ type: 'beta-minus', branchingRatio: 1, daughter: fragmentId(protons + 1, massNumber) }]
+      : [],
+    fissionCrossSection: { slow: 0, fast: 0 },
+    captureCrossSection: { slow: 0.1, fast: 0.01 },
+    color: fragmentColors[protons % fragmentColors.length],
+    role: 'fission-product',
+    game: {
+      canFission: false,
+      probability: 0,
+      energyReleased: 0,
+      averageNeutrons: 0,
+      decayTime: decays ? 3000 : undefined,
+    },
+  };
+};
+
+const fragmentCache = new Map<string, Nuclide>();
+
+export const getNuclide = (id: string): Nuclide | undefined => {
+  if (isNuclideId(id)) return nuclides[id];
+  if (!id.startsWith(FRAGMENT_PREFIX)) return undefined;
+
+  const [protons, massNumber] = id.slice(FRAGMENT_PREFIX.length).split('-').map(Number);
+  if (!Number.isInteger(protons) || !Number.isInteger(massNumber) || !chemicalElements[protons] || massNumber <= protons) {
+    return undefined;
+  }
+
+  let fragment = fragmentCache.get(id);
+  if (!fragment) {
+    fragment = createFragmentNuclide(protons, massNumber);
+    fragmentCache.set(id, fragment);
+  }
+  return fragment;
+};
+
+export const getMassNumber = (nuclide: Nuclide) => nuclide.protons + nuclide.neutrons;
+
+// Nuclei the player can place in the fission sandbox, in registry order
+export const selectableNuclides = (Object.keys(nuclides) as NuclideId[]).filter(
+  id => nuclides[id].description !== undefined
+);
@@ -0,0 +1,619 @@
+import type { ConceptId, KnowledgeState } from './knowledge';
+import type { Rng } from './rng';
+import type { MessageKey } from './i18n';
+
+// Comprehension checks after the labs. Questions are plain data so new ones
+// only need an entry in the bank of their tab; every question names the
+// concept of the knowledge model it checks.
+
+export type QuizTab =
+  | 'fission'
+  | 'enrichment'
+  | 'reactor'
+  | 'fusion'
+  | 'mini-sun'
+  | 'chain-reaction'
+  | 'radiation'
+  | 'radar';
+
+interface QuizQuestionBase {
+  id: string;
+  concept: ConceptId;
+  // Short enough to be read aloud
+  prompt: MessageKey;
+  // Shown after answering, whether right or wrong
+  explanation: MessageKey;
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple-choice';
+  options: MessageKey[];
+  answer: number;
+}
+
+export interface PictureOption {
+  // An emoji, so the question works without image files
+  picture: string;
+  label: MessageKey;
+}
+
+export interface PictureChoiceQuestion extends QuizQuestionBase {
+  type: 'picture-choice';
+  options: PictureOption[];
+  answer: number;
+}
+
+export interface MatchPair {
+  item: MessageKey;
+  match: MessageKey;
+}
+
+export interface MatchQuestion extends QuizQuestionBase {
+  type: 'match';
+  pairs: MatchPair[];
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | PictureChoiceQuestion | MatchQuestion;
+
+// Index of the chosen option, or for match questions the chosen match index per item
+export type QuizAnswer = number | number[];
+
+export const quizTabNames: Record<QuizTab, MessageKey> = {
+  'fission': 'quiz.tabs.fission',
+  'enrichment': 'quiz.tabs.enrichment',
+  'reactor': 'quiz.tabs.reactor',
+  'fusion': 'quiz.tabs.fusion',
+  'mini-sun': 'quiz.tabs.miniSun',
+  'chain-reaction': 'quiz.tabs.chainReaction',
+  'radiation': 'quiz.tabs.radiation',
+  'radar': 'quiz.tabs.radar',
+};
+
+export const quizBanks: Record<QuizTab, QuizQuestion[]> = {
+  'fission': [
+    {
+      id: 'fission-neutron',
+      type: 'picture-choice',
+      concept: 'fission',
+      prompt: 'quiz.questions.fissionNeutron.prompt',
+      options: [
+        { picture: '🔦', label: 'quiz.questions.fissionNeutron.options.a' },
+        { picture: '⚪', label: 'quiz.questions.fissionNeutron.options.b' },
+        { picture: '🧲', label: 'quiz.questions.fissionNeutron.options.c' },
+      ],
+      answer: 1,
+      explanation: 'quiz.questions.fissionNeutron.explanation',
+    },
+    {
+      id: 'fission-products',
+      type: 'multiple-choice',
+      concept: 'fission',
+      prompt: 'quiz.questions.fissionProducts.prompt',
+      options: [
+        'quiz.questions.fissionProducts.options.a',
+        'quiz.questions.fissionProducts.options.b',
+        'quiz.questions.fissionProducts.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.fissionProducts.explanation',
+    },
+    {
+      id: 'fission-fragments',
+      type: 'multiple-choice',
+      concept: 'fission',
+      prompt: 'quiz.questions.fissionFragments.prompt',
+      options: [
+        'quiz.questions.fissionFragments.options.a',
+        'quiz.questions.fissionFragments.options.b',
+        'quiz.questions.fissionFragments.options.c',
+      ],
+      answer: 1,
+      explanation: 'quiz.questions.fissionFragments.explanation',
+    },
+    {
+      id: 'fission-breeding-match',
+      type: 'match',
+      concept: 'breeding',
+      prompt: 'quiz.questions.fissionBreedingMatch.prompt',
+      pairs: [
+        { item: 'quiz.questions.fissionBreedingMatch.pairs.a.item', match: 'quiz.questions.fissionBreedingMatch.pairs.a.match' },
+        { item: 'quiz.questions.fissionBreedingMatch.pairs.b.item', match: 'quiz.questions.fissionBreedingMatch.pairs.b.match' },
+      ],
+      explanation: 'quiz.questions.fissionBreedingMatch.explanation',
+    },
+    {
+      id: 'fission-breeding-speed',
+      type: 'multiple-choice',
+      concept: 'breeding',
+      prompt: 'quiz.questions.fissionBreedingSpeed.prompt',
+      options: [
+        'quiz.questions.fissionBreedingSpeed.options.a',
+        'quiz.questions.fissionBreedingSpeed.options.b',
+        'quiz.questions.fissionBreedingSpeed.options.c',
+      ],
+      answer: 1,
+      explanation: 'quiz.questions.fissionBreedingSpeed.explanation',
+    },
+    {
+      id: 'fission-beta-decay',
+      type: 'multiple-choice',
+      concept: 'breeding',
+      prompt: 'quiz.questions.fissionBetaDecay.prompt',
+      options: [
+        'quiz.questions.fissionBetaDecay.options.a',
+        'quiz.questions.fissionBetaDecay.options.b',
+        'quiz.questions.fissionBetaDecay.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.fissionBetaDecay.explanation',
+    },
+  ],
+  'enrichment': [
+    {
+      id: 'enrichment-isotope',
+      type: 'multiple-choice',
+      concept: 'isotopes',
+      prompt: 'quiz.questions.enrichmentIsotope.prompt',
+      options: [
+        'quiz.questions.enrichmentIsotope.options.a',
+        'quiz.questions.enrichmentIsotope.options.b',
+        'quiz.questions.enrichmentIsotope.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.enrichmentIsotope.explanation',
+    },
+    {
+      id: 'enrichment-natural',
+      type: 'multiple-choice',
+      concept: 'isotopes',
+      prompt: 'quiz.questions.enrichmentNatural.prompt',
+      options: [
+        'quiz.questions.enrichmentNatural.options.a',
+        'quiz.questions.enrichmentNatural.options.b',
+        'quiz.questions.enrichmentNatural.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.enrichmentNatural.explanation',
+    },
+    {
+      id: 'enrichment-centrifuge',
+      type: 'picture-choice',
+      concept: 'isotopes',
+      prompt: 'quiz.questions.enrichmentCentrifuge.prompt',
+      options: [
+        { picture: '🔥', label: 'quiz.questions.enrichmentCentrifuge.options.a' },
+        { picture: '🌀', label: 'quiz.questions.enrichmentCentrifuge.options.b' },
+        { picture: '🔭', label: 'quiz.questions.enrichmentCentrifuge.options.c' },
+      ],
+      answer: 1,
+      explanation: 'quiz.questions.enrichmentCentrifuge.explanation',
+    },
+    {
+      id: 'enrichment-levels',
+      type: 'match',
+      concept: 'isotopes',
+      prompt: 'quiz.questions.enrichmentLevels.prompt',
+      pairs: [
+        { item: 'quiz.questions.enrichmentLevels.pairs.a.item', match: 'quiz.questions.enrichmentLevels.pairs.a.match' },
+        { item: 'quiz.questions.enrichmentLevels.pairs.b.item', match: 'quiz.questions.enrichmentLevels.pairs.b.match' },
+        { item: 'quiz.questions.enrichmentLevels.pairs.c.item', match: 'quiz.questions.enrichmentLevels.pairs.c.match' },
+      ],
+      explanation: 'quiz.questions.enrichmentLevels.explanation',
+    },
+    {
+      id: 'enrichment-thorium',
+      type: 'multiple-choice',
+      concept: 'breeding',
+      prompt: 'quiz.questions.enrichmentThorium.prompt',
+      options: [
+        'quiz.questions.enrichmentThorium.options.a',
+        'quiz.questions.enrichmentThorium.options.b',
+        'quiz.questions.enrichmentThorium.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.enrichmentThorium.explanation',
+    },
+  ],
+  'reactor': [
+    {
+      id: 'reactor-control-rods',
+      type: 'multiple-choice',
+      concept: 'fission',
+      prompt: 'quiz.questions.reactorControlRods.prompt',
+      options: [
+        'quiz.questions.reactorControlRods.options.a',
+        'quiz.questions.reactorControlRods.options.b',
+        'quiz.questions.reactorControlRods.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.reactorControlRods.explanation',
+    },
+    {
+      id: 'reactor-coolant-job',
+      type: 'multiple-choice',
+      concept: 'cooling',
+      prompt: 'quiz.questions.reactorCoolantJob.prompt',
+      options: [
+        'quiz.questions.reactorCoolantJob.options.a',
+        'quiz.questions.reactorCoolantJob.options.b',
+        'quiz.questions.reactorCoolantJob.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.reactorCoolantJob.explanation',
+    },
+    {
+      id: 'reactor-coolant-match',
+      type: 'match',
+      concept: 'cooling',
+      prompt: 'quiz.questions.reactorCoolantMatch.prompt',
+      pairs: [
+        { item: 'quiz.questions.reactorCoolantMatch.pairs.a.item', match: 'quiz.questions.reactorCoolantMatch.pairs.a.match' },
+        { item: 'quiz.questions.reactorCoolantMatch.pairs.b.item', match: 'quiz.questions.reactorCoolantMatch.pairs.b.match' },
+        { item: 'quiz.questions.reactorCoolantMatch.pairs.c.item', match: 'quiz.questions.reactorCoolantMatch.pairs.c.match' },
+      ],
+      explanation: 'quiz.questions.reactorCoolantMatch.explanation',
+    },
+    {
+      id: 'reactor-meltdown',
+      type: 'picture-choice',
+      concept: 'cooling',
+      prompt: 'quiz.questions.reactorMeltdown.prompt',
+      options: [
+        { picture: '🧊', label: 'quiz.questions.reactorMeltdown.options.a' },
+        { picture: '🫠', label: 'quiz.questions.reactorMeltdown.options.b' },
+        { picture: '💤', label: 'quiz.questions.reactorMeltdown.options.c' },
+      ],
+      answer: 1,
+      explanation: 'quiz.questions.reactorMeltdown.explanation',
+    },
+    {
+      id: 'reactor-sodium',
+      type: 'multiple-choice',
+      concept: 'cooling',
+      prompt: 'quiz.questions.reactorSodium.prompt',
+      options: [
+        'quiz.questions.reactorSodium.options.a',
+        'quiz.questions.reactorSodium.options.b',
+        'quiz.questions.reactorSodium.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.reactorSodium.explanation',
+    },
+  ],
+  'fusion': [
+    {
+      id: 'fusion-what',
+      type: 'multiple-choice',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.fusionWhat.prompt',
+      options: [
+        'quiz.questions.fusionWhat.options.a',
+        'quiz.questions.fusionWhat.options.b',
+        'quiz.questions.fusionWhat.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.fusionWhat.explanation',
+    },
+    {
+      id: 'fusion-temperature',
+      type: 'multiple-choice',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.fusionTemperature.prompt',
+      options: [
+        'quiz.questions.fusionTemperature.options.a',
+        'quiz.questions.fusionTemperature.options.b',
+        'quiz.questions.fusionTemperature.options.c',
+      ],
+      answer: 2,
+      explanation: 'quiz.questions.fusionTemperature.explanation',
+    },
+    {
+      id: 'fusion-magnet',
+      type: 'picture-choice',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.fusionMagnet.prompt',
+      options: [
+        { picture: '🧲', label: 'quiz.questions.fusionMagnet.options.a' },
+        { picture: '🪣', label: 'quiz.questions.fusionMagnet.options.b' },
+        { picture: '🧱', label: 'quiz.questions.fusionMagnet.options.c' },
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.fusionMagnet.explanation',
+    },
+    {
+      id: 'fusion-fuel-match',
+      type: 'match',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.fusionFuelMatch.prompt',
+      pairs: [
+        { item: 'quiz.questions.fusionFuelMatch.pairs.a.item', match: 'quiz.questions.fusionFuelMatch.pairs.a.match' },
+        { item: 'quiz.questions.fusionFuelMatch.pairs.b.item', match: 'quiz.questions.fusionFuelMatch.pairs.b.match' },
+        { item: 'quiz.questions.fusionFuelMatch.pairs.c.item', match: 'quiz.questions.fusionFuelMatch.pairs.c.match' },
+      ],
+      explanation: 'quiz.questions.fusionFuelMatch.explanation',
+    },
+    {
+      id: 'fusion-repulsion',
+      type: 'multiple-choice',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.fusionRepulsion.prompt',
+      options: [
+        'quiz.questions.fusionRepulsion.options.a',
+        'quiz.questions.fusionRepulsion.options.b',
+        'quiz.questions.fusionRepulsion.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.fusionRepulsion.explanation',
+    },
+  ],
+  'mini-sun': [
+    {
+      id: 'mini-sun-energy',
+      type: 'picture-choice',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.miniSunEnergy.prompt',
+      options: [
+        { picture: '🔥', label: 'quiz.questions.miniSunEnergy.options.a' },
+        { picture: '⚛️', label: 'quiz.questions.miniSunEnergy.options.b' },
+        { picture: '🔋', label: 'quiz.questions.miniSunEnergy.options.c' },
+      ],
+      answer: 1,
+      explanation: 'quiz.questions.miniSunEnergy.explanation',
+    },
+    {
+      id: 'mini-sun-gravity',
+      type: 'multiple-choice',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.miniSunGravity.prompt',
+      options: [
+        'quiz.questions.miniSunGravity.options.a',
+        'quiz.questions.miniSunGravity.options.b',
+        'quiz.questions.miniSunGravity.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.miniSunGravity.explanation',
+    },
+    {
+      id: 'mini-sun-stars-match',
+      type: 'match',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.miniSunStarsMatch.prompt',
+      pairs: [
+        { item: 'quiz.questions.miniSunStarsMatch.pairs.a.item', match: 'quiz.questions.miniSunStarsMatch.pairs.a.match' },
+        { item: 'quiz.questions.miniSunStarsMatch.pairs.b.item', match: 'quiz.questions.miniSunStarsMatch.pairs.b.match' },
+        { item: 'quiz.questions.miniSunStarsMatch.pairs.c.item', match: 'quiz.questions.miniSunStarsMatch.pairs.c.match' },
+      ],
+      explanation: 'quiz.questions.miniSunStarsMatch.explanation',
+    },
+    {
+      id: 'mini-sun-death',
+      type: 'multiple-choice',
+      concept: 'fusion-conditions',
+      prompt: 'quiz.questions.miniSunDeath.prompt',
+      options: [
+        'quiz.questions.miniSunDeath.options.a',
+        'quiz.questions.miniSunDeath.options.b',
+        'quiz.questions.miniSunDeath.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.miniSunDeath.explanation',
+    },
+  ],
+  'chain-reaction': [
+    {
+      id: 'chain-k-match',
+      type: 'match',
+      concept: 'criticality',
+      prompt: 'quiz.questions.chainKMatch.prompt',
+      pairs: [
+        { item: 'quiz.questions.chainKMatch.pairs.a.item', match: 'quiz.questions.chainKMatch.pairs.a.match' },
+        { item: 'quiz.questions.chainKMatch.pairs.b.item', match: 'quiz.questions.chainKMatch.pairs.b.match' },
+        { item: 'quiz.questions.chainKMatch.pairs.c.item', match: 'quiz.questions.chainKMatch.pairs.c.match' },
+      ],
+      explanation: 'quiz.questions.chainKMatch.explanation',
+    },
+    {
+      id: 'chain-reactor-k',
+      type: 'multiple-choice',
+      concept: 'criticality',
+      prompt: 'quiz.questions.chainReactorK.prompt',
+      options: [
+        'quiz.questions.chainReactorK.options.a',
+        'quiz.questions.chainReactorK.options.b',
+        'quiz.questions.chainReactorK.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.chainReactorK.explanation',
+    },
+    {
+      id: 'chain-doubling',
+      type: 'multiple-choice',
+      concept: 'criticality',
+      prompt: 'quiz.questions.chainDoubling.prompt',
+      options: [
+        'quiz.questions.chainDoubling.options.a',
+        'quiz.questions.chainDoubling.options.b',
+        'quiz.questions.chainDoubling.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.chainDoubling.explanation',
+    },
+    {
+      id: 'chain-critical-mass',
+      type: 'picture-choice',
+      concept: 'criticality',
+      prompt: 'quiz.questions.chainCriticalMass.prompt',
+      options: [
+        { picture: '🪙', label: 'quiz.questions.chainCriticalMass.options.a' },
+        { picture: '⚽', label: 'quiz.questions.chainCriticalMass.options.b' },
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.chainCriticalMass.explanation',
+    },
+    {
+      id: 'chain-half-life',
+      type: 'multiple-choice',
+      concept: 'isotopes',
+      prompt: 'quiz.questions.chainHalfLife.prompt',
+      options: [
+        'quiz.questions.chainHalfLife.options.a',
+        'quiz.questions.chainHalfLife.options.b',
+        'quiz.questions.chainHalfLife.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.chainHalfLife.explanation',
+    },
+  ],
+  'radiation': [
+    {
+      id: 'radiation-shielding-match',
+      type: 'match',
+      concept: 'radiation-types',
+      prompt: 'quiz.questions.radiationShieldingMatch.prompt',
+      pairs: [
+        { item: 'quiz.questions.radiationShieldingMatch.pairs.a.item', match: 'quiz.questions.radiationShieldingMatch.pairs.a.match' },
+        { item: 'quiz.questions.radiationShieldingMatch.pairs.b.item', match: 'quiz.questions.radiationShieldingMatch.pairs.b.match' },
+        { item: 'quiz.questions.radiationShieldingMatch.pairs.c.item', match: 'quiz.questions.radiationShieldingMatch.pairs.c.match' },
+      ],
+      explanation: 'quiz.questions.radiationShieldingMatch.explanation',
+    },
+    {
+      id: 'radiation-alpha',
+      type: 'picture-choice',
+      concept: 'radiation-types',
+      prompt: 'quiz.questions.radiationAlpha.prompt',
+      options: [
+        { picture: '📄', label: 'quiz.questions.radiationAlpha.options.a' },
+        { picture: '🧱', label: 'quiz.questions.radiationAlpha.options.b' },
+        { picture: '🚫', label: 'quiz.questions.radiationAlpha.options.c' },
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radiationAlpha.explanation',
+    },
+    {
+      id: 'radiation-gamma',
+      type: 'multiple-choice',
+      concept: 'radiation-types',
+      prompt: 'quiz.questions.radiationGamma.prompt',
+      options: [
+        'quiz.questions.radiationGamma.options.a',
+        'quiz.questions.radiationGamma.options.b',
+        'quiz.questions.radiationGamma.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radiationGamma.explanation',
+    },
+    {
+      id: 'radiation-dna',
+      type: 'multiple-choice',
+      concept: 'radiation-types',
+      prompt: 'quiz.questions.radiationDna.prompt',
+      options: [
+        'quiz.questions.radiationDna.options.a',
+        'quiz.questions.radiationDna.options.b',
+        'quiz.questions.radiationDna.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radiationDna.explanation',
+    },
+    {
+      id: 'radiation-neutron',
+      type: 'multiple-choice',
+      concept: 'radiation-types',
+      prompt: 'quiz.questions.radiationNeutron.prompt',
+      options: [
+        'quiz.questions.radiationNeutron.options.a',
+        'quiz.questions.radiationNeutron.options.b',
+        'quiz.questions.radiationNeutron.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radiationNeutron.explanation',
+    },
+  ],
+  'radar': [
+    {
+      id: 'radar-echo',
+      type: 'multiple-choice',
+      concept: 'radar-reflection',
+      prompt: 'quiz.questions.radarEcho.prompt',
+      options: [
+        'quiz.questions.radarEcho.options.a',
+        'quiz.questions.radarEcho.options.b',
+        'quiz.questions.radarEcho.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radarEcho.explanation',
+    },
+    {
+      id: 'radar-metal',
+      type: 'picture-choice',
+      concept: 'radar-reflection',
+      prompt: 'quiz.questions.radarMetal.prompt',
+      options: [
+        { picture: '🔩', label: 'quiz.questions.radarMetal.options.a' },
+        { picture: '🪶', label: 'quiz.questions.radarMetal.options.b' },
+        { picture: '🥷', label: 'quiz.questions.radarMetal.options.c' },
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radarMetal.explanation',
+    },
+    {
+      id: 'radar-materials-match',
+      type: 'match',
+      concept: 'radar-reflection',
+      prompt: 'quiz.questions.radarMaterialsMatch.prompt',
+      pairs: [
+        { item: 'quiz.questions.radarMaterialsMatch.pairs.a.item', match: 'quiz.questions.radarMaterialsMatch.pairs.a.match' },
+        { item: 'quiz.questions.radarMaterialsMatch.pairs.b.item', match: 'quiz.questions.radarMaterialsMatch.pairs.b.match' },
+        { item: 'quiz.questions.radarMaterialsMatch.pairs.c.item', match: 'quiz.questions.radarMaterialsMatch.pairs.c.match' },
+      ],
+      explanation: 'quiz.questions.radarMaterialsMatch.explanation',
+    },
+    {
+      id: 'radar-shape',
+      type: 'multiple-choice',
+      concept: 'radar-reflection',
+      prompt: 'quiz.questions.radarShape.prompt',
+      options: [
+        'quiz.questions.radarShape.options.a',
+        'quiz.questions.radarShape.options.b',
+        'quiz.questions.radarShape.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radarShape.explanation',
+    },
+    {
+      id: 'radar-speed',
+      type: 'multiple-choice',
+      concept: 'radar-reflection',
+      prompt: 'quiz.questions.radarSpeed.prompt',
+      options: [
+        'quiz.questions.radarSpeed.options.a',
+        'quiz.questions.radarSpeed.options.b',
+        'quiz.questions.radarSpeed.options.c',
+      ],
+      answer: 0,
+      explanation: 'quiz.questions.radarSpeed.explanation',
+    },
+  ],
+};
+
+export const isAnswerCorrect = (question: QuizQuestion, answer: QuizAnswer) => {
+  if (question.type === 'match') {
+    return Array.isArray(answer) && question.pairs.every((_, index) => answer[index] === index);
+  }
+  return answer === question.answer;
+};
+
+// All questions of the tab answered correctly at least once
+export const isQuizBankMastered = (tab: QuizTab, knowledge: KnowledgeState) =>
+  quizBanks[tab].every(question => knowledge.quizAnswers[question.id]?.correct);
+
+export const shuffle = <T>(items: T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,130 @@
+import type { MessageKey } from './i18n';
+import { DecayMode, nuclides, NuclideId } from './nuclides';
+import { createRng } from './rng';
+
+// Radioactive dating as a guessing game. Every find starts with a handful of
+// parent atoms; by the time it is dug up some of them have decayed, and the
+// share that is left gives its age: t = T½ · log2(N₀ / N). The samples are
+// small enough to count by hand, so the counts are rounded and the age they
+// point to is close to, but not exactly, the true age.
+
+const YEAR = 365.25 * 24 * 3600;
+
+export type ArtefactId = 'spear' | 'mummy' | 'rock';
+export type EstimateRating = 'bullseye' | 'good' | 'close' | 'off';
+
+export interface Artefact {
+  id: ArtefactId;
+  name: MessageKey;
+  story: MessageKey;
+  method: MessageKey;
+  parent: NuclideId;
+  // True ages are drawn from this range, in years
+  minAge: number;
+  maxAge: number;
+  // Range and step of the estimate, in years
+  maxEstimate: number;
+  estimateStep: number;
+}
+
+export const artefacts: Artefact[] = [
+  {
+    id: 'spear',
+    name: 'dating.artefacts.spear.name',
+    story: 'dating.artefacts.spear.story',
+    method: 'dating.methods.carbon',
+    parent: 'carbon14',
+    minAge: 5000,
+    maxAge: 25000,
+    maxEstimate: 30000,
+    estimateStep: 250,
+  },
+  {
+    id: 'mummy',
+    name: 'dating.artefacts.mummy.name',
+    story: 'dating.artefacts.mummy.story',
+    method: 'dating.methods.carbon',
+    parent: 'carbon14',
+    minAge: 2500,
+    maxAge: 5500,
+    maxEstimate: 8000,
+    estimateStep: 50,
+  },
+  {
+    id: 'rock',
+    name: 'dating.artefacts.rock.name',
+    story: 'dating.artefacts.rock.story',
+    method: 'dating.methods.potassiumArgon',
+    parent: 'potassium40',
+    minAge: 3e8,
+    maxAge: 4e9,
+    maxEstimate: 5e9,
+    estimateStep: 2.5e7,
+  },
+];
+
+export const SAMPLE_ATOMS = 64;
+// Relative error at which an estimate scores nothing
+const SCORE_TOLERANCE = 0.5;
+
+export interface DatingSample {
+  artefact: ArtefactId;
+  // True age in years
+  age: number;
+  // Registry id of every atom that started out as the parent, in random order
+  atoms: string[];
+}
+
+export const getArtefact = (id: ArtefactId) => artefacts.find(artefact => artefact.id === id) ?? artefacts[0];
+
+export const getHalfLifeInYears = (artefact: Artefact) => (nuclides[artefact.parent].halfLife ?? Infinity) / YEAR;
+
+// Decay modes of the parent whose daughter is in the registry
+export const getDaughterModes = (artefact: Artefact) =>
+  nuclides[artefact.parent].decayModes.filter(
+    (mode): mode is DecayMode & { daughter: string } => mode.daughter !== undefined
+  );
+
+export const createDatingSample = (id: ArtefactId, seed: number): DatingSample => {
+  const rng = createRng(seed);
+  const artefact = getArtefact(id);
+  const rawAge = artefact.minAge + rng() * (artefact.maxAge - artefact.minAge);
+  const age = Math.round(rawAge / artefact.estimateStep) * artefact.estimateStep;
+
+  const parents = Math.round(SAMPLE_ATOMS * 0.5 ** (age / getHalfLifeInYears(artefact)));
+  const decayed = SAMPLE_ATOMS - parents;
+  const atoms: string[] = new Array<string>(parents).fill(artefact.parent);
+
+  // The decayed atoms split between the daughters in the branching ratios
+  const decayModes = getDaughterModes(artefact);
+  let assigned = 0;
+  decayModes.forEach((mode, i) => {
+    const count = i === decayModes.length - 1 ? decayed - assigned : Math.round(decayed * mode.branchingRatio);
+    atoms.push(...new Array<string>(count).fill(mode.daughter));
+    assigned += count;
+  });
+
+  for (let i = atoms.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [atoms[i], atoms[j]] = [atoms[j], atoms[i]];
+  }
+  return { artefact: id, age, atoms };
+};
+
+// Half-lives that have passed according to the counted atoms
+export const getHalfLivesFromSample = (sample: DatingSample) => {
+  const { parent } = getArtefact(sample.artefact);
+  const parents = sample.atoms.filter(atom => atom === parent).length;
+  return parents > 0 ? Math.log2(sample.atoms.length / parents) : Infinity;
+};
+
+// 100 points for the exact age, none once the estimate is half the age off
+export const scoreEstimate = (age: number, estimate: number) =>
+  Math.round(100 * Math.max(0, 1 - Math.abs(estimate - age) / (age * SCORE_TOLERANCE)));
+
+export const getEstimateRating = (points: number): EstimateRating => {
+  if (points >= 90) return 'bullseye';
+  if (points >= 60) return 'good';
+  if (points >= 30) return 'close';
+  return 'off';
+};
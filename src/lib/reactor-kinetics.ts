@@ -0,0 +1,522 @@
+import { getCoolantPairing, isFrozen } from './coolant-compatibility';
+
+// Point-kinetics model of a fission reactor core, used by the Reaktor tab.
+// The neutron population follows the classic point-kinetics equations with
+// six delayed-neutron groups; reactivity comes from the control rods, from
+// temperature and void feedback and from the moderation of an unusual coolant
+// (see coolant-compatibility), and the core temperature from a lumped heat
+// balance between fission power and the coolant. Xenon poisoning and fuel
+// burnup run on a compressed clock (FUEL_TIME_SCALE) so that effects taking
+// hours in a real plant show up within a few minutes of play.
+// Framework-free and deterministic, so the lab just calls stepReactorCore once per tick.
+
+export type FissionReactorType = 'pressurized-water' | 'fast-breeder' | 'thorium-msr';
+export type CoolantType = 'water' | 'sodium' | 'helium' | 'molten-salt';
+// Fissile material a breeder produces beyond what it burns itself
+export type BredFuel = 'plutonium239' | 'uranium233';
+
+export interface DelayedNeutronGroup {
+  // Fraction of all fission neutrons that is emitted by this precursor group
+  beta: number;
+  // Decay constant of the precursor in 1/s
+  lambda: number;
+}
+
+export interface ReactorKineticsParameters {
+  fuel: string;
+  // The coolant the reactor is built for; the others change its physics
+  designCoolant: CoolantType;
+  delayedGroups: DelayedNeutronGroup[];
+  // Mean neutron generation time in seconds
+  generationTime: number;
+  // Reactivity in pcm with all rods withdrawn, cold core and no void
+  excessReactivity: number;
+  // Total worth of the control rods in pcm
+  rodWorth: number;
+  // Reactivity change per °C above the cold core temperature, in pcm
+  temperatureCoefficient: number;
+  // Reactivity change per percent of coolant void, in pcm
+  voidCoefficient: number;
+  // Temperature at which the coolant starts to boil in the core
+  boilingPoint: number;
+  // Sodium and salt have to stay molten, so heaters keep these cores warm
+  standbyTemperature: number;
+  // Fissile kilograms in a fresh core and heavy metal in total
+  fissileLoad: number;
+  heavyMetal: number;
+  // New fissile atoms bred per fissile atom destroyed
+  conversionRatio: number;
+  bredFuel?: BredFuel;
+  // Reactivity lost once all fissile material is gone, in pcm
+  fuelWorth: number;
+  // Reactivity lost per fissile load worth of fission products, in pcm
+  fissionProductWorth: number;
+  // Salt is cleaned of fission products while the reactor runs
+  removesFissionProducts: boolean;
+  // Reactivity of the equilibrium xenon at full power, in pcm
+  xenonWorth: number;
+  // Rate at which neutrons burn xenon away at full power, in 1/s
+  xenonBurnRate: number;
+}
+
+// Keepin's six-group data: total delayed fraction and the relative abundance
+// and decay constant of each group for the main fissile nuclide
+const delayedGroups = (totalBeta: number, groups: [number, number][]): DelayedNeutronGroup[] =>
+  groups.map(([abundance, lambda]) => ({ beta: totalBeta * abundance, lambda }));
+
+export const reactorKineticsParameters: Record<FissionReactorType, ReactorKineticsParameters> = {
+  'pressurized-water': {
+    fuel: 'U-235',
+    designCoolant: 'water',
+    delayedGroups: delayedGroups(0.0065, [
+      [0.033, 0.0124],
+      [0.219, 0.0305],
+      [0.196, 0.111],
+      [0.395, 0.301],
+      [0.115, 1.14],
+      [0.042, 3.01],
+    ]),
+    generationTime: 2e-5,
+    excessReactivity: 2450,
+    rodWorth: 4000,
+    temperatureCoefficient: -1.5,
+    // Steam bubbles moderate badly, so boiling shuts the chain reaction down
+    voidCoefficient: -30,
+    boilingPoint: 345,
+    standbyTemperature: 25,
+    fissileLoad: 40,
+    heavyMetal: 1000,
+    // Some U-238 turns into plutonium, but it stays in the fuel rods
+    conversionRatio: 0.6,
+    fuelWorth: 3000,
+    fissionProductWorth: 800,
+    removesFissionProducts: false,
+    xenonWorth: 1400,
+    xenonBurnRate: 2e-4,
+  },
+  'fast-breeder': {
+    fuel: 'Pu-239',
+    designCoolant: 'sodium',
+    delayedGroups: delayedGroups(0.0021, [
+      [0.038, 0.0129],
+      [0.28, 0.0311],
+      [0.216, 0.134],
+      [0.328, 0.331],
+      [0.103, 1.26],
+      [0.035, 3.21],
+    ]),
+    generationTime: 4e-7,
+    excessReactivity: 510,
+    rodWorth: 600,
+    temperatureCoefficient: -0.4,
+    // Sodium bubbles harden the spectrum: the one positive feedback in the lab
+    voidCoefficient: 12,
+    boilingPoint: 883,
+    standbyTemperature: 200,
+    fissileLoad: 80,
+    heavyMetal: 400,
+    conversionRatio: 1.25,
+    bredFuel: 'plutonium239',
+    fuelWorth: 2000,
+    fissionProductWorth: 300,
+    removesFissionProducts: false,
+    // Xenon hardly catches fast neutrons
+    xenonWorth: 20,
+    xenonBurnRate: 2e-6,
+  },
+  'thorium-msr': {
+    fuel: 'U-233',
+    designCoolant: 'molten-salt',
+    delayedGroups: delayedGroups(0.0026, [
+      [0.086, 0.0126],
+      [0.299, 0.0334],
+      [0.252, 0.131],
+      [0.278, 0.302],
+      [0.051, 1.27],
+      [0.034, 3.13],
+    ]),
+    generationTime: 3e-4,
+    excessReactivity: 2660,
+    rodWorth: 3000,
+    // The hot salt expands and pushes fuel out of the core
+    temperatureCoefficient: -1.5,
+    voidCoefficient: 0,
+    boilingPoint: 1430,
+    standbyTemperature: 500,
+    fissileLoad: 30,
+    heavyMetal: 600,
+    conversionRatio: 1.05,
+    bredFuel: 'uranium233',
+    fuelWorth: 3000,
+    fissionProductWorth: 800,
+    removesFissionProducts: true,
+    // Most of the xenon bubbles out of the salt as a gas
+    xenonWorth: 150,
+    xenonBurnRate: 1e-4,
+  },
+};
+
+// Heat removed per °C between core and coolant inlet at full flow, in MW/°C
+export const coolantHeatTransfer: Record<CoolantType, number> = {
+  'water': 10,
+  'sodium': 14,
+  'helium': 6,
+  'molten-salt': 12,
+};
+
+export const AMBIENT_TEMPERATURE = 25; // °C, also the coolant inlet temperature
+export const REFERENCE_POWER = 3000; // MW thermal at a relative power of 1
+export const ROD_SPEED = 5; // percent of the stroke per second
+// On a SCRAM the rods are released and drop into the core under gravity
+export const SCRAM_ROD_SPEED = 50;
+const HEAT_CAPACITY = 150; // MJ per °C of the whole core
+const SOURCE_POWER = 1e-4; // relative power of the start-up neutron source
+// A prompt-critical excursion disperses the fuel long before the population
+// could grow further, so the model stops counting here
+const MAX_POWER = 50;
+const SUBSTEP = 0.01; // s
+const PCM = 1e-5;
+
+// Seconds of reactor time per second of play for poisons and burnup
+export const FUEL_TIME_SCALE = 300;
+const FISSILE_PER_MWD = 1.23e-3; // kg of fissile material destroyed per MW·day
+const IODINE_DECAY = 2.87e-5; // 1/s, I-135 half-life 6.7 h
+const XENON_DECAY = 2.09e-5; // 1/s, Xe-135 half-life 9.2 h
+const IODINE_YIELD = 0.061;
+const XENON_YIELD = 0.003;
+
+export interface ReactorFuelState {
+  // Fissile kilograms left in the core
+  fissile: number;
+  // Fission products in kilograms that still poison the core
+  fissionProducts: number;
+  // MW·days of heat per kilogram of heavy metal
+  burnup: number;
+  // Kilograms of bred fuel taken out of the core during this run
+  bred: number;
+}
+
+export interface ReactorCoreState {
+  // Neutron population relative to REFERENCE_POWER
+  power: number;
+  // Precursor concentrations per delayed group, in the same units as power
+  precursors: number[];
+  temperature: number;
+  // Actual rod insertion in percent; follows the requested level at ROD_SPEED
+  rodPosition: number;
+  // I-135 and Xe-135, relative to their equilibrium at full power
+  iodine: number;
+  xenon: number;
+  fuel: ReactorFuelState;
+  // Reactivity of the last step in pcm, split by cause
+  reactivity: ReactorReactivity;
+}
+
+export interface ReactorReactivity {
+  total: number;
+  rods: number;
+  temperature: number;
+  void: number;
+  xenon: number;
+  burnup: number;
+  // Moderation by a coolant the reactor was not built for
+  coolant: number;
+}
+
+export interface ReactorControls {
+  // Requested rod insertion in percent, 100 = fully inserted
+  controlRodLevel: number;
+  // Coolant flow in percent of the pump capacity
+  coolantFlow: number;
+  coolantType: CoolantType;
+  // Rods falling in after a trip, whatever the requested level
+  scram?: boolean;
+}
+
+// Reactivity in pcm of a core that multiplies each neutron generation by k
+export const getReactivityFromK = (k: number) => (k - 1) / k / PCM;
+
+export const getTotalBeta = (type: FissionReactorType) =>
+  reactorKineticsParameters[type].delayedGroups.reduce((sum, group) => sum + group.beta, 0);
+
+// Integral rod worth: the S-curve of a rod that is most effective in the
+// middle of the core, where the neutron flux is highest
+export const getRodReactivity = (type: FissionReactorType, rodPosition: number) => {
+  const inserted = Math.min(1, Math.max(0, rodPosition / 100));
+  const fraction = inserted - Math.sin(2 * Math.PI * inserted) / (2 * Math.PI);
+  return -reactorKineticsParameters[type].rodWorth * fraction;
+};
+
+export const getVoidFraction = (type: FissionReactorType, temperature: number) => {
+  const { boilingPoint } = reactorKineticsParameters[type];
+  return Math.min(100, Math.max(0, temperature - boilingPoint));
+};
+
+export const getBurnupReactivity = (type: FissionReactorType, fuel: ReactorFuelState) => {
+  const params = reactorKineticsParameters[type];
+  return -params.fuelWorth * (1 - fuel.fissile / params.fissileLoad)
+    - params.fissionProductWorth * (fuel.fissionProducts / params.fissileLoad);
+};
+
+type ReactivityInputs = Pick<ReactorCoreState, 'rodPosition' | 'temperature' | 'xenon' | 'fuel'>;
+
+export const getReactivity = (
+  type: FissionReactorType,
+  core: ReactivityInputs,
+  coolantType: CoolantType = reactorKineticsParameters[type].designCoolant
+): ReactorReactivity => {
+  const params = reactorKineticsParameters[type];
+  const rods = getRodReactivity(type, core.rodPosition);
+  const temperatureFeedback = params.temperatureCoefficient * (core.temperature - AMBIENT_TEMPERATURE);
+  const voidFeedback = params.voidCoefficient * getVoidFraction(type, core.temperature);
+  const xenon = -params.xenonWorth * core.xenon;
+  const burnup = getBurnupReactivity(type, core.fuel);
+  const coolant = getCoolantPairing(type, coolantType).moderation;
+  return {
+    total: params.excessReactivity + rods + temperatureFeedback + voidFeedback + xenon + burnup + coolant,
+    rods,
+    temperature: temperatureFeedback,
+    void: voidFeedback,
+    xenon,
+    burnup,
+    coolant,
+  };
+};
+
+// Reactivity with every rod pulled out of a core at standby temperature. When
+// the total is negative, xenon, burnup or the coolant keep the reactor from
+// going critical at all.
+export const getStartupReactivity = (type: FissionReactorType, core: ReactorCoreState, coolantType?: CoolantType) =>
+  getReactivity(type, { ...core, rodPosition: 0, temperature: reactorKineticsParameters[type].standbyTemperature }, coolantType);
+
+// Whichever of the three swallows the most neutrons
+export const getStartupBlocker = (reactivity: ReactorReactivity): 'xenon' | 'burnup' | 'coolant' => {
+  const { xenon, burnup, coolant } = reactivity;
+  if (coolant < xenon && coolant < burnup) return 'coolant';
+  return xenon < burnup ? 'xenon' : 'burnup';
+};
+
+export const createFreshFuel = (type: FissionReactorType): ReactorFuelState => ({
+  fissile: reactorKineticsParameters[type].fissileLoad,
+  fissionProducts: 0,
+  burnup: 0,
+  bred: 0,
+});
+
+// A core that has been shut down for a long time: rods in, precursors and
+// poisons decayed. The fuel carries over from an earlier run if given.
+export const createReactorCore = (
+  type: FissionReactorType,
+  temperature?: number,
+  fuel: ReactorFuelState = createFreshFuel(type)
+): ReactorCoreState => {
+  const params = reactorKineticsParameters[type];
+  const core = {
+    power: SOURCE_POWER,
+    precursors: params.delayedGroups.map(group => (group.beta / (group.lambda * params.generationTime)) * SOURCE_POWER),
+    temperature: Math.max(temperature ?? AMBIENT_TEMPERATURE, params.standbyTemperature),
+    rodPosition: 100,
+    iodine: 0,
+    xenon: 0,
+    fuel,
+  };
+  return { ...core, reactivity: getReactivity(type, core) };
+};
+
+// A core that has been running long enough at this temperature for the
+// precursors and xenon to settle, with the rods where they hold it critical
+export const createSteadyCore = (
+  type: FissionReactorType,
+  temperature: number,
+  controls: Omit<ReactorControls, 'controlRodLevel'>
+): ReactorCoreState => {
+  const params = reactorKineticsParameters[type];
+  const power = (getCoolantHeatTransfer(type, controls.coolantType, temperature) * (controls.coolantFlow / 100) * (temperature - AMBIENT_TEMPERATURE)) / REFERENCE_POWER;
+  const xenon = (power * (XENON_DECAY + params.xenonBurnRate)) / (XENON_DECAY + params.xenonBurnRate * power);
+  const fuel = createFreshFuel(type);
+
+  // The rod worth grows with the insertion, so bisect for the critical position
+  let low = 0;
+  let high = 100;
+  for (let i = 0; i < 40; i++) {
+    const middle = (low + high) / 2;
+    if (getReactivity(type, { rodPosition: middle, temperature, xenon, fuel }, controls.coolantType).total > 0) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const core = {
+    power,
+    precursors: params.delayedGroups.map(group => (group.beta / (group.lambda * params.generationTime)) * power),
+    temperature,
+    rodPosition: high,
+    iodine: power,
+    xenon,
+    fuel,
+  };
+  return { ...core, reactivity: getReactivity(type, core, controls.coolantType) };
+};
+
+export const getThermalPower = (core: ReactorCoreState) => core.power * REFERENCE_POWER;
+
+// Heat removed per °C at full flow by this coolant in this reactor; a frozen
+// coolant stands still in the pipes and carries nothing
+export const getCoolantHeatTransfer = (type: FissionReactorType, coolantType: CoolantType, temperature: number) =>
+  isFrozen(type, coolantType, temperature) ? 0 : coolantHeatTransfer[coolantType] * getCoolantPairing(type, coolantType).heatTransfer;
+
+export const getHeatRemoval = (type: FissionReactorType, core: ReactorCoreState, controls: ReactorControls) =>
+  getCoolantHeatTransfer(type, controls.coolantType, core.temperature) * (controls.coolantFlow / 100) * (core.temperature - AMBIENT_TEMPERATURE);
+
+// Seconds the power needs to grow by a factor of e; Infinity when it is not growing
+export const getReactorPeriod = (previous: ReactorCoreState, next: ReactorCoreState, dt: number) => {
+  const growth = Math.log(next.power / previous.power);
+  return growth > 1e-9 ? dt / growth : Infinity;
+};
+
+// One substep of the point-kinetics equations. The prompt neutrons react many
+// orders of magnitude faster than the precursors, so their term is integrated
+// exactly with the delayed source held constant over the substep.
+const stepKinetics = (
+  params: ReactorKineticsParameters,
+  power: number,
+  precursors: number[],
+  reactivity: number,
+  dt: number,
+  minPower = SOURCE_POWER,
+  maxPower = MAX_POWER
+) => {
+  const rho = reactivity * PCM;
+  const beta = params.delayedGroups.reduce((sum, group) => sum + group.beta, 0);
+  const lambdaN = params.generationTime;
+
+  const promptRate = (rho - beta) / lambdaN;
+  const delayedSource = params.delayedGroups.reduce((sum, group, index) => sum + group.lambda * precursors[index], 0);
+  const growth = Math.exp(Math.min(50, promptRate * dt));
+  const delayedGain = Math.abs(promptRate * dt) < 1e-9 ? dt : (growth - 1) / promptRate;
+  const nextPower = Math.min(maxPower, Math.max(minPower, power * growth + delayedSource * delayedGain));
+  const nextPrecursors = params.delayedGroups.map(
+    (group, index) => (precursors[index] + (dt * group.beta * nextPower) / lambdaN) / (1 + dt * group.lambda)
+  );
+  return { power: nextPower, precursors: nextPrecursors };
+};
+
+export interface PointKineticsState {
+  power: number;
+  precursors: number[];
+}
+
+// Without its delayed neutrons the fuel emits every neutron promptly
+const getKineticsParameters = (type: FissionReactorType, delayed: boolean) =>
+  delayed ? reactorKineticsParameters[type] : { ...reactorKineticsParameters[type], delayedGroups: [] };
+
+// Neutrons and precursors of a core that has been critical long enough for the
+// precursors to settle
+export const createCriticalKinetics = (type: FissionReactorType, power: number, delayed = true): PointKineticsState => {
+  const params = getKineticsParameters(type, delayed);
+  return {
+    power,
+    precursors: params.delayedGroups.map(group => (group.beta / (group.lambda * params.generationTime)) * power),
+  };
+};
+
+// The bare point-kinetics response to a fixed reactivity in pcm, without
+// feedback, poisons or the limits of the reactor model; maxPower only keeps a
+// runaway from overflowing
+export const advancePointKinetics = (
+  type: FissionReactorType,
+  state: PointKineticsState,
+  reactivity: number,
+  dt: number,
+  delayed = true,
+  maxPower = Infinity
+): PointKineticsState => {
+  const params = getKineticsParameters(type, delayed);
+  let { power, precursors } = state;
+  for (let elapsed = 0; elapsed < dt - 1e-9; elapsed += SUBSTEP) {
+    ({ power, precursors } = stepKinetics(params, power, precursors, reactivity, Math.min(SUBSTEP, dt - elapsed), 0, maxPower));
+  }
+  return { power, precursors };
+};
+
+// Period the power settles to after a step in reactivity (pcm), from the
+// inhour equation ρ = ωΛ + Σ βᵢω / (ω + λᵢ): its largest root ω is the inverse
+// period. Negative while the power falls, Infinity at exactly critical.
+export const getStablePeriod = (type: FissionReactorType, reactivity: number, delayed = true) => {
+  const params = getKineticsParameters(type, delayed);
+  const rho = reactivity * PCM;
+  if (rho === 0) return Infinity;
+  const inhour = (omega: number) =>
+    omega * params.generationTime
+    + params.delayedGroups.reduce((sum, group) => sum + (group.beta * omega) / (omega + group.lambda), 0)
+    - rho;
+  // The root lies between zero and the prompt-only ω, or above the slowest
+  // precursor's -λ when the power falls
+  const slowestDecay = Math.min(...params.delayedGroups.map(group => group.lambda));
+  let low = rho > 0 ? 0 : Number.isFinite(slowestDecay) ? -slowestDecay : rho / params.generationTime;
+  let high = rho > 0 ? rho / params.generationTime : 0;
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    if (inhour(middle) > 0) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return 2 / (low + high);
+};
+
+// I-135 decays into Xe-135 over hours. At power the neutrons burn the xenon
+// away; after a shutdown the burning stops while the iodine keeps decaying,
+// so the xenon first piles up (the "xenon pit") before it decays itself.
+const stepPoisons = (params: ReactorKineticsParameters, iodine: number, xenon: number, power: number, dt: number) => {
+  const t = dt * FUEL_TIME_SCALE;
+  const equilibriumLoss = XENON_DECAY + params.xenonBurnRate;
+  const production = ((XENON_YIELD * power + IODINE_YIELD * iodine) / (IODINE_YIELD + XENON_YIELD)) * equilibriumLoss;
+  return {
+    iodine: iodine + IODINE_DECAY * (power - iodine) * t,
+    xenon: Math.max(0, xenon + (production - (XENON_DECAY + params.xenonBurnRate * power) * xenon) * t),
+  };
+};
+
+const stepFuel = (params: ReactorKineticsParameters, fuel: ReactorFuelState, power: number, breeding: number, dt: number): ReactorFuelState => {
+  const energy = (power * REFERENCE_POWER * dt * FUEL_TIME_SCALE) / 86400; // MW·d
+  const destroyed = Math.min(fuel.fissile, energy * FISSILE_PER_MWD);
+  const bred = destroyed * params.conversionRatio * breeding;
+  // A breeder keeps its own inventory topped up and hands out the surplus
+  const keptInCore = params.bredFuel ? Math.min(bred, destroyed) : bred;
+  return {
+    fissile: Math.min(params.fissileLoad, fuel.fissile - destroyed + keptInCore),
+    fissionProducts: params.removesFissionProducts ? 0 : fuel.fissionProducts + destroyed,
+    burnup: fuel.burnup + energy / params.heavyMetal,
+    bred: fuel.bred + (params.bredFuel ? bred - keptInCore : 0),
+  };
+};
+
+export const stepReactorCore = (
+  type: FissionReactorType,
+  core: ReactorCoreState,
+  controls: ReactorControls,
+  dt: number
+): ReactorCoreState => {
+  const params = reactorKineticsParameters[type];
+  let { power, precursors, temperature, rodPosition } = core;
+  let reactivity = core.reactivity;
+  const { iodine, xenon } = stepPoisons(params, core.iodine, core.xenon, core.power, dt);
+  const fuel = stepFuel(params, core.fuel, core.power, getCoolantPairing(type, controls.coolantType).breeding, dt);
+
+  for (let elapsed = 0; elapsed < dt - 1e-9; elapsed += SUBSTEP) {
+    const h = Math.min(SUBSTEP, dt - elapsed);
+    const rodTravel = (controls.scram ? 100 : controls.controlRodLevel) - rodPosition;
+    rodPosition += Math.sign(rodTravel) * Math.min(Math.abs(rodTravel), (controls.scram ? SCRAM_ROD_SPEED : ROD_SPEED) * h);
+
+    reactivity = getReactivity(type, { rodPosition, temperature, xenon, fuel }, controls.coolantType);
+    ({ power, precursors } = stepKinetics(params, power, precursors, reactivity.total, h));
+
+    const heatRemoval = getCoolantHeatTransfer(type, controls.coolantType, temperature) * (controls.coolantFlow / 100) * (temperature - AMBIENT_TEMPERATURE);
+    temperature = Math.max(params.standbyTemperature, temperature + ((power * REFERENCE_POWER - heatRemoval) * h) / HEAT_CAPACITY);
+  }
+
+  return { power, precursors, temperature, rodPosition, iodine, xenon, fuel, reactivity };
+};
@@ -0,0 +1,246 @@
+import type { MessageKey } from './i18n';
+import type { CoolantType, FissionReactorType } from './reactor-kinetics';
+
+// Incident drills for the reactor lab. A scenario is plain data: how the
+// plant starts, which events hit it at which second and the criteria the
+// operator is graded on afterwards. The lab records one snapshot per second
+// and every operator action, and gradeScenario turns that into a debrief.
+
+export type ScenarioId = 'pump-failure' | 'load-follow' | 'cold-start' | 'scram';
+
+export interface ScenarioSetup {
+  reactorType: FissionReactorType;
+  coolantType: CoolantType;
+  coolantFlow: number;
+  // Steady operation at this temperature; a cold, shut-down core if not set
+  temperature?: number;
+  // Drills that grade the operator's own reaction bypass the automatic trips
+  automaticTrips?: boolean;
+}
+
+export type ScenarioEvent =
+  | { at: number; type: 'pump-failure'; maxFlow: number }
+  | { at: number; type: 'power-demand'; power: number }
+  | { at: number; type: 'scram-order' };
+
+export type ScenarioCriterion =
+  | { type: 'no-meltdown' }
+  | { type: 'max-temperature'; limit: number }
+  | { type: 'no-prompt-critical' }
+  // Rods requested at least this deep within `within` seconds of `after`
+  | { type: 'rods-inserted'; level: number; after: number; within: number }
+  // Thermal power within `tolerance` percent of the demand for `share` percent of the time from `from` on
+  | { type: 'power-in-band'; from: number; tolerance: number; share: number }
+  // At least this thermal power for `hold` seconds in a row without exceeding `maxTemperature`
+  | { type: 'reach-power'; power: number; hold: number; maxTemperature: number }
+  // Reactor stopped, scrammed or rods fully requested within `within` seconds of `after`
+  | { type: 'shutdown'; after: number; within: number }
+  // Thermal power below this at `by` seconds
+  | { type: 'power-below'; power: number; by: number };
+
+export interface ReactorScenario {
+  id: ScenarioId;
+  title: MessageKey;
+  briefing: MessageKey;
+  // Seconds of play until the debrief
+  duration: number;
+  setup: ScenarioSetup;
+  events: ScenarioEvent[];
+  criteria: ScenarioCriterion[];
+}
+
+export interface ScenarioSnapshot {
+  time: number;
+  temperature: number;
+  // Thermal power in MW
+  power: number;
+  rodLevel: number;
+  coolantFlow: number;
+  // Reactivity in dollars
+  reactivity: number;
+  isRunning: boolean;
+  isMelted: boolean;
+}
+
+export type OperatorActionType = 'rods' | 'flow' | 'start' | 'stop' | 'scram';
+
+export interface OperatorAction {
+  time: number;
+  type: OperatorActionType;
+  value?: number;
+}
+
+export interface ScenarioRun {
+  scenario: ReactorScenario;
+  time: number;
+  snapshots: ScenarioSnapshot[];
+  actions: OperatorAction[];
+}
+
+export interface CriterionResult {
+  criterion: ScenarioCriterion;
+  passed: boolean;
+}
+
+export interface ScenarioDebrief {
+  scenario: ReactorScenario;
+  results: CriterionResult[];
+  // 0 to 3; a meltdown always ends with none
+  stars: number;
+  maxTemperature: number;
+  actions: OperatorAction[];
+}
+
+export const reactorScenarios: ReactorScenario[] = [
+  {
+    id: 'pump-failure',
+    title: 'reactor.scenarios.pumpFailure.title',
+    briefing: 'reactor.scenarios.pumpFailure.briefing',
+    duration: 60,
+    setup: { reactorType: 'fast-breeder', coolantType: 'sodium', coolantFlow: 80, temperature: 550, automaticTrips: false },
+    events: [{ at: 10, type: 'pump-failure', maxFlow: 10 }],
+    criteria: [
+      { type: 'no-meltdown' },
+      // The sodium boils at 883 °C, and the bubbles speed up the chain reaction
+      { type: 'max-temperature', limit: 880 },
+      { type: 'rods-inserted', level: 70, after: 10, within: 10 },
+    ],
+  },
+  {
+    id: 'load-follow',
+    title: 'reactor.scenarios.loadFollow.title',
+    briefing: 'reactor.scenarios.loadFollow.briefing',
+    duration: 120,
+    setup: { reactorType: 'pressurized-water', coolantType: 'water', coolantFlow: 50, temperature: 330 },
+    events: [{ at: 10, type: 'power-demand', power: 2100 }],
+    criteria: [
+      { type: 'no-meltdown' },
+      { type: 'power-in-band', from: 30, tolerance: 10, share: 75 },
+      { type: 'max-temperature', limit: 363 },
+    ],
+  },
+  {
+    id: 'cold-start',
+    title: 'reactor.scenarios.coldStart.title',
+    briefing: 'reactor.scenarios.coldStart.briefing',
+    duration: 240,
+    setup: { reactorType: 'pressurized-water', coolantType: 'water', coolantFlow: 50 },
+    events: [],
+    criteria: [
+      { type: 'reach-power', power: 2700, hold: 10, maxTemperature: 363 },
+      { type: 'no-prompt-critical' },
+      { type: 'max-temperature', limit: 363 },
+    ],
+  },
+  {
+    id: 'scram',
+    title: 'reactor.scenarios.scram.title',
+    briefing: 'reactor.scenarios.scram.briefing',
+    duration: 50,
+    setup: { reactorType: 'pressurized-water', coolantType: 'water', coolantFlow: 80, temperature: 330, automaticTrips: false },
+    events: [{ at: 15, type: 'scram-order' }],
+    criteria: [
+      { type: 'shutdown', after: 15, within: 5 },
+      { type: 'power-below', power: 150, by: 45 },
+    ],
+  },
+];
+
+export const getScenario = (id: ScenarioId) => reactorScenarios.find(scenario => scenario.id === id);
+
+export interface ScenarioConditions {
+  // Upper limit for the coolant flow in percent
+  maxFlow: number;
+  // Thermal power the grid asks for in MW, if any
+  powerDemand: number | null;
+  scramOrdered: boolean;
+}
+
+// State of the plant after every event up to `time` has happened
+export const getScenarioConditions = (scenario: ReactorScenario, time: number): ScenarioConditions =>
+  scenario.events
+    .filter(event => event.at <= time)
+    .reduce<ScenarioConditions>((conditions, event) => {
+      switch (event.type) {
+        case 'pump-failure': return { ...conditions, maxFlow: Math.min(conditions.maxFlow, event.maxFlow) };
+        case 'power-demand': return { ...conditions, powerDemand: event.power };
+        case 'scram-order': return { ...conditions, scramOrdered: true };
+        default: return conditions;
+      }
+    }, { maxFlow: 100, powerDemand: null, scramOrdered: false });
+
+export const getEventsAt = (scenario: ReactorScenario, time: number) =>
+  scenario.events.filter(event => event.at === time);
+
+const isShutdownAction = (action: OperatorAction) =>
+  action.type === 'stop' || action.type === 'scram' || (action.type === 'rods' && action.value >= 100);
+
+const evaluateCriterion = (criterion: ScenarioCriterion, run: ScenarioRun): boolean => {
+  const { snapshots, actions } = run;
+  switch (criterion.type) {
+    case 'no-meltdown':
+      return !snapshots.some(snapshot => snapshot.isMelted);
+    case 'max-temperature':
+      return snapshots.every(snapshot => snapshot.temperature <= criterion.limit);
+    case 'no-prompt-critical':
+      return snapshots.every(snapshot => snapshot.reactivity < 1);
+    case 'rods-inserted':
+      return snapshots.some(snapshot =>
+        snapshot.time >= criterion.after
+        && snapshot.time <= criterion.after + criterion.within
+        && snapshot.rodLevel >= criterion.level
+      );
+    case 'power-in-band': {
+      const judged = snapshots.filter(snapshot => snapshot.time >= criterion.from);
+      const inBand = judged.filter(snapshot => {
+        const demand = getScenarioConditions(run.scenario, snapshot.time).powerDemand;
+        return demand !== null && Math.abs(snapshot.power - demand) <= (demand * criterion.tolerance) / 100;
+      });
+      return judged.length > 0 && (inBand.length / judged.length) * 100 >= criterion.share;
+    }
+    case 'reach-power': {
+      let streak = 0;
+      for (const snapshot of snapshots) {
+        streak = snapshot.power >= criterion.power && snapshot.temperature <= criterion.maxTemperature ? streak + 1 : 0;
+        if (streak >= criterion.hold) return true;
+      }
+      return false;
+    }
+    case 'shutdown':
+      return actions.some(action =>
+        isShutdownAction(action)
+        && action.time >= criterion.after
+        && action.time <= criterion.after + criterion.within
+      );
+    case 'power-below': {
+      const snapshot = snapshots.find(entry => entry.time === criterion.by);
+      return !!snapshot && snapshot.power < criterion.power;
+    }
+    default:
+      return false;
+  }
+};
+
+export const gradeScenario = (run: ScenarioRun): ScenarioDebrief => {
+  const results = run.scenario.criteria.map(criterion => ({ criterion, passed: evaluateCriterion(criterion, run) }));
+  const passed = results.filter(result => result.passed).length;
+  const isMelted = run.snapshots.some(snapshot => snapshot.isMelted);
+  const stars = isMelted ? 0 : passed === results.length ? 3 : passed * 2 >= results.length ? 2 : passed > 0 ? 1 : 0;
+
+  return {
+    scenario: run.scenario,
+    results,
+    stars,
+    maxTemperature: run.snapshots.reduce((max, snapshot) => Math.max(max, snapshot.temperature), 0),
+    actions: run.actions,
+  };
+};
+
+// Slider drags report every step; within one second only the last value counts
+export const recordOperatorAction = (actions: OperatorAction[], action: OperatorAction): OperatorAction[] => {
+  const last = actions[actions.length - 1];
+  if (last && last.type === action.type && last.time === action.time && action.value !== undefined) {
+    return [...actions.slice(0, -1), action];
+  }
+  return [...actions, action];
+};
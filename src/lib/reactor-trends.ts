@@ -0,0 +1,87 @@
+// Operating history of the reactor lab: one sample per simulation tick in a
+// ring buffer, so a long session keeps its most recent hour without growing
+// forever. The samples can be exported as CSV or JSON for a spreadsheet.
+
+export interface TrendSample {
+  // Seconds since the history was started
+  time: number;
+  temperature: number;
+  // MW of heat from the core, or from the plasma of the fusion reactor
+  thermalPower: number;
+  electricPower: number;
+  // What the city asks for in MW; null without a steam cycle
+  demand: number | null;
+  // Percent
+  efficiency: number;
+  rodPosition: number | null;
+  coolantFlow: number;
+  // Dollars; null for the fusion reactor, which has no chain reaction to measure
+  reactivity: number | null;
+}
+
+export const TREND_CAPACITY = 3600;
+
+export interface TrendBuffer {
+  items: TrendSample[];
+  // Index of the oldest sample
+  start: number;
+  length: number;
+  // Time stamp for the next sample
+  nextTime: number;
+}
+
+export const createTrendBuffer = (): TrendBuffer => ({
+  items: new Array(TREND_CAPACITY),
+  start: 0,
+  length: 0,
+  nextTime: 0,
+});
+
+export const getTrendSamples = (buffer: TrendBuffer): TrendSample[] =>
+  Array.from({ length: buffer.length }, (_, index) => buffer.items[(buffer.start + index) % TREND_CAPACITY]);
+
+// Overwrites the oldest sample once the buffer is full
+export const pushTrendSample = (buffer: TrendBuffer, sample: Omit<TrendSample, 'time'>) => {
+  buffer.items[(buffer.start + buffer.length) % TREND_CAPACITY] = { time: buffer.nextTime, ...sample };
+  if (buffer.length < TREND_CAPACITY) {
+    buffer.length += 1;
+  } else {
+    buffer.start = (buffer.start + 1) % TREND_CAPACITY;
+  }
+  buffer.nextTime += 1;
+};
+
+const trendColumns: { key: keyof TrendSample; header: string }[] = [
+  { key: 'time', header: 'time_s' },
+  { key: 'temperature', header: 'temperature_c' },
+  { key: 'thermalPower', header: 'thermal_power_mw' },
+  { key: 'electricPower', header: 'electric_power_mw' },
+  { key: 'demand', header: 'grid_demand_mw' },
+  { key: 'efficiency', header: 'efficiency_percent' },
+  { key: 'rodPosition', header: 'rod_position_percent' },
+  { key: 'coolantFlow', header: 'coolant_flow_percent' },
+  { key: 'reactivity', header: 'reactivity_dollar' },
+];
+
+// Plain numbers with a decimal point, so every spreadsheet reads them the same way
+const formatCsvValue = (value: number | null) =>
+  value === null ? '' : String(Math.round(value * 1000) / 1000);
+
+export const trendsToCsv = (samples: TrendSample[]) =>
+  [
+    trendColumns.map(column => column.header).join(','),
+    ...samples.map(sample => trendColumns.map(column => formatCsvValue(sample[column.key])).join(',')),
+  ].join('\n');
+
+export interface TrendExportInfo {
+  reactorType: string;
+  coolantType: string;
+}
+
+export const trendsToJson = (samples: TrendSample[], info: TrendExportInfo) =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), ...info, samples }, null, 2);
+
+export const getTrendFileName = (reactorType: string, extension: 'csv' | 'json') => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `atom-abenteuer-reaktor-${reactorType}-${date}.${extension}`;
+};
@@ -0,0 +1,18 @@
+// Seedable pseudo-random number generator (mulberry32).
+// Same seed => same sequence, so simulations can be replayed and tested.
+
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import {
+  describeZodError,
+  parseSaveGame,
+  radarHighScoresSchema,
+  type RadarHighScores,
+  type SaveGame,
+} from './save-game';
+import { achievementStateSchema, type AchievementState } from './achievements';
+import { knowledgeStateSchema, type KnowledgeState } from './knowledge';
+import type { MessageKey, MessageParams } from './i18n';
+
+// JSON export of the complete progress, for moving it to another device.
+// The file wraps a regular SaveGame, which keeps its own version and migrations.
+
+export const SAVE_FILE_APP = 'atom-splode-adventure';
+export const SAVE_FILE_VERSION = 1;
+
+const saveFileSchema = z.object({
+  app: z.literal(SAVE_FILE_APP),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  save: z.unknown(),
+  radar: z.object({
+    highScores: radarHighScoresSchema,
+  }).default({ highScores: {} }),
+  achievements: achievementStateSchema.default({ unlocked: {}, counters: {} }),
+  knowledge: knowledgeStateSchema.default({ experiments: {}, quizAnswers: {} }),
+});
+
+// Everything a save file carries: the save slot plus the progress shared by all slots
+export interface SaveFileContents {
+  save: SaveGame;
+  radarHighScores: RadarHighScores;
+  achievements: AchievementState;
+  knowledge: KnowledgeState;
+}
+
+export type SaveFileParseResult =
+  | ({ success: true } & SaveFileContents)
+  | { success: false; error: MessageKey; params?: MessageParams };
+
+export const createSaveFile = ({ save, radarHighScores, achievements, knowledge }: SaveFileContents): string =>
+  JSON.stringify({
+    app: SAVE_FILE_APP,
+    version: SAVE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    save,
+    radar: { highScores: radarHighScores },
+    achievements,
+    knowledge,
+  }, null, 2);
+
+export const getSaveFileName = (slot: string) => {
+  const date = new Date().toISOString().slice(0, 10);
+  const safeSlot = slot.replace(/[^a-zA-Z0-9äöüÄÖÜß_-]+/g, '-');
+  return `atom-abenteuer-${safeSlot}-${date}.json`;
+};
+
+export const parseSaveFile = (text: string): SaveFileParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'saves.errors.invalidJson' };
+  }
+
+  if (!raw || typeof raw !== 'object' || (raw as { app?: unknown }).app !== SAVE_FILE_APP) {
+    return { success: false, error: 'saves.errors.notASaveFile' };
+  }
+
+  const version = (raw as { version?: unknown }).version;
+  if (typeof version === 'number' && version > SAVE_FILE_VERSION) {
+    return { success: false, error: 'saves.errors.newerFile' };
+  }
+
+  const file = saveFileSchema.safeParse(raw);
+  if (!file.success) {
+    return {
+      success: false,
+      error: 'saves.errors.corruptFile',
+      params: { details: describeZodError(file.error) },
+    };
+  }
+
+  const save = parseSaveGame(file.data.save);
+  if (save.success === false) {
+    return { success: false, error: save.error, params: save.params };
+  }
+
+  return {
+    success: true,
+    save: save.save,
+    radarHighScores: file.data.radar.highScores,
+    achievements: file.data.achievements as AchievementState,
+    knowledge: file.data.knowledge as KnowledgeState,
+  };
+};
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { formatDateTime, type MessageKey, type MessageParams } from '@/lib/i18n';
+
+// Versioned save games for the Atom-Abenteuer, stored in localStorage.
+// Every slot holds one SaveGame; older versions are upgraded by the
+// migrations below when they are loaded.
+
+export const SAVE_VERSION = 3;
+
+export const DEFAULT_SLOT = 'Autosave';
+
+export interface GameProgress {
+  totalEnergy: number;
+  neutronCount: number;
+  enrichedUranium: number;
+  uraniumEnrichment: number;
+  plutoniumAmount: number;
+  uranium233Amount: number;
+  currentTab: string;
+}
+
+export interface SaveGame {
+  version: number;
+  savedAt: string;
+  progress: GameProgress;
+}
+
+// The schemas mirror the interfaces above. The compiler runs without strictNullChecks,
+// where zod cannot infer required fields, so parsed data is cast to the interfaces.
+
+const gameProgressSchema = z.object({
+  totalEnergy: z.number().nonnegative().default(0),
+  neutronCount: z.number().int().nonnegative().default(0),
+  enrichedUranium: z.number().nonnegative().default(0),
+  uraniumEnrichment: z.number().min(0).max(100).default(0),
+  plutoniumAmount: z.number().nonnegative().default(0),
+  uranium233Amount: z.number().nonnegative().default(0),
+  currentTab: z.string().default('fission'),
+});
+
+const saveGameSchema = z.object({
+  version: z.literal(SAVE_VERSION),
+  savedAt: z.string().datetime().catch(() => new Date(0).toISOString()),
+  progress: gameProgressSchema,
+});
+
+export type SaveParseResult =
+  | { success: true; save: SaveGame }
+  | { success: false; error: MessageKey; params?: MessageParams };
+
+export interface SaveSlotInfo {
+  name: string;
+  savedAt: string;
+}
+
+export const defaultProgress = gameProgressSchema.parse({}) as GameProgress;
+
+const STORAGE_PREFIX = 'atom-abenteuer';
+const SLOT_PREFIX = `${STORAGE_PREFIX}:slot:`;
+const LAST_SLOT_KEY = `${STORAGE_PREFIX}:last-slot`;
+const RADAR_HIGH_SCORES_KEY = `${STORAGE_PREFIX}:radar-high-scores`;
+
+type RawSave = Record<string, unknown>;
+
+// migrations[n] turns a version-n save into a version-(n + 1) save
+const migrations: Record<number, (save: RawSave) => RawSave> = {
+  // Mini-sun achievements are kept only in the central store in achievements.ts
+  1: ({ miniSun: _miniSun, ...save }) => ({ ...save, version: 2 }),
+  // Knowledge moved from a single per-save counter to the per-concept model in knowledge.ts
+  2: ({ progress, ...save }) => {
+    const { totalKnowledge: _totalKnowledge, ...rest } = (progress ?? {}) as RawSave;
+    return { ...save, version: 3, progress: rest };
+  },
+};
+
+export const createSave = (progress: GameProgress): SaveGame => ({
+  version: SAVE_VERSION,
+  savedAt: new Date().toISOString(),
+  progress,
+});
+
+export const describeZodError = (error: z.ZodError) => {
+  const issue = error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+};
+
+// Brings a parsed save of any known version up to SAVE_VERSION and validates it.
+// Errors are message keys, so they reach the player in the active language.
+export const parseSaveGame = (raw: unknown): SaveParseResult => {
+  if (!raw || typeof raw !== 'object' || typeof (raw as RawSave).version !== 'number') {
+    return { success: false, error: 'saves.errors.notASave' };
+  }
+
+  let save = raw as RawSave;
+  if ((save.version as number) > SAVE_VERSION) {
+    return {
+      success: false,
+      error: 'saves.errors.newerSave',
+    };
+  }
+
+  while ((save.version as number) < SAVE_VERSION) {
+    const migrate = migrations[save.version as number];
+    if (!migrate) {
+      return {
+        success: false,
+        error: 'saves.errors.unsupportedVersion',
+        params: { version: save.version as number },
+      };
+    }
+    save = migrate(save);
+  }
+
+  const result = saveGameSchema.safeParse(save);
+  if (!result.success) {
+    return {
+      success: false,
+      error: 'saves.errors.corruptSave',
+      params: { details: describeZodError(result.error) },
+    };
+  }
+  return { success: true, save: result.data as SaveGame };
+};
+
+export const migrateSave = (raw: unknown): SaveGame | null => {
+  const result = parseSaveGame(raw);
+  return result.success ? result.save : null;
+};
+
+const readJson = (key: string): unknown => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadSave = (slot: string): SaveGame | null => migrateSave(readJson(SLOT_PREFIX + slot));
+
+export const writeSave = (slot: string, save: SaveGame): boolean => {
+  try {
+    localStorage.setItem(SLOT_PREFIX + slot, JSON.stringify(save));
+    localStorage.setItem(LAST_SLOT_KEY, slot);
+    return true;
+  } catch {
+    // Storage full or disabled (e.g. private browsing)
+    return false;
+  }
+};
+
+export const deleteSave = (slot: string) => {
+  try {
+    localStorage.removeItem(SLOT_PREFIX + slot);
+    if (localStorage.getItem(LAST_SLOT_KEY) === slot) {
+      localStorage.removeItem(LAST_SLOT_KEY);
+    }
+  } catch {
+    // Nothing to clean up if storage is unavailable
+  }
+};
+
+export const listSaveSlots = (): SaveSlotInfo[] => {
+  const slots: SaveSlotInfo[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(SLOT_PREFIX)) continue;
+
+      const name = key.slice(SLOT_PREFIX.length);
+      const save = loadSave(name);
+      if (save) {
+        slots.push({ name, savedAt: save.savedAt });
+      }
+    }
+  } catch {
+    return [];
+  }
+  return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+// First autosave slot that holds no save yet, so a new game never overwrites one
+export const getNewGameSlot = (): string => {
+  const taken = new Set(listSaveSlots().map(slot => slot.name));
+  let slot = DEFAULT_SLOT;
+  for (let n = 2; taken.has(slot); n++) {
+    slot = `${DEFAULT_SLOT} ${n}`;
+  }
+  return slot;
+};
+
+// Best score per jet type in the radar adventure; shared by all save slots
+export type RadarHighScores = Record<string, number>;
+
+export const radarHighScoresSchema: z.ZodType<RadarHighScores, z.ZodTypeDef, unknown> = z.record(z.number().nonnegative());
+
+export const loadRadarHighScores = (): RadarHighScores => {
+  const result = radarHighScoresSchema.safeParse(readJson(RADAR_HIGH_SCORES_KEY) ?? {});
+  return result.success ? result.data : {};
+};
+
+export const writeRadarHighScores = (highScores: RadarHighScores) => {
+  try {
+    localStorage.setItem(RADAR_HIGH_SCORES_KEY, JSON.stringify(highScores));
+  } catch {
+    // High scores are a nice-to-have; ignore unavailable storage
+  }
+};
+
+// Stores the score if it beats the previous best and returns the previous best
+export const recordRadarScore = (jetType: string, score: number): number => {
+  const highScores = loadRadarHighScores();
+  const previousBest = highScores[jetType] ?? 0;
+  if (score > previousBest) {
+    writeRadarHighScores({ ...highScores, [jetType]: score });
+  }
+  return previousBest;
+};
+
+export const formatSaveDate = (savedAt: string) => formatDateTime(savedAt);
+
+// Slot that was written most recently, if it still holds a valid save
+export const getLastSlot = (): string | null => {
+  try {
+    const slot = localStorage.getItem(LAST_SLOT_KEY);
+    return slot && loadSave(slot) ? slot : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,188 @@
+import type { FissionReactorType } from './reactor-kinetics';
+
+// Secondary side of the reactor lab: the reactor heat makes steam, the steam
+// drives a turbine, the condenser takes what the turbine cannot use, and the
+// generator feeds a city whose demand follows the time of day. Only the power
+// the city actually takes counts; the operator has to follow the load curve.
+
+// Cooling water from the river, degrees C
+export const CONDENSER_TEMPERATURE = 35;
+export const NOMINAL_FREQUENCY = 50; // Hz
+// In-game day in real seconds
+export const GRID_DAY_SECONDS = 720;
+const START_HOUR = 6;
+
+// Degrees the steam stays below the reactor outlet: the pressurized water
+// heats the steam generator directly, the breeder and the salt reactor pass
+// their heat through an intermediate loop first
+const steamTemperatureDrop: Record<FissionReactorType, number> = {
+  'pressurized-water': 40,
+  'fast-breeder': 80,
+  'thorium-msr': 100,
+};
+
+// Electric output of the plant at full coolant flow and design temperature, MW
+export const ratedElectricPower: Record<FissionReactorType, number> = {
+  'pressurized-water': 900,
+  'fast-breeder': 2800,
+  'thorium-msr': 3500,
+};
+
+const STEAM_GENERATOR_EFFICIENCY = 0.98;
+// Share of the Carnot limit a real turbine reaches
+const TURBINE_CARNOT_FRACTION = 0.7;
+// Above this share of the rated output the surplus steam bypasses the turbine
+const TURBINE_OVERLOAD = 1.1;
+// Seconds the turbine needs to follow a change of steam
+const TURBINE_TIME_CONSTANT = 4;
+const GENERATOR_EFFICIENCY = 0.98;
+// Frequency deviation for a mismatch of the whole rated output, Hz
+const FREQUENCY_DROOP = 5;
+// Seconds the grid frequency needs to settle
+const FREQUENCY_TIME_CONSTANT = 3;
+const FREQUENCY_LIMITS = { min: 47.5, max: 52.5 };
+// Generation within this share of the demand counts as matched, percent
+export const LOAD_TOLERANCE = 5;
+
+// City demand over the day as a share of the peak, one value per full hour:
+// quiet nights, a morning ramp and the evening peak
+const DEMAND_PROFILE = [
+  0.62, 0.58, 0.55, 0.54, 0.55, 0.6, 0.7, 0.82, 0.9, 0.92, 0.93, 0.94,
+  0.95, 0.93, 0.91, 0.9, 0.92, 0.97, 1, 0.98, 0.92, 0.84, 0.75, 0.67,
+];
+// Peak demand as a share of the rated output, so a well-run plant can just keep up
+const PEAK_DEMAND_SHARE = 0.9;
+
+// Every flow in MW; together they account for all of the reactor heat
+export interface EnergyFlows {
+  thermal: number;
+  steamGeneratorLoss: number;
+  steam: number;
+  turbine: number;
+  // Exhaust steam and any steam that bypasses the turbine
+  condenser: number;
+  generatorLoss: number;
+  electric: number;
+  demand: number;
+  // Taken by the city
+  delivered: number;
+  // Generated but not needed
+  surplus: number;
+}
+
+export interface SteamCycleState {
+  // Mechanical power of the turbine in MW; it lags behind the steam
+  turbinePower: number;
+  // Hour of the day on the grid clock, 0 up to 24
+  hour: number;
+  frequency: number;
+  // Seconds with the generator online and how many of them matched the load
+  secondsOnline: number;
+  secondsMatched: number;
+  flows: EnergyFlows;
+}
+
+export const getSteamTemperature = (type: FissionReactorType, reactorTemperature: number) =>
+  reactorTemperature - steamTemperatureDrop[type];
+
+// Share of the steam heat the turbine turns into shaft power
+export const getTurbineEfficiency = (steamTemperature: number) =>
+  steamTemperature <= CONDENSER_TEMPERATURE
+    ? 0
+    : TURBINE_CARNOT_FRACTION * (1 - (CONDENSER_TEMPERATURE + 273) / (steamTemperature + 273));
+
+export const getCityDemand = (type: FissionReactorType, hour: number) => {
+  const index = Math.floor(hour) % 24;
+  const next = DEMAND_PROFILE[(index + 1) % 24];
+  const share = DEMAND_PROFILE[index] + (next - DEMAND_PROFILE[index]) * (hour - Math.floor(hour));
+  return ratedElectricPower[type] * PEAK_DEMAND_SHARE * share;
+};
+
+// Demand at every full hour from midnight to midnight, for drawing the load curve
+export const getDemandCurve = (type: FissionReactorType) =>
+  Array.from({ length: 25 }, (_, hour) => ({ hour, demand: getCityDemand(type, hour % 24) }));
+
+const createFlows = (demand: number): EnergyFlows => ({
+  thermal: 0,
+  steamGeneratorLoss: 0,
+  steam: 0,
+  turbine: 0,
+  condenser: 0,
+  generatorLoss: 0,
+  electric: 0,
+  demand,
+  delivered: 0,
+  surplus: 0,
+});
+
+export const createSteamCycle = (type: FissionReactorType, hour = START_HOUR): SteamCycleState => ({
+  turbinePower: 0,
+  hour,
+  frequency: NOMINAL_FREQUENCY,
+  secondsOnline: 0,
+  secondsMatched: 0,
+  flows: createFlows(getCityDemand(type, hour)),
+});
+
+// Advances the grid clock and passes the reactor heat through the plant
+export const stepSteamCycle = (
+  type: FissionReactorType,
+  state: SteamCycleState,
+  thermalPower: number,
+  reactorTemperature: number,
+  dt: number
+): SteamCycleState => {
+  const hour = (state.hour + (dt / GRID_DAY_SECONDS) * 24) % 24;
+  const demand = getCityDemand(type, hour);
+
+  const steam = thermalPower * STEAM_GENERATOR_EFFICIENCY;
+  const available = Math.min(
+    steam * getTurbineEfficiency(getSteamTemperature(type, reactorTemperature)),
+    (ratedElectricPower[type] * TURBINE_OVERLOAD) / GENERATOR_EFFICIENCY
+  );
+  const lagged = state.turbinePower + (available - state.turbinePower) * (1 - Math.exp(-dt / TURBINE_TIME_CONSTANT));
+  // The turbine cannot make more than the steam carries, however fast it is still spinning
+  const turbinePower = Math.max(0, Math.min(lagged, available));
+  const electric = turbinePower * GENERATOR_EFFICIENCY;
+  const delivered = Math.min(electric, demand);
+
+  const targetFrequency = NOMINAL_FREQUENCY + (FREQUENCY_DROOP * (electric - demand)) / ratedElectricPower[type];
+  const frequency = Math.max(
+    FREQUENCY_LIMITS.min,
+    Math.min(
+      FREQUENCY_LIMITS.max,
+      state.frequency + (targetFrequency - state.frequency) * (1 - Math.exp(-dt / FREQUENCY_TIME_CONSTANT))
+    )
+  );
+
+  const isOnline = electric > 0;
+  const isMatched = isOnline && Math.abs(electric - demand) <= (demand * LOAD_TOLERANCE) / 100;
+
+  return {
+    turbinePower,
+    hour,
+    frequency: isOnline ? frequency : NOMINAL_FREQUENCY,
+    secondsOnline: state.secondsOnline + (isOnline ? dt : 0),
+    secondsMatched: state.secondsMatched + (isMatched ? dt : 0),
+    flows: {
+      thermal: thermalPower,
+      steamGeneratorLoss: thermalPower - steam,
+      steam,
+      turbine: turbinePower,
+      condenser: steam - turbinePower,
+      generatorLoss: turbinePower - electric,
+      electric,
+      demand,
+      delivered,
+      surplus: electric - delivered,
+    },
+  };
+};
+
+// Electricity per unit of reactor heat
+export const getPlantEfficiency = (flows: EnergyFlows) =>
+  flows.thermal > 0 ? flows.electric / flows.thermal : 0;
+
+// Percent of the online time the generation matched the demand
+export const getLoadMatchScore = (state: SteamCycleState) =>
+  state.secondsOnline > 0 ? (state.secondsMatched / state.secondsOnline) * 100 : 0;
@@ -0,0 +1,2319 @@
+// German source catalog. Every key used in the UI must exist here;
+// the other catalogs fall back to these texts.
+
+export const de = {
+  common: {
+    next: 'Weiter',
+    letsGo: 'Los gehts!',
+    backToMenu: 'Zurück zum Hauptmenü',
+    language: 'Sprache',
+    reset: 'Zurücksetzen',
+  },
+  units: {
+    celsius: '{value} °C',
+    millionCelsius: '{value} Mio. °C',
+    minutes: '{value} min',
+    hours: '{value} h',
+    days: '{value} d',
+    years: '{value} a',
+    millionYears: '{value} Mio. a',
+    billionYears: '{value} Mrd. a',
+  },
+  index: {
+    title: 'Atom-Splode Abenteuer',
+    intro: 'Entdecke die spannende Welt der Kernphysik! Experimentiere mit verschiedenen Elementen und sieh, was passiert, wenn du Neutronen auf Atomkerne schießt.',
+    playRadar: 'Radar-Abenteuer spielen',
+    trophies: 'Trophäenschrank',
+    footer: 'Ein interaktives Lernspiel über Kernphysik für Kinder ab 5 Jahren',
+    copyright: '© {year} - Alle Rechte vorbehalten',
+    welcome: {
+      title: 'Willkommen zurück!',
+      description: 'Möchtest du dort weitermachen, wo du aufgehört hast? Dein Spielstand „{slot}“ wartet auf dich.',
+      descriptionWithDate: 'Möchtest du dort weitermachen, wo du aufgehört hast? Dein Spielstand „{slot}“ vom {date} wartet auf dich.',
+      newGame: 'Neues Spiel',
+      continue: 'Weiterspielen',
+    },
+  },
+  radarAdventure: {
+    title: 'Radar-Abenteuer: Das große Flugzeug-Rennen!',
+    intro: 'Erlebe die spannende Welt der Radartechnologie! Wähle den richtigen Jet und nutze verschiedene Materialien, um unsichtbar für das Radar zu werden.',
+    footer: 'Ein interaktives Lernspiel über Radar und Materialien für Kinder ab 5 Jahren',
+  },
+  radarIntro: {
+    hello: {
+      title: 'Hallo! Ich bin Rada, der Radar-Roboter!',
+      content: 'Ich erkläre dir heute, wie Radar funktioniert. Das ist super spannend!',
+    },
+    whatIsRadar: {
+      title: 'Was ist eigentlich Radar?',
+      content: 'Radar ist wie unsichtbares Licht, das von einer Radar-Station ausgesendet wird und auf Objekte trifft. Wenn das Radar-Licht auf etwas trifft, kommt ein Teil zurück zur Station - und so wissen wir, dass dort etwas ist!',
+    },
+    materials: {
+      title: 'Materialien und Radar',
+      content: 'Verschiedene Materialien verhalten sich unterschiedlich, wenn Radar auf sie trifft. Metall reflektiert Radar sehr stark - wie ein Spiegel! Kohlenstoff und spezielle Stealth-Materialien können Radar absorbieren und machen ein Flugzeug für Radar fast unsichtbar.',
+    },
+    adventure: {
+      title: 'Unser Abenteuer',
+      content: 'Im Radar-Abenteuer kannst du verschiedene Jets auswählen und durch ein Radarfeld steuern. Dein Ziel ist es, unsichtbar für das feindliche Radar zu bleiben! Bist du bereit für das Abenteuer?',
+    },
+    reflectsStrongly: 'Reflektiert Radar stark',
+    absorbsSome: 'Absorbiert etwas Radar',
+    absorbsAlmostAll: 'Absorbiert fast alles Radar',
+  },
+  jets: {
+    heading: 'Wähle deinen Jet!',
+    intro: 'Jeder Jet hat unterschiedliche Eigenschaften. Einige sind schneller, während andere besser darin sind, sich vor dem Radar zu verstecken. Wähle weise!',
+    visibility: 'Radar-Sichtbarkeit:',
+    strength: 'Stärke:',
+    weakness: 'Schwäche:',
+    choose: 'Diesen Jet wählen',
+    metal: {
+      name: 'Metall-Jet',
+      description: 'Reflektiert Radar sehr stark. Wie ein fliegender Spiegel!',
+      strength: 'Sehr schnell und wendig',
+      weakness: 'Leicht vom Radar zu entdecken',
+    },
+    carbon: {
+      name: 'Kohlenstoff-Jet',
+      description: 'Absorbiert etwas Radar. Wird manchmal vom Radar gesehen.',
+      strength: 'Ausgewogen in Geschwindigkeit und Stealth',
+      weakness: 'Kann immer noch vom Radar entdeckt werden',
+    },
+    stealth: {
+      name: 'Stealth-Jet',
+      description: 'Neueste Technologie! Absorbiert fast alle Radarstrahlen.',
+      strength: 'Fast unsichtbar für Radar',
+      weakness: 'Etwas langsamer als andere Jets',
+    },
+  },
+  chainReaction: {
+    modes: {
+      deterministic: 'Gleichmäßig',
+      stochastic: 'Zufällig',
+    },
+    kinetics: {
+      promptOnly: 'Nur prompte Neutronen',
+      withDelayed: 'Mit verzögerten Neutronen',
+      title: 'Prompte und verzögerte Neutronen',
+      description: 'Fast alle Spaltneutronen entstehen sofort – prompt. Etwa {percent} % kommen aber erst Sekunden bis Minuten später aus zerfallenden Spaltprodukten. Solange k − 1 kleiner ist als dieser Anteil, muss die Kettenreaktion auf sie warten.',
+      reactivity: 'Reaktivität ρ = (k − 1) / k',
+      period: 'Reaktorperiode',
+      doubling: 'Verdopplungszeit',
+      halving: 'Halbierungszeit',
+      promptCriticalWarning: 'Prompt kritisch: Die Reaktivität ist größer als der Anteil verzögerter Neutronen (1 $). Die prompten Neutronen allein lassen die Leistung in Millisekunden wachsen – kein Steuerstab ist so schnell.',
+      chartTitle: 'Leistung nach einem Sprung von kritisch auf k',
+      chartNote: 'Die Zeitachse ist logarithmisch. Mit verzögerten Neutronen springt die Leistung nur kurz (prompter Sprung) und ändert sich dann gemächlich; ohne sie ist alles nach Millisekunden vorbei.',
+      livePeriod: 'Reaktorperiode',
+      seconds: 'Sekunden',
+      states: {
+        promptCritical: 'Prompt kritisch',
+        promptCriticalHint: 'Wächst in Millisekunden – nicht mehr regelbar',
+        delayedSupercritical: 'Wächst langsam – Steuerstäbe können folgen',
+      },
+    },
+    monteCarlo: {
+      title: 'Viele zufällige Kettenreaktionen',
+      description: 'Jedes Neutron spaltet entweder einen Kern und setzt 1 bis 3 neue Neutronen frei – oder es geht verloren. Im Mittel hinterlässt es k Nachfolger, doch jede einzelne Kette ist ein Glücksspiel.',
+      offspring: 'Nachfolger eines Neutrons:',
+      trials: 'Versuche',
+      generations: 'Generationen',
+      run: 'Versuche berechnen',
+      running: 'Wird berechnet …',
+      failed: 'Die Versuche konnten nicht berechnet werden.',
+      failedDescription: 'Die Berechnung wurde unerwartet abgebrochen. Bitte versuche es erneut.',
+      empty: 'Berechne viele Versuche mit denselben Einstellungen und vergleiche, wie unterschiedlich sie ausgehen.',
+      resultFor: '{trials} Versuche · {neutrons} Startneutronen · k = {k}',
+      fanTitle: 'Neutronen je Generation',
+      singleTrials: 'Einzelne Versuche',
+      mean: 'Mittelwert aller Versuche',
+      expected: 'N · kⁿ',
+      extinctionTitle: 'Anteil erloschener Ketten',
+      simulated: 'Simulation',
+      theory: 'Theorie',
+      generation: 'Generation {generation}',
+      extinctByEnd: 'Erloschen nach {generations} Generationen',
+      ultimate: 'Erlischt irgendwann (Theorie)',
+      explanation: 'Bei k ≤ 1 erlischt jede Kette früher oder später. Aber auch bei k > 1 kann ein einzelnes Neutron Pech haben: Bei k = 1,2 stirbt seine Kette in etwa drei von vier Fällen aus. Erst viele Startneutronen machen das Erlöschen unwahrscheinlich – deshalb fährt man Reaktoren mit einer Neutronenquelle an.',
+    },
+    decayChains: {
+      modes: {
+        single: 'Ein Nuklid',
+        chain: 'Zerfallskette',
+      },
+      choose: 'Zerfallskette wählen',
+      title: 'Zerfallskette',
+      stable: 'stabil',
+      amountsTitle: 'Anteil der Atome',
+      activityTitle: 'Aktivität im Verhältnis zur Mutter am Anfang',
+      logarithmicNote: 'Die Zeitachse ist logarithmisch, damit Tage und Milliarden Jahre in ein Diagramm passen.',
+      activityRatio: 'Aktivität {daughter} / {parent} am Ende',
+      expected: 'erwartet {ratio}',
+      presets: {
+        uraniumSeries: {
+          name: 'Uran-Radium-Reihe',
+          description: 'Natürliches Uran zerfällt über 14 Stufen zu Blei. Nach etwa einer Million Jahren zerfallen alle Glieder gleich oft.',
+        },
+        radium: {
+          name: 'Radium und Radon',
+          description: 'Radium gibt das Edelgas Radon ab. In einem verschlossenen Gefäß wächst das Radon in wenigen Wochen bis zum Gleichgewicht an.',
+        },
+        strontium: {
+          name: 'Strontium-90 und Yttrium-90',
+          description: 'Ein langlebiges Spaltprodukt mit einer kurzlebigen Tochter, die nach ein paar Tagen genauso stark strahlt wie die Mutter.',
+        },
+        molybdenum: {
+          name: 'Technetium-Generator',
+          description: 'Krankenhäuser melken Technetium-99m aus Molybdän-99. Die Tochter folgt der Mutter mit einem festen Verhältnis nach unten.',
+        },
+        iodine: {
+          name: 'Iod-131 und Xenon-131',
+          description: 'Iod-131 aus Reaktorunfällen zerfällt direkt in stabiles Xenon. Alle acht Tage halbiert sich die Menge.',
+        },
+        breeding: {
+          name: 'Plutonium erbrüten',
+          description: 'Uran-239 zerfällt schneller als seine Tochter Neptunium-239. Die Tochter holt die Mutter nie ein, am Ende bleibt Plutonium-239.',
+        },
+      },
+      equilibrium: {
+        secular: 'Säkulares Gleichgewicht',
+        transient: 'Laufendes Gleichgewicht',
+        none: 'Kein Gleichgewicht',
+      },
+      equilibriumText: {
+        secular: 'Die Mutter lebt viel länger als ihre Töchter. Sobald sich die Töchter angesammelt haben, zerfällt jede genauso oft wie die Mutter, und alle Aktivitätskurven liegen aufeinander.',
+        transient: 'Die Mutter lebt nur etwas länger als die Tochter. Die Tochter wächst an, bis sie etwa so stark strahlt wie die Mutter, und fällt danach mit der Halbwertszeit der Mutter in einem festen Verhältnis zu ihr.',
+        none: 'Die Tochter lebt länger als die Mutter oder ist stabil. Die Mutter verschwindet, und die Tochter bleibt übrig.',
+      },
+      didYouKnow: 'Die Bateman-Gleichungen beschreiben jede Zerfallskette genau: Die Menge jedes Glieds ist eine Summe von Exponentialfunktionen, eine für jeden Vorfahren. In der Natur findet man deshalb in jedem Uranerz auch Radium, Radon und Polonium – genau im Verhältnis ihrer Halbwertszeiten.',
+    },
+    title: 'Kettenreaktion',
+    decayTitle: 'Radioaktiver Zerfall',
+    chainMode: 'Kettenreaktion',
+    halfLifeMode: 'Halbwertszeit',
+    parameters: 'Simulationsparameter',
+    initialAmount: 'Anfangsmenge',
+    atomCount: '{count} Atome',
+    halfLife: 'Halbwertszeit',
+    yearCount: '{count} Jahre',
+    duration: 'Simulationsdauer',
+    initialNeutrons: 'Anfängliche Neutronen',
+    kFactor: 'Multiplikationsfaktor (k)',
+    states: {
+      subcritical: 'Unterkritisch',
+      critical: 'Kritisch',
+      supercritical: 'Überkritisch',
+    },
+    stateHints: {
+      subcritical: 'Reaktion stirbt ab',
+      critical: 'Stabil',
+      supercritical: 'Unkontrollierte Kettenreaktion',
+    },
+    speed: 'Simulationsgeschwindigkeit',
+    visualization: 'Visualisierung',
+    visualizationHint: 'Starte die Simulation, um Teilchen zu sehen',
+    visualizationLimit: 'Nur {shown} von {total} dargestellt',
+    start: 'Simulation starten',
+    resume: 'Fortsetzen',
+    stop: 'Anhalten',
+    history: 'Zeitlicher Verlauf',
+    step: 'Schritt:',
+    axis: {
+      years: 'Jahre',
+      time: 'Zeit',
+      atoms: 'Atomanzahl',
+      neutrons: 'Neutronen',
+    },
+    tooltip: {
+      atoms: 'Atome',
+      neutrons: 'Neutronen',
+      year: 'Jahr {step}',
+      step: 'Schritt {step}',
+    },
+    atomsLeft: 'Atome verbleibend',
+    currentNeutrons: 'Aktuelle Neutronen',
+    didYouKnow: 'Wusstest du?',
+    halfLifeFact: 'Die Halbwertszeit ist die Zeit, nach der die Hälfte aller radioaktiven Atome zerfallen ist. Dies folgt einer exponentiellen Funktion: Nach 2 Halbwertszeiten ist nur noch 1/4, nach 3 Halbwertszeiten nur noch 1/8 der ursprünglichen Menge übrig. In dieser Simulation kannst du diesen exponentiellen Abfall deutlich beobachten.',
+    kFact: {
+      intro: 'Der Multiplikationsfaktor k bestimmt das Reaktorverhalten:',
+      subcritical: '• k < 1: Reaktion stirbt exponentiell ab (unterkritisch)',
+      critical: '• k = 1: Stabile Reaktion (kritisch)',
+      supercritical: '• k > 1: Exponentielles Wachstum (überkritisch)',
+      doubling: '• Bei k = 2: Die Neutronenzahl verdoppelt sich bei jedem Schritt, was zu einer exponentiellen Zunahme führt!',
+    },
+    toasts: {
+      chainStarted: 'Kettenreaktionssimulation gestartet',
+      decayStarted: 'Zerfallssimulation gestartet',
+      startedHalfLife: 'Halbwertszeit: {count} Jahre',
+      startedK: 'Multiplikationsfaktor: {k}',
+      stopped: 'Simulation angehalten',
+      stoppedDescription: 'Simulation nach {steps} Schritten gestoppt.',
+      overloaded: 'Simulation überlastet',
+      overloadedDescription: 'Die Neutronenzahl ist explodiert! Simulation gestoppt.',
+      extinguished: 'Reaktion erloschen',
+      extinguishedDescription: 'Alle Neutronen wurden absorbiert oder entkamen. Reaktion erloschen.',
+      decayDone: 'Zerfallsprozess abgeschlossen',
+      decayDoneDuration: 'Simulation über {count} Jahre abgeschlossen.',
+      decayDoneDepleted: 'Das Material ist vollständig zerfallen.',
+    },
+  },
+  criticality: {
+    title: 'Kritikalitäts-Labor: Form, Größe und Reflektor',
+    description: 'Ob eine Kettenreaktion anläuft, hängt nicht nur von der Masse ab. Forme einen Klumpen Spaltstoff, umgib ihn mit einem Reflektor und schicke Neutronen auf Irrfahrt: Jedes fliegt geradeaus, stößt, wird eingefangen, spaltet einen Kern oder entkommt. Aus vielen solchen Neutronenleben schätzt das Labor k-effektiv.',
+    fuel: 'Spaltstoff',
+    shape: 'Form',
+    shapes: {
+      sphere: 'Kugel',
+      cylinder: 'Zylinder',
+      slab: 'Platte',
+    },
+    mass: 'Masse',
+    cylinderElongation: 'Höhe ÷ Durchmesser',
+    slabElongation: 'Kantenlänge ÷ Dicke',
+    density: 'Dichte',
+    reflector: 'Reflektor oder Moderator',
+    reflectors: {
+      none: 'Keiner',
+      water: 'Wasser',
+      graphite: 'Graphit',
+      beryllium: 'Beryllium',
+      tungstenCarbide: 'Wolframkarbid',
+    },
+    reflectorThickness: 'Dicke des Mantels',
+    run: 'Neutronen losschicken',
+    running: 'Neutronen unterwegs …',
+    failed: 'Die Neutronen konnten nicht verfolgt werden.',
+    failedDescription: 'Die Berechnung wurde unerwartet abgebrochen. Bitte versuche es erneut.',
+    sideView: 'Seitenansicht',
+    dimensions: {
+      sphere: 'Radius {radius} cm',
+      cylinder: '⌀ {diameter} cm × {height} cm',
+      slab: '{thickness} cm dick, {edge} cm breit',
+    },
+    empty: 'Schicke Neutronen los, um ihre Bahnen zu sehen.',
+    stale: 'Einstellungen geändert – schicke neue Neutronen los.',
+    fast: 'Schnelles Neutron',
+    thermal: 'Abgebremstes Neutron',
+    fatesTitle: 'Was aus den Neutronen wird',
+    fates: {
+      fission: 'Spaltung',
+      capture: 'Im Spaltstoff eingefangen',
+      reflector: 'Im Mantel eingefangen',
+      leakage: 'Entkommen',
+    },
+    states: {
+      subcritical: 'Unterkritisch',
+      critical: 'Kritisch',
+      supercritical: 'Überkritisch',
+    },
+    reflectedFissions: 'Spaltungen durch zurückgeworfene Neutronen',
+    thermalFissions: 'Spaltungen durch abgebremste Neutronen',
+    explanationTitle: 'Warum die Form zählt',
+    explanation: 'Neutronen entstehen im ganzen Volumen, entkommen aber nur durch die Oberfläche. Eine Kugel hat bei gleicher Masse die kleinste Oberfläche – als nackte Kugel werden etwa {uranium} kg Uran-235 oder {plutonium} kg Plutonium-239 kritisch. Als flache Platte oder langer Stab bleibt dieselbe Masse weit unterkritisch, weshalb Spaltstofflager flache Behälter nutzen. Ein Reflektor wirft entkommende Neutronen zurück, Wasser und Graphit bremsen sie dabei auch ab, und Verdichten verkürzt ihre Wege: Beides senkt die kritische Masse – so funktionieren Implosionsbomben, und so wurde der „Dämonenkern“ 1945 und 1946 zweimal versehentlich kritisch.',
+  },
+  dating: {
+    title: 'Altersbestimmung: Wie alt ist der Fund?',
+    description: 'Radioaktive Atome sind eingebaute Uhren. Zähle in der Probe, wie viele Mutteratome noch übrig sind, und schätze daraus das Alter des Fundstücks.',
+    score: '{points} Punkte in {rounds} Runden',
+    sampleTitle: 'Probe unter dem Mikroskop',
+    sampleHint: 'Jeder Punkt war am Anfang ein {parent}-Atom. Zähle, wie viele noch {parent} sind.',
+    notDecayed: 'noch nicht zerfallen',
+    decayed: 'zerfallen',
+    showCounts: 'Zählhilfe',
+    hideCounts: 'Zählhilfe ausblenden',
+    counts: '{parents} von {total} Atomen sind noch {parent}',
+    halfLife: 'Halbwertszeit von {parent}: {halfLife}',
+    rulerTitle: 'Halbwertszeit-Lineal',
+    rulerRow: '{halfLives} × T½ = {age}',
+    rulerLeft: 'noch {left} von {total}',
+    estimate: 'Deine Schätzung',
+    submit: 'Alter schätzen',
+    next: 'Nächstes Fundstück',
+    trueAge: 'Wahres Alter',
+    points: '{points} Punkte',
+    calculation: 'Rechnung: {left} von {total} Atomen sind übrig. Das sind {halfLives} Halbwertszeiten, also etwa {age}.',
+    ratings: {
+      bullseye: 'Volltreffer!',
+      good: 'Gut geschätzt!',
+      close: 'Knapp daneben',
+      off: 'Weit daneben',
+    },
+    artefacts: {
+      spear: {
+        name: 'Holzspeer',
+        story: 'Im Moor haben Forscher einen Speer aus Holz gefunden. Steinzeitjäger haben ihn geschnitzt – aber wann?',
+      },
+      mummy: {
+        name: 'Mumie',
+        story: 'In einem ägyptischen Grab liegt eine Mumie in Leinenbinden. Wie lange ist es her, dass der Flachs für die Binden gewachsen ist?',
+      },
+      rock: {
+        name: 'Vulkangestein',
+        story: 'Ein Stück erstarrte Lava aus einem uralten Vulkan. Seit es fest geworden ist, sammelt sich darin Argon an.',
+      },
+    },
+    methods: {
+      carbon: 'Radiokarbonmethode: Solange eine Pflanze oder ein Tier lebt, nimmt es Kohlenstoff aus der Luft auf – darunter immer denselben kleinen Anteil Kohlenstoff-14. Nach dem Tod kommt nichts mehr nach, und C-14 zerfällt mit 5.730 Jahren Halbwertszeit zu Stickstoff. Das Labor vergleicht, wie viel C-14 noch übrig ist, mit dem Anteil in lebenden Dingen. Das funktioniert bis etwa 50.000 Jahre zurück.',
+      potassiumArgon: 'Kalium-Argon-Methode: Kalium-40 zerfällt sehr langsam, mit 1,25 Milliarden Jahren Halbwertszeit. Nur etwa jedes neunte zerfallene Atom wird zu Argon, die anderen werden zu Calcium, das man vom übrigen Calcium im Gestein nicht unterscheiden kann. Argon ist ein Gas und entweicht aus flüssiger Lava; erst im erstarrten Gestein bleibt es gefangen. Aus dem Verhältnis von Argon zu Kalium berechnet das Labor, wann die Lava fest wurde.',
+    },
+  },
+  fission: {
+    tooFast: {
+      title: 'Zu schnelles Neutron',
+      description: '{element} kann nur langsame Neutronen effektiv absorbieren.',
+    },
+    absorption: {
+      title: 'Neutronenabsorption',
+      description: '{from} hat ein Neutron absorbiert und wurde zu {to}',
+    },
+    maxEnergy: {
+      title: 'Maximale Energie erreicht!',
+      description: 'Die Kettenreaktion hat {energy} MeV Energie freigesetzt.',
+    },
+    split: {
+      title: 'Kernspaltung!',
+      description: '{energy} MeV Energie und {neutrons} Neutronen freigesetzt! Neue Elemente: {products}',
+    },
+    noFission: {
+      title: 'Keine Kernspaltung',
+      missed: 'Das Neutron hat den Kern nicht richtig getroffen.',
+      notFissile: '{element} ist nicht gut spaltbar.',
+      needsSlow: '{element} benötigt langsame Neutronen für optimale Spaltung.',
+      needsFast: '{element} benötigt schnelle Neutronen für optimale Spaltung.',
+    },
+    decay: {
+      title: 'Beta-Zerfall',
+      description: '{from} hat sich durch Beta-Zerfall in {to} umgewandelt.',
+    },
+    coreAdded: {
+      title: 'Neuer Atomkern hinzugefügt',
+      description: 'Ein weiterer {element}-Kern wurde zum Experiment hinzugefügt.',
+    },
+    prefersSlow: 'Bevorzugt langsame Neutronen',
+    prefersFast: 'Bevorzugt schnelle Neutronen',
+    prefersAny: 'Reagiert auf alle Neutronen',
+    chainReactionActive: 'Kettenreaktion aktiv',
+    energy: 'Energie: {energy} / {max} MeV',
+    addCore: 'Atomkern hinzufügen',
+    chooseElement: 'Wähle ein Element aus, um zu beginnen',
+    placeNeutron: 'Klicke irgendwo, um ein Neutron zu platzieren, oder verwende die Steuerung unten',
+    dragNeutron: 'Ziehe ein Neutron auf den Atomkern, um die Kettenreaktion zu starten',
+  },
+  miniSun: {
+    tutorial: {
+      plasma: {
+        title: 'Schritt 1: Plasma erzeugen',
+        description: 'Um eine Sonne zu erschaffen, musst du zuerst ein super heißes Plasma machen! Klicke und halte gedrückt, um das Gas zu erhitzen. Du brauchst mindestens 2 Millionen Grad!',
+      },
+      stabilize: {
+        title: 'Schritt 2: Plasma stabilisieren',
+        description: 'Super! Jetzt musst du das heiße Plasma zusammenhalten. Verwende Magnetfelder, damit es nicht entweicht. Stabilität über 80% erreichen!',
+      },
+      fusion: {
+        title: 'Schritt 3: Fusion starten',
+        description: 'Fast geschafft! Damit die Sonne von selbst brennt, muss das Lawson-Kriterium erfüllt sein: Dichte mal Temperatur mal Einschlusszeit muss groß genug sein. Erhöhe den Druck für mehr Dichte, heize weiter und halte das Plasma stabil, damit die Wärme lange eingeschlossen bleibt!',
+      },
+      maintain: {
+        title: 'Schritt 4: Deine Mini-Sonne pflegen',
+        description: 'Toll gemacht! Deine Sonne brennt jetzt. Halte sie am Leben, indem du Brennstoff hinzufügst, wenn er niedrig wird.',
+      },
+      blackHole: {
+        title: 'Schwarzes Loch!',
+        description: 'Deine Sonne ist so massereich geworden, dass sie unter ihrer eigenen Schwerkraft kollabiert ist und ein Schwarzes Loch entstanden ist! Beobachte, wie es Materie verschlingt und Energie in Form von Hawking-Strahlung aussendet.',
+      },
+    },
+    goal: 'Ziel: {value}',
+    goalStability: 'Ziel: 80% Stabilität',
+    goalIgnition: 'Ziel: Lawson-Kriterium (Dichte × Temperatur × Einschlusszeit)',
+    coreTemperature: 'Kerntemperatur: {value}',
+    title: 'Bau deine eigene Mini-Sonne!',
+    welcome: 'Willkommen zum Mini-Sonnen-Baukasten!',
+    intro: 'Erschaffe deine eigene funktionierende Mini-Sonne! Du wirst durch alle Schritte geführt, um eine echte Kernfusion zu erzeugen - genau wie unsere Sonne.',
+    overview: {
+      plasma: {
+        title: 'Plasma erzeugen',
+        text: 'Erhitze Wasserstoff auf Millionen Grad',
+      },
+      stabilize: {
+        title: 'Plasma stabilisieren',
+        text: 'Halte das Plasma mit Magnetfeldern zusammen',
+      },
+      fusion: {
+        title: 'Fusion starten',
+        text: 'Presse die Atomkerne zusammen',
+      },
+      maintain: {
+        title: 'Sonne pflegen',
+        text: 'Halte deine Mini-Sonne am Leuchten',
+      },
+    },
+    stars: {
+      none: 'Keine Sonne',
+      redDwarf: 'Roter Zwerg',
+      mainSequence: 'Hauptreihenstern',
+      blueGiant: 'Blauer Riese',
+      neutron: 'Neutronenstern',
+      blackHole: 'Schwarzes Loch',
+      star: 'Stern',
+    },
+    temperature: 'Temperatur',
+    fusionTemperature: 'Fusionstemperatur erreicht! ✓',
+    plasmaCreated: 'Plasma erzeugt',
+    tooCold: 'Zu kalt für Plasma',
+    stability: 'Stabilität',
+    perfectlyStable: 'Perfekt stabil ✓',
+    fairlyStable: 'Relativ stabil',
+    unstable: 'Instabil',
+    pressure: 'Druck',
+    fusionPressure: 'Fusionsdruck erreicht! ✓',
+    mediumPressure: 'Mittlerer Druck',
+    lowPressure: 'Niedriger Druck',
+    fuel: 'Brennstoff',
+    fuelCritical: 'Kritisch niedrig!',
+    fuelLow: 'Brennstoff niedrig',
+    fuelOk: 'Ausreichend Brennstoff',
+    starMass: 'Sternmasse',
+    collapseImminent: 'Gravitationskollaps droht!',
+    extremelyHeavy: 'Extrem schwerer Stern',
+    massive: 'Massereicher Stern',
+    normalMass: 'Normale Sternmasse',
+    energy: 'Energieproduktion',
+    addFuel: 'Brennstoff hinzufügen',
+    restart: 'Neustart',
+    massGoal: 'Sternmasse: {mass} M☉',
+    blackHoleProgress: '{percent} % zum Schwarzen Loch',
+    toasts: {
+      plasma: {
+        title: 'Plasma erzeugt!',
+        description: 'Das Gas ist jetzt ionisiert und ein Plasma. Stabilisiere es mit Magnetfeldern!',
+      },
+      stable: {
+        title: 'Plasma ist stabil!',
+        description: 'Jetzt kannst du den Druck erhöhen, um die Fusion zu starten!',
+      },
+      fusion: {
+        title: 'Fusion gestartet!',
+        description: 'Deine Mini-Sonne beginnt zu leuchten! Halte sie am Leben.',
+      },
+      blackHole: {
+        title: 'Schwarzes Loch entstanden!',
+        description: 'Deine Sonne ist unter ihrer eigenen Schwerkraft kollabiert und ein Schwarzes Loch ist entstanden!',
+      },
+      plasmaLost: {
+        title: 'Plasma verloren!',
+        description: 'Die Temperatur ist zu niedrig. Erhitze das Gas wieder!',
+      },
+      unstable: {
+        title: 'Instabil!',
+        description: 'Das Plasma wird instabil. Stabilisiere es wieder!',
+      },
+      mainSequence: {
+        title: 'Sternevolution!',
+        description: 'Dein Roter Zwerg hat sich zu einem Hauptreihenstern entwickelt!',
+      },
+      blueGiant: {
+        title: 'Sternevolution!',
+        description: 'Dein Stern ist jetzt ein massiver Blauer Riese!',
+      },
+      collapse: {
+        title: 'Gravitationskollaps!',
+        description: 'Dein Blauer Riese ist kollabiert und ein Schwarzes Loch ist entstanden!',
+      },
+      supernova: {
+        title: 'Supernova!',
+        description: 'Dein Blauer Riese ist in einer spektakulären Supernova explodiert!',
+      },
+      starDied: {
+        title: 'Stern erloschen',
+        description: 'Deine Sonne hat keinen Brennstoff mehr und ist erloschen.',
+      },
+      fuelAdded: {
+        title: 'Brennstoff hinzugefügt',
+        description: 'Deine Sonne hat neuen Wasserstoff bekommen.',
+      },
+    },
+    phases: {
+      magnetOn: 'Magnetfeld An',
+      magnetOff: 'Magnetfeld Aus',
+      autoHeater: 'Auto-Heizer',
+      almostThere: 'Weiter erhitzen! Fast am Ziel!',
+      strengthen: 'Stärken +',
+      magneticField: 'Magnetfeld',
+      gravity: 'Gravitation',
+      laser: 'Laser-Kompression',
+      fusions: 'Fusionen: {count}',
+      fieldStrength: 'Magnetfeld-Stärke',
+      addHydrogen: 'Wasserstoff hinzufügen',
+      collapsed: 'Dein Stern ist so schwer geworden, dass er unter seiner eigenen Schwerkraft kollabiert ist.',
+      noEscape: 'Jetzt ist die Schwerkraft so stark, dass nicht einmal Licht entkommen kann!',
+      understood: 'Verstanden',
+      addMatter: 'Materie hinzufügen',
+      blackHoleMass: 'Schwarzes Loch Masse: {mass} M☉',
+      hawking: 'Hawking-Strahlung aktiv',
+      tip: 'Tipp:',
+      holdToHeat: 'Halte gedrückt zum Erhitzen! Je länger gedrückt, desto mehr Hitze.',
+    },
+  },
+  fusionLab: {
+    heating: 'Plasmaheizung',
+    heatingOff: 'Aus',
+    heatingFull: 'Volle Leistung',
+    modes: {
+      magnetic: 'Magnetfeld',
+      inertial: 'Laser',
+    },
+    guidanceSettings: 'Drehe die Plasmaheizung auf mindestens 50 MW und stelle das Magnetfeld auf etwa {field} Tesla. Dann wird das Plasma heiß genug, um zu zünden, ohne dem Feld zu entwischen.',
+    title: 'Fusionslabor',
+    fusionAchieved: {
+      title: 'Fusion erreicht!',
+      description: 'Die Kernfusion hat begonnen! Halte die Plasmastabilität aufrecht.',
+      banner: 'Fusion erreicht! 🌟',
+    },
+    fusionSustained: {
+      title: 'Stabile Fusion!',
+      description: 'Du hast eine stabile Fusionsreaktion erzeugt - wie in einem Stern!',
+      banner: 'Stabile Fusion wie in einem Stern! 🌞',
+    },
+    guidance: {
+      show: 'Anleitung anzeigen',
+      hide: 'Anleitung ausblenden',
+      close: 'Schließen',
+      wellDone: 'Gut gemacht!',
+      start: {
+        title: 'Starte hier!',
+        content: 'Willkommen im Fusionslabor! Wir werden wie ein Stern Wasserstoffatome verschmelzen.',
+      },
+      settings: {
+        title: 'Stelle die Parameter ein',
+      },
+      run: {
+        title: 'Starte den Reaktor',
+        content: "Drücke den 'Reaktor starten' Knopf um die Fusion zu beginnen!",
+      },
+      stabilize: {
+        title: 'Halte das Plasma stabil',
+        content: 'Super! Halte das Magnetfeld angepasst, damit das Plasma stabil bleibt. Die Stabilität sollte über 70% bleiben.',
+      },
+      done: {
+        title: 'Fusion erreicht!',
+        content: 'Herzlichen Glückwunsch! Du hast erfolgreich eine Fusionsreaktion wie in einem Stern erzeugt!',
+      },
+    },
+    start: 'Reaktor starten',
+    stop: 'Reaktor anhalten',
+    reset: 'Zurücksetzen',
+    temperature: 'Temperatur: {value} Mio. K',
+    fieldReadout: 'Magnetfeld: {value} T',
+    energyReadout: 'Energie: {value} MW',
+    controls: 'Reaktorsteuerung',
+    magneticField: 'Magnetfeld',
+    tesla: '{value} Tesla',
+    weak: 'Schwach',
+    optimal: 'Optimal: {value}',
+    strong: 'Stark',
+    density: 'Plasmadichte',
+    status: 'Reaktorstatus',
+    pressure: 'Plasmadruck',
+    stability: 'Plasmastabilität',
+    reactionRate: 'Fusionsrate',
+    energyOutput: 'Energieausbeute',
+    totalEnergy: 'Gesamtenergie erzeugt',
+    fuels: {
+      dT: {
+        tab: 'D-T Fusion',
+        title: 'Deuterium-Tritium Fusion',
+        text: 'Die D-T Fusion ist die einfachste Fusionsreaktion und benötigt die niedrigsten Temperaturen (ca. 150 Millionen Grad). Sie setzt viel Energie frei, aber erzeugt auch Neutronen, die das Reaktormaterial radioaktiv machen können.',
+      },
+      dD: {
+        tab: 'D-D Fusion',
+        title: 'Deuterium-Deuterium Fusion',
+        text: 'Die D-D Fusion verwendet nur Deuterium, das aus Meerwasser gewonnen werden kann. Sie benötigt viel höhere Temperaturen (ca. eine Milliarde Grad) als D-T Fusion und setzt weniger Energie frei.',
+      },
+      pB11: {
+        tab: 'p-B11 Fusion',
+        title: 'Proton-Bor Fusion',
+        text: 'Die p-B11 Fusion verwendet Wasserstoff und Bor und benötigt extrem hohe Temperaturen (mehrere Milliarden Grad). Sie erzeugt keine Neutronen und daher keine Radioaktivität, was sie sehr umweltfreundlich macht.',
+      },
+    },
+  },
+  fusionFuels: {
+    title: 'Brennstoffe im Vergleich',
+    energy: 'Energie pro Reaktion',
+    products: 'Produkte pro Reaktion',
+    charged: '{percent} % geladene Teilchen',
+    neutrons: '{percent} % Neutronen',
+    chartTitle: 'Reaktivität ⟨σv⟩ in m³/s über der Temperatur',
+    now: 'jetzt',
+    fuel: 'Brennstoff',
+    optimalTemperature: 'Beste Temperatur',
+    tripleProduct: 'Nötiges n·T·τ',
+    relative: 'Gegenüber D-T',
+    never: 'nie',
+    tableNote: 'Das kleinste Tripelprodukt in keV·s/m³, bei dem die geladenen Fusionsprodukte das Plasma allein heiß halten.',
+    descriptions: {
+      dt: 'Deuterium und Tritium haben nur je ein Proton und stoßen sich kaum ab: Schon bei gut 10 keV verschmelzen sie häufig. Vier Fünftel der Energie tragen aber schnelle Neutronen davon, die die Wand radioaktiv machen, und Tritium muss im Reaktor erst erbrütet werden.',
+      dd: 'Deuterium gibt es im Meerwasser genug. Die Reaktion ist aber rund hundertmal seltener als D-T und setzt weniger Energie frei. Zwei Wege sind etwa gleich häufig: Einer erzeugt Helium-3 und ein Neutron, der andere Tritium und ein Proton.',
+      pb11: 'Bor hat fünf Protonen: Proton und Borkern stoßen sich fünfmal so stark ab und verschmelzen erst bei Hunderten keV nennenswert. Dazu bringt jeder Borkern fünf Elektronen mit, an denen das Plasma rund siebenmal so viel Bremsstrahlung abgibt. Dafür entstehen nur drei Heliumkerne und keine Neutronen.',
+    },
+    productNames: {
+      helium4: 'Helium-4',
+      helium3: 'Helium-3',
+      tritium: 'Tritium',
+      proton: 'Proton',
+      neutron: 'Neutron',
+    },
+  },
+  inertialFusion: {
+    description: 'Statt ein dünnes Plasma sekundenlang im Magnetfeld zu halten, drücken Laserstrahlen eine millimetergroße Kapsel aus Deuterium und Tritium in Milliardstelsekunden zusammen – dichter als Blei. Nur ihre eigene Trägheit hält sie zusammen, gerade lange genug, dass ihr Zentrum zünden kann.',
+    pulseTitle: 'Laserpuls formen',
+    energy: 'Laserenergie',
+    timing: 'Start des Hauptpulses',
+    symmetry: 'Gleichmäßigkeit der Bestrahlung',
+    shocksArrive: 'Schocks am Brennstoff',
+    fire: 'Laser feuern',
+    firing: 'Die Kapsel implodiert …',
+    noShot: 'Forme den Laserpuls und feuere auf die Kapsel. Der schwache Vorpuls schickt Schockwellen durch die Schale; der Hauptpuls sollte folgen, wenn sie den Brennstoff erreichen.',
+    resultTitle: 'Ergebnis des Schusses',
+    ignited: 'Gezündet! Die Brennwelle läuft durch den Brennstoff.',
+    fizzled: 'Keine Zündung – nur der Hotspot hat ein wenig gebrannt.',
+    velocity: 'Implosionsgeschwindigkeit',
+    convergence: 'Kompression (Radius vorher ÷ nachher)',
+    adiabat: 'Vorheizung des Brennstoffs',
+    hotSpotTemperature: 'Temperatur im Hotspot',
+    hotSpotArealDensity: 'Flächendichte ρR im Hotspot',
+    fuelArealDensity: 'Flächendichte ρR im Brennstoff',
+    criterion: 'Zündkriterium: ρR ≥ {arealDensity} g/cm² bei ≥ {temperature} keV',
+    limits: {
+      energy: 'Zu wenig Laserenergie: Die Schale fliegt zu langsam, der Hotspot wird nicht heiß genug.',
+      timing: 'Der Hauptpuls kommt zur falschen Zeit: Der Brennstoff wurde vorgeheizt und lässt sich nicht dicht genug zusammendrücken.',
+      symmetry: 'Die Kapsel wurde ungleichmäßig bestrahlt und ist schief implodiert – der Hotspot bleibt zu dünn.',
+    },
+    yield: 'Fusionsenergie',
+    gain: 'Gewinn (Fusion ÷ Laser)',
+    wallPlug: 'Gewinn ab Steckdose',
+    wallPlugNote: 'Die Laser machen nur etwa {percent} % des Stroms zu Licht auf der Kapsel. Ein Kraftwerk bräuchte einen Gewinn von über 100 – und zehn Schüsse pro Sekunde.',
+    compare: {
+      title: 'Magnetfeld oder Laser?',
+      magnetic: 'Tokamak',
+      inertial: 'Laser',
+      density: 'Dichte',
+      temperature: 'Temperatur',
+      confinementTime: 'Einschlusszeit',
+      tripleProduct: 'n·T·τ (keV·s/m³)',
+      note: 'Beide brauchen etwa dasselbe Tripelprodukt: Der Tokamak hält ein dünnes Plasma sekundenlang, der Laser extrem dichten Brennstoff für Billionstelsekunden.',
+    },
+    toast: {
+      title: 'Zündung!',
+      description: 'Die Kapsel hat {yield} MJ Fusionsenergie freigesetzt – {gain}-mal so viel, wie der Laser hineingesteckt hat.',
+    },
+  },
+  fusionPlasma: {
+    title: 'Das Plasma im Tokamak',
+    off: 'Aus',
+    heating: 'Wird geheizt',
+    breakeven: 'Mehr Fusion als Heizung',
+    ignited: 'Gezündet!',
+    temperature: 'Temperatur',
+    millionKelvin: '{value} Mio. K',
+    density: 'Dichte',
+    confinementTime: 'Einschlusszeit',
+    fusionPower: 'Fusionsleistung',
+    q: 'Q (Fusion ÷ Heizung)',
+    stability: 'Stabilität',
+    tripleProduct: 'Tripelprodukt n·T·τ',
+    lawson: 'Erreicht das Tripelprodukt den Balken, heizen die geladenen Fusionsprodukte das Plasma allein: Es ist gezündet. Am günstigsten, bei etwa {temperature} keV, reichen {value} keV·s/m³ (Lawson-Kriterium).',
+    tooCold: 'Zu kalt zum Zünden: Unter etwa {temperature} keV strahlt das Plasma als Bremsstrahlung mehr ab, als die Fusion liefert – egal wie gut es eingeschlossen ist.',
+    betaLimit: 'Der Plasmadruck ist zu hoch für das Magnetfeld! Das Plasma wird instabil und kann abreißen. Feld erhöhen oder Heizung und Dichte senken.',
+    powers: {
+      heating: 'Heizung',
+      alpha: 'Geladene Produkte',
+      bremsstrahlung: 'Bremsstrahlung',
+      transport: 'Wärmeverlust',
+    },
+    disruption: {
+      title: 'Plasmaabriss!',
+      description: 'Das instabile Plasma ist in Millisekunden zusammengebrochen und hat seine Wärme an die Wand abgegeben. Es muss neu aufgeheizt werden.',
+    },
+  },
+  reactor: {
+    types: {
+      pressurizedWater: 'Druckwasserreaktor',
+      fastBreeder: 'Schneller Brüter',
+      fusion: 'Fusionsreaktor',
+      thoriumMsr: 'Thorium-Flüssigsalzreaktor',
+    },
+    coolants: {
+      water: 'Wasser',
+      sodium: 'Flüssiges Natrium',
+      helium: 'Helium-Gas',
+      moltenSalt: 'Flüssigsalz',
+    },
+    fusionHeating: 'Beim Fusionsreaktor regeln die Steuerstäbe die Plasmaheizung: je weniger sie eintauchen, desto stärker heizt er (jetzt {power} MW).',
+    info: 'Info: {name}',
+    kinetics: {
+      title: 'Die Kettenreaktion im Reaktor',
+      thermalPower: 'Wärmeleistung',
+      rods: 'Steuerstäbe (Ist → Soll)',
+      reactivity: 'Reaktivität',
+      fromRods: 'Steuerstäbe',
+      fromTemperature: 'Temperatur',
+      fromVoid: 'Dampfblasen',
+      trendIdle: 'Starte den Reaktor, um die Kettenreaktion zu beobachten.',
+      trendRising: 'Die Leistung verdoppelt sich etwa alle {seconds} Sekunden.',
+      trendSteady: 'Die Kettenreaktion ist im Gleichgewicht: Jede Spaltung löst genau eine neue aus.',
+      trendFalling: 'Die Kettenreaktion wird schwächer.',
+      promptCritical: 'Prompt kritisch! Die Kettenreaktion wächst ohne die verzögerten Neutronen – viel zu schnell für die Steuerstäbe!',
+      delayedNeutrons: 'Bei {fuel} kommen nur {percent} % der Neutronen verzögert, erst Sekunden nach der Spaltung. Genau sie machen die Kettenreaktion so langsam, dass man sie mit Steuerstäben regeln kann.',
+      negativeFeedback: 'Wird der Kern heißer, bremst er die Kettenreaktion von selbst. Deshalb pendelt sich die Temperatur ein.',
+      positiveVoid: 'Vorsicht: Kocht das Natrium, werden die Neutronen schneller und die Kettenreaktion stärker. Zieh die Stäbe nur langsam heraus!',
+      fromXenon: 'Xenon-Gift',
+      fromBurnup: 'Abbrand',
+      fromCoolant: 'Kühlmittel',
+      xenonPit: 'Xenon-Vergiftung! Nach dem Abschalten entsteht Xenon, das Neutronen schluckt. Der Reaktor lässt sich erst wieder starten, wenn es zerfallen ist.',
+      fuelSpent: 'Der Brennstoff ist verbraucht. Lade neuen Brennstoff, um den Reaktor wieder zu starten.',
+      noModeration: 'Dieses Kühlmittel bremst die Neutronen nicht genug. Ohne Moderator kommt die Kettenreaktion nicht in Gang, wähle ein passendes Kühlmittel.',
+      fuelTitle: 'Brennstoff',
+      fissileLeft: '{fuel} übrig',
+      burnup: 'Abbrand',
+      bredPlutonium: 'Erbrütetes Pu-239',
+      bredUranium: 'Erbrütetes U-233',
+      refuel: 'Neuen Brennstoff laden',
+    },
+    noRestart: {
+      title: 'Reaktor startet nicht',
+      xenon: 'Zu viel Xenon im Kern: Selbst mit gezogenen Stäben kommt keine Kettenreaktion zustande. Warte, bis das Xenon zerfallen ist.',
+      fuel: 'Der Brennstoff ist verbraucht. Lade zuerst neuen Brennstoff.',
+      coolant: 'Mit diesem Kühlmittel bleibt der Reaktor unterkritisch: Die Neutronen werden nicht genug abgebremst. Wähle ein passendes Kühlmittel.',
+    },
+    refueled: {
+      title: 'Neuer Brennstoff geladen',
+      description: 'Der Kern ist frisch beladen und bereit zum Start.',
+    },
+    scenarios: {
+      title: 'Störfall-Training',
+      intro: 'Übe Notfälle wie im echten Kontrollraum. Am Ende bekommst du eine Auswertung.',
+      start: 'Starten',
+      abort: 'Szenario abbrechen',
+      timeLeft: 'Noch {seconds} s',
+      pumpFailure: {
+        title: 'Ausfall der Kühlmittelpumpe',
+        briefing: 'Der Schnelle Brüter läuft mit voller Leistung. Fällt eine Pumpe aus, musst du sofort die Steuerstäbe einfahren, bevor das Natrium kocht.',
+      },
+      loadFollow: {
+        title: 'Lastfolge auf 70 %',
+        briefing: 'Das Stromnetz braucht gleich mehr Energie. Bring die Wärmeleistung auf die Vorgabe und halte sie dort.',
+      },
+      coldStart: {
+        title: 'Kaltstart auf volle Leistung',
+        briefing: 'Fahre den kalten Reaktor auf volle Leistung hoch – langsam und ohne Warnungen!',
+      },
+      scram: {
+        title: 'Schnellabschaltung',
+        briefing: 'Warte auf den Befehl zur Schnellabschaltung und fahre den Reaktor dann in weniger als 5 Sekunden herunter.',
+      },
+      events: {
+        pumpFailureTitle: 'Pumpe ausgefallen!',
+        pumpFailure: 'Die Hauptpumpe ist ausgefallen. Es fließt nur noch {flow} % Kühlmittel.',
+        powerDemandTitle: 'Neue Vorgabe vom Netz',
+        powerDemand: 'Das Netz braucht jetzt {power} MW Wärmeleistung.',
+        scramOrderTitle: 'SCHNELLABSCHALTUNG!',
+        scramOrder: 'Fahre den Reaktor sofort herunter!',
+      },
+      criteria: {
+        noMeltdown: 'Keine Kernschmelze',
+        maxTemperature: 'Temperatur immer unter {limit}',
+        noPromptCritical: 'Nie prompt kritisch',
+        rodsInserted: 'Steuerstäbe innerhalb von {seconds} s auf mindestens {level} % eingefahren',
+        powerInBand: 'Leistung {share} % der Zeit höchstens {tolerance} % neben der Vorgabe',
+        reachPower: 'Mindestens {power} MW für {seconds} s gehalten',
+        shutdown: 'Innerhalb von {seconds} s abgeschaltet',
+        powerBelow: 'Leistung nach {seconds} s unter {power} MW',
+      },
+      actions: {
+        rods: 'Steuerstäbe auf {value} %',
+        flow: 'Kühlmittelfluss auf {value} %',
+        start: 'Reaktor gestartet',
+        stop: 'Reaktor gestoppt',
+        scram: 'SCRAM ausgelöst',
+      },
+      debrief: {
+        title: 'Auswertung: {title}',
+        perfect: 'Perfekt! Du hast alles richtig gemacht.',
+        partial: 'Gut gemacht, aber ein paar Dinge kannst du noch besser machen.',
+        failed: 'Das ging leider schief. Versuch es gleich noch einmal!',
+        maxTemperature: 'Höchste Temperatur: {value}',
+        timeline: 'Deine Eingriffe',
+        noActions: 'Du hast nichts verändert.',
+        close: 'Schließen',
+        retry: 'Nochmal versuchen',
+      },
+    },
+    protection: {
+      scram: 'SCRAM',
+      scramHint: 'Schnellabschaltung: Alle Steuerstäbe fallen sofort in den Kern.',
+      acknowledge: 'Quittieren',
+      resetTrip: 'Freigeben',
+      perSecond: '{value} %/s',
+      percent: '{value} %',
+      alarms: {
+        temperature: 'Temperatur hoch',
+        powerRate: 'Leistung steigt schnell',
+        coolantFlow: 'Kühlung schwach',
+        reactorTrip: 'Reaktor abgeschaltet',
+      },
+      log: {
+        title: 'Ereignisprotokoll',
+        empty: 'Noch keine Abschaltungen.',
+        trip: 'Auslösung: {alarm} ({value})',
+        manualScram: 'SCRAM von Hand ausgelöst',
+        emergencyDrain: 'Salz in den Notablasstank abgelassen',
+        reset: 'Abschaltung freigegeben',
+      },
+      tripped: {
+        title: 'Reaktorschutz hat ausgelöst!',
+        description: 'Grund: {alarm}. Die Steuerstäbe fallen in den Kern.',
+      },
+      scrammed: {
+        title: 'SCRAM!',
+        description: 'Alle Steuerstäbe fallen in den Kern, die Kettenreaktion bricht ab.',
+      },
+      resetFirst: {
+        title: 'Reaktor ist abgeschaltet',
+        description: 'Gib die Schnellabschaltung am Meldefeld erst frei, wenn alle Stäbe eingefahren sind.',
+      },
+      setpoints: {
+        title: 'Reaktorschutz',
+        description: 'Wird einer dieser Grenzwerte überschritten, schaltet der Reaktorschutz den Reaktor automatisch ab.',
+        temperature: 'Höchste Temperatur',
+        powerRate: 'Schnellster Leistungsanstieg',
+        coolantFlow: 'Geringster Kühlmittelfluss',
+        off: 'aus',
+        defaults: 'Standardwerte',
+      },
+    },
+    trends: {
+      tab: 'Verlauf',
+      temperature: 'Temperatur',
+      power: 'Leistung',
+      thermalPower: 'Wärmeleistung',
+      electricPower: 'Strom',
+      demand: 'Bedarf der Stadt',
+      settings: 'Wirkungsgrad und Einstellungen',
+      efficiency: 'Wirkungsgrad',
+      rods: 'Steuerstäbe',
+      coolantFlow: 'Kühlmittelfluss',
+      reactivity: 'Reaktivität in Dollar',
+      minutes: '{minutes} min',
+      all: 'Alles',
+      pause: 'Anhalten',
+      resume: 'Weiter',
+      empty: 'Starte den Reaktor, dann zeichnen die Diagramme jede Sekunde auf.',
+      atSecond: 'Sekunde {seconds}',
+      clear: 'Verlauf löschen',
+      hint: '{count} Messpunkte gespeichert (höchstens eine Stunde). Halte die Aufzeichnung an, um mit dem Regler unter den Diagrammen hineinzuzoomen. Die CSV-Datei öffnet jede Tabellenkalkulation.',
+    },
+    steamCycle: {
+      tab: 'Stromnetz',
+      title: 'Dampfkreislauf und Stromnetz',
+      description: 'Die Wärme aus dem Reaktor macht Dampf. Der Dampf dreht die Turbine, und der Generator macht daraus Strom. Was die Turbine nicht nutzen kann, geht als Abwärme in den Kondensator. Die Stadt braucht tagsüber mehr Strom als nachts: Passe die Reaktorleistung an ihren Bedarf an, denn Strom, den niemand braucht, bringt nichts ein.',
+      clock: '{time} Uhr',
+      demand: 'Bedarf der Stadt',
+      demandShort: 'Bedarf: {power} MW',
+      generation: 'Erzeugung',
+      frequency: 'Netzfrequenz',
+      steamTemperature: 'Frischdampf',
+      efficiency: 'Wirkungsgrad',
+      matched: 'Passt genau zum Bedarf!',
+      tooLittle: 'Zu wenig Strom: mehr Leistung!',
+      tooMuch: 'Zu viel Strom: weniger Leistung!',
+      offline: 'Generator nicht am Netz',
+      score: 'Bedarf getroffen: {percent} % der Zeit',
+      flowTitle: 'Energiefluss',
+      flowEmpty: 'Sobald der Reaktor Wärme liefert, zeigt das Diagramm, wohin die Energie fließt.',
+      curveTitle: 'Stromverbrauch der Stadt über den Tag (MW)',
+      now: 'jetzt',
+      fusion: 'Der Fusionsreaktor ist noch nicht an den Dampfkreislauf angeschlossen.',
+      nodes: {
+        reactor: 'Reaktorwärme',
+        steamGenerator: 'Dampferzeuger',
+        turbine: 'Turbine',
+        generator: 'Generator',
+        city: 'Stadt',
+        condenser: 'Kondensator',
+        losses: 'Verluste',
+        surplus: 'Überschuss',
+      },
+    },
+    compatibility: {
+      title: 'Welches Kühlmittel passt zu welchem Reaktor?',
+      levels: {
+        ideal: 'Passt perfekt',
+        possible: 'Geht auch',
+        risky: 'Riskant',
+        impossible: 'Unmöglich',
+      },
+      freezes: 'Unter {temperature} gefriert das Salz in den Rohren und kühlt gar nicht mehr.',
+      pwrWater: 'Das Wasser kühlt und bremst gleichzeitig die Neutronen, damit das Uran-235 sie einfangen kann. Genau dafür ist der Druckwasserreaktor gebaut.',
+      pwrSodium: 'Natrium bremst die Neutronen nicht. Ohne Wasser als Bremse (Moderator) kommt die Kettenreaktion im Uran nicht in Gang. Und trifft Natrium im Dampferzeuger auf Wasser, brennt es heftig!',
+      pwrHelium: 'Helium bremst die Neutronen nicht, also bleibt der Reaktor ohne Moderator aus. Außerdem trägt das leichte Gas viel weniger Wärme weg als Wasser.',
+      pwrSalt: 'Das Salz bremst die Neutronen schlechter als Wasser, und bei den 330 °C eines Druckwasserreaktors ist es fest wie Stein! Erst wenn der Kern heißer wird, fließt es und kühlt.',
+      breederWater: 'Wasser bremst die schnellen Neutronen. Dann brütet der Reaktor kaum noch neuen Brennstoff, und weil langsame Neutronen Plutonium leichter spalten, lässt er sich schwerer abschalten.',
+      breederSodium: 'Natrium kühlt sehr gut und lässt die Neutronen schnell, damit sie Uran-238 in Plutonium verwandeln. Ein Zwischenkreislauf hält es vom Wasser im Dampferzeuger fern.',
+      breederHelium: 'Helium bremst die Neutronen überhaupt nicht, der Reaktor brütet sogar etwas besser. Aber das Gas trägt wenig Wärme, du brauchst viel Durchfluss.',
+      breederSalt: 'Auch ein schneller Reaktor kann mit Salz gekühlt werden. Das Salz bremst die Neutronen ein wenig, deshalb wird etwas weniger gebrütet.',
+      msrSalt: 'Im Thoriumreaktor ist der Brennstoff im Salz gelöst. Das Salz ist Brennstoff und Kühlmittel zugleich, Heizungen halten es flüssig.',
+      msrWithoutSalt: 'Der Brennstoff des Thoriumreaktors ist im Salz gelöst. Ohne Salz gibt es keinen Brennstoff!',
+      fusionWater: 'Auch der große Versuchsreaktor ITER wird mit Wasser gekühlt.',
+      fusionSodium: 'Flüssiges Metall wird in den starken Magnetfeldern abgebremst wie ein Magnet, der durch ein Kupferrohr fällt. Die Pumpen schaffen viel weniger Wärme weg, und Natrium darf nie an das Wasser im Dampferzeuger kommen.',
+      fusionHelium: 'Helium stört die Magnetfelder nicht und verträgt sehr hohe Temperaturen. Es entsteht sogar selbst bei der Fusion.',
+      fusionSalt: 'Ein Salz mit Lithium nimmt die Wärme auf und erbrütet dabei sogar neues Tritium für die Fusion.',
+      sodiumFire: {
+        title: 'Natriumbrand!',
+        description: 'Ein Leck im Dampferzeuger: Das Natrium ist auf Wasser getroffen und brennt. Der Reaktor wurde abgeschaltet.',
+      },
+    },
+    passiveSafety: {
+      title: 'Tolle Sicherheit!',
+      description: 'Der Thoriumreaktor verlangsamt die Reaktion automatisch, wenn er zu heiß wird!',
+    },
+    emergencyDrain: {
+      title: 'Notablauf aktiviert!',
+      description: 'Das heiße Salz fließt in den Sicherheitsbehälter und stoppt die Reaktion!',
+    },
+    started: {
+      title: 'Reaktor gestartet',
+      description: '{name} läuft jetzt.',
+    },
+    stopped: {
+      title: 'Reaktor angehalten',
+      description: 'Der Reaktor wurde sicher heruntergefahren.',
+    },
+    reset: {
+      title: 'Reaktor zurückgesetzt',
+      description: 'Der Reaktor wurde neu aufgebaut und ist bereit für den Start.',
+    },
+    overheated: {
+      title: 'Reaktor überhitzt!',
+      description: 'Das Flüssigsalz ist zu heiß geworden und hat die Rohre beschädigt. Der Reaktor wurde gestoppt.',
+    },
+    meltdown: {
+      title: 'Reaktor Kernschmelze!',
+      description: 'Die Temperatur ist zu hoch gestiegen. Der Reaktor ist geschmolzen!',
+    },
+    title: 'Reaktor-Konstruktion',
+    active: 'Aktiv',
+    inactive: 'Inaktiv',
+    temperature: 'Temperatur',
+    critical: 'Kritisch! Kühlung erhöhen!',
+    safetyActive: 'Sicherheitssystem aktiv!',
+    energyOutput: 'Energieausbeute',
+    efficiency: 'Wirkungsgrad: {value} %',
+    start: 'Reaktor starten',
+    stop: 'Reaktor stoppen',
+    rebuild: 'Reaktor wieder aufbauen',
+    tabs: {
+      type: 'Reaktortyp',
+      cooling: 'Kühlsystem',
+      control: 'Steuerung',
+    },
+    thoriumShort: 'Thoriumreaktor',
+    typeHints: {
+      pressurizedWater: 'Sicher & zuverlässig, niedrige Effizienz',
+      fastBreeder: 'Erzeugt Plutonium, höhere Effizienz',
+      fusion: 'Sehr hohe Effizienz, schwer zu starten',
+      thoriumMsr: 'Flüssigsalz, sicherer, weniger Müll',
+    },
+    typeInfo: {
+      pressurizedWater: 'Verwendet Wasser unter hohem Druck als Kühlmittel und Moderator. Ein sicherer Reaktortyp, der in den meisten Kernkraftwerken verwendet wird.',
+      fastBreeder: 'Nutzt schnelle Neutronen und flüssiges Natrium als Kühlmittel. Kann neuen Brennstoff (Plutonium) erzeugen, während er Energie produziert.',
+      fusion: 'Verschmilzt Wasserstoffisotope zu Helium, ähnlich wie in der Sonne. Benötigt extrem hohe Temperaturen und starke Magnetfelder, produziert aber viel Energie.',
+      thoriumMsr: 'Thorium ist ein besonderes Metall aus dem Boden. Es macht Energie, aber ganz anders als Uran! Der Reaktor verwendet Flüssigsalz statt Wasser und wird bei niedrigerem Druck betrieben. Er stoppt automatisch, wenn er zu heiß wird!',
+    },
+    thorium: {
+      title: 'Der Thorium-Flüssigsalzreaktor',
+      safer: 'Sicherer:',
+      saferText: "Wenn's zu heiß wird, stoppt der Reaktor von selbst!",
+      noPressure: 'Kein Hochdruck:',
+      noPressureText: 'Weil wir Salz statt Wasser benutzen, kann es nicht explodieren!',
+      lessWaste: 'Weniger Müll:',
+      lessWasteText: 'Macht viel weniger radioaktiven Abfall als normale Reaktoren.',
+      drain: 'Notablauf:',
+      drainText: 'Bei Problemen fließt das Salz in einen sicheren Behälter.',
+      future: 'Wissenschaftler sagen: Vielleicht der Reaktor der Zukunft!',
+    },
+    coolantHints: {
+      water: 'Gute Kühlung, sicher',
+      sodium: 'Sehr effiziente Kühlung, reagiert mit Wasser',
+      helium: 'Für Hochtemperatur-Reaktoren, weniger effizient',
+      moltenSalt: 'Für Thoriumreaktor, wird sehr heiß, verdampft nicht',
+    },
+    coolantFlow: 'Kühlmittelfluss',
+    coolantInfo: {
+      water: 'Wasser hat eine hohe Wärmekapazität und ist ein guter Moderator für thermische Reaktoren. Es kann jedoch bei zu hoher Temperatur verdampfen.',
+      sodium: 'Flüssiges Natrium überträgt Wärme sehr effizient und siedet erst bei {boiling}. Es reagiert jedoch heftig mit Wasser und Luft.',
+      helium: 'Helium ist chemisch inert und eignet sich für Hochtemperaturreaktoren. Es hat jedoch eine geringere Wärmekapazität als Flüssigkeiten.',
+      moltenSalt: 'Flüssigsalz wird sehr heiß ({low} bis {high}), ohne zu verdampfen. Es kann den Brennstoff direkt aufnehmen und leitet Wärme sehr gut. Bei Problemen kann das Salz einfach in einen sicheren Behälter abgelassen werden.',
+    },
+    msrSteps: {
+      title: 'Wie funktioniert ein Flüssigsalzreaktor?',
+      dissolve: '1. Thorium wird im heißen Flüssigsalz gelöst (statt feste Brennstäbe)',
+      breed: '2. Neutronen treffen auf Thorium-232 und es wird zu Uran-233',
+      fission: '3. Uran-233 spaltet sich und macht Energie, das Salz wird heiß',
+      flow: '4. Das heiße Salz fließt durch Rohre zum Wärmetauscher',
+      drain: '5. Bei Problemen: Salz fließt in Sicherheitsbehälter - Stopp!',
+    },
+    controlRods: 'Steuerstäbe (Eintauchtiefe)',
+    controlRodsHint: 'Höherer Wert = mehr Kontrolle, weniger Reaktionen',
+    controlInfo: {
+      title: 'Kontrollinformationen',
+      text: 'Steuerstäbe absorbieren Neutronen und verlangsamen so die Kettenreaktion. Tiefer eingetauchte Stäbe (höherer Wert) reduzieren die Reaktionsrate und Wärmeerzeugung.',
+    },
+    comparison: {
+      title: 'Vergleich: Uran vs. Thorium',
+      uranium: 'Uranreaktor:',
+      uraniumPoints: {
+        waste: 'Viel radioaktiver Müll',
+        meltdown: 'Kann überhitzen und schmelzen',
+        pressure: 'Benötigt hohen Druck',
+        safety: 'Braucht viel Notfallschutz',
+      },
+      thorium: 'Thoriumreaktor:',
+      thoriumPoints: {
+        waste: 'Weniger radioaktiver Müll',
+        meltdown: 'Stoppt automatisch bei Überhitzung',
+        pressure: 'Niedriger Druck, keine Explosion',
+        safety: 'Hat eingebaute Sicherheitsfeatures',
+      },
+      summary: 'Thoriumreaktoren machen viel Energie und fast keinen Müll. Die Wissenschaftler denken: Vielleicht ist das der Reaktor der Zukunft!',
+    },
+    visualizer: {
+      selfRegulation: 'Selbstregulierung aktiv',
+      critical: 'KRITISCH!',
+      emergencyDrain: 'Notablauf!',
+      optimal: 'Optimale Leistung',
+      stable: 'Stabil',
+    },
+  },
+  knowledge: {
+    title: 'Wissen',
+    showDetails: 'Wissen im Detail ansehen',
+    dialogTitle: 'Dein Wissen',
+    dialogDescription: 'Jedes neue Experiment und jede richtig beantwortete Quizfrage bringt dich weiter. Dasselbe Experiment noch einmal zu machen, bringt kein neues Wissen.',
+    suggestions: 'Das könntest du als Nächstes ausprobieren:',
+    answerQuiz: 'Beantworte Quizfragen zu diesem Thema.',
+    concepts: {
+      fission: {
+        name: 'Kernspaltung',
+        description: 'Wie Neutronen schwere Atomkerne spalten und dabei Energie freisetzen',
+      },
+      isotopes: {
+        name: 'Isotope',
+        description: 'Warum Atome desselben Elements unterschiedlich reagieren',
+      },
+      breeding: {
+        name: 'Brüten',
+        description: 'Wie aus nicht spaltbaren Kernen neuer Brennstoff entsteht',
+      },
+      criticality: {
+        name: 'Kritikalität',
+        description: 'Wann eine Kettenreaktion abstirbt, stabil bleibt oder wächst',
+      },
+      cooling: {
+        name: 'Kühlung',
+        description: 'Wie Kühlmittel einen Reaktor vor dem Überhitzen schützen',
+      },
+      fusionConditions: {
+        name: 'Fusionsbedingungen',
+        description: 'Welche Temperatur und welcher Druck für Kernfusion nötig sind',
+      },
+      radiationTypes: {
+        name: 'Strahlungsarten',
+        description: 'Wie Alpha-, Beta-, Gamma- und Neutronenstrahlung Materie durchdringen',
+      },
+      radarReflection: {
+        name: 'Radarreflexion',
+        description: 'Warum manche Materialien Radarwellen reflektieren und andere nicht',
+      },
+    },
+    labs: {
+      fission: 'Kernspaltung',
+      enrichment: 'Anreicherung',
+      chainReaction: 'Kettenreaktion',
+      reactor: 'Reaktor',
+      fusion: 'Fusion',
+      radiation: 'Strahlung',
+      radar: 'Radar-Abenteuer',
+    },
+    hints: {
+      fission: {
+        uranium235: 'Spalte einen Uran-235-Kern mit einem Neutron.',
+        plutonium239: 'Spalte einen Plutonium-239-Kern.',
+        uranium233: 'Spalte einen Uran-233-Kern, den du aus Thorium erbrütet hast.',
+        chainReaction: 'Lass die freigesetzten Neutronen weitere Kerne spalten.',
+      },
+      isotopes: {
+        capture: 'Schieße ein langsames Neutron auf Uran-238 oder Thorium-232.',
+        wrongSpeed: 'Probiere aus, was passiert, wenn ein Kern die falsche Neutronengeschwindigkeit bekommt.',
+        fragments: 'Sieh dir die Spaltprodukte nach einer Kernspaltung genau an.',
+        enrichment: 'Reichere Uran in der Zentrifuge an.',
+        halfLife: 'Simuliere einen radioaktiven Zerfall im Kettenreaktions-Simulator.',
+        decayChain: 'Beobachte im Kettenreaktions-Simulator, wie eine Zerfallskette ins Gleichgewicht kommt.',
+        dating: 'Schätze mit einer radioaktiven Uhr das Alter eines Fundstücks gut ab.',
+      },
+      breeding: {
+        plutonium239: 'Verwandle Uran-238 über Neptunium-239 in Plutonium-239.',
+        uranium233: 'Verwandle Thorium-232 über Protactinium-233 in Uran-233.',
+        fastBreeder: 'Starte einen Schnellen Brüter im Reaktorlabor.',
+      },
+      criticality: {
+        subcritical: 'Lass eine Kettenreaktion mit k kleiner als 1 erlöschen.',
+        critical: 'Stelle k genau auf 1 und beobachte eine stabile Kettenreaktion.',
+        supercritical: 'Lass eine Kettenreaktion mit k größer als 1 anwachsen.',
+        randomExtinction: 'Lass viele zufällige Kettenreaktionen mit k größer als 1 laufen und sieh, wie manche trotzdem erlöschen.',
+        delayedNeutrons: 'Lass eine Kettenreaktion mit verzögerten Neutronen knapp überkritisch langsam anwachsen.',
+        criticalMass: 'Bringe im Atombomben-Labor genug Material für eine kritische Masse zusammen.',
+        reflector: 'Mache im Kritikalitäts-Labor einen Klumpen mit Reflektor kritisch, der ohne Reflektor zu klein wäre.',
+      },
+      cooling: {
+        water: 'Betreibe einen Reaktor mit Wasserkühlung.',
+        sodium: 'Betreibe einen Reaktor mit flüssigem Natrium als Kühlmittel.',
+        helium: 'Betreibe einen Reaktor mit Helium-Gas als Kühlmittel.',
+        moltenSalt: 'Betreibe einen Reaktor mit Flüssigsalz als Kühlmittel.',
+        meltdown: 'Finde heraus, was passiert, wenn die Kühlung nicht ausreicht.',
+      },
+      fusionConditions: {
+        ignition: 'Zünde im Fusionslabor eine Kernfusion.',
+        sustained: 'Halte eine Fusionsreaktion stabil am Laufen.',
+        laserIgnition: 'Zünde im Fusionslabor eine Brennstoffkapsel mit dem Laser.',
+        miniSun: 'Bringe deine Mini-Sonne zum Leuchten.',
+        starDeath: 'Beobachte, wie ein zu schwerer Stern stirbt.',
+      },
+      radiationTypes: {
+        alpha: 'Bestrahle ein Material mit Alpha-Strahlung.',
+        beta: 'Bestrahle ein Material mit Beta-Strahlung.',
+        gamma: 'Bestrahle ein Material mit Gamma-Strahlung.',
+        neutron: 'Bestrahle ein Material mit Neutronenstrahlung.',
+        dna: 'Untersuche, wie Strahlung DNA schädigt.',
+        metal: 'Untersuche, wie Strahlung Metall verändert.',
+        plastic: 'Untersuche, wie Strahlung Kunststoff verändert.',
+        crystal: 'Untersuche, wie Strahlung Kristalle verändert.',
+      },
+      radarReflection: {
+        metal: 'Fliege mit dem Metall-Jet durch das Radarfeld.',
+        carbon: 'Fliege mit dem Kohlenstoff-Jet durch das Radarfeld.',
+        stealth: 'Fliege mit dem Stealth-Jet durch das Radarfeld.',
+        unseen: 'Erreiche mindestens 800 Punkte, ohne vom Radar erwischt zu werden.',
+      },
+    },
+  },
+  achievements: {
+    unlocked: 'Erfolg freigeschaltet!',
+    panelTitle: 'Erfolge',
+    trophiesDescription: 'Hier sammelst du die Erfolge aus allen Laboren. Du hast {unlocked} von {total} Trophäen freigeschaltet.',
+    unlockedAt: 'Freigeschaltet am {date}',
+    labs: {
+      fission: 'Kernspaltung',
+      enrichment: 'Anreicherung',
+      reactor: 'Reaktor',
+      fusion: 'Kernfusion',
+      chainReaction: 'Kettenreaktion',
+      radiation: 'Strahlung',
+      radar: 'Radar-Abenteuer',
+      miniSun: 'Mini-Sonne',
+      quiz: 'Quiz',
+    },
+    items: {
+      firstFission: {
+        name: 'Atomspalter',
+        description: 'Den ersten Atomkern mit einem Neutron gespalten',
+      },
+      fissionExpert: {
+        name: 'Spaltungsprofi',
+        description: '50 Atomkerne von Hand gespalten',
+      },
+      maxEnergy: {
+        name: 'Volle Ladung',
+        description: 'Die maximale Energie im Spaltungslabor erreicht',
+      },
+      breeder: {
+        name: 'Brutmeister',
+        description: 'Neuen Brennstoff erbrütet (Plutonium-239 oder Uran-233)',
+      },
+      firstEnrichment: {
+        name: 'Zentrifugen-Anfänger',
+        description: 'Zum ersten Mal Uran angereichert',
+      },
+      enrichmentRoutine: {
+        name: 'Anreicherungsanlage',
+        description: '5 Anreicherungsprozesse abgeschlossen',
+      },
+      weaponsGrade: {
+        name: 'Hochangereichert',
+        description: 'Uran auf über 90 % U-235 angereichert',
+      },
+      firstReactor: {
+        name: 'Reaktorfahrer',
+        description: 'Zum ersten Mal einen Reaktor gestartet',
+      },
+      reactorVeteran: {
+        name: 'Schichtleiter',
+        description: '10 Reaktoren gestartet',
+      },
+      meltdown: {
+        name: 'Das war zu heiß',
+        description: 'Eine Kernschmelze erlebt – und daraus gelernt',
+      },
+      fusionAchieved: {
+        name: 'Sternenfeuer',
+        description: 'Im Fusionslabor eine Kernfusion gezündet',
+      },
+      fusionSustained: {
+        name: 'Stabiler Stern',
+        description: 'Eine stabile Fusionsreaktion aufrechterhalten',
+      },
+      firstChainReaction: {
+        name: 'Kettenreaktion',
+        description: 'Die erste Kettenreaktion ausgelöst',
+      },
+      tenChainReactions: {
+        name: 'Kettenreaktions-Experte',
+        description: '10 Kettenreaktionen ausgelöst',
+      },
+      chainOverload: {
+        name: 'Außer Kontrolle',
+        description: 'Eine Kettenreaktion bis zur Überlastung anwachsen lassen',
+      },
+      firstRadiationExperiment: {
+        name: 'Strahlenforscher',
+        description: 'Das erste Bestrahlungsexperiment durchgeführt',
+      },
+      radiationExpert: {
+        name: 'Strahlenschutz-Experte',
+        description: '10 Bestrahlungsexperimente durchgeführt',
+      },
+      firstRadarFlight: {
+        name: 'Testpilot',
+        description: 'Einen Flug im Radar-Abenteuer beendet',
+      },
+      radarAce: {
+        name: 'Radar-Ass',
+        description: 'Mindestens 800 Punkte im Radar-Abenteuer erreicht',
+      },
+      firstFusion: {
+        name: 'Erster Lichtblick',
+        description: 'Erste Fusion erfolgreich gestartet',
+      },
+      mainSequence: {
+        name: 'Sonnengleich',
+        description: 'Einen Hauptreihenstern erzeugt',
+      },
+      blueGiant: {
+        name: 'Gigantische Leistung',
+        description: 'Einen Blauen Riesen erzeugt',
+      },
+      perfectStability: {
+        name: 'Plasma-Meister',
+        description: 'Perfekte Plasmastabilität erreicht',
+      },
+      longLife: {
+        name: 'Mini-Sternenforscher',
+        description: 'Einen Stern lange am Leben erhalten',
+      },
+      supernova: {
+        name: 'Supernova-Entdecker',
+        description: 'Eine Supernova-Explosion ausgelöst',
+      },
+      blackHoleCreated: {
+        name: 'Schwarzes Loch Entdecker',
+        description: 'Einen Stern zu einem Schwarzen Loch kollabieren lassen',
+      },
+      firstQuiz: {
+        name: 'Wissensprüfer',
+        description: 'Das erste Quiz bis zum Ende gespielt',
+      },
+      quizMaster: {
+        name: 'Quiz-Meister',
+        description: 'Alle Fragen aller 8 Quiz-Themen richtig beantwortet',
+      },
+    },
+  },
+  quiz: {
+    open: "Quiz: Hast du's verstanden?",
+    title: 'Quiz: {tab}',
+    finished: 'Geschafft! Schau dir dein Ergebnis an.',
+    progress: 'Frage {current} von {total}',
+    correct: 'Richtig!',
+    incorrect: 'Nicht ganz.',
+    showResult: 'Ergebnis ansehen',
+    next: 'Weiter',
+    score: '{correct} von {total} richtig',
+    perfect: 'Super! Du hast alles verstanden.',
+    tryAgain: 'Gut gemacht! Probiere das Labor noch einmal aus und versuche es dann erneut.',
+    playAgain: 'Nochmal spielen',
+    dropHere: 'Hierher ziehen',
+    check: 'Prüfen',
+    readAloud: 'Vorlesen',
+    tabs: {
+      fission: 'Kernspaltung',
+      enrichment: 'Anreicherung',
+      reactor: 'Reaktor',
+      fusion: 'Fusion',
+      miniSun: 'Mini-Sonne',
+      chainReaction: 'Kettenreaktion',
+      radiation: 'Strahlung',
+      radar: 'Radar',
+    },
+    questions: {
+      fissionNeutron: {
+        prompt: 'Womit spaltest du einen Atomkern?',
+        options: {
+          a: 'Licht',
+          b: 'Neutron',
+          c: 'Magnet',
+        },
+        explanation: 'Ein Neutron hat keine Ladung. Darum kann es ganz nah an den Kern heran und ihn spalten.',
+      },
+      fissionProducts: {
+        prompt: 'Was entsteht, wenn sich Uran-235 spaltet?',
+        options: {
+          a: 'Zwei kleinere Kerne, neue Neutronen und Energie',
+          b: 'Ein größerer Urankern',
+          c: 'Nur Wärme, sonst nichts',
+        },
+        explanation: 'Der Kern zerbricht in zwei Bruchstücke. Dabei fliegen zwei bis drei Neutronen heraus und es wird Energie frei.',
+      },
+      fissionFragments: {
+        prompt: 'Sind die beiden Bruchstücke einer Spaltung meistens gleich groß?',
+        options: {
+          a: 'Ja, immer genau gleich groß',
+          b: 'Nein, meistens ist eins schwerer als das andere',
+          c: 'Es entsteht nur ein Bruchstück',
+        },
+        explanation: 'Meistens entsteht ein schweres Bruchstück wie Barium und ein leichteres wie Krypton.',
+      },
+      fissionBreedingMatch: {
+        prompt: 'Was wird woraus? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'Uran-238',
+            match: 'Plutonium-239',
+          },
+          b: {
+            item: 'Thorium-232',
+            match: 'Uran-233',
+          },
+        },
+        explanation: 'Uran-238 fängt ein Neutron und wird über Neptunium zu Plutonium-239. Thorium-232 wird über Protactinium zu Uran-233.',
+      },
+      fissionBreedingSpeed: {
+        prompt: 'Welche Neutronen fängt Uran-238 im Spiel am liebsten ein?',
+        options: {
+          a: 'Schnelle Neutronen',
+          b: 'Langsame Neutronen',
+          c: 'Gar keine',
+        },
+        explanation: 'Langsame Neutronen werden von Uran-238 eingefangen. So beginnt die Umwandlung zu Plutonium.',
+      },
+      fissionBetaDecay: {
+        prompt: 'Wie wird aus Neptunium-239 Plutonium-239?',
+        options: {
+          a: 'Durch Beta-Zerfall: ein Neutron wird zum Proton',
+          b: 'Durch Schmelzen',
+          c: 'Durch eine zweite Spaltung',
+        },
+        explanation: 'Beim Beta-Zerfall wird im Kern ein Neutron zu einem Proton. So entsteht ein neues Element.',
+      },
+      enrichmentIsotope: {
+        prompt: 'Was unterscheidet Uran-235 von Uran-238?',
+        options: {
+          a: 'Die Zahl der Neutronen im Kern',
+          b: 'Die Farbe',
+          c: 'Die Zahl der Protonen',
+        },
+        explanation: 'Beide sind Uran und haben 92 Protonen. Uran-238 hat aber drei Neutronen mehr.',
+      },
+      enrichmentNatural: {
+        prompt: 'Wie viel Uran-235 steckt in natürlichem Uran?',
+        options: {
+          a: 'Etwa 0,7 Prozent',
+          b: 'Etwa die Hälfte',
+          c: 'Fast alles',
+        },
+        explanation: 'Natürliches Uran besteht fast nur aus Uran-238. Nur ein kleiner Teil ist das gut spaltbare Uran-235.',
+      },
+      enrichmentCentrifuge: {
+        prompt: 'Mit welcher Maschine reichert man Uran an?',
+        options: {
+          a: 'Ofen',
+          b: 'Zentrifuge',
+          c: 'Fernrohr',
+        },
+        explanation: 'Die Zentrifuge dreht sich sehr schnell. Das schwerere Uran-238 wird dabei etwas stärker nach außen gedrückt.',
+      },
+      enrichmentLevels: {
+        prompt: 'Wofür braucht man wie viel Uran-235? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'Natururan',
+            match: '0,7 %',
+          },
+          b: {
+            item: 'Kraftwerk',
+            match: '3–5 %',
+          },
+          c: {
+            item: 'Bombe',
+            match: 'über 90 %',
+          },
+        },
+        explanation: 'Ein Kraftwerk braucht nur wenig angereichertes Uran. Für eine Bombe müsste es sehr hoch angereichert sein.',
+      },
+      enrichmentThorium: {
+        prompt: 'Warum muss man Thorium nicht anreichern?',
+        options: {
+          a: 'Weil man daraus im Reaktor erst Uran-233 erbrütet',
+          b: 'Weil Thorium von selbst explodiert',
+          c: 'Weil Thorium gar nicht radioaktiv ist',
+        },
+        explanation: 'Thorium-232 ist selbst kaum spaltbar. Im Reaktor fängt es Neutronen ein und wird zu spaltbarem Uran-233.',
+      },
+      reactorControlRods: {
+        prompt: 'Was machen die Steuerstäbe im Reaktor?',
+        options: {
+          a: 'Sie schlucken Neutronen und bremsen die Kettenreaktion',
+          b: 'Sie machen das Wasser warm',
+          c: 'Sie erzeugen Strom',
+        },
+        explanation: 'Je tiefer die Steuerstäbe im Reaktor stecken, desto mehr Neutronen schlucken sie. Dann gibt es weniger Spaltungen.',
+      },
+      reactorCoolantJob: {
+        prompt: 'Wozu braucht ein Reaktor Kühlmittel?',
+        options: {
+          a: 'Es trägt die Wärme weg',
+          b: 'Es macht den Reaktor schwerer',
+          c: 'Es färbt das Wasser blau',
+        },
+        explanation: 'Das Kühlmittel transportiert die Wärme aus dem Kern. Ohne Kühlung wird der Reaktor zu heiß.',
+      },
+      reactorCoolantMatch: {
+        prompt: 'Welcher Reaktor nutzt welches Kühlmittel? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'Druckwasserreaktor',
+            match: 'Wasser',
+          },
+          b: {
+            item: 'Schneller Brüter',
+            match: 'Natrium',
+          },
+          c: {
+            item: 'Thorium-Reaktor',
+            match: 'Flüssigsalz',
+          },
+        },
+        explanation: 'Wasser bremst Neutronen ab. Ein Schneller Brüter braucht schnelle Neutronen und kühlt deshalb mit flüssigem Natrium.',
+      },
+      reactorMeltdown: {
+        prompt: 'Was droht, wenn die Kühlung ausfällt?',
+        options: {
+          a: 'Der Reaktor friert ein',
+          b: 'Eine Kernschmelze',
+          c: 'Gar nichts',
+        },
+        explanation: 'Auch ohne Kettenreaktion gibt der Brennstoff noch Wärme ab. Ohne Kühlung kann er schmelzen.',
+      },
+      reactorSodium: {
+        prompt: 'Warum kühlt man einen Schnellen Brüter nicht mit Wasser?',
+        options: {
+          a: 'Wasser würde die Neutronen abbremsen',
+          b: 'Wasser ist zu teuer',
+          c: 'Wasser kann keine Wärme aufnehmen',
+        },
+        explanation: 'Wasser macht Neutronen langsam. Der Schnelle Brüter braucht aber schnelle Neutronen zum Brüten.',
+      },
+      fusionWhat: {
+        prompt: 'Was passiert bei der Kernfusion?',
+        options: {
+          a: 'Leichte Kerne verschmelzen zu einem schwereren Kern',
+          b: 'Ein schwerer Kern zerbricht',
+          c: 'Elektronen verschwinden',
+        },
+        explanation: 'Bei der Fusion verschmelzen zum Beispiel Wasserstoffkerne zu Helium. Dabei wird Energie frei.',
+      },
+      fusionTemperature: {
+        prompt: 'Wie heiß muss das Plasma für Fusion auf der Erde sein?',
+        options: {
+          a: 'Etwa 100 Grad',
+          b: 'Etwa 1000 Grad',
+          c: 'Über 100 Millionen Grad',
+        },
+        explanation: 'Die Kerne sind positiv geladen und stoßen sich ab. Nur bei riesigen Temperaturen sind sie schnell genug, um zu verschmelzen.',
+      },
+      fusionMagnet: {
+        prompt: 'Womit hält ein Tokamak das heiße Plasma fest?',
+        options: {
+          a: 'Magnetfelder',
+          b: 'Ein Eimer',
+          c: 'Dicke Steine',
+        },
+        explanation: 'Kein Material hält so hohe Temperaturen aus. Starke Magnetfelder halten das Plasma von den Wänden fern.',
+      },
+      fusionFuelMatch: {
+        prompt: 'Was gehört zusammen? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'Deuterium',
+            match: 'Wasserstoff mit einem Neutron',
+          },
+          b: {
+            item: 'Tritium',
+            match: 'Wasserstoff mit zwei Neutronen',
+          },
+          c: {
+            item: 'Helium',
+            match: 'Asche der Fusion',
+          },
+        },
+        explanation: 'Deuterium und Tritium sind schwere Formen von Wasserstoff. Wenn sie verschmelzen, entsteht Helium.',
+      },
+      fusionRepulsion: {
+        prompt: 'Warum ist Fusion so schwer zu zünden?',
+        options: {
+          a: 'Die positiven Kerne stoßen sich gegenseitig ab',
+          b: 'Wasserstoff ist sehr selten',
+          c: 'Die Kerne sind zu schwer',
+        },
+        explanation: 'Gleiche Ladungen stoßen sich ab. Die Kerne müssen sehr schnell sein, um diese Abstoßung zu überwinden.',
+      },
+      miniSunEnergy: {
+        prompt: 'Woher hat unsere Sonne ihre Energie?',
+        options: {
+          a: 'Sie verbrennt Kohle',
+          b: 'Kernfusion',
+          c: 'Eine riesige Batterie',
+        },
+        explanation: 'In der Sonne verschmelzen Wasserstoffkerne zu Helium. Das macht sie so hell und heiß.',
+      },
+      miniSunGravity: {
+        prompt: 'Was drückt das Gas in einem Stern so fest zusammen?',
+        options: {
+          a: 'Die Schwerkraft',
+          b: 'Der Wind',
+          c: 'Magnete',
+        },
+        explanation: 'Die riesige Masse des Sterns drückt durch die Schwerkraft alles zusammen. Dadurch wird es innen heiß genug für Fusion.',
+      },
+      miniSunStarsMatch: {
+        prompt: 'Welcher Stern ist wie? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'Roter Zwerg',
+            match: 'klein und kühl',
+          },
+          b: {
+            item: 'Blauer Riese',
+            match: 'groß und sehr heiß',
+          },
+          c: {
+            item: 'Schwarzes Loch',
+            match: 'nicht mal Licht entkommt',
+          },
+        },
+        explanation: 'Je mehr Masse ein Stern hat, desto heißer brennt er. Sehr schwere Sterne können am Ende zu Schwarzen Löchern werden.',
+      },
+      miniSunDeath: {
+        prompt: 'Was kann am Ende eines sehr schweren Sterns passieren?',
+        options: {
+          a: 'Eine Supernova',
+          b: 'Er wird zu einem Planeten',
+          c: 'Er friert ein',
+        },
+        explanation: 'Wenn ein schwerer Stern keinen Brennstoff mehr hat, stürzt er zusammen und explodiert als Supernova.',
+      },
+      chainKMatch: {
+        prompt: 'Was passiert bei welchem k? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'k kleiner als 1',
+            match: 'Die Reaktion erlischt',
+          },
+          b: {
+            item: 'k gleich 1',
+            match: 'Die Reaktion bleibt gleich',
+          },
+          c: {
+            item: 'k größer als 1',
+            match: 'Die Reaktion wächst',
+          },
+        },
+        explanation: 'k sagt, wie viele neue Spaltungen jede Spaltung auslöst. Bei genau 1 bleibt alles im Gleichgewicht.',
+      },
+      chainReactorK: {
+        prompt: 'Welches k braucht ein Kraftwerk im normalen Betrieb?',
+        options: {
+          a: 'Genau 1',
+          b: 'Viel größer als 1',
+          c: 'Null',
+        },
+        explanation: 'Ein Kraftwerk soll gleichmäßig Energie liefern. Dafür muss die Kettenreaktion genau kritisch sein.',
+      },
+      chainDoubling: {
+        prompt: 'Aus 1 Neutron werden 2, dann 4, dann 8. Wie nennt man das?',
+        options: {
+          a: 'Exponentielles Wachstum',
+          b: 'Stillstand',
+          c: 'Abkühlung',
+        },
+        explanation: 'Wenn sich die Zahl immer wieder verdoppelt, wächst sie exponentiell und sehr schnell riesig.',
+      },
+      chainCriticalMass: {
+        prompt: 'Wo können am meisten Neutronen entkommen?',
+        options: {
+          a: 'Dünne Scheibe',
+          b: 'Dicke Kugel',
+        },
+        explanation: 'Aus einer dünnen Scheibe fliegen viele Neutronen einfach hinaus. In einer Kugel treffen mehr auf einen Kern.',
+      },
+      chainHalfLife: {
+        prompt: 'Was bedeutet Halbwertszeit?',
+        options: {
+          a: 'Nach dieser Zeit ist die Hälfte der Kerne zerfallen',
+          b: 'Nach dieser Zeit ist alles zerfallen',
+          c: 'Die Zeit bis zur halben Temperatur',
+        },
+        explanation: 'Nach einer Halbwertszeit ist die Hälfte übrig, nach zwei Halbwertszeiten noch ein Viertel.',
+      },
+      radiationShieldingMatch: {
+        prompt: 'Was hält welche Strahlung auf? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'Alpha',
+            match: 'Ein Blatt Papier',
+          },
+          b: {
+            item: 'Beta',
+            match: 'Eine Aluminiumplatte',
+          },
+          c: {
+            item: 'Gamma',
+            match: 'Dickes Blei',
+          },
+        },
+        explanation: 'Alpha-Teilchen sind groß und bleiben schnell stecken. Gammastrahlung dringt am tiefsten ein.',
+      },
+      radiationAlpha: {
+        prompt: 'Was stoppt Alpha-Strahlung schon?',
+        options: {
+          a: 'Papier',
+          b: 'Nur eine dicke Mauer',
+          c: 'Gar nichts',
+        },
+        explanation: 'Alpha-Strahlung besteht aus schweren Heliumkernen. Schon ein Blatt Papier oder die Haut hält sie auf.',
+      },
+      radiationGamma: {
+        prompt: 'Was ist Gammastrahlung?',
+        options: {
+          a: 'Sehr energiereiches Licht, das man nicht sehen kann',
+          b: 'Ein kleiner Heliumkern',
+          c: 'Warme Luft',
+        },
+        explanation: 'Gammastrahlung ist wie Licht, nur mit viel mehr Energie. Sie dringt tief in Materie ein.',
+      },
+      radiationDna: {
+        prompt: 'Warum ist Strahlung für Lebewesen gefährlich?',
+        options: {
+          a: 'Sie kann die DNA in den Zellen beschädigen',
+          b: 'Sie macht die Haut blau',
+          c: 'Sie ist gar nicht gefährlich',
+        },
+        explanation: 'Strahlung kann die Erbinformation in den Zellen zerbrechen. Darum schützt man sich mit Abstand und Abschirmung.',
+      },
+      radiationNeutron: {
+        prompt: 'Was bremst Neutronenstrahlung besonders gut?',
+        options: {
+          a: 'Wasser',
+          b: 'Papier',
+          c: 'Luft',
+        },
+        explanation: 'Neutronen stoßen an den leichten Wasserstoffkernen im Wasser und werden dabei langsam.',
+      },
+      radarEcho: {
+        prompt: 'Wie findet ein Radar ein Flugzeug?',
+        options: {
+          a: 'Es schickt Funkwellen los und fängt das Echo auf',
+          b: 'Es hört das Motorgeräusch',
+          c: 'Es riecht den Treibstoff',
+        },
+        explanation: 'Das Radar sendet Wellen aus. Treffen sie auf ein Flugzeug, kommt ein Echo zurück.',
+      },
+      radarMetal: {
+        prompt: 'Welcher Jet wirft das stärkste Echo zurück?',
+        options: {
+          a: 'Metall-Jet',
+          b: 'Kohlenstoff-Jet',
+          c: 'Stealth-Jet',
+        },
+        explanation: 'Metall reflektiert Radarwellen wie ein Spiegel das Licht. Darum sieht das Radar den Metall-Jet am besten.',
+      },
+      radarMaterialsMatch: {
+        prompt: 'Wie reagiert welches Material auf Radar? Ordne zu!',
+        pairs: {
+          a: {
+            item: 'Metall',
+            match: 'wirft die Wellen zurück',
+          },
+          b: {
+            item: 'Kohlenstoff',
+            match: 'schluckt einen Teil',
+          },
+          c: {
+            item: 'Stealth-Beschichtung',
+            match: 'schluckt fast alles',
+          },
+        },
+        explanation: 'Je weniger ein Material reflektiert, desto schwächer ist das Echo und desto schwerer wird der Jet entdeckt.',
+      },
+      radarShape: {
+        prompt: 'Warum haben Stealth-Flugzeuge schräge, kantige Flächen?',
+        options: {
+          a: 'Damit die Wellen in andere Richtungen abprallen',
+          b: 'Weil es schöner aussieht',
+          c: 'Damit sie schneller fliegen',
+        },
+        explanation: 'Schräge Flächen lenken die Radarwellen zur Seite. So kommt kaum ein Echo beim Radar an.',
+      },
+      radarSpeed: {
+        prompt: 'Wie schnell sind Radarwellen unterwegs?',
+        options: {
+          a: 'So schnell wie Licht',
+          b: 'So schnell wie ein Auto',
+          c: 'So schnell wie Schall',
+        },
+        explanation: 'Radarwellen sind elektromagnetische Wellen wie Licht. Sie fliegen fast 300.000 Kilometer pro Sekunde.',
+      },
+    },
+  },
+  saves: {
+    title: 'Spielstände',
+    autosaveHint: 'Dein Fortschritt wird automatisch im Spielstand „{slot}“ gespeichert.',
+    noSlots: 'Noch keine Spielstände vorhanden.',
+    active: '(aktiv)',
+    load: 'Laden',
+    delete: 'Löschen',
+    newSlotPlaceholder: 'Name für neuen Spielstand',
+    save: 'Speichern',
+    newGame: 'Neues Spiel beginnen',
+    importSlot: 'Import {date}',
+    saved: 'Spielstand gespeichert',
+    savedDescription: 'Dein Fortschritt wurde als „{slot}“ gespeichert.',
+    saveFailed: 'Speichern fehlgeschlagen',
+    saveFailedDescription: 'Der Browser erlaubt gerade keinen Zugriff auf den Speicher.',
+    imported: 'Spielstand importiert',
+    importedDescription: 'Der Fortschritt wurde als „{slot}“ geladen.',
+    transfer: {
+      title: 'Exportieren/Importieren',
+      description: 'Speichere deinen Fortschritt als Datei und lade ihn auf einem anderen Gerät wieder hinein – mit Materialien, Wissen, Trophäen und Radar-Rekorden.',
+      export: 'Spielstand „{slot}“ exportieren',
+      import: 'Spielstand-Datei importieren',
+      importFailed: 'Import fehlgeschlagen',
+    },
+    errors: {
+      notASave: 'Das ist kein Spielstand des Atom-Abenteuers.',
+      newerSave: 'Dieser Spielstand stammt aus einer neueren Version des Spiels. Bitte lade die Seite neu.',
+      unsupportedVersion: 'Spielstände der Version {version} werden nicht mehr unterstützt.',
+      corruptSave: 'Der Spielstand ist beschädigt ({details}).',
+      invalidJson: 'Die Datei ist keine gültige JSON-Datei.',
+      notASaveFile: 'Diese Datei ist kein Spielstand des Atom-Abenteuers.',
+      newerFile: 'Diese Datei wurde mit einer neueren Version des Spiels erstellt. Bitte aktualisiere das Spiel auf diesem Gerät.',
+      corruptFile: 'Die Datei ist beschädigt ({details}).',
+      unreadableFile: 'Die Datei konnte nicht gelesen werden.',
+    },
+  },
+  game: {
+    title: 'Atom-Abenteuer',
+    help: {
+      title: 'Wie man spielt',
+      steps: {
+        selectElement: '1. Wähle ein Element aus den Knöpfen unten.',
+        chooseSpeed: '2. Wähle zwischen schnellen und langsamen Neutronen.',
+        placeNeutron: '3. Klicke irgendwo im Spielfeld, um ein Neutron zu platzieren.',
+        dragNeutron: '4. Ziehe das Neutron auf den Atomkern, um eine Reaktion auszulösen.',
+        watch: '5. Sieh zu, was passiert! Verschiedene Elemente reagieren unterschiedlich auf schnelle und langsame Neutronen.',
+        breeding: '6. Uran-238 absorbiert langsame Neutronen und startet eine Umwandlungskette zu Plutonium.',
+        enrichment: '7. Nutze das Anreicherungslabor, um Uran-235 anzureichern.',
+        bomb: '8. Mit ausreichend Material kannst du eine Atombombe bauen.',
+        reactor: '9. Im Reaktorlabor kannst du einen Kernreaktor bauen und betreiben.',
+        fusion: '10. Experimentiere mit Fusion, um zu verstehen, wie Sterne funktionieren.',
+        miniSun: '11. Baue deine eigene Mini-Sonne und beobachte, wie Kernfusion in Sternen stattfindet.',
+        energy: '12. Versuche, die Energieanzeige zu füllen!',
+      },
+    },
+    energy: 'Energie: {energy}/{max}',
+    neutrons: 'Neutronen:',
+    material: 'Material:',
+    tabs: {
+      fission: 'Kernspaltung',
+      enrichment: 'Anreicherung',
+      bomb: 'Atombombe',
+      reactor: 'Reaktor',
+      fusion: 'Fusion',
+      miniSun: 'Mini-Sonne',
+      chainReaction: 'Kettenreaktion',
+      radiation: 'Strahlung',
+    },
+    materials: {
+      title: 'Materialübersicht:',
+      enrichedUranium: 'Angereichertes Uran:',
+      plutonium239: 'Plutonium-239:',
+      uranium233: 'Uran-233:',
+    },
+    elementExplanations: {
+      uranium235: 'Uran-235 ist ein Isotop, das gut für Kernspaltung geeignet ist. Es reagiert auf schnelle und langsame Neutronen, wobei langsame etwas effektiver sind.',
+      uranium238Slow: 'Uran-238 absorbiert langsame Neutronen und wandelt sich in Uran-239 um, das über Neptunium-239 zu Plutonium-239 zerfällt.',
+      uranium238Fast: 'Uran-238 reagiert kaum auf schnelle Neutronen. Versuche es mit langsamen Neutronen!',
+      plutonium239: 'Plutonium-239 ist ein künstliches Element, das sehr gut spaltbar ist. Es reagiert gut auf schnelle und langsame Neutronen und setzt beim Spalten viel Energie frei.',
+      thorium232Slow: 'Thorium-232 kann mit langsamen Neutronen Thorium-233 bilden, das über Protactinium-233 zu Uran-233 zerfällt.',
+      thorium232Fast: 'Thorium-232 reagiert kaum auf schnelle Neutronen. Verwende langsame Neutronen für bessere Ergebnisse.',
+      none: 'Wähle ein Element aus, dann erkläre ich dir mehr darüber!',
+    },
+    explained: {
+      enrichment: {
+        title: 'Anreicherung erklärt:',
+        text: 'Uran kommt in der Natur hauptsächlich als U-238 (99,3%) vor, mit nur 0,7% des spaltbaren U-235. Für Kernwaffen wird hochangereichertes Uran mit über 90% U-235 benötigt. Zentrifugen trennen die leicht unterschiedlich schweren Isotope, indem sie bei extrem hohen Geschwindigkeiten rotieren.',
+      },
+      bomb: {
+        title: 'Atombomben erklärt:',
+        text: 'Atombomben setzen enorme Energiemengen durch eine sich selbst erhaltende Kettenreaktion frei. Sie benötigen eine kritische Masse an spaltbarem Material wie Uran-235 oder Plutonium-239. Bei einer Uran-Bombe werden zwei unterkritische Massen zusammengeschossen (Kanonendesign), während Plutoniumbomben eine präzise Implosionswelle verwenden, um das Material zu komprimieren und die Kettenreaktion auszulösen.',
+      },
+      reactor: {
+        title: 'Kernreaktoren erklärt:',
+        text: 'Kernreaktoren nutzen kontrollierte Kernspaltung, um Wärme zu erzeugen und Wasser zu erhitzen, das Turbinen antreibt und Elektrizität erzeugt. Die Reaktion wird durch Steuerstäbe reguliert, die Neutronen absorbieren. Verschiedene Reaktortypen nutzen unterschiedliche Brennstoffe und Kühlmittel, haben aber alle das Ziel, eine stabile, kontrollierte Kettenreaktion aufrechtzuerhalten.',
+      },
+      fusion: {
+        title: 'Kernfusion erklärt:',
+        text: 'Bei der Kernfusion verschmelzen leichte Atomkerne wie Wasserstoff zu schwereren Kernen wie Helium und setzen dabei enorme Energiemengen frei. Dieser Prozess treibt Sterne an und könnte eine nahezu unerschöpfliche, saubere Energiequelle darstellen. Auf der Erde sind extrem hohe Temperaturen (Millionen Grad) und starke Magnetfelder nötig, um die elektrostatische Abstoßung zwischen den Kernen zu überwinden.',
+      },
+      chainReaction: {
+        title: 'Kettenreaktionen und exponentielle Prozesse erklärt:',
+        text: 'Eine Kettenreaktion entsteht, wenn jede Kernspaltung durchschnittlich mehr als ein Neutron erzeugt, das weitere Spaltungen auslöst. Der Multiplikationsfaktor k beschreibt dieses Verhältnis: Bei k < 1 stirbt die Reaktion ab, bei k = 1 bleibt sie stabil und bei k > 1 wächst sie exponentiell an. Ähnliche exponentielle Muster finden wir in vielen Bereichen, von der Bevölkerungsentwicklung bis zum Zinseszins.',
+      },
+      radiation: {
+        title: 'Strahlung und Materie erklärt:',
+        text: 'Ionisierende Strahlung (Alpha, Beta, Gamma und Neutronen) kann Atome ionisieren, chemische Bindungen aufbrechen und biologisches Gewebe schädigen. In der Medizin wird sie zur Krebsbehandlung eingesetzt, in der Industrie zur Materialprüfung. Die Halbwertszeit beschreibt, wie lange radioaktive Stoffe aktiv bleiben, und reicht von Sekundenbruchteilen bei kurzlebigen Isotopen bis zu Milliarden von Jahren.',
+      },
+    },
+    advancedLabs: {
+      show: 'Erweiterte Labore anzeigen',
+      hide: 'Erweiterte Labore ausblenden',
+      title: 'Fortgeschrittene Kernphysik:',
+      intro: 'Wähle auf den Tabs oben zwischen verschiedenen Laboren, um tiefer in die Kernphysik einzutauchen:',
+      reactor: 'Baue und steuere verschiedene Reaktortypen im Reaktor-Labor',
+      fusion: 'Entdecke Kernfusion und wie Sterne funktionieren im Fusions-Labor',
+      miniSun: 'Erschaffe deine eigene Mini-Sonne im Mini-Sonnen-Labor',
+      chainReaction: 'Verstehe die Mathematik hinter Kettenreaktionen im Simulator',
+      radiation: 'Erforsche die Auswirkungen von Strahlung auf verschiedene Materialien',
+    },
+    plutoniumCreated: {
+      title: 'Plutonium erzeugt!',
+      description: '{amount} kg Plutonium-239 durch Neutroneneinfang und Zerfall.',
+    },
+    enrichedUranium: {
+      title: 'Angereichertes Uran erhalten',
+      description: '{amount} kg Uran mit {enrichment} % U-235 wurde hinzugefügt.',
+    },
+    detonation: {
+      title: 'Detonation abgeschlossen',
+      description: '{material}-{design}-Bombe mit {yield} Kilotonnen Sprengkraft.',
+      materials: {
+        uranium: 'Uran',
+        plutonium: 'Plutonium',
+      },
+      designs: {
+        gun: 'Kanonen',
+        implosion: 'Implosions',
+      },
+    },
+    energyBar: 'Energie: {value} MeV',
+    explosion: {
+      title: 'Nukleare Detonation',
+      yield: 'Sprengkraft: {value} Kilotonnen',
+    },
+  },
+  radarGame: {
+    tabs: {
+      intro: '1. Einführung',
+      selection: '2. Jet wählen',
+      field: '3. Radar-Rennen',
+      result: '4. Ergebnis',
+    },
+    jetSelected: {
+      title: 'Jet ausgewählt!',
+      description: 'Du hast einen {jet} ausgewählt.',
+    },
+    result: {
+      title: 'Radar-Abenteuer abgeschlossen!',
+      intro: 'Toll gemacht! Du hast gelernt, wie Radar funktioniert und wie verschiedene Materialien Radar-Wellen reflektieren oder absorbieren.',
+      heading: 'Dein Ergebnis',
+      points: '{points} Punkte',
+      newRecord: 'Neuer Rekord für dieses Flugzeug!',
+      record: 'Dein Rekord mit diesem Flugzeug: {points} Punkte',
+      yourJet: 'Dein Flugzeug:',
+      learned: 'Das hast du gelernt:',
+      playAgain: 'Nochmal spielen',
+      ranks: {
+        master: {
+          title: 'Stealth-Meister',
+          description: 'Du bist ein Experte in Radar-Technologie! Du weißt genau, wie man sich vor Radar versteckt.',
+        },
+        pro: {
+          title: 'Radar-Profi',
+          description: 'Du verstehst sehr gut, wie Radar funktioniert und wie man sich tarnt!',
+        },
+        advanced: {
+          title: 'Fortgeschrittener Pilot',
+          description: 'Du hast viel über Radar und Materialien gelernt!',
+        },
+        explorer: {
+          title: 'Radar-Entdecker',
+          description: 'Du hast die Grundlagen von Radar-Technologie kennengelernt!',
+        },
+      },
+      tips: {
+        metal: 'Metallflugzeuge sind sehr schnell, aber reflektieren Radar stark. Stealth-Materialien könnten dir beim nächsten Mal helfen, unsichtbarer zu sein!',
+        carbon: 'Kohlenstoff-Jets bieten eine gute Balance zwischen Geschwindigkeit und Radar-Absorption. Mit etwas Übung wirst du noch besser werden!',
+        stealth: 'Stealth-Jets sind hervorragend darin, Radar zu absorbieren. Du hast eine gute Wahl getroffen!',
+      },
+      lessons: {
+        waves: 'Radar sendet unsichtbare Wellen aus, die von Objekten zurückgeworfen werden',
+        metal: 'Metall reflektiert Radar sehr stark - wie ein Spiegel für Radar-Wellen',
+        carbon: 'Kohlenstoff-Materialien absorbieren etwas Radar und machen Objekte schwerer zu erkennen',
+        stealth: 'Spezielle Stealth-Materialien absorbieren fast alle Radar-Wellen',
+        hiding: 'Flugzeuge nutzen verschiedene Materialien, um sich vor Radar zu verstecken',
+      },
+    },
+    field: {
+      ready: 'Bereit für das Radar-Rennen?',
+      intro: 'Steuere deinen Jet durch das Radar-Feld und versuche, unentdeckt zum Ziel zu gelangen! Benutze die Pfeiltasten oder klicke/tippe auf dem Spielfeld, wohin dein Jet fliegen soll.',
+      tipsFor: 'Tipps für deinen {jet}:',
+      tips: {
+        metal: {
+          first: 'Dein Jet ist sehr schnell, aber leicht zu erkennen',
+          second: 'Versuche, dich in Stealth-Gebieten (dunkelblau) zu verstecken',
+          third: 'Meide Metall-Objekte, sie machen dich noch sichtbarer!',
+        },
+        carbon: {
+          first: 'Dein Jet ist ausgewogen in Geschwindigkeit und Stealth',
+          second: 'Kohlenstoff-Gebiete (grau) verbessern deine Tarnung',
+          third: 'Nutze Stealth-Gebiete für maximale Tarnung',
+        },
+        stealth: {
+          first: 'Dein Jet ist langsamer, aber deutlich schwerer zu erkennen',
+          second: 'In Stealth-Gebieten bist du fast unsichtbar',
+          third: 'Selbst in normalen Gebieten bist du schwer zu entdecken',
+        },
+      },
+      start: 'Starte das Rennen!',
+      visibility: 'Radar-Sichtbarkeit:',
+      detected: 'Erfasst!',
+      hidden: 'Versteckt',
+      speed: 'Geschwindigkeit',
+      time: 'Zeit:',
+      points: 'Punkte:',
+      target: 'ZIEL',
+      clickHint: 'Klicke auf dem Spielfeld, wohin dein Jet fliegen soll!',
+      keysHint: 'Oder drücke die Pfeiltasten ↑ → ↓ ← für Richtung und Leertaste für Extra-Schub.',
+      controls: 'STEUERUNG:',
+      controlsHint: 'Pfeiltasten für Richtung, Leertaste für Extra-Schub, oder einfach klicken/tippen!',
+      toasts: {
+        start: {
+          title: "Los geht's!",
+          description: 'Steuere deinen Jet mit den Pfeiltasten oder durch Klicken/Tippen.',
+        },
+        faster: {
+          title: 'Schneller!',
+          description: 'Die Radargeschwindigkeit erhöht sich!',
+        },
+        won: {
+          title: 'Ziel erreicht!',
+          description: 'Du hast das Rennen gewonnen! Zeitbonus: +{bonus} Punkte',
+        },
+        lost: {
+          title: 'Vom Radar entdeckt!',
+          description: 'Dein Jet wurde vom Radar erfasst!',
+        },
+      },
+    },
+  },
+  gameControls: {
+    fireNeutron: 'Neutron abschießen',
+    slowNeutrons: 'Langsame Neutronen',
+    slowNeutronsHint: 'Für U-238 Absorption',
+    fastNeutrons: 'Schnelle Neutronen',
+    fastNeutronsHint: 'Besser für Spaltung',
+    tip: 'Tipp: Uran-238 und Thorium-232 absorbieren nur langsame Neutronen und werden zu Plutonium-239 bzw. Uran-233, während Plutonium-239 auf beide Arten reagiert.',
+  },
+  nuclides: {
+    uranium235: {
+      description: 'Gut spaltbar',
+    },
+    uranium238: {
+      description: 'Absorbiert langsame Neutronen',
+    },
+    plutonium239: {
+      description: 'Sehr gut spaltbar',
+    },
+    thorium232: {
+      description: 'Brutelement',
+    },
+  },
+  enrichmentLab: {
+    title: 'Uran-235 Anreicherung',
+    cascade: 'Zentrifugen-Kaskade',
+    naturalUranium: 'Natururan',
+    moreCentrifuges: '+{count} weitere Zentrifugen',
+    valuable: '⭐ Wertvoll ⭐',
+    waste: 'Abfall',
+    enrichedUranium: 'Angereichertes Uran',
+    depletedUranium: 'Abgereichertes Uran',
+    centrifugeCount: 'Anzahl der Zentrifugen: {count}',
+    centrifugeSpeed: 'Zentrifugengeschwindigkeit: {speed} %',
+    speedWarning: 'Hohe Geschwindigkeit kann zu Instabilität führen',
+    feedAmount: 'Ausgangsmaterial: {amount} kg',
+    progress: 'Fortschritt:',
+    enrichmentLevel: 'Anreicherungsgrad:',
+    weaponsGrade: 'Waffenfähiges Material (≥90 %)',
+    reactorGrade: 'Geeignet für Kernreaktoren (3–20 %)',
+    instability: 'Instabilität:',
+    instabilityHigh: 'Achtung: Instabilität erhöht!',
+    instabilityVeryHigh: 'Achtung: Instabilität sehr hoch!',
+    start: 'Starten',
+    stop: 'Stoppen',
+    started: {
+      title: 'Anreicherungsprozess gestartet',
+      description: '{count} Zentrifugen mit {speed} % Geschwindigkeit.',
+    },
+    finished: {
+      title: 'Anreicherungsprozess abgeschlossen',
+      description: '{amount} kg Uran mit {enrichment} % U-235 Anreicherung erzeugt.',
+    },
+    failure: {
+      title: 'Zentrifugen-Fehler!',
+      description: 'Die hohe Geschwindigkeit hat zu einer Instabilität geführt. Material ging verloren.',
+    },
+  },
+  bombLab: {
+    title: 'Atomwaffen-Labor',
+    armedBadge: 'SCHARF',
+    material: 'Materialauswahl:',
+    uranium: 'Uran-235',
+    uraniumStock: '({amount} kg, {enrichment} % angereichert)',
+    plutonium: 'Plutonium-239',
+    plutoniumStock: '({amount} kg)',
+    design: 'Bombendesign:',
+    gun: 'Kanonendesign',
+    gunHint: '(nur für Uran-235)',
+    implosion: 'Implosionsdesign',
+    implosionHint: '(effizienter)',
+    visuals: {
+      gun: 'Kanonen-Design (Little Boy)',
+      implosion: 'Implosions-Design (Fat Man)',
+      plutonium: 'Plutonium-Implosions-Design',
+    },
+    criticalMass: 'Kritische Masse benötigt:',
+    availableEnergy: 'Verfügbare Energie:',
+    estimatedYield: 'Geschätzte Sprengkraft:',
+    kilotons: 'Kilotonnen TNT-Äquivalent',
+    yieldLow: 'Geringe Sprengkraft',
+    yieldMedium: 'Mittlere Sprengkraft',
+    yieldHigh: 'Hohe Sprengkraft',
+    cannotBuild: 'Konstruktion nicht möglich:',
+    reasons: {
+      enrichment: 'Uran-Anreicherung zu niedrig ({enrichment} %). Mindestens 90 % benötigt.',
+      uranium: 'Nicht genug U-235 ({amount} kg). {required} kg benötigt.',
+      plutonium: 'Nicht genug Pu-239 ({amount} kg). {required} kg benötigt.',
+      energy: 'Nicht genug Energie produziert. Mindestens 500 MeV benötigt.',
+    },
+    fissionRunning: 'Kernspaltung läuft:',
+    phases: {
+      initial: 'Initiale Spaltung',
+      criticality: 'Kritikalität',
+      explosion: 'Explosion',
+    },
+    arm: 'Scharf schalten',
+    disarm: 'Entschärfen',
+    detonate: 'Detonieren',
+    armed: {
+      title: 'Atomwaffe scharf geschaltet',
+      description: '{material}-Bombe mit {design}-Design.',
+    },
+  },
+  radiationLab: {
+    title: 'Strahlungslabor',
+    active: 'Strahlung aktiv',
+    effectsVisible: 'Effekte sichtbar',
+    stop: 'Bestrahlung stoppen',
+    irradiate: 'Mit {symbol} bestrahlen',
+    parameters: 'Strahlungsparameter',
+    type: 'Strahlungsart',
+    dose: 'Strahlungsdosis',
+    low: 'Gering',
+    medium: 'Mittel',
+    high: 'Hoch',
+    materialProperties: 'Materialeigenschaften',
+    resistance: 'Strahlungsresistenz',
+    cumulativeDose: 'Kumulative Dosis',
+    damage: 'Schadensgrad',
+    visibleEffect: 'Sichtbare Auswirkung',
+    none: 'Keine',
+    radiation: {
+      alpha: {
+        name: 'Alpha-Strahlung',
+        description: 'Heliumkerne (α) - Geringe Reichweite, hohe Ionisationskraft',
+      },
+      beta: {
+        name: 'Beta-Strahlung',
+        description: 'Elektronen (β) - Mittlere Reichweite, mittlere Ionisationskraft',
+      },
+      gamma: {
+        name: 'Gamma-Strahlung',
+        description: 'Energiereiche Photonen (γ) - Hohe Reichweite, geringe Ionisationskraft',
+      },
+      neutron: {
+        name: 'Neutronen',
+        description: 'Neutronen (n) - Hohe Reichweite, können Kerne umwandeln',
+      },
+    },
+    materials: {
+      dna: {
+        tab: 'DNA',
+        structure: 'DNA-Strang',
+        effect: 'Strangbruch',
+        description: 'DNA ist sehr empfindlich gegenüber Strahlung, die Mutation und Schäden verursachen kann.',
+        explanationTitle: 'DNA und Strahlung',
+        explanation: 'DNA ist besonders empfindlich gegenüber ionisierender Strahlung. Alpha-Strahlung (α) kann bei direktem Kontakt schwere Schäden verursachen, während Gamma-Strahlung (γ) tiefer eindringt. Strahlenschäden an der DNA können zu Einzel- und Doppelstrangbrüchen führen, die wiederum zu Mutationen oder Zelltod führen können.',
+      },
+      metal: {
+        tab: 'Metall',
+        structure: 'Metallgitter',
+        effect: 'Materialermüdung',
+        description: 'Metalle widerstehen Strahlung gut, können aber bei hoher Dosis spröde werden.',
+        explanationTitle: 'Metalle und Strahlung',
+        explanation: 'Metalle sind relativ strahlungsresistent, besonders gegenüber Alpha- (α) und Beta-Strahlung (β). Bei hohen Dosen können jedoch Elektronen aus der Metallgitterstruktur freigesetzt werden, was die mechanischen Eigenschaften des Metalls verändern kann. Langfristige Bestrahlung führt zu Versprödung und Materialermüdung.',
+      },
+      plastic: {
+        tab: 'Kunststoff',
+        structure: 'Polymer-Ketten',
+        effect: 'Versprödung',
+        description: 'Kunststoffe können durch Strahlung brüchig werden und ihre Struktur verlieren.',
+        explanationTitle: 'Kunststoffe und Strahlung',
+        explanation: 'Kunststoffe sind anfällig für Strahlungsschäden, da energiereiche Strahlung Polymerketten brechen kann. Dies führt zu Versprödung, Verfärbung und Strukturverlust. Gamma-Strahlung (γ) wird oft gezielt eingesetzt, um Kunststoffe zu sterilisieren oder ihre Eigenschaften zu modifizieren.',
+      },
+      crystal: {
+        tab: 'Kristall',
+        structure: 'Kristallstruktur',
+        effect: 'Farbzentren',
+        description: 'Kristalle können Farbzentren bilden und durch Strahlung zum Leuchten gebracht werden.',
+        explanationTitle: 'Kristalle und Strahlung',
+        explanation: 'In Kristallen kann Strahlung Farbzentren erzeugen, indem Elektronen in Gitterfehlstellen eingefangen werden. Diese Zentren absorbieren Licht und können zum Leuchten angeregt werden. Dieses Phänomen wird in der Dosimetrie genutzt, um Strahlungsdosen zu messen. Es erklärt auch, warum manche Edelsteine ihre Farbe durch natürliche Bestrahlung über Millionen von Jahren erhalten haben.',
+      },
+    },
+  },
+  elements: {
+    n: 'Neutron',
+    H: 'Wasserstoff',
+    He: 'Helium',
+    Li: 'Lithium',
+    Be: 'Beryllium',
+    B: 'Bor',
+    C: 'Kohlenstoff',
+    N: 'Stickstoff',
+    O: 'Sauerstoff',
+    F: 'Fluor',
+    Ne: 'Neon',
+    Na: 'Natrium',
+    Mg: 'Magnesium',
+    Al: 'Aluminium',
+    Si: 'Silicium',
+    P: 'Phosphor',
+    S: 'Schwefel',
+    Cl: 'Chlor',
+    Ar: 'Argon',
+    K: 'Kalium',
+    Ca: 'Calcium',
+    Sc: 'Scandium',
+    Ti: 'Titan',
+    V: 'Vanadium',
+    Cr: 'Chrom',
+    Mn: 'Mangan',
+    Fe: 'Eisen',
+    Co: 'Cobalt',
+    Ni: 'Nickel',
+    Cu: 'Kupfer',
+    Zn: 'Zink',
+    Ga: 'Gallium',
+    Ge: 'Germanium',
+    As: 'Arsen',
+    Se: 'Selen',
+    Br: 'Brom',
+    Kr: 'Krypton',
+    Rb: 'Rubidium',
+    Sr: 'Strontium',
+    Y: 'Yttrium',
+    Zr: 'Zirconium',
+    Nb: 'Niob',
+    Mo: 'Molybdän',
+    Tc: 'Technetium',
+    Ru: 'Ruthenium',
+    Rh: 'Rhodium',
+    Pd: 'Palladium',
+    Ag: 'Silber',
+    Cd: 'Cadmium',
+    In: 'Indium',
+    Sn: 'Zinn',
+    Sb: 'Antimon',
+    Te: 'Tellur',
+    I: 'Iod',
+    Xe: 'Xenon',
+    Cs: 'Caesium',
+    Ba: 'Barium',
+    La: 'Lanthan',
+    Ce: 'Cer',
+    Pr: 'Praseodym',
+    Nd: 'Neodym',
+    Pm: 'Promethium',
+    Sm: 'Samarium',
+    Eu: 'Europium',
+    Gd: 'Gadolinium',
+    Tb: 'Terbium',
+    Dy: 'Dysprosium',
+    Ho: 'Holmium',
+    Er: 'Erbium',
+    Tm: 'Thulium',
+    Yb: 'Ytterbium',
+    Lu: 'Lutetium',
+    Hf: 'Hafnium',
+    Ta: 'Tantal',
+    W: 'Wolfram',
+    Re: 'Rhenium',
+    Os: 'Osmium',
+    Ir: 'Iridium',
+    Pt: 'Platin',
+    Au: 'Gold',
+    Hg: 'Quecksilber',
+    Tl: 'Thallium',
+    Pb: 'Blei',
+    Bi: 'Bismut',
+    Po: 'Polonium',
+    At: 'Astat',
+    Rn: 'Radon',
+    Fr: 'Francium',
+    Ra: 'Radium',
+    Ac: 'Actinium',
+    Th: 'Thorium',
+    Pa: 'Protactinium',
+    U: 'Uran',
+    Np: 'Neptunium',
+    Pu: 'Plutonium',
+  },
+};
+
+export type Messages = typeof de;
@@ -0,0 +1,2316 @@
+import type { MessageCatalog } from '@/lib/i18n';
+
+export const en: MessageCatalog = {
+  common: {
+    next: 'Next',
+    letsGo: "Let's go!",
+    backToMenu: 'Back to the main menu',
+    language: 'Language',
+    reset: 'Reset',
+  },
+  units: {
+    celsius: '{value} °C',
+    millionCelsius: '{value} million °C',
+    minutes: '{value} min',
+    hours: '{value} h',
+    days: '{value} d',
+    years: '{value} y',
+    millionYears: '{value} million y',
+    billionYears: '{value} billion y',
+  },
+  index: {
+    title: 'Atom-Splode Adventure',
+    intro: 'Discover the exciting world of nuclear physics! Experiment with different elements and see what happens when you shoot neutrons at atomic nuclei.',
+    playRadar: 'Play the radar adventure',
+    trophies: 'Trophy cabinet',
+    footer: 'An interactive learning game about nuclear physics for children aged 5 and up',
+    copyright: '© {year} - All rights reserved',
+    welcome: {
+      title: 'Welcome back!',
+      description: 'Do you want to carry on where you left off? Your save "{slot}" is waiting for you.',
+      descriptionWithDate: 'Do you want to carry on where you left off? Your save "{slot}" from {date} is waiting for you.',
+      newGame: 'New game',
+      continue: 'Continue',
+    },
+  },
+  radarAdventure: {
+    title: 'Radar Adventure: The Great Jet Race!',
+    intro: 'Explore the exciting world of radar technology! Pick the right jet and use different materials to become invisible to the radar.',
+    footer: 'An interactive learning game about radar and materials for children aged 5 and up',
+  },
+  radarIntro: {
+    hello: {
+      title: "Hello! I'm Rada, the radar robot!",
+      content: "Today I'll explain how radar works. It's super exciting!",
+    },
+    whatIsRadar: {
+      title: 'What is radar, anyway?',
+      content: 'Radar is like invisible light that a radar station sends out and that hits objects. When the radar light hits something, part of it comes back to the station - and that is how we know something is there!',
+    },
+    materials: {
+      title: 'Materials and radar',
+      content: 'Different materials behave differently when radar hits them. Metal reflects radar very strongly - like a mirror! Carbon and special stealth materials can absorb radar and make a plane almost invisible to it.',
+    },
+    adventure: {
+      title: 'Our adventure',
+      content: 'In the radar adventure you can pick different jets and fly them through a radar field. Your goal is to stay invisible to the enemy radar! Are you ready for the adventure?',
+    },
+    reflectsStrongly: 'Reflects radar strongly',
+    absorbsSome: 'Absorbs some radar',
+    absorbsAlmostAll: 'Absorbs almost all radar',
+  },
+  jets: {
+    heading: 'Choose your jet!',
+    intro: 'Every jet has different properties. Some are faster, while others are better at hiding from the radar. Choose wisely!',
+    visibility: 'Radar visibility:',
+    strength: 'Strength:',
+    weakness: 'Weakness:',
+    choose: 'Choose this jet',
+    metal: {
+      name: 'Metal jet',
+      description: 'Reflects radar very strongly. Like a flying mirror!',
+      strength: 'Very fast and agile',
+      weakness: 'Easy for the radar to spot',
+    },
+    carbon: {
+      name: 'Carbon jet',
+      description: 'Absorbs some radar. The radar spots it now and then.',
+      strength: 'Balanced between speed and stealth',
+      weakness: 'Can still be spotted by the radar',
+    },
+    stealth: {
+      name: 'Stealth jet',
+      description: 'The latest technology! Absorbs almost all radar waves.',
+      strength: 'Almost invisible to radar',
+      weakness: 'A little slower than the other jets',
+    },
+  },
+  chainReaction: {
+    modes: {
+      deterministic: 'Smooth',
+      stochastic: 'Random',
+    },
+    kinetics: {
+      promptOnly: 'Prompt neutrons only',
+      withDelayed: 'With delayed neutrons',
+      title: 'Prompt and delayed neutrons',
+      description: 'Almost all fission neutrons appear at once – promptly. But about {percent} % only come seconds to minutes later from decaying fission products. As long as k − 1 is smaller than this share, the chain reaction has to wait for them.',
+      reactivity: 'Reactivity ρ = (k − 1) / k',
+      period: 'Reactor period',
+      doubling: 'Doubling time',
+      halving: 'Halving time',
+      promptCriticalWarning: 'Prompt critical: the reactivity is larger than the share of delayed neutrons (1 $). The prompt neutrons alone make the power grow within milliseconds – no control rod is that fast.',
+      chartTitle: 'Power after a step from critical to k',
+      chartNote: 'The time axis is logarithmic. With delayed neutrons the power only jumps briefly (prompt jump) and then changes leisurely; without them it is all over within milliseconds.',
+      livePeriod: 'Reactor period',
+      seconds: 'Seconds',
+      states: {
+        promptCritical: 'Prompt critical',
+        promptCriticalHint: 'Grows within milliseconds – no longer controllable',
+        delayedSupercritical: 'Grows slowly – control rods can keep up',
+      },
+    },
+    monteCarlo: {
+      title: 'Many random chain reactions',
+      description: 'Each neutron either splits a nucleus and frees 1 to 3 new neutrons – or it is lost. On average it leaves k successors, but every single chain is a gamble.',
+      offspring: 'Successors of one neutron:',
+      trials: 'Trials',
+      generations: 'Generations',
+      run: 'Run trials',
+      running: 'Calculating …',
+      failed: 'The trials could not be calculated.',
+      failedDescription: 'The calculation stopped unexpectedly. Please try again.',
+      empty: 'Run many trials with the same settings and compare how differently they turn out.',
+      resultFor: '{trials} trials · {neutrons} starting neutrons · k = {k}',
+      fanTitle: 'Neutrons per generation',
+      singleTrials: 'Single trials',
+      mean: 'Mean of all trials',
+      expected: 'N · kⁿ',
+      extinctionTitle: 'Share of chains that died out',
+      simulated: 'Simulation',
+      theory: 'Theory',
+      generation: 'Generation {generation}',
+      extinctByEnd: 'Died out after {generations} generations',
+      ultimate: 'Dies out eventually (theory)',
+      explanation: 'With k ≤ 1 every chain dies out sooner or later. But even with k > 1 a single neutron can be unlucky: at k = 1.2 its chain dies in about three out of four cases. Only many starting neutrons make dying out unlikely – which is why reactors are started up with a neutron source.',
+    },
+    decayChains: {
+      modes: {
+        single: 'One nuclide',
+        chain: 'Decay chain',
+      },
+      choose: 'Choose a decay chain',
+      title: 'Decay chain',
+      stable: 'stable',
+      amountsTitle: 'Share of atoms',
+      activityTitle: 'Activity relative to the parent at the start',
+      logarithmicNote: 'The time axis is logarithmic so that days and billions of years fit into one chart.',
+      activityRatio: 'Activity {daughter} / {parent} at the end',
+      expected: 'expected {ratio}',
+      presets: {
+        uraniumSeries: {
+          name: 'Uranium-radium series',
+          description: 'Natural uranium decays to lead in 14 steps. After about a million years every member decays equally often.',
+        },
+        radium: {
+          name: 'Radium and radon',
+          description: 'Radium gives off the noble gas radon. In a sealed vessel the radon builds up to equilibrium within a few weeks.',
+        },
+        strontium: {
+          name: 'Strontium-90 and yttrium-90',
+          description: 'A long-lived fission product with a short-lived daughter that is as radioactive as its parent after a few days.',
+        },
+        molybdenum: {
+          name: 'Technetium generator',
+          description: 'Hospitals milk technetium-99m from molybdenum-99. The daughter follows the parent down at a fixed ratio.',
+        },
+        iodine: {
+          name: 'Iodine-131 and xenon-131',
+          description: 'Iodine-131 from reactor accidents decays straight into stable xenon. The amount halves every eight days.',
+        },
+        breeding: {
+          name: 'Breeding plutonium',
+          description: 'Uranium-239 decays faster than its daughter neptunium-239. The daughter never catches up, and plutonium-239 is left at the end.',
+        },
+      },
+      equilibrium: {
+        secular: 'Secular equilibrium',
+        transient: 'Transient equilibrium',
+        none: 'No equilibrium',
+      },
+      equilibriumText: {
+        secular: 'The parent lives much longer than its daughters. Once the daughters have built up, each decays exactly as often as the parent, and all activity curves lie on top of each other.',
+        transient: 'The parent lives only a little longer than the daughter. The daughter grows until it is about as radioactive as the parent and then falls with the parent\'s half-life at a fixed ratio to it.',
+        none: 'The daughter lives longer than the parent or is stable. The parent disappears and the daughter is left over.',
+      },
+      didYouKnow: 'The Bateman equations describe every decay chain exactly: the amount of each member is a sum of exponentials, one for each ancestor. That is why every uranium ore also contains radium, radon and polonium, in exactly the ratio of their half-lives.',
+    },
+    title: 'Chain reaction',
+    decayTitle: 'Radioactive decay',
+    chainMode: 'Chain reaction',
+    halfLifeMode: 'Half-life',
+    parameters: 'Simulation settings',
+    initialAmount: 'Starting amount',
+    atomCount: '{count} atoms',
+    halfLife: 'Half-life',
+    yearCount: '{count} years',
+    duration: 'Simulation length',
+    initialNeutrons: 'Starting neutrons',
+    kFactor: 'Multiplication factor (k)',
+    states: {
+      subcritical: 'Subcritical',
+      critical: 'Critical',
+      supercritical: 'Supercritical',
+    },
+    stateHints: {
+      subcritical: 'The reaction dies out',
+      critical: 'Stable',
+      supercritical: 'Uncontrolled chain reaction',
+    },
+    speed: 'Simulation speed',
+    visualization: 'Visualization',
+    visualizationHint: 'Start the simulation to see particles',
+    visualizationLimit: 'Showing only {shown} of {total}',
+    start: 'Start simulation',
+    resume: 'Resume',
+    stop: 'Stop',
+    history: 'Over time',
+    step: 'Step:',
+    axis: {
+      years: 'Years',
+      time: 'Time',
+      atoms: 'Number of atoms',
+      neutrons: 'Neutrons',
+    },
+    tooltip: {
+      atoms: 'Atoms',
+      neutrons: 'Neutrons',
+      year: 'Year {step}',
+      step: 'Step {step}',
+    },
+    atomsLeft: 'Atoms left',
+    currentNeutrons: 'Current neutrons',
+    didYouKnow: 'Did you know?',
+    halfLifeFact: 'The half-life is the time after which half of all radioactive atoms have decayed. This follows an exponential function: after 2 half-lives only 1/4 of the original amount is left, after 3 half-lives only 1/8. In this simulation you can watch this exponential decay clearly.',
+    kFact: {
+      intro: 'The multiplication factor k decides how the reactor behaves:',
+      subcritical: '• k < 1: the reaction dies out exponentially (subcritical)',
+      critical: '• k = 1: stable reaction (critical)',
+      supercritical: '• k > 1: exponential growth (supercritical)',
+      doubling: '• At k = 2 the number of neutrons doubles with every step, which leads to exponential growth!',
+    },
+    toasts: {
+      chainStarted: 'Chain reaction simulation started',
+      decayStarted: 'Decay simulation started',
+      startedHalfLife: 'Half-life: {count} years',
+      startedK: 'Multiplication factor: {k}',
+      stopped: 'Simulation stopped',
+      stoppedDescription: 'Simulation stopped after {steps} steps.',
+      overloaded: 'Simulation overloaded',
+      overloadedDescription: 'The number of neutrons exploded! Simulation stopped.',
+      extinguished: 'Reaction died out',
+      extinguishedDescription: 'All neutrons were absorbed or escaped. The reaction died out.',
+      decayDone: 'Decay complete',
+      decayDoneDuration: 'Simulation over {count} years complete.',
+      decayDoneDepleted: 'The material has decayed completely.',
+    },
+  },
+  criticality: {
+    title: 'Criticality lab: shape, size and reflector',
+    description: 'Whether a chain reaction starts does not depend on mass alone. Shape a lump of fissile metal, wrap it in a reflector and send neutrons on a random walk: each one flies straight, scatters, is captured, splits a nucleus or escapes. From many such neutron lives the lab estimates k-effective.',
+    fuel: 'Fissile material',
+    shape: 'Shape',
+    shapes: {
+      sphere: 'Sphere',
+      cylinder: 'Cylinder',
+      slab: 'Slab',
+    },
+    mass: 'Mass',
+    cylinderElongation: 'Height ÷ diameter',
+    slabElongation: 'Edge ÷ thickness',
+    density: 'Density',
+    reflector: 'Reflector or moderator',
+    reflectors: {
+      none: 'None',
+      water: 'Water',
+      graphite: 'Graphite',
+      beryllium: 'Beryllium',
+      tungstenCarbide: 'Tungsten carbide',
+    },
+    reflectorThickness: 'Shell thickness',
+    run: 'Send neutrons',
+    running: 'Neutrons on their way …',
+    failed: 'The neutrons could not be followed.',
+    failedDescription: 'The calculation stopped unexpectedly. Please try again.',
+    sideView: 'Side view',
+    dimensions: {
+      sphere: 'Radius {radius} cm',
+      cylinder: '⌀ {diameter} cm × {height} cm',
+      slab: '{thickness} cm thick, {edge} cm wide',
+    },
+    empty: 'Send neutrons to see their paths.',
+    stale: 'Settings changed – send new neutrons.',
+    fast: 'Fast neutron',
+    thermal: 'Slowed-down neutron',
+    fatesTitle: 'What becomes of the neutrons',
+    fates: {
+      fission: 'Fission',
+      capture: 'Captured in the fuel',
+      reflector: 'Captured in the shell',
+      leakage: 'Escaped',
+    },
+    states: {
+      subcritical: 'Subcritical',
+      critical: 'Critical',
+      supercritical: 'Supercritical',
+    },
+    reflectedFissions: 'Fissions by neutrons sent back',
+    thermalFissions: 'Fissions by slowed-down neutrons',
+    explanationTitle: 'Why shape matters',
+    explanation: 'Neutrons are born throughout the volume but only escape through the surface. For a given mass a sphere has the smallest surface – as a bare sphere about {uranium} kg of uranium-235 or {plutonium} kg of plutonium-239 go critical. As a flat slab or a long rod the same mass stays far subcritical, which is why fissile material is stored in flat containers. A reflector throws escaping neutrons back, water and graphite also slow them down, and compression shortens their paths: both lower the critical mass – that is how implosion bombs work, and how the "demon core" went critical by accident twice in 1945 and 1946.',
+  },
+  dating: {
+    title: 'Radioactive dating: how old is the find?',
+    description: 'Radioactive atoms are built-in clocks. Count how many parent atoms are left in the sample and estimate the age of the find from that.',
+    score: '{points} points in {rounds} rounds',
+    sampleTitle: 'Sample under the microscope',
+    sampleHint: 'Every dot started out as a {parent} atom. Count how many are still {parent}.',
+    notDecayed: 'not decayed yet',
+    decayed: 'decayed',
+    showCounts: 'Counting help',
+    hideCounts: 'Hide counting help',
+    counts: '{parents} of {total} atoms are still {parent}',
+    halfLife: 'Half-life of {parent}: {halfLife}',
+    rulerTitle: 'Half-life ruler',
+    rulerRow: '{halfLives} × T½ = {age}',
+    rulerLeft: '{left} of {total} left',
+    estimate: 'Your estimate',
+    submit: 'Estimate the age',
+    next: 'Next find',
+    trueAge: 'True age',
+    points: '{points} points',
+    calculation: 'Working: {left} of {total} atoms are left. That is {halfLives} half-lives, so about {age}.',
+    ratings: {
+      bullseye: 'Bullseye!',
+      good: 'Good guess!',
+      close: 'Close, but not quite',
+      off: 'Way off',
+    },
+    artefacts: {
+      spear: {
+        name: 'Wooden spear',
+        story: 'Researchers found a wooden spear in a bog. Stone Age hunters carved it, but when?',
+      },
+      mummy: {
+        name: 'Mummy',
+        story: 'A mummy wrapped in linen lies in an Egyptian tomb. How long ago did the flax for the wrappings grow?',
+      },
+      rock: {
+        name: 'Volcanic rock',
+        story: 'A piece of solidified lava from an ancient volcano. Argon has been building up inside it ever since it set.',
+      },
+    },
+    methods: {
+      carbon: 'Radiocarbon dating: as long as a plant or animal lives, it takes in carbon from the air, always with the same small share of carbon-14. After death nothing new comes in, and C-14 decays to nitrogen with a half-life of 5,730 years. The lab compares how much C-14 is left with the share in living things. This works back to about 50,000 years.',
+      potassiumArgon: 'Potassium-argon dating: potassium-40 decays very slowly, with a half-life of 1.25 billion years. Only about one in nine decayed atoms becomes argon; the others become calcium, which cannot be told apart from the rest of the calcium in the rock. Argon is a gas and escapes from liquid lava; only in solid rock does it stay trapped. From the ratio of argon to potassium the lab works out when the lava set.',
+    },
+  },
+  fission: {
+    tooFast: {
+      title: 'Neutron too fast',
+      description: '{element} can only absorb slow neutrons effectively.',
+    },
+    absorption: {
+      title: 'Neutron absorption',
+      description: '{from} absorbed a neutron and became {to}',
+    },
+    maxEnergy: {
+      title: 'Maximum energy reached!',
+      description: 'The chain reaction released {energy} MeV of energy.',
+    },
+    split: {
+      title: 'Nuclear fission!',
+      description: '{energy} MeV of energy and {neutrons} neutrons released! New elements: {products}',
+    },
+    noFission: {
+      title: 'No fission',
+      missed: 'The neutron did not hit the nucleus properly.',
+      notFissile: '{element} does not split easily.',
+      needsSlow: '{element} needs slow neutrons to split well.',
+      needsFast: '{element} needs fast neutrons to split well.',
+    },
+    decay: {
+      title: 'Beta decay',
+      description: '{from} turned into {to} through beta decay.',
+    },
+    coreAdded: {
+      title: 'New nucleus added',
+      description: 'Another {element} nucleus was added to the experiment.',
+    },
+    prefersSlow: 'Prefers slow neutrons',
+    prefersFast: 'Prefers fast neutrons',
+    prefersAny: 'Reacts to all neutrons',
+    chainReactionActive: 'Chain reaction active',
+    energy: 'Energy: {energy} / {max} MeV',
+    addCore: 'Add nucleus',
+    chooseElement: 'Choose an element to begin',
+    placeNeutron: 'Click anywhere to place a neutron, or use the controls below',
+    dragNeutron: 'Drag a neutron onto the nucleus to start the chain reaction',
+  },
+  miniSun: {
+    tutorial: {
+      plasma: {
+        title: 'Step 1: Make plasma',
+        description: 'To create a sun you first have to make a super hot plasma! Click and hold to heat the gas. You need at least 2 million degrees!',
+      },
+      stabilize: {
+        title: 'Step 2: Stabilise the plasma',
+        description: 'Great! Now you have to hold the hot plasma together. Use magnetic fields so it cannot escape. Reach a stability above 80%!',
+      },
+      fusion: {
+        title: 'Step 3: Start fusion',
+        description: 'Almost there! For the sun to burn by itself it has to meet the Lawson criterion: density times temperature times confinement time must be large enough. Raise the pressure for more density, keep heating and keep the plasma stable so the heat stays confined for long!',
+      },
+      maintain: {
+        title: 'Step 4: Look after your mini sun',
+        description: 'Well done! Your sun is burning now. Keep it alive by adding fuel when it runs low.',
+      },
+      blackHole: {
+        title: 'Black hole!',
+        description: 'Your sun became so massive that it collapsed under its own gravity and turned into a black hole! Watch it swallow matter and give off energy as Hawking radiation.',
+      },
+    },
+    goal: 'Goal: {value}',
+    goalStability: 'Goal: 80% stability',
+    goalIgnition: 'Goal: Lawson criterion (density × temperature × confinement time)',
+    coreTemperature: 'Core temperature: {value}',
+    title: 'Build your own mini sun!',
+    welcome: 'Welcome to the mini sun kit!',
+    intro: 'Create your very own working mini sun! We will guide you through every step to make real nuclear fusion - just like our Sun.',
+    overview: {
+      plasma: {
+        title: 'Make plasma',
+        text: 'Heat hydrogen to millions of degrees',
+      },
+      stabilize: {
+        title: 'Stabilize the plasma',
+        text: 'Hold the plasma together with magnetic fields',
+      },
+      fusion: {
+        title: 'Start fusion',
+        text: 'Squeeze the nuclei together',
+      },
+      maintain: {
+        title: 'Look after your sun',
+        text: 'Keep your mini sun shining',
+      },
+    },
+    stars: {
+      none: 'No sun',
+      redDwarf: 'Red dwarf',
+      mainSequence: 'Main-sequence star',
+      blueGiant: 'Blue giant',
+      neutron: 'Neutron star',
+      blackHole: 'Black hole',
+      star: 'Star',
+    },
+    temperature: 'Temperature',
+    fusionTemperature: 'Fusion temperature reached! ✓',
+    plasmaCreated: 'Plasma created',
+    tooCold: 'Too cold for plasma',
+    stability: 'Stability',
+    perfectlyStable: 'Perfectly stable ✓',
+    fairlyStable: 'Fairly stable',
+    unstable: 'Unstable',
+    pressure: 'Pressure',
+    fusionPressure: 'Fusion pressure reached! ✓',
+    mediumPressure: 'Medium pressure',
+    lowPressure: 'Low pressure',
+    fuel: 'Fuel',
+    fuelCritical: 'Critically low!',
+    fuelLow: 'Fuel low',
+    fuelOk: 'Enough fuel',
+    starMass: 'Star mass',
+    collapseImminent: 'Gravitational collapse ahead!',
+    extremelyHeavy: 'Extremely heavy star',
+    massive: 'Massive star',
+    normalMass: 'Normal star mass',
+    energy: 'Energy production',
+    addFuel: 'Add fuel',
+    restart: 'Restart',
+    massGoal: 'Star mass: {mass} M☉',
+    blackHoleProgress: '{percent}% of the way to a black hole',
+    toasts: {
+      plasma: {
+        title: 'Plasma created!',
+        description: 'The gas is now ionized and has become plasma. Stabilize it with magnetic fields!',
+      },
+      stable: {
+        title: 'The plasma is stable!',
+        description: 'Now you can raise the pressure to start fusion!',
+      },
+      fusion: {
+        title: 'Fusion started!',
+        description: 'Your mini sun starts to shine! Keep it alive.',
+      },
+      blackHole: {
+        title: 'A black hole formed!',
+        description: 'Your sun collapsed under its own gravity and became a black hole!',
+      },
+      plasmaLost: {
+        title: 'Plasma lost!',
+        description: 'The temperature is too low. Heat the gas again!',
+      },
+      unstable: {
+        title: 'Unstable!',
+        description: 'The plasma is getting unstable. Stabilize it again!',
+      },
+      mainSequence: {
+        title: 'Stellar evolution!',
+        description: 'Your red dwarf has grown into a main-sequence star!',
+      },
+      blueGiant: {
+        title: 'Stellar evolution!',
+        description: 'Your star is now a massive blue giant!',
+      },
+      collapse: {
+        title: 'Gravitational collapse!',
+        description: 'Your blue giant collapsed and became a black hole!',
+      },
+      supernova: {
+        title: 'Supernova!',
+        description: 'Your blue giant exploded in a spectacular supernova!',
+      },
+      starDied: {
+        title: 'Star burnt out',
+        description: 'Your sun ran out of fuel and went dark.',
+      },
+      fuelAdded: {
+        title: 'Fuel added',
+        description: 'Your sun got fresh hydrogen.',
+      },
+    },
+    phases: {
+      magnetOn: 'Magnetic field on',
+      magnetOff: 'Magnetic field off',
+      autoHeater: 'Auto heater',
+      almostThere: 'Keep heating! Almost there!',
+      strengthen: 'Strengthen +',
+      magneticField: 'Magnetic field',
+      gravity: 'Gravity',
+      laser: 'Laser compression',
+      fusions: 'Fusions: {count}',
+      fieldStrength: 'Magnetic field strength',
+      addHydrogen: 'Add hydrogen',
+      collapsed: 'Your star got so heavy that it collapsed under its own gravity.',
+      noEscape: 'Now gravity is so strong that not even light can escape!',
+      understood: 'Got it',
+      addMatter: 'Add matter',
+      blackHoleMass: 'Black hole mass: {mass} M☉',
+      hawking: 'Hawking radiation active',
+      tip: 'Tip:',
+      holdToHeat: 'Hold to heat! The longer you hold, the hotter it gets.',
+    },
+  },
+  fusionLab: {
+    heating: 'Plasma heating',
+    heatingOff: 'Off',
+    heatingFull: 'Full power',
+    modes: {
+      magnetic: 'Magnetic field',
+      inertial: 'Laser',
+    },
+    guidanceSettings: 'Turn the plasma heating up to at least 50 MW and set the magnetic field to about {field} tesla. The plasma then gets hot enough to ignite without escaping the field.',
+    title: 'Fusion lab',
+    fusionAchieved: {
+      title: 'Fusion achieved!',
+      description: 'Nuclear fusion has begun! Keep the plasma stable.',
+      banner: 'Fusion achieved! 🌟',
+    },
+    fusionSustained: {
+      title: 'Stable fusion!',
+      description: 'You made a stable fusion reaction - just like in a star!',
+      banner: 'Stable fusion like in a star! 🌞',
+    },
+    guidance: {
+      show: 'Show guide',
+      hide: 'Hide guide',
+      close: 'Close',
+      wellDone: 'Well done!',
+      start: {
+        title: 'Start here!',
+        content: 'Welcome to the fusion lab! Like a star, we will fuse hydrogen atoms.',
+      },
+      settings: {
+        title: 'Set the parameters',
+      },
+      run: {
+        title: 'Start the reactor',
+        content: "Press the 'Start reactor' button to begin the fusion!",
+      },
+      stabilize: {
+        title: 'Keep the plasma stable',
+        content: 'Great! Keep adjusting the magnetic field so the plasma stays stable. The stability should stay above 70%.',
+      },
+      done: {
+        title: 'Fusion achieved!',
+        content: 'Congratulations! You made a fusion reaction just like in a star!',
+      },
+    },
+    start: 'Start reactor',
+    stop: 'Stop reactor',
+    reset: 'Reset',
+    temperature: 'Temperature: {value} million K',
+    fieldReadout: 'Magnetic field: {value} T',
+    energyReadout: 'Energy: {value} MW',
+    controls: 'Reactor controls',
+    magneticField: 'Magnetic field',
+    tesla: '{value} tesla',
+    weak: 'Weak',
+    optimal: 'Optimal: {value}',
+    strong: 'Strong',
+    density: 'Plasma density',
+    status: 'Reactor status',
+    pressure: 'Plasma pressure',
+    stability: 'Plasma stability',
+    reactionRate: 'Fusion rate',
+    energyOutput: 'Energy output',
+    totalEnergy: 'Total energy produced',
+    fuels: {
+      dT: {
+        tab: 'D-T fusion',
+        title: 'Deuterium-tritium fusion',
+        text: 'D-T fusion is the easiest fusion reaction and needs the lowest temperatures (about 150 million degrees). It releases a lot of energy, but it also makes neutrons that can turn the reactor material radioactive.',
+      },
+      dD: {
+        tab: 'D-D fusion',
+        title: 'Deuterium-deuterium fusion',
+        text: 'D-D fusion only uses deuterium, which can be won from seawater. It needs much higher temperatures (about a billion degrees) than D-T fusion and releases less energy.',
+      },
+      pB11: {
+        tab: 'p-B11 fusion',
+        title: 'Proton-boron fusion',
+        text: 'p-B11 fusion uses hydrogen and boron and needs extremely high temperatures (several billion degrees). It makes no neutrons and so no radioactivity, which makes it very clean.',
+      },
+    },
+  },
+  fusionFuels: {
+    title: 'Fuels compared',
+    energy: 'Energy per reaction',
+    products: 'Products per reaction',
+    charged: '{percent} % charged particles',
+    neutrons: '{percent} % neutrons',
+    chartTitle: 'Reactivity ⟨σv⟩ in m³/s over temperature',
+    now: 'now',
+    fuel: 'Fuel',
+    optimalTemperature: 'Best temperature',
+    tripleProduct: 'Required n·T·τ',
+    relative: 'Compared to D-T',
+    never: 'never',
+    tableNote: 'The smallest triple product in keV·s/m³ at which the charged fusion products keep the plasma hot on their own.',
+    descriptions: {
+      dt: 'Deuterium and tritium have just one proton each and barely repel each other: at a little over 10 keV they already fuse often. But fast neutrons carry away four fifths of the energy and make the wall radioactive, and the tritium has to be bred in the reactor first.',
+      dd: 'There is plenty of deuterium in sea water. But the reaction is about a hundred times rarer than D-T and releases less energy. Two branches are about equally likely: one makes helium-3 and a neutron, the other tritium and a proton.',
+      pb11: 'Boron has five protons: proton and boron nucleus repel each other five times as strongly and only fuse noticeably at hundreds of keV. On top of that every boron nucleus brings five electrons, on which the plasma gives off about seven times as much bremsstrahlung. In return only three helium nuclei and no neutrons are produced.',
+    },
+    productNames: {
+      helium4: 'Helium-4',
+      helium3: 'Helium-3',
+      tritium: 'Tritium',
+      proton: 'Proton',
+      neutron: 'Neutron',
+    },
+  },
+  inertialFusion: {
+    description: 'Instead of holding a thin plasma in a magnetic field for seconds, laser beams squeeze a millimetre-sized capsule of deuterium and tritium within billionths of a second – denser than lead. Only its own inertia holds it together, just long enough for its centre to ignite.',
+    pulseTitle: 'Shape the laser pulse',
+    energy: 'Laser energy',
+    timing: 'Start of the main pulse',
+    symmetry: 'Uniformity of illumination',
+    shocksArrive: 'Shocks at the fuel',
+    fire: 'Fire the laser',
+    firing: 'The capsule is imploding …',
+    noShot: 'Shape the laser pulse and fire at the capsule. The weak foot pulse sends shock waves through the shell; the main pulse should follow when they reach the fuel.',
+    resultTitle: 'Result of the shot',
+    ignited: 'Ignited! The burn wave runs through the fuel.',
+    fizzled: 'No ignition – only the hot spot burned a little.',
+    velocity: 'Implosion velocity',
+    convergence: 'Compression (radius before ÷ after)',
+    adiabat: 'Preheating of the fuel',
+    hotSpotTemperature: 'Hot spot temperature',
+    hotSpotArealDensity: 'Hot spot areal density ρR',
+    fuelArealDensity: 'Fuel areal density ρR',
+    criterion: 'Ignition criterion: ρR ≥ {arealDensity} g/cm² at ≥ {temperature} keV',
+    limits: {
+      energy: 'Not enough laser energy: the shell flies too slowly and the hot spot does not get hot enough.',
+      timing: 'The main pulse comes at the wrong time: the fuel was preheated and cannot be squeezed dense enough.',
+      symmetry: 'The capsule was lit unevenly and imploded lopsidedly – the hot spot stays too thin.',
+    },
+    yield: 'Fusion energy',
+    gain: 'Gain (fusion ÷ laser)',
+    wallPlug: 'Gain from the wall plug',
+    wallPlugNote: 'The lasers turn only about {percent} % of the electricity into light on the capsule. A power plant would need a gain above 100 – and ten shots per second.',
+    compare: {
+      title: 'Magnetic field or laser?',
+      magnetic: 'Tokamak',
+      inertial: 'Laser',
+      density: 'Density',
+      temperature: 'Temperature',
+      confinementTime: 'Confinement time',
+      tripleProduct: 'n·T·τ (keV·s/m³)',
+      note: 'Both need about the same triple product: the tokamak holds a thin plasma for seconds, the laser extremely dense fuel for trillionths of a second.',
+    },
+    toast: {
+      title: 'Ignition!',
+      description: 'The capsule released {yield} MJ of fusion energy – {gain} times what the laser put in.',
+    },
+  },
+  fusionPlasma: {
+    title: 'The plasma in the tokamak',
+    off: 'Off',
+    heating: 'Heating up',
+    breakeven: 'More fusion than heating',
+    ignited: 'Ignited!',
+    temperature: 'Temperature',
+    millionKelvin: '{value} million K',
+    density: 'Density',
+    confinementTime: 'Confinement time',
+    fusionPower: 'Fusion power',
+    q: 'Q (fusion ÷ heating)',
+    stability: 'Stability',
+    tripleProduct: 'Triple product n·T·τ',
+    lawson: 'Once the triple product fills the bar, the charged fusion products heat the plasma on their own: it has ignited. At best, around {temperature} keV, {value} keV·s/m³ are enough (Lawson criterion).',
+    tooCold: 'Too cold to ignite: below about {temperature} keV the plasma loses more as bremsstrahlung than fusion delivers, however well it is confined.',
+    betaLimit: 'The plasma pressure is too high for the magnetic field! The plasma becomes unstable and may disrupt. Raise the field or lower heating and density.',
+    powers: {
+      heating: 'Heating',
+      alpha: 'Charged products',
+      bremsstrahlung: 'Bremsstrahlung',
+      transport: 'Heat loss',
+    },
+    disruption: {
+      title: 'Plasma disruption!',
+      description: 'The unstable plasma collapsed within milliseconds and dumped its heat onto the wall. It has to be heated up again.',
+    },
+  },
+  reactor: {
+    types: {
+      pressurizedWater: 'Pressurised water reactor',
+      fastBreeder: 'Fast breeder',
+      fusion: 'Fusion reactor',
+      thoriumMsr: 'Thorium molten salt reactor',
+    },
+    coolants: {
+      water: 'Water',
+      sodium: 'Liquid sodium',
+      helium: 'Helium gas',
+      moltenSalt: 'Molten salt',
+    },
+    fusionHeating: 'In the fusion reactor the control rods set the plasma heating: the less they are inserted, the harder it heats (now {power} MW).',
+    info: 'Info: {name}',
+    kinetics: {
+      title: 'The chain reaction in the reactor',
+      thermalPower: 'Heat output',
+      rods: 'Control rods (actual → target)',
+      reactivity: 'Reactivity',
+      fromRods: 'Control rods',
+      fromTemperature: 'Temperature',
+      fromVoid: 'Steam bubbles',
+      trendIdle: 'Start the reactor to watch the chain reaction.',
+      trendRising: 'The power doubles about every {seconds} seconds.',
+      trendSteady: 'The chain reaction is balanced: every fission causes exactly one more.',
+      trendFalling: 'The chain reaction is dying down.',
+      promptCritical: 'Prompt critical! The chain reaction grows without the delayed neutrons - far too fast for the control rods!',
+      delayedNeutrons: 'With {fuel} only {percent} % of the neutrons are delayed, arriving seconds after the fission. They are what makes the chain reaction slow enough to steer with control rods.',
+      negativeFeedback: 'When the core gets hotter, it slows the chain reaction down by itself. That is why the temperature settles.',
+      positiveVoid: 'Careful: when the sodium boils, the neutrons get faster and the chain reaction stronger. Only pull the rods out slowly!',
+      fromXenon: 'Xenon poison',
+      fromBurnup: 'Burnup',
+      fromCoolant: 'Coolant',
+      xenonPit: 'Xenon poisoning! After shutdown, xenon builds up and swallows neutrons. The reactor can only be restarted once it has decayed.',
+      fuelSpent: 'The fuel is used up. Load fresh fuel to start the reactor again.',
+      noModeration: 'This coolant does not slow the neutrons down enough. Without a moderator the chain reaction cannot start, so pick a suitable coolant.',
+      fuelTitle: 'Fuel',
+      fissileLeft: '{fuel} left',
+      burnup: 'Burnup',
+      bredPlutonium: 'Bred Pu-239',
+      bredUranium: 'Bred U-233',
+      refuel: 'Load fresh fuel',
+    },
+    noRestart: {
+      title: 'Reactor will not start',
+      xenon: 'Too much xenon in the core: even with the rods pulled out there is no chain reaction. Wait until the xenon has decayed.',
+      fuel: 'The fuel is used up. Load fresh fuel first.',
+      coolant: 'With this coolant the reactor stays subcritical: the neutrons are not slowed down enough. Pick a suitable coolant.',
+    },
+    refueled: {
+      title: 'Fresh fuel loaded',
+      description: 'The core has been reloaded and is ready to start.',
+    },
+    scenarios: {
+      title: 'Incident training',
+      intro: 'Practise emergencies like in a real control room. At the end you get a debrief.',
+      start: 'Start',
+      abort: 'Abort scenario',
+      timeLeft: '{seconds} s left',
+      pumpFailure: {
+        title: 'Coolant pump failure',
+        briefing: 'The fast breeder is running at full power. If a pump fails, insert the control rods at once before the sodium boils.',
+      },
+      loadFollow: {
+        title: 'Load follow to 70 %',
+        briefing: 'The grid is about to need more energy. Bring the heat output to the target and keep it there.',
+      },
+      coldStart: {
+        title: 'Cold start to full power',
+        briefing: 'Bring the cold reactor up to full power - slowly and without warnings!',
+      },
+      scram: {
+        title: 'Emergency shutdown',
+        briefing: 'Wait for the emergency shutdown order, then shut the reactor down in less than 5 seconds.',
+      },
+      events: {
+        pumpFailureTitle: 'Pump failure!',
+        pumpFailure: 'The main pump has failed. Only {flow} % of the coolant is flowing.',
+        powerDemandTitle: 'New target from the grid',
+        powerDemand: 'The grid now needs {power} MW of heat output.',
+        scramOrderTitle: 'EMERGENCY SHUTDOWN!',
+        scramOrder: 'Shut the reactor down now!',
+      },
+      criteria: {
+        noMeltdown: 'No meltdown',
+        maxTemperature: 'Temperature always below {limit}',
+        noPromptCritical: 'Never prompt critical',
+        rodsInserted: 'Control rods at least {level} % in within {seconds} s',
+        powerInBand: 'Power within {tolerance} % of the target for {share} % of the time',
+        reachPower: 'Held at least {power} MW for {seconds} s',
+        shutdown: 'Shut down within {seconds} s',
+        powerBelow: 'Power below {power} MW after {seconds} s',
+      },
+      actions: {
+        rods: 'Control rods to {value} %',
+        flow: 'Coolant flow to {value} %',
+        start: 'Reactor started',
+        stop: 'Reactor stopped',
+        scram: 'SCRAM triggered',
+      },
+      debrief: {
+        title: 'Debrief: {title}',
+        perfect: 'Perfect! You did everything right.',
+        partial: 'Well done, but there are a few things you can do better.',
+        failed: 'That went wrong, unfortunately. Try again right away!',
+        maxTemperature: 'Highest temperature: {value}',
+        timeline: 'Your actions',
+        noActions: 'You did not change anything.',
+        close: 'Close',
+        retry: 'Try again',
+      },
+    },
+    protection: {
+      scram: 'SCRAM',
+      scramHint: 'Emergency shutdown: every control rod drops into the core at once.',
+      acknowledge: 'Acknowledge',
+      resetTrip: 'Reset',
+      perSecond: '{value} %/s',
+      percent: '{value} %',
+      alarms: {
+        temperature: 'High temperature',
+        powerRate: 'Power rising fast',
+        coolantFlow: 'Low coolant flow',
+        reactorTrip: 'Reactor tripped',
+      },
+      log: {
+        title: 'Event log',
+        empty: 'No shutdowns yet.',
+        trip: 'Trip: {alarm} ({value})',
+        manualScram: 'SCRAM triggered by hand',
+        emergencyDrain: 'Salt drained into the emergency tank',
+        reset: 'Trip reset',
+      },
+      tripped: {
+        title: 'Reactor protection tripped!',
+        description: 'Reason: {alarm}. The control rods are dropping into the core.',
+      },
+      scrammed: {
+        title: 'SCRAM!',
+        description: 'Every control rod drops into the core and the chain reaction stops.',
+      },
+      resetFirst: {
+        title: 'The reactor is tripped',
+        description: 'Reset the trip on the annunciator once all rods are fully inserted.',
+      },
+      setpoints: {
+        title: 'Reactor protection',
+        description: 'If one of these limits is exceeded, the protection system shuts the reactor down by itself.',
+        temperature: 'Highest temperature',
+        powerRate: 'Fastest power rise',
+        coolantFlow: 'Lowest coolant flow',
+        off: 'off',
+        defaults: 'Defaults',
+      },
+    },
+    trends: {
+      tab: 'History',
+      temperature: 'Temperature',
+      power: 'Power',
+      thermalPower: 'Heat output',
+      electricPower: 'Electricity',
+      demand: 'City demand',
+      settings: 'Efficiency and settings',
+      efficiency: 'Efficiency',
+      rods: 'Control rods',
+      coolantFlow: 'Coolant flow',
+      reactivity: 'Reactivity in dollars',
+      minutes: '{minutes} min',
+      all: 'All',
+      pause: 'Pause',
+      resume: 'Resume',
+      empty: 'Start the reactor and the charts record every second.',
+      atSecond: 'Second {seconds}',
+      clear: 'Clear history',
+      hint: '{count} samples stored (one hour at most). Pause the recording to zoom in with the slider below the charts. Any spreadsheet can open the CSV file.',
+    },
+    steamCycle: {
+      tab: 'Grid',
+      title: 'Steam cycle and power grid',
+      description: 'The heat from the reactor makes steam. The steam turns the turbine, and the generator turns that into electricity. Whatever the turbine cannot use goes to the condenser as waste heat. The city needs more power during the day than at night: match the reactor power to its demand, because electricity nobody needs earns nothing.',
+      clock: '{time}',
+      demand: 'City demand',
+      demandShort: 'Demand: {power} MW',
+      generation: 'Generation',
+      frequency: 'Grid frequency',
+      steamTemperature: 'Live steam',
+      efficiency: 'Efficiency',
+      matched: 'Right on demand!',
+      tooLittle: 'Not enough power: raise the output!',
+      tooMuch: 'Too much power: lower the output!',
+      offline: 'Generator not connected',
+      score: 'Demand met: {percent} % of the time',
+      flowTitle: 'Energy flow',
+      flowEmpty: 'As soon as the reactor delivers heat, the diagram shows where the energy goes.',
+      curveTitle: 'City power use over the day (MW)',
+      now: 'now',
+      fusion: 'The fusion reactor is not connected to the steam cycle yet.',
+      nodes: {
+        reactor: 'Reactor heat',
+        steamGenerator: 'Steam generator',
+        turbine: 'Turbine',
+        generator: 'Generator',
+        city: 'City',
+        condenser: 'Condenser',
+        losses: 'Losses',
+        surplus: 'Surplus',
+      },
+    },
+    compatibility: {
+      title: 'Which coolant suits which reactor?',
+      levels: {
+        ideal: 'Perfect match',
+        possible: 'Works too',
+        risky: 'Risky',
+        impossible: 'Impossible',
+      },
+      freezes: 'Below {temperature} the salt freezes in the pipes and stops cooling altogether.',
+      pwrWater: 'The water cools and at the same time slows the neutrons down so that the uranium-235 can catch them. That is exactly what a pressurized water reactor is built for.',
+      pwrSodium: 'Sodium does not slow neutrons down. Without water as a brake (moderator), the chain reaction in the uranium cannot start. And if sodium meets water in the steam generator, it burns fiercely!',
+      pwrHelium: 'Helium does not slow neutrons down, so without a moderator the reactor stays off. The light gas also carries away much less heat than water.',
+      pwrSalt: 'The salt slows neutrons down less than water, and at the 330 °C of a pressurized water reactor it is solid as rock! It only flows and cools once the core gets hotter.',
+      breederWater: 'Water slows the fast neutrons down. The reactor then hardly breeds any new fuel, and because slow neutrons split plutonium more easily, it becomes harder to shut down.',
+      breederSodium: 'Sodium cools very well and keeps the neutrons fast so that they turn uranium-238 into plutonium. An intermediate loop keeps it away from the water in the steam generator.',
+      breederHelium: 'Helium does not slow neutrons down at all, so the reactor even breeds a little better. But the gas carries little heat, so you need a lot of flow.',
+      breederSalt: 'A fast reactor can be cooled with salt as well. The salt slows the neutrons down a little, so it breeds somewhat less.',
+      msrSalt: 'In the thorium reactor the fuel is dissolved in the salt. The salt is fuel and coolant at once, and heaters keep it molten.',
+      msrWithoutSalt: 'The fuel of the thorium reactor is dissolved in the salt. Without salt there is no fuel!',
+      fusionWater: 'The big ITER research reactor is cooled with water too.',
+      fusionSodium: 'Liquid metal is braked by the strong magnetic fields like a magnet falling through a copper pipe. The pumps carry much less heat away, and sodium must never reach the water in the steam generator.',
+      fusionHelium: 'Helium does not disturb the magnetic fields and copes with very high temperatures. Fusion even makes it itself.',
+      fusionSalt: 'A salt containing lithium takes up the heat and even breeds new tritium for the fusion.',
+      sodiumFire: {
+        title: 'Sodium fire!',
+        description: 'A leak in the steam generator: the sodium met water and is burning. The reactor has been shut down.',
+      },
+    },
+    passiveSafety: {
+      title: 'Great safety!',
+      description: 'The thorium reactor slows the reaction down by itself when it gets too hot!',
+    },
+    emergencyDrain: {
+      title: 'Emergency drain activated!',
+      description: 'The hot salt flows into the safety tank and stops the reaction!',
+    },
+    started: {
+      title: 'Reactor started',
+      description: 'The {name} is running now.',
+    },
+    stopped: {
+      title: 'Reactor stopped',
+      description: 'The reactor was shut down safely.',
+    },
+    reset: {
+      title: 'Reactor reset',
+      description: 'The reactor was rebuilt and is ready to start.',
+    },
+    overheated: {
+      title: 'Reactor overheated!',
+      description: 'The molten salt got too hot and damaged the pipes. The reactor was stopped.',
+    },
+    meltdown: {
+      title: 'Reactor meltdown!',
+      description: 'The temperature rose too high. The reactor has melted!',
+    },
+    title: 'Reactor Design',
+    active: 'Active',
+    inactive: 'Inactive',
+    temperature: 'Temperature',
+    critical: 'Critical! Increase cooling!',
+    safetyActive: 'Safety system active!',
+    energyOutput: 'Energy output',
+    efficiency: 'Efficiency: {value}%',
+    start: 'Start reactor',
+    stop: 'Stop reactor',
+    rebuild: 'Rebuild reactor',
+    tabs: {
+      type: 'Reactor type',
+      cooling: 'Cooling',
+      control: 'Control',
+    },
+    thoriumShort: 'Thorium reactor',
+    typeHints: {
+      pressurizedWater: 'Safe & reliable, low efficiency',
+      fastBreeder: 'Breeds plutonium, higher efficiency',
+      fusion: 'Very high efficiency, hard to start',
+      thoriumMsr: 'Molten salt, safer, less waste',
+    },
+    typeInfo: {
+      pressurizedWater: 'Uses water under high pressure as coolant and moderator. A safe reactor type used in most nuclear power plants.',
+      fastBreeder: 'Uses fast neutrons and liquid sodium as coolant. It can breed new fuel (plutonium) while it produces energy.',
+      fusion: 'Fuses hydrogen isotopes into helium, much like the Sun. It needs extremely high temperatures and strong magnetic fields, but produces a lot of energy.',
+      thoriumMsr: 'Thorium is a special metal from the ground. It makes energy, but quite differently from uranium! The reactor uses molten salt instead of water and runs at lower pressure. It stops by itself when it gets too hot!',
+    },
+    thorium: {
+      title: 'The thorium molten salt reactor',
+      safer: 'Safer:',
+      saferText: 'If it gets too hot, the reactor stops by itself!',
+      noPressure: 'No high pressure:',
+      noPressureText: 'Because we use salt instead of water, it cannot explode!',
+      lessWaste: 'Less waste:',
+      lessWasteText: 'Makes much less radioactive waste than normal reactors.',
+      drain: 'Emergency drain:',
+      drainText: 'If there is a problem, the salt flows into a safe tank.',
+      future: 'Scientists say: maybe the reactor of the future!',
+    },
+    coolantHints: {
+      water: 'Good cooling, safe',
+      sodium: 'Very efficient cooling, reacts with water',
+      helium: 'For high-temperature reactors, less efficient',
+      moltenSalt: 'For the thorium reactor, gets very hot, does not boil',
+    },
+    coolantFlow: 'Coolant flow',
+    coolantInfo: {
+      water: 'Water has a high heat capacity and is a good moderator for thermal reactors. However, it can boil if the temperature gets too high.',
+      sodium: 'Liquid sodium transfers heat very efficiently and only boils at {boiling}. However, it reacts violently with water and air.',
+      helium: 'Helium is chemically inert and suits high-temperature reactors. However, it has a lower heat capacity than liquids.',
+      moltenSalt: 'Molten salt gets very hot ({low} to {high}) without boiling. It can carry the fuel directly and conducts heat very well. If there is a problem, the salt can simply be drained into a safe tank.',
+    },
+    msrSteps: {
+      title: 'How does a molten salt reactor work?',
+      dissolve: '1. Thorium is dissolved in the hot molten salt (instead of solid fuel rods)',
+      breed: '2. Neutrons hit thorium-232 and it turns into uranium-233',
+      fission: '3. Uranium-233 splits and makes energy, and the salt gets hot',
+      flow: '4. The hot salt flows through pipes to the heat exchanger',
+      drain: '5. If there is a problem: the salt flows into a safety tank - stop!',
+    },
+    controlRods: 'Control rods (insertion depth)',
+    controlRodsHint: 'Higher value = more control, fewer reactions',
+    controlInfo: {
+      title: 'About control',
+      text: 'Control rods absorb neutrons and so slow down the chain reaction. Rods inserted deeper (higher value) reduce the reaction rate and heat production.',
+    },
+    comparison: {
+      title: 'Comparison: uranium vs. thorium',
+      uranium: 'Uranium reactor:',
+      uraniumPoints: {
+        waste: 'Lots of radioactive waste',
+        meltdown: 'Can overheat and melt',
+        pressure: 'Needs high pressure',
+        safety: 'Needs a lot of emergency protection',
+      },
+      thorium: 'Thorium reactor:',
+      thoriumPoints: {
+        waste: 'Less radioactive waste',
+        meltdown: 'Stops by itself when overheating',
+        pressure: 'Low pressure, no explosion',
+        safety: 'Has built-in safety features',
+      },
+      summary: 'Thorium reactors make a lot of energy and hardly any waste. Scientists think: maybe this is the reactor of the future!',
+    },
+    visualizer: {
+      selfRegulation: 'Self-regulation active',
+      critical: 'CRITICAL!',
+      emergencyDrain: 'Emergency drain!',
+      optimal: 'Optimal output',
+      stable: 'Stable',
+    },
+  },
+  knowledge: {
+    title: 'Knowledge',
+    showDetails: 'Show your knowledge in detail',
+    dialogTitle: 'Your knowledge',
+    dialogDescription: 'Every new experiment and every correctly answered quiz question takes you further. Doing the same experiment again does not teach you anything new.',
+    suggestions: 'You could try this next:',
+    answerQuiz: 'Answer quiz questions on this topic.',
+    concepts: {
+      fission: {
+        name: 'Nuclear fission',
+        description: 'How neutrons split heavy nuclei and release energy',
+      },
+      isotopes: {
+        name: 'Isotopes',
+        description: 'Why atoms of the same element react differently',
+      },
+      breeding: {
+        name: 'Breeding',
+        description: 'How new fuel is made from nuclei that do not split',
+      },
+      criticality: {
+        name: 'Criticality',
+        description: 'When a chain reaction dies out, stays steady or grows',
+      },
+      cooling: {
+        name: 'Cooling',
+        description: 'How coolants keep a reactor from overheating',
+      },
+      fusionConditions: {
+        name: 'Fusion conditions',
+        description: 'Which temperature and pressure nuclear fusion needs',
+      },
+      radiationTypes: {
+        name: 'Types of radiation',
+        description: 'How alpha, beta, gamma and neutron radiation pass through matter',
+      },
+      radarReflection: {
+        name: 'Radar reflection',
+        description: 'Why some materials reflect radar waves and others do not',
+      },
+    },
+    labs: {
+      fission: 'Nuclear fission',
+      enrichment: 'Enrichment',
+      chainReaction: 'Chain reaction',
+      reactor: 'Reactor',
+      fusion: 'Fusion',
+      radiation: 'Radiation',
+      radar: 'Radar adventure',
+    },
+    hints: {
+      fission: {
+        uranium235: 'Split a uranium-235 nucleus with a neutron.',
+        plutonium239: 'Split a plutonium-239 nucleus.',
+        uranium233: 'Split a uranium-233 nucleus that you bred from thorium.',
+        chainReaction: 'Let the released neutrons split more nuclei.',
+      },
+      isotopes: {
+        capture: 'Shoot a slow neutron at uranium-238 or thorium-232.',
+        wrongSpeed: 'Find out what happens when a nucleus gets neutrons of the wrong speed.',
+        fragments: 'Take a close look at the fission products after a fission.',
+        enrichment: 'Enrich uranium in the centrifuge.',
+        halfLife: 'Simulate a radioactive decay in the chain reaction simulator.',
+        decayChain: 'Watch a decay chain reach equilibrium in the chain reaction simulator.',
+        dating: 'Use a radioactive clock to estimate the age of a find well.',
+      },
+      breeding: {
+        plutonium239: 'Turn uranium-238 into plutonium-239 via neptunium-239.',
+        uranium233: 'Turn thorium-232 into uranium-233 via protactinium-233.',
+        fastBreeder: 'Start a fast breeder in the reactor lab.',
+      },
+      criticality: {
+        subcritical: 'Let a chain reaction with k below 1 die out.',
+        critical: 'Set k to exactly 1 and watch a steady chain reaction.',
+        supercritical: 'Let a chain reaction with k above 1 grow.',
+        randomExtinction: 'Run many random chain reactions with k above 1 and see how some die out anyway.',
+        delayedNeutrons: 'Let a chain reaction with delayed neutrons grow slowly, just above critical.',
+        criticalMass: 'Bring together enough material for a critical mass in the bomb lab.',
+        reflector: 'In the criticality lab, make a lump critical with a reflector that would be too small without one.',
+      },
+      cooling: {
+        water: 'Run a reactor with water cooling.',
+        sodium: 'Run a reactor cooled by liquid sodium.',
+        helium: 'Run a reactor cooled by helium gas.',
+        moltenSalt: 'Run a reactor cooled by molten salt.',
+        meltdown: 'Find out what happens when the cooling is not enough.',
+      },
+      fusionConditions: {
+        ignition: 'Ignite nuclear fusion in the fusion lab.',
+        sustained: 'Keep a fusion reaction running steadily.',
+        laserIgnition: 'Ignite a fuel capsule with the laser in the fusion lab.',
+        miniSun: 'Make your mini sun shine.',
+        starDeath: 'Watch a star that is too heavy die.',
+      },
+      radiationTypes: {
+        alpha: 'Expose a material to alpha radiation.',
+        beta: 'Expose a material to beta radiation.',
+        gamma: 'Expose a material to gamma radiation.',
+        neutron: 'Expose a material to neutron radiation.',
+        dna: 'Find out how radiation damages DNA.',
+        metal: 'Find out how radiation changes metal.',
+        plastic: 'Find out how radiation changes plastic.',
+        crystal: 'Find out how radiation changes crystals.',
+      },
+      radarReflection: {
+        metal: 'Fly the metal jet through the radar field.',
+        carbon: 'Fly the carbon jet through the radar field.',
+        stealth: 'Fly the stealth jet through the radar field.',
+        unseen: 'Score at least 800 points without being caught by the radar.',
+      },
+    },
+  },
+  achievements: {
+    unlocked: 'Achievement unlocked!',
+    panelTitle: 'Achievements',
+    trophiesDescription: 'This is where you collect the achievements from all labs. You have unlocked {unlocked} of {total} trophies.',
+    unlockedAt: 'Unlocked on {date}',
+    labs: {
+      fission: 'Nuclear fission',
+      enrichment: 'Enrichment',
+      reactor: 'Reactor',
+      fusion: 'Nuclear fusion',
+      chainReaction: 'Chain reaction',
+      radiation: 'Radiation',
+      radar: 'Radar adventure',
+      miniSun: 'Mini sun',
+      quiz: 'Quiz',
+    },
+    items: {
+      firstFission: {
+        name: 'Atom splitter',
+        description: 'Split your first nucleus with a neutron',
+      },
+      fissionExpert: {
+        name: 'Fission pro',
+        description: 'Split 50 nuclei by hand',
+      },
+      maxEnergy: {
+        name: 'Fully charged',
+        description: 'Reached the maximum energy in the fission lab',
+      },
+      breeder: {
+        name: 'Master breeder',
+        description: 'Bred new fuel (plutonium-239 or uranium-233)',
+      },
+      firstEnrichment: {
+        name: 'Centrifuge beginner',
+        description: 'Enriched uranium for the first time',
+      },
+      enrichmentRoutine: {
+        name: 'Enrichment plant',
+        description: 'Finished 5 enrichment runs',
+      },
+      weaponsGrade: {
+        name: 'Highly enriched',
+        description: 'Enriched uranium to more than 90 % U-235',
+      },
+      firstReactor: {
+        name: 'Reactor operator',
+        description: 'Started a reactor for the first time',
+      },
+      reactorVeteran: {
+        name: 'Shift supervisor',
+        description: 'Started 10 reactors',
+      },
+      meltdown: {
+        name: 'That was too hot',
+        description: 'Lived through a meltdown – and learned from it',
+      },
+      fusionAchieved: {
+        name: 'Star fire',
+        description: 'Ignited nuclear fusion in the fusion lab',
+      },
+      fusionSustained: {
+        name: 'Steady star',
+        description: 'Kept a fusion reaction running steadily',
+      },
+      firstChainReaction: {
+        name: 'Chain reaction',
+        description: 'Started your first chain reaction',
+      },
+      tenChainReactions: {
+        name: 'Chain reaction expert',
+        description: 'Started 10 chain reactions',
+      },
+      chainOverload: {
+        name: 'Out of control',
+        description: 'Let a chain reaction grow until it overloaded',
+      },
+      firstRadiationExperiment: {
+        name: 'Radiation researcher',
+        description: 'Ran your first irradiation experiment',
+      },
+      radiationExpert: {
+        name: 'Radiation protection expert',
+        description: 'Ran 10 irradiation experiments',
+      },
+      firstRadarFlight: {
+        name: 'Test pilot',
+        description: 'Finished a flight in the radar adventure',
+      },
+      radarAce: {
+        name: 'Radar ace',
+        description: 'Scored at least 800 points in the radar adventure',
+      },
+      firstFusion: {
+        name: 'First light',
+        description: 'Started your first fusion',
+      },
+      mainSequence: {
+        name: 'Like the Sun',
+        description: 'Made a main-sequence star',
+      },
+      blueGiant: {
+        name: 'Giant achievement',
+        description: 'Made a blue giant',
+      },
+      perfectStability: {
+        name: 'Plasma master',
+        description: 'Reached perfect plasma stability',
+      },
+      longLife: {
+        name: 'Mini star explorer',
+        description: 'Kept a star alive for a long time',
+      },
+      supernova: {
+        name: 'Supernova discoverer',
+        description: 'Set off a supernova explosion',
+      },
+      blackHoleCreated: {
+        name: 'Black hole discoverer',
+        description: 'Let a star collapse into a black hole',
+      },
+      firstQuiz: {
+        name: 'Knowledge tester',
+        description: 'Played your first quiz to the end',
+      },
+      quizMaster: {
+        name: 'Quiz master',
+        description: 'Answered every question of all 8 quiz topics correctly',
+      },
+    },
+  },
+  quiz: {
+    open: 'Quiz: Did you get it?',
+    title: 'Quiz: {tab}',
+    finished: 'Done! Take a look at your result.',
+    progress: 'Question {current} of {total}',
+    correct: 'Correct!',
+    incorrect: 'Not quite.',
+    showResult: 'See result',
+    next: 'Next',
+    score: '{correct} of {total} correct',
+    perfect: 'Great! You understood everything.',
+    tryAgain: 'Well done! Try the lab once more and then have another go.',
+    playAgain: 'Play again',
+    dropHere: 'Drag here',
+    check: 'Check',
+    readAloud: 'Read aloud',
+    tabs: {
+      fission: 'Nuclear fission',
+      enrichment: 'Enrichment',
+      reactor: 'Reactor',
+      fusion: 'Fusion',
+      miniSun: 'Mini sun',
+      chainReaction: 'Chain reaction',
+      radiation: 'Radiation',
+      radar: 'Radar',
+    },
+    questions: {
+      fissionNeutron: {
+        prompt: 'What do you use to split an atomic nucleus?',
+        options: {
+          a: 'Light',
+          b: 'Neutron',
+          c: 'Magnet',
+        },
+        explanation: 'A neutron has no charge. That is why it can get very close to the nucleus and split it.',
+      },
+      fissionProducts: {
+        prompt: 'What is made when uranium-235 splits?',
+        options: {
+          a: 'Two smaller nuclei, new neutrons and energy',
+          b: 'A bigger uranium nucleus',
+          c: 'Only heat, nothing else',
+        },
+        explanation: 'The nucleus breaks into two fragments. Two or three neutrons fly out and energy is released.',
+      },
+      fissionFragments: {
+        prompt: 'Are the two fragments of a fission usually the same size?',
+        options: {
+          a: 'Yes, always exactly the same size',
+          b: 'No, usually one is heavier than the other',
+          c: 'There is only one fragment',
+        },
+        explanation: 'Usually there is one heavy fragment like barium and one lighter one like krypton.',
+      },
+      fissionBreedingMatch: {
+        prompt: 'What turns into what? Match them up!',
+        pairs: {
+          a: {
+            item: 'Uranium-238',
+            match: 'Plutonium-239',
+          },
+          b: {
+            item: 'Thorium-232',
+            match: 'Uranium-233',
+          },
+        },
+        explanation: 'Uranium-238 catches a neutron and becomes plutonium-239 via neptunium. Thorium-232 becomes uranium-233 via protactinium.',
+      },
+      fissionBreedingSpeed: {
+        prompt: 'Which neutrons does uranium-238 like to catch most in the game?',
+        options: {
+          a: 'Fast neutrons',
+          b: 'Slow neutrons',
+          c: 'None at all',
+        },
+        explanation: 'Uranium-238 catches slow neutrons. That is how the change into plutonium begins.',
+      },
+      fissionBetaDecay: {
+        prompt: 'How does neptunium-239 become plutonium-239?',
+        options: {
+          a: 'By beta decay: a neutron turns into a proton',
+          b: 'By melting',
+          c: 'By a second fission',
+        },
+        explanation: 'In beta decay a neutron in the nucleus turns into a proton. That makes a new element.',
+      },
+      enrichmentIsotope: {
+        prompt: 'What is the difference between uranium-235 and uranium-238?',
+        options: {
+          a: 'The number of neutrons in the nucleus',
+          b: 'The colour',
+          c: 'The number of protons',
+        },
+        explanation: 'Both are uranium and have 92 protons. But uranium-238 has three more neutrons.',
+      },
+      enrichmentNatural: {
+        prompt: 'How much uranium-235 is in natural uranium?',
+        options: {
+          a: 'About 0.7 percent',
+          b: 'About half',
+          c: 'Almost all of it',
+        },
+        explanation: 'Natural uranium is almost all uranium-238. Only a small part is the easily split uranium-235.',
+      },
+      enrichmentCentrifuge: {
+        prompt: 'Which machine is used to enrich uranium?',
+        options: {
+          a: 'Furnace',
+          b: 'Centrifuge',
+          c: 'Telescope',
+        },
+        explanation: 'The centrifuge spins very fast. The heavier uranium-238 is pushed outwards a little more.',
+      },
+      enrichmentLevels: {
+        prompt: 'How much uranium-235 is needed for what? Match them up!',
+        pairs: {
+          a: {
+            item: 'Natural uranium',
+            match: '0.7 %',
+          },
+          b: {
+            item: 'Power plant',
+            match: '3–5 %',
+          },
+          c: {
+            item: 'Bomb',
+            match: 'over 90 %',
+          },
+        },
+        explanation: 'A power plant only needs slightly enriched uranium. For a bomb it would have to be very highly enriched.',
+      },
+      enrichmentThorium: {
+        prompt: 'Why does thorium not need to be enriched?',
+        options: {
+          a: 'Because uranium-233 is first bred from it in the reactor',
+          b: 'Because thorium explodes by itself',
+          c: 'Because thorium is not radioactive at all',
+        },
+        explanation: 'Thorium-232 itself hardly splits. In the reactor it catches neutrons and becomes uranium-233, which does.',
+      },
+      reactorControlRods: {
+        prompt: 'What do the control rods in a reactor do?',
+        options: {
+          a: 'They swallow neutrons and slow the chain reaction down',
+          b: 'They warm the water',
+          c: 'They make electricity',
+        },
+        explanation: 'The deeper the control rods go into the reactor, the more neutrons they swallow. Then there are fewer fissions.',
+      },
+      reactorCoolantJob: {
+        prompt: 'Why does a reactor need coolant?',
+        options: {
+          a: 'It carries the heat away',
+          b: 'It makes the reactor heavier',
+          c: 'It turns the water blue',
+        },
+        explanation: 'The coolant carries the heat out of the core. Without cooling the reactor gets too hot.',
+      },
+      reactorCoolantMatch: {
+        prompt: 'Which reactor uses which coolant? Match them up!',
+        pairs: {
+          a: {
+            item: 'Pressurized water reactor',
+            match: 'Water',
+          },
+          b: {
+            item: 'Fast breeder',
+            match: 'Sodium',
+          },
+          c: {
+            item: 'Thorium reactor',
+            match: 'Molten salt',
+          },
+        },
+        explanation: 'Water slows neutrons down. A fast breeder needs fast neutrons, so it is cooled with liquid sodium.',
+      },
+      reactorMeltdown: {
+        prompt: 'What can happen if the cooling fails?',
+        options: {
+          a: 'The reactor freezes',
+          b: 'A meltdown',
+          c: 'Nothing at all',
+        },
+        explanation: 'Even without a chain reaction the fuel still gives off heat. Without cooling it can melt.',
+      },
+      reactorSodium: {
+        prompt: 'Why is a fast breeder not cooled with water?',
+        options: {
+          a: 'Water would slow the neutrons down',
+          b: 'Water is too expensive',
+          c: 'Water cannot take up heat',
+        },
+        explanation: 'Water makes neutrons slow. But the fast breeder needs fast neutrons for breeding.',
+      },
+      fusionWhat: {
+        prompt: 'What happens in nuclear fusion?',
+        options: {
+          a: 'Light nuclei merge into a heavier nucleus',
+          b: 'A heavy nucleus breaks apart',
+          c: 'Electrons disappear',
+        },
+        explanation: 'In fusion, hydrogen nuclei for example merge into helium. Energy is released.',
+      },
+      fusionTemperature: {
+        prompt: 'How hot does the plasma have to be for fusion on Earth?',
+        options: {
+          a: 'About 100 degrees',
+          b: 'About 1000 degrees',
+          c: 'Over 100 million degrees',
+        },
+        explanation: 'The nuclei are positively charged and push each other away. Only at huge temperatures are they fast enough to merge.',
+      },
+      fusionMagnet: {
+        prompt: 'What does a tokamak hold the hot plasma with?',
+        options: {
+          a: 'Magnetic fields',
+          b: 'A bucket',
+          c: 'Thick stones',
+        },
+        explanation: 'No material can stand such high temperatures. Strong magnetic fields keep the plasma away from the walls.',
+      },
+      fusionFuelMatch: {
+        prompt: 'What belongs together? Match them up!',
+        pairs: {
+          a: {
+            item: 'Deuterium',
+            match: 'Hydrogen with one neutron',
+          },
+          b: {
+            item: 'Tritium',
+            match: 'Hydrogen with two neutrons',
+          },
+          c: {
+            item: 'Helium',
+            match: 'Ash of fusion',
+          },
+        },
+        explanation: 'Deuterium and tritium are heavy kinds of hydrogen. When they merge, helium is made.',
+      },
+      fusionRepulsion: {
+        prompt: 'Why is fusion so hard to ignite?',
+        options: {
+          a: 'The positive nuclei push each other away',
+          b: 'Hydrogen is very rare',
+          c: 'The nuclei are too heavy',
+        },
+        explanation: 'Like charges push each other away. The nuclei have to be very fast to overcome this push.',
+      },
+      miniSunEnergy: {
+        prompt: 'Where does our Sun get its energy from?',
+        options: {
+          a: 'It burns coal',
+          b: 'Nuclear fusion',
+          c: 'A giant battery',
+        },
+        explanation: 'In the Sun, hydrogen nuclei merge into helium. That makes it so bright and hot.',
+      },
+      miniSunGravity: {
+        prompt: 'What squeezes the gas in a star together so tightly?',
+        options: {
+          a: 'Gravity',
+          b: 'The wind',
+          c: 'Magnets',
+        },
+        explanation: 'The huge mass of the star squeezes everything together by gravity. That makes the inside hot enough for fusion.',
+      },
+      miniSunStarsMatch: {
+        prompt: 'Which star is like what? Match them up!',
+        pairs: {
+          a: {
+            item: 'Red dwarf',
+            match: 'small and cool',
+          },
+          b: {
+            item: 'Blue giant',
+            match: 'big and very hot',
+          },
+          c: {
+            item: 'Black hole',
+            match: 'not even light escapes',
+          },
+        },
+        explanation: 'The more mass a star has, the hotter it burns. Very heavy stars can end up as black holes.',
+      },
+      miniSunDeath: {
+        prompt: 'What can happen at the end of a very heavy star?',
+        options: {
+          a: 'A supernova',
+          b: 'It turns into a planet',
+          c: 'It freezes',
+        },
+        explanation: 'When a heavy star runs out of fuel, it collapses and explodes as a supernova.',
+      },
+      chainKMatch: {
+        prompt: 'What happens at which k? Match them up!',
+        pairs: {
+          a: {
+            item: 'k less than 1',
+            match: 'The reaction dies out',
+          },
+          b: {
+            item: 'k equal to 1',
+            match: 'The reaction stays the same',
+          },
+          c: {
+            item: 'k greater than 1',
+            match: 'The reaction grows',
+          },
+        },
+        explanation: 'k tells how many new fissions each fission causes. At exactly 1 everything stays in balance.',
+      },
+      chainReactorK: {
+        prompt: 'Which k does a power plant need in normal operation?',
+        options: {
+          a: 'Exactly 1',
+          b: 'Much greater than 1',
+          c: 'Zero',
+        },
+        explanation: 'A power plant should deliver energy evenly. For that the chain reaction has to be exactly critical.',
+      },
+      chainDoubling: {
+        prompt: '1 neutron becomes 2, then 4, then 8. What is this called?',
+        options: {
+          a: 'Exponential growth',
+          b: 'Standstill',
+          c: 'Cooling down',
+        },
+        explanation: 'When a number doubles again and again, it grows exponentially and very quickly becomes huge.',
+      },
+      chainCriticalMass: {
+        prompt: 'Where can the most neutrons escape?',
+        options: {
+          a: 'Thin disc',
+          b: 'Thick ball',
+        },
+        explanation: 'Many neutrons simply fly out of a thin disc. In a ball, more of them hit a nucleus.',
+      },
+      chainHalfLife: {
+        prompt: 'What does half-life mean?',
+        options: {
+          a: 'After this time half of the nuclei have decayed',
+          b: 'After this time everything has decayed',
+          c: 'The time until half the temperature',
+        },
+        explanation: 'After one half-life half is left, after two half-lives a quarter.',
+      },
+      radiationShieldingMatch: {
+        prompt: 'What stops which radiation? Match them up!',
+        pairs: {
+          a: {
+            item: 'Alpha',
+            match: 'A sheet of paper',
+          },
+          b: {
+            item: 'Beta',
+            match: 'An aluminium plate',
+          },
+          c: {
+            item: 'Gamma',
+            match: 'Thick lead',
+          },
+        },
+        explanation: 'Alpha particles are big and get stuck quickly. Gamma radiation goes in the deepest.',
+      },
+      radiationAlpha: {
+        prompt: 'What already stops alpha radiation?',
+        options: {
+          a: 'Paper',
+          b: 'Only a thick wall',
+          c: 'Nothing at all',
+        },
+        explanation: 'Alpha radiation is made of heavy helium nuclei. Even a sheet of paper or your skin stops it.',
+      },
+      radiationGamma: {
+        prompt: 'What is gamma radiation?',
+        options: {
+          a: 'Very energetic light that you cannot see',
+          b: 'A small helium nucleus',
+          c: 'Warm air',
+        },
+        explanation: 'Gamma radiation is like light, only with much more energy. It goes deep into matter.',
+      },
+      radiationDna: {
+        prompt: 'Why is radiation dangerous for living things?',
+        options: {
+          a: 'It can damage the DNA in the cells',
+          b: 'It turns the skin blue',
+          c: 'It is not dangerous at all',
+        },
+        explanation: 'Radiation can break the genetic information in the cells. That is why people protect themselves with distance and shielding.',
+      },
+      radiationNeutron: {
+        prompt: 'What slows down neutron radiation especially well?',
+        options: {
+          a: 'Water',
+          b: 'Paper',
+          c: 'Air',
+        },
+        explanation: 'Neutrons bump into the light hydrogen nuclei in water and become slow.',
+      },
+      radarEcho: {
+        prompt: 'How does a radar find an aeroplane?',
+        options: {
+          a: 'It sends out radio waves and catches the echo',
+          b: 'It listens to the engine',
+          c: 'It smells the fuel',
+        },
+        explanation: 'The radar sends out waves. When they hit an aeroplane, an echo comes back.',
+      },
+      radarMetal: {
+        prompt: 'Which jet sends back the strongest echo?',
+        options: {
+          a: 'Metal jet',
+          b: 'Carbon jet',
+          c: 'Stealth jet',
+        },
+        explanation: 'Metal reflects radar waves like a mirror reflects light. That is why the radar sees the metal jet best.',
+      },
+      radarMaterialsMatch: {
+        prompt: 'How does each material react to radar? Match them up!',
+        pairs: {
+          a: {
+            item: 'Metal',
+            match: 'throws the waves back',
+          },
+          b: {
+            item: 'Carbon',
+            match: 'swallows some of them',
+          },
+          c: {
+            item: 'Stealth coating',
+            match: 'swallows almost all',
+          },
+        },
+        explanation: 'The less a material reflects, the weaker the echo and the harder the jet is to spot.',
+      },
+      radarShape: {
+        prompt: 'Why do stealth aircraft have slanted, angular surfaces?',
+        options: {
+          a: 'So the waves bounce off in other directions',
+          b: 'Because it looks nicer',
+          c: 'So they fly faster',
+        },
+        explanation: 'Slanted surfaces steer the radar waves to the side. So hardly any echo gets back to the radar.',
+      },
+      radarSpeed: {
+        prompt: 'How fast do radar waves travel?',
+        options: {
+          a: 'As fast as light',
+          b: 'As fast as a car',
+          c: 'As fast as sound',
+        },
+        explanation: 'Radar waves are electromagnetic waves like light. They travel almost 300,000 kilometres per second.',
+      },
+    },
+  },
+  saves: {
+    title: 'Saved games',
+    autosaveHint: 'Your progress is saved automatically in the saved game “{slot}”.',
+    noSlots: 'No saved games yet.',
+    active: '(active)',
+    load: 'Load',
+    delete: 'Delete',
+    newSlotPlaceholder: 'Name for a new saved game',
+    save: 'Save',
+    newGame: 'Start a new game',
+    importSlot: 'Import {date}',
+    saved: 'Game saved',
+    savedDescription: 'Your progress was saved as “{slot}”.',
+    saveFailed: 'Saving failed',
+    saveFailedDescription: 'The browser does not allow access to its storage right now.',
+    imported: 'Saved game imported',
+    importedDescription: 'The progress was loaded as “{slot}”.',
+    transfer: {
+      title: 'Export/Import',
+      description: 'Save your progress as a file and load it on another device – with materials, knowledge, trophies and radar records.',
+      export: 'Export saved game “{slot}”',
+      import: 'Import a saved game file',
+      importFailed: 'Import failed',
+    },
+    errors: {
+      notASave: 'This is not an Atom-Splode Adventure saved game.',
+      newerSave: 'This saved game comes from a newer version of the game. Please reload the page.',
+      unsupportedVersion: 'Saved games of version {version} are no longer supported.',
+      corruptSave: 'The saved game is damaged ({details}).',
+      invalidJson: 'The file is not a valid JSON file.',
+      notASaveFile: 'This file is not an Atom-Splode Adventure saved game.',
+      newerFile: 'This file was made with a newer version of the game. Please update the game on this device.',
+      corruptFile: 'The file is damaged ({details}).',
+      unreadableFile: 'The file could not be read.',
+    },
+  },
+  game: {
+    title: 'Atom Adventure',
+    help: {
+      title: 'How to play',
+      steps: {
+        selectElement: '1. Choose an element with the buttons below.',
+        chooseSpeed: '2. Choose between fast and slow neutrons.',
+        placeNeutron: '3. Click anywhere in the play area to place a neutron.',
+        dragNeutron: '4. Drag the neutron onto the nucleus to start a reaction.',
+        watch: '5. Watch what happens! Different elements react differently to fast and slow neutrons.',
+        breeding: '6. Uranium-238 absorbs slow neutrons and starts a chain of changes into plutonium.',
+        enrichment: '7. Use the enrichment lab to enrich uranium-235.',
+        bomb: '8. With enough material you can build an atomic bomb.',
+        reactor: '9. In the reactor lab you can build and run a nuclear reactor.',
+        fusion: '10. Experiment with fusion to understand how stars work.',
+        miniSun: '11. Build your own mini sun and watch how nuclear fusion happens in stars.',
+        energy: '12. Try to fill up the energy bar!',
+      },
+    },
+    energy: 'Energy: {energy}/{max}',
+    neutrons: 'Neutrons:',
+    material: 'Material:',
+    tabs: {
+      fission: 'Nuclear fission',
+      enrichment: 'Enrichment',
+      bomb: 'Atomic bomb',
+      reactor: 'Reactor',
+      fusion: 'Fusion',
+      miniSun: 'Mini sun',
+      chainReaction: 'Chain reaction',
+      radiation: 'Radiation',
+    },
+    materials: {
+      title: 'Materials:',
+      enrichedUranium: 'Enriched uranium:',
+      plutonium239: 'Plutonium-239:',
+      uranium233: 'Uranium-233:',
+    },
+    elementExplanations: {
+      uranium235: 'Uranium-235 is an isotope that is well suited for nuclear fission. It reacts to fast and slow neutrons, with slow ones working a little better.',
+      uranium238Slow: 'Uranium-238 absorbs slow neutrons and turns into uranium-239, which decays via neptunium-239 into plutonium-239.',
+      uranium238Fast: 'Uranium-238 hardly reacts to fast neutrons. Try slow neutrons!',
+      plutonium239: 'Plutonium-239 is an artificial element that splits very easily. It reacts well to fast and slow neutrons and releases a lot of energy when it splits.',
+      thorium232Slow: 'With slow neutrons, thorium-232 can form thorium-233, which decays via protactinium-233 into uranium-233.',
+      thorium232Fast: 'Thorium-232 hardly reacts to fast neutrons. Use slow neutrons for better results.',
+      none: 'Choose an element and I will tell you more about it!',
+    },
+    explained: {
+      enrichment: {
+        title: 'Enrichment explained:',
+        text: 'In nature, uranium is mostly U-238 (99.3%), with only 0.7% of the fissile U-235. Nuclear weapons need highly enriched uranium with more than 90% U-235. Centrifuges separate the isotopes, which differ slightly in weight, by spinning at extremely high speeds.',
+      },
+      bomb: {
+        title: 'Atomic bombs explained:',
+        text: 'Atomic bombs release huge amounts of energy through a self-sustaining chain reaction. They need a critical mass of fissile material such as uranium-235 or plutonium-239. In a uranium bomb two subcritical masses are shot together (gun-type design), while plutonium bombs use a precise implosion wave to compress the material and start the chain reaction.',
+      },
+      reactor: {
+        title: 'Nuclear reactors explained:',
+        text: 'Nuclear reactors use controlled nuclear fission to make heat and boil water, which drives turbines and makes electricity. The reaction is regulated by control rods that absorb neutrons. Different reactor types use different fuels and coolants, but they all aim to keep a stable, controlled chain reaction going.',
+      },
+      fusion: {
+        title: 'Nuclear fusion explained:',
+        text: 'In nuclear fusion, light nuclei such as hydrogen merge into heavier nuclei such as helium and release huge amounts of energy. This process powers the stars and could become an almost endless, clean source of energy. On Earth, extremely high temperatures (millions of degrees) and strong magnetic fields are needed to overcome the electric repulsion between the nuclei.',
+      },
+      chainReaction: {
+        title: 'Chain reactions and exponential processes explained:',
+        text: 'A chain reaction happens when each fission makes on average more than one neutron that causes further fissions. The multiplication factor k describes this ratio: with k < 1 the reaction dies out, with k = 1 it stays stable and with k > 1 it grows exponentially. We find similar exponential patterns in many areas, from population growth to compound interest.',
+      },
+      radiation: {
+        title: 'Radiation and matter explained:',
+        text: 'Ionizing radiation (alpha, beta, gamma and neutrons) can ionize atoms, break chemical bonds and damage living tissue. In medicine it is used to treat cancer, in industry to test materials. The half-life describes how long radioactive substances stay active, and ranges from fractions of a second for short-lived isotopes to billions of years.',
+      },
+    },
+    advancedLabs: {
+      show: 'Show advanced labs',
+      hide: 'Hide advanced labs',
+      title: 'Advanced nuclear physics:',
+      intro: 'Use the tabs above to switch between labs and dive deeper into nuclear physics:',
+      reactor: 'Build and control different reactor types in the reactor lab',
+      fusion: 'Discover nuclear fusion and how stars work in the fusion lab',
+      miniSun: 'Create your own mini sun in the mini sun lab',
+      chainReaction: 'Understand the maths behind chain reactions in the simulator',
+      radiation: 'Explore the effects of radiation on different materials',
+    },
+    plutoniumCreated: {
+      title: 'Plutonium created!',
+      description: '{amount} kg of plutonium-239 from neutron capture and decay.',
+    },
+    enrichedUranium: {
+      title: 'Enriched uranium received',
+      description: '{amount} kg of uranium with {enrichment} % U-235 was added.',
+    },
+    detonation: {
+      title: 'Detonation complete',
+      description: '{material} {design} bomb with a yield of {yield} kilotons.',
+      materials: {
+        uranium: 'Uranium',
+        plutonium: 'Plutonium',
+      },
+      designs: {
+        gun: 'gun-type',
+        implosion: 'implosion',
+      },
+    },
+    energyBar: 'Energy: {value} MeV',
+    explosion: {
+      title: 'Nuclear detonation',
+      yield: 'Yield: {value} kilotons',
+    },
+  },
+  radarGame: {
+    tabs: {
+      intro: '1. Introduction',
+      selection: '2. Choose a jet',
+      field: '3. Radar race',
+      result: '4. Result',
+    },
+    jetSelected: {
+      title: 'Jet chosen!',
+      description: 'You chose the {jet}.',
+    },
+    result: {
+      title: 'Radar adventure complete!',
+      intro: 'Well done! You learned how radar works and how different materials reflect or absorb radar waves.',
+      heading: 'Your result',
+      points: '{points} points',
+      newRecord: 'New record for this plane!',
+      record: 'Your record with this plane: {points} points',
+      yourJet: 'Your plane:',
+      learned: 'What you learned:',
+      playAgain: 'Play again',
+      ranks: {
+        master: {
+          title: 'Stealth master',
+          description: 'You are an expert in radar technology! You know exactly how to hide from radar.',
+        },
+        pro: {
+          title: 'Radar pro',
+          description: 'You understand really well how radar works and how to hide from it!',
+        },
+        advanced: {
+          title: 'Advanced pilot',
+          description: 'You learned a lot about radar and materials!',
+        },
+        explorer: {
+          title: 'Radar explorer',
+          description: 'You got to know the basics of radar technology!',
+        },
+      },
+      tips: {
+        metal: 'Metal planes are very fast, but they reflect radar strongly. Stealth materials could help you stay more invisible next time!',
+        carbon: 'Carbon jets offer a good balance between speed and radar absorption. With a little practice you will get even better!',
+        stealth: 'Stealth jets are excellent at absorbing radar. You made a good choice!',
+      },
+      lessons: {
+        waves: 'Radar sends out invisible waves that bounce back off objects',
+        metal: 'Metal reflects radar very strongly - like a mirror for radar waves',
+        carbon: 'Carbon materials absorb some radar and make objects harder to spot',
+        stealth: 'Special stealth materials absorb almost all radar waves',
+        hiding: 'Planes use different materials to hide from radar',
+      },
+    },
+    field: {
+      ready: 'Ready for the radar race?',
+      intro: 'Fly your jet through the radar field and try to reach the target without being spotted! Use the arrow keys, or click/tap on the field where your jet should fly.',
+      tipsFor: 'Tips for your {jet}:',
+      tips: {
+        metal: {
+          first: 'Your jet is very fast, but easy to spot',
+          second: 'Try to hide in stealth zones (dark blue)',
+          third: 'Avoid metal objects, they make you even more visible!',
+        },
+        carbon: {
+          first: 'Your jet balances speed and stealth',
+          second: 'Carbon zones (gray) improve your camouflage',
+          third: 'Use stealth zones for maximum camouflage',
+        },
+        stealth: {
+          first: 'Your jet is slower, but much harder to spot',
+          second: 'In stealth zones you are almost invisible',
+          third: 'Even in normal zones you are hard to detect',
+        },
+      },
+      start: 'Start the race!',
+      visibility: 'Radar visibility:',
+      detected: 'Spotted!',
+      hidden: 'Hidden',
+      speed: 'Speed',
+      time: 'Time:',
+      points: 'Points:',
+      target: 'GOAL',
+      clickHint: 'Click on the field where your jet should fly!',
+      keysHint: 'Or press the arrow keys ↑ → ↓ ← to steer and the space bar for a boost.',
+      controls: 'CONTROLS:',
+      controlsHint: 'Arrow keys to steer, space bar for a boost, or just click/tap!',
+      toasts: {
+        start: {
+          title: "Let's go!",
+          description: 'Steer your jet with the arrow keys or by clicking/tapping.',
+        },
+        faster: {
+          title: 'Faster!',
+          description: 'The radar is speeding up!',
+        },
+        won: {
+          title: 'Target reached!',
+          description: 'You won the race! Time bonus: +{bonus} points',
+        },
+        lost: {
+          title: 'Spotted by the radar!',
+          description: 'The radar picked up your jet!',
+        },
+      },
+    },
+  },
+  gameControls: {
+    fireNeutron: 'Fire neutron',
+    slowNeutrons: 'Slow neutrons',
+    slowNeutronsHint: 'For U-238 absorption',
+    fastNeutrons: 'Fast neutrons',
+    fastNeutronsHint: 'Better for fission',
+    tip: 'Tip: Uranium-238 and thorium-232 only absorb slow neutrons and turn into plutonium-239 and uranium-233, while plutonium-239 reacts to both.',
+  },
+  nuclides: {
+    uranium235: {
+      description: 'Splits easily',
+    },
+    uranium238: {
+      description: 'Absorbs slow neutrons',
+    },
+    plutonium239: {
+      description: 'Splits very easily',
+    },
+    thorium232: {
+      description: 'Breeding element',
+    },
+  },
+  enrichmentLab: {
+    title: 'Uranium-235 enrichment',
+    cascade: 'Centrifuge cascade',
+    naturalUranium: 'Natural uranium',
+    moreCentrifuges: '+{count} more centrifuges',
+    valuable: '⭐ Valuable ⭐',
+    waste: 'Waste',
+    enrichedUranium: 'Enriched uranium',
+    depletedUranium: 'Depleted uranium',
+    centrifugeCount: 'Number of centrifuges: {count}',
+    centrifugeSpeed: 'Centrifuge speed: {speed}%',
+    speedWarning: 'High speed can cause instability',
+    feedAmount: 'Feed material: {amount} kg',
+    progress: 'Progress:',
+    enrichmentLevel: 'Enrichment level:',
+    weaponsGrade: 'Weapons-grade material (≥90%)',
+    reactorGrade: 'Suitable for nuclear reactors (3–20%)',
+    instability: 'Instability:',
+    instabilityHigh: 'Warning: instability rising!',
+    instabilityVeryHigh: 'Warning: instability very high!',
+    start: 'Start',
+    stop: 'Stop',
+    started: {
+      title: 'Enrichment started',
+      description: '{count} centrifuges at {speed}% speed.',
+    },
+    finished: {
+      title: 'Enrichment finished',
+      description: 'Produced {amount} kg of uranium enriched to {enrichment}% U-235.',
+    },
+    failure: {
+      title: 'Centrifuge failure!',
+      description: 'The high speed made the cascade unstable. Material was lost.',
+    },
+  },
+  bombLab: {
+    title: 'Nuclear weapons lab',
+    armedBadge: 'ARMED',
+    material: 'Material:',
+    uranium: 'Uranium-235',
+    uraniumStock: '({amount} kg, {enrichment}% enriched)',
+    plutonium: 'Plutonium-239',
+    plutoniumStock: '({amount} kg)',
+    design: 'Bomb design:',
+    gun: 'Gun-type design',
+    gunHint: '(uranium-235 only)',
+    implosion: 'Implosion design',
+    implosionHint: '(more efficient)',
+    visuals: {
+      gun: 'Gun-type design (Little Boy)',
+      implosion: 'Implosion design (Fat Man)',
+      plutonium: 'Plutonium implosion design',
+    },
+    criticalMass: 'Critical mass needed:',
+    availableEnergy: 'Available energy:',
+    estimatedYield: 'Estimated yield:',
+    kilotons: 'kilotons of TNT equivalent',
+    yieldLow: 'Low yield',
+    yieldMedium: 'Medium yield',
+    yieldHigh: 'High yield',
+    cannotBuild: 'Cannot build:',
+    reasons: {
+      enrichment: 'Uranium enrichment too low ({enrichment}%). At least 90% needed.',
+      uranium: 'Not enough U-235 ({amount} kg). {required} kg needed.',
+      plutonium: 'Not enough Pu-239 ({amount} kg). {required} kg needed.',
+      energy: 'Not enough energy produced. At least 500 MeV needed.',
+    },
+    fissionRunning: 'Fission in progress:',
+    phases: {
+      initial: 'First fission',
+      criticality: 'Criticality',
+      explosion: 'Explosion',
+    },
+    arm: 'Arm',
+    disarm: 'Disarm',
+    detonate: 'Detonate',
+    armed: {
+      title: 'Nuclear weapon armed',
+      description: '{material} bomb with a {design} design.',
+    },
+  },
+  radiationLab: {
+    title: 'Radiation lab',
+    active: 'Radiation on',
+    effectsVisible: 'Effects visible',
+    stop: 'Stop irradiating',
+    irradiate: 'Irradiate with {symbol}',
+    parameters: 'Radiation settings',
+    type: 'Radiation type',
+    dose: 'Radiation dose',
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    materialProperties: 'Material properties',
+    resistance: 'Radiation resistance',
+    cumulativeDose: 'Total dose',
+    damage: 'Damage',
+    visibleEffect: 'Visible effect',
+    none: 'None',
+    radiation: {
+      alpha: {
+        name: 'Alpha radiation',
+        description: 'Helium nuclei (α) - short range, strong ionization',
+      },
+      beta: {
+        name: 'Beta radiation',
+        description: 'Electrons (β) - medium range, medium ionization',
+      },
+      gamma: {
+        name: 'Gamma radiation',
+        description: 'High-energy photons (γ) - long range, weak ionization',
+      },
+      neutron: {
+        name: 'Neutrons',
+        description: 'Neutrons (n) - long range, can transform nuclei',
+      },
+    },
+    materials: {
+      dna: {
+        tab: 'DNA',
+        structure: 'DNA strand',
+        effect: 'Strand break',
+        description: 'DNA is very sensitive to radiation, which can cause mutations and damage.',
+        explanationTitle: 'DNA and radiation',
+        explanation: 'DNA is especially sensitive to ionizing radiation. Alpha radiation (α) can cause severe damage on direct contact, while gamma radiation (γ) penetrates deeper. Radiation damage to DNA can cause single and double strand breaks, which in turn can lead to mutations or cell death.',
+      },
+      metal: {
+        tab: 'Metal',
+        structure: 'Metal lattice',
+        effect: 'Material fatigue',
+        description: 'Metals resist radiation well, but can become brittle at high doses.',
+        explanationTitle: 'Metals and radiation',
+        explanation: 'Metals are fairly resistant to radiation, especially to alpha (α) and beta radiation (β). At high doses, however, electrons can be knocked out of the metal lattice, which can change the mechanical properties of the metal. Long exposure leads to embrittlement and material fatigue.',
+      },
+      plastic: {
+        tab: 'Plastic',
+        structure: 'Polymer chains',
+        effect: 'Embrittlement',
+        description: 'Plastics can become brittle under radiation and lose their structure.',
+        explanationTitle: 'Plastics and radiation',
+        explanation: 'Plastics are easily damaged by radiation, because high-energy radiation can break polymer chains. This leads to embrittlement, discoloration and loss of structure. Gamma radiation (γ) is often used on purpose to sterilize plastics or to change their properties.',
+      },
+      crystal: {
+        tab: 'Crystal',
+        structure: 'Crystal structure',
+        effect: 'Color centers',
+        description: 'Crystals can form color centers and be made to glow by radiation.',
+        explanationTitle: 'Crystals and radiation',
+        explanation: 'In crystals, radiation can create color centers by trapping electrons in gaps of the lattice. These centers absorb light and can be made to glow. This effect is used in dosimetry to measure radiation doses. It also explains why some gemstones got their color from natural radiation over millions of years.',
+      },
+    },
+  },
+  elements: {
+    n: 'Neutron',
+    H: 'Hydrogen',
+    He: 'Helium',
+    Li: 'Lithium',
+    Be: 'Beryllium',
+    B: 'Boron',
+    C: 'Carbon',
+    N: 'Nitrogen',
+    O: 'Oxygen',
+    F: 'Fluorine',
+    Ne: 'Neon',
+    Na: 'Sodium',
+    Mg: 'Magnesium',
+    Al: 'Aluminium',
+    Si: 'Silicon',
+    P: 'Phosphorus',
+    S: 'Sulfur',
+    Cl: 'Chlorine',
+    Ar: 'Argon',
+    K: 'Potassium',
+    Ca: 'Calcium',
+    Sc: 'Scandium',
+    Ti: 'Titanium',
+    V: 'Vanadium',
+    Cr: 'Chromium',
+    Mn: 'Manganese',
+    Fe: 'Iron',
+    Co: 'Cobalt',
+    Ni: 'Nickel',
+    Cu: 'Copper',
+    Zn: 'Zinc',
+    Ga: 'Gallium',
+    Ge: 'Germanium',
+    As: 'Arsenic',
+    Se: 'Selenium',
+    Br: 'Bromine',
+    Kr: 'Krypton',
+    Rb: 'Rubidium',
+    Sr: 'Strontium',
+    Y: 'Yttrium',
+    Zr: 'Zirconium',
+    Nb: 'Niobium',
+    Mo: 'Molybdenum',
+    Tc: 'Technetium',
+    Ru: 'Ruthenium',
+    Rh: 'Rhodium',
+    Pd: 'Palladium',
+    Ag: 'Silver',
+    Cd: 'Cadmium',
+    In: 'Indium',
+    Sn: 'Tin',
+    Sb: 'Antimony',
+    Te: 'Tellurium',
+    I: 'Iodine',
+    Xe: 'Xenon',
+    Cs: 'Caesium',
+    Ba: 'Barium',
+    La: 'Lanthanum',
+    Ce: 'Cerium',
+    Pr: 'Praseodymium',
+    Nd: 'Neodymium',
+    Pm: 'Promethium',
+    Sm: 'Samarium',
+    Eu: 'Europium',
+    Gd: 'Gadolinium',
+    Tb: 'Terbium',
+    Dy: 'Dysprosium',
+    Ho: 'Holmium',
+    Er: 'Erbium',
+    Tm: 'Thulium',
+    Yb: 'Ytterbium',
+    Lu: 'Lutetium',
+    Hf: 'Hafnium',
+    Ta: 'Tantalum',
+    W: 'Tungsten',
+    Re: 'Rhenium',
+    Os: 'Osmium',
+    Ir: 'Iridium',
+    Pt: 'Platinum',
+    Au: 'Gold',
+    Hg: 'Mercury',
+    Tl: 'Thallium',
+    Pb: 'Lead',
+    Bi: 'Bismuth',
+    Po: 'Polonium',
+    At: 'Astatine',
+    Rn: 'Radon',
+    Fr: 'Francium',
+    Ra: 'Radium',
+    Ac: 'Actinium',
+    Th: 'Thorium',
+    Pa: 'Protactinium',
+    U: 'Uranium',
+    Np: 'Neptunium',
+    Pu: 'Plutonium',
+  },
+};
@@ -1,27 +1,68 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import Game from '@/components/Game';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Trophy } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatSaveDate, getLastSlot, getNewGameSlot, loadSave, SaveGame } from '@/lib/save-game';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface GameSession {
+  id: number;
+  slot: string;
+  save: SaveGame | null;
+}
 
 const Index = () => {
+  const { t } = useI18n();
+  const [lastSlot] = useState(getLastSlot);
+  const [session, setSession] = useState<GameSession | null>(() =>
+    lastSlot ? null : { id: 0, slot: getNewGameSlot(), save: null }
+  );
+  const lastSave = lastSlot ? loadSave(lastSlot) : null;
+
+  const startSession = (slot: string, save: SaveGame | null) => {
+    setSession(prev => ({ id: (prev?.id ?? 0) + 1, slot, save }));
+  };
+
+  // A new game gets its own slot, so the autosave cannot overwrite earlier progress
+  const startNewGame = () => startSession(getNewGameSlot(), null);
+
   return (
     <div className="min-h-screen py-8 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-purple-50 to-blue-50">
       <div className="max-w-6xl mx-auto">
         <header className="text-center mb-10">
+          <div className="flex justify-end mb-4">
+            <LanguageSwitcher />
+          </div>
           <h1 className="text-4xl sm:text-5xl font-bold mb-4 text-primary">
-            Atom-Splode Abenteuer
+            {t('index.title')}
           </h1>
           <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-            Entdecke die spannende Welt der Kernphysik! 
-            Experimentiere mit verschiedenen Elementen und sieh, 
-            was passiert, wenn du Neutronen auf Atomkerne schießt.
+            {t('index.intro')}
           </p>
           
           <div className="flex justify-center gap-4 mt-6">
             <Link to="/radar-adventure">
               <Button variant="outline" className="text-blue-600 border-blue-300 hover:bg-blue-50">
-                Radar-Abenteuer spielen
+                {t('index.playRadar')}
+              </Button>
+            </Link>
+            <Link to="/trophies">
+              <Button variant="outline" className="text-amber-600 border-amber-300 hover:bg-amber-50">
+                <Trophy className="mr-2 h-4 w-4" />
+                {t('index.trophies')}
               </Button>
             </Link>
           </div>
@@ -29,15 +70,44 @@ const Index = () => {
 
         <main className="space-y-10">
           <section>
-            <Game />
+            {session && (
+              <Game
+                key={session.id}
+                saveSlot={session.slot}
+                initialSave={session.save}
+                onLoadSlot={slot => startSession(slot, loadSave(slot))}
+                onNewGame={startNewGame}
+              />
+            )}
           </section>
         </main>
 
         <footer className="mt-12 text-center text-gray-500 text-sm py-4">
-          <p>Ein interaktives Lernspiel über Kernphysik für Kinder ab 5 Jahren</p>
-          <p className="mt-2">© {new Date().getFullYear()} - Alle Rechte vorbehalten</p>
+          <p>{t('index.footer')}</p>
+          <p className="mt-2">{t('index.copyright', { year: new Date().getFullYear() })}</p>
         </footer>
       </div>
+
+      <AlertDialog open={!session && !!lastSlot}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('index.welcome.title')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {lastSave
+                ? t('index.welcome.descriptionWithDate', { slot: lastSlot, date: formatSaveDate(lastSave.savedAt) })
+                : t('index.welcome.description', { slot: lastSlot })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={startNewGame}>
+              {t('index.welcome.newGame')}
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={() => lastSlot && startSession(lastSlot, lastSave)}>
+              {t('index.welcome.continue')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
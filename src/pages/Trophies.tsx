@@ -0,0 +1,102 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ChevronLeft, Lock, Trophy } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAchievements } from '@/hooks/use-achievements';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  AchievementLab,
+  achievementLabNames,
+  achievements,
+  getAchievementProgress,
+  getLabAchievements,
+} from '@/lib/achievements';
+import { formatSaveDate } from '@/lib/save-game';
+
+const Trophies = () => {
+  const { t } = useI18n();
+  const achievementState = useAchievements();
+  const unlockedCount = achievements.filter(achievement => achievementState.unlocked[achievement.id]).length;
+  const labs = Object.keys(achievementLabNames) as AchievementLab[];
+
+  return (
+    <div className="min-h-screen py-8 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-amber-50 to-orange-50">
+      <div className="max-w-6xl mx-auto">
+        <header className="flex items-center justify-between mb-8">
+          <Link to="/">
+            <Button variant="ghost" size="sm" className="flex items-center gap-1">
+              <ChevronLeft className="h-4 w-4" />
+              {t('common.backToMenu')}
+            </Button>
+          </Link>
+        </header>
+
+        <div className="text-center mb-10">
+          <h1 className="text-4xl sm:text-5xl font-bold mb-4 text-primary flex items-center justify-center gap-3">
+            <Trophy className="h-10 w-10 text-amber-500" />
+            {t('index.trophies')}
+          </h1>
+          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+            {t('achievements.trophiesDescription', { unlocked: unlockedCount, total: achievements.length })}
+          </p>
+          <Progress value={(unlockedCount / achievements.length) * 100} className="max-w-md mx-auto mt-4" />
+        </div>
+
+        <main className="space-y-8">
+          {labs.map(lab => (
+            <section key={lab}>
+              <h2 className="text-2xl font-semibold mb-3">{t(achievementLabNames[lab])}</h2>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {getLabAchievements(lab).map(achievement => {
+                  const unlockedAt = achievementState.unlocked[achievement.id];
+                  const progress = getAchievementProgress(achievement, achievementState);
+                  const Icon = unlockedAt ? achievement.icon : Lock;
+
+                  return (
+                    <Card
+                      key={achievement.id}
+                      className={cn(
+                        "p-4 flex gap-3",
+                        unlockedAt ? "bg-white border-amber-200" : "bg-gray-50 border-gray-200"
+                      )}
+                    >
+                      <div
+                        className={cn(
+                          "h-10 w-10 shrink-0 rounded-full flex items-center justify-center",
+                          unlockedAt ? "bg-amber-100" : "bg-gray-200"
+                        )}
+                      >
+                        <Icon className={cn("h-5 w-5", unlockedAt ? achievement.color : "text-gray-400")} />
+                      </div>
+                      <div className="flex-1">
+                        <div className={cn("font-medium", !unlockedAt && "text-gray-500")}>{t(achievement.name)}</div>
+                        <div className="text-sm text-gray-600">{t(achievement.description)}</div>
+                        {unlockedAt ? (
+                          <div className="text-xs text-amber-700 mt-1">
+                            {t('achievements.unlockedAt', { date: formatSaveDate(unlockedAt) })}
+                          </div>
+                        ) : achievement.target > 1 && (
+                          <div className="mt-2">
+                            <Progress value={(progress / achievement.target) * 100} className="h-2" />
+                            <div className="text-xs text-gray-500 mt-1">
+                              {progress} / {achievement.target}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </Card>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default Trophies;
@@ -71,6 +71,9 @@ export default {
 					neptunium239: '#7C3AED',
 					plutonium239: '#D946EF',
 					thorium232: '#3B82F6',
+					thorium233: '#2563EB',
+					protactinium233: '#0EA5E9',
+					uranium233: '#14B8A6',
 					neutron: '#F97316',
 					energy: '#FCD34D'
 				}